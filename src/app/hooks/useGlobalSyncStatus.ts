@@ -2,6 +2,7 @@ import { useEffect, useState } from 'react';
 import { useAuth } from '../../core/auth';
 import { media } from '../../data/media';
 import { conflicts } from '../../data/sync/conflicts';
+import { syncEngine } from '../../data/sync/sync-engine';
 import { useSyncStatus } from '../../data/sync/useSyncStatus';
 
 export type GlobalSyncStatus = {
@@ -20,6 +21,11 @@ export function useGlobalSyncStatus(): GlobalSyncStatus {
   const [openConflicts, setOpenConflicts] = useState(0);
   const [failedUploads, setFailedUploads] = useState(0);
 
+  useEffect(() => {
+    // The pull phase needs to know which org's deltas to fetch.
+    syncEngine.setContext({ org_id: activeOrgId });
+  }, [activeOrgId]);
+
   useEffect(() => {
     let cancelled = false;
 
@@ -377,6 +377,18 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     };
   }, [session]);
 
+  useEffect(() => {
+    if (!session || !activeOrgId) {
+      return;
+    }
+
+    rules.startScheduler();
+
+    return () => {
+      rules.stopScheduler();
+    };
+  }, [activeOrgId, session]);
+
   const signInWithPassword = useCallback(async (input: { email: string; password: string }) => {
     await securityAuth.signIn(input.email, input.password);
   }, []);
@@ -24,6 +24,7 @@ const DEFAULT_PERMISSIONS: Record<AppRole, string[]> = {
     'documents:*',
     'exports:*',
     'control:*',
+    'rules:*',
     'offline:read',
     'security:read'
   ],
@@ -18,6 +18,7 @@ export type ModuleKey =
   | 'security'
   | 'backup'
   | 'governance'
+  | 'rules'
   | 'control'
   | 'accelerators'
   | 'conflicts'
@@ -46,5 +47,6 @@ export const modules: Array<{ key: ModuleKey; label: string; hint: string }> = [
   { key: 'security', label: 'Sécurité', hint: 'RLS & signatures' },
   { key: 'governance', label: 'Gouvernance', hint: 'RGPD, rétention, portabilité' },
   { key: 'backup', label: 'Sauvegarde', hint: 'Export / import local' },
+  { key: 'rules', label: 'Règles', hint: 'Moteur de règles & simulation' },
   { key: 'superadmin', label: 'Super-admin', hint: 'Console support (MFA)' }
 ];
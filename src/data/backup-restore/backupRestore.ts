@@ -1,7 +1,10 @@
 import * as FileSystem from 'expo-file-system/legacy';
+import * as Network from 'expo-network';
 import * as SQLite from 'expo-sqlite';
 import JSZip from 'jszip';
 import { z } from 'zod';
+import { appEnv } from '../../core/env';
+import { requireSupabaseClient } from '../../core/supabase/client';
 import {
   BackupExportOptions,
   BackupImportMode,
@@ -10,7 +13,8 @@ import {
   BackupManifestFile,
   BackupRecord,
   BackupStatus,
-  BackupType
+  BackupType,
+  ServerSnapshot
 } from './types';
 
 const DB_NAME = 'conformeo.db';
@@ -19,6 +23,14 @@ const BACKUP_FORMAT_VERSION = 1 as const;
 
 const BACKUP_ROOT_DIR = 'conformeo_backups';
 
+const SNAPSHOTS_TABLE = 'backup_snapshots';
+const SNAPSHOTS_BUCKET = 'conformeo-backups';
+const SNAPSHOT_SIGNED_URL_TTL_SEC = 10 * 60;
+
+// Local search index (FTS5 virtual table, shadow tables, triggers): derived data, rebuilt by the
+// search module from business tables. Never dumped nor restored (raw shadow rows would corrupt it).
+const DERIVED_OBJECT_PREFIXES = ['search_index', 'search_entries', 'idx_search_', 'trg_search_'];
+
 const MAX_BACKUP_TOTAL_BYTES_WITH_MEDIA = 350 * 1024 * 1024; // safety guard
 
 type SchemaDump = {
@@ -69,6 +81,19 @@ const ManifestSchema = z.object({
     .optional()
 });
 
+/** `backup_snapshots` row as selected by `snapshots.list` / `snapshots.restore`. */
+const SnapshotRowSchema = z.object({
+  id: z.string().min(8),
+  org_id: z.string().min(8),
+  storage_path: z.string().min(1),
+  // bigint column: accepted as a number or a numeric string.
+  size_bytes: z.coerce.number().int().nonnegative(),
+  include_media: z.boolean(),
+  format_version: z.number().int(),
+  created_by: z.string().min(8),
+  created_at: z.string().min(10)
+});
+
 let dbPromise: Promise<SQLite.SQLiteDatabase> | null = null;
 let setupPromise: Promise<void> | null = null;
 
@@ -115,6 +140,10 @@ function sanitizeFileStem(input: string) {
   return normalized.length > 0 ? normalized : 'backup';
 }
 
+function isDerivedObject(name: string) {
+  return DERIVED_OBJECT_PREFIXES.some((prefix) => name.startsWith(prefix));
+}
+
 function ensureNonEmpty(value: string, label: string) {
   if (value.trim().length === 0) {
     throw new Error(`${label} manquant.`);
@@ -128,6 +157,22 @@ function requireContext() {
   return { org_id: contextOrgId, user_id: contextUserId };
 }
 
+function requireSnapshotsBackend() {
+  if (!appEnv.isSupabaseConfigured) {
+    throw new Error('Snapshots serveur indisponibles: Supabase non configure.');
+  }
+  return requireSupabaseClient();
+}
+
+async function assertOnline() {
+  const state = await Network.getNetworkStateAsync();
+  const online = Boolean(state.isConnected && state.isInternetReachable !== false);
+
+  if (!online) {
+    throw new Error('Reseau requis pour les snapshots serveur.');
+  }
+}
+
 async function getDb() {
   if (!dbPromise) {
     dbPromise = SQLite.openDatabaseAsync(DB_NAME);
@@ -212,6 +257,19 @@ async function patchBackup(id: string, patch: Partial<BackupRecord>) {
   await upsertBackup({ ...current, ...patch });
 }
 
+function mapSnapshotRow(row: unknown): ServerSnapshot {
+  return SnapshotRowSchema.parse(row);
+}
+
+function archiveFilename(orgId: string, createdAt: string, backupId: string) {
+  const datePart = createdAt.slice(0, 10).replace(/-/g, '');
+  return `BACKUP_${sanitizeFileStem(orgId)}_${datePart}_${backupId}.zip`;
+}
+
+function snapshotRemotePath(record: BackupRecord) {
+  return `${record.org_id}/snapshots/${record.created_at.slice(0, 10)}/${record.id}.zip`;
+}
+
 async function readFileSize(path: string) {
   const info = await FileSystem.getInfoAsync(path);
   if (!info.exists || info.isDirectory) {
@@ -346,7 +404,7 @@ async function dumpSchema(): Promise<SchemaDump> {
       continue;
     }
 
-    if (row.name === BACKUPS_TABLE) {
+    if (row.name === BACKUPS_TABLE || isDerivedObject(row.name)) {
       continue;
     }
 
@@ -365,7 +423,9 @@ async function dumpSchema(): Promise<SchemaDump> {
 async function dumpTableData(orgId: string | null) {
   const db = await getDb();
   const objects = await listSqliteObjects();
-  const tables = objects.filter((row) => row.type === 'table' && row.name !== BACKUPS_TABLE).map((row) => row.name);
+  const tables = objects
+    .filter((row) => row.type === 'table' && row.name !== BACKUPS_TABLE && !isDerivedObject(row.name))
+    .map((row) => row.name);
 
   const result: Record<string, unknown[]> = {};
 
@@ -523,7 +583,7 @@ async function clearOrgDataForReplace(orgId: string) {
   const tables = objects.filter((row) => row.type === 'table').map((row) => row.name);
 
   // avoid wiping backups + keep SQLite internal tables already excluded by listSqliteObjects()
-  const ordered = tables.filter((name) => name !== BACKUPS_TABLE);
+  const ordered = tables.filter((name) => name !== BACKUPS_TABLE && !isDerivedObject(name));
 
   await db.execAsync('PRAGMA foreign_keys = OFF;');
 
@@ -560,6 +620,7 @@ async function ensureSchemaFromDump(schema: SchemaDump) {
   const db = await getDb();
 
   const statements = [...schema.tables, ...schema.indexes, ...schema.triggers]
+    .filter((item) => !isDerivedObject(item.name))
     .map((item) => item.sql)
     .filter((sql) => typeof sql === 'string' && sql.trim().length > 0);
 
@@ -599,6 +660,106 @@ async function insertRows(tableName: string, rows: unknown[]) {
   }
 }
 
+/**
+ * Builds the backup ZIP (manifest + db schema/data + optional files) for `record`
+ * and writes it under `conformeo_backups/`. Shared by local exports and server snapshots.
+ */
+async function writeArchive(record: BackupRecord, userId: string | null) {
+  const { id: backupId, org_id, created_at: createdAt } = record;
+
+  const schema = await dumpSchema();
+  const dataByTable = await dumpTableData(org_id);
+
+  const zip = new JSZip();
+
+  const tableEntries = Object.entries(dataByTable);
+  const dbTablesManifest = tableEntries.map(([name, rows]) => ({ name, row_count: rows.length }));
+
+  zip.file('manifest.json', JSON.stringify({
+    format_version: BACKUP_FORMAT_VERSION,
+    backup_id: backupId,
+    org_id,
+    created_at: createdAt,
+    created_by: userId ?? undefined,
+    include_media: record.include_media,
+    app: { name: 'conformeo' },
+    db: { tables: dbTablesManifest }
+  } satisfies BackupManifest, null, 2));
+
+  zip.file('db/schema.json', JSON.stringify(schema, null, 2));
+
+  for (const [tableName, rows] of tableEntries) {
+    zip.file(`db/data/${tableName}.json`, JSON.stringify(rows, null, 2));
+  }
+
+  let filesManifest: BackupManifest['files'] | undefined;
+
+  if (record.include_media) {
+    const mediaPaths = await collectMediaFiles(org_id);
+    const entries: BackupManifestFile[] = [];
+    let totalBytes = 0;
+
+    for (const absolutePath of mediaPaths) {
+      const relative = toRelativeDocumentPath(absolutePath);
+      if (!relative) {
+        continue;
+      }
+
+      const safeRelative = assertSafeRelativePath(relative);
+      const absolute = toAbsoluteDocumentPath(safeRelative);
+      const size = await readFileSize(absolute);
+      if (size <= 0) {
+        continue;
+      }
+
+      totalBytes += size;
+      if (totalBytes > MAX_BACKUP_TOTAL_BYTES_WITH_MEDIA) {
+        throw new Error(
+          `Backup trop lourd (~${Math.round(totalBytes / 1024 / 1024)}MB). Refaire sans medias, ou purger.`
+        );
+      }
+
+      await zipAddFileBase64(zip, `files/${safeRelative}`, absolute);
+      entries.push({ path: safeRelative, size_bytes: size });
+    }
+
+    filesManifest = {
+      total_count: entries.length,
+      total_bytes: totalBytes,
+      entries
+    };
+
+    const manifestRaw = zip.file('manifest.json');
+    if (manifestRaw) {
+      const parsed = ManifestSchema.parse(
+        JSON.parse(await manifestRaw.async('text')) as unknown
+      ) as BackupManifest;
+      zip.file(
+        'manifest.json',
+        JSON.stringify(
+          { ...parsed, files: filesManifest } satisfies BackupManifest,
+          null,
+          2
+        )
+      );
+    }
+  }
+
+  const zipBase64 = await zip.generateAsync({
+    type: 'base64',
+    compression: 'DEFLATE',
+    compressionOptions: { level: 6 }
+  });
+
+  const finalPath = `${backupsDir()}${archiveFilename(org_id, createdAt, backupId)}`;
+
+  await FileSystem.writeAsStringAsync(finalPath, zipBase64, {
+    encoding: FileSystem.EncodingType.Base64
+  });
+
+  return { path: finalPath, size_bytes: await readFileSize(finalPath) };
+}
+
 export const backup = {
   setContext(input: { org_id?: string; user_id?: string } | null) {
     contextOrgId = input?.org_id?.trim() ? input.org_id.trim() : null;
@@ -642,105 +803,13 @@ export const backup = {
     await upsertBackup(record);
 
     try {
-      const schema = await dumpSchema();
-      const dataByTable = await dumpTableData(org_id);
-
-      const zip = new JSZip();
-
-      const tableEntries = Object.entries(dataByTable);
-      const dbTablesManifest = tableEntries.map(([name, rows]) => ({ name, row_count: rows.length }));
-
-      zip.file('manifest.json', JSON.stringify({
-        format_version: BACKUP_FORMAT_VERSION,
-        backup_id: backupId,
-        org_id,
-        created_at: createdAt,
-        created_by: user_id ?? undefined,
-        include_media: Boolean(opts.includeMedia),
-        app: { name: 'conformeo' },
-        db: { tables: dbTablesManifest }
-      } satisfies BackupManifest, null, 2));
-
-      zip.file('db/schema.json', JSON.stringify(schema, null, 2));
-
-      for (const [tableName, rows] of tableEntries) {
-        zip.file(`db/data/${tableName}.json`, JSON.stringify(rows, null, 2));
-      }
-
-      let filesManifest: BackupManifest['files'] | undefined;
-
-      if (opts.includeMedia) {
-        const mediaPaths = await collectMediaFiles(org_id);
-        const entries: BackupManifestFile[] = [];
-        let totalBytes = 0;
-
-        for (const absolutePath of mediaPaths) {
-          const relative = toRelativeDocumentPath(absolutePath);
-          if (!relative) {
-            continue;
-          }
-
-          const safeRelative = assertSafeRelativePath(relative);
-          const absolute = toAbsoluteDocumentPath(safeRelative);
-          const size = await readFileSize(absolute);
-          if (size <= 0) {
-            continue;
-          }
-
-          totalBytes += size;
-          if (totalBytes > MAX_BACKUP_TOTAL_BYTES_WITH_MEDIA) {
-            throw new Error(
-              `Backup trop lourd (~${Math.round(totalBytes / 1024 / 1024)}MB). Refaire sans medias, ou purger.`
-            );
-          }
-
-          await zipAddFileBase64(zip, `files/${safeRelative}`, absolute);
-          entries.push({ path: safeRelative, size_bytes: size });
-        }
-
-        filesManifest = {
-          total_count: entries.length,
-          total_bytes: totalBytes,
-          entries
-        };
-
-        const manifestRaw = zip.file('manifest.json');
-        if (manifestRaw) {
-          const parsed = ManifestSchema.parse(
-            JSON.parse(await manifestRaw.async('text')) as unknown
-          ) as BackupManifest;
-          zip.file(
-            'manifest.json',
-            JSON.stringify(
-              { ...parsed, files: filesManifest } satisfies BackupManifest,
-              null,
-              2
-            )
-          );
-        }
-      }
-
-      const zipBase64 = await zip.generateAsync({
-        type: 'base64',
-        compression: 'DEFLATE',
-        compressionOptions: { level: 6 }
-      });
-
-      const datePart = createdAt.slice(0, 10).replace(/-/g, '');
-      const filename = `BACKUP_${sanitizeFileStem(org_id)}_${datePart}_${backupId}.zip`;
-      const finalPath = `${backupsDir()}${filename}`;
-
-      await FileSystem.writeAsStringAsync(finalPath, zipBase64, {
-        encoding: FileSystem.EncodingType.Base64
-      });
-
-      const sizeBytes = await readFileSize(finalPath);
+      const archive = await writeArchive(record, user_id);
 
       const done: BackupRecord = {
         ...record,
         status: 'DONE',
-        path: finalPath,
-        size_bytes: sizeBytes
+        path: archive.path,
+        size_bytes: archive.size_bytes
       };
 
       await upsertBackup(done);
@@ -795,6 +864,10 @@ export const backup = {
 
     try {
       for (const table of manifest.db.tables) {
+        if (isDerivedObject(table.name)) {
+          continue;
+        }
+
         const file = zip.file(`db/data/${table.name}.json`);
         if (!file) {
           continue;
@@ -870,12 +943,195 @@ export const backup = {
   }
 };
 
+async function uploadSnapshot(remotePath: string, localPath: string) {
+  const client = requireSnapshotsBackend();
+
+  const response = await fetch(localPath);
+  if (!response.ok) {
+    throw new Error(`Impossible de lire le backup local (${response.status}).`);
+  }
+  const blob = await response.blob();
+
+  // Never overwrite: the path is unique per snapshot and the bucket has no update policy.
+  const { error } = await client.storage.from(SNAPSHOTS_BUCKET).upload(remotePath, blob, {
+    contentType: 'application/zip',
+    upsert: false
+  });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+}
+
+async function downloadSnapshot(remotePath: string, localPath: string) {
+  const client = requireSnapshotsBackend();
+
+  const { data, error } = await client.storage
+    .from(SNAPSHOTS_BUCKET)
+    .createSignedUrl(remotePath, SNAPSHOT_SIGNED_URL_TTL_SEC);
+
+  if (error || !data?.signedUrl) {
+    throw new Error(error?.message ?? 'URL de telechargement snapshot indisponible.');
+  }
+
+  const result = await FileSystem.downloadAsync(data.signedUrl, localPath);
+  if (result.status < 200 || result.status >= 300) {
+    await FileSystem.deleteAsync(localPath, { idempotent: true });
+    throw new Error(`Telechargement snapshot impossible (${result.status}).`);
+  }
+}
+
 export const snapshot = {
-  async createServerSnapshot() {
-    throw new Error('Snapshots serveur: v1 (non implemente).');
+  /**
+   * Builds the same bundle as `backup.exportAll`, uploads it to the `conformeo-backups`
+   * bucket and registers it server-side so another device can restore it.
+   */
+  async createServerSnapshot(opts: BackupExportOptions = { includeMedia: true }): Promise<BackupRecord> {
+    await ensureSetup();
+
+    const { org_id, user_id } = requireContext();
+    ensureNonEmpty(org_id, 'org_id');
+    if (!user_id) {
+      throw new Error('Contexte backup manquant: user_id non defini.');
+    }
+
+    const client = requireSnapshotsBackend();
+    await assertOnline();
+
+    const record: BackupRecord = {
+      id: createUuid(),
+      org_id,
+      type: 'SERVER_SNAPSHOT',
+      status: 'RUNNING',
+      created_at: nowIso(),
+      include_media: Boolean(opts.includeMedia)
+    };
+
+    await upsertBackup(record);
+
+    try {
+      const archive = await writeArchive(record, user_id);
+      await patchBackup(record.id, { path: archive.path, size_bytes: archive.size_bytes });
+
+      const remotePath = snapshotRemotePath(record);
+      await uploadSnapshot(remotePath, archive.path);
+
+      const { error } = await client.from(SNAPSHOTS_TABLE).insert({
+        id: record.id,
+        org_id,
+        storage_path: remotePath,
+        size_bytes: archive.size_bytes,
+        include_media: record.include_media,
+        format_version: BACKUP_FORMAT_VERSION,
+        created_by: user_id,
+        created_at: record.created_at
+      });
+
+      if (error) {
+        await client.storage.from(SNAPSHOTS_BUCKET).remove([remotePath]);
+        throw new Error(error.message);
+      }
+
+      const done: BackupRecord = {
+        ...record,
+        status: 'DONE',
+        path: archive.path,
+        size_bytes: archive.size_bytes
+      };
+
+      await upsertBackup(done);
+      return done;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Snapshot serveur error';
+      await patchBackup(record.id, { status: 'FAILED', last_error: message });
+      throw new Error(message);
+    }
   },
 
-  async restore() {
-    throw new Error('Restore serveur: v1 (non implemente).');
+  async list(): Promise<ServerSnapshot[]> {
+    const { org_id } = requireContext();
+    const client = requireSnapshotsBackend();
+
+    const { data, error } = await client
+      .from(SNAPSHOTS_TABLE)
+      .select('id, org_id, storage_path, size_bytes, include_media, format_version, created_by, created_at')
+      .eq('org_id', org_id)
+      .order('created_at', { ascending: false })
+      .limit(50);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return (data ?? []).map(mapSnapshotRow);
+  },
+
+  /**
+   * Restores a server snapshot with the regular import (`MERGE` by default).
+   * The ZIP is reused when this device produced it, otherwise downloaded first.
+   */
+  async restore(snapshotId: string, options: BackupImportOptions = {}): Promise<BackupRecord> {
+    await ensureSetup();
+
+    const { org_id } = requireContext();
+    const id = snapshotId.trim();
+    ensureNonEmpty(id, 'snapshotId');
+
+    const local = await backup.getById(id);
+    const reusable =
+      local &&
+      local.org_id === org_id &&
+      local.type === 'SERVER_SNAPSHOT' &&
+      local.status === 'DONE' &&
+      local.path &&
+      (await readFileSize(local.path)) > 0;
+
+    let record: BackupRecord;
+
+    if (reusable) {
+      record = local;
+    } else {
+      const client = requireSnapshotsBackend();
+      await assertOnline();
+
+      const { data, error } = await client
+        .from(SNAPSHOTS_TABLE)
+        .select('id, org_id, storage_path, size_bytes, include_media, format_version, created_by, created_at')
+        .eq('id', id)
+        .eq('org_id', org_id)
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      if (!data) {
+        throw new Error(`Snapshot introuvable: ${id}`);
+      }
+
+      const remote = mapSnapshotRow(data);
+      if (remote.format_version !== BACKUP_FORMAT_VERSION) {
+        throw new Error(`Snapshot incompatible (format_version=${remote.format_version}).`);
+      }
+
+      const localPath = `${backupsDir()}${archiveFilename(org_id, remote.created_at, remote.id)}`;
+      await downloadSnapshot(remote.storage_path, localPath);
+
+      record = {
+        id: remote.id,
+        org_id,
+        type: 'SERVER_SNAPSHOT',
+        status: 'DONE',
+        created_at: remote.created_at,
+        path: localPath,
+        size_bytes: await readFileSize(localPath),
+        include_media: remote.include_media
+      };
+
+      await upsertBackup(record);
+    }
+
+    await backup.import(record.path as string, options);
+    return record;
   }
 };
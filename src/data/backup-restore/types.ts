@@ -24,6 +24,17 @@ export type BackupImportOptions = {
   mode?: BackupImportMode;
 };
 
+export type ServerSnapshot = {
+  id: string;
+  org_id: string;
+  storage_path: string;
+  size_bytes: number;
+  include_media: boolean;
+  format_version: number;
+  created_by: string;
+  created_at: string;
+};
+
 export type BackupManifestFile = {
   path: string; // relative to FileSystem.documentDirectory
   size_bytes: number;
@@ -0,0 +1,584 @@
+import * as SQLite from 'expo-sqlite';
+import checklistCatalogJson from './checklistTemplate.json';
+import { offlineDB } from '../offline/outbox';
+import {
+  ChecklistItemType,
+  ChecklistTemplate,
+  ChecklistTemplateFilters,
+  ChecklistTemplateInput,
+  ChecklistTemplateItem,
+  ChecklistTemplateItemInput,
+  ChecklistTemplateSection,
+  ChecklistTemplateSectionInput
+} from './types';
+
+const DB_NAME = 'conformeo.db';
+const TEMPLATES_TABLE = 'inspection_templates';
+
+const BUILTIN_PREFIX = 'builtin:';
+const BUILTIN_CREATED_AT = '1970-01-01T00:00:00.000Z';
+
+const MAX_SECTIONS = 30;
+const MAX_ITEMS = 200;
+const MAX_WEIGHT = 100;
+
+const ITEM_TYPES: ChecklistItemType[] = ['YES_NO_NA', 'MEASURE', 'PHOTO', 'SIGNATURE'];
+
+export const CHECKLIST_TRADES: Array<{ key: string; label: string }> = [
+  { key: 'GENERAL', label: 'Général' },
+  { key: 'GROS_OEUVRE', label: 'Gros œuvre' },
+  { key: 'ELECTRICITE', label: 'Électricité' },
+  { key: 'PLOMBERIE', label: 'Plomberie' },
+  { key: 'CVC', label: 'CVC' },
+  { key: 'MENUISERIE', label: 'Menuiserie' },
+  { key: 'PEINTURE', label: 'Peinture / finitions' },
+  { key: 'COUVERTURE', label: 'Couverture' },
+  { key: 'AUTRE', label: 'Autre' }
+];
+
+type CatalogTemplate = {
+  key: string;
+  trade: string;
+  name: string;
+  description?: string;
+  version?: number;
+  sections: ChecklistTemplateSectionInput[];
+};
+
+type Catalog = {
+  default_key: string;
+  templates: CatalogTemplate[];
+};
+
+type TemplateRow = {
+  id: string;
+  org_id: string;
+  family_id: string;
+  version: number;
+  trade: string;
+  name: string;
+  description: string | null;
+  sections_json: string;
+  archived: number;
+  created_by: string | null;
+  created_at: string;
+};
+
+let dbPromise: Promise<SQLite.SQLiteDatabase> | null = null;
+let setupPromise: Promise<void> | null = null;
+
+function nowIso() {
+  return new Date().toISOString();
+}
+
+function normalizeText(value: string | null | undefined) {
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+function createUuid() {
+  const randomUUID = (globalThis as { crypto?: { randomUUID?: () => string } }).crypto?.randomUUID;
+  if (typeof randomUUID === 'function') {
+    return randomUUID();
+  }
+
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (char) => {
+    const random = Math.floor(Math.random() * 16);
+    const value = char === 'x' ? random : (random & 0x3) | 0x8;
+    return value.toString(16);
+  });
+}
+
+function slugify(value: string) {
+  return value
+    .normalize('NFD')
+    .replace(/[̀-ͯ]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .slice(0, 48);
+}
+
+function uniqueKey(base: string, used: Set<string>) {
+  let key = base;
+  let suffix = 2;
+
+  while (used.has(key)) {
+    key = `${base}_${suffix}`;
+    suffix += 1;
+  }
+
+  return key;
+}
+
+function optionalNumber(value: unknown, label: string) {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+
+  const parsed = typeof value === 'number' ? value : Number(value);
+  if (!Number.isFinite(parsed)) {
+    throw new Error(`${label} invalide.`);
+  }
+
+  return parsed;
+}
+
+export function normalizeTradeKey(value: string | undefined) {
+  const cleaned = normalizeText(value);
+  if (cleaned.length === 0) {
+    return 'GENERAL';
+  }
+
+  return slugify(cleaned).toUpperCase() || 'GENERAL';
+}
+
+export function tradeLabel(trade: string | undefined) {
+  const key = normalizeTradeKey(trade);
+  return CHECKLIST_TRADES.find((item) => item.key === key)?.label ?? key;
+}
+
+function normalizeItem(input: ChecklistTemplateItemInput, usedKeys: Set<string>, sectionLabel: string): ChecklistTemplateItem {
+  const label = normalizeText(input.label);
+  if (label.length === 0) {
+    throw new Error(`Section "${sectionLabel}": libellé d'item requis.`);
+  }
+
+  const type = input.type ?? 'YES_NO_NA';
+  if (!ITEM_TYPES.includes(type)) {
+    throw new Error(`Item "${label}": type ${String(type)} inconnu.`);
+  }
+
+  const explicitKey = slugify(normalizeText(input.key));
+  if (explicitKey.length > 0 && usedKeys.has(explicitKey)) {
+    throw new Error(`Clé d'item dupliquée: ${explicitKey}.`);
+  }
+
+  const key = explicitKey.length > 0 ? explicitKey : uniqueKey(slugify(label) || 'item', usedKeys);
+  usedKeys.add(key);
+
+  const weight = optionalNumber(input.weight, `Poids de "${label}"`) ?? 1;
+  if (weight < 0 || weight > MAX_WEIGHT) {
+    throw new Error(`Poids de "${label}" hors limites (0..${MAX_WEIGHT}).`);
+  }
+
+  const item: ChecklistTemplateItem = {
+    key,
+    label,
+    type,
+    required: input.required === true,
+    weight
+  };
+
+  const hint = normalizeText(input.hint);
+  if (hint.length > 0) {
+    item.hint = hint;
+  }
+
+  if (type === 'MEASURE') {
+    const min = optionalNumber(input.min, `Minimum de "${label}"`);
+    const max = optionalNumber(input.max, `Maximum de "${label}"`);
+
+    if (min !== undefined && max !== undefined && min > max) {
+      throw new Error(`Item "${label}": minimum supérieur au maximum.`);
+    }
+
+    const unit = normalizeText(input.unit);
+    if (unit.length > 0) item.unit = unit;
+    if (min !== undefined) item.min = min;
+    if (max !== undefined) item.max = max;
+  }
+
+  return item;
+}
+
+/** Validates editor/import input and assigns stable keys (unique across the whole template). */
+export function normalizeTemplateSections(sections: ChecklistTemplateSectionInput[]): ChecklistTemplateSection[] {
+  if (!Array.isArray(sections) || sections.length === 0) {
+    throw new Error('Le modèle doit contenir au moins une section.');
+  }
+
+  if (sections.length > MAX_SECTIONS) {
+    throw new Error(`Trop de sections (max ${MAX_SECTIONS}).`);
+  }
+
+  const sectionKeys = new Set<string>();
+  const itemKeys = new Set<string>();
+  let itemCount = 0;
+
+  const normalized = sections.map((section) => {
+    const label = normalizeText(section.label);
+    if (label.length === 0) {
+      throw new Error('Libellé de section requis.');
+    }
+
+    if (!Array.isArray(section.items) || section.items.length === 0) {
+      throw new Error(`Section "${label}": au moins un item requis.`);
+    }
+
+    const key = uniqueKey(slugify(normalizeText(section.key)) || slugify(label) || 'section', sectionKeys);
+    sectionKeys.add(key);
+
+    itemCount += section.items.length;
+
+    return {
+      key,
+      label,
+      items: section.items.map((item) => normalizeItem(item, itemKeys, label))
+    };
+  });
+
+  if (itemCount > MAX_ITEMS) {
+    throw new Error(`Trop d'items (max ${MAX_ITEMS}).`);
+  }
+
+  return normalized;
+}
+
+function resolveCatalog() {
+  const parsed = checklistCatalogJson as Catalog;
+
+  if (!parsed || !Array.isArray(parsed.templates) || parsed.templates.length === 0) {
+    throw new Error('Catalogue de checklists invalide.');
+  }
+
+  const templates = parsed.templates.map<ChecklistTemplate>((entry) => {
+    const id = `${BUILTIN_PREFIX}${entry.key}`;
+    return {
+      id,
+      family_id: id,
+      trade: normalizeTradeKey(entry.trade),
+      name: normalizeText(entry.name),
+      description: normalizeText(entry.description) || undefined,
+      version: entry.version ?? 1,
+      sections: normalizeTemplateSections(entry.sections),
+      builtin: true,
+      archived: false,
+      created_at: BUILTIN_CREATED_AT
+    };
+  });
+
+  const defaultTemplate = templates.find((template) => template.id === `${BUILTIN_PREFIX}${parsed.default_key}`);
+  if (!defaultTemplate) {
+    throw new Error('Catalogue de checklists: modèle par défaut introuvable.');
+  }
+
+  return { templates, defaultTemplate };
+}
+
+const catalog = resolveCatalog();
+
+export function getDefaultTemplate() {
+  return catalog.defaultTemplate;
+}
+
+export function isBuiltinTemplateId(templateId: string) {
+  return templateId.startsWith(BUILTIN_PREFIX);
+}
+
+function parseSections(raw: string): ChecklistTemplateSection[] {
+  try {
+    const parsed = JSON.parse(raw) as ChecklistTemplateSection[];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+function mapTemplateRow(row: TemplateRow): ChecklistTemplate {
+  return {
+    id: row.id,
+    family_id: row.family_id,
+    org_id: row.org_id,
+    trade: row.trade,
+    name: row.name,
+    description: row.description ?? undefined,
+    version: row.version,
+    sections: parseSections(row.sections_json),
+    builtin: false,
+    archived: row.archived === 1,
+    created_by: row.created_by ?? undefined,
+    created_at: row.created_at
+  };
+}
+
+async function getDb() {
+  if (!dbPromise) {
+    dbPromise = SQLite.openDatabaseAsync(DB_NAME);
+  }
+
+  return dbPromise;
+}
+
+async function ensureSetup() {
+  if (!setupPromise) {
+    setupPromise = (async () => {
+      const db = await getDb();
+
+      await db.execAsync(`
+        PRAGMA journal_mode = WAL;
+
+        CREATE TABLE IF NOT EXISTS ${TEMPLATES_TABLE} (
+          id TEXT PRIMARY KEY NOT NULL,
+          org_id TEXT NOT NULL,
+          family_id TEXT NOT NULL,
+          version INTEGER NOT NULL,
+          trade TEXT NOT NULL,
+          name TEXT NOT NULL,
+          description TEXT,
+          sections_json TEXT NOT NULL,
+          archived INTEGER NOT NULL DEFAULT 0,
+          created_by TEXT,
+          created_at TEXT NOT NULL,
+          UNIQUE(org_id, family_id, version)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_inspection_templates_org_family
+          ON ${TEMPLATES_TABLE}(org_id, family_id, version DESC);
+
+        CREATE INDEX IF NOT EXISTS idx_inspection_templates_org_trade
+          ON ${TEMPLATES_TABLE}(org_id, trade, archived);
+      `);
+    })();
+  }
+
+  return setupPromise;
+}
+
+/** Creates the template table up front: the sync pull only applies `inspection_templates` once it exists. */
+export async function ensureTemplatesSetup() {
+  await ensureSetup();
+}
+
+async function enqueueTemplateOperation(row: TemplateRow, type: 'CREATE' | 'UPDATE') {
+  await offlineDB.enqueueOperation({
+    entity: 'inspection_templates',
+    entity_id: row.id,
+    type,
+    payload: {
+      ...row,
+      archived: row.archived === 1,
+      orgId: row.org_id
+    }
+  });
+}
+
+/** Latest version of every template family of the org, plus the built-in catalog. */
+export async function listTemplates(orgId: string, filters: ChecklistTemplateFilters = {}) {
+  await ensureSetup();
+  const db = await getDb();
+
+  const rows = await db.getAllAsync<TemplateRow>(
+    `
+      SELECT t.*
+      FROM ${TEMPLATES_TABLE} t
+      WHERE t.org_id = ?
+        AND t.version = (
+          SELECT MAX(v.version)
+          FROM ${TEMPLATES_TABLE} v
+          WHERE v.org_id = t.org_id
+            AND v.family_id = t.family_id
+        )
+      ORDER BY t.name COLLATE NOCASE ASC
+    `,
+    orgId
+  );
+
+  const trade = filters.trade ? normalizeTradeKey(filters.trade) : null;
+  const orgTemplates = rows
+    .map(mapTemplateRow)
+    .filter((template) => filters.include_archived === true || !template.archived);
+
+  const all = filters.include_builtin === false ? orgTemplates : [...orgTemplates, ...catalog.templates];
+  return trade ? all.filter((template) => template.trade === trade) : all;
+}
+
+export async function listTemplateVersions(orgId: string, familyId: string) {
+  const safeFamilyId = normalizeText(familyId);
+  if (safeFamilyId.length === 0) {
+    throw new Error('familyId est requis.');
+  }
+
+  if (isBuiltinTemplateId(safeFamilyId)) {
+    return catalog.templates.filter((template) => template.family_id === safeFamilyId);
+  }
+
+  await ensureSetup();
+  const db = await getDb();
+
+  const rows = await db.getAllAsync<TemplateRow>(
+    `
+      SELECT *
+      FROM ${TEMPLATES_TABLE}
+      WHERE org_id = ?
+        AND family_id = ?
+      ORDER BY version DESC
+    `,
+    orgId,
+    safeFamilyId
+  );
+
+  return rows.map(mapTemplateRow);
+}
+
+/**
+ * Resolves a template by version id, or by family id (latest version).
+ * Archived versions stay resolvable so that past inspections keep their definition.
+ */
+export async function getTemplate(orgId: string, templateId: string) {
+  const safeId = normalizeText(templateId);
+  if (safeId.length === 0) {
+    return null;
+  }
+
+  if (isBuiltinTemplateId(safeId)) {
+    return catalog.templates.find((template) => template.id === safeId) ?? null;
+  }
+
+  await ensureSetup();
+  const db = await getDb();
+
+  const row = await db.getFirstAsync<TemplateRow>(
+    `
+      SELECT *
+      FROM ${TEMPLATES_TABLE}
+      WHERE org_id = ?
+        AND (id = ? OR family_id = ?)
+      ORDER BY CASE WHEN id = ? THEN 0 ELSE 1 END, version DESC
+      LIMIT 1
+    `,
+    orgId,
+    safeId,
+    safeId,
+    safeId
+  );
+
+  return row ? mapTemplateRow(row) : null;
+}
+
+/** Never edits in place: every save creates a new version so existing inspections keep theirs. */
+export async function saveTemplate(orgId: string, userId: string, input: ChecklistTemplateInput) {
+  const name = normalizeText(input.name);
+  if (name.length === 0) {
+    throw new Error('Nom du modèle requis.');
+  }
+
+  const sections = normalizeTemplateSections(input.sections);
+  const trade = normalizeTradeKey(input.trade);
+
+  await ensureSetup();
+  const db = await getDb();
+
+  let familyId = normalizeText(input.family_id);
+  let version = 1;
+
+  if (familyId.length > 0) {
+    if (isBuiltinTemplateId(familyId)) {
+      throw new Error('Les modèles intégrés ne sont pas modifiables: enregistrez une copie.');
+    }
+
+    const latest = await db.getFirstAsync<{ version: number | null; archived: number | null }>(
+      `
+        SELECT MAX(version) AS version, MAX(archived) AS archived
+        FROM ${TEMPLATES_TABLE}
+        WHERE org_id = ?
+          AND family_id = ?
+      `,
+      orgId,
+      familyId
+    );
+
+    if (!latest?.version) {
+      throw new Error('Modèle introuvable.');
+    }
+
+    if (latest.archived === 1) {
+      throw new Error('Modèle archivé: modification impossible.');
+    }
+
+    version = latest.version + 1;
+  } else {
+    familyId = createUuid();
+  }
+
+  const row: TemplateRow = {
+    id: createUuid(),
+    org_id: orgId,
+    family_id: familyId,
+    version,
+    trade,
+    name,
+    description: normalizeText(input.description) || null,
+    sections_json: JSON.stringify(sections),
+    archived: 0,
+    created_by: userId,
+    created_at: nowIso()
+  };
+
+  await db.runAsync(
+    `
+      INSERT INTO ${TEMPLATES_TABLE}
+      (id, org_id, family_id, version, trade, name, description, sections_json, archived, created_by, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `,
+    row.id,
+    row.org_id,
+    row.family_id,
+    row.version,
+    row.trade,
+    row.name,
+    row.description,
+    row.sections_json,
+    row.archived,
+    row.created_by,
+    row.created_at
+  );
+
+  await enqueueTemplateOperation(row, 'CREATE');
+
+  return mapTemplateRow(row);
+}
+
+export async function archiveTemplate(orgId: string, familyId: string) {
+  const safeFamilyId = normalizeText(familyId);
+  if (safeFamilyId.length === 0) {
+    throw new Error('familyId est requis.');
+  }
+
+  if (isBuiltinTemplateId(safeFamilyId)) {
+    throw new Error('Les modèles intégrés ne peuvent pas être archivés.');
+  }
+
+  await ensureSetup();
+  const db = await getDb();
+
+  const rows = await db.getAllAsync<TemplateRow>(
+    `
+      SELECT *
+      FROM ${TEMPLATES_TABLE}
+      WHERE org_id = ?
+        AND family_id = ?
+        AND archived = 0
+    `,
+    orgId,
+    safeFamilyId
+  );
+
+  if (rows.length === 0) {
+    return;
+  }
+
+  await db.runAsync(
+    `
+      UPDATE ${TEMPLATES_TABLE}
+      SET archived = 1
+      WHERE org_id = ?
+        AND family_id = ?
+    `,
+    orgId,
+    safeFamilyId
+  );
+
+  for (const row of rows) {
+    await enqueueTemplateOperation({ ...row, archived: 1 }, 'UPDATE');
+  }
+}
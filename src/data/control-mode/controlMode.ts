@@ -1,13 +1,27 @@
+import * as FileSystem from 'expo-file-system/legacy';
 import * as SQLite from 'expo-sqlite';
-import checklistTemplateJson from './checklistTemplate.json';
+import {
+  archiveTemplate,
+  ensureTemplatesSetup,
+  getDefaultTemplate,
+  getTemplate,
+  listTemplateVersions,
+  listTemplates,
+  saveTemplate
+} from './checklistTemplates';
 import { documents } from '../documents';
 import { exportsDoe, ExportJob } from '../exports';
 import { media, MediaAsset } from '../media';
 import { offlineDB } from '../offline/outbox';
 import { plans } from '../plans-annotations';
 import { Task, tasks } from '../tasks';
+import { renderInspectionReportPdf } from './inspectionReport';
+import { INSPECTION_REPORT_TAG } from './readOnly';
 import {
-  ChecklistTemplateConfig,
+  ChecklistAnswer,
+  ChecklistItemType,
+  ChecklistTemplateFilters,
+  ChecklistTemplateInput,
   ChecklistWithItems,
   ControlActivity,
   ControlModeApi,
@@ -15,6 +29,8 @@ import {
   ControlModeState,
   ControlProofFilters,
   ControlSummary,
+  CreateChecklistOptions,
+  InspectionReport,
   InspectionScore,
   InspectionChecklist,
   InspectionItem,
@@ -33,6 +49,56 @@ const DOCUMENTS_TABLE = 'documents';
 const MEDIA_TABLE = 'media_assets';
 
 const PAGE_SIZE = 200;
+
+const EMPTY_SCORE: InspectionScore = {
+  score_checked: 0,
+  score_total: 0,
+  na_count: 0,
+  nonconforming_count: 0,
+  required_missing: 0,
+  weight_checked: 0,
+  weight_total: 0,
+  score_percent: null
+};
+
+// Columns added after the first release: created on fresh installs, ALTERed in on upgrade.
+const CHECKLIST_UPGRADE_COLUMNS: Array<[string, string]> = [
+  ['template_id', 'TEXT'],
+  ['template_family_id', 'TEXT'],
+  ['template_version', 'INTEGER'],
+  ['template_name', 'TEXT'],
+  ['trade', 'TEXT'],
+  ['report_document_id', 'TEXT']
+];
+
+const ITEM_UPGRADE_COLUMNS: Array<[string, string]> = [
+  ['section_key', 'TEXT'],
+  ['section_label', 'TEXT'],
+  ['position', 'INTEGER NOT NULL DEFAULT 0'],
+  ['item_type', "TEXT NOT NULL DEFAULT 'YES_NO_NA'"],
+  ['required', 'INTEGER NOT NULL DEFAULT 0'],
+  ['weight', 'REAL NOT NULL DEFAULT 1'],
+  ['unit', 'TEXT'],
+  ['min_value', 'REAL'],
+  ['max_value', 'REAL'],
+  ['hint', 'TEXT'],
+  ['answer', 'TEXT'],
+  ['value_number', 'REAL'],
+  ['media_id', 'TEXT'],
+  ['signer_name', 'TEXT'],
+  ['signed_by', 'TEXT'],
+  ['signed_at', 'TEXT']
+];
+
+// An item is "answered" once it carries the input its type expects (N/A counts for YES_NO_NA).
+const ITEM_ANSWERED_SQL = `
+  CASE item_type
+    WHEN 'MEASURE' THEN value_number IS NOT NULL
+    WHEN 'PHOTO' THEN media_id IS NOT NULL
+    WHEN 'SIGNATURE' THEN signed_at IS NOT NULL
+    ELSE answer IS NOT NULL
+  END
+`;
 const WATCH_OPEN_TASK_THRESHOLD = 10;
 
 const CRITICAL_KEYWORDS = [
@@ -65,6 +131,12 @@ type ChecklistRow = {
   project_id: string;
   created_by: string;
   created_at: string;
+  template_id: string | null;
+  template_family_id: string | null;
+  template_version: number | null;
+  template_name: string | null;
+  trade: string | null;
+  report_document_id: string | null;
 };
 
 type ItemRow = {
@@ -72,6 +144,22 @@ type ItemRow = {
   checklist_id: string;
   key: string;
   label: string;
+  section_key: string | null;
+  section_label: string | null;
+  position: number;
+  item_type: ChecklistItemType;
+  required: number;
+  weight: number;
+  unit: string | null;
+  min_value: number | null;
+  max_value: number | null;
+  hint: string | null;
+  answer: ChecklistAnswer | null;
+  value_number: number | null;
+  media_id: string | null;
+  signer_name: string | null;
+  signed_by: string | null;
+  signed_at: string | null;
   checked: number;
   comment: string | null;
   updated_at: string;
@@ -83,9 +171,9 @@ type ItemWithChecklistRow = ItemRow & {
   project_id: string;
 };
 
-type ChecklistTemplate = {
-  items: Array<{ key: string; label: string }>;
-};
+type ItemPatch = Partial<
+  Pick<ItemRow, 'answer' | 'value_number' | 'media_id' | 'signer_name' | 'signed_by' | 'signed_at' | 'comment'>
+>;
 
 let dbPromise: Promise<SQLite.SQLiteDatabase> | null = null;
 let setupPromise: Promise<void> | null = null;
@@ -180,13 +268,23 @@ function mapStateRow(row: ControlModeStateRow): ControlModeState {
   };
 }
 
+function toOptionalNumber(value: number | null | undefined) {
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
 function mapChecklistRow(row: ChecklistRow): InspectionChecklist {
   return {
     id: row.id,
     org_id: row.org_id,
     project_id: row.project_id,
     created_by: row.created_by,
-    created_at: row.created_at
+    created_at: row.created_at,
+    template_id: toOptional(row.template_id),
+    template_family_id: toOptional(row.template_family_id),
+    template_version: toOptionalNumber(row.template_version),
+    template_name: toOptional(row.template_name),
+    trade: toOptional(row.trade),
+    report_document_id: toOptional(row.report_document_id)
   };
 }
 
@@ -196,6 +294,22 @@ function mapItemRow(row: ItemRow): InspectionItem {
     checklist_id: row.checklist_id,
     key: row.key,
     label: row.label,
+    section_key: toOptional(row.section_key),
+    section_label: toOptional(row.section_label),
+    position: row.position,
+    type: row.item_type,
+    required: row.required === 1,
+    weight: coerceNumber(row.weight),
+    unit: toOptional(row.unit),
+    min: toOptionalNumber(row.min_value),
+    max: toOptionalNumber(row.max_value),
+    hint: toOptional(row.hint),
+    answer: row.answer ?? undefined,
+    value_number: toOptionalNumber(row.value_number),
+    media_id: toOptional(row.media_id),
+    signer_name: toOptional(row.signer_name),
+    signed_by: toOptional(row.signed_by),
+    signed_at: toOptional(row.signed_at),
     checked: row.checked === 1,
     comment: toOptional(row.comment),
     updated_at: row.updated_at,
@@ -203,28 +317,50 @@ function mapItemRow(row: ItemRow): InspectionItem {
   };
 }
 
-function resolveTemplate(): ChecklistTemplateConfig {
-  const parsed = checklistTemplateJson as ChecklistTemplate;
-
-  if (!parsed || !Array.isArray(parsed.items) || parsed.items.length === 0) {
-    throw new Error('Checklist template invalide.');
+function isItemConforming(row: ItemRow) {
+  if (row.answer === 'NA') {
+    return false;
   }
 
-  const items = parsed.items
-    .map((item) => ({
-      key: normalizeText(item.key),
-      label: normalizeText(item.label)
-    }))
-    .filter((item) => item.key.length > 0 && item.label.length > 0);
-
-  if (items.length === 0) {
-    throw new Error('Checklist template vide.');
+  switch (row.item_type) {
+    case 'MEASURE':
+      return (
+        row.value_number !== null &&
+        (row.min_value === null || row.value_number >= row.min_value) &&
+        (row.max_value === null || row.value_number <= row.max_value)
+      );
+    case 'PHOTO':
+      return Boolean(row.media_id);
+    case 'SIGNATURE':
+      return Boolean(row.signed_at);
+    default:
+      return row.answer === 'YES';
   }
-
-  return { items };
 }
 
-const checklistTemplate = resolveTemplate();
+function toScore(raw: {
+  checked_count: number | string | null;
+  total_count: number | string | null;
+  na_count: number | string | null;
+  nonconforming_count: number | string | null;
+  required_missing: number | string | null;
+  weight_checked: number | string | null;
+  weight_total: number | string | null;
+}): InspectionScore {
+  const weightChecked = coerceNumber(raw.weight_checked);
+  const weightTotal = coerceNumber(raw.weight_total);
+
+  return {
+    score_checked: coerceNumber(raw.checked_count),
+    score_total: coerceNumber(raw.total_count),
+    na_count: coerceNumber(raw.na_count),
+    nonconforming_count: coerceNumber(raw.nonconforming_count),
+    required_missing: coerceNumber(raw.required_missing),
+    weight_checked: weightChecked,
+    weight_total: weightTotal,
+    score_percent: weightTotal > 0 ? Math.round((weightChecked / weightTotal) * 1000) / 10 : null
+  };
+}
 
 function requireOrgId() {
   if (!contextOrgId) {
@@ -301,7 +437,13 @@ async function setupSchema() {
       org_id TEXT NOT NULL,
       project_id TEXT NOT NULL,
       created_by TEXT NOT NULL,
-      created_at TEXT NOT NULL
+      created_at TEXT NOT NULL,
+      template_id TEXT,
+      template_family_id TEXT,
+      template_version INTEGER,
+      template_name TEXT,
+      trade TEXT,
+      report_document_id TEXT
     );
 
     CREATE INDEX IF NOT EXISTS idx_inspection_checklists_org_project
@@ -312,6 +454,22 @@ async function setupSchema() {
       checklist_id TEXT NOT NULL,
       key TEXT NOT NULL,
       label TEXT NOT NULL,
+      section_key TEXT,
+      section_label TEXT,
+      position INTEGER NOT NULL DEFAULT 0,
+      item_type TEXT NOT NULL DEFAULT 'YES_NO_NA',
+      required INTEGER NOT NULL DEFAULT 0,
+      weight REAL NOT NULL DEFAULT 1,
+      unit TEXT,
+      min_value REAL,
+      max_value REAL,
+      hint TEXT,
+      answer TEXT,
+      value_number REAL,
+      media_id TEXT,
+      signer_name TEXT,
+      signed_by TEXT,
+      signed_at TEXT,
       checked INTEGER NOT NULL DEFAULT 0,
       comment TEXT,
       updated_at TEXT NOT NULL,
@@ -322,6 +480,33 @@ async function setupSchema() {
     CREATE INDEX IF NOT EXISTS idx_inspection_items_checklist
       ON ${ITEMS_TABLE}(checklist_id, updated_at DESC);
   `);
+
+  await addMissingColumns(db, CHECKLISTS_TABLE, CHECKLIST_UPGRADE_COLUMNS);
+  const addedItemColumns = await addMissingColumns(db, ITEMS_TABLE, ITEM_UPGRADE_COLUMNS);
+
+  if (addedItemColumns.includes('answer')) {
+    // Pre-template checklists only had a checkbox: a checked item is a YES answer.
+    await db.runAsync(`UPDATE ${ITEMS_TABLE} SET answer = 'YES' WHERE checked = 1`);
+  }
+
+  await ensureTemplatesSetup();
+}
+
+async function addMissingColumns(db: SQLite.SQLiteDatabase, tableName: string, columns: Array<[string, string]>) {
+  const existing = await db.getAllAsync<{ name: string }>(`PRAGMA table_info(${tableName})`);
+  const names = new Set(existing.map((column) => column.name));
+  const added: string[] = [];
+
+  for (const [name, definition] of columns) {
+    if (names.has(name)) {
+      continue;
+    }
+
+    await db.execAsync(`ALTER TABLE ${tableName} ADD COLUMN ${name} ${definition};`);
+    added.push(name);
+  }
+
+  return added;
 }
 
 async function ensureSetup() {
@@ -581,6 +766,52 @@ async function getLatestChecklistRow(projectId: string, orgId: string) {
   return row ?? null;
 }
 
+async function getChecklistRowById(checklistId: string) {
+  await ensureSetup();
+  const db = await getDb();
+
+  const row = await db.getFirstAsync<ChecklistRow>(`SELECT * FROM ${CHECKLISTS_TABLE} WHERE id = ? LIMIT 1`, checklistId);
+  return row ?? null;
+}
+
+async function requireChecklist(checklistId: string, orgId: string) {
+  const safeId = normalizeText(checklistId);
+  if (safeId.length === 0) {
+    throw new Error('checklistId est requis.');
+  }
+
+  const row = await getChecklistRowById(safeId);
+  if (!row || row.org_id !== orgId) {
+    throw new Error('Inspection introuvable.');
+  }
+
+  return mapChecklistRow(row);
+}
+
+async function loadReport(checklist: InspectionChecklist): Promise<InspectionReport | null> {
+  if (!checklist.report_document_id) {
+    return null;
+  }
+
+  const document = await documents.getById(checklist.report_document_id);
+  if (!document) {
+    return null;
+  }
+
+  const versions = await documents.listVersions(document.id);
+  const version = versions.find((candidate) => candidate.id === document.active_version_id) ?? versions[0];
+  if (!version) {
+    return null;
+  }
+
+  return {
+    checklist_id: checklist.id,
+    document,
+    version,
+    signed: document.status === 'SIGNED'
+  };
+}
+
 async function listChecklistItems(checklistId: string) {
   await ensureSetup();
   const db = await getDb();
@@ -590,7 +821,7 @@ async function listChecklistItems(checklistId: string) {
       SELECT *
       FROM ${ITEMS_TABLE}
       WHERE checklist_id = ?
-      ORDER BY key ASC
+      ORDER BY position ASC, key ASC
     `,
     checklistId
   );
@@ -628,16 +859,22 @@ async function computeChecklistScores(checklistIds: string[]) {
 
   const placeholders = checklistIds.map(() => '?').join(', ');
 
-  const rows = await db.getAllAsync<{
-    checklist_id: string;
-    checked_count: number | string | null;
-    total_count: number | string | null;
-  }>(
+  // N/A items leave both the numerator and the denominator.
+  const rows = await db.getAllAsync<
+    Parameters<typeof toScore>[0] & {
+      checklist_id: string;
+    }
+  >(
     `
       SELECT
         checklist_id,
-        SUM(checked) AS checked_count,
-        COUNT(*) AS total_count
+        SUM(CASE WHEN answer = 'NA' THEN 0 ELSE checked END) AS checked_count,
+        SUM(CASE WHEN answer = 'NA' THEN 0 ELSE 1 END) AS total_count,
+        SUM(CASE WHEN answer = 'NA' THEN 1 ELSE 0 END) AS na_count,
+        SUM(CASE WHEN answer = 'NA' OR checked = 1 THEN 0 WHEN ${ITEM_ANSWERED_SQL} THEN 1 ELSE 0 END) AS nonconforming_count,
+        SUM(CASE WHEN required = 1 AND answer IS NOT 'NA' AND NOT (${ITEM_ANSWERED_SQL}) THEN 1 ELSE 0 END) AS required_missing,
+        SUM(CASE WHEN answer = 'NA' THEN 0 ELSE weight * checked END) AS weight_checked,
+        SUM(CASE WHEN answer = 'NA' THEN 0 ELSE weight END) AS weight_total
       FROM ${ITEMS_TABLE}
       WHERE checklist_id IN (${placeholders})
       GROUP BY checklist_id
@@ -648,10 +885,7 @@ async function computeChecklistScores(checklistIds: string[]) {
   const map = new Map<string, InspectionScore>();
 
   for (const row of rows) {
-    map.set(row.checklist_id, {
-      score_checked: coerceNumber(row.checked_count),
-      score_total: coerceNumber(row.total_count)
-    });
+    map.set(row.checklist_id, toScore(row));
   }
 
   return map;
@@ -664,14 +898,7 @@ async function getItemWithChecklist(itemId: string) {
   const row = await db.getFirstAsync<ItemWithChecklistRow>(
     `
       SELECT
-        i.id,
-        i.checklist_id,
-        i.key,
-        i.label,
-        i.checked,
-        i.comment,
-        i.updated_at,
-        i.updated_by,
+        i.*,
         c.org_id,
         c.project_id
       FROM ${ITEMS_TABLE} i
@@ -736,6 +963,79 @@ async function enqueueChecklistItemOperation(
   });
 }
 
+function assertItemType(row: ItemRow, type: ChecklistItemType) {
+  if (row.item_type !== type) {
+    throw new Error(`Item "${row.label}" de type ${row.item_type}: saisie ${type} impossible.`);
+  }
+}
+
+async function updateItem(itemId: string, buildPatch: (row: ItemWithChecklistRow, userId: string) => ItemPatch) {
+  const context = requireContext();
+  const safeItemId = normalizeText(itemId);
+  if (safeItemId.length === 0) {
+    throw new Error('itemId est requis.');
+  }
+
+  const currentRow = await getItemWithChecklist(safeItemId);
+  if (!currentRow) {
+    throw new Error('Checklist item introuvable.');
+  }
+
+  if (currentRow.org_id !== context.org_id) {
+    throw new Error('Acces refuse: item hors organisation active.');
+  }
+
+  const next: ItemWithChecklistRow = { ...currentRow, ...buildPatch(currentRow, context.user_id) };
+
+  await ensureSetup();
+  const db = await getDb();
+
+  const updatedAt = nowIso();
+
+  await db.runAsync(
+    `
+      UPDATE ${ITEMS_TABLE}
+      SET answer = ?,
+          value_number = ?,
+          media_id = ?,
+          signer_name = ?,
+          signed_by = ?,
+          signed_at = ?,
+          checked = ?,
+          comment = ?,
+          updated_at = ?,
+          updated_by = ?
+      WHERE id = ?
+    `,
+    next.answer,
+    next.value_number,
+    next.media_id,
+    next.signer_name,
+    next.signed_by,
+    next.signed_at,
+    isItemConforming(next) ? 1 : 0,
+    next.comment,
+    updatedAt,
+    context.user_id,
+    safeItemId
+  );
+
+  const updatedRow = await getItemWithChecklist(safeItemId);
+  if (!updatedRow) {
+    throw new Error('Checklist item introuvable apres mise a jour.');
+  }
+
+  const checklist: InspectionChecklist = {
+    id: updatedRow.checklist_id,
+    org_id: updatedRow.org_id,
+    project_id: updatedRow.project_id,
+    created_by: context.user_id,
+    created_at: updatedAt
+  };
+
+  await enqueueChecklistItemOperation(mapItemRow(updatedRow), checklist, 'UPDATE');
+}
+
 export const controlMode: ControlModeApi = {
   setContext(context: Partial<ControlModeContext>) {
     contextOrgId = normalizeText(context.org_id) || null;
@@ -946,10 +1246,22 @@ export const controlMode: ControlModeApi = {
     return activities.slice(0, safeLimit);
   },
 
-  async createChecklist(projectId: string) {
+  async createChecklist(projectId: string, options: CreateChecklistOptions = {}) {
     const context = requireContext();
     const safeProjectId = ensureProjectId(projectId);
 
+    const template = options.template_id
+      ? await getTemplate(context.org_id, options.template_id)
+      : getDefaultTemplate();
+
+    if (!template) {
+      throw new Error('Modele de checklist introuvable.');
+    }
+
+    if (template.archived) {
+      throw new Error('Modele de checklist archive: choisir un autre modele.');
+    }
+
     await ensureSetup();
     const db = await getDb();
 
@@ -958,38 +1270,67 @@ export const controlMode: ControlModeApi = {
       org_id: context.org_id,
       project_id: safeProjectId,
       created_by: context.user_id,
-      created_at: nowIso()
+      created_at: nowIso(),
+      template_id: template.id,
+      template_family_id: template.family_id,
+      template_version: template.version,
+      template_name: template.name,
+      trade: template.trade
     };
 
     await db.runAsync(
       `
         INSERT INTO ${CHECKLISTS_TABLE}
-        (id, org_id, project_id, created_by, created_at)
-        VALUES (?, ?, ?, ?, ?)
+        (id, org_id, project_id, created_by, created_at, template_id, template_family_id, template_version, template_name, trade)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `,
       checklist.id,
       checklist.org_id,
       checklist.project_id,
       checklist.created_by,
-      checklist.created_at
+      checklist.created_at,
+      template.id,
+      template.family_id,
+      template.version,
+      template.name,
+      template.trade
     );
 
     const itemTimestamp = nowIso();
-
-    for (const templateItem of checklistTemplate.items) {
-      await db.runAsync(
-        `
-          INSERT INTO ${ITEMS_TABLE}
-          (id, checklist_id, key, label, checked, comment, updated_at, updated_by)
-          VALUES (?, ?, ?, ?, 0, NULL, ?, ?)
-        `,
-        createUuid(),
-        checklist.id,
-        templateItem.key,
-        templateItem.label,
-        itemTimestamp,
-        context.user_id
-      );
+    let position = 0;
+
+    // Items snapshot their definition so later template versions never alter this inspection.
+    for (const section of template.sections) {
+      for (const templateItem of section.items) {
+        await db.runAsync(
+          `
+            INSERT INTO ${ITEMS_TABLE}
+            (
+              id, checklist_id, key, label, section_key, section_label, position, item_type,
+              required, weight, unit, min_value, max_value, hint, checked, comment, updated_at, updated_by
+            )
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 0, NULL, ?, ?)
+          `,
+          createUuid(),
+          checklist.id,
+          templateItem.key,
+          templateItem.label,
+          section.key,
+          section.label,
+          position,
+          templateItem.type,
+          templateItem.required ? 1 : 0,
+          templateItem.weight,
+          templateItem.unit ?? null,
+          templateItem.min ?? null,
+          templateItem.max ?? null,
+          templateItem.hint ?? null,
+          itemTimestamp,
+          context.user_id
+        );
+
+        position += 1;
+      }
     }
 
     await enqueueChecklistOperation(checklist, 'CREATE');
@@ -1042,11 +1383,9 @@ export const controlMode: ControlModeApi = {
 
     return rows.map((row) => {
       const checklist = mapChecklistRow(row);
-      const score = scores.get(checklist.id) ?? { score_checked: 0, score_total: 0 };
       return {
         ...checklist,
-        score_checked: score.score_checked,
-        score_total: score.score_total
+        ...(scores.get(checklist.id) ?? EMPTY_SCORE)
       };
     });
   },
@@ -1058,114 +1397,195 @@ export const controlMode: ControlModeApi = {
     }
 
     const scores = await computeChecklistScores([safeId]);
-    return scores.get(safeId) ?? { score_checked: 0, score_total: 0 };
+    return scores.get(safeId) ?? EMPTY_SCORE;
   },
 
   async toggleItem(itemId: string, checked: boolean) {
-    const context = requireContext();
-    const safeItemId = normalizeText(itemId);
-    if (safeItemId.length === 0) {
-      throw new Error('itemId est requis.');
-    }
+    await updateItem(itemId, (row) => {
+      assertItemType(row, 'YES_NO_NA');
+      return { answer: checked ? 'YES' : null };
+    });
+  },
 
-    const currentRow = await getItemWithChecklist(safeItemId);
-    if (!currentRow) {
-      throw new Error('Checklist item introuvable.');
-    }
+  async setComment(itemId: string, text: string) {
+    const comment = normalizeText(text);
+    await updateItem(itemId, () => ({ comment: comment.length > 0 ? comment : null }));
+  },
+
+  async setAnswer(itemId: string, answer: ChecklistAnswer | null) {
+    await updateItem(itemId, (row) => {
+      if (answer === 'NA' && row.required === 1) {
+        throw new Error(`Item obligatoire "${row.label}": N/A non autorise.`);
+      }
+
+      if (answer === 'YES' || answer === 'NO') {
+        assertItemType(row, 'YES_NO_NA');
+      }
 
-    if (currentRow.org_id !== context.org_id) {
-      throw new Error('Acces refuse: item hors organisation active.');
+      return { answer };
+    });
+  },
+
+  async setMeasure(itemId: string, value: number | null) {
+    if (value !== null && !Number.isFinite(value)) {
+      throw new Error('Mesure invalide.');
     }
 
-    await ensureSetup();
-    const db = await getDb();
+    await updateItem(itemId, (row) => {
+      assertItemType(row, 'MEASURE');
+      return { value_number: value, answer: null };
+    });
+  },
 
-    const updatedAt = nowIso();
+  async attachPhoto(itemId: string, mediaId: string | null) {
+    const safeMediaId = normalizeText(mediaId);
 
-    await db.runAsync(
-      `
-        UPDATE ${ITEMS_TABLE}
-        SET checked = ?,
-            updated_at = ?,
-            updated_by = ?
-        WHERE id = ?
-      `,
-      checked ? 1 : 0,
-      updatedAt,
-      context.user_id,
-      safeItemId
-    );
+    await updateItem(itemId, (row) => {
+      assertItemType(row, 'PHOTO');
+      return { media_id: safeMediaId.length > 0 ? safeMediaId : null, answer: null };
+    });
+  },
 
-    const updatedRow = await getItemWithChecklist(safeItemId);
-    if (!updatedRow) {
-      throw new Error('Checklist item introuvable apres mise a jour.');
-    }
+  async signItem(itemId: string, signerName: string | null) {
+    const safeName = normalizeText(signerName);
 
-    const checklist: InspectionChecklist = {
-      id: updatedRow.checklist_id,
-      org_id: updatedRow.org_id,
-      project_id: updatedRow.project_id,
-      created_by: context.user_id,
-      created_at: updatedAt
-    };
+    await updateItem(itemId, (row, userId) => {
+      assertItemType(row, 'SIGNATURE');
+
+      if (safeName.length === 0) {
+        return { signer_name: null, signed_by: null, signed_at: null };
+      }
 
-    await enqueueChecklistItemOperation(mapItemRow(updatedRow), checklist, 'UPDATE');
+      return { signer_name: safeName, signed_by: userId, signed_at: nowIso(), answer: null };
+    });
   },
 
-  async setComment(itemId: string, text: string) {
+  async generateInspectionReport(checklistId: string) {
     const context = requireContext();
-    const safeItemId = normalizeText(itemId);
-    if (safeItemId.length === 0) {
-      throw new Error('itemId est requis.');
+    const checklist = await requireChecklist(checklistId, context.org_id);
+
+    const [items, score, issues] = await Promise.all([
+      listChecklistItems(checklist.id),
+      this.computeScore(checklist.id),
+      this.listOpenIssues(checklist.project_id)
+    ]);
+
+    const generatedAt = nowIso();
+    const rendered = await renderInspectionReportPdf({
+      checklist,
+      items,
+      score,
+      issues,
+      author: context.user_id,
+      generated_at: generatedAt
+    });
+
+    const fileName = `pv_inspection_${checklist.id}_${generatedAt.replace(/[:.]/g, '-')}.pdf`;
+
+    let asset: MediaAsset;
+    try {
+      asset = await media.registerGeneratedFile(
+        {
+          org_id: context.org_id,
+          project_id: checklist.project_id,
+          tag: 'inspection_report'
+        },
+        {
+          uri: rendered.uri,
+          mimeType: 'application/pdf',
+          fileName,
+          fileSize: rendered.sizeBytes
+        }
+      );
+    } finally {
+      await FileSystem.deleteAsync(rendered.uri, { idempotent: true });
     }
 
-    const currentRow = await getItemWithChecklist(safeItemId);
-    if (!currentRow) {
-      throw new Error('Checklist item introuvable.');
+    const existing = checklist.report_document_id ? await documents.getById(checklist.report_document_id) : null;
+
+    let reportDocumentId = existing?.id;
+    if (!reportDocumentId) {
+      // The checklist link is what keeps the PV writable in control mode: record it before creating the document.
+      reportDocumentId = createUuid();
+
+      await ensureSetup();
+      const db = await getDb();
+      await db.runAsync(`UPDATE ${CHECKLISTS_TABLE} SET report_document_id = ? WHERE id = ?`, reportDocumentId, checklist.id);
+
+      await enqueueChecklistOperation({ ...checklist, report_document_id: reportDocumentId }, 'UPDATE');
     }
 
-    if (currentRow.org_id !== context.org_id) {
-      throw new Error('Acces refuse: item hors organisation active.');
+    // One PV document per inspection: regenerating adds a version and voids the previous signature.
+    const document =
+      existing ??
+      (await documents.create({
+        id: reportDocumentId,
+        org_id: context.org_id,
+        scope: 'PROJECT',
+        project_id: checklist.project_id,
+        title: `PV inspection - ${checklist.template_name ?? 'Inspection'} - ${new Date(checklist.created_at).toLocaleDateString('fr-FR')}`,
+        doc_type: 'PV',
+        tags: [INSPECTION_REPORT_TAG, `inspection:${checklist.id}`],
+        created_by: context.user_id
+      }));
+
+    const version = await documents.addVersion(document.id, {
+      source: 'existing',
+      existing_asset_id: asset.id,
+      tag: 'inspection_report'
+    });
+
+    if (existing) {
+      if (existing.status !== 'DRAFT') {
+        await documents.update(existing.id, { status: 'DRAFT' });
+      }
+    } else {
+      await documents.link(document.id, 'PROJECT', checklist.project_id);
     }
 
-    await ensureSetup();
-    const db = await getDb();
+    const refreshed = await documents.getById(document.id);
 
-    const updatedAt = nowIso();
-    const comment = normalizeText(text);
+    return {
+      checklist_id: checklist.id,
+      document: refreshed ?? document,
+      version,
+      signed: false
+    };
+  },
 
-    await db.runAsync(
-      `
-        UPDATE ${ITEMS_TABLE}
-        SET comment = ?,
-            updated_at = ?,
-            updated_by = ?
-        WHERE id = ?
-      `,
-      comment.length > 0 ? comment : null,
-      updatedAt,
-      context.user_id,
-      safeItemId
-    );
+  async getInspectionReport(checklistId: string) {
+    const checklist = await requireChecklist(checklistId, requireOrgId());
+    return loadReport(checklist);
+  },
 
-    const updatedRow = await getItemWithChecklist(safeItemId);
-    if (!updatedRow) {
-      throw new Error('Checklist item introuvable apres mise a jour.');
+  async getChecklistTemplate(templateId?: string) {
+    if (!templateId) {
+      return getDefaultTemplate();
     }
 
-    const checklist: InspectionChecklist = {
-      id: updatedRow.checklist_id,
-      org_id: updatedRow.org_id,
-      project_id: updatedRow.project_id,
-      created_by: context.user_id,
-      created_at: updatedAt
-    };
+    const template = await getTemplate(requireOrgId(), templateId);
+    if (!template) {
+      throw new Error('Modele de checklist introuvable.');
+    }
+
+    return template;
+  },
 
-    await enqueueChecklistItemOperation(mapItemRow(updatedRow), checklist, 'UPDATE');
+  async listTemplates(filters: ChecklistTemplateFilters = {}) {
+    return listTemplates(requireOrgId(), filters);
+  },
+
+  async listTemplateVersions(familyId: string) {
+    return listTemplateVersions(requireOrgId(), familyId);
+  },
+
+  async saveTemplate(input: ChecklistTemplateInput) {
+    const context = requireContext();
+    return saveTemplate(context.org_id, context.user_id, input);
   },
 
-  async getChecklistTemplate() {
-    return checklistTemplate;
+  async archiveTemplate(familyId: string) {
+    await archiveTemplate(requireOrgId(), familyId);
   },
 
   async generateControlPack(projectId: string): Promise<ExportJob> {
@@ -1180,8 +1600,8 @@ export const controlMode: ControlModeApi = {
     return job;
   },
 
-  async createInspection(projectId: string) {
-    return this.createChecklist(projectId);
+  async createInspection(projectId: string, options?: CreateChecklistOptions) {
+    return this.createChecklist(projectId, options);
   },
 
   async getLatestInspection(projectId: string) {
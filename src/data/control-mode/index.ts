@@ -1,3 +1,4 @@
 export * from './types';
 export * from './readOnly';
+export { CHECKLIST_TRADES, tradeLabel } from './checklistTemplates';
 export { controlMode } from './controlMode';
@@ -0,0 +1,334 @@
+import * as FileSystem from 'expo-file-system/legacy';
+import * as Print from 'expo-print';
+import { geo, GeoRecord } from '../geo-context';
+import { media, MediaAsset } from '../media';
+import { Task } from '../tasks';
+import { tradeLabel } from './checklistTemplates';
+import { InspectionChecklist, InspectionItem, InspectionScore } from './types';
+
+const REPORT_ISSUES_LIMIT = 50;
+
+const IMAGE_MIMES = new Set(['image/webp', 'image/jpeg']);
+
+export type InspectionReportInput = {
+  checklist: InspectionChecklist;
+  items: InspectionItem[];
+  score: InspectionScore;
+  issues: Task[];
+  author: string;
+  generated_at: string;
+};
+
+type ReportPhoto = {
+  item: InspectionItem;
+  asset: MediaAsset | null;
+  thumb: string | null;
+  position: GeoRecord | null;
+};
+
+function htmlEscape(input: string) {
+  return input
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function formatDate(iso: string) {
+  return new Date(iso).toLocaleString('fr-FR');
+}
+
+async function toBase64DataUri(path: string, mime: string) {
+  const info = await FileSystem.getInfoAsync(path);
+  if (!info.exists) {
+    return null;
+  }
+
+  const base64 = await FileSystem.readAsStringAsync(path, {
+    encoding: FileSystem.EncodingType.Base64
+  });
+
+  return `data:${mime};base64,${base64}`;
+}
+
+function itemStatus(item: InspectionItem) {
+  if (item.answer === 'NA') return { label: 'N/A', color: '#64748B' };
+  if (item.checked) return { label: 'Conforme', color: '#10B981' };
+
+  const answered =
+    (item.type === 'YES_NO_NA' && item.answer === 'NO') || (item.type === 'MEASURE' && item.value_number !== undefined);
+
+  return answered ? { label: 'Non conforme', color: '#EF4444' } : { label: 'Non renseigne', color: '#F59E0B' };
+}
+
+function itemValue(item: InspectionItem) {
+  switch (item.type) {
+    case 'MEASURE': {
+      if (item.value_number === undefined) return '-';
+      const unit = item.unit ? ` ${item.unit}` : '';
+      const range =
+        item.min !== undefined || item.max !== undefined ? ` (attendu ${item.min ?? '…'} – ${item.max ?? '…'})` : '';
+      return `${item.value_number}${unit}${range}`;
+    }
+    case 'PHOTO':
+      return item.media_id ? 'Photo jointe' : '-';
+    case 'SIGNATURE':
+      return item.signed_at ? `Vise par ${item.signer_name ?? '-'} le ${formatDate(item.signed_at)}` : '-';
+    default:
+      if (item.answer === 'YES') return 'Oui';
+      if (item.answer === 'NO') return 'Non';
+      return item.answer === 'NA' ? 'N/A' : '-';
+  }
+}
+
+function formatPosition(position: GeoRecord | null) {
+  if (!position) {
+    return 'Position non disponible';
+  }
+
+  const accuracy = typeof position.accuracy === 'number' ? ` (±${Math.round(position.accuracy)} m)` : '';
+  return `${position.lat.toFixed(5)}, ${position.lng.toFixed(5)}${accuracy}`;
+}
+
+async function loadPhotos(checklist: InspectionChecklist, items: InspectionItem[]) {
+  const photos: ReportPhoto[] = [];
+
+  for (const item of items) {
+    if (item.type !== 'PHOTO' || !item.media_id) {
+      continue;
+    }
+
+    const asset = await media.getById(item.media_id);
+    // Annotated render (blurred faces / plates), never the original file.
+    const exportFile = asset && IMAGE_MIMES.has(asset.mime) ? await media.getExportFile(asset) : null;
+    const thumb = exportFile ? await toBase64DataUri(exportFile.thumb_path, exportFile.mime) : null;
+    const position = asset ? await geo.getLatest('MEDIA', asset.id, checklist.org_id) : null;
+
+    photos.push({ item, asset, thumb, position });
+  }
+
+  return photos;
+}
+
+function buildSections(items: InspectionItem[]) {
+  const sections: Array<{ label: string; items: InspectionItem[] }> = [];
+
+  for (const item of items) {
+    const label = item.section_label ?? 'Checklist';
+    const current = sections[sections.length - 1];
+
+    if (current && current.label === label) {
+      current.items.push(item);
+    } else {
+      sections.push({ label, items: [item] });
+    }
+  }
+
+  return sections;
+}
+
+function buildHtml(input: InspectionReportInput, photos: ReportPhoto[]) {
+  const { checklist, score } = input;
+  const title = checklist.template_name ?? 'Inspection';
+
+  const sectionsHtml = buildSections(input.items)
+    .map((section) => {
+      const rows = section.items
+        .map((item) => {
+          const status = itemStatus(item);
+          return `
+            <tr>
+              <td>${htmlEscape(item.label)}${item.required ? ' *' : ''}</td>
+              <td><span class="status" style="background:${status.color}">${htmlEscape(status.label)}</span></td>
+              <td>${htmlEscape(itemValue(item))}</td>
+              <td>${htmlEscape(item.comment ?? '')}</td>
+            </tr>
+          `;
+        })
+        .join('');
+
+      return `
+        <h3>${htmlEscape(section.label)}</h3>
+        <table>
+          <thead>
+            <tr>
+              <th style="width:34%">Point de controle</th>
+              <th style="width:14%">Statut</th>
+              <th style="width:24%">Valeur</th>
+              <th>Commentaire</th>
+            </tr>
+          </thead>
+          <tbody>${rows}</tbody>
+        </table>
+      `;
+    })
+    .join('');
+
+  const photoCards = photos
+    .map((photo) => {
+      const image = photo.thumb
+        ? `<img src="${photo.thumb}" alt="photo" />`
+        : '<div class="missing">Fichier local indisponible</div>';
+      const takenAt = photo.asset ? formatDate(photo.asset.created_at) : '-';
+
+      return `
+        <div class="proof-card">
+          ${image}
+          <div class="proof-caption">
+            <div><strong>${htmlEscape(photo.item.label)}</strong></div>
+            <div>${htmlEscape(takenAt)}</div>
+            <div>${htmlEscape(formatPosition(photo.position))}</div>
+          </div>
+        </div>
+      `;
+    })
+    .join('');
+
+  const shownIssues = input.issues.slice(0, REPORT_ISSUES_LIMIT);
+  const issuesRows = shownIssues
+    .map(
+      (task) => `
+        <tr>
+          <td>${htmlEscape(task.title)}</td>
+          <td>${htmlEscape(task.status)}</td>
+          <td>${htmlEscape(task.priority)}</td>
+          <td>${htmlEscape(task.due_date ? formatDate(task.due_date) : '-')}</td>
+        </tr>
+      `
+    )
+    .join('');
+  const omittedIssues = input.issues.length - shownIssues.length;
+
+  const visaRows = input.items
+    .filter((item) => item.type === 'SIGNATURE')
+    .map(
+      (item) => `
+        <tr>
+          <td>${htmlEscape(item.label)}</td>
+          <td>${htmlEscape(item.signer_name ?? '-')}</td>
+          <td>${htmlEscape(item.signed_at ? formatDate(item.signed_at) : 'Non vise')}</td>
+        </tr>
+      `
+    )
+    .join('');
+
+  const scoreLabel = score.score_percent === null ? '-' : `${score.score_percent}%`;
+
+  return `
+    <html>
+      <head>
+        <meta charset="utf-8" />
+        <style>
+          @page { margin: 26px; }
+          body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; color: #0f172a; font-size: 11px; }
+          h1 { margin: 0 0 6px 0; font-size: 24px; }
+          h2 { margin: 14px 0 6px 0; font-size: 16px; }
+          h3 { margin: 10px 0 4px 0; font-size: 13px; }
+          .subtle { color: #475569; }
+          .meta-grid { display: grid; grid-template-columns: repeat(2, minmax(0, 1fr)); gap: 6px; margin-bottom: 10px; }
+          .summary { border: 1px solid #CBD5E1; border-radius: 10px; padding: 10px; margin-bottom: 12px; }
+          .summary-row { display: flex; gap: 10px; flex-wrap: wrap; }
+          .summary-pill { background: #F1F5F9; border-radius: 999px; padding: 5px 10px; font-weight: 600; }
+          table { width: 100%; border-collapse: collapse; margin-top: 6px; }
+          th, td { border: 1px solid #CBD5E1; text-align: left; padding: 5px; vertical-align: top; }
+          th { background: #E2E8F0; }
+          .status { color: #fff; border-radius: 999px; padding: 2px 8px; font-size: 10px; font-weight: 700; }
+          .proof-grid { display: grid; grid-template-columns: repeat(3, minmax(0, 1fr)); gap: 8px; margin-top: 8px; }
+          .proof-card { border: 1px solid #CBD5E1; border-radius: 8px; overflow: hidden; page-break-inside: avoid; }
+          .proof-card img { width: 100%; height: 120px; object-fit: cover; display: block; }
+          .proof-card .missing { height: 120px; display: flex; align-items: center; justify-content: center; color: #64748B; background: #F1F5F9; }
+          .proof-caption { padding: 6px; font-size: 10px; color: #334155; }
+          .signature-block { border: 1px solid #CBD5E1; border-radius: 10px; padding: 10px; margin-top: 8px; page-break-inside: avoid; }
+          .footer { margin-top: 16px; color: #334155; font-size: 10px; }
+        </style>
+      </head>
+      <body>
+        <h1>PV d'inspection</h1>
+        <div class="subtle">${htmlEscape(title)}${checklist.template_version ? ` v${checklist.template_version}` : ''}</div>
+
+        <div class="meta-grid">
+          <div><strong>Organisation:</strong> ${htmlEscape(checklist.org_id)}</div>
+          <div><strong>Chantier:</strong> ${htmlEscape(checklist.project_id)}</div>
+          <div><strong>Lot:</strong> ${htmlEscape(checklist.trade ? tradeLabel(checklist.trade) : '-')}</div>
+          <div><strong>Inspection du:</strong> ${htmlEscape(formatDate(checklist.created_at))}</div>
+          <div><strong>Inspecteur:</strong> ${htmlEscape(checklist.created_by)}</div>
+          <div><strong>Rapport genere le:</strong> ${htmlEscape(formatDate(input.generated_at))} par ${htmlEscape(input.author)}</div>
+        </div>
+
+        <div class="summary">
+          <h2>Score</h2>
+          <div class="summary-row">
+            <div class="summary-pill">Score pondere: ${scoreLabel}</div>
+            <div class="summary-pill">Conformes: ${score.score_checked}/${score.score_total}</div>
+            <div class="summary-pill">Non conformes: ${score.nonconforming_count}</div>
+            <div class="summary-pill">N/A: ${score.na_count}</div>
+            <div class="summary-pill">Obligatoires manquants: ${score.required_missing}</div>
+          </div>
+        </div>
+
+        <h2>Checklist</h2>
+        ${sectionsHtml || '<div class="subtle">Aucun item</div>'}
+        <div class="subtle">* item obligatoire</div>
+
+        <h2>Photos</h2>
+        <div class="proof-grid">
+          ${photoCards || '<div class="subtle">Aucune photo jointe</div>'}
+        </div>
+
+        <h2>Reserves ouvertes</h2>
+        <table>
+          <thead>
+            <tr>
+              <th>Tache</th>
+              <th>Statut</th>
+              <th>Priorite</th>
+              <th>Echeance</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${issuesRows || '<tr><td colspan="4">Aucune reserve ouverte</td></tr>'}
+          </tbody>
+        </table>
+        ${omittedIssues > 0 ? `<div class="subtle">${omittedIssues} reserve(s) supplementaire(s) non affichee(s).</div>` : ''}
+
+        <h2>Signatures</h2>
+        ${
+          visaRows
+            ? `<table>
+                <thead><tr><th>Visa</th><th>Signataire</th><th>Date</th></tr></thead>
+                <tbody>${visaRows}</tbody>
+              </table>`
+            : ''
+        }
+        <div class="signature-block">
+          <div>Le present PV est signe electroniquement (signature probante): la page de signature, horodatee et
+          geolocalisee, est ajoutee en fin de document lors de la signature.</div>
+        </div>
+
+        <div class="footer">Genere par Conformeo - inspection ${htmlEscape(checklist.id)}</div>
+      </body>
+    </html>
+  `;
+}
+
+/** Renders the inspection report to a temporary PDF (caller registers then deletes it). */
+export async function renderInspectionReportPdf(input: InspectionReportInput) {
+  const photos = await loadPhotos(input.checklist, input.items);
+  const html = buildHtml(input, photos);
+
+  const rendered = await Print.printToFileAsync({
+    html,
+    base64: false
+  });
+
+  const info = await FileSystem.getInfoAsync(rendered.uri);
+  if (!info.exists) {
+    throw new Error('Generation du PV impossible.');
+  }
+
+  return {
+    uri: rendered.uri,
+    sizeBytes: typeof info.size === 'number' ? info.size : 0
+  };
+}
@@ -2,6 +2,10 @@ import * as SQLite from 'expo-sqlite';
 
 const DB_NAME = 'conformeo.db';
 const CONTROL_STATE_TABLE = 'control_mode_state';
+const CHECKLISTS_TABLE = 'inspection_checklists';
+
+/** Tag carried by inspection PV documents (labelling and search only, it grants no write access). */
+export const INSPECTION_REPORT_TAG = 'pv_inspection';
 
 let dbPromise: Promise<SQLite.SQLiteDatabase> | null = null;
 
@@ -67,6 +71,42 @@ export async function isProjectReadOnly(orgId: string, projectId: string): Promi
   }
 }
 
+/**
+ * True when the document is the PV of an inspection of the org: `inspection_checklists.report_document_id`
+ * is only written by the report generation, so control outputs stay writable in control mode, like proofs.
+ */
+export async function isInspectionReportDocument(orgId: string, documentId: string): Promise<boolean> {
+  const safeOrgId = normalizeText(orgId);
+  const safeDocumentId = normalizeText(documentId);
+
+  if (!safeOrgId || !safeDocumentId) {
+    return false;
+  }
+
+  try {
+    const db = await getDb();
+    if (!(await tableExists(db, CHECKLISTS_TABLE))) {
+      return false;
+    }
+
+    const row = await db.getFirstAsync<{ count: number }>(
+      `
+        SELECT COUNT(*) AS count
+        FROM ${CHECKLISTS_TABLE}
+        WHERE org_id = ?
+          AND report_document_id = ?
+      `,
+      safeOrgId,
+      safeDocumentId
+    );
+
+    return (row?.count ?? 0) > 0;
+  } catch {
+    // Fail-closed: an unreadable link never exempts a document from the lock.
+    return false;
+  }
+}
+
 export async function assertProjectWritable(orgId: string, projectId: string) {
   const readOnly = await isProjectReadOnly(orgId, projectId);
   if (!readOnly) {
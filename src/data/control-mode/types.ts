@@ -1,3 +1,4 @@
+import { Document, DocumentVersion } from '../documents';
 import { ExportJob } from '../exports';
 import { MediaAsset } from '../media';
 import { Task } from '../tasks';
@@ -23,21 +24,98 @@ export type ControlProofFilters = {
   offset?: number;
 };
 
+export type ChecklistItemType = 'YES_NO_NA' | 'MEASURE' | 'PHOTO' | 'SIGNATURE';
+
+export type ChecklistAnswer = 'YES' | 'NO' | 'NA';
+
 export type ChecklistTemplateItem = {
   key: string;
   label: string;
+  type: ChecklistItemType;
+  /** Obligatoire: doit etre renseigne et ne peut pas etre marque N/A. */
+  required: boolean;
+  /** Poids dans le score (0 = informatif). */
+  weight: number;
+  unit?: string;
+  min?: number;
+  max?: number;
+  hint?: string;
 };
 
-export type ChecklistTemplateConfig = {
+export type ChecklistTemplateSection = {
+  key: string;
+  label: string;
   items: ChecklistTemplateItem[];
 };
 
+export type ChecklistTemplate = {
+  /** Id de la version (`builtin:<cle>` pour les modeles livres avec l'app). */
+  id: string;
+  /** Id stable partage par toutes les versions d'un meme modele. */
+  family_id: string;
+  org_id?: string;
+  trade: string;
+  name: string;
+  description?: string;
+  version: number;
+  sections: ChecklistTemplateSection[];
+  builtin: boolean;
+  archived: boolean;
+  created_by?: string;
+  created_at: string;
+};
+
+export type ChecklistTemplateItemInput = {
+  key?: string;
+  label: string;
+  type?: ChecklistItemType;
+  required?: boolean;
+  weight?: number;
+  unit?: string;
+  min?: number;
+  max?: number;
+  hint?: string;
+};
+
+export type ChecklistTemplateSectionInput = {
+  key?: string;
+  label: string;
+  items: ChecklistTemplateItemInput[];
+};
+
+export type ChecklistTemplateInput = {
+  /** Absent: nouveau modele (version 1). Present: nouvelle version du modele. */
+  family_id?: string;
+  trade: string;
+  name: string;
+  description?: string;
+  sections: ChecklistTemplateSectionInput[];
+};
+
+export type ChecklistTemplateFilters = {
+  trade?: string;
+  include_builtin?: boolean;
+  include_archived?: boolean;
+};
+
+export type CreateChecklistOptions = {
+  /** Id de version precis, ou `family_id` (derniere version). Defaut: modele general. */
+  template_id?: string;
+};
+
 export type InspectionChecklist = {
   id: string;
   org_id: string;
   project_id: string;
   created_by: string;
   created_at: string;
+  template_id?: string;
+  template_family_id?: string;
+  template_version?: number;
+  template_name?: string;
+  trade?: string;
+  /** Document PV genere pour cette inspection (une version par generation). */
+  report_document_id?: string;
 };
 
 export type InspectionItem = {
@@ -45,6 +123,23 @@ export type InspectionItem = {
   checklist_id: string;
   key: string;
   label: string;
+  section_key?: string;
+  section_label?: string;
+  position: number;
+  type: ChecklistItemType;
+  required: boolean;
+  weight: number;
+  unit?: string;
+  min?: number;
+  max?: number;
+  hint?: string;
+  answer?: ChecklistAnswer;
+  value_number?: number;
+  media_id?: string;
+  signer_name?: string;
+  signed_by?: string;
+  signed_at?: string;
+  /** Item conforme (OUI, mesure dans la plage, photo jointe, signature apposee). */
   checked: boolean;
   comment?: string;
   updated_at: string;
@@ -57,12 +152,29 @@ export type ChecklistWithItems = {
 };
 
 export type InspectionScore = {
+  /** Items conformes, hors N/A. */
   score_checked: number;
+  /** Items applicables (hors N/A). */
   score_total: number;
+  na_count: number;
+  nonconforming_count: number;
+  required_missing: number;
+  weight_checked: number;
+  weight_total: number;
+  /** Score pondere 0..100, null si aucun item applicable. */
+  score_percent: number | null;
 };
 
 export type InspectionSummary = InspectionChecklist & InspectionScore;
 
+export type InspectionReport = {
+  checklist_id: string;
+  document: Document;
+  /** Version active: la version signee une fois la signature probante finalisee. */
+  version: DocumentVersion;
+  signed: boolean;
+};
+
 export type ControlModeState = {
   project_id: string;
   org_id: string;
@@ -105,17 +217,29 @@ export type ControlModeApi = {
   listOpenIssues: (projectId: string) => Promise<Task[]>;
   getRecentActivity: (projectId: string, limit?: number) => Promise<ControlActivity[]>;
 
-  createChecklist: (projectId: string) => Promise<InspectionChecklist>;
+  createChecklist: (projectId: string, options?: CreateChecklistOptions) => Promise<InspectionChecklist>;
   getLatestChecklist: (projectId: string) => Promise<ChecklistWithItems>;
   listInspections: (projectId: string, options?: { limit?: number; offset?: number }) => Promise<InspectionSummary[]>;
   computeScore: (checklistId: string) => Promise<InspectionScore>;
   toggleItem: (itemId: string, checked: boolean) => Promise<void>;
   setComment: (itemId: string, text: string) => Promise<void>;
-  getChecklistTemplate: () => Promise<ChecklistTemplateConfig>;
+  setAnswer: (itemId: string, answer: ChecklistAnswer | null) => Promise<void>;
+  setMeasure: (itemId: string, value: number | null) => Promise<void>;
+  attachPhoto: (itemId: string, mediaId: string | null) => Promise<void>;
+  signItem: (itemId: string, signerName: string | null) => Promise<void>;
+
+  generateInspectionReport: (checklistId: string) => Promise<InspectionReport>;
+  getInspectionReport: (checklistId: string) => Promise<InspectionReport | null>;
+
+  getChecklistTemplate: (templateId?: string) => Promise<ChecklistTemplate>;
+  listTemplates: (filters?: ChecklistTemplateFilters) => Promise<ChecklistTemplate[]>;
+  listTemplateVersions: (familyId: string) => Promise<ChecklistTemplate[]>;
+  saveTemplate: (input: ChecklistTemplateInput) => Promise<ChecklistTemplate>;
+  archiveTemplate: (familyId: string) => Promise<void>;
 
   generateControlPack: (projectId: string) => Promise<ExportJob>;
 
   // Alias UX (inspection = checklist)
-  createInspection: (projectId: string) => Promise<InspectionChecklist>;
+  createInspection: (projectId: string, options?: CreateChecklistOptions) => Promise<InspectionChecklist>;
   getLatestInspection: (projectId: string) => Promise<ChecklistWithItems>;
 };
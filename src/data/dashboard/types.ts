@@ -96,7 +96,7 @@ export type DashboardDocumentPreview = {
   id: string;
   title: string;
   doc_type: 'PLAN' | 'DOE' | 'PV' | 'REPORT' | 'INTERNAL' | 'OTHER';
-  status: 'DRAFT' | 'FINAL' | 'SIGNED';
+  status: 'DRAFT' | 'IN_REVIEW' | 'VISA' | 'REJECTED' | 'FINAL' | 'SIGNED';
   updated_at: string;
   project_id?: string;
 };
@@ -521,6 +521,16 @@ async function applyDeletedDocumentsRetention(db: SQLite.SQLiteDatabase, orgId:
     deletedSignatures = deleteSignaturesResult.changes ?? 0;
   }
 
+  if (await tableExists(db, 'signature_requests')) {
+    await db.runAsync(
+      `
+        DELETE FROM signature_requests
+        WHERE document_id IN (${placeholders})
+      `,
+      ...docIds
+    );
+  }
+
   const deleteDocsResult = await db.runAsync(
     `
       DELETE FROM ${quoteIdent(docsTable)}
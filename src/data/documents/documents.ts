@@ -1,20 +1,35 @@
 import * as Crypto from 'expo-crypto';
 import * as FileSystem from 'expo-file-system/legacy';
 import * as SQLite from 'expo-sqlite';
+import { AppRole } from '../../core/identity-security/types';
 import { audit } from '../audit-compliance';
-import { assertProjectWritable } from '../control-mode/readOnly';
+import { assertProjectWritable, isInspectionReportDocument } from '../control-mode/readOnly';
 import { media } from '../media';
 import { offlineDB } from '../offline/outbox';
+import { extractPdfPageTexts } from './pdfText';
+import { diffVersionFiles, DiffVersionFile } from './versionDiff';
 import {
   AddVersionContext,
   Document,
   DocumentCreateInput,
   DocumentLink,
+  DocumentPendingReview,
+  DocumentReview,
+  DocumentReviewDecision,
+  DocumentReviewDecisionInput,
+  DocumentReviewDecisionKind,
+  DocumentReviewer,
+  DocumentReviewStatus,
+  DocumentReviewSubmitInput,
   DocumentsListFilters,
   DocumentStatus,
   DocumentType,
   DocumentUpdatePatch,
   DocumentVersion,
+  DocumentVersionDiff,
+  DocumentVersionDiffOptions,
+  DocumentVersionPage,
+  DocumentVisaKind,
   DocumentScope,
   LinkedEntity
 } from './types';
@@ -23,10 +38,34 @@ const DB_NAME = 'conformeo.db';
 const DOCUMENTS_TABLE = 'documents';
 const VERSIONS_TABLE = 'document_versions';
 const LINKS_TABLE = 'document_links';
+const PAGES_TABLE = 'document_version_pages';
+const REVIEWS_TABLE = 'document_reviews';
+const REVIEW_DECISIONS_TABLE = 'document_review_decisions';
+
+const DOCUMENT_COLUMNS = [
+  'id',
+  'org_id',
+  'scope',
+  'project_id',
+  'title',
+  'doc_type',
+  'status',
+  'tags_json',
+  'description',
+  'created_by',
+  'created_at',
+  'updated_at',
+  'deleted_at',
+  'active_version_id'
+].join(', ');
+
+const PDF_MIME = 'application/pdf';
 
 const DEFAULT_PAGE_SIZE = 25;
 const MAX_PAGE_SIZE = 200;
 const MAX_VERSIONS_PER_DOCUMENT = 10;
+const MAX_REVIEWERS = 20;
+const REVIEW_STATUSES: DocumentStatus[] = ['IN_REVIEW', 'VISA', 'REJECTED'];
 
 type DocumentRow = {
   id: string;
@@ -57,6 +96,18 @@ type VersionRow = {
   created_by: string;
 };
 
+type PageRow = {
+  id: string;
+  org_id: string;
+  project_id: string | null;
+  document_id: string;
+  version_id: string;
+  version_number: number;
+  page_number: number;
+  text: string;
+  created_at: string;
+};
+
 type LinkRow = {
   id: string;
   document_id: string;
@@ -65,6 +116,36 @@ type LinkRow = {
   created_at: string;
 };
 
+type ReviewRow = {
+  id: string;
+  org_id: string;
+  project_id: string | null;
+  document_id: string;
+  version_id: string;
+  version_number: number;
+  status: DocumentReviewStatus;
+  visa_kind: DocumentVisaKind | null;
+  reviewers_json: string;
+  required_approvals: number;
+  due_date: string | null;
+  message: string | null;
+  submitted_by: string;
+  submitted_at: string;
+  closed_at: string | null;
+};
+
+type DecisionRow = {
+  id: string;
+  review_id: string;
+  document_id: string;
+  version_id: string;
+  reviewer_user_id: string;
+  reviewer_role: AppRole | null;
+  decision: DocumentReviewDecisionKind;
+  comment: string | null;
+  created_at: string;
+};
+
 let dbPromise: Promise<SQLite.SQLiteDatabase> | null = null;
 let setupPromise: Promise<void> | null = null;
 let actorUserId: string | null = null;
@@ -140,13 +221,41 @@ function isValidType(type: string): type is DocumentType {
 }
 
 function isValidStatus(status: string): status is DocumentStatus {
-  return status === 'DRAFT' || status === 'FINAL' || status === 'SIGNED';
+  return (
+    status === 'DRAFT' ||
+    status === 'IN_REVIEW' ||
+    status === 'VISA' ||
+    status === 'REJECTED' ||
+    status === 'FINAL' ||
+    status === 'SIGNED'
+  );
 }
 
 function isValidLinkedEntity(entity: string): entity is LinkedEntity {
   return entity === 'TASK' || entity === 'PLAN_PIN' || entity === 'PROJECT' || entity === 'EXPORT';
 }
 
+function isValidAppRole(role: string): role is AppRole {
+  return role === 'ADMIN' || role === 'MANAGER' || role === 'FIELD';
+}
+
+function isValidDecision(decision: string): decision is DocumentReviewDecisionKind {
+  return decision === 'APPROVE' || decision === 'APPROVE_WITH_OBSERVATIONS' || decision === 'REJECT';
+}
+
+/** Inspection PV linked from its checklist (never inferred from editable fields such as tags). */
+async function isControlOutput(document: Document) {
+  return document.doc_type === 'PV' && (await isInspectionReportDocument(document.org_id, document.id));
+}
+
+async function assertDocumentWritable(document: Document) {
+  if (document.scope !== 'PROJECT' || !document.project_id || (await isControlOutput(document))) {
+    return;
+  }
+
+  await assertProjectWritable(document.org_id, document.project_id);
+}
+
 function escapeLike(input: string) {
   // Escape SQLite LIKE wildcards.
   return input.replace(/[%_]/g, (value) => `\\${value}`);
@@ -185,6 +294,20 @@ function mapVersionRow(row: VersionRow): DocumentVersion {
   };
 }
 
+function mapPageRow(row: PageRow): DocumentVersionPage {
+  return {
+    id: row.id,
+    org_id: row.org_id,
+    project_id: row.project_id ?? undefined,
+    document_id: row.document_id,
+    version_id: row.version_id,
+    version_number: row.version_number,
+    page_number: row.page_number,
+    text: row.text,
+    created_at: row.created_at
+  };
+}
+
 function mapLinkRow(row: LinkRow): DocumentLink {
   return {
     id: row.id,
@@ -195,6 +318,41 @@ function mapLinkRow(row: LinkRow): DocumentLink {
   };
 }
 
+function mapDecisionRow(row: DecisionRow): DocumentReviewDecision {
+  return {
+    id: row.id,
+    review_id: row.review_id,
+    document_id: row.document_id,
+    version_id: row.version_id,
+    reviewer_user_id: row.reviewer_user_id,
+    reviewer_role: row.reviewer_role ?? undefined,
+    decision: row.decision,
+    comment: row.comment ?? undefined,
+    created_at: row.created_at
+  };
+}
+
+function mapReviewRow(row: ReviewRow, decisions: DocumentReviewDecision[]): DocumentReview {
+  return {
+    id: row.id,
+    org_id: row.org_id,
+    project_id: row.project_id ?? undefined,
+    document_id: row.document_id,
+    version_id: row.version_id,
+    version_number: row.version_number,
+    status: row.status,
+    visa_kind: row.visa_kind ?? undefined,
+    reviewers: parseJsonArray<DocumentReviewer>(row.reviewers_json, []),
+    required_approvals: row.required_approvals,
+    due_date: row.due_date ?? undefined,
+    message: row.message ?? undefined,
+    submitted_by: row.submitted_by,
+    submitted_at: row.submitted_at,
+    closed_at: row.closed_at ?? undefined,
+    decisions
+  };
+}
+
 async function getDb() {
   if (!dbPromise) {
     dbPromise = SQLite.openDatabaseAsync(DB_NAME);
@@ -203,20 +361,16 @@ async function getDb() {
   return dbPromise;
 }
 
-async function setupSchema() {
-  const db = await getDb();
-
-  await db.execAsync(`
-    PRAGMA journal_mode = WAL;
-
-    CREATE TABLE IF NOT EXISTS ${DOCUMENTS_TABLE} (
+function documentsTableSql(tableName: string) {
+  return `
+    CREATE TABLE IF NOT EXISTS ${tableName} (
       id TEXT PRIMARY KEY NOT NULL,
       org_id TEXT NOT NULL,
       scope TEXT NOT NULL CHECK (scope IN ('COMPANY', 'PROJECT')),
       project_id TEXT,
       title TEXT NOT NULL,
       doc_type TEXT NOT NULL CHECK (doc_type IN ('PLAN', 'DOE', 'PV', 'REPORT', 'INTERNAL', 'OTHER')),
-      status TEXT NOT NULL CHECK (status IN ('DRAFT', 'FINAL', 'SIGNED')),
+      status TEXT NOT NULL CHECK (status IN ('DRAFT', 'IN_REVIEW', 'VISA', 'REJECTED', 'FINAL', 'SIGNED')),
       tags_json TEXT NOT NULL,
       description TEXT,
       created_by TEXT NOT NULL,
@@ -225,7 +379,55 @@ async function setupSchema() {
       deleted_at TEXT,
       active_version_id TEXT
     );
+  `;
+}
+
+/** Databases created before the review workflow have a CHECK on status that rejects the review states. */
+async function upgradeStatusConstraint(db: SQLite.SQLiteDatabase) {
+  const row = await db.getFirstAsync<{ sql: string | null }>(
+    `
+      SELECT sql
+      FROM sqlite_master
+      WHERE type = 'table'
+        AND name = ?
+    `,
+    DOCUMENTS_TABLE
+  );
+
+  if (!row?.sql || row.sql.includes("'IN_REVIEW'")) {
+    return;
+  }
 
+  const rebuiltTable = `${DOCUMENTS_TABLE}_rebuild`;
+
+  await db.execAsync('BEGIN;');
+  try {
+    await db.execAsync(`
+      DROP TABLE IF EXISTS ${rebuiltTable};
+      ${documentsTableSql(rebuiltTable)}
+      INSERT INTO ${rebuiltTable} (${DOCUMENT_COLUMNS}) SELECT ${DOCUMENT_COLUMNS} FROM ${DOCUMENTS_TABLE};
+      DROP TABLE ${DOCUMENTS_TABLE};
+      ALTER TABLE ${rebuiltTable} RENAME TO ${DOCUMENTS_TABLE};
+    `);
+    await db.execAsync('COMMIT;');
+  } catch (error) {
+    await db.execAsync('ROLLBACK;');
+    throw error;
+  }
+}
+
+async function setupSchema() {
+  const db = await getDb();
+
+  await db.execAsync(`
+    PRAGMA journal_mode = WAL;
+
+    ${documentsTableSql(DOCUMENTS_TABLE)}
+  `);
+
+  await upgradeStatusConstraint(db);
+
+  await db.execAsync(`
     CREATE INDEX IF NOT EXISTS idx_documents_org_scope_updated
       ON ${DOCUMENTS_TABLE}(org_id, scope, updated_at DESC);
 
@@ -266,6 +468,63 @@ async function setupSchema() {
 
     CREATE INDEX IF NOT EXISTS idx_document_links_entity
       ON ${LINKS_TABLE}(linked_entity, linked_id);
+
+    CREATE TABLE IF NOT EXISTS ${PAGES_TABLE} (
+      id TEXT PRIMARY KEY NOT NULL,
+      org_id TEXT NOT NULL,
+      project_id TEXT,
+      document_id TEXT NOT NULL,
+      version_id TEXT NOT NULL,
+      version_number INTEGER NOT NULL,
+      page_number INTEGER NOT NULL,
+      text TEXT NOT NULL,
+      created_at TEXT NOT NULL
+    );
+
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_document_version_pages_unique
+      ON ${PAGES_TABLE}(version_id, page_number);
+
+    CREATE INDEX IF NOT EXISTS idx_document_version_pages_document
+      ON ${PAGES_TABLE}(document_id, version_number DESC);
+
+    CREATE TABLE IF NOT EXISTS ${REVIEWS_TABLE} (
+      id TEXT PRIMARY KEY NOT NULL,
+      org_id TEXT NOT NULL,
+      project_id TEXT,
+      document_id TEXT NOT NULL,
+      version_id TEXT NOT NULL,
+      version_number INTEGER NOT NULL,
+      status TEXT NOT NULL CHECK (status IN ('PENDING', 'VISA', 'REJECTED', 'CANCELLED')),
+      visa_kind TEXT CHECK (visa_kind IS NULL OR visa_kind IN ('SANS_OBSERVATIONS', 'AVEC_OBSERVATIONS')),
+      reviewers_json TEXT NOT NULL,
+      required_approvals INTEGER NOT NULL,
+      due_date TEXT,
+      message TEXT,
+      submitted_by TEXT NOT NULL,
+      submitted_at TEXT NOT NULL,
+      closed_at TEXT
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_document_reviews_document
+      ON ${REVIEWS_TABLE}(document_id, submitted_at DESC);
+
+    CREATE INDEX IF NOT EXISTS idx_document_reviews_org_status
+      ON ${REVIEWS_TABLE}(org_id, status, due_date);
+
+    CREATE TABLE IF NOT EXISTS ${REVIEW_DECISIONS_TABLE} (
+      id TEXT PRIMARY KEY NOT NULL,
+      review_id TEXT NOT NULL,
+      document_id TEXT NOT NULL,
+      version_id TEXT NOT NULL,
+      reviewer_user_id TEXT NOT NULL,
+      reviewer_role TEXT,
+      decision TEXT NOT NULL CHECK (decision IN ('APPROVE', 'APPROVE_WITH_OBSERVATIONS', 'REJECT')),
+      comment TEXT,
+      created_at TEXT NOT NULL
+    );
+
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_document_review_decisions_unique
+      ON ${REVIEW_DECISIONS_TABLE}(review_id, reviewer_user_id);
   `);
 }
 
@@ -421,6 +680,65 @@ async function computeFileHash(localPath: string) {
   return Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, fileData);
 }
 
+/**
+ * Replaces the extracted pages of a version. Rows are deleted then inserted (never replaced)
+ * so that the search triggers keep their index in sync.
+ */
+async function extractVersionPages(document: Document, version: DocumentVersion, localPath: string) {
+  const fileData = await FileSystem.readAsStringAsync(localPath, {
+    encoding: FileSystem.EncodingType.Base64
+  });
+
+  const texts = await extractPdfPageTexts(fileData);
+  const createdAt = nowIso();
+
+  const pages: DocumentVersionPage[] = [];
+  texts.forEach((text, index) => {
+    const cleaned = text.trim();
+    if (cleaned.length === 0) {
+      return;
+    }
+
+    pages.push({
+      id: `${version.id}:${index + 1}`,
+      org_id: document.org_id,
+      project_id: document.project_id,
+      document_id: document.id,
+      version_id: version.id,
+      version_number: version.version_number,
+      page_number: index + 1,
+      text: cleaned,
+      created_at: createdAt
+    });
+  });
+
+  await ensureSetup();
+  const db = await getDb();
+
+  await db.runAsync(`DELETE FROM ${PAGES_TABLE} WHERE version_id = ?`, version.id);
+
+  for (const page of pages) {
+    await db.runAsync(
+      `
+        INSERT INTO ${PAGES_TABLE}
+        (id, org_id, project_id, document_id, version_id, version_number, page_number, text, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `,
+      page.id,
+      page.org_id,
+      page.project_id ?? null,
+      page.document_id,
+      page.version_id,
+      page.version_number,
+      page.page_number,
+      page.text,
+      page.created_at
+    );
+  }
+
+  return pages;
+}
+
 async function resolveVersionMedia(document: Document, context: AddVersionContext) {
   if (context.source === 'existing') {
     const existingId = normalizeText(context.existing_asset_id);
@@ -479,6 +797,263 @@ async function enqueueDocumentOperation(
   });
 }
 
+function normalizeReviewers(reviewers: DocumentReviewer[]) {
+  const seen = new Set<string>();
+  const next: DocumentReviewer[] = [];
+
+  for (const reviewer of reviewers ?? []) {
+    if (reviewer?.kind === 'ROLE') {
+      if (!isValidAppRole(reviewer.role)) {
+        throw new Error(`Role relecteur invalide: ${reviewer.role}`);
+      }
+
+      const key = `ROLE:${reviewer.role}`;
+      if (!seen.has(key)) {
+        seen.add(key);
+        next.push({ kind: 'ROLE', role: reviewer.role });
+      }
+      continue;
+    }
+
+    if (reviewer?.kind === 'USER') {
+      const userId = normalizeText(reviewer.user_id);
+      if (userId.length === 0) {
+        throw new Error('user_id relecteur requis.');
+      }
+
+      const key = `USER:${userId}`;
+      if (!seen.has(key)) {
+        seen.add(key);
+        const label = normalizeText(reviewer.label);
+        next.push(label ? { kind: 'USER', user_id: userId, label } : { kind: 'USER', user_id: userId });
+      }
+      continue;
+    }
+
+    throw new Error('Relecteur invalide.');
+  }
+
+  if (next.length === 0) {
+    throw new Error('Au moins un relecteur (membre ou role) est requis.');
+  }
+
+  if (next.length > MAX_REVIEWERS) {
+    throw new Error(`Maximum ${MAX_REVIEWERS} relecteurs par revue.`);
+  }
+
+  return next;
+}
+
+/** Date-only due dates (YYYY-MM-DD) are kept as typed: they are due at the end of that local day. */
+function normalizeDueDate(value: string | undefined) {
+  const cleaned = normalizeText(value);
+  if (cleaned.length === 0) {
+    return undefined;
+  }
+
+  if (/^\d{4}-\d{2}-\d{2}$/.test(cleaned) && Number.isFinite(Date.parse(`${cleaned}T00:00:00`))) {
+    return cleaned;
+  }
+
+  const parsed = Date.parse(cleaned);
+  if (!Number.isFinite(parsed)) {
+    throw new Error(`Echeance de revue invalide: ${cleaned}`);
+  }
+
+  return new Date(parsed).toISOString();
+}
+
+function dueDateMs(dueDate: string) {
+  return dueDate.length === 10 ? Date.parse(`${dueDate}T23:59:59.999`) : Date.parse(dueDate);
+}
+
+function isReviewOverdue(review: DocumentReview, now = Date.now()) {
+  return review.status === 'PENDING' && Boolean(review.due_date) && dueDateMs(review.due_date!) < now;
+}
+
+function isEligibleReviewer(review: DocumentReview, userId: string, role: AppRole | null | undefined) {
+  return review.reviewers.some(
+    (reviewer) =>
+      (reviewer.kind === 'USER' && reviewer.user_id === userId) || (reviewer.kind === 'ROLE' && reviewer.role === role)
+  );
+}
+
+function requireActor(message: string) {
+  if (!actorUserId) {
+    throw new Error(message);
+  }
+
+  return actorUserId;
+}
+
+async function listDecisionsByReviewIds(reviewIds: string[]) {
+  const byReview = new Map<string, DocumentReviewDecision[]>();
+  if (reviewIds.length === 0) {
+    return byReview;
+  }
+
+  await ensureSetup();
+  const db = await getDb();
+  const placeholders = reviewIds.map(() => '?').join(', ');
+  const rows = await db.getAllAsync<DecisionRow>(
+    `
+      SELECT *
+      FROM ${REVIEW_DECISIONS_TABLE}
+      WHERE review_id IN (${placeholders})
+      ORDER BY created_at ASC
+    `,
+    ...reviewIds
+  );
+
+  for (const row of rows) {
+    const list = byReview.get(row.review_id) ?? [];
+    list.push(mapDecisionRow(row));
+    byReview.set(row.review_id, list);
+  }
+
+  return byReview;
+}
+
+async function hydrateReviews(rows: ReviewRow[]) {
+  const decisions = await listDecisionsByReviewIds(rows.map((row) => row.id));
+  return rows.map((row) => mapReviewRow(row, decisions.get(row.id) ?? []));
+}
+
+async function getReviewById(reviewId: string) {
+  await ensureSetup();
+  const db = await getDb();
+  const row = await db.getFirstAsync<ReviewRow>(
+    `
+      SELECT *
+      FROM ${REVIEWS_TABLE}
+      WHERE id = ?
+      LIMIT 1
+    `,
+    reviewId
+  );
+
+  if (!row) {
+    return null;
+  }
+
+  const [review] = await hydrateReviews([row]);
+  return review;
+}
+
+async function getPendingReviewRow(documentId: string) {
+  await ensureSetup();
+  const db = await getDb();
+  const row = await db.getFirstAsync<ReviewRow>(
+    `
+      SELECT *
+      FROM ${REVIEWS_TABLE}
+      WHERE document_id = ?
+        AND status = 'PENDING'
+      ORDER BY submitted_at DESC
+      LIMIT 1
+    `,
+    documentId
+  );
+
+  return row ?? null;
+}
+
+async function saveReview(review: DocumentReview) {
+  await ensureSetup();
+  const db = await getDb();
+
+  await db.runAsync(
+    `
+      INSERT OR REPLACE INTO ${REVIEWS_TABLE}
+      (
+        id, org_id, project_id, document_id, version_id, version_number,
+        status, visa_kind, reviewers_json, required_approvals, due_date, message,
+        submitted_by, submitted_at, closed_at
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `,
+    review.id,
+    review.org_id,
+    review.project_id ?? null,
+    review.document_id,
+    review.version_id,
+    review.version_number,
+    review.status,
+    review.visa_kind ?? null,
+    JSON.stringify(review.reviewers),
+    review.required_approvals,
+    review.due_date ?? null,
+    review.message ?? null,
+    review.submitted_by,
+    review.submitted_at,
+    review.closed_at ?? null
+  );
+
+  return review;
+}
+
+async function saveDecision(decision: DocumentReviewDecision) {
+  await ensureSetup();
+  const db = await getDb();
+
+  await db.runAsync(
+    `
+      INSERT INTO ${REVIEW_DECISIONS_TABLE}
+      (id, review_id, document_id, version_id, reviewer_user_id, reviewer_role, decision, comment, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `,
+    decision.id,
+    decision.review_id,
+    decision.document_id,
+    decision.version_id,
+    decision.reviewer_user_id,
+    decision.reviewer_role ?? null,
+    decision.decision,
+    decision.comment ?? null,
+    decision.created_at
+  );
+
+  return decision;
+}
+
+async function enqueueReviewOperation(
+  review: DocumentReview,
+  type: 'CREATE' | 'UPDATE',
+  payload: Record<string, unknown>
+) {
+  await offlineDB.enqueueOperation({
+    entity: 'document_reviews',
+    entity_id: review.id,
+    type,
+    payload: {
+      ...payload,
+      id: review.id,
+      org_id: review.org_id,
+      orgId: review.org_id,
+      project_id: review.project_id,
+      document_id: review.document_id,
+      data: review
+    }
+  });
+}
+
+/** Status moves driven by the review workflow; the document keeps whatever status it reached otherwise. */
+async function setReviewDocumentStatus(document: Document, status: DocumentStatus) {
+  if (document.status === status) {
+    return document;
+  }
+
+  const next: Document = { ...document, status, updated_at: nowIso() };
+  await saveDocument(next);
+
+  await enqueueDocumentOperation(next, 'UPDATE', {
+    patch: { status },
+    data: next
+  });
+
+  return next;
+}
+
 function normalizeCreateInput(input: DocumentCreateInput): Document {
   const now = nowIso();
 
@@ -578,9 +1153,7 @@ export const documents = {
   async create(meta: DocumentCreateInput): Promise<Document> {
     const document = normalizeCreateInput(meta);
 
-    if (document.scope === 'PROJECT' && document.project_id) {
-      await assertProjectWritable(document.org_id, document.project_id);
-    }
+    await assertDocumentWritable(document);
 
     await saveDocument(document);
 
@@ -602,8 +1175,10 @@ export const documents = {
   async update(id: string, patch: DocumentUpdatePatch): Promise<Document> {
     const current = await ensureDocumentExists(id);
 
-    if (current.scope === 'PROJECT' && current.project_id) {
-      await assertProjectWritable(current.org_id, current.project_id);
+    await assertDocumentWritable(current);
+
+    if (patch.status !== undefined && patch.status !== current.status && REVIEW_STATUSES.includes(patch.status)) {
+      throw new Error('Statut reserve au circuit de visa (submitForReview / decideReview).');
     }
 
     const updated = mergeDocumentPatch(current, patch);
@@ -844,9 +1419,7 @@ export const documents = {
   async addVersion(documentId: string, fileContext: AddVersionContext = {}): Promise<DocumentVersion> {
     const document = await ensureDocumentExists(documentId);
 
-    if (document.scope === 'PROJECT' && document.project_id) {
-      await assertProjectWritable(document.org_id, document.project_id);
-    }
+    await assertDocumentWritable(document);
 
     const existingCount = await getDocumentVersionCount(documentId);
     if (existingCount >= MAX_VERSIONS_PER_DOCUMENT) {
@@ -895,6 +1468,18 @@ export const documents = {
 
     await saveDocument(updatedDocument);
 
+    if (version.file_mime === PDF_MIME) {
+      // Best effort: an unreadable PDF must not block the version itself.
+      try {
+        await extractVersionPages(updatedDocument, version, finalAsset.local_path);
+      } catch (error) {
+        if (__DEV__) {
+          const message = error instanceof Error ? error.message : String(error);
+          console.warn('[documents] pdf text extraction failed:', message);
+        }
+      }
+    }
+
     await offlineDB.enqueueOperation({
       entity: 'document_versions',
       entity_id: version.id,
@@ -934,6 +1519,108 @@ export const documents = {
     return rows.map(mapVersionRow);
   },
 
+  async listVersionPages(versionId: string): Promise<DocumentVersionPage[]> {
+    await ensureSetup();
+
+    const db = await getDb();
+    const rows = await db.getAllAsync<PageRow>(
+      `
+        SELECT *
+        FROM ${PAGES_TABLE}
+        WHERE version_id = ?
+        ORDER BY page_number ASC
+      `,
+      versionId
+    );
+
+    return rows.map(mapPageRow);
+  },
+
+  /**
+   * (Re)extracts the text of a PDF version from its local file, e.g. for versions added before
+   * extraction existed. Returns the stored pages (empty for non-PDF or text-less files).
+   */
+  async extractVersionText(versionId: string): Promise<DocumentVersionPage[]> {
+    const version = await getVersionById(versionId);
+    if (!version) {
+      throw new Error('Version introuvable.');
+    }
+
+    if (version.file_mime !== PDF_MIME) {
+      return [];
+    }
+
+    const document = await ensureDocumentExists(version.document_id);
+
+    const asset = await media.getById(version.file_asset_id);
+    if (!asset?.local_path) {
+      throw new Error('Fichier local introuvable pour cette version.');
+    }
+
+    return extractVersionPages(document, version, asset.local_path);
+  },
+
+  /**
+   * Compares two versions of the same document page by page: pixel difference for images and scanned
+   * PDF pages, content fingerprint for vector PDF pages, line diff of the extracted text.
+   * The left version is the reference (usually the older one).
+   */
+  async compareVersions(
+    leftVersionId: string,
+    rightVersionId: string,
+    options: DocumentVersionDiffOptions = {}
+  ): Promise<DocumentVersionDiff> {
+    if (leftVersionId === rightVersionId) {
+      throw new Error('Choisir deux versions differentes.');
+    }
+
+    const [left, right] = await Promise.all([getVersionById(leftVersionId), getVersionById(rightVersionId)]);
+    if (!left || !right) {
+      throw new Error('Version introuvable.');
+    }
+
+    if (left.document_id !== right.document_id) {
+      throw new Error('Les versions comparees doivent appartenir au meme document.');
+    }
+
+    await ensureDocumentExists(left.document_id, true);
+
+    const loadFile = async (version: DocumentVersion): Promise<DiffVersionFile> => {
+      const asset = await media.getById(version.file_asset_id);
+      if (!asset?.local_path) {
+        throw new Error(`Fichier local introuvable pour la version v${version.version_number}.`);
+      }
+
+      let pages = await this.listVersionPages(version.id);
+      if (pages.length === 0 && version.file_mime === PDF_MIME) {
+        pages = await this.extractVersionText(version.id).catch(() => []);
+      }
+
+      return {
+        version,
+        local_path: asset.local_path,
+        width: asset.width,
+        height: asset.height,
+        page_texts: new Map(pages.map((page) => [page.page_number, page.text]))
+      };
+    };
+
+    const leftFile = await loadFile(left);
+    const rightFile = await loadFile(right);
+    const pages = await diffVersionFiles(leftFile, rightFile, options);
+
+    return {
+      document_id: left.document_id,
+      left_version_id: left.id,
+      right_version_id: right.id,
+      left_version_number: left.version_number,
+      right_version_number: right.version_number,
+      pages,
+      text_available: leftFile.page_texts.size > 0 || rightFile.page_texts.size > 0,
+      generated_at: nowIso()
+    };
+  },
+
   async setActiveVersion(documentId: string, versionId: string): Promise<void> {
     const document = await ensureDocumentExists(documentId);
 
@@ -964,9 +1651,7 @@ export const documents = {
   async link(documentId: string, entity: LinkedEntity, entityId: string): Promise<void> {
     const document = await ensureDocumentExists(documentId);
 
-    if (document.scope === 'PROJECT' && document.project_id) {
-      await assertProjectWritable(document.org_id, document.project_id);
-    }
+    await assertDocumentWritable(document);
 
     if (!isValidLinkedEntity(entity)) {
       throw new Error(`Entité liée invalide: ${entity}`);
@@ -1193,6 +1878,296 @@ export const documents = {
     return rows.map(mapDocumentRow);
   },
 
+  async submitForReview(
+    documentId: string,
+    versionId: string,
+    input: DocumentReviewSubmitInput
+  ): Promise<DocumentReview> {
+    const submittedBy = requireActor('Utilisateur requis pour soumettre au visa.');
+    const document = await ensureDocumentExists(documentId);
+
+    await assertDocumentWritable(document);
+
+    if (document.status === 'SIGNED') {
+      throw new Error('Document signe: ajoute une nouvelle version avant de la soumettre au visa.');
+    }
+
+    const version = await getVersionById(versionId);
+    if (!version || version.document_id !== document.id) {
+      throw new Error('Version introuvable pour ce document.');
+    }
+
+    if (await getPendingReviewRow(document.id)) {
+      throw new Error('Une revue est deja en cours pour ce document.');
+    }
+
+    const reviewers = normalizeReviewers(input.reviewers);
+    const requiredApprovals = Math.floor(input.required_approvals ?? 1);
+    const hasRoleReviewer = reviewers.some((reviewer) => reviewer.kind === 'ROLE');
+    const maxApprovals = hasRoleReviewer ? MAX_REVIEWERS : reviewers.length;
+
+    if (!Number.isFinite(requiredApprovals) || requiredApprovals < 1 || requiredApprovals > maxApprovals) {
+      throw new Error(`Nombre d'approbations requis invalide (1 a ${maxApprovals}).`);
+    }
+
+    const review: DocumentReview = {
+      id: createUuid(),
+      org_id: document.org_id,
+      project_id: document.project_id,
+      document_id: document.id,
+      version_id: version.id,
+      version_number: version.version_number,
+      status: 'PENDING',
+      reviewers,
+      required_approvals: requiredApprovals,
+      due_date: normalizeDueDate(input.due_date),
+      message: normalizeText(input.message) || undefined,
+      submitted_by: submittedBy,
+      submitted_at: nowIso(),
+      decisions: []
+    };
+
+    await saveReview(review);
+    await enqueueReviewOperation(review, 'CREATE', {});
+    await setReviewDocumentStatus(document, 'IN_REVIEW');
+
+    await audit.log('document.review_submit', 'DOCUMENT', document.id, {
+      review_id: review.id,
+      version_id: version.id,
+      version_number: version.version_number,
+      reviewers,
+      required_approvals: requiredApprovals,
+      due_date: review.due_date ?? null,
+      from_status: document.status,
+      to_status: 'IN_REVIEW'
+    });
+
+    return review;
+  },
+
+  /**
+   * Records the decision of the current actor. One REJECT closes the review as REJECTED; reaching
+   * `required_approvals` closes it as VISA, "avec observations" as soon as one approval carries some.
+   */
+  async decideReview(
+    reviewId: string,
+    input: DocumentReviewDecisionInput,
+    reviewerRole?: AppRole | null
+  ): Promise<DocumentReview> {
+    const reviewerId = requireActor('Utilisateur requis pour rendre un visa.');
+    const review = await getReviewById(reviewId);
+
+    if (!review) {
+      throw new Error('Revue introuvable.');
+    }
+
+    if (review.status !== 'PENDING') {
+      throw new Error('Cette revue est deja cloturee.');
+    }
+
+    if (!isValidDecision(input.decision)) {
+      throw new Error(`Decision de revue invalide: ${input.decision}`);
+    }
+
+    if (!isEligibleReviewer(review, reviewerId, reviewerRole)) {
+      throw new Error("Tu n'es pas relecteur de cette revue.");
+    }
+
+    if (review.submitted_by === reviewerId) {
+      throw new Error('Le demandeur ne peut pas viser sa propre soumission.');
+    }
+
+    if (review.decisions.some((decision) => decision.reviewer_user_id === reviewerId)) {
+      throw new Error('Decision deja rendue sur cette revue.');
+    }
+
+    const comment = normalizeText(input.comment) || undefined;
+    if (input.decision !== 'APPROVE' && !comment) {
+      throw new Error(input.decision === 'REJECT' ? 'Motif de refus requis.' : 'Observations requises.');
+    }
+
+    const document = await ensureDocumentExists(review.document_id);
+    const decision: DocumentReviewDecision = {
+      id: createUuid(),
+      review_id: review.id,
+      document_id: review.document_id,
+      version_id: review.version_id,
+      reviewer_user_id: reviewerId,
+      reviewer_role: reviewerRole ?? undefined,
+      decision: input.decision,
+      comment,
+      created_at: nowIso()
+    };
+
+    await saveDecision(decision);
+    await offlineDB.enqueueOperation({
+      entity: 'document_review_decisions',
+      entity_id: decision.id,
+      type: 'CREATE',
+      payload: {
+        id: decision.id,
+        org_id: review.org_id,
+        orgId: review.org_id,
+        project_id: review.project_id,
+        data: decision
+      }
+    });
+
+    const decisions = [...review.decisions, decision];
+    const approvals = decisions.filter((row) => row.decision !== 'REJECT');
+    let next: DocumentReview = { ...review, decisions };
+
+    if (decision.decision === 'REJECT') {
+      next = { ...next, status: 'REJECTED', closed_at: decision.created_at };
+    } else if (approvals.length >= review.required_approvals) {
+      const withObservations = approvals.some((row) => row.decision === 'APPROVE_WITH_OBSERVATIONS');
+      next = {
+        ...next,
+        status: 'VISA',
+        visa_kind: withObservations ? 'AVEC_OBSERVATIONS' : 'SANS_OBSERVATIONS',
+        closed_at: decision.created_at
+      };
+    }
+
+    await saveReview(next);
+    await enqueueReviewOperation(next, 'UPDATE', {});
+
+    await audit.log('document.review_decision', 'DOCUMENT', review.document_id, {
+      review_id: review.id,
+      version_id: review.version_id,
+      decision: decision.decision,
+      comment: comment ?? null,
+      reviewer_role: reviewerRole ?? null,
+      approvals: approvals.length,
+      required_approvals: review.required_approvals
+    });
+
+    if (next.status !== 'PENDING') {
+      // A document signed or edited meanwhile keeps its status; the review outcome stays on record.
+      const toStatus: DocumentStatus = next.status === 'VISA' ? 'VISA' : 'REJECTED';
+      if (document.status === 'IN_REVIEW') {
+        await setReviewDocumentStatus(document, toStatus);
+      }
+
+      const action = next.status === 'VISA' ? 'document.review_visa' : 'document.review_reject';
+      await audit.log(action, 'DOCUMENT', document.id, {
+        review_id: review.id,
+        version_id: review.version_id,
+        visa_kind: next.visa_kind ?? null,
+        from_status: document.status,
+        to_status: document.status === 'IN_REVIEW' ? toStatus : document.status
+      });
+    }
+
+    return next;
+  },
+
+  /** Withdraws a pending review; the document goes back to DRAFT if it was still in review. */
+  async cancelReview(reviewId: string): Promise<DocumentReview> {
+    requireActor('Utilisateur requis pour annuler une revue.');
+    const review = await getReviewById(reviewId);
+
+    if (!review) {
+      throw new Error('Revue introuvable.');
+    }
+
+    if (review.status !== 'PENDING') {
+      throw new Error('Cette revue est deja cloturee.');
+    }
+
+    const document = await ensureDocumentExists(review.document_id);
+    await assertDocumentWritable(document);
+
+    const next: DocumentReview = { ...review, status: 'CANCELLED', closed_at: nowIso() };
+    await saveReview(next);
+    await enqueueReviewOperation(next, 'UPDATE', {});
+
+    if (document.status === 'IN_REVIEW') {
+      await setReviewDocumentStatus(document, 'DRAFT');
+    }
+
+    await audit.log('document.review_cancel', 'DOCUMENT', document.id, {
+      review_id: review.id,
+      version_id: review.version_id,
+      from_status: document.status,
+      to_status: document.status === 'IN_REVIEW' ? 'DRAFT' : document.status
+    });
+
+    return next;
+  },
+
+  async listReviews(documentId: string): Promise<DocumentReview[]> {
+    await ensureSetup();
+    const db = await getDb();
+    const rows = await db.getAllAsync<ReviewRow>(
+      `
+        SELECT *
+        FROM ${REVIEWS_TABLE}
+        WHERE document_id = ?
+        ORDER BY submitted_at DESC
+      `,
+      documentId
+    );
+
+    return hydrateReviews(rows);
+  },
+
+  /** Pending reviews where the user is a named reviewer or holds a targeted role and has not decided yet. */
+  async listPendingReviews(
+    orgId: string,
+    userId: string,
+    role?: AppRole | null,
+    limit = 20
+  ): Promise<DocumentPendingReview[]> {
+    const cleanOrgId = normalizeText(orgId);
+    const cleanUserId = normalizeText(userId);
+    if (!cleanOrgId || !cleanUserId) {
+      return [];
+    }
+
+    await ensureSetup();
+    const db = await getDb();
+    const rows = await db.getAllAsync<ReviewRow & { document_title: string; document_type: DocumentType }>(
+      `
+        SELECT r.*, d.title AS document_title, d.doc_type AS document_type
+        FROM ${REVIEWS_TABLE} r
+        INNER JOIN ${DOCUMENTS_TABLE} d ON d.id = r.document_id
+        WHERE r.org_id = ?
+          AND r.status = 'PENDING'
+          AND r.submitted_by != ?
+          AND d.deleted_at IS NULL
+          AND NOT EXISTS (
+            SELECT 1
+            FROM ${REVIEW_DECISIONS_TABLE} x
+            WHERE x.review_id = r.id
+              AND x.reviewer_user_id = ?
+          )
+        ORDER BY r.submitted_at ASC
+      `,
+      cleanOrgId,
+      cleanUserId,
+      cleanUserId
+    );
+
+    const reviews = await hydrateReviews(rows);
+    const now = Date.now();
+
+    return reviews
+      .map((review, index) => ({
+        review,
+        document_title: rows[index].document_title,
+        doc_type: rows[index].document_type,
+        overdue: isReviewOverdue(review, now)
+      }))
+      .filter((item) => isEligibleReviewer(item.review, cleanUserId, role))
+      .sort((left, right) => {
+        const leftDue = left.review.due_date ? dueDateMs(left.review.due_date) : Number.POSITIVE_INFINITY;
+        const rightDue = right.review.due_date ? dueDateMs(right.review.due_date) : Number.POSITIVE_INFINITY;
+        return leftDue - rightDue;
+      })
+      .slice(0, Math.max(1, limit));
+  },
+
   setActor(userId: string | null) {
     actorUserId = userId && userId.trim().length > 0 ? userId : null;
   }
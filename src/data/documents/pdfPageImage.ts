@@ -0,0 +1,221 @@
+import {
+  decodePDFRawStream,
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFName,
+  PDFNumber,
+  PDFPage,
+  PDFRawStream,
+  PDFStream
+} from 'pdf-lib';
+import { GrayRaster } from '../media';
+
+// PDF pages cannot be rendered on device. Scanned pages (and photos saved as PDF) are the exception:
+// they carry one full-page image, which is extracted here and compared like any other picture.
+
+const MAX_PAGES = 200;
+/** Below this size an image is a logo or a stamp, not the page itself. */
+const MIN_PAGE_IMAGE_PIXELS = 500_000;
+/** Decoding a flate image happens in JS: larger ones are left to the fingerprint comparison. */
+const MAX_RAW_IMAGE_PIXELS = 12_000_000;
+/** Relative tolerance between the page and image aspect ratios for the image to stand for the page. */
+const ASPECT_TOLERANCE = 0.08;
+
+export type PdfPageImage =
+  | { kind: 'JPEG'; bytes: Uint8Array; width: number; height: number }
+  | { kind: 'GRAY'; raster: GrayRaster };
+
+export type PdfPageSource = {
+  page_number: number;
+  width: number;
+  height: number;
+  /** Identical for byte-identical page contents. */
+  fingerprint: string;
+  image: PdfPageImage | null;
+};
+
+// FNV-1a over the content streams: only used to tell whether two pages are byte-identical.
+function fingerprint(chunks: Uint8Array[]) {
+  let hash = 0x811c9dc5;
+  let length = 0;
+
+  for (const chunk of chunks) {
+    length += chunk.length;
+    for (let index = 0; index < chunk.length; index += 1) {
+      hash ^= chunk[index];
+      hash = Math.imul(hash, 0x01000193) >>> 0;
+    }
+  }
+
+  return `${length}:${hash.toString(16)}`;
+}
+
+function streamBytes(stream: PDFStream) {
+  return stream instanceof PDFRawStream ? decodePDFRawStream(stream).decode() : stream.getContents();
+}
+
+function pageContentChunks(page: PDFPage) {
+  const contents = page.node.Contents();
+  if (!contents) return [] as Uint8Array[];
+
+  if (contents instanceof PDFStream) {
+    return [streamBytes(contents)];
+  }
+
+  const chunks: Uint8Array[] = [];
+  for (let index = 0; index < contents.size(); index += 1) {
+    const item = contents.lookup(index);
+    if (item instanceof PDFStream) {
+      chunks.push(streamBytes(item));
+    }
+  }
+
+  return chunks;
+}
+
+function numberOf(dict: PDFDict, key: string) {
+  const value = dict.lookup(PDFName.of(key));
+  return value instanceof PDFNumber ? value.asNumber() : 0;
+}
+
+function filtersOf(dict: PDFDict) {
+  const filter = dict.lookup(PDFName.of('Filter'));
+  if (filter instanceof PDFName) return [filter.asString()];
+  if (filter instanceof PDFArray) {
+    return filter.asArray().map((item) => (item instanceof PDFName ? item.asString() : ''));
+  }
+  return [] as string[];
+}
+
+/** Components of the image color space: 1 (gray), 3 (RGB), or 0 when unsupported (CMYK, indexed, ...). */
+function componentsOf(dict: PDFDict) {
+  const colorSpace = dict.lookup(PDFName.of('ColorSpace'));
+
+  if (colorSpace instanceof PDFName) {
+    if (colorSpace.asString() === '/DeviceGray') return 1;
+    if (colorSpace.asString() === '/DeviceRGB') return 3;
+    return 0;
+  }
+
+  if (colorSpace instanceof PDFArray && colorSpace.size() >= 2) {
+    const family = colorSpace.lookup(0);
+    const profile = colorSpace.lookup(1);
+    if (family instanceof PDFName && family.asString() === '/ICCBased' && profile instanceof PDFStream) {
+      const components = numberOf(profile.dict, 'N');
+      return components === 1 || components === 3 ? components : 0;
+    }
+  }
+
+  return 0;
+}
+
+function decodeRawImage(stream: PDFRawStream, width: number, height: number): PdfPageImage | null {
+  const components = componentsOf(stream.dict);
+  const predictor = stream.dict.lookup(PDFName.of('DecodeParms'));
+
+  if (
+    components === 0 ||
+    numberOf(stream.dict, 'BitsPerComponent') !== 8 ||
+    predictor !== undefined ||
+    width * height > MAX_RAW_IMAGE_PIXELS
+  ) {
+    return null;
+  }
+
+  const bytes = decodePDFRawStream(stream).decode();
+  if (bytes.length < width * height * components) {
+    return null;
+  }
+
+  const data = new Uint8Array(width * height);
+  for (let index = 0; index < data.length; index += 1) {
+    const base = index * components;
+    data[index] =
+      components === 3
+        ? Math.round((bytes[base] * 299 + bytes[base + 1] * 587 + bytes[base + 2] * 114) / 1000)
+        : bytes[base];
+  }
+
+  return { kind: 'GRAY', raster: { width, height, data } };
+}
+
+/** The image standing for the whole page, when the page is a scan: large and with the page proportions. */
+function readPageImage(page: PDFPage): PdfPageImage | null {
+  const resources = page.node.Resources();
+  const xObjects = resources?.lookup(PDFName.of('XObject'));
+  if (!(xObjects instanceof PDFDict)) {
+    return null;
+  }
+
+  let best: { stream: PDFRawStream; width: number; height: number } | null = null;
+
+  for (const [, ref] of xObjects.entries()) {
+    const stream = xObjects.context.lookup(ref);
+    if (!(stream instanceof PDFRawStream)) continue;
+
+    const subtype = stream.dict.lookup(PDFName.of('Subtype'));
+    if (!(subtype instanceof PDFName) || subtype.asString() !== '/Image') continue;
+
+    const width = numberOf(stream.dict, 'Width');
+    const height = numberOf(stream.dict, 'Height');
+    if (!best || width * height > best.width * best.height) {
+      best = { stream, width, height };
+    }
+  }
+
+  if (!best || best.width * best.height < MIN_PAGE_IMAGE_PIXELS) {
+    return null;
+  }
+
+  const size = page.getSize();
+  const pageRatio = size.width / size.height;
+  const imageRatio = best.width / best.height;
+  const rotated = (page.getRotation().angle / 90) % 2 !== 0;
+  const ratioDelta = Math.min(
+    Math.abs(imageRatio - pageRatio) / pageRatio,
+    rotated ? Math.abs(1 / imageRatio - pageRatio) / pageRatio : Number.POSITIVE_INFINITY
+  );
+
+  if (ratioDelta > ASPECT_TOLERANCE) {
+    return null;
+  }
+
+  const filters = filtersOf(best.stream.dict);
+  if (filters.length === 1 && filters[0] === '/DCTDecode') {
+    return { kind: 'JPEG', bytes: best.stream.contents, width: best.width, height: best.height };
+  }
+
+  if (filters.length === 0 || (filters.length === 1 && filters[0] === '/FlateDecode')) {
+    return decodeRawImage(best.stream, best.width, best.height);
+  }
+
+  return null;
+}
+
+/** Per-page fingerprint and scanned image (if any) of a PDF, given as base64. */
+export async function readPdfPageSources(fileBase64: string): Promise<PdfPageSource[]> {
+  const pdfDoc = await PDFDocument.load(fileBase64, { ignoreEncryption: true, updateMetadata: false });
+
+  return pdfDoc
+    .getPages()
+    .slice(0, MAX_PAGES)
+    .map((page, index) => {
+      const size = page.getSize();
+      let image: PdfPageImage | null = null;
+
+      try {
+        image = readPageImage(page);
+      } catch {
+        image = null;
+      }
+
+      return {
+        page_number: index + 1,
+        width: size.width,
+        height: size.height,
+        fingerprint: `${Math.round(size.width)}x${Math.round(size.height)}:${fingerprint(pageContentChunks(page))}`,
+        image
+      };
+    });
+}
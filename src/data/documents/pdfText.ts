@@ -0,0 +1,445 @@
+import { decodePDFRawStream, PDFArray, PDFDict, PDFDocument, PDFName, PDFRawStream, PDFStream } from 'pdf-lib';
+
+const MAX_PAGES = 200;
+const MAX_CHARS_PER_PAGE = 20_000;
+const MAX_XOBJECT_DEPTH = 3;
+
+// Horizontal offset (thousandths of em) in a TJ array considered as a word gap.
+const TJ_WORD_GAP = -200;
+
+// WinAnsi bytes 0x80-0x9F that differ from Latin-1 (the ones seen in French documents).
+const WIN_ANSI_OVERRIDES: Record<number, string> = {
+  0x80: '€',
+  0x85: '…',
+  0x8c: 'Œ',
+  0x91: '‘',
+  0x92: '’',
+  0x93: '“',
+  0x94: '”',
+  0x96: '–',
+  0x97: '—',
+  0x9c: 'œ'
+};
+
+type FontDecoder = {
+  codeLength: 1 | 2;
+  map: Map<number, string> | null;
+};
+
+type Token =
+  | { kind: 'string'; bytes: number[] }
+  | { kind: 'array'; items: Token[] }
+  | { kind: 'name'; value: string }
+  | { kind: 'number'; value: number }
+  | { kind: 'op'; value: string };
+
+type ExtractionScope = {
+  resources: PDFDict | undefined;
+  fonts: Map<string, FontDecoder>;
+  depth: number;
+};
+
+function bytesToLatin1(bytes: Uint8Array) {
+  let output = '';
+  const chunkSize = 0x4000;
+
+  for (let index = 0; index < bytes.length; index += chunkSize) {
+    output += String.fromCharCode(...Array.from(bytes.subarray(index, index + chunkSize)));
+  }
+
+  return output;
+}
+
+function decodeStream(stream: PDFStream) {
+  if (stream instanceof PDFRawStream) {
+    return bytesToLatin1(decodePDFRawStream(stream).decode());
+  }
+
+  return bytesToLatin1(stream.getContents());
+}
+
+function hexToCode(hex: string) {
+  return parseInt(hex, 16);
+}
+
+function utf16HexToString(hex: string) {
+  const units: number[] = [];
+  for (let index = 0; index + 4 <= hex.length; index += 4) {
+    units.push(parseInt(hex.slice(index, index + 4), 16));
+  }
+
+  if (units.length === 0 && hex.length > 0) {
+    units.push(parseInt(hex, 16));
+  }
+
+  return String.fromCharCode(...units);
+}
+
+/** Parses the `bfchar` / `bfrange` sections of a ToUnicode CMap. */
+function parseToUnicodeCMap(source: string): FontDecoder {
+  const map = new Map<number, string>();
+
+  const codespace = /begincodespacerange\s*<([0-9a-fA-F]+)>/.exec(source);
+  const codeLength: 1 | 2 = codespace && codespace[1].length > 2 ? 2 : 1;
+
+  const charBlocks = source.match(/beginbfchar([\s\S]*?)endbfchar/g) ?? [];
+  for (const block of charBlocks) {
+    const pairs = block.matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]*)>/g);
+    for (const [, code, target] of pairs) {
+      map.set(hexToCode(code), utf16HexToString(target));
+    }
+  }
+
+  const rangeBlocks = source.match(/beginbfrange([\s\S]*?)endbfrange/g) ?? [];
+  for (const block of rangeBlocks) {
+    const ranges = block.matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>\s*(<[0-9a-fA-F]*>|\[[^\]]*\])/g);
+    for (const [, low, high, target] of ranges) {
+      const start = hexToCode(low);
+      const end = Math.min(hexToCode(high), start + 0xffff);
+
+      if (target.startsWith('[')) {
+        const targets = Array.from(target.matchAll(/<([0-9a-fA-F]*)>/g)).map((match) => match[1]);
+        targets.forEach((hex, offset) => {
+          if (start + offset <= end) {
+            map.set(start + offset, utf16HexToString(hex));
+          }
+        });
+        continue;
+      }
+
+      const baseHex = target.slice(1, -1);
+      const prefix = baseHex.slice(0, -4);
+      const base = parseInt(baseHex.slice(-4) || '0', 16);
+      for (let code = start; code <= end; code += 1) {
+        const unit = (base + code - start).toString(16).padStart(4, '0');
+        map.set(code, utf16HexToString(`${prefix}${unit}`));
+      }
+    }
+  }
+
+  return { codeLength, map };
+}
+
+function resolveFont(resources: PDFDict | undefined, name: string): FontDecoder {
+  const fonts = resources?.lookup(PDFName.of('Font'));
+  const font = fonts instanceof PDFDict ? fonts.lookup(PDFName.of(name)) : undefined;
+  if (!(font instanceof PDFDict)) {
+    return { codeLength: 1, map: null };
+  }
+
+  const toUnicode = font.lookup(PDFName.of('ToUnicode'));
+  if (toUnicode instanceof PDFStream) {
+    try {
+      return parseToUnicodeCMap(decodeStream(toUnicode));
+    } catch {
+      // fall through to the simple-font heuristic
+    }
+  }
+
+  // Composite fonts without ToUnicode use glyph ids: nothing readable can be recovered.
+  const subtype = font.lookup(PDFName.of('Subtype'));
+  if (subtype instanceof PDFName && subtype.asString() === '/Type0') {
+    return { codeLength: 2, map: new Map() };
+  }
+
+  return { codeLength: 1, map: null };
+}
+
+function decodeShownBytes(bytes: number[], font: FontDecoder) {
+  let output = '';
+
+  if (font.codeLength === 2) {
+    for (let index = 0; index + 1 < bytes.length; index += 2) {
+      output += font.map?.get((bytes[index] << 8) | bytes[index + 1]) ?? '';
+    }
+    return output;
+  }
+
+  for (const byte of bytes) {
+    if (font.map) {
+      output += font.map.get(byte) ?? '';
+    } else if (WIN_ANSI_OVERRIDES[byte]) {
+      output += WIN_ANSI_OVERRIDES[byte];
+    } else if (byte >= 0x20) {
+      output += String.fromCharCode(byte);
+    }
+  }
+
+  return output;
+}
+
+function isWhitespace(char: string) {
+  return char === ' ' || char === '\n' || char === '\r' || char === '\t' || char === '\f' || char === '\0';
+}
+
+function isDelimiter(char: string) {
+  return '()<>[]{}/%'.includes(char);
+}
+
+/** Minimal content-stream tokenizer: enough to follow text operators and their operands. */
+function tokenize(content: string) {
+  const tokens: Token[] = [];
+  const arrays: Token[][] = [];
+  let index = 0;
+
+  const push = (token: Token) => {
+    const target = arrays.length > 0 ? arrays[arrays.length - 1] : tokens;
+    target.push(token);
+  };
+
+  while (index < content.length) {
+    const char = content[index];
+
+    if (isWhitespace(char)) {
+      index += 1;
+      continue;
+    }
+
+    if (char === '%') {
+      while (index < content.length && content[index] !== '\n' && content[index] !== '\r') index += 1;
+      continue;
+    }
+
+    if (char === '(') {
+      const bytes: number[] = [];
+      let depth = 1;
+      index += 1;
+
+      while (index < content.length && depth > 0) {
+        const current = content[index];
+
+        if (current === '\\') {
+          const next = content[index + 1] ?? '';
+          const escapes: Record<string, number> = { n: 10, r: 13, t: 9, b: 8, f: 12, '(': 40, ')': 41, '\\': 92 };
+          if (next in escapes) {
+            bytes.push(escapes[next]);
+            index += 2;
+          } else if (/[0-7]/.test(next)) {
+            const octal = /^[0-7]{1,3}/.exec(content.slice(index + 1, index + 4))?.[0] ?? '0';
+            bytes.push(parseInt(octal, 8) & 0xff);
+            index += 1 + octal.length;
+          } else {
+            index += next === '\r' && content[index + 2] === '\n' ? 3 : 2;
+          }
+          continue;
+        }
+
+        if (current === '(') depth += 1;
+        if (current === ')') depth -= 1;
+        if (depth > 0) bytes.push(current.charCodeAt(0) & 0xff);
+        index += 1;
+      }
+
+      push({ kind: 'string', bytes });
+      continue;
+    }
+
+    if (char === '<' && content[index + 1] !== '<') {
+      const end = content.indexOf('>', index);
+      const hex = content.slice(index + 1, end < 0 ? content.length : end).replace(/[^0-9a-fA-F]/g, '');
+      const padded = hex.length % 2 === 1 ? `${hex}0` : hex;
+      const bytes: number[] = [];
+      for (let offset = 0; offset < padded.length; offset += 2) {
+        bytes.push(parseInt(padded.slice(offset, offset + 2), 16));
+      }
+      push({ kind: 'string', bytes });
+      index = end < 0 ? content.length : end + 1;
+      continue;
+    }
+
+    if (char === '<' || char === '>') {
+      // Dictionary delimiters (inline image params, marked content): not relevant for text.
+      index += content[index + 1] === char ? 2 : 1;
+      continue;
+    }
+
+    if (char === '[') {
+      arrays.push([]);
+      index += 1;
+      continue;
+    }
+
+    if (char === ']') {
+      const items = arrays.pop() ?? [];
+      push({ kind: 'array', items });
+      index += 1;
+      continue;
+    }
+
+    let end = index + 1;
+    while (end < content.length && !isWhitespace(content[end]) && !isDelimiter(content[end])) end += 1;
+    const word = content.slice(index, end);
+    index = end;
+
+    if (char === '/') {
+      push({ kind: 'name', value: word.slice(1) });
+      continue;
+    }
+
+    if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(word)) {
+      push({ kind: 'number', value: Number(word) });
+      continue;
+    }
+
+    if (word === 'ID') {
+      // Inline image data: skip raw bytes until the `EI` marker.
+      const imageEnd = content.indexOf('EI', index);
+      index = imageEnd < 0 ? content.length : imageEnd + 2;
+      continue;
+    }
+
+    push({ kind: 'op', value: word });
+  }
+
+  return tokens;
+}
+
+function getFont(scope: ExtractionScope, name: string) {
+  const cached = scope.fonts.get(name);
+  if (cached) {
+    return cached;
+  }
+
+  const decoder = resolveFont(scope.resources, name);
+  scope.fonts.set(name, decoder);
+  return decoder;
+}
+
+function extractFromContent(content: string, scope: ExtractionScope, parts: string[]) {
+  let operands: Token[] = [];
+  let font: FontDecoder = { codeLength: 1, map: null };
+
+  for (const token of tokenize(content)) {
+    if (token.kind !== 'op') {
+      operands.push(token);
+      continue;
+    }
+
+    const last = operands[operands.length - 1];
+
+    switch (token.value) {
+      case 'Tf': {
+        const name = operands.find((operand) => operand.kind === 'name');
+        if (name?.kind === 'name') {
+          font = getFont(scope, name.value);
+        }
+        break;
+      }
+      case 'Tj':
+        if (last?.kind === 'string') parts.push(decodeShownBytes(last.bytes, font));
+        break;
+      case "'":
+      case '"':
+        parts.push('\n');
+        if (last?.kind === 'string') parts.push(decodeShownBytes(last.bytes, font));
+        break;
+      case 'TJ':
+        if (last?.kind === 'array') {
+          for (const item of last.items) {
+            if (item.kind === 'string') parts.push(decodeShownBytes(item.bytes, font));
+            if (item.kind === 'number' && item.value < TJ_WORD_GAP) parts.push(' ');
+          }
+        }
+        break;
+      case 'Td':
+      case 'TD': {
+        const ty = operands[1];
+        parts.push(ty?.kind === 'number' && ty.value !== 0 ? '\n' : ' ');
+        break;
+      }
+      case 'T*':
+      case 'Tm':
+      case 'BT':
+      case 'ET':
+        parts.push('\n');
+        break;
+      case 'Do':
+        if (last?.kind === 'name') extractFromXObject(scope, last.value, parts);
+        break;
+      default:
+        break;
+    }
+
+    operands = [];
+  }
+}
+
+function extractFromXObject(scope: ExtractionScope, name: string, parts: string[]) {
+  if (scope.depth >= MAX_XOBJECT_DEPTH) {
+    return;
+  }
+
+  const xObjects = scope.resources?.lookup(PDFName.of('XObject'));
+  const xObject = xObjects instanceof PDFDict ? xObjects.lookup(PDFName.of(name)) : undefined;
+  if (!(xObject instanceof PDFStream)) {
+    return;
+  }
+
+  const subtype = xObject.dict.lookup(PDFName.of('Subtype'));
+  if (!(subtype instanceof PDFName) || subtype.asString() !== '/Form') {
+    return;
+  }
+
+  const ownResources = xObject.dict.lookup(PDFName.of('Resources'));
+  const nested: ExtractionScope =
+    ownResources instanceof PDFDict
+      ? { resources: ownResources, fonts: new Map(), depth: scope.depth + 1 }
+      : { ...scope, depth: scope.depth + 1 };
+
+  extractFromContent(decodeStream(xObject), nested, parts);
+}
+
+function pageContentStreams(contents: PDFStream | PDFArray | undefined) {
+  if (!contents) {
+    return [] as PDFStream[];
+  }
+
+  if (contents instanceof PDFStream) {
+    return [contents];
+  }
+
+  const streams: PDFStream[] = [];
+  for (let index = 0; index < contents.size(); index += 1) {
+    const item = contents.lookup(index);
+    if (item instanceof PDFStream) {
+      streams.push(item);
+    }
+  }
+
+  return streams;
+}
+
+function normalizeExtractedText(parts: string[]) {
+  return parts
+    .join('')
+    .replace(/[ \t\f\v]+/g, ' ')
+    .replace(/ *\n+ */g, '\n')
+    .trim()
+    .slice(0, MAX_CHARS_PER_PAGE);
+}
+
+/**
+ * Best-effort text extraction from a PDF (base64), one string per page.
+ * pdf-lib has no text API: content streams are decoded and text operators
+ * (Tj/TJ/'/") are followed, using the font ToUnicode CMaps when present.
+ * Scanned PDFs (images only) yield empty pages.
+ */
+export async function extractPdfPageTexts(base64: string): Promise<string[]> {
+  const pdfDoc = await PDFDocument.load(base64, { ignoreEncryption: true, updateMetadata: false });
+  const pages = pdfDoc.getPages().slice(0, MAX_PAGES);
+
+  return pages.map((page) => {
+    const parts: string[] = [];
+    const scope: ExtractionScope = { resources: page.node.Resources(), fonts: new Map(), depth: 0 };
+
+    for (const stream of pageContentStreams(page.node.Contents())) {
+      try {
+        extractFromContent(decodeStream(stream), scope, parts);
+      } catch {
+        // unsupported filter / corrupted stream: keep what was read so far
+      }
+    }
+
+    return normalizeExtractedText(parts);
+  });
+}
@@ -1,8 +1,14 @@
+import { AppRole } from '../../core/identity-security/types';
+
 export type DocumentScope = 'COMPANY' | 'PROJECT';
 
 export type DocumentType = 'PLAN' | 'DOE' | 'PV' | 'REPORT' | 'INTERNAL' | 'OTHER';
 
-export type DocumentStatus = 'DRAFT' | 'FINAL' | 'SIGNED';
+/**
+ * `IN_REVIEW`, `VISA` and `REJECTED` are driven by the review workflow (`submitForReview` / `decideReview`),
+ * never set directly through `update()`.
+ */
+export type DocumentStatus = 'DRAFT' | 'IN_REVIEW' | 'VISA' | 'REJECTED' | 'FINAL' | 'SIGNED';
 
 export type Document = {
   id: string;
@@ -33,6 +39,22 @@ export type DocumentVersion = {
   created_by: string;
 };
 
+/**
+ * Text extracted from one page of a PDF version, stored locally for full-text search.
+ * Derived from the file: never synced, recomputed with `documents.extractVersionText()`.
+ */
+export type DocumentVersionPage = {
+  id: string;
+  org_id: string;
+  project_id?: string;
+  document_id: string;
+  version_id: string;
+  version_number: number;
+  page_number: number;
+  text: string;
+  created_at: string;
+};
+
 export type LinkedEntity = 'TASK' | 'PLAN_PIN' | 'PROJECT' | 'EXPORT';
 
 export type DocumentLink = {
@@ -84,3 +106,123 @@ export type AddVersionContext = {
   existing_asset_id?: string;
   tag?: string;
 };
+
+export type DocumentReviewer =
+  | { kind: 'USER'; user_id: string; label?: string }
+  | { kind: 'ROLE'; role: AppRole };
+
+export type DocumentReviewStatus = 'PENDING' | 'VISA' | 'REJECTED' | 'CANCELLED';
+
+/** Visa as issued on French chantiers: "sans observations" or "avec observations" (to be taken into account). */
+export type DocumentVisaKind = 'SANS_OBSERVATIONS' | 'AVEC_OBSERVATIONS';
+
+export type DocumentReviewDecisionKind = 'APPROVE' | 'APPROVE_WITH_OBSERVATIONS' | 'REJECT';
+
+export type DocumentReviewDecision = {
+  id: string;
+  review_id: string;
+  document_id: string;
+  version_id: string;
+  reviewer_user_id: string;
+  reviewer_role?: AppRole;
+  decision: DocumentReviewDecisionKind;
+  comment?: string;
+  created_at: string;
+};
+
+/** One submission of a version to the reviewers; a document has at most one PENDING review at a time. */
+export type DocumentReview = {
+  id: string;
+  org_id: string;
+  project_id?: string;
+  document_id: string;
+  version_id: string;
+  version_number: number;
+  status: DocumentReviewStatus;
+  visa_kind?: DocumentVisaKind;
+  reviewers: DocumentReviewer[];
+  required_approvals: number;
+  due_date?: string;
+  message?: string;
+  submitted_by: string;
+  submitted_at: string;
+  closed_at?: string;
+  decisions: DocumentReviewDecision[];
+};
+
+export type DocumentReviewSubmitInput = {
+  reviewers: DocumentReviewer[];
+  required_approvals?: number;
+  /** ISO date (YYYY-MM-DD) or datetime. */
+  due_date?: string;
+  message?: string;
+};
+
+export type DocumentReviewDecisionInput = {
+  decision: DocumentReviewDecisionKind;
+  /** Required for REJECT and APPROVE_WITH_OBSERVATIONS. */
+  comment?: string;
+};
+
+export type DocumentPendingReview = {
+  review: DocumentReview;
+  document_title: string;
+  doc_type: DocumentType;
+  overdue: boolean;
+};
+
+export type DocumentDiffPageStatus = 'UNCHANGED' | 'CHANGED' | 'ADDED' | 'REMOVED' | 'UNKNOWN';
+
+/** Normalized (0..1) rectangle of the page where pixels differ. */
+export type DocumentDiffRegion = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+export type DocumentTextDiffLine = {
+  kind: 'SAME' | 'ADDED' | 'REMOVED';
+  text: string;
+};
+
+export type DocumentVersionDiffPage = {
+  page_number: number;
+  status: DocumentDiffPageStatus;
+  /**
+   * RASTER: both pages were compared pixel by pixel (images, scanned PDF pages).
+   * FINGERPRINT: vector PDF page, only compared by content (cannot be rasterized on device).
+   */
+  method: 'RASTER' | 'FINGERPRINT' | 'NONE';
+  /** Share of the page pixels that differ (RASTER only). */
+  changed_ratio?: number;
+  regions: DocumentDiffRegion[];
+  /** Pixel size of the rendered images (both sides share it). */
+  image_width?: number;
+  image_height?: number;
+  left_image_path?: string;
+  right_image_path?: string;
+  overlay_image_path?: string;
+  text_lines: DocumentTextDiffLine[];
+  text_added: number;
+  text_removed: number;
+};
+
+export type DocumentVersionDiff = {
+  document_id: string;
+  left_version_id: string;
+  right_version_id: string;
+  left_version_number: number;
+  right_version_number: number;
+  pages: DocumentVersionDiffPage[];
+  /** False when neither version has extracted text (images, scanned PDFs without text layer). */
+  text_available: boolean;
+  generated_at: string;
+};
+
+export type DocumentVersionDiffOptions = {
+  /** Longest side of the compared rasters, in pixels. */
+  rasterSize?: number;
+  /** Pages compared at most (text and raster). */
+  maxPages?: number;
+};
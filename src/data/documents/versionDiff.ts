@@ -0,0 +1,477 @@
+import * as FileSystem from 'expo-file-system/legacy';
+import { bytesToBase64, downscaleGray, encodePngRgb, GrayRaster, readGrayRaster, RgbRaster } from '../media';
+import { readPdfPageSources } from './pdfPageImage';
+import {
+  DocumentDiffRegion,
+  DocumentTextDiffLine,
+  DocumentVersion,
+  DocumentVersionDiffPage
+} from './types';
+
+// Version comparison, page by page. Images and scanned PDF pages are compared pixel by pixel on small
+// grayscale rasters; vector PDF pages (not renderable on device) only by content fingerprint.
+// Extracted text is compared line by line. Rendered PNGs live in the cache directory.
+
+const PDF_MIME = 'application/pdf';
+
+const DEFAULT_RASTER_SIZE = 1024;
+const MIN_RASTER_SIZE = 256;
+const MAX_RASTER_SIZE = 2048;
+const DEFAULT_MAX_PAGES = 20;
+const MAX_PAGES = 100;
+
+/** Luma delta above which a pixel counts as changed (absorbs JPEG noise and rescan exposure). */
+const PIXEL_THRESHOLD = 40;
+const REGION_CELL = 24;
+/** Share of changed pixels for a grid cell to belong to a region. */
+const REGION_CELL_RATIO = 0.03;
+const MAX_REGIONS = 40;
+/** Below this share of changed pixels (and without region), a page is reported unchanged. */
+const CHANGED_PAGE_RATIO = 0.002;
+/** Beyond this product of line counts, the text diff falls back to a set comparison. */
+const MAX_LCS_CELLS = 600 * 600;
+
+const ADDED_COLOR: [number, number, number] = [14, 124, 134];
+const REMOVED_COLOR: [number, number, number] = [211, 47, 47];
+const REGION_COLOR: [number, number, number] = [237, 108, 2];
+
+export type DiffVersionFile = {
+  version: DocumentVersion;
+  local_path: string;
+  /** Pixel size of image versions, when known. */
+  width?: number;
+  height?: number;
+  /** Extracted text by page number. */
+  page_texts: Map<number, string>;
+};
+
+type PageSource = {
+  page_number: number;
+  fingerprint: string;
+  /** The fingerprint covers the whole file (unreadable PDF, other formats): pages cannot be told apart. */
+  whole_file: boolean;
+  aspect: number;
+  load: ((width: number, height: number) => Promise<GrayRaster>) | null;
+};
+
+function diffDir(leftVersionId: string, rightVersionId: string) {
+  const base = FileSystem.cacheDirectory ?? FileSystem.documentDirectory;
+  if (!base) {
+    throw new Error('FileSystem cacheDirectory indisponible.');
+  }
+
+  return `${base}documents/diff/${leftVersionId}_${rightVersionId}/`;
+}
+
+function clampInt(value: number | undefined, fallback: number, min: number, max: number) {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    return fallback;
+  }
+
+  return Math.max(min, Math.min(max, Math.round(value)));
+}
+
+function fitSize(aspect: number, longest: number) {
+  const ratio = Number.isFinite(aspect) && aspect > 0 ? aspect : 1;
+  return ratio >= 1
+    ? { width: longest, height: Math.max(1, Math.round(longest / ratio)) }
+    : { width: Math.max(1, Math.round(longest * ratio)), height: longest };
+}
+
+async function readPageSources(file: DiffVersionFile, side: string, dir: string): Promise<PageSource[]> {
+  const { version } = file;
+
+  if (version.file_mime.startsWith('image/')) {
+    const known = Boolean(file.width && file.height);
+    return [
+      {
+        page_number: 1,
+        fingerprint: version.file_hash,
+        whole_file: false,
+        aspect: known ? file.width! / file.height! : 1,
+        load: (width, height) =>
+          readGrayRaster(file.local_path, {
+            sourceWidth: file.width ?? width,
+            sourceHeight: file.height ?? height,
+            size: { width, height }
+          })
+      }
+    ];
+  }
+
+  const wholeFile: PageSource[] = [
+    { page_number: 1, fingerprint: version.file_hash, whole_file: true, aspect: 1, load: null }
+  ];
+
+  if (version.file_mime !== PDF_MIME) {
+    return wholeFile;
+  }
+
+  let pages;
+  try {
+    const fileData = await FileSystem.readAsStringAsync(file.local_path, {
+      encoding: FileSystem.EncodingType.Base64
+    });
+    pages = await readPdfPageSources(fileData);
+  } catch {
+    return wholeFile;
+  }
+
+  if (pages.length === 0) {
+    return wholeFile;
+  }
+
+  return pages.map((page) => {
+    const image = page.image;
+    let load: PageSource['load'] = null;
+    let aspect = page.width / page.height;
+
+    if (image?.kind === 'JPEG') {
+      aspect = image.width / image.height;
+      load = async (width, height) => {
+        const path = `${dir}${side}_${page.page_number}.jpg`;
+        await FileSystem.writeAsStringAsync(path, bytesToBase64(image.bytes), {
+          encoding: FileSystem.EncodingType.Base64
+        });
+        return readGrayRaster(path, { sourceWidth: image.width, sourceHeight: image.height, size: { width, height } });
+      };
+    } else if (image?.kind === 'GRAY') {
+      aspect = image.raster.width / image.raster.height;
+      load = async (width, height) => downscaleGray(image.raster, width, height);
+    }
+
+    return { page_number: page.page_number, fingerprint: page.fingerprint, whole_file: false, aspect, load };
+  });
+}
+
+function grayToRgb(raster: GrayRaster): RgbRaster {
+  const data = new Uint8Array(raster.width * raster.height * 3);
+  for (let index = 0; index < raster.data.length; index += 1) {
+    data[index * 3] = raster.data[index];
+    data[index * 3 + 1] = raster.data[index];
+    data[index * 3 + 2] = raster.data[index];
+  }
+  return { width: raster.width, height: raster.height, data };
+}
+
+function setPixel(raster: RgbRaster, x: number, y: number, color: [number, number, number]) {
+  if (x < 0 || y < 0 || x >= raster.width || y >= raster.height) return;
+  const base = (y * raster.width + x) * 3;
+  raster.data[base] = color[0];
+  raster.data[base + 1] = color[1];
+  raster.data[base + 2] = color[2];
+}
+
+function outlineRegion(raster: RgbRaster, region: DocumentDiffRegion, color: [number, number, number]) {
+  const left = Math.round(region.x * raster.width);
+  const top = Math.round(region.y * raster.height);
+  const right = Math.round((region.x + region.width) * raster.width) - 1;
+  const bottom = Math.round((region.y + region.height) * raster.height) - 1;
+
+  for (let offset = 0; offset < 2; offset += 1) {
+    for (let x = left; x <= right; x += 1) {
+      setPixel(raster, x, top + offset, color);
+      setPixel(raster, x, bottom - offset, color);
+    }
+    for (let y = top; y <= bottom; y += 1) {
+      setPixel(raster, left + offset, y, color);
+      setPixel(raster, right - offset, y, color);
+    }
+  }
+}
+
+/** Groups changed grid cells (8-connected) into normalized bounding boxes, largest first. */
+function changedRegions(mask: Uint8Array, width: number, height: number): DocumentDiffRegion[] {
+  const columns = Math.ceil(width / REGION_CELL);
+  const rows = Math.ceil(height / REGION_CELL);
+  const cells = new Uint8Array(columns * rows);
+
+  for (let row = 0; row < rows; row += 1) {
+    for (let column = 0; column < columns; column += 1) {
+      const top = row * REGION_CELL;
+      const left = column * REGION_CELL;
+      const bottom = Math.min(height, top + REGION_CELL);
+      const right = Math.min(width, left + REGION_CELL);
+
+      let changed = 0;
+      for (let y = top; y < bottom; y += 1) {
+        for (let x = left; x < right; x += 1) {
+          changed += mask[y * width + x];
+        }
+      }
+
+      cells[row * columns + column] = changed >= (bottom - top) * (right - left) * REGION_CELL_RATIO ? 1 : 0;
+    }
+  }
+
+  const boxes: Array<{ left: number; top: number; right: number; bottom: number }> = [];
+  const stack: number[] = [];
+
+  for (let start = 0; start < cells.length; start += 1) {
+    if (cells[start] !== 1) continue;
+
+    cells[start] = 2;
+    stack.push(start);
+    const box = { left: columns, top: rows, right: 0, bottom: 0 };
+
+    while (stack.length > 0) {
+      const cell = stack.pop()!;
+      const column = cell % columns;
+      const row = Math.floor(cell / columns);
+      box.left = Math.min(box.left, column);
+      box.top = Math.min(box.top, row);
+      box.right = Math.max(box.right, column + 1);
+      box.bottom = Math.max(box.bottom, row + 1);
+
+      for (let dy = -1; dy <= 1; dy += 1) {
+        for (let dx = -1; dx <= 1; dx += 1) {
+          const x = column + dx;
+          const y = row + dy;
+          if (x < 0 || y < 0 || x >= columns || y >= rows) continue;
+          const next = y * columns + x;
+          if (cells[next] === 1) {
+            cells[next] = 2;
+            stack.push(next);
+          }
+        }
+      }
+    }
+
+    boxes.push(box);
+  }
+
+  return boxes
+    .sort((a, b) => (b.right - b.left) * (b.bottom - b.top) - (a.right - a.left) * (a.bottom - a.top))
+    .slice(0, MAX_REGIONS)
+    .map((box) => {
+      const left = box.left * REGION_CELL;
+      const top = box.top * REGION_CELL;
+      const right = Math.min(width, box.right * REGION_CELL);
+      const bottom = Math.min(height, box.bottom * REGION_CELL);
+      return {
+        x: Number((left / width).toFixed(4)),
+        y: Number((top / height).toFixed(4)),
+        width: Number(((right - left) / width).toFixed(4)),
+        height: Number(((bottom - top) / height).toFixed(4))
+      };
+    });
+}
+
+/**
+ * Pixel difference of two rasters of the same size. The overlay is the right (newer) page lightened,
+ * with ink only in the left page in red, ink only in the right page in teal and regions outlined.
+ */
+export function diffRasters(left: GrayRaster, right: GrayRaster) {
+  if (left.width !== right.width || left.height !== right.height) {
+    throw new Error('Rasters de tailles différentes.');
+  }
+
+  const { width, height } = right;
+  const mask = new Uint8Array(width * height);
+  const overlay: RgbRaster = { width, height, data: new Uint8Array(width * height * 3) };
+  let changed = 0;
+
+  for (let index = 0; index < mask.length; index += 1) {
+    const delta = right.data[index] - left.data[index];
+    const base = index * 3;
+
+    if (Math.abs(delta) > PIXEL_THRESHOLD) {
+      mask[index] = 1;
+      changed += 1;
+      const color = delta < 0 ? ADDED_COLOR : REMOVED_COLOR;
+      overlay.data[base] = color[0];
+      overlay.data[base + 1] = color[1];
+      overlay.data[base + 2] = color[2];
+    } else {
+      const light = 170 + Math.round((right.data[index] * 85) / 255);
+      overlay.data[base] = light;
+      overlay.data[base + 1] = light;
+      overlay.data[base + 2] = light;
+    }
+  }
+
+  const regions = changedRegions(mask, width, height);
+  regions.forEach((region) => outlineRegion(overlay, region, REGION_COLOR));
+
+  return {
+    changed_ratio: mask.length > 0 ? Number((changed / mask.length).toFixed(5)) : 0,
+    regions,
+    overlay
+  };
+}
+
+function textLines(text: string | undefined) {
+  return (text ?? '')
+    .split(/\r?\n/)
+    .map((line) => line.replace(/\s+/g, ' ').trim())
+    .filter((line) => line.length > 0);
+}
+
+/** Line diff (longest common subsequence); large pages fall back to a set comparison. */
+export function diffTextLines(leftText: string | undefined, rightText: string | undefined) {
+  const left = textLines(leftText);
+  const right = textLines(rightText);
+  const lines: DocumentTextDiffLine[] = [];
+
+  if (left.length * right.length > MAX_LCS_CELLS) {
+    const leftSet = new Set(left);
+    const rightSet = new Set(right);
+    right.forEach((text) => lines.push({ kind: leftSet.has(text) ? 'SAME' : 'ADDED', text }));
+    left.filter((text) => !rightSet.has(text)).forEach((text) => lines.push({ kind: 'REMOVED', text }));
+  } else {
+    const columns = right.length + 1;
+    const lengths = new Uint16Array((left.length + 1) * columns);
+
+    for (let i = left.length - 1; i >= 0; i -= 1) {
+      for (let j = right.length - 1; j >= 0; j -= 1) {
+        lengths[i * columns + j] =
+          left[i] === right[j]
+            ? lengths[(i + 1) * columns + j + 1] + 1
+            : Math.max(lengths[(i + 1) * columns + j], lengths[i * columns + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < left.length || j < right.length) {
+      if (i < left.length && j < right.length && left[i] === right[j]) {
+        lines.push({ kind: 'SAME', text: left[i] });
+        i += 1;
+        j += 1;
+      } else if (j < right.length && (i >= left.length || lengths[i * columns + j + 1] >= lengths[(i + 1) * columns + j])) {
+        lines.push({ kind: 'ADDED', text: right[j] });
+        j += 1;
+      } else {
+        lines.push({ kind: 'REMOVED', text: left[i] });
+        i += 1;
+      }
+    }
+  }
+
+  return {
+    lines,
+    added: lines.filter((line) => line.kind === 'ADDED').length,
+    removed: lines.filter((line) => line.kind === 'REMOVED').length
+  };
+}
+
+async function writePng(path: string, raster: RgbRaster) {
+  await FileSystem.writeAsStringAsync(path, bytesToBase64(encodePngRgb(raster)), {
+    encoding: FileSystem.EncodingType.Base64
+  });
+  return path;
+}
+
+async function loadSafely(source: PageSource | undefined, width: number, height: number) {
+  if (!source?.load) return null;
+
+  try {
+    return await source.load(width, height);
+  } catch {
+    return null;
+  }
+}
+
+async function diffPage(
+  pageNumber: number,
+  leftSource: PageSource | undefined,
+  rightSource: PageSource | undefined,
+  rasterSize: number,
+  dir: string
+): Promise<Omit<DocumentVersionDiffPage, 'text_lines' | 'text_added' | 'text_removed'>> {
+  const reference = rightSource ?? leftSource;
+  const { width, height } = fitSize(reference?.aspect ?? 1, rasterSize);
+  const [leftRaster, rightRaster] = await Promise.all([
+    loadSafely(leftSource, width, height),
+    loadSafely(rightSource, width, height)
+  ]);
+
+  const page: Omit<DocumentVersionDiffPage, 'text_lines' | 'text_added' | 'text_removed'> = {
+    page_number: pageNumber,
+    status: 'UNKNOWN',
+    method: 'NONE',
+    regions: []
+  };
+
+  if (leftRaster || rightRaster) {
+    page.image_width = width;
+    page.image_height = height;
+  }
+  if (leftRaster) page.left_image_path = await writePng(`${dir}left_${pageNumber}.png`, grayToRgb(leftRaster));
+  if (rightRaster) page.right_image_path = await writePng(`${dir}right_${pageNumber}.png`, grayToRgb(rightRaster));
+
+  if (!leftSource || !rightSource) {
+    page.status = leftSource ? 'REMOVED' : 'ADDED';
+    return page;
+  }
+
+  if (leftRaster && rightRaster) {
+    const result = diffRasters(leftRaster, rightRaster);
+    page.method = 'RASTER';
+    page.changed_ratio = result.changed_ratio;
+    page.regions = result.regions;
+    page.status = result.changed_ratio > CHANGED_PAGE_RATIO || result.regions.length > 0 ? 'CHANGED' : 'UNCHANGED';
+    if (page.status === 'CHANGED') {
+      page.overlay_image_path = await writePng(`${dir}overlay_${pageNumber}.png`, result.overlay);
+    }
+    return page;
+  }
+
+  if (leftSource.fingerprint === rightSource.fingerprint) {
+    page.method = leftSource.whole_file ? 'NONE' : 'FINGERPRINT';
+    page.status = 'UNCHANGED';
+    return page;
+  }
+
+  if (leftSource.whole_file || rightSource.whole_file) {
+    // Different files that cannot be split into pages: the change cannot be located.
+    return page;
+  }
+
+  page.method = 'FINGERPRINT';
+  page.status = 'CHANGED';
+  return page;
+}
+
+/** Page-by-page comparison of two version files (left = older, right = newer). */
+export async function diffVersionFiles(
+  left: DiffVersionFile,
+  right: DiffVersionFile,
+  options: { rasterSize?: number; maxPages?: number } = {}
+): Promise<DocumentVersionDiffPage[]> {
+  const rasterSize = clampInt(options.rasterSize, DEFAULT_RASTER_SIZE, MIN_RASTER_SIZE, MAX_RASTER_SIZE);
+  const maxPages = clampInt(options.maxPages, DEFAULT_MAX_PAGES, 1, MAX_PAGES);
+
+  const dir = diffDir(left.version.id, right.version.id);
+  await FileSystem.deleteAsync(dir, { idempotent: true });
+  await FileSystem.makeDirectoryAsync(dir, { intermediates: true });
+
+  const [leftSources, rightSources] = await Promise.all([
+    readPageSources(left, 'src_left', dir),
+    readPageSources(right, 'src_right', dir)
+  ]);
+
+  const pageCount = Math.min(
+    maxPages,
+    Math.max(
+      leftSources.length,
+      rightSources.length,
+      ...Array.from(left.page_texts.keys()),
+      ...Array.from(right.page_texts.keys())
+    )
+  );
+
+  const pages: DocumentVersionDiffPage[] = [];
+
+  // Sequential on purpose: each page holds a few rasters in memory.
+  for (let pageNumber = 1; pageNumber <= pageCount; pageNumber += 1) {
+    const leftSource = leftSources.find((source) => source.page_number === pageNumber);
+    const rightSource = rightSources.find((source) => source.page_number === pageNumber);
+    const page = await diffPage(pageNumber, leftSource, rightSource, rasterSize, dir);
+    const text = diffTextLines(left.page_texts.get(pageNumber), right.page_texts.get(pageNumber));
+
+    pages.push({ ...page, text_lines: text.lines, text_added: text.added, text_removed: text.removed });
+  }
+
+  return pages;
+}
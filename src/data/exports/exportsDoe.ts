@@ -2,9 +2,11 @@ import * as FileSystem from 'expo-file-system/legacy';
 import * as Print from 'expo-print';
 import * as SQLite from 'expo-sqlite';
 import JSZip from 'jszip';
+import { PDFDocument } from 'pdf-lib';
 import { Document, documents, DocumentVersion } from '../documents';
-import { media, MediaAsset } from '../media';
+import { media, MediaAsset, MediaExportFile, mediaKindOf } from '../media';
 import { offlineDB } from '../offline/outbox';
+import { PlanAnnotatedPdfResult, plans } from '../plans-annotations';
 import { quotas } from '../quotas-limits';
 import { Task, tasks } from '../tasks';
 import {
@@ -14,6 +16,8 @@ import {
   ExportJob,
   ExportManifest,
   ExportManifestFile,
+  ExportOptions,
+  ExportPlansBlock,
   ExportStatus,
   ExportSummary,
   ExportType
@@ -32,6 +36,8 @@ const IMAGE_MIMES = new Set(['image/webp', 'image/jpeg']);
 
 const CANCELLED_MESSAGE = 'Export annule par utilisateur.';
 
+const JOB_UPGRADE_COLUMNS: Array<[string, string]> = [['options_json', 'TEXT']];
+
 type ExportJobRow = {
   id: string;
   org_id: string;
@@ -45,6 +51,7 @@ type ExportJobRow = {
   finished_at: string | null;
   retry_count: number;
   last_error: string | null;
+  options_json: string | null;
 };
 
 type ExportItemRow = {
@@ -65,6 +72,15 @@ type ProjectSnapshot = {
   tasks: Task[];
   media: MediaAsset[];
   documents: DocumentSelection[];
+  /** Near-duplicate photos left out (`exclude_near_duplicates`). */
+  excludedDuplicates: number;
+};
+
+type AnnotatedPlan = {
+  document: Document;
+  /** Null when the plan could not be rendered; `error` then says why. */
+  rendered: PlanAnnotatedPdfResult | null;
+  error?: string;
 };
 
 type ZipBuildResult = {
@@ -115,9 +131,20 @@ function extensionForMime(mime: string) {
   if (mime === 'image/webp') return 'webp';
   if (mime === 'application/pdf') return 'pdf';
   if (mime === 'application/zip') return 'zip';
+  if (mime === 'video/mp4') return 'mp4';
+  if (mime === 'video/quicktime') return 'mov';
+  if (mime === 'audio/mp4') return 'm4a';
+  if (mime === 'audio/mpeg') return 'mp3';
+  if (mime === 'audio/wav') return 'wav';
+  if (mime === 'audio/x-caf') return 'caf';
   return 'jpg';
 }
 
+function isClip(asset: MediaAsset) {
+  const kind = mediaKindOf(asset.mime);
+  return kind === 'VIDEO' || kind === 'AUDIO';
+}
+
 function fileNameFromPath(path: string) {
   const withoutQuery = path.split('?')[0] ?? path;
   const parts = withoutQuery.split('/').filter((part) => part.length > 0);
@@ -166,6 +193,45 @@ function exportsTmpDir() {
   return `${exportsRootDir()}tmp/`;
 }
 
+function parseOptions(raw: string | null): ExportOptions {
+  if (!raw) {
+    return {};
+  }
+
+  try {
+    const parsed = JSON.parse(raw) as ExportOptions;
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+function normalizeOptions(options: ExportOptions | undefined): ExportOptions {
+  const normalized: ExportOptions = options?.exclude_near_duplicates ? { exclude_near_duplicates: true } : {};
+  const block = options?.annotated_plans;
+  if (!block) {
+    return normalized;
+  }
+
+  const documentIds = (block.document_ids ?? []).map((id) => normalizeText(id)).filter((id) => id.length > 0);
+  const plansBlock: ExportPlansBlock = {
+    legend: block.legend ?? true
+  };
+
+  if (block.document_ids) {
+    plansBlock.document_ids = Array.from(new Set(documentIds));
+  }
+  if (block.filters) {
+    plansBlock.filters = {
+      status: block.filters.status,
+      kinds: block.filters.kinds,
+      page_number: block.filters.page_number
+    };
+  }
+
+  return { ...normalized, annotated_plans: plansBlock };
+}
+
 function mapJobRow(row: ExportJobRow): ExportJob {
   return {
     id: row.id,
@@ -179,7 +245,8 @@ function mapJobRow(row: ExportJobRow): ExportJob {
     created_at: row.created_at,
     finished_at: toOptional(row.finished_at),
     retry_count: row.retry_count,
-    last_error: toOptional(row.last_error)
+    last_error: toOptional(row.last_error),
+    options: parseOptions(row.options_json)
   };
 }
 
@@ -243,7 +310,8 @@ async function setupSchema() {
       created_at TEXT NOT NULL,
       finished_at TEXT,
       retry_count INTEGER NOT NULL DEFAULT 0,
-      last_error TEXT
+      last_error TEXT,
+      options_json TEXT
     );
 
     CREATE INDEX IF NOT EXISTS idx_export_jobs_org_project_created
@@ -266,6 +334,19 @@ async function setupSchema() {
     CREATE UNIQUE INDEX IF NOT EXISTS idx_export_items_unique
       ON ${ITEMS_TABLE}(export_id, entity, entity_id);
   `);
+
+  await addMissingColumns(db, JOBS_TABLE, JOB_UPGRADE_COLUMNS);
+}
+
+async function addMissingColumns(db: SQLite.SQLiteDatabase, tableName: string, columns: Array<[string, string]>) {
+  const existing = await db.getAllAsync<{ name: string }>(`PRAGMA table_info(${tableName})`);
+  const names = new Set(existing.map((column) => column.name));
+
+  for (const [name, definition] of columns) {
+    if (!names.has(name)) {
+      await db.execAsync(`ALTER TABLE ${tableName} ADD COLUMN ${name} ${definition};`);
+    }
+  }
 }
 
 async function ensureSetup() {
@@ -306,9 +387,9 @@ async function upsertJobRow(row: ExportJobRow) {
         id, org_id, project_id, type, status,
         local_path, size_bytes,
         created_by, created_at, finished_at,
-        retry_count, last_error
+        retry_count, last_error, options_json
       )
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `,
     row.id,
     row.org_id,
@@ -321,7 +402,8 @@ async function upsertJobRow(row: ExportJobRow) {
     row.created_at,
     row.finished_at,
     row.retry_count,
-    row.last_error
+    row.last_error,
+    row.options_json
   );
 }
 
@@ -453,10 +535,18 @@ function pickDocumentVersion(document: Document, versions: DocumentVersion[]) {
   return sorted[0] ?? null;
 }
 
-async function collectProjectSnapshot(orgId: string, projectId: string): Promise<ProjectSnapshot> {
+async function collectProjectSnapshot(
+  orgId: string,
+  projectId: string,
+  options: ExportOptions = {}
+): Promise<ProjectSnapshot> {
   const taskList = await listAllTasksByProject(orgId, projectId);
 
-  const mediaList = (await media.listByProject(projectId)).filter((asset) => asset.org_id === orgId);
+  const projectMedia = (await media.listByProject(projectId)).filter((asset) => asset.org_id === orgId);
+  const duplicateIds = options.exclude_near_duplicates
+    ? new Set(await media.listNearDuplicateIds(projectId))
+    : new Set<string>();
+  const mediaList = projectMedia.filter((asset) => !duplicateIds.has(asset.id));
 
   const documentList = await listProjectDocuments(orgId, projectId);
   const selections: DocumentSelection[] = [];
@@ -485,7 +575,8 @@ async function collectProjectSnapshot(orgId: string, projectId: string): Promise
   return {
     tasks: taskList,
     media: mediaList,
-    documents: selections
+    documents: selections,
+    excludedDuplicates: projectMedia.length - mediaList.length
   };
 }
 
@@ -513,9 +604,22 @@ function computeSummary(snapshot: ProjectSnapshot): ExportSummary {
   };
 }
 
-function estimateBytes(snapshot: ProjectSnapshot, type: ExportType) {
+function estimatePlanBytes(snapshot: ProjectSnapshot, options: ExportOptions) {
+  const block = options.annotated_plans;
+  if (!block) {
+    return 0;
+  }
+
+  return snapshot.documents
+    .filter((item) => item.document.doc_type === 'PLAN')
+    .filter((item) => !block.document_ids || block.document_ids.includes(item.document.id))
+    .reduce((sum, item) => sum + Math.max(item.version.file_size, 0) + 256 * 1024, 0);
+}
+
+function estimateBytes(snapshot: ProjectSnapshot, type: ExportType, options: ExportOptions = {}) {
   const summary = computeSummary(snapshot);
-  const reportEstimate = 850 * 1024 + Math.min(summary.proofs_total * 34 * 1024, 18 * 1024 * 1024);
+  const reportEstimate =
+    850 * 1024 + Math.min(summary.proofs_total * 34 * 1024, 18 * 1024 * 1024) + estimatePlanBytes(snapshot, options);
 
   if (type === 'REPORT_PDF') {
     return reportEstimate;
@@ -527,8 +631,13 @@ function estimateBytes(snapshot: ProjectSnapshot, type: ExportType) {
 
   const documentBytes = snapshot.documents.reduce((sum, item) => sum + Math.max(item.version.file_size, 0), 0);
 
+  const clipBytes =
+    type === 'DOE_ZIP'
+      ? snapshot.media.filter(isClip).reduce((sum, asset) => sum + Math.max(asset.size_bytes, 0), 0)
+      : 0;
+
   const overhead = 512 * 1024;
-  return reportEstimate + imageBytes + documentBytes + overhead;
+  return reportEstimate + imageBytes + clipBytes + documentBytes + overhead;
 }
 
 function mimeForExportType(type: ExportType) {
@@ -605,7 +714,78 @@ function taskStatusChipColor(status: Task['status']) {
   return '#EF4444';
 }
 
-async function buildReportPdf(job: ExportJob, snapshot: ProjectSnapshot, title: string) {
+function annotatedPlanFileName(entry: AnnotatedPlan) {
+  const version = entry.rendered ? `_v${entry.rendered.version_number}` : '';
+  return `${slugify(entry.document.title, 'plan')}${version}_annote.pdf`;
+}
+
+function annotatedPlanZipDir(type: ExportType) {
+  return type === 'CONTROL_PACK' ? 'annexes/plans' : 'plans';
+}
+
+async function renderAnnotatedPlans(job: ExportJob): Promise<AnnotatedPlan[]> {
+  const block = job.options.annotated_plans;
+  if (!block) {
+    return [];
+  }
+
+  const projectPlans = (await plans.listProjectPlans(job.project_id)).filter((document) => document.org_id === job.org_id);
+  const selected = block.document_ids
+    ? projectPlans.filter((document) => block.document_ids?.includes(document.id))
+    : projectPlans;
+
+  const rendered: AnnotatedPlan[] = [];
+  for (const document of selected) {
+    assertNotCancelled(job.id);
+
+    try {
+      const result = await plans.exportAnnotatedPdf(document.id, undefined, block.filters ?? {}, {
+        legend: block.legend ?? true,
+        file_name: `export_${job.id}_${document.id}.pdf`
+      });
+      rendered.push({ document, rendered: result });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Rendu du plan impossible.';
+      rendered.push({ document, rendered: null, error: message });
+    }
+
+    await Promise.resolve();
+  }
+
+  return rendered;
+}
+
+async function appendAnnotatedPlansToReport(reportPath: string, annotatedPlans: AnnotatedPlan[]) {
+  if (!annotatedPlans.some((entry) => entry.rendered)) {
+    return;
+  }
+
+  const report = await PDFDocument.load(
+    await FileSystem.readAsStringAsync(reportPath, { encoding: FileSystem.EncodingType.Base64 })
+  );
+
+  for (const entry of annotatedPlans) {
+    if (!entry.rendered) {
+      continue;
+    }
+
+    const planPdf = await PDFDocument.load(
+      await FileSystem.readAsStringAsync(entry.rendered.uri, { encoding: FileSystem.EncodingType.Base64 }),
+      { ignoreEncryption: true }
+    );
+
+    const pages = await report.copyPages(planPdf, planPdf.getPageIndices());
+    pages.forEach((page) => report.addPage(page));
+
+    await Promise.resolve();
+  }
+
+  await FileSystem.writeAsStringAsync(reportPath, await report.saveAsBase64({ dataUri: false }), {
+    encoding: FileSystem.EncodingType.Base64
+  });
+}
+
+async function buildReportPdf(job: ExportJob, snapshot: ProjectSnapshot, title: string, annotatedPlans: AnnotatedPlan[]) {
   const summary = computeSummary(snapshot);
   const createdAtLabel = formatDate(job.created_at);
 
@@ -632,7 +812,8 @@ async function buildReportPdf(job: ExportJob, snapshot: ProjectSnapshot, title:
 
   const proofCards: string[] = [];
   for (const asset of proofAssets) {
-    const thumb = await toBase64DataUri(asset.local_thumb_path, asset.mime);
+    const exportFile = await media.getExportFile(asset);
+    const thumb = await toBase64DataUri(exportFile.thumb_path, exportFile.mime);
     if (!thumb) {
       continue;
     }
@@ -665,7 +846,28 @@ async function buildReportPdf(job: ExportJob, snapshot: ProjectSnapshot, title:
     })
     .join('');
 
+  const plansRows = annotatedPlans
+    .map((entry) => {
+      const location = !entry.rendered
+        ? `Non genere: ${entry.error ?? 'erreur inconnue'}`
+        : job.type === 'REPORT_PDF'
+          ? 'Annexe de ce rapport'
+          : `${annotatedPlanZipDir(job.type)}/${annotatedPlanFileName(entry)}`;
+
+      return `
+        <tr>
+          <td>${htmlEscape(entry.document.title)}</td>
+          <td>${entry.rendered ? `v${entry.rendered.version_number}` : '-'}</td>
+          <td>${entry.rendered ? entry.rendered.annotations_count : '-'}</td>
+          <td>${htmlEscape(location)}</td>
+        </tr>
+      `;
+    })
+    .join('');
+
   const omittedProofCount = Math.max(0, snapshot.media.filter((asset) => IMAGE_MIMES.has(asset.mime)).length - proofCards.length);
+  const videoCount = snapshot.media.filter((asset) => mediaKindOf(asset.mime) === 'VIDEO').length;
+  const audioCount = snapshot.media.filter((asset) => mediaKindOf(asset.mime) === 'AUDIO').length;
 
   const html = `
     <html>
@@ -752,6 +954,8 @@ async function buildReportPdf(job: ExportJob, snapshot: ProjectSnapshot, title:
           ${proofCards.join('') || '<div class="subtle">Aucune preuve image</div>'}
         </div>
         ${omittedProofCount > 0 ? `<div class="subtle">${omittedProofCount} preuve(s) supplementaire(s) non affichee(s) dans le PDF pour garder un rendu fluide.</div>` : ''}
+        ${snapshot.excludedDuplicates > 0 ? `<div class="subtle">${snapshot.excludedDuplicates} photo(s) quasi identique(s) exclue(s): seule la meilleure prise de chaque serie est conservee.</div>` : ''}
+        ${videoCount + audioCount > 0 ? `<div class="subtle">${videoCount} video(s) et ${audioCount} note(s) audio: fichiers joints au DOE ZIP (videos/, audio/).</div>` : ''}
 
         <h2>Documents lies</h2>
         <table>
@@ -768,6 +972,26 @@ async function buildReportPdf(job: ExportJob, snapshot: ProjectSnapshot, title:
           </tbody>
         </table>
 
+        ${
+          job.options.annotated_plans
+            ? `
+        <h2>Plans annotes</h2>
+        <table>
+          <thead>
+            <tr>
+              <th>Plan</th>
+              <th>Version</th>
+              <th>Annotations</th>
+              <th>Fichier</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${plansRows || '<tr><td colspan="4">Aucun plan</td></tr>'}
+          </tbody>
+        </table>`
+            : ''
+        }
+
         <div class="footer">Genere par Conformeo - ${htmlEscape(job.id)}</div>
       </body>
     </html>
@@ -863,6 +1087,10 @@ async function ensureProcessedImage(asset: MediaAsset) {
   return processed;
 }
 
+function annotationManifestMeta(exportFile: MediaExportFile) {
+  return exportFile.annotated ? { annotated: true, original_sha256: exportFile.source_hash } : {};
+}
+
 async function addFileToZip(
   zip: JSZip,
   zipPath: string,
@@ -910,7 +1138,12 @@ function createManifest(
   };
 }
 
-async function buildDoeZip(job: ExportJob, snapshot: ProjectSnapshot, reportPath: string): Promise<ZipBuildResult> {
+async function buildDoeZip(
+  job: ExportJob,
+  snapshot: ProjectSnapshot,
+  reportPath: string,
+  annotatedPlans: AnnotatedPlan[]
+): Promise<ZipBuildResult> {
   const zip = new JSZip();
   const files: ExportManifestFile[] = [];
 
@@ -931,14 +1164,16 @@ async function buildDoeZip(job: ExportJob, snapshot: ProjectSnapshot, reportPath
     assertNotCancelled(job.id);
 
     const asset = await ensureProcessedImage(mediaAsset);
-    const ext = extensionForMime(asset.mime);
+    const exportFile = await media.getExportFile(asset);
+    const ext = extensionForMime(exportFile.mime);
     const name = `IMG_${String(imageIndex).padStart(4, '0')}.${ext}`;
 
     files.push(
-      await addFileToZip(zip, `${root}/photos/${name}`, asset.local_path, asset.mime, {
+      await addFileToZip(zip, `${root}/photos/${name}`, exportFile.path, exportFile.mime, {
         entity: 'MEDIA',
         entity_id: asset.id,
-        linked_task_id: asset.task_id
+        linked_task_id: asset.task_id,
+        ...annotationManifestMeta(exportFile)
       })
     );
 
@@ -948,6 +1183,33 @@ async function buildDoeZip(job: ExportJob, snapshot: ProjectSnapshot, reportPath
     }
   }
 
+  let videoIndex = 1;
+  let audioIndex = 1;
+  for (const mediaAsset of snapshot.media.filter(isClip)) {
+    assertNotCancelled(job.id);
+
+    const asset = mediaAsset.watermark_applied ? mediaAsset : await media.process(mediaAsset.id);
+    const isVideo = mediaKindOf(asset.mime) === 'VIDEO';
+    const index = isVideo ? videoIndex : audioIndex;
+    const name = `${isVideo ? 'VID' : 'AUD'}_${String(index).padStart(4, '0')}.${extensionForMime(asset.mime)}`;
+
+    files.push(
+      await addFileToZip(zip, `${root}/${isVideo ? 'videos' : 'audio'}/${name}`, asset.local_path, asset.mime, {
+        entity: 'MEDIA',
+        entity_id: asset.id,
+        linked_task_id: asset.task_id,
+        duration_ms: asset.duration_ms
+      })
+    );
+
+    if (isVideo) {
+      videoIndex += 1;
+    } else {
+      audioIndex += 1;
+    }
+    await Promise.resolve();
+  }
+
   for (const entry of snapshot.documents) {
     assertNotCancelled(job.id);
 
@@ -970,6 +1232,30 @@ async function buildDoeZip(job: ExportJob, snapshot: ProjectSnapshot, reportPath
     await Promise.resolve();
   }
 
+  for (const entry of annotatedPlans) {
+    assertNotCancelled(job.id);
+
+    if (!entry.rendered) {
+      continue;
+    }
+
+    files.push(
+      await addFileToZip(
+        zip,
+        `${root}/${annotatedPlanZipDir(job.type)}/${annotatedPlanFileName(entry)}`,
+        entry.rendered.uri,
+        'application/pdf',
+        {
+          entity: 'DOCUMENT',
+          entity_id: entry.document.id,
+          linked_document_id: entry.document.id
+        }
+      )
+    );
+
+    await Promise.resolve();
+  }
+
   const manifest = createManifest(job, 'DOE_ZIP', computeSummary(snapshot), files);
   zip.file(`${root}/report/manifest.json`, JSON.stringify(manifest, null, 2));
 
@@ -988,7 +1274,12 @@ async function buildDoeZip(job: ExportJob, snapshot: ProjectSnapshot, reportPath
   return { localPath: finalPath, sizeBytes };
 }
 
-async function buildControlPackZip(job: ExportJob, snapshot: ProjectSnapshot, reportPath: string): Promise<ZipBuildResult> {
+async function buildControlPackZip(
+  job: ExportJob,
+  snapshot: ProjectSnapshot,
+  reportPath: string,
+  annotatedPlans: AnnotatedPlan[]
+): Promise<ZipBuildResult> {
   const zip = new JSZip();
   const files: ExportManifestFile[] = [];
 
@@ -1009,14 +1300,16 @@ async function buildControlPackZip(job: ExportJob, snapshot: ProjectSnapshot, re
     assertNotCancelled(job.id);
 
     const asset = await ensureProcessedImage(mediaAsset);
-    const ext = extensionForMime(asset.mime);
+    const exportFile = await media.getExportFile(asset);
+    const ext = extensionForMime(exportFile.mime);
     const name = `PROOF_${String(proofIndex).padStart(4, '0')}.${ext}`;
 
     files.push(
-      await addFileToZip(zip, `${root}/annexes/photos/${name}`, asset.local_path, asset.mime, {
+      await addFileToZip(zip, `${root}/annexes/photos/${name}`, exportFile.path, exportFile.mime, {
         entity: 'MEDIA',
         entity_id: asset.id,
-        linked_task_id: asset.task_id
+        linked_task_id: asset.task_id,
+        ...annotationManifestMeta(exportFile)
       })
     );
 
@@ -1043,6 +1336,30 @@ async function buildControlPackZip(job: ExportJob, snapshot: ProjectSnapshot, re
     );
   }
 
+  for (const entry of annotatedPlans) {
+    assertNotCancelled(job.id);
+
+    if (!entry.rendered) {
+      continue;
+    }
+
+    files.push(
+      await addFileToZip(
+        zip,
+        `${root}/${annotatedPlanZipDir(job.type)}/${annotatedPlanFileName(entry)}`,
+        entry.rendered.uri,
+        'application/pdf',
+        {
+          entity: 'DOCUMENT',
+          entity_id: entry.document.id,
+          linked_document_id: entry.document.id
+        }
+      )
+    );
+
+    await Promise.resolve();
+  }
+
   const manifest = createManifest(job, 'CONTROL_PACK', computeSummary(snapshot), files);
   zip.file(`${root}/report/manifest.json`, JSON.stringify(manifest, null, 2));
 
@@ -1101,7 +1418,7 @@ export const exportsDoe = {
     contextOrgId = normalizeText(orgId) || null;
   },
 
-  async createJob(projectId: string, type: ExportType): Promise<ExportJob> {
+  async createJob(projectId: string, type: ExportType, options: ExportOptions = {}): Promise<ExportJob> {
     await ensureSetup();
 
     if (!ensureExportType(type)) {
@@ -1132,6 +1449,7 @@ export const exportsDoe = {
     }
 
     const createdAt = nowIso();
+    const normalizedOptions = normalizeOptions(options);
 
     const row: ExportJobRow = {
       id: createUuid(),
@@ -1145,7 +1463,8 @@ export const exportsDoe = {
       created_at: createdAt,
       finished_at: null,
       retry_count: 0,
-      last_error: null
+      last_error: null,
+      options_json: Object.keys(normalizedOptions).length > 0 ? JSON.stringify(normalizedOptions) : null
     };
     await upsertJobRow(row);
     void quotas.recordExportCreated();
@@ -1171,11 +1490,13 @@ export const exportsDoe = {
       last_error: null
     });
 
+    let annotatedPlans: AnnotatedPlan[] = [];
+
     try {
       assertNotCancelled(jobId);
 
-      const snapshot = await collectProjectSnapshot(runningJob.org_id, runningJob.project_id);
-      const estimated = estimateBytes(snapshot, runningJob.type);
+      const snapshot = await collectProjectSnapshot(runningJob.org_id, runningJob.project_id, runningJob.options);
+      const estimated = estimateBytes(snapshot, runningJob.type, runningJob.options);
 
       if (estimated > MAX_LOCAL_EXPORT_SIZE_BYTES) {
         throw new Error('Export trop lourd: utiliser export serveur (v1).');
@@ -1191,17 +1512,21 @@ export const exportsDoe = {
             ? 'Pack controle'
             : 'Dossier DOE complet';
 
-      const reportPath = await buildReportPdf(runningJob, snapshot, reportTitle);
+      annotatedPlans = await renderAnnotatedPlans(runningJob);
+      assertNotCancelled(jobId);
+
+      const reportPath = await buildReportPdf(runningJob, snapshot, reportTitle, annotatedPlans);
       assertNotCancelled(jobId);
 
       let output: ZipBuildResult;
       if (runningJob.type === 'REPORT_PDF') {
+        await appendAnnotatedPlansToReport(reportPath, annotatedPlans);
         output = await movePdfToFinal(runningJob, reportPath);
       } else if (runningJob.type === 'CONTROL_PACK') {
-        output = await buildControlPackZip(runningJob, snapshot, reportPath);
+        output = await buildControlPackZip(runningJob, snapshot, reportPath, annotatedPlans);
         await safeDelete(reportPath);
       } else {
-        output = await buildDoeZip(runningJob, snapshot, reportPath);
+        output = await buildDoeZip(runningJob, snapshot, reportPath, annotatedPlans);
         await safeDelete(reportPath);
       }
 
@@ -1231,6 +1556,9 @@ export const exportsDoe = {
       return failed;
     } finally {
       cancelledJobs.delete(jobId);
+      for (const entry of annotatedPlans) {
+        await safeDelete(entry.rendered?.uri);
+      }
     }
   },
 
@@ -1374,7 +1702,7 @@ export const exportsDoe = {
     return rows.length;
   },
 
-  async computeEstimatedSize(projectId: string, type: ExportType): Promise<number> {
+  async computeEstimatedSize(projectId: string, type: ExportType, options: ExportOptions = {}): Promise<number> {
     if (!ensureExportType(type)) {
       throw new Error(`Type export invalide: ${type}`);
     }
@@ -1385,8 +1713,9 @@ export const exportsDoe = {
       throw new Error('projectId est requis.');
     }
 
-    const snapshot = await collectProjectSnapshot(context.org_id, normalizedProjectId);
-    return estimateBytes(snapshot, type);
+    const normalizedOptions = normalizeOptions(options);
+    const snapshot = await collectProjectSnapshot(context.org_id, normalizedProjectId, normalizedOptions);
+    return estimateBytes(snapshot, type, normalizedOptions);
   },
 
   async getMaxExportSizeBytes() {
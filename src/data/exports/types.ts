@@ -1,9 +1,29 @@
+import { PlanPinFilters } from '../plans-annotations';
+
 export type ExportType = 'REPORT_PDF' | 'CONTROL_PACK' | 'DOE_ZIP';
 
 export type ExportStatus = 'PENDING' | 'RUNNING' | 'DONE' | 'FAILED';
 
 export type ExportItemEntity = 'TASK' | 'MEDIA' | 'DOCUMENT';
 
+/**
+ * Optional content block: annotated plans (active version of each project plan, pins burnt in + numbered legend).
+ * Appended to the report PDF; added as separate PDFs under `plans/` in ZIP exports.
+ */
+export type ExportPlansBlock = {
+  /** Plan documents to include; every project plan when omitted. */
+  document_ids?: string[];
+  filters?: Pick<PlanPinFilters, 'status' | 'kinds' | 'page_number'>;
+  /** Defaults to true. */
+  legend?: boolean;
+};
+
+export type ExportOptions = {
+  annotated_plans?: ExportPlansBlock;
+  /** Keeps only the best shot of each group of near-identical photos (`media.listSimilarGroups`). */
+  exclude_near_duplicates?: boolean;
+};
+
 export type ExportJob = {
   id: string;
   org_id: string;
@@ -17,6 +37,7 @@ export type ExportJob = {
   finished_at?: string;
   retry_count: number;
   last_error?: string;
+  options: ExportOptions;
 };
 
 export type ExportItem = {
@@ -45,6 +66,11 @@ export type ExportManifestFile = {
   entity_id: string;
   linked_task_id?: string;
   linked_document_id?: string;
+  /** Photo exported as its annotated rendition; `original_sha256` identifies the untouched original. */
+  annotated?: boolean;
+  original_sha256?: string;
+  /** Video/audio proofs only. */
+  duration_ms?: number;
 };
 
 export type ExportManifest = {
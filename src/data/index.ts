@@ -4,6 +4,7 @@ export * from './local/LocalStore';
 export * from './local/WatermelonAdapter';
 export * from './sync/Outbox';
 export * from './sync/conflicts';
+export * from './sync/merge';
 export {
   createOperationId,
   enqueueOperation,
@@ -31,6 +32,7 @@ export * from './sync/runtime';
 export * from './sync/transport';
 export * from './sync/useSyncStatus';
 export * from './sync/sync-engine';
+export * from './sync/pull';
 export * from './media';
 export * from './tasks';
 export * from './projects';
@@ -50,6 +52,8 @@ export * from './signature-probante';
 export * from './geo-context';
 export * from './equipment-management';
 export * from './planning-engine';
+export * from './recurrence';
+export * from './planning-ical';
 export * from './waste-volume';
 export * from './carbon-footprint';
 export * from './offer-management';
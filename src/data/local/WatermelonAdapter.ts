@@ -1,7 +1,12 @@
 import { LocalStore } from './LocalStore';
+import { deltaPull } from '../sync/pull';
+import { mapRemoteChange } from '../sync/remoteRecord';
 import { OutboxOperation, SyncDelta, UUID } from '../types';
 
 export class WatermelonAdapter implements LocalStore {
+  /** Pull side is scoped to one org: cursors and applied rows are those of `deltaPull`. */
+  constructor(private orgId: string) {}
+
   async enqueue(_op: OutboxOperation): Promise<void> {
     throw new Error('Not implemented');
   }
@@ -14,15 +19,25 @@ export class WatermelonAdapter implements LocalStore {
     throw new Error('Not implemented');
   }
 
-  async applyDeltas(_deltas: SyncDelta[]): Promise<void> {
-    throw new Error('Not implemented');
+  async applyDeltas(deltas: SyncDelta[]): Promise<void> {
+    for (const delta of deltas) {
+      const items = delta.items.map((item) => {
+        const change = mapRemoteChange(item);
+        if (!change) {
+          throw new Error(`Changement distant invalide (${delta.entity}).`);
+        }
+        return change;
+      });
+
+      await deltaPull.applyDeltas(this.orgId, { entity: delta.entity, items, cursor: delta.cursor });
+    }
   }
 
-  async getCursor(_entity: string): Promise<string | null> {
-    throw new Error('Not implemented');
+  async getCursor(entity: string): Promise<string | null> {
+    return deltaPull.getCursor(this.orgId, entity);
   }
 
-  async setCursor(_entity: string, _cursor: string): Promise<void> {
-    throw new Error('Not implemented');
+  async setCursor(entity: string, cursor: string): Promise<void> {
+    await deltaPull.setCursor(this.orgId, entity, cursor);
   }
 }
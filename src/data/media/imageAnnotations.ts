@@ -0,0 +1,314 @@
+import { deflate } from 'pako';
+import { MediaAnnotation, MediaPoint, RgbRaster } from './types';
+
+// Photo markup is rasterized here over the decoded pixels (no native canvas is available in the app),
+// then PNG-encoded so the native manipulator can turn it into the usual WebP/JPEG outputs.
+
+export type Color = [number, number, number];
+
+export type Box = { left: number; top: number; right: number; bottom: number };
+
+const DEFAULT_COLOR: Color = [225, 29, 72];
+const TEXT_INK: Color = [15, 23, 42];
+const TEXT_BACKGROUND: Color = [255, 255, 255];
+
+const GLYPH_WIDTH = 5;
+const GLYPH_HEIGHT = 7;
+const BLUR_PASSES = 3;
+
+/** Classic 5x7 font for ASCII 0x20..0x7E: 5 column bytes per glyph, bit 0 is the top row. */
+const FONT_5X7 = [
+  '0000000000', '00005f0000', '0007000700', '147f147f14', '242a7f2a12', '2313086462', '3649562050', '0000070000',
+  '001c224100', '0041221c00', '2a1c7f1c2a', '08083e0808', '0050300000', '0808080808', '0060600000', '2010080402',
+  '3e5149453e', '00427f4000', '4261514946', '2141454b31', '1814127f10', '2745454539', '3c4a494930', '0171090503',
+  '3649494936', '064949291e', '0036360000', '0056360000', '0814224100', '1414141414', '0041221408', '0201510906',
+  '324979413e', '7e1111117e', '7f49494936', '3e41414122', '7f4141221c', '7f49494941', '7f09090901', '3e4149497a',
+  '7f0808087f', '00417f4100', '2040413f01', '7f08142241', '7f40404040', '7f020c027f', '7f0408107f', '3e4141413e',
+  '7f09090906', '3e4151215e', '7f09192946', '4649494931', '01017f0101', '3f4040403f', '1f2040201f', '3f4038403f',
+  '6314081463', '0708700807', '6151494543', '007f414100', '0204081020', '0041417f00', '0402010204', '4040404040',
+  '0001020400', '2054545478', '7f48444438', '3844444420', '384444487f', '3854545418', '087e090102', '0c5252523e',
+  '7f08040478', '00447d4000', '2040443d00', '7f10284400', '00417f4000', '7c04180478', '7c08040478', '3844444438',
+  '7c14141408', '081414187c', '7c08040408', '4854545420', '043f444020', '3c4040207c', '1c2040201c', '3c4030403c',
+  '4428102844', '0c5050503c', '4464544c44', '0008364100', '00007f0000', '0041360800', '0804081008'
+];
+
+export function parseColor(value: string | undefined): Color {
+  const match = /^#?([0-9a-f]{6})$/i.exec(value ?? '');
+  if (!match) return DEFAULT_COLOR;
+
+  const hex = Number.parseInt(match[1], 16);
+  return [(hex >> 16) & 0xff, (hex >> 8) & 0xff, hex & 0xff];
+}
+
+function blend(raster: RgbRaster, x: number, y: number, color: Color, alpha = 1) {
+  if (x < 0 || y < 0 || x >= raster.width || y >= raster.height) return;
+
+  const base = (y * raster.width + x) * 3;
+  for (let channel = 0; channel < 3; channel += 1) {
+    raster.data[base + channel] = Math.round(raster.data[base + channel] * (1 - alpha) + color[channel] * alpha);
+  }
+}
+
+export function fillRect(raster: RgbRaster, box: Box, color: Color, alpha = 1) {
+  for (let y = Math.max(0, Math.floor(box.top)); y < Math.min(raster.height, Math.ceil(box.bottom)); y += 1) {
+    for (let x = Math.max(0, Math.floor(box.left)); x < Math.min(raster.width, Math.ceil(box.right)); x += 1) {
+      blend(raster, x, y, color, alpha);
+    }
+  }
+}
+
+function stampDisc(raster: RgbRaster, cx: number, cy: number, radius: number, color: Color) {
+  const squared = radius * radius;
+
+  for (let y = Math.floor(cy - radius); y <= Math.ceil(cy + radius); y += 1) {
+    for (let x = Math.floor(cx - radius); x <= Math.ceil(cx + radius); x += 1) {
+      if ((x - cx) * (x - cx) + (y - cy) * (y - cy) <= squared) {
+        blend(raster, x, y, color);
+      }
+    }
+  }
+}
+
+function drawLine(raster: RgbRaster, from: MediaPoint, to: MediaPoint, thickness: number, color: Color) {
+  const length = Math.hypot(to.x - from.x, to.y - from.y);
+  const steps = Math.max(1, Math.ceil(length / Math.max(1, thickness / 3)));
+
+  for (let step = 0; step <= steps; step += 1) {
+    const ratio = step / steps;
+    stampDisc(raster, from.x + (to.x - from.x) * ratio, from.y + (to.y - from.y) * ratio, thickness / 2, color);
+  }
+}
+
+function drawArrow(raster: RgbRaster, from: MediaPoint, to: MediaPoint, thickness: number, color: Color) {
+  drawLine(raster, from, to, thickness, color);
+
+  const angle = Math.atan2(to.y - from.y, to.x - from.x);
+  const head = Math.max(12, thickness * 5);
+
+  for (const delta of [Math.PI * 0.83, -Math.PI * 0.83]) {
+    drawLine(raster, to, { x: to.x + Math.cos(angle + delta) * head, y: to.y + Math.sin(angle + delta) * head }, thickness, color);
+  }
+}
+
+/** Ellipse ring inscribed in `box`; the distance to the curve uses the first-order (gradient) approximation. */
+function drawEllipse(raster: RgbRaster, box: Box, thickness: number, color: Color) {
+  const cx = (box.left + box.right) / 2;
+  const cy = (box.top + box.bottom) / 2;
+  const a = Math.max(1, (box.right - box.left) / 2);
+  const b = Math.max(1, (box.bottom - box.top) / 2);
+  const half = thickness / 2;
+
+  for (let y = Math.floor(cy - b - half); y <= Math.ceil(cy + b + half); y += 1) {
+    for (let x = Math.floor(cx - a - half); x <= Math.ceil(cx + a + half); x += 1) {
+      const dx = x - cx;
+      const dy = y - cy;
+      const f = (dx * dx) / (a * a) + (dy * dy) / (b * b) - 1;
+      const gradient = 2 * Math.hypot(dx / (a * a), dy / (b * b));
+
+      if (gradient > 0 && Math.abs(f) / gradient <= half) {
+        blend(raster, x, y, color);
+      }
+    }
+  }
+}
+
+function boxBlurLine(values: Float32Array, scratch: Float32Array, count: number, stride: number, offset: number, radius: number) {
+  for (let index = 0; index < count; index += 1) {
+    scratch[index] = values[offset + index * stride];
+  }
+
+  let sum = 0;
+  for (let index = -radius; index <= radius; index += 1) {
+    sum += scratch[Math.min(count - 1, Math.max(0, index))];
+  }
+
+  for (let index = 0; index < count; index += 1) {
+    values[offset + index * stride] = sum / (radius * 2 + 1);
+    sum += scratch[Math.min(count - 1, index + radius + 1)] - scratch[Math.max(0, index - radius)];
+  }
+}
+
+/** Repeated box blur (close to a gaussian) strong enough to make faces and plates unreadable. */
+function blurRegion(raster: RgbRaster, box: Box) {
+  const left = Math.max(0, Math.floor(box.left));
+  const top = Math.max(0, Math.floor(box.top));
+  const width = Math.min(raster.width, Math.ceil(box.right)) - left;
+  const height = Math.min(raster.height, Math.ceil(box.bottom)) - top;
+  if (width < 2 || height < 2) return;
+
+  const radius = Math.max(3, Math.round(Math.min(width, height) / 5));
+  const scratch = new Float32Array(Math.max(width, height));
+
+  for (let channel = 0; channel < 3; channel += 1) {
+    const values = new Float32Array(width * height);
+    for (let y = 0; y < height; y += 1) {
+      for (let x = 0; x < width; x += 1) {
+        values[y * width + x] = raster.data[((top + y) * raster.width + left + x) * 3 + channel];
+      }
+    }
+
+    for (let pass = 0; pass < BLUR_PASSES; pass += 1) {
+      for (let y = 0; y < height; y += 1) boxBlurLine(values, scratch, width, 1, y * width, radius);
+      for (let x = 0; x < width; x += 1) boxBlurLine(values, scratch, height, width, x, radius);
+    }
+
+    for (let y = 0; y < height; y += 1) {
+      for (let x = 0; x < width; x += 1) {
+        raster.data[((top + y) * raster.width + left + x) * 3 + channel] = Math.round(values[y * width + x]);
+      }
+    }
+  }
+}
+
+function toAscii(text: string) {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\x20-\x7E\n]/g, '?');
+}
+
+export function drawText(raster: RgbRaster, text: string, at: MediaPoint, scale: number, color: Color) {
+  const lines = toAscii(text).split('\n');
+  const padding = scale * 2;
+  const advance = (GLYPH_WIDTH + 1) * scale;
+  const lineHeight = (GLYPH_HEIGHT + 2) * scale;
+
+  const boxWidth = Math.max(...lines.map((line) => line.length)) * advance + padding * 2;
+  const boxHeight = lines.length * lineHeight + padding * 2;
+  const left = Math.max(0, Math.min(raster.width - boxWidth, at.x));
+  const top = Math.max(0, Math.min(raster.height - boxHeight, at.y));
+
+  fillRect(raster, { left, top, right: left + boxWidth, bottom: top + boxHeight }, TEXT_BACKGROUND, 0.85);
+  fillRect(raster, { left, top, right: left + scale, bottom: top + boxHeight }, color);
+
+  lines.forEach((line, row) => {
+    for (let index = 0; index < line.length; index += 1) {
+      const glyph = FONT_5X7[line.charCodeAt(index) - 0x20] ?? FONT_5X7[0x1f];
+      const originX = left + padding + index * advance;
+      const originY = top + padding + row * lineHeight;
+
+      for (let column = 0; column < GLYPH_WIDTH; column += 1) {
+        const bits = Number.parseInt(glyph.slice(column * 2, column * 2 + 2), 16);
+        for (let bit = 0; bit < GLYPH_HEIGHT; bit += 1) {
+          if (bits & (1 << bit)) {
+            fillRect(
+              raster,
+              {
+                left: originX + column * scale,
+                top: originY + bit * scale,
+                right: originX + (column + 1) * scale,
+                bottom: originY + (bit + 1) * scale
+              },
+              TEXT_INK
+            );
+          }
+        }
+      }
+    }
+  });
+}
+
+function boxOf(first: MediaPoint, second: MediaPoint): Box {
+  return {
+    left: Math.min(first.x, second.x),
+    top: Math.min(first.y, second.y),
+    right: Math.max(first.x, second.x),
+    bottom: Math.max(first.y, second.y)
+  };
+}
+
+/** Draws the markup over `raster` in place. Blurs go first so that the other marks stay sharp on top. */
+export function drawAnnotations(raster: RgbRaster, annotations: MediaAnnotation[]) {
+  const minSide = Math.min(raster.width, raster.height);
+  const thickness = Math.max(2, Math.round(minSide / 200));
+  const textScale = Math.max(2, Math.round(minSide / 360));
+
+  const ordered = [
+    ...annotations.filter((annotation) => annotation.kind === 'BLUR'),
+    ...annotations.filter((annotation) => annotation.kind !== 'BLUR')
+  ];
+
+  for (const annotation of ordered) {
+    const points = annotation.points.map((point) => ({ x: point.x * raster.width, y: point.y * raster.height }));
+    const color = parseColor(annotation.color);
+
+    if (annotation.kind === 'BLUR') {
+      blurRegion(raster, boxOf(points[0], points[1]));
+    } else if (annotation.kind === 'CIRCLE') {
+      drawEllipse(raster, boxOf(points[0], points[1]), thickness, color);
+    } else if (annotation.kind === 'ARROW') {
+      drawArrow(raster, points[0], points[1], thickness, color);
+    } else {
+      drawText(raster, annotation.text ?? '', points[0], textScale, color);
+    }
+  }
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let index = 0; index < 256; index += 1) {
+    let value = index;
+    for (let bit = 0; bit < 8; bit += 1) {
+      value = value & 1 ? 0xedb88320 ^ (value >>> 1) : value >>> 1;
+    }
+    table[index] = value >>> 0;
+  }
+  return table;
+})();
+
+function crc32(bytes: Uint8Array) {
+  let crc = 0xffffffff;
+  for (let index = 0; index < bytes.length; index += 1) {
+    crc = CRC_TABLE[(crc ^ bytes[index]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function writeUint32(target: Uint8Array, offset: number, value: number) {
+  target[offset] = (value >>> 24) & 0xff;
+  target[offset + 1] = (value >>> 16) & 0xff;
+  target[offset + 2] = (value >>> 8) & 0xff;
+  target[offset + 3] = value & 0xff;
+}
+
+function pngChunk(type: string, data: Uint8Array) {
+  const chunk = new Uint8Array(12 + data.length);
+  writeUint32(chunk, 0, data.length);
+  for (let index = 0; index < 4; index += 1) {
+    chunk[4 + index] = type.charCodeAt(index);
+  }
+  chunk.set(data, 8);
+  writeUint32(chunk, 8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+}
+
+/** Encodes an RGB raster as an 8-bit truecolor PNG (no row filtering: the file is only an intermediate). */
+export function encodePngRgb(raster: RgbRaster) {
+  const stride = raster.width * 3;
+  const rows = new Uint8Array((stride + 1) * raster.height);
+  for (let y = 0; y < raster.height; y += 1) {
+    rows.set(raster.data.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1);
+  }
+
+  const header = new Uint8Array(13);
+  writeUint32(header, 0, raster.width);
+  writeUint32(header, 4, raster.height);
+  header[8] = 8;
+  header[9] = 2;
+
+  const parts = [
+    new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', deflate(rows)),
+    pngChunk('IEND', new Uint8Array(0))
+  ];
+
+  const output = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    output.set(part, offset);
+    offset += part.length;
+  }
+
+  return output;
+}
@@ -0,0 +1,274 @@
+import * as ImageManipulator from 'expo-image-manipulator';
+import { inflate } from 'pako';
+import { GrayRaster, RasterCrop, RgbRaster } from './types';
+
+// Small grayscale rasters for on-device image comparison: the native manipulator crops/downscales
+// to a PNG, which is decoded here (no native pixel access is available in the app).
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+const BASE64_LOOKUP = (() => {
+  const table = new Int16Array(128).fill(-1);
+  for (let index = 0; index < BASE64_ALPHABET.length; index += 1) {
+    table[BASE64_ALPHABET.charCodeAt(index)] = index;
+  }
+  return table;
+})();
+
+export function base64ToBytes(base64: string) {
+  const clean = base64.replace(/[^A-Za-z0-9+/]/g, '');
+  const bytes = new Uint8Array(Math.floor((clean.length * 3) / 4));
+
+  let buffer = 0;
+  let bits = 0;
+  let offset = 0;
+
+  for (let index = 0; index < clean.length; index += 1) {
+    buffer = (buffer << 6) | BASE64_LOOKUP[clean.charCodeAt(index)];
+    bits += 6;
+
+    if (bits >= 8) {
+      bits -= 8;
+      bytes[offset] = (buffer >> bits) & 0xff;
+      offset += 1;
+    }
+  }
+
+  return bytes.subarray(0, offset);
+}
+
+export function bytesToBase64(bytes: Uint8Array) {
+  let output = '';
+
+  for (let index = 0; index < bytes.length; index += 3) {
+    const chunk = (bytes[index] << 16) | ((bytes[index + 1] ?? 0) << 8) | (bytes[index + 2] ?? 0);
+    output += BASE64_ALPHABET[(chunk >> 18) & 63] + BASE64_ALPHABET[(chunk >> 12) & 63];
+    output += index + 1 < bytes.length ? BASE64_ALPHABET[(chunk >> 6) & 63] : '=';
+    output += index + 2 < bytes.length ? BASE64_ALPHABET[chunk & 63] : '=';
+  }
+
+  return output;
+}
+
+function readUint32(bytes: Uint8Array, offset: number) {
+  return ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+}
+
+function channelsForColorType(colorType: number) {
+  if (colorType === 0) return 1;
+  if (colorType === 2) return 3;
+  if (colorType === 4) return 2;
+  if (colorType === 6) return 4;
+  throw new Error(`PNG non supporté (type de couleur ${colorType}).`);
+}
+
+function paeth(left: number, up: number, upLeft: number) {
+  const estimate = left + up - upLeft;
+  const toLeft = Math.abs(estimate - left);
+  const toUp = Math.abs(estimate - up);
+  const toUpLeft = Math.abs(estimate - upLeft);
+
+  if (toLeft <= toUp && toLeft <= toUpLeft) return left;
+  if (toUp <= toUpLeft) return up;
+  return upLeft;
+}
+
+function unfilter(data: Uint8Array, width: number, height: number, channels: number) {
+  const stride = width * channels;
+  const pixels = new Uint8Array(stride * height);
+
+  for (let row = 0; row < height; row += 1) {
+    const filter = data[row * (stride + 1)];
+    const source = row * (stride + 1) + 1;
+    const target = row * stride;
+
+    for (let column = 0; column < stride; column += 1) {
+      const raw = data[source + column];
+      const left = column >= channels ? pixels[target + column - channels] : 0;
+      const up = row > 0 ? pixels[target - stride + column] : 0;
+      const upLeft = row > 0 && column >= channels ? pixels[target - stride + column - channels] : 0;
+
+      let value = raw;
+      if (filter === 1) value = raw + left;
+      else if (filter === 2) value = raw + up;
+      else if (filter === 3) value = raw + ((left + up) >> 1);
+      else if (filter === 4) value = raw + paeth(left, up, upLeft);
+
+      pixels[target + column] = value & 0xff;
+    }
+  }
+
+  return pixels;
+}
+
+function decodePng(bytes: Uint8Array) {
+  if (PNG_SIGNATURE.some((value, index) => bytes[index] !== value)) {
+    throw new Error('Fichier PNG invalide.');
+  }
+
+  let offset = PNG_SIGNATURE.length;
+  let width = 0;
+  let height = 0;
+  let colorType = 0;
+  const idat: Uint8Array[] = [];
+
+  while (offset + 8 <= bytes.length) {
+    const length = readUint32(bytes, offset);
+    const type = String.fromCharCode(bytes[offset + 4], bytes[offset + 5], bytes[offset + 6], bytes[offset + 7]);
+    const chunk = bytes.subarray(offset + 8, offset + 8 + length);
+    offset += 12 + length;
+
+    if (type === 'IHDR') {
+      width = readUint32(chunk, 0);
+      height = readUint32(chunk, 4);
+      colorType = chunk[9];
+
+      if (chunk[8] !== 8 || chunk[12] !== 0) {
+        throw new Error('PNG non supporté (profondeur 8 bits non entrelacée attendue).');
+      }
+    } else if (type === 'IDAT') {
+      idat.push(chunk);
+    } else if (type === 'IEND') {
+      break;
+    }
+  }
+
+  if (width <= 0 || height <= 0 || idat.length === 0) {
+    throw new Error('Fichier PNG incomplet.');
+  }
+
+  const compressed = new Uint8Array(idat.reduce((total, chunk) => total + chunk.length, 0));
+  let cursor = 0;
+  for (const chunk of idat) {
+    compressed.set(chunk, cursor);
+    cursor += chunk.length;
+  }
+
+  const channels = channelsForColorType(colorType);
+  return { width, height, channels, pixels: unfilter(inflate(compressed), width, height, channels) };
+}
+
+function alphaAt(pixels: Uint8Array, base: number, channels: number) {
+  if (channels === 2) return pixels[base + 1];
+  if (channels === 4) return pixels[base + 3];
+  return 255;
+}
+
+/** Decodes an 8-bit, non-interlaced PNG to luma; transparent pixels are composited on white. */
+export function decodePngToGray(bytes: Uint8Array): GrayRaster {
+  const { width, height, channels, pixels } = decodePng(bytes);
+  const data = new Uint8Array(width * height);
+
+  for (let index = 0; index < width * height; index += 1) {
+    const base = index * channels;
+    const luma =
+      channels >= 3 ? (pixels[base] * 299 + pixels[base + 1] * 587 + pixels[base + 2] * 114) / 1000 : pixels[base];
+    const alpha = alphaAt(pixels, base, channels);
+
+    data[index] = Math.round((luma * alpha + 255 * (255 - alpha)) / 255);
+  }
+
+  return { width, height, data };
+}
+
+/** Same as `decodePngToGray`, keeping the colors (3 bytes per pixel). */
+export function decodePngToRgb(bytes: Uint8Array): RgbRaster {
+  const { width, height, channels, pixels } = decodePng(bytes);
+  const data = new Uint8Array(width * height * 3);
+
+  for (let index = 0; index < width * height; index += 1) {
+    const base = index * channels;
+    const alpha = alphaAt(pixels, base, channels);
+
+    for (let channel = 0; channel < 3; channel += 1) {
+      const value = channels >= 3 ? pixels[base + channel] : pixels[base];
+      data[index * 3 + channel] = Math.round((value * alpha + 255 * (255 - alpha)) / 255);
+    }
+  }
+
+  return { width, height, data };
+}
+
+/**
+ * Grayscale raster of an image (or of a normalized region of it), downscaled to `size`.
+ * `sourceWidth` / `sourceHeight` are the pixel dimensions of `uri` (needed to crop).
+ */
+export async function readGrayRaster(
+  uri: string,
+  options: { sourceWidth: number; sourceHeight: number; size: { width: number; height: number }; crop?: RasterCrop }
+): Promise<GrayRaster> {
+  const actions: ImageManipulator.Action[] = [];
+
+  if (options.crop) {
+    const left = Math.max(0, Math.min(1, options.crop.x));
+    const top = Math.max(0, Math.min(1, options.crop.y));
+    const right = Math.max(left, Math.min(1, options.crop.x + options.crop.width));
+    const bottom = Math.max(top, Math.min(1, options.crop.y + options.crop.height));
+
+    const originX = Math.floor(left * options.sourceWidth);
+    const originY = Math.floor(top * options.sourceHeight);
+
+    actions.push({
+      crop: {
+        originX,
+        originY,
+        width: Math.max(1, Math.min(options.sourceWidth - originX, Math.round((right - left) * options.sourceWidth))),
+        height: Math.max(1, Math.min(options.sourceHeight - originY, Math.round((bottom - top) * options.sourceHeight)))
+      }
+    });
+  }
+
+  actions.push({ resize: { width: options.size.width, height: options.size.height } });
+
+  const result = await ImageManipulator.manipulateAsync(uri, actions, {
+    format: ImageManipulator.SaveFormat.PNG,
+    base64: true
+  });
+
+  if (!result.base64) {
+    throw new Error('Lecture des pixels impossible.');
+  }
+
+  return decodePngToGray(base64ToBytes(result.base64));
+}
+
+/** Box-filter reduction of a grayscale raster (each target pixel averages its source block). */
+export function downscaleGray(raster: GrayRaster, width: number, height: number): GrayRaster {
+  const data = new Uint8Array(width * height);
+
+  for (let row = 0; row < height; row += 1) {
+    const top = Math.floor((row * raster.height) / height);
+    const bottom = Math.max(top + 1, Math.floor(((row + 1) * raster.height) / height));
+
+    for (let column = 0; column < width; column += 1) {
+      const left = Math.floor((column * raster.width) / width);
+      const right = Math.max(left + 1, Math.floor(((column + 1) * raster.width) / width));
+
+      let total = 0;
+      for (let y = top; y < bottom; y += 1) {
+        for (let x = left; x < right; x += 1) {
+          total += raster.data[y * raster.width + x];
+        }
+      }
+
+      data[row * width + column] = Math.round(total / ((bottom - top) * (right - left)));
+    }
+  }
+
+  return { width, height, data };
+}
+
+/** Mean absolute luma difference between two rasters of the same size, from 0 (identical) to 1. */
+export function rasterDifference(left: GrayRaster, right: GrayRaster) {
+  if (left.width !== right.width || left.height !== right.height) {
+    throw new Error('Rasters de tailles différentes.');
+  }
+
+  let total = 0;
+  for (let index = 0; index < left.data.length; index += 1) {
+    total += Math.abs(left.data[index] - right.data[index]);
+  }
+
+  return left.data.length > 0 ? total / (left.data.length * 255) : 0;
+}
@@ -1,3 +1,7 @@
 export * from './types';
-export { media } from './mediaPipeline';
+export { bytesToBase64, decodePngToGray, downscaleGray, rasterDifference, readGrayRaster } from './imageRaster';
+export { encodePngRgb } from './imageAnnotations';
+export { formatMediaDuration } from './mediaPoster';
+export { media, mediaKindOf } from './mediaPipeline';
 export { mediaUploadWorker } from './uploadWorker';
+export { mediaUploadPolicy } from './uploadPolicy';
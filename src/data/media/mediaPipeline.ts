@@ -1,3 +1,4 @@
+import * as Crypto from 'expo-crypto';
 import * as DocumentPicker from 'expo-document-picker';
 import * as FileSystem from 'expo-file-system/legacy';
 import * as ImageManipulator from 'expo-image-manipulator';
@@ -6,16 +7,65 @@ import * as SQLite from 'expo-sqlite';
 import { Image } from 'react-native';
 import { securityPolicies } from '../../core/security/policies';
 import { geo } from '../geo-context';
+import { offlineDB } from '../offline/outbox';
 import { quotas } from '../quotas-limits';
-import { MediaAsset, MediaContext, MediaListFilters, MediaMime, MediaProcessConfig } from './types';
+import { drawAnnotations, encodePngRgb } from './imageAnnotations';
+import { base64ToBytes, bytesToBase64, decodePngToRgb } from './imageRaster';
+import { probeMedia } from './mediaProbe';
+import { renderMediaPoster } from './mediaPoster';
+import { computePhotoSignature, hammingDistance } from './perceptualHash';
+import {
+  MediaAnnotation,
+  MediaAnnotationInput,
+  MediaAnnotationKind,
+  MediaAnnotationLayer,
+  MediaAsset,
+  MediaContext,
+  MediaExportFile,
+  MediaKind,
+  MediaListFilters,
+  MediaMime,
+  MediaProcessConfig,
+  MediaRecording,
+  MediaSimilarGroup,
+  MediaSimilarityOptions
+} from './types';
 
 const DB_NAME = 'conformeo.db';
 const TABLE_NAME = 'media_assets';
+const ANNOTATIONS_TABLE = 'media_annotations';
+
+const ANNOTATION_KINDS: MediaAnnotationKind[] = ['ARROW', 'CIRCLE', 'TEXT', 'BLUR'];
+const DEFAULT_ANNOTATION_COLOR = '#E11D48';
+const MAX_ANNOTATIONS = 60;
+const MAX_ANNOTATION_TEXT = 140;
+
+const MEDIA_MIMES: MediaMime[] = [
+  'image/webp',
+  'image/jpeg',
+  'application/pdf',
+  'video/mp4',
+  'video/quicktime',
+  'audio/mp4',
+  'audio/mpeg',
+  'audio/wav',
+  'audio/x-caf'
+];
+
+const WAVEFORM_BARS = 64;
+
+// Same spot shot again and again: close hashes, a few minutes apart. Progress photos of the same spot
+// taken on other days must not be grouped, hence the time window.
+const SIMILAR_MAX_DISTANCE = 10;
+const SIMILAR_WINDOW_MS = 30 * 60 * 1000;
+const SIGNATURE_BACKFILL_LIMIT = 40;
 
 const MEDIA_CONFIG: MediaProcessConfig = {
   maxEdgePx: 1920,
   thumbMaxEdgePx: 320,
   maxImportSizeBytes: 25 * 1024 * 1024,
+  maxVideoImportSizeBytes: 100 * 1024 * 1024,
+  chunkedUploadMinBytes: 6 * 1024 * 1024,
   jpegQuality: 0.78,
   webpQuality: 0.74,
   maxPendingUploads: 500,
@@ -35,6 +85,7 @@ type MediaRow = {
   mime: MediaMime;
   width: number | null;
   height: number | null;
+  duration_ms: number | null;
   size_bytes: number;
   watermark_applied: number;
   watermark_text: string | null;
@@ -44,6 +95,25 @@ type MediaRow = {
   created_at: string;
   retry_count: number;
   last_error: string | null;
+  upload_url: string | null;
+  upload_offset: number | null;
+  phash: string | null;
+  sharpness: number | null;
+  duplicate_of: string | null;
+};
+
+type AnnotationRow = {
+  asset_id: string;
+  org_id: string;
+  project_id: string | null;
+  annotations_json: string;
+  source_hash: string;
+  revision: number;
+  rendered_path: string | null;
+  rendered_thumb_path: string | null;
+  rendered_revision: number | null;
+  updated_by: string | null;
+  updated_at: string;
 };
 
 type ImportedFile = {
@@ -53,6 +123,7 @@ type ImportedFile = {
   fileSize?: number | null;
   width?: number;
   height?: number;
+  durationMs?: number | null;
 };
 
 let dbPromise: Promise<SQLite.SQLiteDatabase> | null = null;
@@ -62,6 +133,8 @@ const processingQueue: string[] = [];
 const processingSet = new Set<string>();
 let processWorkerRunning = false;
 
+let contextUserId: string | null = null;
+
 function requireDocumentDirectory() {
   const directory = FileSystem.documentDirectory;
   if (!directory) {
@@ -91,6 +164,10 @@ function exportsDir() {
   return `${mediaRootDir()}exports/`;
 }
 
+function annotatedDir() {
+  return `${mediaRootDir()}annotated/`;
+}
+
 function nowIso() {
   return new Date().toISOString();
 }
@@ -115,11 +192,36 @@ function optionalString(value: string | null | undefined) {
 
 function normalizeMime(input: string | null | undefined, uri: string): MediaMime {
   const value = input?.toLowerCase() ?? '';
+  const path = uri.toLowerCase().split('?')[0] ?? '';
 
-  if (value.includes('pdf') || uri.toLowerCase().endsWith('.pdf')) {
+  if (value.includes('pdf') || path.endsWith('.pdf')) {
     return 'application/pdf';
   }
 
+  if (value === 'video/quicktime' || path.endsWith('.mov')) {
+    return 'video/quicktime';
+  }
+
+  if (value.startsWith('video/') || path.endsWith('.mp4')) {
+    return 'video/mp4';
+  }
+
+  if (value.includes('wav') || path.endsWith('.wav')) {
+    return 'audio/wav';
+  }
+
+  if (value.includes('caf') || path.endsWith('.caf')) {
+    return 'audio/x-caf';
+  }
+
+  if (value === 'audio/mpeg' || value === 'audio/mp3' || path.endsWith('.mp3')) {
+    return 'audio/mpeg';
+  }
+
+  if (value.startsWith('audio/') || path.endsWith('.m4a') || path.endsWith('.aac')) {
+    return 'audio/mp4';
+  }
+
   if (value.includes('webp') || uri.toLowerCase().endsWith('.webp')) {
     return 'image/webp';
   }
@@ -130,6 +232,12 @@ function normalizeMime(input: string | null | undefined, uri: string): MediaMime
 function extensionForMime(mime: MediaMime) {
   if (mime === 'application/pdf') return 'pdf';
   if (mime === 'image/webp') return 'webp';
+  if (mime === 'video/mp4') return 'mp4';
+  if (mime === 'video/quicktime') return 'mov';
+  if (mime === 'audio/mp4') return 'm4a';
+  if (mime === 'audio/mpeg') return 'mp3';
+  if (mime === 'audio/wav') return 'wav';
+  if (mime === 'audio/x-caf') return 'caf';
   return 'jpg';
 }
 
@@ -137,6 +245,13 @@ function isImageMime(mime: MediaMime) {
   return mime === 'image/webp' || mime === 'image/jpeg';
 }
 
+export function mediaKindOf(mime: MediaMime): MediaKind {
+  if (isImageMime(mime)) return 'PHOTO';
+  if (mime.startsWith('video/')) return 'VIDEO';
+  if (mime.startsWith('audio/')) return 'AUDIO';
+  return 'DOCUMENT';
+}
+
 function buildWatermarkText(asset: Pick<MediaAsset, 'org_id' | 'project_id' | 'created_at'>) {
   const chantier = asset.project_id ?? 'chantier';
   const date = new Date(asset.created_at).toLocaleString('fr-FR');
@@ -157,6 +272,7 @@ function mapRow(row: MediaRow): MediaAsset {
     mime: row.mime,
     width: row.width ?? undefined,
     height: row.height ?? undefined,
+    duration_ms: row.duration_ms ?? undefined,
     size_bytes: row.size_bytes,
     watermark_applied: row.watermark_applied === 1,
     watermark_text: optionalString(row.watermark_text),
@@ -165,7 +281,12 @@ function mapRow(row: MediaRow): MediaAsset {
     remote_url: optionalString(row.remote_url),
     created_at: row.created_at,
     retry_count: row.retry_count,
-    last_error: optionalString(row.last_error)
+    last_error: optionalString(row.last_error),
+    upload_url: optionalString(row.upload_url),
+    upload_offset: row.upload_offset ?? undefined,
+    phash: optionalString(row.phash),
+    sharpness: row.sharpness ?? undefined,
+    duplicate_of: optionalString(row.duplicate_of)
   };
 }
 
@@ -178,7 +299,7 @@ async function getDb() {
 }
 
 async function ensureDirectories() {
-  const folders = [mediaRootDir(), originalsDir(), optimizedDir(), thumbsDir(), exportsDir()];
+  const folders = [mediaRootDir(), originalsDir(), optimizedDir(), thumbsDir(), exportsDir(), annotatedDir()];
 
   for (const folder of folders) {
     await FileSystem.makeDirectoryAsync(folder, { intermediates: true });
@@ -192,19 +313,15 @@ async function recoverInterruptedUploads() {
       UPDATE ${TABLE_NAME}
       SET upload_status = 'FAILED',
           last_error = COALESCE(last_error, 'Téléversement interrompu : reprise au prochain cycle.'),
-          retry_count = retry_count + 1
+          retry_count = retry_count + CASE WHEN upload_url IS NULL THEN 1 ELSE 0 END
       WHERE upload_status = 'UPLOADING'
     `
   );
 }
 
-async function setupSchema() {
-  const db = await getDb();
-
-  await db.execAsync(`
-    PRAGMA journal_mode = WAL;
-
-    CREATE TABLE IF NOT EXISTS ${TABLE_NAME} (
+function assetsTableSql(tableName: string) {
+  return `
+    CREATE TABLE IF NOT EXISTS ${tableName} (
       id TEXT PRIMARY KEY NOT NULL,
       org_id TEXT NOT NULL,
       project_id TEXT,
@@ -214,9 +331,10 @@ async function setupSchema() {
       local_original_path TEXT NOT NULL,
       local_path TEXT NOT NULL,
       local_thumb_path TEXT NOT NULL,
-      mime TEXT NOT NULL CHECK (mime IN ('image/webp', 'image/jpeg', 'application/pdf')),
+      mime TEXT NOT NULL CHECK (mime IN (${MEDIA_MIMES.map((mime) => `'${mime}'`).join(', ')})),
       width INTEGER,
       height INTEGER,
+      duration_ms INTEGER,
       size_bytes INTEGER NOT NULL,
       watermark_applied INTEGER NOT NULL DEFAULT 0,
       watermark_text TEXT,
@@ -225,9 +343,108 @@ async function setupSchema() {
       remote_url TEXT,
       created_at TEXT NOT NULL,
       retry_count INTEGER NOT NULL DEFAULT 0,
-      last_error TEXT
+      last_error TEXT,
+      upload_url TEXT,
+      upload_offset INTEGER,
+      phash TEXT,
+      sharpness REAL,
+      duplicate_of TEXT
     );
+  `;
+}
+
+/** Columns added after the video/audio rebuild. */
+const UPGRADE_COLUMNS: Array<[string, string]> = [
+  ['phash', 'TEXT'],
+  ['sharpness', 'REAL'],
+  ['duplicate_of', 'TEXT']
+];
+
+async function addMissingColumns(db: SQLite.SQLiteDatabase, tableName: string, columns: Array<[string, string]>) {
+  const existing = await db.getAllAsync<{ name: string }>(`PRAGMA table_info(${tableName})`);
+  const names = new Set(existing.map((column) => column.name));
+
+  for (const [name, definition] of columns) {
+    if (!names.has(name)) {
+      await db.execAsync(`ALTER TABLE ${tableName} ADD COLUMN ${name} ${definition};`);
+    }
+  }
+}
+
+/** Columns of the first schema, copied as-is when the table is rebuilt. */
+const LEGACY_COLUMNS = [
+  'id',
+  'org_id',
+  'project_id',
+  'task_id',
+  'plan_pin_id',
+  'tag',
+  'local_original_path',
+  'local_path',
+  'local_thumb_path',
+  'mime',
+  'width',
+  'height',
+  'size_bytes',
+  'watermark_applied',
+  'watermark_text',
+  'upload_status',
+  'remote_path',
+  'remote_url',
+  'created_at',
+  'retry_count',
+  'last_error'
+].join(', ');
+
+/**
+ * Tables created before video/audio support carry a CHECK on the three original mimes, which SQLite
+ * cannot alter: the table is rebuilt once with the current definition and the rows copied over.
+ */
+async function upgradeMimeConstraint(db: SQLite.SQLiteDatabase) {
+  const row = await db.getFirstAsync<{ sql: string | null }>(
+    `
+      SELECT sql
+      FROM sqlite_master
+      WHERE type = 'table'
+        AND name = ?
+    `,
+    TABLE_NAME
+  );
+
+  if (!row?.sql || row.sql.includes("'video/mp4'")) {
+    return;
+  }
+
+  const rebuiltTable = `${TABLE_NAME}_rebuild`;
+
+  await db.execAsync('BEGIN;');
+  try {
+    await db.execAsync(`
+      DROP TABLE IF EXISTS ${rebuiltTable};
+      ${assetsTableSql(rebuiltTable)}
+      INSERT INTO ${rebuiltTable} (${LEGACY_COLUMNS}) SELECT ${LEGACY_COLUMNS} FROM ${TABLE_NAME};
+      DROP TABLE ${TABLE_NAME};
+      ALTER TABLE ${rebuiltTable} RENAME TO ${TABLE_NAME};
+    `);
+    await db.execAsync('COMMIT;');
+  } catch (error) {
+    await db.execAsync('ROLLBACK;');
+    throw error;
+  }
+}
+
+async function setupSchema() {
+  const db = await getDb();
 
+  await db.execAsync(`
+    PRAGMA journal_mode = WAL;
+    ${assetsTableSql(TABLE_NAME)}
+  `);
+
+  await upgradeMimeConstraint(db);
+  await addMissingColumns(db, TABLE_NAME, UPGRADE_COLUMNS);
+
+  await db.execAsync(`
     CREATE INDEX IF NOT EXISTS idx_media_assets_org_created
       ON ${TABLE_NAME}(org_id, created_at DESC);
 
@@ -239,6 +456,23 @@ async function setupSchema() {
 
     CREATE INDEX IF NOT EXISTS idx_media_assets_upload_status
       ON ${TABLE_NAME}(upload_status, created_at ASC);
+
+    CREATE TABLE IF NOT EXISTS ${ANNOTATIONS_TABLE} (
+      asset_id TEXT PRIMARY KEY NOT NULL,
+      org_id TEXT NOT NULL,
+      project_id TEXT,
+      annotations_json TEXT NOT NULL,
+      source_hash TEXT NOT NULL,
+      revision INTEGER NOT NULL DEFAULT 1,
+      rendered_path TEXT,
+      rendered_thumb_path TEXT,
+      rendered_revision INTEGER,
+      updated_by TEXT,
+      updated_at TEXT NOT NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_media_annotations_project
+      ON ${ANNOTATIONS_TABLE}(project_id, updated_at DESC);
   `);
 }
 
@@ -286,11 +520,12 @@ async function saveAsset(asset: MediaAsset) {
       (
         id, org_id, project_id, task_id, plan_pin_id, tag,
         local_original_path, local_path, local_thumb_path,
-        mime, width, height, size_bytes, watermark_applied, watermark_text,
+        mime, width, height, duration_ms, size_bytes, watermark_applied, watermark_text,
         upload_status, remote_path, remote_url,
-        created_at, retry_count, last_error
+        created_at, retry_count, last_error, upload_url, upload_offset,
+        phash, sharpness, duplicate_of
       )
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `,
     asset.id,
     asset.org_id,
@@ -304,6 +539,7 @@ async function saveAsset(asset: MediaAsset) {
     asset.mime,
     asset.width ?? null,
     asset.height ?? null,
+    asset.duration_ms ?? null,
     asset.size_bytes,
     asset.watermark_applied ? 1 : 0,
     asset.watermark_text ?? null,
@@ -312,7 +548,12 @@ async function saveAsset(asset: MediaAsset) {
     asset.remote_url ?? null,
     asset.created_at,
     asset.retry_count,
-    asset.last_error ?? null
+    asset.last_error ?? null,
+    asset.upload_url ?? null,
+    asset.upload_offset ?? null,
+    asset.phash ?? null,
+    asset.sharpness ?? null,
+    asset.duplicate_of ?? null
   );
 
   return asset;
@@ -336,6 +577,30 @@ async function updateAsset(id: string, patch: Partial<MediaAsset>) {
   return saveAsset(next);
 }
 
+// Only shared metadata goes through the outbox: `local_*` paths and upload sessions stay on the capturing device.
+async function enqueueMetadataOperation(asset: MediaAsset) {
+  const {
+    local_original_path: _original,
+    local_path: _path,
+    local_thumb_path: _thumb,
+    upload_url: _uploadUrl,
+    upload_offset: _uploadOffset,
+    ...shared
+  } = asset;
+
+  await offlineDB.enqueueOperation({
+    entity: 'media_assets',
+    entity_id: asset.id,
+    type: 'UPDATE',
+    payload: {
+      ...shared,
+      org_id: asset.org_id,
+      orgId: asset.org_id,
+      project_id: asset.project_id
+    }
+  });
+}
+
 async function getFileSize(uri: string) {
   const info = await FileSystem.getInfoAsync(uri);
   if (!info.exists || info.isDirectory) {
@@ -394,6 +659,7 @@ async function createLocalAssetFromImportedFile(context: MediaContext, file: Imp
   await ensureSetup();
 
   const mime = normalizeMime(file.mimeType, file.uri);
+  const kind = mediaKindOf(mime);
   const id = createUuid();
   const extension = extensionForMime(mime);
   const targetOriginalPath = `${originalsDir()}${id}.${extension}`;
@@ -401,21 +667,27 @@ async function createLocalAssetFromImportedFile(context: MediaContext, file: Imp
   const sourceSize =
     typeof file.fileSize === 'number' && file.fileSize > 0 ? file.fileSize : await getFileSize(file.uri);
 
-  if (sourceSize > MEDIA_CONFIG.maxImportSizeBytes) {
+  const maxSizeBytes = kind === 'VIDEO' ? MEDIA_CONFIG.maxVideoImportSizeBytes : MEDIA_CONFIG.maxImportSizeBytes;
+  if (sourceSize > maxSizeBytes) {
     throw new Error(
       `Fichier trop lourd (${Math.round(sourceSize / 1024 / 1024)} MB). Limite ${Math.round(
-        MEDIA_CONFIG.maxImportSizeBytes / 1024 / 1024
+        maxSizeBytes / 1024 / 1024
       )} MB.`
     );
   }
 
+  let durationMs = typeof file.durationMs === 'number' && file.durationMs > 0 ? Math.round(file.durationMs) : undefined;
+  if (durationMs === undefined && (kind === 'VIDEO' || kind === 'AUDIO')) {
+    durationMs = (await probeMedia(file.uri, mime)).duration_ms;
+  }
+
   const pendingCount = await media.countPendingUploads();
   if (pendingCount >= MEDIA_CONFIG.maxPendingUploads) {
     throw new Error("Limite file d'upload atteinte (" + MEDIA_CONFIG.maxPendingUploads + " medias en attente).");
   }
 
   const sizeMb = sourceSize / 1024 / 1024;
-  const uploadBlockReason = await quotas.explainUploadBlock(sizeMb);
+  const uploadBlockReason = await quotas.explainUploadBlock(sizeMb, { kind, duration_ms: durationMs });
   if (uploadBlockReason) {
     throw new Error(uploadBlockReason);
   }
@@ -438,6 +710,7 @@ async function createLocalAssetFromImportedFile(context: MediaContext, file: Imp
     mime,
     width: file.width,
     height: file.height,
+    duration_ms: durationMs,
     size_bytes: finalSize,
     watermark_applied: false,
     upload_status: 'PENDING',
@@ -455,6 +728,351 @@ async function createLocalAssetFromImportedFile(context: MediaContext, file: Imp
   return asset;
 }
 
+function mapAnnotationRow(row: AnnotationRow): MediaAnnotationLayer {
+  let annotations: MediaAnnotation[] = [];
+  try {
+    const parsed = JSON.parse(row.annotations_json) as unknown;
+    annotations = Array.isArray(parsed) ? (parsed as MediaAnnotation[]) : [];
+  } catch {
+    annotations = [];
+  }
+
+  return {
+    asset_id: row.asset_id,
+    org_id: row.org_id,
+    project_id: optionalString(row.project_id),
+    annotations,
+    source_hash: row.source_hash,
+    revision: row.revision,
+    rendered_path: optionalString(row.rendered_path),
+    rendered_thumb_path: optionalString(row.rendered_thumb_path),
+    rendered_revision: row.rendered_revision ?? undefined,
+    updated_by: optionalString(row.updated_by),
+    updated_at: row.updated_at
+  };
+}
+
+async function getAnnotationLayer(assetId: string) {
+  await ensureSetup();
+  const db = await getDb();
+  const row = await db.getFirstAsync<AnnotationRow>(
+    `
+      SELECT *
+      FROM ${ANNOTATIONS_TABLE}
+      WHERE asset_id = ?
+      LIMIT 1
+    `,
+    assetId
+  );
+
+  return row ? mapAnnotationRow(row) : null;
+}
+
+async function saveAnnotationLayer(layer: MediaAnnotationLayer) {
+  await ensureSetup();
+
+  await runQuery(
+    `
+      INSERT OR REPLACE INTO ${ANNOTATIONS_TABLE}
+      (
+        asset_id, org_id, project_id, annotations_json, source_hash, revision,
+        rendered_path, rendered_thumb_path, rendered_revision, updated_by, updated_at
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `,
+    layer.asset_id,
+    layer.org_id,
+    layer.project_id ?? null,
+    JSON.stringify(layer.annotations),
+    layer.source_hash,
+    layer.revision,
+    layer.rendered_path ?? null,
+    layer.rendered_thumb_path ?? null,
+    layer.rendered_revision ?? null,
+    layer.updated_by ?? null,
+    layer.updated_at
+  );
+
+  return layer;
+}
+
+// Vector data and the original hash are shared; rendered files stay on the device (re-rendered on demand).
+async function enqueueAnnotationOperation(layer: MediaAnnotationLayer, type: 'CREATE' | 'UPDATE' | 'DELETE') {
+  const {
+    rendered_path: _path,
+    rendered_thumb_path: _thumb,
+    rendered_revision: _renderedRevision,
+    ...shared
+  } = layer;
+
+  await offlineDB.enqueueOperation({
+    entity: 'media_annotations',
+    entity_id: layer.asset_id,
+    type,
+    payload: {
+      ...shared,
+      org_id: layer.org_id,
+      orgId: layer.org_id,
+      project_id: layer.project_id
+    }
+  });
+}
+
+async function computeOriginalHash(asset: MediaAsset) {
+  const fileData = await FileSystem.readAsStringAsync(asset.local_original_path, {
+    encoding: FileSystem.EncodingType.Base64
+  });
+
+  return Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, fileData);
+}
+
+function clampUnit(value: number) {
+  return Math.max(0, Math.min(1, value));
+}
+
+function normalizeAnnotations(input: MediaAnnotationInput[]): MediaAnnotation[] {
+  if (input.length > MAX_ANNOTATIONS) {
+    throw new Error(`Trop d'annotations (max ${MAX_ANNOTATIONS} par photo).`);
+  }
+
+  return input.map((annotation) => {
+    if (!ANNOTATION_KINDS.includes(annotation.kind)) {
+      throw new Error(`Type d'annotation invalide: ${String(annotation.kind)}`);
+    }
+
+    const expected = annotation.kind === 'TEXT' ? 1 : 2;
+    const points = (annotation.points ?? []).slice(0, expected).map((point) => {
+      if (!Number.isFinite(point?.x) || !Number.isFinite(point?.y)) {
+        throw new Error("Coordonnees d'annotation invalides.");
+      }
+
+      return { x: clampUnit(point.x), y: clampUnit(point.y) };
+    });
+
+    if (points.length < expected) {
+      throw new Error(`Annotation ${annotation.kind}: ${expected} point(s) requis.`);
+    }
+
+    const text = annotation.text?.trim();
+    if (annotation.kind === 'TEXT' && !text) {
+      throw new Error('Annotation texte vide.');
+    }
+    if (text && text.length > MAX_ANNOTATION_TEXT) {
+      throw new Error(`Texte d'annotation trop long (max ${MAX_ANNOTATION_TEXT} caracteres).`);
+    }
+
+    const color = /^#[0-9a-f]{6}$/i.test(annotation.color ?? '') ? (annotation.color as string) : DEFAULT_ANNOTATION_COLOR;
+
+    return {
+      id: optionalString(annotation.id?.trim()) ?? createUuid(),
+      kind: annotation.kind,
+      points,
+      text: annotation.kind === 'TEXT' ? text : undefined,
+      color
+    };
+  });
+}
+
+async function deleteRenderedFiles(layer: MediaAnnotationLayer) {
+  for (const path of [layer.rendered_path, layer.rendered_thumb_path]) {
+    if (path) {
+      await FileSystem.deleteAsync(path, { idempotent: true });
+    }
+  }
+}
+
+/** Burns the markup into a derived copy of the optimized image (+ thumbnail); the original is only read. */
+async function renderAnnotationFiles(asset: MediaAsset, layer: MediaAnnotationLayer) {
+  const source = await ImageManipulator.manipulateAsync(asset.local_path, [], {
+    format: ImageManipulator.SaveFormat.PNG,
+    base64: true
+  });
+
+  if (!source.base64) {
+    throw new Error('Lecture de la photo impossible.');
+  }
+
+  const raster = decodePngToRgb(base64ToBytes(source.base64));
+  drawAnnotations(raster, layer.annotations);
+
+  const pngPath = `${annotatedDir()}${asset.id}_r${layer.revision}.png`;
+  await FileSystem.writeAsStringAsync(pngPath, bytesToBase64(encodePngRgb(raster)), {
+    encoding: FileSystem.EncodingType.Base64
+  });
+
+  try {
+    const format = asset.mime === 'image/webp' ? ImageManipulator.SaveFormat.WEBP : ImageManipulator.SaveFormat.JPEG;
+    const quality = asset.mime === 'image/webp' ? MEDIA_CONFIG.webpQuality : MEDIA_CONFIG.jpegQuality;
+    const extension = extensionForMime(asset.mime);
+
+    const rendered = await ImageManipulator.manipulateAsync(pngPath, [], { compress: quality, format });
+    const renderedPath = await safeMoveOrCopy(rendered.uri, `${annotatedDir()}${asset.id}_r${layer.revision}.${extension}`);
+
+    const thumbTarget = computeResizedDimensions(rendered.width, rendered.height, MEDIA_CONFIG.thumbMaxEdgePx);
+    const thumb = await ImageManipulator.manipulateAsync(
+      renderedPath,
+      [{ resize: { width: thumbTarget.width, height: thumbTarget.height } }],
+      { compress: 0.65, format }
+    );
+    const thumbPath = await safeMoveOrCopy(thumb.uri, `${annotatedDir()}${asset.id}_r${layer.revision}_thumb.${extension}`);
+
+    return { renderedPath, thumbPath };
+  } finally {
+    await FileSystem.deleteAsync(pngPath, { idempotent: true });
+  }
+}
+
+/** Poster thumbnail of a video/audio proof. Best effort: a missing poster never blocks the proof. */
+async function renderPosterThumb(asset: MediaAsset, kind: 'VIDEO' | 'AUDIO') {
+  const probe =
+    kind === 'AUDIO' || asset.duration_ms === undefined
+      ? await probeMedia(asset.local_original_path, asset.mime, { bars: kind === 'AUDIO' ? WAVEFORM_BARS : undefined })
+      : {};
+  const durationMs = asset.duration_ms ?? probe.duration_ms;
+
+  const pngPath = `${thumbsDir()}${asset.id}_poster.png`;
+  try {
+    await FileSystem.writeAsStringAsync(
+      pngPath,
+      bytesToBase64(renderMediaPoster({ kind, duration_ms: durationMs, peaks: probe.peaks })),
+      { encoding: FileSystem.EncodingType.Base64 }
+    );
+
+    const thumb = await ImageManipulator.manipulateAsync(pngPath, [], {
+      compress: 0.7,
+      format: ImageManipulator.SaveFormat.JPEG
+    });
+
+    return { thumbPath: await safeMoveOrCopy(thumb.uri, `${thumbsDir()}${asset.id}.jpg`), durationMs };
+  } catch (error) {
+    if (__DEV__) {
+      console.warn('[media-pipeline] poster failed:', error instanceof Error ? error.message : error);
+    }
+    return { thumbPath: asset.local_thumb_path, durationMs };
+  } finally {
+    await FileSystem.deleteAsync(pngPath, { idempotent: true });
+  }
+}
+
+/** Best effort: a photo without signature is simply never grouped. */
+async function readPhotoSignature(uri: string, width: number, height: number) {
+  try {
+    return await computePhotoSignature(uri, width, height);
+  } catch {
+    return null;
+  }
+}
+
+/** Hashes processed photos of the project that predate perceptual hashing (bounded per call). */
+async function backfillSignatures(projectId: string) {
+  const db = await getDb();
+  const rows = await db.getAllAsync<MediaRow>(
+    `
+      SELECT *
+      FROM ${TABLE_NAME}
+      WHERE project_id = ?
+        AND phash IS NULL
+        AND watermark_applied = 1
+        AND mime IN ('image/webp', 'image/jpeg')
+      ORDER BY created_at DESC
+      LIMIT ?
+    `,
+    projectId,
+    SIGNATURE_BACKFILL_LIMIT
+  );
+
+  for (const asset of rows.map(mapRow)) {
+    const dimensions =
+      typeof asset.width === 'number' && typeof asset.height === 'number'
+        ? computeResizedDimensions(asset.width, asset.height, MEDIA_CONFIG.thumbMaxEdgePx)
+        : await getImageDimensions(asset.local_thumb_path).catch(() => null);
+
+    if (!dimensions) {
+      continue;
+    }
+
+    const signature = await readPhotoSignature(asset.local_thumb_path, dimensions.width, dimensions.height);
+    if (signature) {
+      await updateAsset(asset.id, { phash: signature.phash, sharpness: signature.sharpness });
+    }
+  }
+}
+
+/** Proof target of a photo: shots attached to different tasks / pins are never duplicates of each other. */
+function similarityBucket(asset: MediaAsset) {
+  return `${asset.task_id ?? ''}|${asset.plan_pin_id ?? ''}`;
+}
+
+/**
+ * Union-find over the photos: two shots of the same bucket (task / pin / unlinked) join when their hashes are
+ * close and they were taken within the window, or when one was already marked as a duplicate of the other
+ * (a choice survives threshold changes). Each group keeps its best shot, so excluding the other members never
+ * removes the last photo of a task or pin.
+ */
+function groupSimilarPhotos(assets: MediaAsset[], options: MediaSimilarityOptions): MediaSimilarGroup[] {
+  const maxDistance = options.maxDistance ?? SIMILAR_MAX_DISTANCE;
+  const windowMs = options.windowMs ?? SIMILAR_WINDOW_MS;
+
+  const photos = assets
+    .filter((asset) => isImageMime(asset.mime) && asset.phash)
+    .sort((left, right) => left.created_at.localeCompare(right.created_at));
+  const times = photos.map((asset) => Date.parse(asset.created_at));
+  const buckets = photos.map(similarityBucket);
+  const indexById = new Map(photos.map((asset, index) => [asset.id, index]));
+  const parents = photos.map((_, index) => index);
+
+  const find = (index: number): number => {
+    while (parents[index] !== index) {
+      parents[index] = parents[parents[index]];
+      index = parents[index];
+    }
+    return index;
+  };
+  const union = (left: number, right: number) => {
+    parents[find(right)] = find(left);
+  };
+
+  for (let left = 0; left < photos.length; left += 1) {
+    for (let right = left + 1; right < photos.length && times[right] - times[left] <= windowMs; right += 1) {
+      if (buckets[left] === buckets[right] && hammingDistance(photos[left].phash!, photos[right].phash!) <= maxDistance) {
+        union(left, right);
+      }
+    }
+
+    const target = photos[left].duplicate_of ? indexById.get(photos[left].duplicate_of!) : undefined;
+    if (target !== undefined && buckets[target] === buckets[left]) {
+      union(target, left);
+    }
+  }
+
+  const members = new Map<number, MediaAsset[]>();
+  photos.forEach((asset, index) => {
+    const root = find(index);
+    members.set(root, [...(members.get(root) ?? []), asset]);
+  });
+
+  const groups: MediaSimilarGroup[] = [];
+  for (const group of members.values()) {
+    if (group.length < 2) {
+      continue;
+    }
+
+    const chosen = group.find(
+      (asset) => !asset.duplicate_of && group.some((other) => other.duplicate_of === asset.id)
+    );
+    const sharpest = group.reduce((best, asset) => ((asset.sharpness ?? 0) > (best.sharpness ?? 0) ? asset : best));
+
+    groups.push({
+      id: group[0].id,
+      asset_ids: group.map((asset) => asset.id),
+      best_asset_id: chosen ? chosen.id : sharpest.id,
+      best_chosen: Boolean(chosen)
+    });
+  }
+
+  return groups;
+}
+
 function scheduleBackgroundProcess(assetId: string) {
   if (processingSet.has(assetId)) {
     return;
@@ -557,8 +1175,9 @@ export const media = {
   config: MEDIA_CONFIG,
 
   // Optional context for UI helpers (does not affect capture/import which always require explicit org_id).
-  setContext(_context: { org_id?: string; user_id?: string }) {
-    // Intentionally no-op for now. Keep API surface stable for future audit fields (created_by, etc.).
+  // `user_id` is recorded as the author of annotation changes.
+  setContext(context: { org_id?: string; user_id?: string }) {
+    contextUserId = optionalString(context.user_id?.trim()) ?? null;
   },
 
   async capturePhoto(context: MediaContext) {
@@ -593,11 +1212,60 @@ export const media = {
     return asset;
   },
 
+  async captureVideo(context: MediaContext) {
+    await ensureSetup();
+
+    const permission = await ImagePicker.requestCameraPermissionsAsync();
+    if (!permission.granted) {
+      throw new Error('Permission camera refusee.');
+    }
+
+    const capture = await ImagePicker.launchCameraAsync({
+      mediaTypes: ImagePicker.MediaTypeOptions.Videos,
+      videoMaxDuration: quotas.mediaDurationLimits().video_seconds,
+      videoQuality: ImagePicker.UIImagePickerControllerQualityType.Medium
+    });
+
+    if (capture.canceled || !capture.assets?.[0]) {
+      throw new Error('Capture annulee.');
+    }
+
+    const first = capture.assets[0];
+    const asset = await createLocalAssetFromImportedFile(context, {
+      uri: first.uri,
+      mimeType: first.mimeType ?? 'video/mp4',
+      fileName: first.fileName,
+      fileSize: first.fileSize,
+      width: first.width,
+      height: first.height,
+      durationMs: first.duration
+    });
+
+    scheduleBackgroundProcess(asset.id);
+    return asset;
+  },
+
+  /** Stores a voice memo recorded by the app; the temporary recording is removed once copied. */
+  async saveVoiceMemo(context: MediaContext, recording: MediaRecording) {
+    await ensureSetup();
+
+    const asset = await createLocalAssetFromImportedFile(context, {
+      uri: recording.uri,
+      mimeType: recording.mimeType,
+      durationMs: recording.duration_ms
+    });
+
+    await FileSystem.deleteAsync(recording.uri, { idempotent: true });
+
+    scheduleBackgroundProcess(asset.id);
+    return asset;
+  },
+
   async importFiles(context: MediaContext) {
     await ensureSetup();
 
     const picked = await DocumentPicker.getDocumentAsync({
-      type: ['image/*', 'application/pdf'],
+      type: ['image/*', 'application/pdf', 'video/*', 'audio/*'],
       multiple: true,
       copyToCacheDirectory: true
     });
@@ -653,9 +1321,13 @@ export const media = {
     }
 
     if (!isImageMime(asset.mime)) {
+      const kind = mediaKindOf(asset.mime);
+      const poster = kind === 'VIDEO' || kind === 'AUDIO' ? await renderPosterThumb(asset, kind) : null;
+
       return updateAsset(asset.id, {
         local_path: asset.local_original_path,
-        local_thumb_path: asset.local_thumb_path,
+        local_thumb_path: poster?.thumbPath ?? asset.local_thumb_path,
+        duration_ms: poster?.durationMs ?? asset.duration_ms,
         watermark_applied: true,
         watermark_text: buildWatermarkText(asset),
         size_bytes: await getFileSize(asset.local_original_path),
@@ -717,6 +1389,7 @@ export const media = {
     await safeMoveOrCopy(thumbResult.uri, thumbPath);
 
     const optimizedSize = await getFileSize(optimizedPath);
+    const signature = await readPhotoSignature(thumbPath, thumbResult.width, thumbResult.height);
 
     return updateAsset(asset.id, {
       local_path: optimizedPath,
@@ -727,7 +1400,9 @@ export const media = {
       size_bytes: optimizedSize,
       watermark_applied: true,
       watermark_text: buildWatermarkText(asset),
-      last_error: undefined
+      last_error: undefined,
+      phash: signature?.phash,
+      sharpness: signature?.sharpness
     });
   },
 
@@ -839,6 +1514,65 @@ export const media = {
     return rows.map(mapRow);
   },
 
+  /** Groups of near-identical photos of the project; photos processed before hashing existed are hashed first. */
+  async listSimilarGroups(projectId: string, options: MediaSimilarityOptions = {}): Promise<MediaSimilarGroup[]> {
+    await ensureSetup();
+    await backfillSignatures(projectId);
+    return groupSimilarPhotos(await this.listByProject(projectId), options);
+  },
+
+  /** Ids of the photos that are not the best shot of their similar group. */
+  async listNearDuplicateIds(projectId: string, options: MediaSimilarityOptions = {}) {
+    const groups = await this.listSimilarGroups(projectId, options);
+    return groups.flatMap((group) => group.asset_ids.filter((id) => id !== group.best_asset_id));
+  },
+
+  /** Marks `assetId` as the best shot of its similar group; the other photos become its duplicates. */
+  async chooseBestShot(assetId: string): Promise<MediaSimilarGroup> {
+    const asset = await getByIdInternal(assetId);
+    if (!asset) {
+      throw new Error(`Média introuvable : ${assetId}`);
+    }
+
+    if (!asset.project_id) {
+      throw new Error('Photo sans chantier : pas de groupe de photos similaires.');
+    }
+
+    const group = (await this.listSimilarGroups(asset.project_id)).find((item) => item.asset_ids.includes(assetId));
+    if (!group) {
+      throw new Error('Aucune photo similaire pour cette preuve.');
+    }
+
+    for (const id of group.asset_ids) {
+      const member = await getByIdInternal(id);
+      const duplicateOf = id === assetId ? undefined : assetId;
+      if (!member || member.duplicate_of === duplicateOf) {
+        continue;
+      }
+
+      const updated = await updateAsset(id, { duplicate_of: duplicateOf });
+      await enqueueMetadataOperation(updated);
+    }
+
+    return { ...group, best_asset_id: assetId, best_chosen: true };
+  },
+
+  /** Forgets the choice: the group falls back to the sharpest photo. */
+  async clearBestShot(assetId: string) {
+    const asset = await getByIdInternal(assetId);
+    if (!asset?.project_id) {
+      return;
+    }
+
+    const group = (await this.listSimilarGroups(asset.project_id)).find((item) => item.asset_ids.includes(assetId));
+    for (const id of group?.asset_ids ?? []) {
+      const member = await getByIdInternal(id);
+      if (member?.duplicate_of) {
+        await enqueueMetadataOperation(await updateAsset(id, { duplicate_of: undefined }));
+      }
+    }
+  },
+
   async countByProject(projectId: string, filters: MediaListFilters = {}) {
     await ensureSetup();
     const db = await getDb();
@@ -915,16 +1649,36 @@ export const media = {
     });
   },
 
-  async markUploaded(id: string, remote_path: string, remote_url?: string) {
+  /** Persists the resumable session so an interrupted upload restarts from the last acknowledged byte. */
+  async saveUploadProgress(id: string, session: { upload_url: string; upload_offset: number }) {
+    await updateAsset(id, {
+      upload_url: session.upload_url,
+      upload_offset: Math.max(0, Math.floor(session.upload_offset))
+    });
+  },
+
+  /** Back to the queue without counting an attempt (network policy or budget reached mid-upload). */
+  async pauseUpload(id: string) {
     await updateAsset(id, {
+      upload_status: 'PENDING'
+    });
+  },
+
+  async markUploaded(id: string, remote_path: string, remote_url?: string) {
+    const uploaded = await updateAsset(id, {
       upload_status: 'UPLOADED',
       remote_path,
       remote_url,
-      last_error: undefined
+      last_error: undefined,
+      upload_url: undefined,
+      upload_offset: undefined
     });
+
+    await enqueueMetadataOperation(uploaded);
   },
 
-  async markFailed(id: string, error: string, options: { terminal?: boolean } = {}) {
+  /** `progressed`: the resumable session moved forward, so the attempt is not counted (flaky 3G). */
+  async markFailed(id: string, error: string, options: { terminal?: boolean; progressed?: boolean } = {}) {
     const asset = await getByIdInternal(id);
     if (!asset) {
       return;
@@ -932,7 +1686,9 @@ export const media = {
 
     const nextRetryCount = options.terminal
       ? securityPolicies.maxSyncAttempts
-      : asset.retry_count + 1;
+      : options.progressed
+        ? asset.retry_count
+        : asset.retry_count + 1;
 
     await updateAsset(id, {
       upload_status: 'FAILED',
@@ -941,6 +1697,34 @@ export const media = {
     });
   },
 
+  /** Upload queue in sending order, current upload first (retryable failures included). */
+  async listUploadQueue(limit = 20, orgId?: string) {
+    await ensureSetup();
+    const db = await getDb();
+    const org = typeof orgId === 'string' ? orgId.trim() : '';
+    const orgClause = org ? ' AND org_id = ?' : '';
+
+    const rows = await db.getAllAsync<MediaRow>(
+      `
+        SELECT *
+        FROM ${TABLE_NAME}
+        WHERE (
+          upload_status = 'PENDING'
+          OR upload_status = 'UPLOADING'
+          OR (upload_status = 'FAILED' AND retry_count < ?)
+        )
+        ${orgClause}
+        ORDER BY CASE WHEN upload_status = 'UPLOADING' THEN 0 ELSE 1 END, created_at ASC
+        LIMIT ?
+      `,
+      securityPolicies.maxSyncAttempts,
+      ...(org ? [org] : []),
+      Math.max(1, limit)
+    );
+
+    return rows.map(mapRow);
+  },
+
   async countPendingUploads(orgId?: string) {
     await ensureSetup();
     const db = await getDb();
@@ -1004,5 +1788,136 @@ export const media = {
   async runMaintenance() {
     await cleanupOrphanedThumbs();
     await cleanupOldExports();
+  },
+
+  async getAnnotations(assetId: string): Promise<MediaAnnotationLayer | null> {
+    return getAnnotationLayer(assetId);
+  },
+
+  async listAnnotatedIds(assetIds: string[]): Promise<string[]> {
+    const ids = Array.from(new Set(assetIds.filter((id) => id.length > 0)));
+    if (ids.length === 0) {
+      return [];
+    }
+
+    await ensureSetup();
+    const db = await getDb();
+    const rows = await db.getAllAsync<{ asset_id: string }>(
+      `
+        SELECT asset_id
+        FROM ${ANNOTATIONS_TABLE}
+        WHERE asset_id IN (${ids.map(() => '?').join(', ')})
+          AND annotations_json != '[]'
+      `,
+      ...ids
+    );
+
+    return rows.map((row) => row.asset_id);
+  },
+
+  /** Replaces the whole markup of a photo. The original file and its hash are never modified. */
+  async saveAnnotations(assetId: string, annotations: MediaAnnotationInput[]): Promise<MediaAnnotationLayer> {
+    const asset = await getByIdInternal(assetId);
+    if (!asset) {
+      throw new Error(`Média introuvable : ${assetId}`);
+    }
+
+    if (!isImageMime(asset.mime)) {
+      throw new Error('Annotations disponibles uniquement pour les photos.');
+    }
+
+    const normalized = normalizeAnnotations(annotations);
+    const current = await getAnnotationLayer(asset.id);
+
+    const next: MediaAnnotationLayer = {
+      asset_id: asset.id,
+      org_id: asset.org_id,
+      project_id: asset.project_id,
+      annotations: normalized,
+      source_hash: current?.source_hash ?? (await computeOriginalHash(asset)),
+      revision: (current?.revision ?? 0) + 1,
+      rendered_path: current?.rendered_path,
+      rendered_thumb_path: current?.rendered_thumb_path,
+      rendered_revision: current?.rendered_revision,
+      updated_by: contextUserId ?? undefined,
+      updated_at: nowIso()
+    };
+
+    await saveAnnotationLayer(next);
+    await enqueueAnnotationOperation(next, current ? 'UPDATE' : 'CREATE');
+
+    return next;
+  },
+
+  async clearAnnotations(assetId: string) {
+    const current = await getAnnotationLayer(assetId);
+    if (!current) {
+      return;
+    }
+
+    await deleteRenderedFiles(current);
+    await runQuery(`DELETE FROM ${ANNOTATIONS_TABLE} WHERE asset_id = ?`, assetId);
+    await enqueueAnnotationOperation({ ...current, updated_by: contextUserId ?? undefined, updated_at: nowIso() }, 'DELETE');
+  },
+
+  /** Renders (or reuses) the annotated rendition of a photo after checking the original is unchanged. */
+  async renderAnnotated(assetId: string): Promise<MediaAnnotationLayer> {
+    const layer = await getAnnotationLayer(assetId);
+    if (!layer) {
+      throw new Error('Aucune annotation sur ce média.');
+    }
+
+    if (layer.rendered_path && layer.rendered_revision === layer.revision) {
+      const info = await FileSystem.getInfoAsync(layer.rendered_path);
+      if (info.exists) {
+        return layer;
+      }
+    }
+
+    let asset = await getByIdInternal(assetId);
+    if (!asset) {
+      throw new Error(`Média introuvable : ${assetId}`);
+    }
+
+    if ((await computeOriginalHash(asset)) !== layer.source_hash) {
+      throw new Error("Original modifie depuis l'annotation: rendu refuse (valeur probante).");
+    }
+
+    if (!asset.watermark_applied) {
+      asset = await media.process(asset.id);
+    }
+
+    const { renderedPath, thumbPath } = await renderAnnotationFiles(asset, layer);
+    if (layer.rendered_path !== renderedPath || layer.rendered_thumb_path !== thumbPath) {
+      await deleteRenderedFiles(layer);
+    }
+
+    const rendered: MediaAnnotationLayer = {
+      ...layer,
+      rendered_path: renderedPath,
+      rendered_thumb_path: thumbPath,
+      rendered_revision: layer.revision
+    };
+
+    return saveAnnotationLayer(rendered);
+  },
+
+  /** File to embed in exports/reports: the annotated rendition when the photo carries markup, else the optimized image. */
+  async getExportFile(asset: MediaAsset): Promise<MediaExportFile> {
+    const layer = await getAnnotationLayer(asset.id);
+    if (!layer || layer.annotations.length === 0 || !isImageMime(asset.mime)) {
+      return { path: asset.local_path, thumb_path: asset.local_thumb_path, mime: asset.mime, annotated: false };
+    }
+
+    const rendered = await media.renderAnnotated(asset.id);
+    const refreshed = (await getByIdInternal(asset.id)) ?? asset;
+
+    return {
+      path: rendered.rendered_path ?? refreshed.local_path,
+      thumb_path: rendered.rendered_thumb_path ?? refreshed.local_thumb_path,
+      mime: refreshed.mime,
+      annotated: true,
+      source_hash: rendered.source_hash
+    };
   }
 };
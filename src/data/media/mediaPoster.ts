@@ -0,0 +1,68 @@
+import { Color, drawText, encodePngRgb, fillRect } from './imageAnnotations';
+import { RgbRaster } from './types';
+
+// Posters stand in for the thumbnails of video/audio proofs (no frame extraction is available on device):
+// a flat card with a play glyph or the waveform of the memo, and the duration.
+
+const POSTER_WIDTH = 640;
+const POSTER_HEIGHT = 360;
+
+const BACKGROUND: Color = [31, 41, 51];
+const ACCENT: Color = [14, 124, 134];
+const GLYPH: Color = [255, 255, 255];
+
+export function formatMediaDuration(durationMs: number | undefined) {
+  if (typeof durationMs !== 'number' || !Number.isFinite(durationMs) || durationMs < 0) {
+    return '--:--';
+  }
+
+  const seconds = Math.round(durationMs / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+function drawPlayGlyph(raster: RgbRaster) {
+  const size = POSTER_HEIGHT / 3;
+  const left = (POSTER_WIDTH - size) / 2;
+  const top = (POSTER_HEIGHT - size) / 2;
+
+  for (let row = 0; row < size; row += 1) {
+    const half = row < size / 2 ? row : size - row;
+    fillRect(raster, { left, top: top + row, right: left + half * 1.6, bottom: top + row + 1 }, GLYPH, 0.9);
+  }
+}
+
+function drawWaveform(raster: RgbRaster, peaks: number[]) {
+  const margin = 32;
+  const slot = (POSTER_WIDTH - margin * 2) / peaks.length;
+  const middle = POSTER_HEIGHT / 2 - 16;
+  const maxHalf = POSTER_HEIGHT * 0.3;
+
+  peaks.forEach((peak, index) => {
+    const half = Math.max(2, peak * maxHalf);
+    const left = margin + index * slot + slot * 0.2;
+    fillRect(raster, { left, top: middle - half, right: left + slot * 0.6, bottom: middle + half }, ACCENT);
+  });
+}
+
+/** PNG poster of a video or audio proof; the manipulator then turns it into the usual thumbnail. */
+export function renderMediaPoster(input: { kind: 'VIDEO' | 'AUDIO'; duration_ms?: number; peaks?: number[] }) {
+  const raster: RgbRaster = {
+    width: POSTER_WIDTH,
+    height: POSTER_HEIGHT,
+    data: new Uint8Array(POSTER_WIDTH * POSTER_HEIGHT * 3)
+  };
+  fillRect(raster, { left: 0, top: 0, right: POSTER_WIDTH, bottom: POSTER_HEIGHT }, BACKGROUND);
+
+  if (input.kind === 'AUDIO' && input.peaks && input.peaks.length > 0) {
+    drawWaveform(raster, input.peaks);
+  } else if (input.kind === 'AUDIO') {
+    fillRect(raster, { left: 32, top: POSTER_HEIGHT / 2 - 18, right: POSTER_WIDTH - 32, bottom: POSTER_HEIGHT / 2 - 14 }, ACCENT);
+  } else {
+    drawPlayGlyph(raster);
+  }
+
+  const label = `${input.kind === 'VIDEO' ? 'VIDEO' : 'AUDIO'} ${formatMediaDuration(input.duration_ms)}`;
+  drawText(raster, label, { x: 20, y: POSTER_HEIGHT - 64 }, 4, ACCENT);
+
+  return encodePngRgb(raster);
+}
@@ -0,0 +1,259 @@
+import * as FileSystem from 'expo-file-system/legacy';
+import { base64ToBytes } from './imageRaster';
+import { MediaMime } from './types';
+
+// Minimal container parsing for video/audio proofs: no native media metadata API is available in the app,
+// so durations are read from the MP4/MOV `mvhd` box or from the WAV/CAF headers, and waveform peaks are
+// sampled from the PCM data of voice memos. Everything reads small byte ranges, never the whole file.
+
+const HEADER_BYTES = 4096;
+const MAX_MOOV_BYTES = 4 * 1024 * 1024;
+const PEAK_WINDOW_BYTES = 2048;
+
+type PcmLayout = {
+  dataOffset: number;
+  dataSize: number;
+  sampleRate: number;
+  channels: number;
+  bitsPerSample: number;
+  float: boolean;
+  littleEndian: boolean;
+};
+
+export type MediaProbe = {
+  duration_ms?: number;
+  /** Normalized (0..1) amplitude per bar; only for uncompressed audio (WAV/CAF voice memos). */
+  peaks?: number[];
+};
+
+async function fileSize(uri: string) {
+  const info = await FileSystem.getInfoAsync(uri);
+  return info.exists && !info.isDirectory && typeof info.size === 'number' ? info.size : 0;
+}
+
+async function readRange(uri: string, position: number, length: number) {
+  if (length <= 0) {
+    return new Uint8Array(0);
+  }
+
+  const base64 = await FileSystem.readAsStringAsync(uri, {
+    encoding: FileSystem.EncodingType.Base64,
+    position,
+    length
+  });
+
+  return base64ToBytes(base64);
+}
+
+function fourCc(bytes: Uint8Array, offset: number) {
+  return String.fromCharCode(bytes[offset], bytes[offset + 1], bytes[offset + 2], bytes[offset + 3]);
+}
+
+function uint16Le(bytes: Uint8Array, offset: number) {
+  return bytes[offset] | (bytes[offset + 1] << 8);
+}
+
+function uint32Le(bytes: Uint8Array, offset: number) {
+  return (bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16) | (bytes[offset + 3] << 24)) >>> 0;
+}
+
+function uint32Be(bytes: Uint8Array, offset: number) {
+  return ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+}
+
+function uint64Be(bytes: Uint8Array, offset: number) {
+  return uint32Be(bytes, offset) * 2 ** 32 + uint32Be(bytes, offset + 4);
+}
+
+function parseWav(header: Uint8Array, size: number): PcmLayout | null {
+  if (fourCc(header, 0) !== 'RIFF' || fourCc(header, 8) !== 'WAVE') {
+    return null;
+  }
+
+  let offset = 12;
+  let format: Omit<PcmLayout, 'dataOffset' | 'dataSize'> | null = null;
+
+  while (offset + 8 <= header.length) {
+    const id = fourCc(header, offset);
+    const length = uint32Le(header, offset + 4);
+    const body = offset + 8;
+
+    if (id === 'fmt ' && body + 16 <= header.length) {
+      const audioFormat = uint16Le(header, body);
+      format = {
+        channels: uint16Le(header, body + 2),
+        sampleRate: uint32Le(header, body + 4),
+        bitsPerSample: uint16Le(header, body + 14),
+        float: audioFormat === 3,
+        littleEndian: true
+      };
+    } else if (id === 'data') {
+      // Recorders that were killed leave a zero (or bogus) size: the data then runs to the end of the file.
+      const available = size - body;
+      const dataSize = length > 0 && length <= available ? length : available;
+      return format ? { ...format, dataOffset: body, dataSize } : null;
+    }
+
+    offset = body + length + (length % 2);
+  }
+
+  return null;
+}
+
+function parseCaf(header: Uint8Array, size: number): PcmLayout | null {
+  if (fourCc(header, 0) !== 'caff') {
+    return null;
+  }
+
+  const view = new DataView(header.buffer, header.byteOffset, header.byteLength);
+  let offset = 8;
+  let format: Omit<PcmLayout, 'dataOffset' | 'dataSize'> | null = null;
+
+  while (offset + 12 <= header.length) {
+    const id = fourCc(header, offset);
+    const length = uint64Be(header, offset + 4);
+    const body = offset + 12;
+
+    if (id === 'desc' && body + 32 <= header.length) {
+      if (fourCc(header, body + 8) !== 'lpcm') {
+        return null;
+      }
+
+      const flags = uint32Be(header, body + 12);
+      format = {
+        sampleRate: view.getFloat64(body, false),
+        channels: uint32Be(header, body + 24),
+        bitsPerSample: uint32Be(header, body + 28),
+        float: (flags & 1) === 1,
+        littleEndian: (flags & 2) === 2
+      };
+    } else if (id === 'data') {
+      // 4 bytes of edit count precede the samples; a size of -1 means "until the end of the file".
+      const available = size - body - 4;
+      const dataSize = length > 4 && length - 4 <= available ? length - 4 : available;
+      return format ? { ...format, dataOffset: body + 4, dataSize } : null;
+    }
+
+    offset = body + length;
+  }
+
+  return null;
+}
+
+function readSample(view: DataView, offset: number, layout: PcmLayout) {
+  if (layout.float && layout.bitsPerSample === 32) return view.getFloat32(offset, layout.littleEndian);
+  if (layout.float && layout.bitsPerSample === 64) return view.getFloat64(offset, layout.littleEndian);
+  if (layout.bitsPerSample === 16) return view.getInt16(offset, layout.littleEndian) / 32768;
+  if (layout.bitsPerSample === 32) return view.getInt32(offset, layout.littleEndian) / 2147483648;
+  return null;
+}
+
+async function readPeaks(uri: string, layout: PcmLayout, bars: number) {
+  const frameBytes = (layout.bitsPerSample / 8) * layout.channels;
+  if (frameBytes <= 0 || layout.dataSize < frameBytes * bars) {
+    return undefined;
+  }
+
+  const peaks: number[] = [];
+  const stride = Math.floor(layout.dataSize / bars / frameBytes) * frameBytes;
+  const window = Math.min(PEAK_WINDOW_BYTES - (PEAK_WINDOW_BYTES % frameBytes), stride);
+
+  for (let bar = 0; bar < bars; bar += 1) {
+    const bytes = await readRange(uri, layout.dataOffset + bar * stride, window);
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+    let peak = 0;
+    for (let offset = 0; offset + frameBytes <= bytes.length; offset += frameBytes) {
+      const sample = readSample(view, offset, layout);
+      if (sample === null) return undefined;
+      peak = Math.max(peak, Math.abs(sample));
+    }
+
+    peaks.push(Math.min(1, peak));
+  }
+
+  const loudest = Math.max(...peaks);
+  return loudest > 0 ? peaks.map((peak) => Number((peak / loudest).toFixed(3))) : peaks;
+}
+
+/** Walks the top-level boxes of an MP4/MOV/M4A file to the `moov/mvhd` duration. */
+async function readMp4Duration(uri: string, size: number) {
+  let offset = 0;
+
+  while (offset + 8 <= size) {
+    const header = await readRange(uri, offset, 16);
+    let length = uint32Be(header, 0);
+    const type = fourCc(header, 4);
+    let headerLength = 8;
+
+    if (length === 1) {
+      length = uint64Be(header, 8);
+      headerLength = 16;
+    } else if (length === 0) {
+      length = size - offset;
+    }
+
+    if (length < headerLength) {
+      return undefined;
+    }
+
+    if (type === 'moov') {
+      const moov = await readRange(uri, offset + headerLength, Math.min(length - headerLength, MAX_MOOV_BYTES));
+      let child = 0;
+
+      while (child + 8 <= moov.length) {
+        const childLength = uint32Be(moov, child);
+        if (fourCc(moov, child + 4) === 'mvhd') {
+          const version = moov[child + 8];
+          const timescale = uint32Be(moov, child + (version === 1 ? 28 : 20));
+          const duration = version === 1 ? uint64Be(moov, child + 32) : uint32Be(moov, child + 24);
+          return timescale > 0 ? Math.round((duration / timescale) * 1000) : undefined;
+        }
+
+        if (childLength < 8) break;
+        child += childLength;
+      }
+
+      return undefined;
+    }
+
+    offset += length;
+  }
+
+  return undefined;
+}
+
+/**
+ * Duration (and waveform for PCM voice memos) of a video/audio file. Unknown formats (MP3, corrupted
+ * files) return an empty probe: callers then rely on the size limits only.
+ */
+export async function probeMedia(uri: string, mime: MediaMime, options: { bars?: number } = {}): Promise<MediaProbe> {
+  try {
+    const size = await fileSize(uri);
+    if (size <= 0) {
+      return {};
+    }
+
+    if (mime === 'audio/wav' || mime === 'audio/x-caf') {
+      const header = await readRange(uri, 0, Math.min(size, HEADER_BYTES));
+      const layout = mime === 'audio/wav' ? parseWav(header, size) : parseCaf(header, size);
+      if (!layout || layout.sampleRate <= 0 || layout.channels <= 0) {
+        return {};
+      }
+
+      const frameBytes = (layout.bitsPerSample / 8) * layout.channels;
+      return {
+        duration_ms: Math.round((layout.dataSize / frameBytes / layout.sampleRate) * 1000),
+        peaks: options.bars ? await readPeaks(uri, layout, options.bars) : undefined
+      };
+    }
+
+    if (mime === 'video/mp4' || mime === 'video/quicktime' || mime === 'audio/mp4') {
+      return { duration_ms: await readMp4Duration(uri, size) };
+    }
+  } catch {
+    // Probing is best effort: the proof itself stays valid.
+  }
+
+  return {};
+}
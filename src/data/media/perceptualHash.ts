@@ -0,0 +1,99 @@
+import { downscaleGray, readGrayRaster } from './imageRaster';
+import { GrayRaster } from './types';
+
+// Near-duplicate detection for photos: a 64-bit difference hash (dHash) compared by Hamming distance,
+// plus a sharpness score (variance of the Laplacian) used to suggest the best shot of a group.
+// Both come from the same 128x128 grayscale raster, so hashing costs one manipulator call per photo.
+
+const SIGNATURE_SIZE = 128;
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+
+export type PhotoSignature = {
+  /** 16 hex chars (64 bits). */
+  phash: string;
+  sharpness: number;
+};
+
+/** dHash: one bit per horizontal neighbour pair of a 9x8 reduction (brighter left pixel = 1). */
+export function differenceHash(raster: GrayRaster) {
+  const small = downscaleGray(raster, HASH_WIDTH, HASH_HEIGHT);
+  let hex = '';
+
+  for (let row = 0; row < HASH_HEIGHT; row += 1) {
+    let byte = 0;
+    for (let column = 0; column < HASH_WIDTH - 1; column += 1) {
+      const left = small.data[row * HASH_WIDTH + column];
+      const right = small.data[row * HASH_WIDTH + column + 1];
+      byte = (byte << 1) | (left > right ? 1 : 0);
+    }
+    hex += byte.toString(16).padStart(2, '0');
+  }
+
+  return hex;
+}
+
+/** Number of differing bits between two hashes of the same length; Infinity when they are not comparable. */
+export function hammingDistance(left: string, right: string) {
+  if (left.length !== right.length || left.length === 0) {
+    return Number.POSITIVE_INFINITY;
+  }
+
+  let distance = 0;
+  for (let index = 0; index < left.length; index += 2) {
+    let diff = Number.parseInt(left.slice(index, index + 2), 16) ^ Number.parseInt(right.slice(index, index + 2), 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+
+  return distance;
+}
+
+/** Variance of the 4-neighbour Laplacian: blurred or shaken shots score low. */
+export function sharpnessScore(raster: GrayRaster) {
+  let sum = 0;
+  let sumSquares = 0;
+  let count = 0;
+
+  for (let y = 1; y < raster.height - 1; y += 1) {
+    for (let x = 1; x < raster.width - 1; x += 1) {
+      const index = y * raster.width + x;
+      const laplacian =
+        raster.data[index - 1] +
+        raster.data[index + 1] +
+        raster.data[index - raster.width] +
+        raster.data[index + raster.width] -
+        4 * raster.data[index];
+
+      sum += laplacian;
+      sumSquares += laplacian * laplacian;
+      count += 1;
+    }
+  }
+
+  if (count === 0) {
+    return 0;
+  }
+
+  const mean = sum / count;
+  return Number((sumSquares / count - mean * mean).toFixed(2));
+}
+
+export async function computePhotoSignature(
+  uri: string,
+  sourceWidth: number,
+  sourceHeight: number
+): Promise<PhotoSignature> {
+  const raster = await readGrayRaster(uri, {
+    sourceWidth,
+    sourceHeight,
+    size: { width: SIGNATURE_SIZE, height: SIGNATURE_SIZE }
+  });
+
+  return {
+    phash: differenceHash(raster),
+    sharpness: sharpnessScore(raster)
+  };
+}
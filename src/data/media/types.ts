@@ -1,4 +1,15 @@
-export type MediaMime = 'image/webp' | 'image/jpeg' | 'application/pdf';
+export type MediaMime =
+  | 'image/webp'
+  | 'image/jpeg'
+  | 'application/pdf'
+  | 'video/mp4'
+  | 'video/quicktime'
+  | 'audio/mp4'
+  | 'audio/mpeg'
+  | 'audio/wav'
+  | 'audio/x-caf';
+
+export type MediaKind = 'PHOTO' | 'DOCUMENT' | 'VIDEO' | 'AUDIO';
 
 export type MediaUploadStatus = 'PENDING' | 'UPLOADING' | 'UPLOADED' | 'FAILED';
 
@@ -24,6 +35,8 @@ export type MediaAsset = {
   mime: MediaMime;
   width?: number;
   height?: number;
+  /** Video and audio only; unknown for some imported files. */
+  duration_ms?: number;
   size_bytes: number;
   watermark_applied: boolean;
   watermark_text?: string;
@@ -33,6 +46,99 @@ export type MediaAsset = {
   created_at: string;
   retry_count: number;
   last_error?: string;
+  /** Resumable (TUS) upload session of large files, kept across app restarts. */
+  upload_url?: string;
+  upload_offset?: number;
+  /** Photos only: 64-bit difference hash (16 hex chars), computed by `process`. */
+  phash?: string;
+  /** Photos only: variance of the Laplacian, higher = sharper. */
+  sharpness?: number;
+  /** Set on the other photos of a similar group once a best shot was chosen. */
+  duplicate_of?: string;
+};
+
+/** Recording handed over by the voice memo recorder (the file is copied into the pipeline). */
+export type MediaRecording = {
+  uri: string;
+  duration_ms: number;
+  mimeType?: string;
+};
+
+/**
+ * Vector markup drawn over a photo, in normalized (0..1) image coordinates:
+ * - `ARROW`: `points[0]` (tail) -> `points[1]` (head)
+ * - `CIRCLE`: ellipse inscribed in the box `points[0]`..`points[1]`
+ * - `BLUR`: privacy blur (faces, plates) of the box `points[0]`..`points[1]`
+ * - `TEXT`: `text` anchored at `points[0]`
+ */
+export type MediaAnnotationKind = 'ARROW' | 'CIRCLE' | 'TEXT' | 'BLUR';
+
+export type MediaPoint = {
+  x: number;
+  y: number;
+};
+
+export type MediaAnnotation = {
+  id: string;
+  kind: MediaAnnotationKind;
+  points: MediaPoint[];
+  text?: string;
+  /** `#RRGGBB`; unused by `BLUR`. */
+  color: string;
+};
+
+export type MediaAnnotationInput = Omit<MediaAnnotation, 'id' | 'color'> & {
+  id?: string;
+  color?: string;
+};
+
+/**
+ * Non-destructive annotation layer of a photo. The original file is never rewritten: markup is rendered
+ * into a derived image (`rendered_path`) used by exports and reports.
+ */
+export type MediaAnnotationLayer = {
+  asset_id: string;
+  org_id: string;
+  project_id?: string;
+  annotations: MediaAnnotation[];
+  /** SHA-256 of the original file, recorded when the layer is created and checked before each render. */
+  source_hash: string;
+  revision: number;
+  rendered_path?: string;
+  rendered_thumb_path?: string;
+  /** Revision the derived image was rendered from; stale when lower than `revision`. */
+  rendered_revision?: number;
+  updated_by?: string;
+  updated_at: string;
+};
+
+/** Files to embed for an asset in exports: the annotated rendition when the photo has markup. */
+export type MediaExportFile = {
+  path: string;
+  thumb_path: string;
+  mime: MediaMime;
+  annotated: boolean;
+  source_hash?: string;
+};
+
+/**
+ * Near-identical photos of a project (same spot, shot within a short window). The best shot is the one
+ * chosen by the user, or else the sharpest photo; the others are the near-duplicates.
+ */
+export type MediaSimilarGroup = {
+  /** Id of the earliest photo of the group (stable while the group grows). */
+  id: string;
+  /** Chronological. */
+  asset_ids: string[];
+  best_asset_id: string;
+  best_chosen: boolean;
+};
+
+export type MediaSimilarityOptions = {
+  /** Max Hamming distance between hashes (out of 64 bits). */
+  maxDistance?: number;
+  /** Max delay between two shots of the same group. */
+  windowMs?: number;
 };
 
 export type MediaListFilters = {
@@ -44,8 +150,68 @@ export type MediaProcessConfig = {
   maxEdgePx: number;
   thumbMaxEdgePx: number;
   maxImportSizeBytes: number;
+  maxVideoImportSizeBytes: number;
+  /** Files above this size are uploaded in resumable chunks. */
+  chunkedUploadMinBytes: number;
   jpegQuality: number;
   webpQuality: number;
   maxPendingUploads: number;
   cleanupExportOlderThanMs: number;
 };
+
+/** `WIFI_ONLY` keeps uploads for unmetered networks (Wi-Fi, ethernet); cellular is never used. */
+export type MediaUploadNetworkMode = 'WIFI_ONLY' | 'CELLULAR_ALLOWED';
+
+/** Device-level upload settings (the data plan belongs to the phone, not to the org). */
+export type MediaUploadSettings = {
+  network_mode: MediaUploadNetworkMode;
+  /** Daily cellular upload budget; null = unlimited. */
+  cellular_daily_budget_mb: number | null;
+  updated_at: string;
+};
+
+export type MediaUploadNetwork = 'UNMETERED' | 'CELLULAR' | 'OFFLINE';
+
+export type MediaUploadBlockReason = 'OFFLINE' | 'WIFI_ONLY' | 'CELLULAR_BUDGET';
+
+export type MediaUploadAllowance = {
+  network: MediaUploadNetwork;
+  /** Bytes that may still be sent right now; null = unlimited. */
+  remaining_bytes: number | null;
+  blocked_reason?: MediaUploadBlockReason;
+  cellular_used_bytes: number;
+  cellular_budget_bytes: number | null;
+};
+
+export type MediaUploadProgressState = 'UPLOADING' | 'PAUSED' | 'UPLOADED' | 'FAILED';
+
+export type MediaUploadProgress = {
+  asset_id: string;
+  sent_bytes: number;
+  total_bytes: number;
+  state: MediaUploadProgressState;
+  blocked_reason?: MediaUploadBlockReason;
+  updated_at: string;
+};
+
+/** 8-bit luma pixels, row-major. */
+export type GrayRaster = {
+  width: number;
+  height: number;
+  data: Uint8Array;
+};
+
+/** 8-bit RGB pixels, row-major, 3 bytes per pixel. */
+export type RgbRaster = {
+  width: number;
+  height: number;
+  data: Uint8Array;
+};
+
+/** Normalized (0..1) region of an image. */
+export type RasterCrop = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
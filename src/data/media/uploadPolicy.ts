@@ -0,0 +1,247 @@
+import * as Network from 'expo-network';
+import * as SQLite from 'expo-sqlite';
+import {
+  MediaUploadAllowance,
+  MediaUploadNetwork,
+  MediaUploadNetworkMode,
+  MediaUploadSettings
+} from './types';
+
+const DB_NAME = 'conformeo.db';
+const SETTINGS_TABLE = 'media_upload_settings';
+const USAGE_TABLE = 'media_upload_usage';
+const SETTINGS_KEY = 'device';
+
+const NETWORK_MODES: MediaUploadNetworkMode[] = ['WIFI_ONLY', 'CELLULAR_ALLOWED'];
+const DEFAULT_SETTINGS: Omit<MediaUploadSettings, 'updated_at'> = {
+  network_mode: 'CELLULAR_ALLOWED',
+  cellular_daily_budget_mb: 200
+};
+const MAX_BUDGET_MB = 10_000;
+const USAGE_RETENTION_DAYS = 30;
+
+type SettingsRow = {
+  network_mode: MediaUploadNetworkMode;
+  cellular_daily_budget_mb: number | null;
+  updated_at: string;
+};
+
+let dbPromise: Promise<SQLite.SQLiteDatabase> | null = null;
+let setupPromise: Promise<void> | null = null;
+
+function nowIso() {
+  return new Date().toISOString();
+}
+
+/** Local calendar day: the budget resets at local midnight, like the carrier counters users look at. */
+function localDayKey(date = new Date()) {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+async function getDb() {
+  if (!dbPromise) {
+    dbPromise = SQLite.openDatabaseAsync(DB_NAME);
+  }
+
+  return dbPromise;
+}
+
+async function setupSchema() {
+  const db = await getDb();
+
+  await db.execAsync(`
+    PRAGMA journal_mode = WAL;
+
+    CREATE TABLE IF NOT EXISTS ${SETTINGS_TABLE} (
+      id TEXT PRIMARY KEY NOT NULL,
+      network_mode TEXT NOT NULL CHECK (network_mode IN ('WIFI_ONLY', 'CELLULAR_ALLOWED')),
+      cellular_daily_budget_mb INTEGER,
+      updated_at TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS ${USAGE_TABLE} (
+      day TEXT PRIMARY KEY NOT NULL,
+      cellular_bytes INTEGER NOT NULL DEFAULT 0,
+      unmetered_bytes INTEGER NOT NULL DEFAULT 0,
+      updated_at TEXT NOT NULL
+    );
+  `);
+}
+
+async function ensureSetup() {
+  if (!setupPromise) {
+    setupPromise = setupSchema();
+  }
+
+  return setupPromise;
+}
+
+function normalizeBudget(value: number | null | undefined) {
+  if (value === null) {
+    return null;
+  }
+
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+    throw new Error('Budget cellulaire invalide.');
+  }
+
+  return Math.min(MAX_BUDGET_MB, Math.round(value));
+}
+
+/**
+ * Wi-Fi and ethernet are unmetered. Anything else connected (cellular, VPN, bluetooth tethering, unknown)
+ * is counted as cellular: a wrong guess only costs a delayed upload, never a data plan overrun.
+ */
+async function detectNetwork(): Promise<MediaUploadNetwork> {
+  const state = await Network.getNetworkStateAsync();
+  if (!state.isConnected || state.isInternetReachable === false) {
+    return 'OFFLINE';
+  }
+
+  if (state.type === Network.NetworkStateType.WIFI || state.type === Network.NetworkStateType.ETHERNET) {
+    return 'UNMETERED';
+  }
+
+  return 'CELLULAR';
+}
+
+async function getCellularUsedBytes(day = localDayKey()) {
+  await ensureSetup();
+  const db = await getDb();
+  const row = await db.getFirstAsync<{ cellular_bytes: number }>(
+    `
+      SELECT cellular_bytes
+      FROM ${USAGE_TABLE}
+      WHERE day = ?
+    `,
+    day
+  );
+
+  return row?.cellular_bytes ?? 0;
+}
+
+export const mediaUploadPolicy = {
+  async getSettings(): Promise<MediaUploadSettings> {
+    await ensureSetup();
+    const db = await getDb();
+    const row = await db.getFirstAsync<SettingsRow>(
+      `
+        SELECT network_mode, cellular_daily_budget_mb, updated_at
+        FROM ${SETTINGS_TABLE}
+        WHERE id = ?
+      `,
+      SETTINGS_KEY
+    );
+
+    if (!row) {
+      return { ...DEFAULT_SETTINGS, updated_at: nowIso() };
+    }
+
+    return {
+      network_mode: row.network_mode,
+      cellular_daily_budget_mb: row.cellular_daily_budget_mb,
+      updated_at: row.updated_at
+    };
+  },
+
+  async updateSettings(
+    patch: Partial<Pick<MediaUploadSettings, 'network_mode' | 'cellular_daily_budget_mb'>>
+  ): Promise<MediaUploadSettings> {
+    const current = await this.getSettings();
+
+    if (patch.network_mode !== undefined && !NETWORK_MODES.includes(patch.network_mode)) {
+      throw new Error('Mode reseau invalide.');
+    }
+
+    const next: MediaUploadSettings = {
+      network_mode: patch.network_mode ?? current.network_mode,
+      cellular_daily_budget_mb:
+        patch.cellular_daily_budget_mb === undefined
+          ? current.cellular_daily_budget_mb
+          : normalizeBudget(patch.cellular_daily_budget_mb),
+      updated_at: nowIso()
+    };
+
+    const db = await getDb();
+    await db.runAsync(
+      `
+        INSERT OR REPLACE INTO ${SETTINGS_TABLE} (id, network_mode, cellular_daily_budget_mb, updated_at)
+        VALUES (?, ?, ?, ?)
+      `,
+      SETTINGS_KEY,
+      next.network_mode,
+      next.cellular_daily_budget_mb,
+      next.updated_at
+    );
+
+    return next;
+  },
+
+  /** What the upload worker may send right now, given the current network and today's cellular usage. */
+  async getAllowance(): Promise<MediaUploadAllowance> {
+    const [settings, network, used] = await Promise.all([
+      this.getSettings(),
+      detectNetwork(),
+      getCellularUsedBytes()
+    ]);
+
+    const budgetBytes =
+      settings.cellular_daily_budget_mb === null ? null : settings.cellular_daily_budget_mb * 1024 * 1024;
+    const base = { network, cellular_used_bytes: used, cellular_budget_bytes: budgetBytes };
+
+    if (network === 'OFFLINE') {
+      return { ...base, remaining_bytes: 0, blocked_reason: 'OFFLINE' };
+    }
+
+    if (network === 'UNMETERED') {
+      return { ...base, remaining_bytes: null };
+    }
+
+    if (settings.network_mode === 'WIFI_ONLY') {
+      return { ...base, remaining_bytes: 0, blocked_reason: 'WIFI_ONLY' };
+    }
+
+    if (budgetBytes === null) {
+      return { ...base, remaining_bytes: null };
+    }
+
+    const remaining = Math.max(0, budgetBytes - used);
+    return remaining > 0
+      ? { ...base, remaining_bytes: remaining }
+      : { ...base, remaining_bytes: 0, blocked_reason: 'CELLULAR_BUDGET' };
+  },
+
+  /** Counts bytes actually sent; only cellular bytes are charged to the daily budget. */
+  async recordUsage(network: MediaUploadNetwork, bytes: number) {
+    if (network === 'OFFLINE' || !Number.isFinite(bytes) || bytes <= 0) {
+      return;
+    }
+
+    await ensureSetup();
+    const db = await getDb();
+    const day = localDayKey();
+    const cellular = network === 'CELLULAR' ? Math.round(bytes) : 0;
+    const unmetered = network === 'UNMETERED' ? Math.round(bytes) : 0;
+
+    await db.runAsync(
+      `
+        INSERT INTO ${USAGE_TABLE} (day, cellular_bytes, unmetered_bytes, updated_at)
+        VALUES (?, ?, ?, ?)
+        ON CONFLICT(day) DO UPDATE SET
+          cellular_bytes = cellular_bytes + excluded.cellular_bytes,
+          unmetered_bytes = unmetered_bytes + excluded.unmetered_bytes,
+          updated_at = excluded.updated_at
+      `,
+      day,
+      cellular,
+      unmetered,
+      nowIso()
+    );
+
+    const cutoff = new Date();
+    cutoff.setDate(cutoff.getDate() - USAGE_RETENTION_DAYS);
+    await db.runAsync(`DELETE FROM ${USAGE_TABLE} WHERE day < ?`, localDayKey(cutoff));
+  }
+};
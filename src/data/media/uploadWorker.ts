@@ -1,14 +1,48 @@
+import * as FileSystem from 'expo-file-system/legacy';
 import { appEnv } from '../../core/env';
+import { getRequiredSession } from '../../core/identity-security/utils';
 import { requireSupabaseClient } from '../../core/supabase/client';
-import { MediaAsset } from './types';
+import { base64ToBytes, bytesToBase64 } from './imageRaster';
+import { MediaAsset, MediaUploadBlockReason, MediaUploadNetwork, MediaUploadProgress } from './types';
 import { media } from './mediaPipeline';
+import { mediaUploadPolicy } from './uploadPolicy';
 
 const STORAGE_BUCKET = 'conformeo-media';
 const UPLOAD_TIMEOUT_MS = 20_000;
+const CHUNK_TIMEOUT_MS = 60_000;
+// The Supabase resumable (TUS) endpoint only accepts 6 MB chunks (except the last one).
+const CHUNK_SIZE_BYTES = 6 * 1024 * 1024;
+const TUS_VERSION = '1.0.0';
+
+type ProgressListener = (progress: Record<string, MediaUploadProgress>) => void;
+
+type ChunkedOutcome = { state: 'UPLOADED' } | { state: 'PAUSED'; reason: MediaUploadBlockReason };
+
+const progressByAsset = new Map<string, MediaUploadProgress>();
+const progressListeners = new Set<ProgressListener>();
+
+function progressSnapshot() {
+  return Object.fromEntries(progressByAsset);
+}
+
+function reportProgress(progress: Omit<MediaUploadProgress, 'updated_at'>) {
+  progressByAsset.set(progress.asset_id, { ...progress, updated_at: new Date().toISOString() });
+
+  const snapshot = progressSnapshot();
+  for (const listener of progressListeners) {
+    listener(snapshot);
+  }
+}
 
 function extensionFromMime(mime: MediaAsset['mime']) {
   if (mime === 'image/webp') return 'webp';
   if (mime === 'application/pdf') return 'pdf';
+  if (mime === 'video/mp4') return 'mp4';
+  if (mime === 'video/quicktime') return 'mov';
+  if (mime === 'audio/mp4') return 'm4a';
+  if (mime === 'audio/mpeg') return 'mp3';
+  if (mime === 'audio/wav') return 'wav';
+  if (mime === 'audio/x-caf') return 'caf';
   return 'jpg';
 }
 
@@ -60,10 +94,180 @@ function isTerminalUploadError(message: string) {
   );
 }
 
-async function uploadSingle(asset: MediaAsset) {
+function shouldUploadInChunks(asset: MediaAsset) {
+  return asset.size_bytes >= media.config.chunkedUploadMinBytes;
+}
+
+function encodeTusMetadata(entries: Record<string, string>) {
+  return Object.entries(entries)
+    .map(([key, value]) => `${key} ${bytesToBase64(Uint8Array.from(value, (char) => char.charCodeAt(0) & 0xff))}`)
+    .join(',');
+}
+
+async function responseError(label: string, response: Response) {
+  const body = await response.text().catch(() => '');
+  return new Error(`${label} (${response.status}${body ? `: ${body.slice(0, 200)}` : ''})`);
+}
+
+function resumableEndpoint() {
+  return `${(appEnv.supabaseUrl ?? '').replace(/\/$/, '')}/storage/v1/upload/resumable`;
+}
+
+async function createUploadSession(asset: MediaAsset, remotePath: string, size: number, token: string) {
+  const response = await withTimeout(
+    fetch(resumableEndpoint(), {
+      method: 'POST',
+      headers: {
+        authorization: `Bearer ${token}`,
+        'Tus-Resumable': TUS_VERSION,
+        'Upload-Length': String(size),
+        'Upload-Metadata': encodeTusMetadata({
+          bucketName: STORAGE_BUCKET,
+          objectName: remotePath,
+          contentType: asset.mime
+        }),
+        'x-upsert': 'true'
+      }
+    }),
+    UPLOAD_TIMEOUT_MS,
+    'media upload session'
+  );
+
+  const location = response.headers.get('location');
+  if (response.status !== 201 || !location) {
+    throw await responseError('Session de téléversement refusée', response);
+  }
+
+  return location;
+}
+
+/** Offset acknowledged by the server, or null when the session expired and must be recreated. */
+async function fetchServerOffset(url: string, token: string) {
+  const response = await withTimeout(
+    fetch(url, {
+      method: 'HEAD',
+      headers: { authorization: `Bearer ${token}`, 'Tus-Resumable': TUS_VERSION }
+    }),
+    UPLOAD_TIMEOUT_MS,
+    'media upload offset'
+  );
+
+  if (response.status === 404 || response.status === 410) {
+    return null;
+  }
+
+  const offset = Number(response.headers.get('upload-offset'));
+  if (!response.ok || !Number.isFinite(offset)) {
+    throw await responseError('Reprise du téléversement impossible', response);
+  }
+
+  return offset;
+}
+
+async function readChunk(localPath: string, position: number, length: number) {
+  const base64 = await FileSystem.readAsStringAsync(localPath, {
+    encoding: FileSystem.EncodingType.Base64,
+    position,
+    length
+  });
+
+  return base64ToBytes(base64);
+}
+
+/**
+ * Sends the file in 6 MB chunks, checking the network policy before each one: switching to cellular in
+ * Wi-Fi-only mode, or reaching the daily cellular budget, pauses the upload at the last acknowledged byte.
+ */
+async function uploadChunked(
+  asset: MediaAsset,
+  progress: { startOffset: number; offset: number }
+): Promise<ChunkedOutcome> {
+  const session = await getRequiredSession(requireSupabaseClient());
+  const token = session.access_token;
+  const remotePath = resolveRemotePath(asset);
+
+  const info = await FileSystem.getInfoAsync(asset.local_path);
+  const size = info.exists && !info.isDirectory && typeof info.size === 'number' ? info.size : asset.size_bytes;
+
+  const resumedOffset = asset.upload_url ? await fetchServerOffset(asset.upload_url, token) : null;
+  const url =
+    asset.upload_url && resumedOffset !== null
+      ? asset.upload_url
+      : await createUploadSession(asset, remotePath, size, token);
+  let offset = resumedOffset ?? 0;
+  progress.startOffset = offset;
+  progress.offset = offset;
+
+  await media.saveUploadProgress(asset.id, { upload_url: url, upload_offset: offset });
+  reportProgress({ asset_id: asset.id, sent_bytes: offset, total_bytes: size, state: 'UPLOADING' });
+
+  while (offset < size) {
+    const length = Math.min(CHUNK_SIZE_BYTES, size - offset);
+    const allowance = await mediaUploadPolicy.getAllowance();
+    const reason =
+      allowance.blocked_reason ??
+      (allowance.remaining_bytes !== null && allowance.remaining_bytes < length ? 'CELLULAR_BUDGET' : undefined);
+
+    if (reason) {
+      reportProgress({
+        asset_id: asset.id,
+        sent_bytes: offset,
+        total_bytes: size,
+        state: 'PAUSED',
+        blocked_reason: reason
+      });
+      return { state: 'PAUSED', reason };
+    }
+
+    const chunk = await readChunk(asset.local_path, offset, length);
+
+    const response: Response = await withTimeout(
+      fetch(url, {
+        method: 'PATCH',
+        headers: {
+          authorization: `Bearer ${token}`,
+          'Tus-Resumable': TUS_VERSION,
+          'Upload-Offset': String(offset),
+          'Content-Type': 'application/offset+octet-stream'
+        },
+        body: chunk
+      }),
+      CHUNK_TIMEOUT_MS,
+      'media chunk upload'
+    );
+
+    // The chunk went over the wire whatever the answer: it counts against the cellular budget.
+    await mediaUploadPolicy.recordUsage(allowance.network, length);
+
+    if (response.status === 409) {
+      // Our offset is stale (a previous chunk landed without its acknowledgement): resync and resend.
+      const serverOffset = await fetchServerOffset(url, token);
+      if (serverOffset === null) {
+        throw new Error('Session de téléversement expirée : reprise au prochain cycle.');
+      }
+      offset = serverOffset;
+    } else if (response.status === 204) {
+      const acknowledged = Number(response.headers.get('upload-offset'));
+      offset = Number.isFinite(acknowledged) && acknowledged > offset ? acknowledged : offset + length;
+    } else {
+      throw await responseError('Envoi du morceau refusé', response);
+    }
+
+    progress.offset = offset;
+    await media.saveUploadProgress(asset.id, { upload_url: url, upload_offset: offset });
+    reportProgress({ asset_id: asset.id, sent_bytes: offset, total_bytes: size, state: 'UPLOADING' });
+  }
+
+  await media.markUploaded(asset.id, remotePath);
+  reportProgress({ asset_id: asset.id, sent_bytes: size, total_bytes: size, state: 'UPLOADED' });
+  return { state: 'UPLOADED' };
+}
+
+async function uploadSingle(asset: MediaAsset, network: MediaUploadNetwork) {
   const client = requireSupabaseClient();
   const remotePath = resolveRemotePath(asset);
   const blob = await loadBlobFromLocalPath(asset.local_path);
+  reportProgress({ asset_id: asset.id, sent_bytes: 0, total_bytes: blob.size, state: 'UPLOADING' });
 
   const { error } = await withTimeout(
     client.storage.from(STORAGE_BUCKET).upload(remotePath, blob, {
@@ -74,15 +278,23 @@ async function uploadSingle(asset: MediaAsset) {
     'media upload'
   );
 
+  await mediaUploadPolicy.recordUsage(network, blob.size);
+
   if (error) {
     throw new Error(error.message);
   }
 
   await media.markUploaded(asset.id, remotePath);
+  reportProgress({ asset_id: asset.id, sent_bytes: blob.size, total_bytes: blob.size, state: 'UPLOADED' });
 }
 
 export const mediaUploadWorker = {
-  async runPendingUploads(limit = 12) {
+  async runPendingUploads(limit = 12): Promise<{
+    uploaded: number;
+    failed: number;
+    pending: number;
+    blocked_reason?: MediaUploadBlockReason;
+  }> {
     if (!appEnv.isSupabaseConfigured) {
       return { uploaded: 0, failed: 0, pending: await media.countPendingUploads() };
     }
@@ -90,18 +302,53 @@ export const mediaUploadWorker = {
     const batch = await media.getUploadPendingBatch(limit);
     let uploaded = 0;
     let failed = 0;
+    let blockedReason: MediaUploadBlockReason | undefined;
 
     for (const asset of batch) {
+      const chunked = shouldUploadInChunks(asset);
+      const allowance = await mediaUploadPolicy.getAllowance();
+      // A single-shot upload cannot stop halfway: it needs room for the whole file.
+      const overBudget = !chunked && allowance.remaining_bytes !== null && asset.size_bytes > allowance.remaining_bytes;
+
+      if (allowance.blocked_reason || overBudget) {
+        blockedReason = allowance.blocked_reason ?? 'CELLULAR_BUDGET';
+        reportProgress({
+          asset_id: asset.id,
+          sent_bytes: asset.upload_offset ?? 0,
+          total_bytes: asset.size_bytes,
+          state: 'PAUSED',
+          blocked_reason: blockedReason
+        });
+        break;
+      }
+
       await media.markUploading(asset.id);
+      const chunkProgress = { startOffset: 0, offset: 0 };
 
       try {
-        await uploadSingle(asset);
+        if (chunked) {
+          const outcome = await uploadChunked(asset, chunkProgress);
+          if (outcome.state === 'PAUSED') {
+            await media.pauseUpload(asset.id);
+            blockedReason = outcome.reason;
+            break;
+          }
+        } else {
+          await uploadSingle(asset, allowance.network);
+        }
         uploaded += 1;
       } catch (error) {
         failed += 1;
         const message = error instanceof Error ? error.message : 'Téléversement impossible.';
         await media.markFailed(asset.id, message, {
-          terminal: isTerminalUploadError(message)
+          terminal: isTerminalUploadError(message),
+          progressed: chunkProgress.offset > chunkProgress.startOffset
+        });
+        reportProgress({
+          asset_id: asset.id,
+          sent_bytes: chunkProgress.offset,
+          total_bytes: asset.size_bytes,
+          state: 'FAILED'
         });
         break;
       }
@@ -110,10 +357,25 @@ export const mediaUploadWorker = {
     return {
       uploaded,
       failed,
-      pending: await media.countPendingUploads()
+      pending: await media.countPendingUploads(),
+      blocked_reason: blockedReason
     };
   },
 
+  /** Live progress of the uploads of this session, keyed by asset id; called immediately with the current state. */
+  onProgress(listener: ProgressListener) {
+    progressListeners.add(listener);
+    listener(progressSnapshot());
+
+    return () => {
+      progressListeners.delete(listener);
+    };
+  },
+
+  getProgress(assetId: string) {
+    return progressByAsset.get(assetId) ?? null;
+  },
+
   async getPendingCount() {
     return media.countPendingUploads();
   }
@@ -0,0 +1,139 @@
+/// <reference types="node" />
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { createWorkCalendar, frenchPublicHolidays, ScheduleContext, scheduleTasks } from './autoScheduler';
+import { PlanningDependency } from './types';
+
+// Local time, like the scheduler: 2026-10-19 is a Monday.
+const at = (day: number, hour: number, minute = 0) => new Date(2026, 9, day, hour, minute).getTime();
+
+function context(overrides: Partial<ScheduleContext> = {}): ScheduleContext {
+  return {
+    calendar: createWorkCalendar(),
+    start_ms: at(19, 8),
+    horizon_end_ms: at(19 + 28, 0),
+    busy: new Map(),
+    spans: new Map(),
+    dependencies: [],
+    unavailable_equipment: new Map(),
+    ...overrides
+  };
+}
+
+function dependency(predecessor: string, successor: string): PlanningDependency {
+  return {
+    id: `${predecessor}-${successor}`,
+    org_id: 'org-1',
+    project_id: 'p1',
+    predecessor_task_id: predecessor,
+    successor_task_id: successor,
+    type: 'FS',
+    lag_minutes: 0,
+    created_by: 'u1',
+    created_at: '2026-10-01T00:00:00.000Z',
+    updated_at: '2026-10-01T00:00:00.000Z'
+  };
+}
+
+describe('work calendar', () => {
+  it('lists the French public holidays, with the Alsace-Moselle extras on demand', () => {
+    const holidays = frenchPublicHolidays(2026);
+    assert.ok(holidays.includes('2026-04-06')); // lundi de Paques
+    assert.ok(holidays.includes('2026-11-11'));
+    assert.ok(!holidays.includes('2026-04-03'));
+    assert.ok(frenchPublicHolidays(2026, true).includes('2026-04-03')); // Vendredi saint
+  });
+
+  it('skips weekends and public holidays', () => {
+    const calendar = createWorkCalendar();
+    assert.equal(calendar.nextWorkingInstant(at(24, 10)), at(26, 8));
+    assert.equal(calendar.nextWorkingInstant(new Date(2026, 10, 11, 9).getTime()), new Date(2026, 10, 12, 8).getTime());
+  });
+
+  it('splits work longer than a day into one segment per working day', () => {
+    const segments = createWorkCalendar().segmentsFrom(at(19, 8), 10 * 60);
+    assert.deepEqual(segments, [
+      { start_ms: at(19, 8), end_ms: at(19, 17) },
+      { start_ms: at(20, 8), end_ms: at(20, 9) }
+    ]);
+  });
+
+  it('rejects invalid working hours', () => {
+    assert.throws(
+      () => createWorkCalendar({ working_hours: { week_days: [1], start_minute: 600, end_minute: 600 } }),
+      /Horaires de travail invalides/
+    );
+  });
+});
+
+describe('scheduleTasks', () => {
+  it('places tasks of the same assignee one after the other', () => {
+    const { slots, unscheduled } = scheduleTasks(
+      [
+        { task_id: 'a', title: 'A', duration_minutes: 120, assignee_user_id: 'u1' },
+        { task_id: 'b', title: 'B', duration_minutes: 60, assignee_user_id: 'u1' }
+      ],
+      context()
+    );
+
+    assert.deepEqual(unscheduled, []);
+    assert.equal(Date.parse(slots[0].start_at), at(19, 8));
+    assert.equal(Date.parse(slots[1].start_at), at(19, 10));
+    assert.equal(Date.parse(slots[1].end_at), at(19, 11));
+  });
+
+  it('places a predecessor first whatever the input order', () => {
+    const { slots } = scheduleTasks(
+      [
+        { task_id: 'b', title: 'B', duration_minutes: 60, assignee_user_id: 'u2' },
+        { task_id: 'a', title: 'A', duration_minutes: 180, assignee_user_id: 'u1' }
+      ],
+      context({ dependencies: [dependency('a', 'b')] })
+    );
+
+    assert.deepEqual(
+      slots.map((slot) => slot.task_id),
+      ['a', 'b']
+    );
+    assert.equal(Date.parse(slots[1].start_at), at(19, 11));
+  });
+
+  it('avoids intervals already busy for the resource or its equipment', () => {
+    const busy = new Map([['equipment:e1', [{ start_ms: at(19, 8), end_ms: at(19, 12) }]]]);
+    const { slots } = scheduleTasks(
+      [{ task_id: 'a', title: 'A', duration_minutes: 60, assignee_user_id: 'u1', equipment_ids: ['e1'] }],
+      context({ busy })
+    );
+
+    assert.equal(Date.parse(slots[0].start_at), at(19, 12));
+    assert.equal(busy.get('user:u1')?.length, 1);
+  });
+
+  it('reports unavailable equipment, missing predecessors and the horizon as unscheduled', () => {
+    const { slots, unscheduled } = scheduleTasks(
+      [
+        { task_id: 'a', title: 'A', duration_minutes: 60, equipment_ids: ['e1'] },
+        { task_id: 'b', title: 'B', duration_minutes: 60 },
+        { task_id: 'c', title: 'C', duration_minutes: 20 * 60 }
+      ],
+      context({
+        dependencies: [dependency('a', 'b')],
+        unavailable_equipment: new Map([['e1', 'Engin en maintenance.']]),
+        horizon_end_ms: at(20, 0)
+      })
+    );
+
+    assert.deepEqual(slots, []);
+    assert.deepEqual(
+      unscheduled.map((entry) => entry.reason),
+      ['Engin en maintenance.', 'Prédécesseur non planifié: "A".', "Aucun créneau libre sur l'horizon de planification."]
+    );
+  });
+
+  it('reports a task without working time instead of throwing', () => {
+    const { slots, unscheduled } = scheduleTasks([{ task_id: 'a', title: 'A', duration_minutes: 0 }], context());
+
+    assert.deepEqual(slots, []);
+    assert.equal(unscheduled[0].reason, 'Durée invalide (1 minute minimum).');
+  });
+});
@@ -0,0 +1,497 @@
+import { requiredSuccessorStartMs, TaskSpan } from './criticalPath';
+import {
+  PlanningAutoScheduleTask,
+  PlanningCalendarOptions,
+  PlanningDependency,
+  PlanningItem,
+  PlanningOverlap,
+  PlanningOverlapShift,
+  PlanningProposedSlot,
+  PlanningWorkingHours
+} from './types';
+
+// Greedy list scheduling on a working calendar: tasks are taken in dependency order (then priority
+// order as given), and each one gets the earliest start where all its resources (user or team, plus
+// equipment) are free for its whole working duration. Everything runs in device local time.
+
+export const DEFAULT_WORKING_HOURS: PlanningWorkingHours = {
+  week_days: [1, 2, 3, 4, 5],
+  start_minute: 8 * 60,
+  end_minute: 17 * 60
+};
+
+const MINUTE_MS = 60_000;
+/** Calendar scans stop after this many days (no working day found: empty week_days, etc.). */
+const MAX_CALENDAR_DAYS = 400;
+const MAX_SLOT_ATTEMPTS = 2000;
+
+export type BusyInterval = { start_ms: number; end_ms: number };
+
+export type WorkCalendar = ReturnType<typeof createWorkCalendar>;
+
+function dayKey(date: Date) {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/** Easter Sunday (anonymous Gregorian algorithm), local midnight. */
+function easterSunday(year: number) {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(year, month - 1, day);
+}
+
+/** Jours feries legaux (metropole), as `YYYY-MM-DD` local keys. */
+export function frenchPublicHolidays(year: number, alsaceMoselle = false) {
+  const easter = easterSunday(year);
+  const fromEaster = (days: number) => new Date(year, easter.getMonth(), easter.getDate() + days);
+
+  const dates = [
+    new Date(year, 0, 1),
+    fromEaster(1), // lundi de Paques
+    new Date(year, 4, 1),
+    new Date(year, 4, 8),
+    fromEaster(39), // Ascension
+    fromEaster(50), // lundi de Pentecote
+    new Date(year, 6, 14),
+    new Date(year, 7, 15),
+    new Date(year, 10, 1),
+    new Date(year, 10, 11),
+    new Date(year, 11, 25)
+  ];
+
+  if (alsaceMoselle) {
+    dates.push(fromEaster(-2), new Date(year, 11, 26));
+  }
+
+  return dates.map(dayKey);
+}
+
+export function createWorkCalendar(options: PlanningCalendarOptions = {}) {
+  const hours = options.working_hours ?? DEFAULT_WORKING_HOURS;
+  if (hours.end_minute <= hours.start_minute || hours.start_minute < 0 || hours.end_minute > 24 * 60) {
+    throw new Error('Horaires de travail invalides.');
+  }
+
+  const weekDays = new Set(hours.week_days);
+  const holidaysByYear = new Map<number, Set<string>>();
+
+  const isHoliday = (date: Date) => {
+    const year = date.getFullYear();
+    let holidays = holidaysByYear.get(year);
+    if (!holidays) {
+      holidays = new Set(frenchPublicHolidays(year, options.alsace_moselle));
+      holidaysByYear.set(year, holidays);
+    }
+    return holidays.has(dayKey(date));
+  };
+
+  /** Working window of the local day containing `ms`, or null on days off. */
+  const windowOf = (ms: number) => {
+    const date = new Date(ms);
+    if (!weekDays.has(date.getDay()) || isHoliday(date)) {
+      return null;
+    }
+    const midnight = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+    return {
+      start_ms: new Date(midnight).setMinutes(hours.start_minute),
+      end_ms: new Date(midnight).setMinutes(hours.end_minute)
+    };
+  };
+
+  const nextMidnight = (ms: number) => {
+    const date = new Date(ms);
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1).getTime();
+  };
+
+  const midnightOf = (ms: number) => {
+    const date = new Date(ms);
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+  };
+
+  const calendar = {
+    windowOf,
+
+    isWorkingDay(ms: number) {
+      return windowOf(ms) !== null;
+    },
+
+    /** First working instant at or after `ms`. */
+    nextWorkingInstant(ms: number) {
+      let cursor = ms;
+      for (let day = 0; day < MAX_CALENDAR_DAYS; day += 1) {
+        const window = windowOf(cursor);
+        if (window && cursor < window.end_ms) {
+          return Math.max(cursor, window.start_ms);
+        }
+        cursor = nextMidnight(cursor);
+      }
+      throw new Error('Aucun jour travaillé dans le calendrier.');
+    },
+
+    /** Last working instant at or before `ms` (an end of work). */
+    previousWorkingInstant(ms: number) {
+      let cursor = ms;
+      for (let day = 0; day < MAX_CALENDAR_DAYS; day += 1) {
+        const window = windowOf(cursor);
+        if (window && cursor > window.start_ms) {
+          return Math.min(cursor, window.end_ms);
+        }
+        cursor = midnightOf(cursor) - 1;
+      }
+      throw new Error('Aucun jour travaillé dans le calendrier.');
+    },
+
+    /** Working-time pieces covering `minutes` of work from `startMs` (one per working day). */
+    segmentsFrom(startMs: number, minutes: number) {
+      const segments: BusyInterval[] = [];
+      let remaining = minutes * MINUTE_MS;
+      let cursor = calendar.nextWorkingInstant(startMs);
+
+      while (remaining > 0 && segments.length < MAX_CALENDAR_DAYS) {
+        const window = windowOf(cursor) as { start_ms: number; end_ms: number };
+        const take = Math.min(remaining, window.end_ms - cursor);
+        segments.push({ start_ms: cursor, end_ms: cursor + take });
+        remaining -= take;
+        if (remaining > 0) {
+          cursor = calendar.nextWorkingInstant(cursor + take);
+        }
+      }
+
+      return segments;
+    },
+
+    /** True when [start, end] sits inside a single working window. */
+    fitsWorkingTime(startMs: number, endMs: number) {
+      const window = windowOf(startMs);
+      return window !== null && startMs >= window.start_ms && endMs <= window.end_ms;
+    }
+  };
+
+  return calendar;
+}
+
+export function itemResourceKey(item: Pick<PlanningItem, 'assignee_user_id' | 'team_id'>) {
+  if (item.assignee_user_id) return `user:${item.assignee_user_id}`;
+  if (item.team_id) return `team:${item.team_id}`;
+  return null;
+}
+
+export function equipmentResourceKey(equipmentId: string) {
+  return `equipment:${equipmentId}`;
+}
+
+/** Interval of `intervals` overlapping one of `segments` that ends first (the smallest jump). */
+function firstConflict(intervals: BusyInterval[], segments: BusyInterval[]) {
+  let conflict: BusyInterval | null = null;
+
+  for (const interval of intervals) {
+    for (const segment of segments) {
+      if (interval.start_ms < segment.end_ms && segment.start_ms < interval.end_ms) {
+        if (!conflict || interval.end_ms < conflict.end_ms) {
+          conflict = interval;
+        }
+      }
+    }
+  }
+
+  return conflict;
+}
+
+/** True when a proposed slot now collides with work planned since the proposal was made. */
+export function slotConflicts(busy: Map<string, BusyInterval[]>, slot: PlanningProposedSlot) {
+  const keys = [
+    ...(itemResourceKey(slot) ? [itemResourceKey(slot) as string] : []),
+    ...slot.equipment_ids.map(equipmentResourceKey)
+  ];
+  const segments = slot.segments.map((segment) => ({
+    start_ms: Date.parse(segment.start_at),
+    end_ms: Date.parse(segment.end_at)
+  }));
+
+  return firstConflict(keys.flatMap((key) => busy.get(key) ?? []), segments) !== null;
+}
+
+export function addBusy(busy: Map<string, BusyInterval[]>, key: string, interval: BusyInterval) {
+  const list = busy.get(key) ?? [];
+  list.push(interval);
+  busy.set(key, list);
+}
+
+export type ScheduleContext = {
+  calendar: WorkCalendar;
+  start_ms: number;
+  horizon_end_ms: number;
+  /** Already planned work, by resource key. Mutated as slots are placed. */
+  busy: Map<string, BusyInterval[]>;
+  /** Current span of already planned tasks, for dependency constraints. */
+  spans: Map<string, TaskSpan>;
+  dependencies: PlanningDependency[];
+  /** Equipment that cannot be booked, with the reason shown to the user. */
+  unavailable_equipment: Map<string, string>;
+};
+
+/** Input order is kept except where a dependency forces a predecessor first. */
+function dependencyOrder(inputs: PlanningAutoScheduleTask[], dependencies: PlanningDependency[]) {
+  const ids = new Set(inputs.map((input) => input.task_id));
+  const placed = new Set<string>();
+  const ordered: PlanningAutoScheduleTask[] = [];
+  const pending = [...inputs];
+
+  while (pending.length > 0) {
+    const index = pending.findIndex((input) =>
+      dependencies.every(
+        (dependency) =>
+          dependency.successor_task_id !== input.task_id ||
+          !ids.has(dependency.predecessor_task_id) ||
+          placed.has(dependency.predecessor_task_id)
+      )
+    );
+    // A cycle (only possible with synced data) falls back to input order.
+    const next = pending.splice(index >= 0 ? index : 0, 1)[0];
+    placed.add(next.task_id);
+    ordered.push(next);
+  }
+
+  return ordered;
+}
+
+export function scheduleTasks(inputs: PlanningAutoScheduleTask[], context: ScheduleContext) {
+  const slots: PlanningProposedSlot[] = [];
+  const unscheduled: Array<{ task_id: string; title: string; reason: string }> = [];
+  const inputIds = new Set(inputs.map((input) => input.task_id));
+
+  for (const input of dependencyOrder(inputs, context.dependencies)) {
+    const equipmentIds = input.equipment_ids ?? [];
+    const blocked = equipmentIds.find((id) => context.unavailable_equipment.has(id));
+    if (blocked) {
+      unscheduled.push({
+        task_id: input.task_id,
+        title: input.title,
+        reason: context.unavailable_equipment.get(blocked) as string
+      });
+      continue;
+    }
+
+    let earliest = Math.max(context.start_ms, input.earliest_start_at ? Date.parse(input.earliest_start_at) || 0 : 0);
+    let missingPredecessor: string | null = null;
+
+    for (const dependency of context.dependencies) {
+      if (dependency.successor_task_id !== input.task_id) continue;
+      const predecessor = context.spans.get(dependency.predecessor_task_id);
+      if (predecessor) {
+        earliest = Math.max(earliest, requiredSuccessorStartMs(dependency, predecessor));
+      } else if (inputIds.has(dependency.predecessor_task_id)) {
+        missingPredecessor = dependency.predecessor_task_id;
+      }
+    }
+
+    if (missingPredecessor) {
+      const title = inputs.find((candidate) => candidate.task_id === missingPredecessor)?.title ?? missingPredecessor;
+      unscheduled.push({ task_id: input.task_id, title: input.title, reason: `Prédécesseur non planifié: "${title}".` });
+      continue;
+    }
+
+    const keys = [
+      ...(itemResourceKey(input) ? [itemResourceKey(input) as string] : []),
+      ...equipmentIds.map(equipmentResourceKey)
+    ];
+
+    let cursor = earliest;
+    let segments: BusyInterval[] | null = null;
+
+    for (let attempt = 0; attempt < MAX_SLOT_ATTEMPTS && cursor < context.horizon_end_ms; attempt += 1) {
+      const candidate = context.calendar.segmentsFrom(cursor, input.duration_minutes);
+      const conflict = firstConflict(
+        keys.flatMap((key) => context.busy.get(key) ?? []),
+        candidate
+      );
+      if (!conflict) {
+        segments = candidate;
+        break;
+      }
+      cursor = conflict.end_ms;
+    }
+
+    if (segments && segments.length === 0) {
+      unscheduled.push({ task_id: input.task_id, title: input.title, reason: 'Durée invalide (1 minute minimum).' });
+      continue;
+    }
+
+    if (!segments || segments[segments.length - 1].end_ms > context.horizon_end_ms) {
+      unscheduled.push({
+        task_id: input.task_id,
+        title: input.title,
+        reason: "Aucun créneau libre sur l'horizon de planification."
+      });
+      continue;
+    }
+
+    for (const key of keys) {
+      for (const segment of segments) {
+        addBusy(context.busy, key, segment);
+      }
+    }
+
+    const startMs = segments[0].start_ms;
+    const endMs = segments[segments.length - 1].end_ms;
+    context.spans.set(input.task_id, { task_id: input.task_id, title: input.title, start_ms: startMs, end_ms: endMs });
+
+    slots.push({
+      task_id: input.task_id,
+      title: input.title,
+      start_at: new Date(startMs).toISOString(),
+      end_at: new Date(endMs).toISOString(),
+      segments: segments.map((segment) => ({
+        start_at: new Date(segment.start_ms).toISOString(),
+        end_at: new Date(segment.end_ms).toISOString()
+      })),
+      assignee_user_id: input.assignee_user_id,
+      team_id: input.team_id,
+      equipment_ids: equipmentIds
+    });
+  }
+
+  return { slots, unscheduled };
+}
+
+function findLaterStart(
+  from: number,
+  durationMs: number,
+  busy: BusyInterval[],
+  calendar: WorkCalendar | null
+) {
+  let cursor = from;
+
+  for (let attempt = 0; attempt < MAX_SLOT_ATTEMPTS; attempt += 1) {
+    if (calendar) {
+      const start = calendar.nextWorkingInstant(cursor);
+      const window = calendar.windowOf(start) as { start_ms: number; end_ms: number };
+      if (start + durationMs > window.end_ms) {
+        cursor = window.end_ms;
+        continue;
+      }
+      cursor = start;
+    }
+
+    const conflict = firstConflict(busy, [{ start_ms: cursor, end_ms: cursor + durationMs }]);
+    if (!conflict) return cursor;
+    cursor = conflict.end_ms;
+  }
+
+  return null;
+}
+
+function findEarlierEnd(
+  from: number,
+  durationMs: number,
+  busy: BusyInterval[],
+  calendar: WorkCalendar | null
+) {
+  let cursor = from;
+
+  for (let attempt = 0; attempt < MAX_SLOT_ATTEMPTS; attempt += 1) {
+    if (calendar) {
+      const end = calendar.previousWorkingInstant(cursor);
+      const window = calendar.windowOf(end - 1) as { start_ms: number; end_ms: number };
+      if (end - durationMs < window.start_ms) {
+        cursor = window.start_ms;
+        continue;
+      }
+      cursor = end;
+    }
+
+    let conflict: BusyInterval | null = null;
+    for (const interval of busy) {
+      if (interval.start_ms < cursor && cursor - durationMs < interval.end_ms) {
+        if (!conflict || interval.start_ms > conflict.start_ms) conflict = interval;
+      }
+    }
+    if (!conflict) return cursor;
+    cursor = conflict.start_ms;
+  }
+
+  return null;
+}
+
+/**
+ * For each overlap, the smallest move among "second item later" and "first item earlier" that lands on
+ * a free slot of the same resource. Items that were inside working hours stay inside working hours.
+ */
+export function suggestOverlapShifts(
+  items: PlanningItem[],
+  overlaps: PlanningOverlap[],
+  calendar: WorkCalendar
+): PlanningOverlapShift[] {
+  const shifts: PlanningOverlapShift[] = [];
+
+  for (const overlap of overlaps) {
+    const busyExcept = (excluded: PlanningItem) =>
+      items
+        .filter((item) => item.id !== excluded.id && !item.deleted_at && itemResourceKey(item) === overlap.resource_key)
+        .map((item) => ({ start_ms: Date.parse(item.start_at), end_ms: Date.parse(item.end_at) }));
+
+    const candidates: PlanningOverlapShift[] = [];
+
+    const second = overlap.second;
+    const secondStart = Date.parse(second.start_at);
+    const secondDuration = Date.parse(second.end_at) - secondStart;
+    const laterStart = findLaterStart(
+      Date.parse(overlap.first.end_at),
+      secondDuration,
+      busyExcept(second),
+      calendar.fitsWorkingTime(secondStart, secondStart + secondDuration) ? calendar : null
+    );
+    if (laterStart !== null) {
+      candidates.push({
+        overlap,
+        item: second,
+        shift_minutes: Math.round((laterStart - secondStart) / MINUTE_MS),
+        start_at: new Date(laterStart).toISOString(),
+        end_at: new Date(laterStart + secondDuration).toISOString()
+      });
+    }
+
+    const first = overlap.first;
+    const firstStart = Date.parse(first.start_at);
+    const firstEnd = Date.parse(first.end_at);
+    const earlierEnd = findEarlierEnd(
+      secondStart,
+      firstEnd - firstStart,
+      busyExcept(first),
+      calendar.fitsWorkingTime(firstStart, firstEnd) ? calendar : null
+    );
+    if (earlierEnd !== null) {
+      candidates.push({
+        overlap,
+        item: first,
+        shift_minutes: Math.round((earlierEnd - firstEnd) / MINUTE_MS),
+        start_at: new Date(earlierEnd - (firstEnd - firstStart)).toISOString(),
+        end_at: new Date(earlierEnd).toISOString()
+      });
+    }
+
+    // Ties go to moving later: pushing work back never breaks a predecessor constraint.
+    const best = candidates.sort(
+      (a, b) => Math.abs(a.shift_minutes) - Math.abs(b.shift_minutes) || b.shift_minutes - a.shift_minutes
+    )[0];
+    if (best) {
+      shifts.push(best);
+    }
+  }
+
+  return shifts;
+}
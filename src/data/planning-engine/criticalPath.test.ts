@@ -0,0 +1,123 @@
+/// <reference types="node" />
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { computeCriticalPath, computeTaskSpans, findDependencyCycle, requiredSuccessorStartMs } from './criticalPath';
+import { PlanningDependency, PlanningItem } from './types';
+
+const HOUR_MS = 3_600_000;
+const T0 = Date.parse('2026-10-19T08:00:00.000Z');
+const iso = (hours: number) => new Date(T0 + hours * HOUR_MS).toISOString();
+
+function item(taskId: string, startHours: number, endHours: number, extra: Partial<PlanningItem> = {}): PlanningItem {
+  return {
+    id: `${taskId}-${startHours}`,
+    org_id: 'org-1',
+    project_id: 'p1',
+    task_id: taskId,
+    title_snapshot: taskId.toUpperCase(),
+    start_at: iso(startHours),
+    end_at: iso(endHours),
+    created_by: 'u1',
+    created_at: iso(0),
+    updated_at: iso(0),
+    ...extra
+  };
+}
+
+function dependency(
+  predecessor: string,
+  successor: string,
+  extra: Partial<PlanningDependency> = {}
+): PlanningDependency {
+  return {
+    id: `${predecessor}-${successor}`,
+    org_id: 'org-1',
+    project_id: 'p1',
+    predecessor_task_id: predecessor,
+    successor_task_id: successor,
+    type: 'FS',
+    lag_minutes: 0,
+    created_by: 'u1',
+    created_at: iso(0),
+    updated_at: iso(0),
+    ...extra
+  };
+}
+
+describe('computeTaskSpans', () => {
+  it('merges the items of a task and ignores deleted ones', () => {
+    const spans = computeTaskSpans([
+      item('a', 0, 2),
+      item('a', 24, 26),
+      item('a', 48, 50, { deleted_at: iso(1) })
+    ]);
+
+    assert.deepEqual(spans.get('a'), { task_id: 'a', title: 'A', start_ms: T0, end_ms: T0 + 26 * HOUR_MS });
+  });
+});
+
+describe('requiredSuccessorStartMs', () => {
+  const span = { task_id: 'a', title: 'A', start_ms: T0, end_ms: T0 + 4 * HOUR_MS };
+
+  it('anchors FS on the predecessor end and SS on its start, plus the lag', () => {
+    assert.equal(requiredSuccessorStartMs({ type: 'FS', lag_minutes: 30 }, span), T0 + 4.5 * HOUR_MS);
+    assert.equal(requiredSuccessorStartMs({ type: 'SS', lag_minutes: -60 }, span), T0 - HOUR_MS);
+  });
+});
+
+describe('findDependencyCycle', () => {
+  const dependencies = [dependency('a', 'b'), dependency('b', 'c')];
+
+  it('returns the loop closed by the new dependency', () => {
+    assert.deepEqual(findDependencyCycle(dependencies, 'c', 'a'), ['c', 'a', 'b', 'c']);
+    assert.deepEqual(findDependencyCycle(dependencies, 'a', 'a'), ['a', 'a']);
+  });
+
+  it('returns null when the graph stays acyclic', () => {
+    assert.equal(findDependencyCycle(dependencies, 'a', 'c'), null);
+  });
+});
+
+describe('computeCriticalPath', () => {
+  it('marks the longest chain as critical and gives the others their float', () => {
+    // a (4h) -> c (2h), b (1h) -> c: b can slip 3h without delaying the end.
+    const result = computeCriticalPath(
+      [item('a', 0, 4), item('b', 0, 1), item('c', 4, 6)],
+      [dependency('a', 'c'), dependency('b', 'c')]
+    );
+
+    assert.deepEqual(result.critical_task_ids, ['a', 'c']);
+    assert.equal(result.duration_minutes, 360);
+    const b = result.nodes.find((node) => node.task_id === 'b');
+    assert.equal(b?.total_float_minutes, 180);
+    assert.equal(b?.late_start_at, iso(3));
+    assert.deepEqual(result.nodes.find((node) => node.task_id === 'c')?.predecessor_task_ids, ['a', 'b']);
+  });
+
+  it('uses the lag and the SS anchor in the backward pass', () => {
+    // a SS+1h -> b: a may start up to 1h before b's late start minus the lag.
+    const result = computeCriticalPath(
+      [item('a', 0, 2), item('b', 2, 6)],
+      [dependency('a', 'b', { type: 'SS', lag_minutes: 60 })]
+    );
+
+    assert.equal(result.nodes.find((node) => node.task_id === 'a')?.total_float_minutes, 60);
+    assert.deepEqual(result.critical_task_ids, ['b']);
+  });
+
+  it('ignores deleted dependencies and returns an empty path without items', () => {
+    const result = computeCriticalPath(
+      [item('a', 0, 4), item('b', 0, 1)],
+      [dependency('a', 'b', { deleted_at: iso(1) })]
+    );
+    assert.equal(result.nodes.find((node) => node.task_id === 'b')?.total_float_minutes, 180);
+
+    assert.deepEqual(computeCriticalPath([], []), {
+      nodes: [],
+      critical_task_ids: [],
+      start_at: null,
+      end_at: null,
+      duration_minutes: 0
+    });
+  });
+});
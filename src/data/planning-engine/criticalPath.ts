@@ -0,0 +1,197 @@
+import { PlanningCriticalPath, PlanningDependency, PlanningItem, PlanningScheduleNode } from './types';
+
+// Scheduling works at task level: a task spans from its first planning item start to its last item end.
+// The critical path is computed on the current dates (forward pass = the plan itself) and a backward
+// pass from the project end, so the float tells how much a task can slip before the end moves.
+
+export type TaskSpan = {
+  task_id: string;
+  title: string;
+  start_ms: number;
+  end_ms: number;
+};
+
+function parseIsoMs(value: string) {
+  const ms = Date.parse(value);
+  return Number.isFinite(ms) ? ms : null;
+}
+
+export function computeTaskSpans(items: PlanningItem[]) {
+  const spans = new Map<string, TaskSpan>();
+
+  for (const item of items) {
+    if (item.deleted_at) continue;
+    const startMs = parseIsoMs(item.start_at);
+    const endMs = parseIsoMs(item.end_at);
+    if (startMs === null || endMs === null) continue;
+
+    const current = spans.get(item.task_id);
+    if (!current) {
+      spans.set(item.task_id, { task_id: item.task_id, title: item.title_snapshot, start_ms: startMs, end_ms: endMs });
+      continue;
+    }
+
+    current.start_ms = Math.min(current.start_ms, startMs);
+    current.end_ms = Math.max(current.end_ms, endMs);
+  }
+
+  return spans;
+}
+
+/** Earliest start allowed for the successor of `dependency` by its predecessor span. */
+export function requiredSuccessorStartMs(dependency: Pick<PlanningDependency, 'type' | 'lag_minutes'>, predecessor: TaskSpan) {
+  const anchor = dependency.type === 'SS' ? predecessor.start_ms : predecessor.end_ms;
+  return anchor + dependency.lag_minutes * 60_000;
+}
+
+/**
+ * Path closed by adding `predecessor -> successor`, as task ids from the predecessor back to itself,
+ * or null when the new dependency keeps the graph acyclic.
+ */
+export function findDependencyCycle(
+  dependencies: Array<Pick<PlanningDependency, 'predecessor_task_id' | 'successor_task_id'>>,
+  predecessorTaskId: string,
+  successorTaskId: string
+) {
+  if (predecessorTaskId === successorTaskId) {
+    return [predecessorTaskId, successorTaskId];
+  }
+
+  const outgoing = new Map<string, string[]>();
+  for (const dependency of dependencies) {
+    const list = outgoing.get(dependency.predecessor_task_id) ?? [];
+    list.push(dependency.successor_task_id);
+    outgoing.set(dependency.predecessor_task_id, list);
+  }
+
+  // BFS from the successor: reaching the predecessor again means the new edge closes a loop.
+  const cameFrom = new Map<string, string>([[successorTaskId, predecessorTaskId]]);
+  const queue = [successorTaskId];
+
+  while (queue.length > 0) {
+    const current = queue.shift() as string;
+    for (const next of outgoing.get(current) ?? []) {
+      if (cameFrom.has(next)) continue;
+      cameFrom.set(next, current);
+
+      if (next === predecessorTaskId) {
+        const path = [predecessorTaskId];
+        let cursor = current;
+        while (cursor !== predecessorTaskId) {
+          path.unshift(cursor);
+          cursor = cameFrom.get(cursor) as string;
+        }
+        return [predecessorTaskId, ...path];
+      }
+
+      queue.push(next);
+    }
+  }
+
+  return null;
+}
+
+/** Task ids ordered so that every predecessor comes before its successors (Kahn). */
+function topologicalOrder(taskIds: string[], dependencies: PlanningDependency[], spans: Map<string, TaskSpan>) {
+  const indegree = new Map(taskIds.map((id) => [id, 0]));
+  for (const dependency of dependencies) {
+    indegree.set(dependency.successor_task_id, (indegree.get(dependency.successor_task_id) ?? 0) + 1);
+  }
+
+  const byStart = (a: string, b: string) => (spans.get(a)?.start_ms ?? 0) - (spans.get(b)?.start_ms ?? 0);
+  const ready = taskIds.filter((id) => indegree.get(id) === 0).sort(byStart);
+  const order: string[] = [];
+
+  while (ready.length > 0) {
+    const current = ready.shift() as string;
+    order.push(current);
+
+    for (const dependency of dependencies) {
+      if (dependency.predecessor_task_id !== current) continue;
+      const remaining = (indegree.get(dependency.successor_task_id) ?? 0) - 1;
+      indegree.set(dependency.successor_task_id, remaining);
+      if (remaining === 0) {
+        ready.push(dependency.successor_task_id);
+        ready.sort(byStart);
+      }
+    }
+  }
+
+  if (order.length !== taskIds.length) {
+    // Only reachable with cycles coming from sync: keep the remaining tasks, by start date.
+    const placed = new Set(order);
+    order.push(...taskIds.filter((id) => !placed.has(id)).sort(byStart));
+  }
+
+  return order;
+}
+
+export function computeCriticalPath(items: PlanningItem[], allDependencies: PlanningDependency[]): PlanningCriticalPath {
+  const spans = computeTaskSpans(items);
+  const dependencies = allDependencies.filter(
+    (dependency) =>
+      !dependency.deleted_at && spans.has(dependency.predecessor_task_id) && spans.has(dependency.successor_task_id)
+  );
+
+  if (spans.size === 0) {
+    return { nodes: [], critical_task_ids: [], start_at: null, end_at: null, duration_minutes: 0 };
+  }
+
+  const taskIds = [...spans.keys()];
+  const order = topologicalOrder(taskIds, dependencies, spans);
+  const projectStart = Math.min(...[...spans.values()].map((span) => span.start_ms));
+  const projectEnd = Math.max(...[...spans.values()].map((span) => span.end_ms));
+
+  // Backward pass: latest start of each task that does not push a successor or the project end.
+  const lateStart = new Map<string, number>();
+  for (let index = order.length - 1; index >= 0; index -= 1) {
+    const span = spans.get(order[index]) as TaskSpan;
+    const duration = span.end_ms - span.start_ms;
+    let lateEnd = projectEnd;
+
+    for (const dependency of dependencies) {
+      if (dependency.predecessor_task_id !== span.task_id) continue;
+      const successorLateStart = lateStart.get(dependency.successor_task_id);
+      if (successorLateStart === undefined) continue;
+
+      const lag = dependency.lag_minutes * 60_000;
+      const bound = dependency.type === 'SS' ? successorLateStart - lag + duration : successorLateStart - lag;
+      lateEnd = Math.min(lateEnd, bound);
+    }
+
+    lateStart.set(span.task_id, lateEnd - duration);
+  }
+
+  const nodes: PlanningScheduleNode[] = order.map((taskId) => {
+    const span = spans.get(taskId) as TaskSpan;
+    const late = lateStart.get(taskId) as number;
+    const duration = span.end_ms - span.start_ms;
+    const floatMinutes = Math.round((late - span.start_ms) / 60_000);
+
+    return {
+      task_id: taskId,
+      title: span.title,
+      start_at: new Date(span.start_ms).toISOString(),
+      end_at: new Date(span.end_ms).toISOString(),
+      duration_minutes: Math.round(duration / 60_000),
+      late_start_at: new Date(late).toISOString(),
+      late_end_at: new Date(late + duration).toISOString(),
+      total_float_minutes: floatMinutes,
+      critical: floatMinutes <= 0,
+      predecessor_task_ids: dependencies
+        .filter((dependency) => dependency.successor_task_id === taskId)
+        .map((dependency) => dependency.predecessor_task_id)
+    };
+  });
+
+  return {
+    nodes,
+    critical_task_ids: nodes
+      .filter((node) => node.critical)
+      .sort((a, b) => Date.parse(a.start_at) - Date.parse(b.start_at))
+      .map((node) => node.task_id),
+    start_at: new Date(projectStart).toISOString(),
+    end_at: new Date(projectEnd).toISOString(),
+    duration_minutes: Math.round((projectEnd - projectStart) / 60_000)
+  };
+}
@@ -1,13 +1,62 @@
 import * as SQLite from 'expo-sqlite';
 import { offlineDB } from '../offline/outbox';
+import { equipment } from '../equipment-management';
 import { geo } from '../geo-context';
-import { PlanningCreateInput, PlanningItem, PlanningListFilters, PlanningOverlap, PlanningUpdatePatch } from './types';
+import { tasks } from '../tasks';
+import {
+  addBusy,
+  BusyInterval,
+  createWorkCalendar,
+  equipmentResourceKey,
+  itemResourceKey,
+  scheduleTasks,
+  slotConflicts,
+  suggestOverlapShifts
+} from './autoScheduler';
+import {
+  computeCriticalPath,
+  computeTaskSpans,
+  findDependencyCycle,
+  requiredSuccessorStartMs,
+  TaskSpan
+} from './criticalPath';
+import {
+  PlanningAutoScheduleOptions,
+  PlanningAutoScheduleProposal,
+  PlanningAutoScheduleTask,
+  PlanningCalendarOptions,
+  PlanningCreateInput,
+  PlanningCriticalPath,
+  PlanningDependency,
+  PlanningDependencyInput,
+  PlanningDependencyType,
+  PlanningItem,
+  PlanningListFilters,
+  PlanningOverlap,
+  PlanningOverlapShift,
+  PlanningReschedule,
+  PlanningUpdatePatch
+} from './types';
 
 const DB_NAME = 'conformeo.db';
 const TABLE_NAME = 'planning_items';
+const DEPENDENCIES_TABLE = 'planning_dependencies';
 
 const DEFAULT_LIMIT = 50;
 const MAX_LIMIT = 500;
+/** Upper bound on successor moves for one change; only reachable with cycles coming from sync. */
+const MAX_RESCHEDULE_STEPS = 5000;
+const MAX_LAG_MINUTES = 365 * 24 * 60;
+const DEFAULT_HORIZON_DAYS = 60;
+const MAX_HORIZON_DAYS = 365;
+/** Longest task the auto-scheduler accepts: 60 days of 24h work. */
+const MAX_TASK_DURATION_MINUTES = 60 * 24 * 60;
+const MAX_SCHEDULED_EQUIPMENT = 200;
+
+const ITEM_UPGRADE_COLUMNS: Array<[string, string]> = [
+  ['series_id', 'TEXT'],
+  ['occurrence_key', 'TEXT']
+];
 
 type PlanningRow = {
   id: string;
@@ -23,6 +72,22 @@ type PlanningRow = {
   created_at: string;
   updated_at: string;
   deleted_at: string | null;
+  series_id: string | null;
+  occurrence_key: string | null;
+};
+
+type DependencyRow = {
+  id: string;
+  org_id: string;
+  project_id: string;
+  predecessor_task_id: string;
+  successor_task_id: string;
+  type: PlanningDependencyType;
+  lag_minutes: number;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+  deleted_at: string | null;
 };
 
 let dbPromise: Promise<SQLite.SQLiteDatabase> | null = null;
@@ -85,6 +150,24 @@ function mapRow(row: PlanningRow): PlanningItem {
     created_by: row.created_by,
     created_at: row.created_at,
     updated_at: row.updated_at,
+    deleted_at: toOptional(row.deleted_at),
+    series_id: toOptional(row.series_id),
+    occurrence_key: toOptional(row.occurrence_key)
+  };
+}
+
+function mapDependencyRow(row: DependencyRow): PlanningDependency {
+  return {
+    id: row.id,
+    org_id: row.org_id,
+    project_id: row.project_id,
+    predecessor_task_id: row.predecessor_task_id,
+    successor_task_id: row.successor_task_id,
+    type: row.type,
+    lag_minutes: Number(row.lag_minutes ?? 0) || 0,
+    created_by: row.created_by,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
     deleted_at: toOptional(row.deleted_at)
   };
 }
@@ -96,6 +179,17 @@ async function getDb() {
   return dbPromise;
 }
 
+async function addMissingColumns(db: SQLite.SQLiteDatabase, tableName: string, columns: Array<[string, string]>) {
+  const existing = await db.getAllAsync<{ name: string }>(`PRAGMA table_info(${tableName})`);
+  const names = new Set(existing.map((column) => column.name));
+
+  for (const [name, definition] of columns) {
+    if (!names.has(name)) {
+      await db.execAsync(`ALTER TABLE ${tableName} ADD COLUMN ${name} ${definition};`);
+    }
+  }
+}
+
 async function ensureSetup() {
   if (!setupPromise) {
     setupPromise = (async () => {
@@ -130,6 +224,33 @@ async function ensureSetup() {
 
         CREATE INDEX IF NOT EXISTS idx_planning_deleted
           ON ${TABLE_NAME}(deleted_at);
+
+        CREATE TABLE IF NOT EXISTS ${DEPENDENCIES_TABLE} (
+          id TEXT PRIMARY KEY NOT NULL,
+          org_id TEXT NOT NULL,
+          project_id TEXT NOT NULL,
+          predecessor_task_id TEXT NOT NULL,
+          successor_task_id TEXT NOT NULL,
+          type TEXT NOT NULL CHECK (type IN ('FS', 'SS')),
+          lag_minutes INTEGER NOT NULL DEFAULT 0,
+          created_by TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL,
+          deleted_at TEXT
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_planning_dependencies_project
+          ON ${DEPENDENCIES_TABLE}(org_id, project_id, deleted_at);
+
+        CREATE INDEX IF NOT EXISTS idx_planning_dependencies_predecessor
+          ON ${DEPENDENCIES_TABLE}(predecessor_task_id);
+      `);
+
+      await addMissingColumns(db, TABLE_NAME, ITEM_UPGRADE_COLUMNS);
+
+      await db.execAsync(`
+        CREATE INDEX IF NOT EXISTS idx_planning_series_occurrence
+          ON ${TABLE_NAME}(series_id, occurrence_key);
       `);
     })();
   }
@@ -148,9 +269,10 @@ async function upsert(item: PlanningItem) {
         id, org_id, project_id, task_id, title_snapshot,
         start_at, end_at,
         assignee_user_id, team_id,
-        created_by, created_at, updated_at, deleted_at
+        created_by, created_at, updated_at, deleted_at,
+        series_id, occurrence_key
       )
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `,
     item.id,
     item.org_id,
@@ -164,7 +286,9 @@ async function upsert(item: PlanningItem) {
     item.created_by,
     item.created_at,
     item.updated_at,
-    item.deleted_at ?? null
+    item.deleted_at ?? null,
+    item.series_id ?? null,
+    item.occurrence_key ?? null
   );
 
   return item;
@@ -188,6 +312,57 @@ async function getRowById(id: string, includeDeleted = false) {
   return row ?? null;
 }
 
+async function queryItems(scope: { column: 'project_id' | 'team_id'; value: string }, filters: PlanningListFilters) {
+  await ensureSetup();
+  const orgId = normalizeText(filters.org_id);
+  if (!orgId) {
+    return [];
+  }
+
+  const limitRaw = typeof filters.limit === 'number' ? Math.floor(filters.limit) : DEFAULT_LIMIT;
+  const limit = Math.max(1, Math.min(limitRaw, MAX_LIMIT));
+  const offset = Math.max(0, Math.floor(filters.offset ?? 0));
+
+  const where: string[] = ['org_id = ?', `${scope.column} = ?`, 'deleted_at IS NULL'];
+  const params: Array<string | number> = [orgId, scope.value];
+
+  if (filters.assignee_user_id) {
+    where.push('assignee_user_id = ?');
+    params.push(filters.assignee_user_id);
+  }
+
+  if (filters.team_id) {
+    where.push('team_id = ?');
+    params.push(filters.team_id);
+  }
+
+  if (filters.start_from) {
+    where.push('start_at >= ?');
+    params.push(filters.start_from);
+  }
+
+  if (filters.start_to) {
+    where.push('start_at <= ?');
+    params.push(filters.start_to);
+  }
+
+  const db = await getDb();
+  const rows = await db.getAllAsync<PlanningRow>(
+    `
+      SELECT *
+      FROM ${TABLE_NAME}
+      WHERE ${where.join(' AND ')}
+      ORDER BY start_at ASC
+      LIMIT ? OFFSET ?
+    `,
+    ...params,
+    limit,
+    offset
+  );
+
+  return rows.map(mapRow);
+}
+
 async function enqueueOperation(item: PlanningItem, type: 'CREATE' | 'UPDATE' | 'DELETE', payload: Record<string, unknown>) {
   await offlineDB.enqueueOperation({
     entity: 'planning_items',
@@ -204,10 +379,256 @@ async function enqueueOperation(item: PlanningItem, type: 'CREATE' | 'UPDATE' |
   });
 }
 
-function resourceKey(item: PlanningItem) {
-  if (item.assignee_user_id) return `user:${item.assignee_user_id}`;
-  if (item.team_id) return `team:${item.team_id}`;
-  return null;
+async function upsertDependency(dependency: PlanningDependency) {
+  await ensureSetup();
+  const db = await getDb();
+
+  await db.runAsync(
+    `
+      INSERT OR REPLACE INTO ${DEPENDENCIES_TABLE}
+      (
+        id, org_id, project_id, predecessor_task_id, successor_task_id,
+        type, lag_minutes,
+        created_by, created_at, updated_at, deleted_at
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `,
+    dependency.id,
+    dependency.org_id,
+    dependency.project_id,
+    dependency.predecessor_task_id,
+    dependency.successor_task_id,
+    dependency.type,
+    dependency.lag_minutes,
+    dependency.created_by,
+    dependency.created_at,
+    dependency.updated_at,
+    dependency.deleted_at ?? null
+  );
+
+  return dependency;
+}
+
+async function enqueueDependencyOperation(
+  dependency: PlanningDependency,
+  type: 'CREATE' | 'UPDATE' | 'DELETE',
+  payload: Record<string, unknown>
+) {
+  await offlineDB.enqueueOperation({
+    entity: 'planning_dependencies',
+    entity_id: dependency.id,
+    type,
+    payload: {
+      ...payload,
+      id: dependency.id,
+      org_id: dependency.org_id,
+      orgId: dependency.org_id,
+      project_id: dependency.project_id,
+      updated_at: dependency.updated_at
+    }
+  });
+}
+
+async function listProjectItems(orgId: string, projectId: string) {
+  await ensureSetup();
+  const db = await getDb();
+  const rows = await db.getAllAsync<PlanningRow>(
+    `
+      SELECT *
+      FROM ${TABLE_NAME}
+      WHERE org_id = ?
+        AND project_id = ?
+        AND deleted_at IS NULL
+      ORDER BY start_at ASC
+    `,
+    orgId,
+    projectId
+  );
+
+  return rows.map(mapRow);
+}
+
+async function listProjectDependencies(orgId: string, projectId: string) {
+  await ensureSetup();
+  const db = await getDb();
+  const rows = await db.getAllAsync<DependencyRow>(
+    `
+      SELECT *
+      FROM ${DEPENDENCIES_TABLE}
+      WHERE org_id = ?
+        AND project_id = ?
+        AND deleted_at IS NULL
+      ORDER BY created_at ASC
+    `,
+    orgId,
+    projectId
+  );
+
+  return rows.map(mapDependencyRow);
+}
+
+function dependencyLabel(dependency: Pick<PlanningDependency, 'type' | 'lag_minutes'>) {
+  const lag = dependency.lag_minutes === 0 ? '' : ` ${dependency.lag_minutes > 0 ? '+' : ''}${dependency.lag_minutes} min`;
+  return `${dependency.type === 'SS' ? 'début-début' : 'fin-début'}${lag}`;
+}
+
+async function taskTitle(taskId: string, spans: Map<string, TaskSpan>) {
+  const span = spans.get(taskId);
+  if (span) return span.title;
+  const task = await tasks.getById(taskId);
+  return task?.title ?? taskId;
+}
+
+/** Rejects a move that would start a task before one of its predecessors allows it. */
+async function ensurePredecessorsRespected(taskId: string, items: PlanningItem[], dependencies: PlanningDependency[]) {
+  const spans = computeTaskSpans(items);
+  const span = spans.get(taskId);
+  if (!span) return;
+
+  for (const dependency of dependencies) {
+    if (dependency.successor_task_id !== taskId) continue;
+    const predecessor = spans.get(dependency.predecessor_task_id);
+    if (!predecessor) continue;
+
+    const requiredMs = requiredSuccessorStartMs(dependency, predecessor);
+    if (span.start_ms < requiredMs) {
+      throw new Error(
+        `Dépendance non respectée (${dependencyLabel(dependency)}): "${span.title}" ne peut pas commencer avant le ${new Date(requiredMs).toLocaleString('fr-FR')} à cause de "${predecessor.title}".`
+      );
+    }
+  }
+}
+
+/**
+ * Pushes successors of `taskId` later until every dependency holds again (forward only: slack left
+ * by a predecessor moving earlier is kept). Every moved item is saved and queued for sync.
+ */
+async function rescheduleSuccessors(
+  taskId: string,
+  items: PlanningItem[],
+  dependencies: PlanningDependency[]
+): Promise<PlanningReschedule[]> {
+  const byTask = new Map<string, PlanningItem[]>();
+  for (const item of items) {
+    const list = byTask.get(item.task_id) ?? [];
+    list.push(item);
+    byTask.set(item.task_id, list);
+  }
+
+  const spans = computeTaskSpans(items);
+  const moves = new Map<string, PlanningReschedule>();
+  const queue = [taskId];
+  let steps = 0;
+
+  while (queue.length > 0 && steps < MAX_RESCHEDULE_STEPS) {
+    const current = queue.shift() as string;
+    const predecessor = spans.get(current);
+    if (!predecessor) continue;
+
+    for (const dependency of dependencies) {
+      if (dependency.predecessor_task_id !== current) continue;
+      const successor = spans.get(dependency.successor_task_id);
+      if (!successor) continue;
+
+      const shiftMs = requiredSuccessorStartMs(dependency, predecessor) - successor.start_ms;
+      if (shiftMs <= 0) continue;
+      steps += 1;
+
+      const updatedAt = nowIso();
+      const shifted = (byTask.get(successor.task_id) ?? []).map((item) => {
+        const next: PlanningItem = {
+          ...item,
+          start_at: new Date(Date.parse(item.start_at) + shiftMs).toISOString(),
+          end_at: new Date(Date.parse(item.end_at) + shiftMs).toISOString(),
+          updated_at: updatedAt
+        };
+        const previous = moves.get(item.id);
+        moves.set(item.id, {
+          item: next,
+          previous_start_at: previous?.previous_start_at ?? item.start_at,
+          previous_end_at: previous?.previous_end_at ?? item.end_at,
+          shift_minutes: (previous?.shift_minutes ?? 0) + Math.round(shiftMs / 60000),
+          dependency_id: dependency.id
+        });
+        return next;
+      });
+
+      byTask.set(successor.task_id, shifted);
+      successor.start_ms += shiftMs;
+      successor.end_ms += shiftMs;
+      queue.push(successor.task_id);
+    }
+  }
+
+  for (const move of moves.values()) {
+    await upsert(move.item);
+    await enqueueOperation(move.item, 'UPDATE', {
+      patch: { start_at: move.item.start_at, end_at: move.item.end_at },
+      data: move.item,
+      rescheduled_by_dependency_id: move.dependency_id
+    });
+  }
+
+  return [...moves.values()];
+}
+
+/** Planned work of the whole organization ending after `fromIso`: resources are shared across projects. */
+async function listOrgItemsEndingAfter(orgId: string, fromIso: string) {
+  await ensureSetup();
+  const db = await getDb();
+  const rows = await db.getAllAsync<PlanningRow>(
+    `
+      SELECT *
+      FROM ${TABLE_NAME}
+      WHERE org_id = ?
+        AND deleted_at IS NULL
+        AND end_at > ?
+      ORDER BY start_at ASC
+    `,
+    orgId,
+    fromIso
+  );
+
+  return rows.map(mapRow);
+}
+
+/** Equipment linked to each task, and the equipment that cannot be booked at all. */
+async function loadEquipmentRequirements(orgId: string) {
+  const list = await equipment.list({ org_id: orgId, status: 'ALL', limit: MAX_SCHEDULED_EQUIPMENT });
+  const byTask = new Map<string, string[]>();
+  const unavailable = new Map<string, string>();
+
+  for (const item of list) {
+    if (item.status === 'MAINTENANCE') {
+      unavailable.set(item.id, `Équipement en maintenance: ${item.name}.`);
+    } else if (item.status === 'OUT_OF_SERVICE') {
+      unavailable.set(item.id, `Équipement hors service: ${item.name}.`);
+    }
+
+    for (const link of await equipment.listTaskLinks(item.id, orgId)) {
+      byTask.set(link.task_id, [...(byTask.get(link.task_id) ?? []), item.id]);
+    }
+  }
+
+  return { byTask, unavailable };
+}
+
+/** Busy intervals by resource key: assignee or team of each item, plus the equipment linked to its task. */
+function buildBusyMap(items: PlanningItem[], equipmentByTask: Map<string, string[]>) {
+  const busy = new Map<string, BusyInterval[]>();
+
+  for (const item of items) {
+    const interval = { start_ms: Date.parse(item.start_at), end_ms: Date.parse(item.end_at) };
+    if (!Number.isFinite(interval.start_ms) || !Number.isFinite(interval.end_ms)) continue;
+
+    const key = itemResourceKey(item);
+    if (key) addBusy(busy, key, interval);
+    for (const equipmentId of equipmentByTask.get(item.task_id) ?? []) {
+      addBusy(busy, equipmentResourceKey(equipmentId), interval);
+    }
+  }
+
+  return busy;
 }
 
 export const planning = {
@@ -243,7 +664,9 @@ export const planning = {
       team_id: toOptional(input.team_id),
       created_by: createdBy,
       created_at: createdAt,
-      updated_at: createdAt
+      updated_at: createdAt,
+      series_id: toOptional(input.series_id),
+      occurrence_key: toOptional(input.occurrence_key)
     };
 
     await upsert(item);
@@ -261,6 +684,15 @@ export const planning = {
   },
 
   async update(id: string, patch: PlanningUpdatePatch): Promise<PlanningItem> {
+    const result = await this.updateWithReschedule(id, patch);
+    return result.item;
+  },
+
+  /** Same as `update`, also returning the successors moved to keep dependencies satisfied. */
+  async updateWithReschedule(
+    id: string,
+    patch: PlanningUpdatePatch
+  ): Promise<{ item: PlanningItem; rescheduled: PlanningReschedule[] }> {
     const row = await getRowById(id, true);
     if (!row) {
       throw new Error('Planning introuvable.');
@@ -290,9 +722,23 @@ export const planning = {
       throw new Error('title_snapshot trop court.');
     }
 
+    const moved = !next.deleted_at && (next.start_at !== current.start_at || next.end_at !== current.end_at);
+    let projectItems: PlanningItem[] = [];
+    let dependencies: PlanningDependency[] = [];
+
+    if (moved) {
+      dependencies = await listProjectDependencies(current.org_id, current.project_id);
+      projectItems = (await listProjectItems(current.org_id, current.project_id)).map((item) =>
+        item.id === next.id ? next : item
+      );
+      await ensurePredecessorsRespected(next.task_id, projectItems, dependencies);
+    }
+
     await upsert(next);
     await enqueueOperation(next, 'UPDATE', { patch, data: next });
-    return next;
+
+    const rescheduled = moved ? await rescheduleSuccessors(next.task_id, projectItems, dependencies) : [];
+    return { item: next, rescheduled };
   },
 
   async softDelete(id: string) {
@@ -322,62 +768,276 @@ export const planning = {
   },
 
   async listByProject(projectId: string, filters: PlanningListFilters): Promise<PlanningItem[]> {
-    await ensureSetup();
-    const orgId = normalizeText(filters.org_id);
     const pid = normalizeText(projectId);
-    if (!orgId || !pid) {
+    if (!pid) {
       return [];
     }
 
-    const limitRaw = typeof filters.limit === 'number' ? Math.floor(filters.limit) : DEFAULT_LIMIT;
-    const limit = Math.max(1, Math.min(limitRaw, MAX_LIMIT));
-    const offset = Math.max(0, Math.floor(filters.offset ?? 0));
+    return queryItems({ column: 'project_id', value: pid }, filters);
+  },
+
+  /** Items of a team across all the projects of the org (calendar exports). */
+  async listByTeam(teamId: string, filters: PlanningListFilters): Promise<PlanningItem[]> {
+    const tid = normalizeText(teamId);
+    if (!tid) {
+      return [];
+    }
 
-    const where: string[] = ['org_id = ?', 'project_id = ?', 'deleted_at IS NULL'];
-    const params: Array<string | number> = [orgId, pid];
+    return queryItems({ column: 'team_id', value: tid }, filters);
+  },
+
+  async addDependency(
+    input: PlanningDependencyInput
+  ): Promise<{ dependency: PlanningDependency; rescheduled: PlanningReschedule[] }> {
+    await ensureSetup();
+
+    const orgId = normalizeText(input.org_id);
+    const projectId = normalizeText(input.project_id);
+    const predecessorTaskId = normalizeText(input.predecessor_task_id);
+    const successorTaskId = normalizeText(input.successor_task_id);
+    const createdBy = normalizeText(input.created_by);
+    const type = input.type ?? 'FS';
+    const lagMinutes = Math.round(input.lag_minutes ?? 0);
 
-    if (filters.assignee_user_id) {
-      where.push('assignee_user_id = ?');
-      params.push(filters.assignee_user_id);
+    if (!orgId) throw new Error('org_id requis.');
+    if (!projectId) throw new Error('project_id requis.');
+    if (!predecessorTaskId || !successorTaskId) throw new Error('Tâches prédécesseur et successeur requises.');
+    if (!createdBy) throw new Error('created_by requis.');
+    if (type !== 'FS' && type !== 'SS') throw new Error(`Type de dépendance invalide: ${type}`);
+    if (!Number.isFinite(lagMinutes) || Math.abs(lagMinutes) > MAX_LAG_MINUTES) {
+      throw new Error('Décalage invalide (365 jours maximum).');
     }
 
-    if (filters.team_id) {
-      where.push('team_id = ?');
-      params.push(filters.team_id);
+    for (const taskId of [predecessorTaskId, successorTaskId]) {
+      const task = await tasks.getById(taskId);
+      if (!task) throw new Error('Tâche introuvable.');
+      if (task.project_id !== projectId) throw new Error('Les deux tâches doivent appartenir au chantier.');
     }
 
-    if (filters.start_from) {
-      where.push('start_at >= ?');
-      params.push(filters.start_from);
+    const [items, dependencies] = await Promise.all([
+      listProjectItems(orgId, projectId),
+      listProjectDependencies(orgId, projectId)
+    ]);
+
+    if (
+      dependencies.some(
+        (dependency) =>
+          dependency.predecessor_task_id === predecessorTaskId && dependency.successor_task_id === successorTaskId
+      )
+    ) {
+      throw new Error('Cette dépendance existe déjà.');
     }
 
-    if (filters.start_to) {
-      where.push('start_at <= ?');
-      params.push(filters.start_to);
+    const cycle = findDependencyCycle(dependencies, predecessorTaskId, successorTaskId);
+    if (cycle) {
+      const spans = computeTaskSpans(items);
+      const titles: string[] = [];
+      for (const taskId of cycle) {
+        titles.push(`"${await taskTitle(taskId, spans)}"`);
+      }
+      throw new Error(`Dépendance circulaire refusée: ${titles.join(' → ')}.`);
     }
 
+    const createdAt = nowIso();
+    const dependency: PlanningDependency = {
+      id: createUuid(),
+      org_id: orgId,
+      project_id: projectId,
+      predecessor_task_id: predecessorTaskId,
+      successor_task_id: successorTaskId,
+      type,
+      lag_minutes: lagMinutes,
+      created_by: createdBy,
+      created_at: createdAt,
+      updated_at: createdAt
+    };
+
+    await upsertDependency(dependency);
+    await enqueueDependencyOperation(dependency, 'CREATE', { data: dependency });
+
+    const rescheduled = await rescheduleSuccessors(predecessorTaskId, items, [...dependencies, dependency]);
+    return { dependency, rescheduled };
+  },
+
+  async removeDependency(id: string) {
+    await ensureSetup();
     const db = await getDb();
-    const rows = await db.getAllAsync<PlanningRow>(
+    const row = await db.getFirstAsync<DependencyRow>(
       `
         SELECT *
-        FROM ${TABLE_NAME}
-        WHERE ${where.join(' AND ')}
-        ORDER BY start_at ASC
-        LIMIT ? OFFSET ?
+        FROM ${DEPENDENCIES_TABLE}
+        WHERE id = ?
+        LIMIT 1
       `,
-      ...params,
-      limit,
-      offset
+      id
+    );
+
+    if (!row || row.deleted_at) {
+      return;
+    }
+
+    const next: PlanningDependency = {
+      ...mapDependencyRow(row),
+      deleted_at: nowIso(),
+      updated_at: nowIso()
+    };
+
+    await upsertDependency(next);
+    await enqueueDependencyOperation(next, 'UPDATE', { patch: { deleted_at: next.deleted_at }, data: next });
+  },
+
+  async listDependencies(projectId: string, orgId: string): Promise<PlanningDependency[]> {
+    const oid = normalizeText(orgId);
+    const pid = normalizeText(projectId);
+    if (!oid || !pid) {
+      return [];
+    }
+
+    return listProjectDependencies(oid, pid);
+  },
+
+  /** Critical path over all planning items of the project (not only a listed page). */
+  async getCriticalPath(projectId: string, orgId: string): Promise<PlanningCriticalPath> {
+    const oid = normalizeText(orgId);
+    const pid = normalizeText(projectId);
+    if (!oid || !pid) {
+      return computeCriticalPath([], []);
+    }
+
+    const [items, dependencies] = await Promise.all([listProjectItems(oid, pid), listProjectDependencies(oid, pid)]);
+    return computeCriticalPath(items, dependencies);
+  },
+
+  computeCriticalPath(items: PlanningItem[], dependencies: PlanningDependency[]): PlanningCriticalPath {
+    return computeCriticalPath(items, dependencies);
+  },
+
+  /**
+   * Conflict-free plan for tasks not planned yet: earliest slots on working days (French public holidays
+   * excluded) where the assignee or team and the linked equipment are free, dependencies respected.
+   * Nothing is written: see `acceptSchedule`.
+   */
+  async proposeSchedule(
+    inputs: PlanningAutoScheduleTask[],
+    options: PlanningAutoScheduleOptions
+  ): Promise<PlanningAutoScheduleProposal> {
+    await ensureSetup();
+
+    const orgId = normalizeText(options.org_id);
+    const projectId = normalizeText(options.project_id);
+    const startMs = parseIsoMs(normalizeText(options.start_at));
+    const horizonDays = Math.max(1, Math.min(Math.floor(options.horizon_days ?? DEFAULT_HORIZON_DAYS), MAX_HORIZON_DAYS));
+
+    if (!orgId) throw new Error('org_id requis.');
+    if (!projectId) throw new Error('project_id requis.');
+    if (startMs === null) throw new Error('Date de début invalide (start_at).');
+
+    for (const input of inputs) {
+      if (!normalizeText(input.task_id)) throw new Error('task_id requis.');
+      // Checked after rounding: 0.3 min would round to an empty slot.
+      if (!Number.isFinite(input.duration_minutes) || Math.round(input.duration_minutes) < 1) {
+        throw new Error(`Durée invalide pour "${input.title}" (1 minute minimum).`);
+      }
+      if (Math.round(input.duration_minutes) > MAX_TASK_DURATION_MINUTES) {
+        throw new Error(`Durée trop longue pour "${input.title}" (60 jours maximum).`);
+      }
+    }
+
+    const calendar = createWorkCalendar(options);
+    const fromIso = new Date(startMs).toISOString();
+    const [orgItems, projectItems, dependencies, requirements] = await Promise.all([
+      listOrgItemsEndingAfter(orgId, fromIso),
+      listProjectItems(orgId, projectId),
+      listProjectDependencies(orgId, projectId),
+      loadEquipmentRequirements(orgId)
+    ]);
+
+    const result = scheduleTasks(
+      inputs.map((input) => ({
+        ...input,
+        duration_minutes: Math.round(input.duration_minutes),
+        equipment_ids: input.equipment_ids ?? requirements.byTask.get(input.task_id) ?? []
+      })),
+      {
+        calendar,
+        start_ms: startMs,
+        horizon_end_ms: startMs + horizonDays * 24 * 60 * 60 * 1000,
+        busy: buildBusyMap(orgItems, requirements.byTask),
+        spans: computeTaskSpans(projectItems),
+        dependencies,
+        unavailable_equipment: requirements.unavailable
+      }
     );
 
-    return rows.map(mapRow);
+    return {
+      org_id: orgId,
+      project_id: projectId,
+      generated_at: nowIso(),
+      slots: result.slots,
+      unscheduled: result.unscheduled
+    };
+  },
+
+  /**
+   * Creates the planning items of a proposal (one per working-day segment). Refused as a whole when
+   * work planned since the proposal collides with one of its slots.
+   */
+  async acceptSchedule(proposal: PlanningAutoScheduleProposal, createdBy: string): Promise<PlanningItem[]> {
+    if (proposal.slots.length === 0) {
+      return [];
+    }
+
+    const earliest = proposal.slots.reduce(
+      (min, slot) => (slot.start_at < min ? slot.start_at : min),
+      proposal.slots[0].start_at
+    );
+    const [orgItems, requirements] = await Promise.all([
+      listOrgItemsEndingAfter(proposal.org_id, earliest),
+      loadEquipmentRequirements(proposal.org_id)
+    ]);
+    const busy = buildBusyMap(orgItems, requirements.byTask);
+
+    const stale = proposal.slots.find((slot) => slotConflicts(busy, slot));
+    if (stale) {
+      throw new Error(`Le planning a changé depuis la proposition ("${stale.title}"): relancez la planification.`);
+    }
+
+    const created: PlanningItem[] = [];
+    for (const slot of proposal.slots) {
+      for (const segment of slot.segments) {
+        created.push(
+          await this.create({
+            org_id: proposal.org_id,
+            project_id: proposal.project_id,
+            task_id: slot.task_id,
+            title_snapshot: slot.title,
+            start_at: segment.start_at,
+            end_at: segment.end_at,
+            assignee_user_id: slot.assignee_user_id,
+            team_id: slot.team_id,
+            created_by: createdBy
+          })
+        );
+      }
+    }
+
+    return created;
+  },
+
+  /** Minimal move resolving each overlap of `items` (same input as `computeOverlaps`). */
+  suggestOverlapShifts(items: PlanningItem[], options: PlanningCalendarOptions = {}): PlanningOverlapShift[] {
+    return suggestOverlapShifts(items, this.computeOverlaps(items), createWorkCalendar(options));
+  },
+
+  async applyOverlapShift(shift: PlanningOverlapShift) {
+    return this.updateWithReschedule(shift.item.id, { start_at: shift.start_at, end_at: shift.end_at });
   },
 
   computeOverlaps(items: PlanningItem[]): PlanningOverlap[] {
     const byResource = new Map<string, PlanningItem[]>();
 
     for (const item of items) {
-      const key = resourceKey(item);
+      const key = itemResourceKey(item);
       if (!key) {
         continue;
       }
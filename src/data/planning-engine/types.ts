@@ -12,6 +12,9 @@ export type PlanningItem = {
   created_at: string;
   updated_at: string;
   deleted_at?: string;
+  /** Recurring series that generated this item, and the original start of its occurrence (ISO). */
+  series_id?: string;
+  occurrence_key?: string;
 };
 
 export type PlanningCreateInput = {
@@ -25,6 +28,8 @@ export type PlanningCreateInput = {
   assignee_user_id?: string;
   team_id?: string;
   created_by: string;
+  series_id?: string;
+  occurrence_key?: string;
 };
 
 export type PlanningUpdatePatch = Partial<{
@@ -53,3 +58,130 @@ export type PlanningOverlap = {
   overlap_minutes: number;
 };
 
+
+/** FS: the successor starts after the predecessor ends. SS: the successor starts after the predecessor starts. */
+export type PlanningDependencyType = 'FS' | 'SS';
+
+export type PlanningDependency = {
+  id: string;
+  org_id: string;
+  project_id: string;
+  predecessor_task_id: string;
+  successor_task_id: string;
+  type: PlanningDependencyType;
+  /** Added to the constraint; negative values allow overlap. */
+  lag_minutes: number;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+  deleted_at?: string;
+};
+
+export type PlanningDependencyInput = {
+  org_id: string;
+  project_id: string;
+  predecessor_task_id: string;
+  successor_task_id: string;
+  type?: PlanningDependencyType;
+  lag_minutes?: number;
+  created_by: string;
+};
+
+/** Items moved by the automatic rescheduling of successors. */
+export type PlanningReschedule = {
+  item: PlanningItem;
+  previous_start_at: string;
+  previous_end_at: string;
+  shift_minutes: number;
+  /** Dependency that forced the move. */
+  dependency_id: string;
+};
+
+/** One task of the schedule, spanning all its planning items. */
+export type PlanningScheduleNode = {
+  task_id: string;
+  title: string;
+  start_at: string;
+  end_at: string;
+  duration_minutes: number;
+  late_start_at: string;
+  late_end_at: string;
+  /** Delay the task can take without moving the end of the project. */
+  total_float_minutes: number;
+  critical: boolean;
+  predecessor_task_ids: string[];
+};
+
+export type PlanningCriticalPath = {
+  nodes: PlanningScheduleNode[];
+  /** Critical tasks, in schedule order. */
+  critical_task_ids: string[];
+  start_at: string | null;
+  end_at: string | null;
+  duration_minutes: number;
+};
+
+/** Working window applied to every working day (device local time). */
+export type PlanningWorkingHours = {
+  /** Days worked, as `Date.getDay()` (0 = dimanche ... 6 = samedi). */
+  week_days: number[];
+  /** Minutes since midnight. */
+  start_minute: number;
+  end_minute: number;
+};
+
+export type PlanningCalendarOptions = {
+  working_hours?: PlanningWorkingHours;
+  /** Adds Vendredi saint and 26 decembre (Alsace-Moselle). */
+  alsace_moselle?: boolean;
+};
+
+export type PlanningAutoScheduleTask = {
+  task_id: string;
+  title: string;
+  /** Working time needed; split over several days (one planning item per day) when longer than a day. */
+  duration_minutes: number;
+  assignee_user_id?: string;
+  team_id?: string;
+  /** Defaults to the equipment linked to the task (`equipment.listTaskLinks`). */
+  equipment_ids?: string[];
+  earliest_start_at?: string;
+};
+
+export type PlanningAutoScheduleOptions = PlanningCalendarOptions & {
+  org_id: string;
+  project_id: string;
+  start_at: string;
+  /** Search limit from `start_at`; tasks that do not fit are reported as unscheduled. */
+  horizon_days?: number;
+};
+
+export type PlanningProposedSlot = {
+  task_id: string;
+  title: string;
+  start_at: string;
+  end_at: string;
+  /** Working-day pieces of the slot, each one becoming a planning item. */
+  segments: Array<{ start_at: string; end_at: string }>;
+  assignee_user_id?: string;
+  team_id?: string;
+  equipment_ids: string[];
+};
+
+export type PlanningAutoScheduleProposal = {
+  org_id: string;
+  project_id: string;
+  generated_at: string;
+  slots: PlanningProposedSlot[];
+  unscheduled: Array<{ task_id: string; title: string; reason: string }>;
+};
+
+/** Smallest move of one of the two items that removes the overlap without creating another one. */
+export type PlanningOverlapShift = {
+  overlap: PlanningOverlap;
+  item: PlanningItem;
+  /** Positive = later, negative = earlier. */
+  shift_minutes: number;
+  start_at: string;
+  end_at: string;
+};
@@ -0,0 +1,178 @@
+/// <reference types="node" />
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { formatIcalendar, isAllDayRange, parseIcalDuration, parseIcalendar } from './ical';
+import type { IcalEvent } from './types';
+
+const GENERATED_AT = '2026-10-19T06:00:00.000Z';
+
+function localDay(month: number, day: number) {
+  return new Date(2026, month, day).toISOString();
+}
+
+function event(overrides: Partial<IcalEvent> = {}): IcalEvent {
+  return {
+    uid: 'item-1@conformeo',
+    summary: 'Coulage dalle',
+    start_at: '2026-10-19T06:00:00.000Z',
+    end_at: '2026-10-19T08:00:00.000Z',
+    all_day: false,
+    exdates: [],
+    sequence: 0,
+    ...overrides
+  };
+}
+
+function calendar(...body: string[]) {
+  return ['BEGIN:VCALENDAR', 'VERSION:2.0', ...body, 'END:VCALENDAR'].join('\r\n');
+}
+
+describe('formatIcalendar', () => {
+  it('writes all-day events and their exceptions as dates', () => {
+    const text = formatIcalendar(
+      [
+        event({
+          all_day: true,
+          start_at: localDay(9, 19),
+          end_at: localDay(9, 20),
+          rrule: 'FREQ=DAILY;COUNT=5',
+          exdates: [localDay(9, 21)],
+          recurrence_id: localDay(9, 22)
+        })
+      ],
+      { generated_at: GENERATED_AT }
+    );
+
+    assert.match(text, /\r\nDTSTART;VALUE=DATE:20261019\r\nDTEND;VALUE=DATE:20261020\r\n/);
+    assert.match(text, /\r\nEXDATE;VALUE=DATE:20261021\r\n/);
+    assert.match(text, /\r\nRECURRENCE-ID;VALUE=DATE:20261022\r\n/);
+  });
+
+  it('writes timed events and their exceptions in UTC', () => {
+    const text = formatIcalendar([event({ exdates: ['2026-10-20T06:00:00.000Z'] })], { generated_at: GENERATED_AT });
+
+    assert.match(text, /\r\nDTSTART:20261019T060000Z\r\n/);
+    assert.match(text, /\r\nEXDATE:20261020T060000Z\r\n/);
+    assert.ok(text.endsWith('END:VEVENT\r\nEND:VCALENDAR\r\n'));
+  });
+
+  it('folds long lines at 75 octets without splitting characters', () => {
+    const text = formatIcalendar([event({ summary: 'Réservation grue à tour — '.repeat(6) })], { generated_at: GENERATED_AT });
+
+    for (const line of text.split('\r\n')) {
+      assert.ok(Buffer.byteLength(line, 'utf8') <= 75, line);
+    }
+  });
+});
+
+describe('parseIcalendar', () => {
+  it('round-trips events, including escaped text and all-day exceptions', () => {
+    const source = [
+      event({ summary: 'Dalle; niveau 1, zone B', description: 'Ligne 1\nLigne 2', task_id: 'task-1', sequence: 2 }),
+      event({
+        uid: 'item-2@conformeo',
+        all_day: true,
+        start_at: localDay(9, 19),
+        end_at: localDay(9, 20),
+        rrule: 'FREQ=WEEKLY;BYDAY=MO',
+        exdates: [localDay(9, 26)]
+      })
+    ];
+
+    const parsed = parseIcalendar(formatIcalendar(source, { calendar_name: 'Chantier A', generated_at: GENERATED_AT }));
+
+    assert.equal(parsed.calendar_name, 'Chantier A');
+    assert.deepEqual(parsed.warnings, []);
+    assert.equal(parsed.events[0].summary, 'Dalle; niveau 1, zone B');
+    assert.equal(parsed.events[0].description, 'Ligne 1\nLigne 2');
+    assert.equal(parsed.events[0].task_id, 'task-1');
+    assert.equal(parsed.events[0].sequence, 2);
+    assert.equal(parsed.events[1].all_day, true);
+    assert.equal(parsed.events[1].start_at, localDay(9, 19));
+    assert.deepEqual(parsed.events[1].exdates, [localDay(9, 26)]);
+  });
+
+  it('converts TZID times, Outlook zone names and X-WR-TIMEZONE declared after the events', () => {
+    const parsed = parseIcalendar(
+      calendar(
+        'BEGIN:VEVENT',
+        'UID:a',
+        'DTSTART;TZID=Europe/Paris:20261019T080000',
+        'DTEND;TZID="Romance Standard Time":20261019T100000',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'UID:b',
+        'DTSTART:20261026T080000',
+        'DURATION:PT1H30M',
+        'END:VEVENT',
+        'X-WR-TIMEZONE:Europe/Paris'
+      )
+    );
+
+    assert.equal(parsed.events[0].start_at, '2026-10-19T06:00:00.000Z');
+    assert.equal(parsed.events[0].end_at, '2026-10-19T08:00:00.000Z');
+    // After the switch to winter time.
+    assert.equal(parsed.events[1].start_at, '2026-10-26T07:00:00.000Z');
+    assert.equal(parsed.events[1].end_at, '2026-10-26T08:30:00.000Z');
+  });
+
+  it('applies the RFC defaults for a missing end and unfolds folded lines', () => {
+    const parsed = parseIcalendar(
+      calendar(
+        'BEGIN:VEVENT',
+        'UID:day',
+        'DTSTART;VALUE=DATE:20261019',
+        'SUMMARY:Réunion de ',
+        ' chantier',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'UID:instant',
+        'DTSTART:20261019T060000Z',
+        'END:VEVENT'
+      )
+    );
+
+    assert.equal(parsed.events[0].summary, 'Réunion de chantier');
+    assert.equal(parsed.events[0].end_at, localDay(9, 20));
+    assert.equal(parsed.events[1].end_at, '2026-10-19T07:00:00.000Z');
+  });
+
+  it('reports ignored events and unknown zones as warnings', () => {
+    const parsed = parseIcalendar(
+      calendar(
+        'BEGIN:VEVENT',
+        'SUMMARY:Sans identifiant',
+        'DTSTART:20261019T060000Z',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'UID:z',
+        'DTSTART;TZID=Mars/Olympus:20261019T080000',
+        'END:VEVENT'
+      )
+    );
+
+    assert.equal(parsed.events.length, 1);
+    assert.deepEqual(parsed.warnings, [
+      'Événement ignoré (UID ou DTSTART manquant): Sans identifiant.',
+      `Fuseau horaire inconnu "Mars/Olympus": heure locale de l'appareil utilisée.`
+    ]);
+  });
+
+  it('rejects a file without VCALENDAR', () => {
+    assert.throws(() => parseIcalendar('BEGIN:VEVENT\r\nEND:VEVENT'), /BEGIN:VCALENDAR absent/);
+  });
+});
+
+describe('iCal helpers', () => {
+  it('parses ISO 8601 durations', () => {
+    assert.equal(parseIcalDuration('PT1H30M'), 90 * 60_000);
+    assert.equal(parseIcalDuration('P1W2D'), 9 * 24 * 3_600_000);
+    assert.equal(parseIcalDuration('-PT15M'), -15 * 60_000);
+    assert.equal(parseIcalDuration('1 heure'), null);
+  });
+
+  it('detects ranges spanning whole local days', () => {
+    assert.equal(isAllDayRange(localDay(9, 19), localDay(9, 21)), true);
+    assert.equal(isAllDayRange('2026-10-19T06:00:00.000Z', '2026-10-19T08:00:00.000Z'), false);
+  });
+});
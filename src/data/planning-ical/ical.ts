@@ -0,0 +1,402 @@
+import type { IcalEvent, IcalEventStatus, IcalParseResult } from './types';
+
+const PROD_ID = '-//Conformeo//Planning//FR';
+const MAX_LINE_OCTETS = 75;
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/** Outlook / Exchange zone names seen in French exports, mapped to IANA. */
+const WINDOWS_TIME_ZONES: Record<string, string> = {
+  'Romance Standard Time': 'Europe/Paris',
+  'W. Europe Standard Time': 'Europe/Berlin',
+  'Central Europe Standard Time': 'Europe/Budapest',
+  'Central European Standard Time': 'Europe/Warsaw',
+  'GMT Standard Time': 'Europe/London',
+  'Greenwich Standard Time': 'Atlantic/Reykjavik',
+  'UTC': 'UTC',
+  'Coordinated Universal Time': 'UTC',
+  'Reunion Standard Time': 'Indian/Reunion',
+  'SA Western Standard Time': 'America/La_Paz',
+  'Mauritius Standard Time': 'Indian/Mauritius'
+};
+
+type ContentLine = {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+};
+
+type ParsedTime = {
+  iso: string;
+  all_day: boolean;
+};
+
+function pad(value: number, length = 2) {
+  return String(value).padStart(length, '0');
+}
+
+function utf8Length(char: string) {
+  const code = char.codePointAt(0) ?? 0;
+  if (code < 0x80) return 1;
+  if (code < 0x800) return 2;
+  if (code < 0x10000) return 3;
+  return 4;
+}
+
+/** RFC 5545 §3.1: lines longer than 75 octets are folded (CRLF + space). */
+function foldLine(line: string) {
+  const chunks: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of Array.from(line)) {
+    const size = utf8Length(char);
+    const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      chunks.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  chunks.push(current);
+
+  return chunks.join('\r\n ');
+}
+
+export function escapeIcalText(value: string) {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+export function unescapeIcalText(value: string) {
+  return value.replace(/\\([\\;,nN])/g, (_match, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+}
+
+function formatUtcDateTime(iso: string) {
+  const date = new Date(iso);
+  return `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}T${pad(date.getUTCHours())}${pad(
+    date.getUTCMinutes()
+  )}${pad(date.getUTCSeconds())}Z`;
+}
+
+function formatLocalDate(iso: string) {
+  const date = new Date(iso);
+  return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`;
+}
+
+function isLocalMidnight(iso: string) {
+  const date = new Date(iso);
+  return date.getHours() === 0 && date.getMinutes() === 0 && date.getSeconds() === 0 && date.getMilliseconds() === 0;
+}
+
+/** A planning item spanning whole local days is exported as an all-day event. */
+export function isAllDayRange(startAt: string, endAt: string) {
+  return isLocalMidnight(startAt) && isLocalMidnight(endAt) && Date.parse(endAt) - Date.parse(startAt) >= DAY_MS - HOUR_MS;
+}
+
+function formatEvent(event: IcalEvent, generatedAt: string) {
+  const lines = ['BEGIN:VEVENT', `UID:${event.uid}`, `DTSTAMP:${formatUtcDateTime(event.updated_at ?? generatedAt)}`];
+
+  if (event.all_day) {
+    lines.push(`DTSTART;VALUE=DATE:${formatLocalDate(event.start_at)}`, `DTEND;VALUE=DATE:${formatLocalDate(event.end_at)}`);
+  } else {
+    lines.push(`DTSTART:${formatUtcDateTime(event.start_at)}`, `DTEND:${formatUtcDateTime(event.end_at)}`);
+  }
+
+  lines.push(`SUMMARY:${escapeIcalText(event.summary)}`);
+  if (event.description) lines.push(`DESCRIPTION:${escapeIcalText(event.description)}`);
+  if (event.rrule) lines.push(`RRULE:${event.rrule}`);
+  // EXDATE and RECURRENCE-ID must have the value type of DTSTART (RFC 5545 §3.8.5.1, §3.8.4.4).
+  const occurrence = (iso: string) => (event.all_day ? `;VALUE=DATE:${formatLocalDate(iso)}` : `:${formatUtcDateTime(iso)}`);
+  for (const exdate of event.exdates) lines.push(`EXDATE${occurrence(exdate)}`);
+  if (event.recurrence_id) lines.push(`RECURRENCE-ID${occurrence(event.recurrence_id)}`);
+  if (event.updated_at) lines.push(`LAST-MODIFIED:${formatUtcDateTime(event.updated_at)}`);
+  lines.push(`SEQUENCE:${Math.max(0, Math.floor(event.sequence))}`);
+  lines.push(`STATUS:${event.status ?? 'CONFIRMED'}`);
+  if (event.task_id) lines.push(`X-CONFORMEO-TASK-ID:${event.task_id}`);
+  if (event.project_id) lines.push(`X-CONFORMEO-PROJECT-ID:${event.project_id}`);
+  if (event.team_id) lines.push(`X-CONFORMEO-TEAM-ID:${event.team_id}`);
+  lines.push('END:VEVENT');
+
+  return lines;
+}
+
+/** VCALENDAR text (CRLF, folded lines); instants are written in UTC, all-day events as local dates. */
+export function formatIcalendar(events: IcalEvent[], options: { calendar_name?: string; generated_at?: string } = {}) {
+  const generatedAt = options.generated_at ?? new Date().toISOString();
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', `PRODID:${PROD_ID}`, 'CALSCALE:GREGORIAN', 'METHOD:PUBLISH'];
+  if (options.calendar_name) lines.push(`X-WR-CALNAME:${escapeIcalText(options.calendar_name)}`);
+
+  for (const event of events) {
+    lines.push(...formatEvent(event, generatedAt));
+  }
+
+  lines.push('END:VCALENDAR');
+  return `${lines.map(foldLine).join('\r\n')}\r\n`;
+}
+
+function unfoldLines(text: string) {
+  return text
+    .replace(/\r\n/g, '\n')
+    .replace(/\r/g, '\n')
+    .replace(/\n[ \t]/g, '')
+    .split('\n')
+    .filter((line) => line.trim().length > 0);
+}
+
+function parseContentLine(line: string): ContentLine | null {
+  let inQuotes = false;
+  let nameEnd = -1;
+  let valueStart = -1;
+
+  for (let index = 0; index < line.length; index += 1) {
+    const char = line[index];
+    if (char === '"') inQuotes = !inQuotes;
+    if (inQuotes) continue;
+    if (char === ';' && nameEnd < 0) nameEnd = index;
+    if (char === ':') {
+      valueStart = index;
+      break;
+    }
+  }
+
+  if (valueStart < 0) return null;
+
+  const head = line.slice(0, valueStart);
+  const name = (nameEnd >= 0 ? line.slice(0, nameEnd) : head).trim().toUpperCase();
+  const params: Record<string, string> = {};
+
+  if (nameEnd >= 0) {
+    for (const part of head.slice(nameEnd + 1).match(/(?:[^;"]|"[^"]*")+/g) ?? []) {
+      const separator = part.indexOf('=');
+      if (separator < 0) continue;
+      params[part.slice(0, separator).trim().toUpperCase()] = part.slice(separator + 1).trim().replace(/^"|"$/g, '');
+    }
+  }
+
+  return { name, params, value: line.slice(valueStart + 1) };
+}
+
+function zoneOffsetMs(utcMs: number, timeZone: string) {
+  const format = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  });
+  const parts: Record<string, number> = {};
+  for (const part of format.formatToParts(new Date(utcMs))) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  }
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour % 24, parts.minute, parts.second);
+  return asUtc - Math.floor(utcMs / 1000) * 1000;
+}
+
+/** Wall-clock time in an IANA zone -> UTC ms (two passes to settle DST transitions). */
+function zonedTimeToUtcMs(fields: number[], timeZone: string) {
+  const [year, month, day, hour, minute, second] = fields;
+  const wallAsUtc = Date.UTC(year, month - 1, day, hour, minute, second);
+  const firstGuess = wallAsUtc - zoneOffsetMs(wallAsUtc, timeZone);
+  const secondOffset = zoneOffsetMs(firstGuess, timeZone);
+  return wallAsUtc - secondOffset;
+}
+
+/** TZID value -> IANA zone, or null when the device cannot resolve it. */
+export function resolveTimeZone(tzid: string) {
+  const cleaned = tzid.trim();
+  const candidates = [
+    WINDOWS_TIME_ZONES[cleaned],
+    cleaned,
+    // Mozilla-style prefixes: /mozilla.org/20050126_1/Europe/Paris
+    cleaned.split('/').slice(-2).join('/')
+  ].filter((value): value is string => Boolean(value));
+
+  for (const candidate of candidates) {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: candidate });
+      return candidate;
+    } catch {
+      // try next candidate
+    }
+  }
+
+  return null;
+}
+
+function parseTime(
+  value: string,
+  params: Record<string, string>,
+  defaultZone: string | undefined,
+  warnings: string[]
+): ParsedTime | null {
+  const raw = value.trim();
+  const dateOnly = /^(\d{4})(\d{2})(\d{2})$/.exec(raw);
+  if (dateOnly || params.VALUE === 'DATE') {
+    const match = dateOnly ?? /^(\d{4})(\d{2})(\d{2})/.exec(raw);
+    if (!match) return null;
+    return { iso: new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])).toISOString(), all_day: true };
+  }
+
+  const match = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z?)$/.exec(raw);
+  if (!match) return null;
+
+  const fields = match.slice(1, 7).map(Number);
+  if (match[7] === 'Z') {
+    return { iso: new Date(Date.UTC(fields[0], fields[1] - 1, fields[2], fields[3], fields[4], fields[5])).toISOString(), all_day: false };
+  }
+
+  const tzid = params.TZID ?? defaultZone;
+  if (tzid) {
+    const zone = resolveTimeZone(tzid);
+    if (zone) {
+      return { iso: new Date(zonedTimeToUtcMs(fields, zone)).toISOString(), all_day: false };
+    }
+    const warning = `Fuseau horaire inconnu "${tzid}": heure locale de l'appareil utilisée.`;
+    if (!warnings.includes(warning)) warnings.push(warning);
+  }
+
+  return {
+    iso: new Date(fields[0], fields[1] - 1, fields[2], fields[3], fields[4], fields[5]).toISOString(),
+    all_day: false
+  };
+}
+
+/** ISO 8601 duration (`PT1H30M`, `P1D`, `P2W`) in ms, or null. */
+export function parseIcalDuration(value: string) {
+  const match = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value.trim());
+  if (!match) return null;
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const ms =
+    Number(weeks ?? 0) * 7 * DAY_MS +
+    Number(days ?? 0) * DAY_MS +
+    Number(hours ?? 0) * HOUR_MS +
+    Number(minutes ?? 0) * 60_000 +
+    Number(seconds ?? 0) * 1000;
+  return sign === '-' ? -ms : ms;
+}
+
+function parseStatus(value: string | undefined): IcalEventStatus | undefined {
+  const upper = value?.trim().toUpperCase();
+  return upper === 'CONFIRMED' || upper === 'TENTATIVE' || upper === 'CANCELLED' ? upper : undefined;
+}
+
+function buildEvent(lines: ContentLine[], defaultZone: string | undefined, warnings: string[]): IcalEvent | null {
+  const first = (name: string) => lines.find((line) => line.name === name);
+  const uid = first('UID')?.value.trim();
+  const startLine = first('DTSTART');
+  const summary = unescapeIcalText(first('SUMMARY')?.value ?? '').trim() || 'Sans titre';
+
+  if (!uid || !startLine) {
+    warnings.push(`Événement ignoré (UID ou DTSTART manquant): ${summary}.`);
+    return null;
+  }
+
+  const start = parseTime(startLine.value, startLine.params, defaultZone, warnings);
+  if (!start) {
+    warnings.push(`Événement ignoré (DTSTART invalide): ${summary}.`);
+    return null;
+  }
+
+  const endLine = first('DTEND');
+  const durationLine = first('DURATION');
+  const end = endLine ? parseTime(endLine.value, endLine.params, defaultZone, warnings) : null;
+  const duration = durationLine ? parseIcalDuration(durationLine.value) : null;
+
+  // RFC 5545: no DTEND/DURATION means one day for a date, an instant for a date-time (1 h here).
+  const endMs = end
+    ? Date.parse(end.iso)
+    : Date.parse(start.iso) + (duration !== null && duration > 0 ? duration : start.all_day ? DAY_MS : HOUR_MS);
+
+  const exdates: string[] = [];
+  for (const line of lines.filter((entry) => entry.name === 'EXDATE')) {
+    for (const value of line.value.split(',')) {
+      const parsed = parseTime(value, line.params, defaultZone, warnings);
+      if (parsed) exdates.push(parsed.iso);
+    }
+  }
+
+  const recurrenceLine = first('RECURRENCE-ID');
+  const recurrenceId = recurrenceLine ? parseTime(recurrenceLine.value, recurrenceLine.params, defaultZone, warnings) : null;
+  const lastModified = first('LAST-MODIFIED') ?? first('DTSTAMP');
+  const updatedAt = lastModified ? parseTime(lastModified.value, lastModified.params, defaultZone, warnings) : null;
+  const description = unescapeIcalText(first('DESCRIPTION')?.value ?? '').trim();
+
+  return {
+    uid,
+    summary,
+    description: description || undefined,
+    start_at: start.iso,
+    end_at: new Date(endMs).toISOString(),
+    all_day: start.all_day,
+    rrule: first('RRULE')?.value.trim() || undefined,
+    exdates,
+    recurrence_id: recurrenceId?.iso,
+    status: parseStatus(first('STATUS')?.value),
+    sequence: Number(first('SEQUENCE')?.value ?? 0) || 0,
+    updated_at: updatedAt?.iso,
+    task_id: first('X-CONFORMEO-TASK-ID')?.value.trim() || undefined,
+    project_id: first('X-CONFORMEO-PROJECT-ID')?.value.trim() || undefined,
+    team_id: first('X-CONFORMEO-TEAM-ID')?.value.trim() || undefined
+  };
+}
+
+/**
+ * Parses the VEVENTs of an iCalendar file. Times with TZID (IANA or Outlook names) are converted to UTC;
+ * floating times use X-WR-TIMEZONE, else the device zone. VALARM / VTIMEZONE contents are ignored.
+ */
+export function parseIcalendar(text: string): IcalParseResult {
+  const lines = unfoldLines(text);
+  if (!lines.some((line) => line.trim().toUpperCase() === 'BEGIN:VCALENDAR')) {
+    throw new Error('Fichier iCalendar invalide (BEGIN:VCALENDAR absent).');
+  }
+
+  const warnings: string[] = [];
+  const events: IcalEvent[] = [];
+  const stack: string[] = [];
+  let eventLines: ContentLine[] = [];
+  let calendarName: string | undefined;
+  let defaultZone: string | undefined;
+  const pendingEvents: ContentLine[][] = [];
+
+  for (const raw of lines) {
+    const line = parseContentLine(raw);
+    if (!line) continue;
+
+    if (line.name === 'BEGIN') {
+      stack.push(line.value.trim().toUpperCase());
+      if (stack[stack.length - 1] === 'VEVENT') eventLines = [];
+      continue;
+    }
+
+    if (line.name === 'END') {
+      const closed = stack.pop();
+      if (closed === 'VEVENT') pendingEvents.push(eventLines);
+      continue;
+    }
+
+    const current = stack[stack.length - 1];
+    if (current === 'VEVENT') {
+      eventLines.push(line);
+    } else if (current === 'VCALENDAR') {
+      if (line.name === 'X-WR-CALNAME') calendarName = unescapeIcalText(line.value).trim() || undefined;
+      if (line.name === 'X-WR-TIMEZONE') defaultZone = line.value.trim() || undefined;
+    }
+  }
+
+  // X-WR-TIMEZONE may come after the events: resolve times once the whole calendar is read.
+  for (const entry of pendingEvents) {
+    const event = buildEvent(entry, defaultZone, warnings);
+    if (event) events.push(event);
+  }
+
+  return { calendar_name: calendarName, events, warnings };
+}
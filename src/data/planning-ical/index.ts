@@ -0,0 +1,3 @@
+export * from './types';
+export { formatIcalendar, parseIcalendar } from './ical';
+export { planningIcal } from './planningIcal';
@@ -0,0 +1,334 @@
+import * as Crypto from 'expo-crypto';
+import * as FileSystem from 'expo-file-system/legacy';
+import { planning, PlanningItem, PlanningListFilters } from '../planning-engine';
+import { expandOccurrences, parseRRule } from '../recurrence';
+import { tasks } from '../tasks';
+import { formatIcalendar, isAllDayRange, parseIcalendar } from './ical';
+import {
+  IcalEvent,
+  PlanningIcalExportOptions,
+  PlanningIcalExportResult,
+  PlanningIcalImportOptions,
+  PlanningIcalImportResult
+} from './types';
+
+const UID_DOMAIN = 'conformeo';
+const PAGE_SIZE = 500;
+const MAX_EXPORT_ITEMS = 5000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_EXPORT_PAST_DAYS = 30;
+const DEFAULT_EXPORT_AHEAD_DAYS = 365;
+const DEFAULT_IMPORT_PAST_DAYS = 30;
+const DEFAULT_IMPORT_AHEAD_DAYS = 180;
+
+/** One planning item to create or update from the file (a single event or an occurrence of a recurring one). */
+type ImportInstance = {
+  key: string;
+  uid: string;
+  summary: string;
+  description?: string;
+  start_at: string;
+  end_at: string;
+  cancelled: boolean;
+  task_id?: string;
+};
+
+function normalizeText(value: string | null | undefined) {
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+function exportDir() {
+  const directory = FileSystem.documentDirectory;
+  if (!directory) {
+    throw new Error('FileSystem documentDirectory indisponible.');
+  }
+  return `${directory}planning_ical/`;
+}
+
+function slugify(input: string, fallback = 'planning') {
+  const normalized = input
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9_-]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+
+  const trimmed = normalized.slice(0, 48);
+  return trimmed.length > 0 ? trimmed : fallback;
+}
+
+function exportWindow(options: { from?: string; to?: string }, pastDays: number, aheadDays: number) {
+  const now = Date.now();
+  return {
+    from: options.from ?? new Date(now - pastDays * DAY_MS).toISOString(),
+    to: options.to ?? new Date(now + aheadDays * DAY_MS).toISOString()
+  };
+}
+
+function itemUid(item: Pick<PlanningItem, 'id'>) {
+  return `${item.id}@${UID_DOMAIN}`;
+}
+
+/** Planning item id behind a UID exported by this app, if any. */
+function localIdFromUid(uid: string) {
+  const match = new RegExp(`^([0-9a-f-]{36})@${UID_DOMAIN}$`, 'i').exec(uid.trim());
+  return match ? match[1] : null;
+}
+
+/** Deterministic item id for a foreign event: re-importing the same file updates instead of duplicating. */
+async function importedItemId(orgId: string, key: string) {
+  const hex = await Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, `ics:${orgId}:${key}`);
+  const variant = ((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16);
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-5${hex.slice(13, 16)}-${variant}${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
+}
+
+function toEvent(item: PlanningItem): IcalEvent {
+  return {
+    uid: itemUid(item),
+    summary: item.title_snapshot,
+    start_at: item.start_at,
+    end_at: item.end_at,
+    all_day: isAllDayRange(item.start_at, item.end_at),
+    exdates: [],
+    // Seconds since creation: grows with every local update, so calendar clients replace the event.
+    sequence: Math.max(0, Math.floor((Date.parse(item.updated_at) - Date.parse(item.created_at)) / 1000)),
+    updated_at: item.updated_at,
+    task_id: item.task_id,
+    project_id: item.project_id,
+    team_id: item.team_id
+  };
+}
+
+async function listAllItems(fetchPage: (filters: PlanningListFilters) => Promise<PlanningItem[]>, filters: PlanningListFilters) {
+  const items: PlanningItem[] = [];
+  for (let offset = 0; offset < MAX_EXPORT_ITEMS; offset += PAGE_SIZE) {
+    const page = await fetchPage({ ...filters, limit: PAGE_SIZE, offset });
+    items.push(...page);
+    if (page.length < PAGE_SIZE) break;
+  }
+  return items;
+}
+
+async function writeIcsFile(baseName: string, items: PlanningItem[], calendarName: string): Promise<PlanningIcalExportResult> {
+  const directory = exportDir();
+  await FileSystem.makeDirectoryAsync(directory, { intermediates: true });
+
+  const stamp = new Date().toISOString().slice(0, 10).replace(/-/g, '');
+  const fileName = `${slugify(baseName)}_${stamp}.ics`;
+  const path = `${directory}${fileName}`;
+  const content = formatIcalendar(items.map(toEvent), { calendar_name: calendarName });
+
+  await FileSystem.writeAsStringAsync(path, content, { encoding: FileSystem.EncodingType.UTF8 });
+  return { path, file_name: fileName, event_count: items.length };
+}
+
+/** Expands recurring events within the window and applies their modified / cancelled occurrences. */
+function buildInstances(events: IcalEvent[], window: { from: string; to: string }, warnings: string[]) {
+  const overrides = new Map<string, IcalEvent>();
+  for (const event of events) {
+    if (event.recurrence_id) overrides.set(`${event.uid}#${event.recurrence_id}`, event);
+  }
+
+  const instances: ImportInstance[] = [];
+  const usedOverrides = new Set<string>();
+
+  const pushInstance = (key: string, source: IcalEvent, startAt: string, endAt: string) => {
+    instances.push({
+      key,
+      uid: source.uid,
+      summary: source.summary,
+      description: source.description,
+      start_at: startAt,
+      end_at: endAt,
+      cancelled: source.status === 'CANCELLED',
+      task_id: source.task_id
+    });
+  };
+
+  for (const event of events) {
+    if (event.recurrence_id) continue;
+
+    if (!event.rrule) {
+      pushInstance(event.uid, event, event.start_at, event.end_at);
+      continue;
+    }
+
+    let starts: string[];
+    try {
+      starts = expandOccurrences(parseRRule(event.rrule), event.start_at, window, event.exdates);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'RRULE invalide.';
+      warnings.push(`"${event.summary}": ${reason} Seule la première occurrence est importée.`);
+      starts = [event.start_at];
+    }
+
+    const durationMs = Date.parse(event.end_at) - Date.parse(event.start_at);
+    for (const start of starts) {
+      const key = `${event.uid}#${start}`;
+      const override = overrides.get(key);
+      if (override) {
+        usedOverrides.add(key);
+        pushInstance(key, override, override.start_at, override.end_at);
+      } else {
+        pushInstance(key, event, start, new Date(Date.parse(start) + durationMs).toISOString());
+      }
+    }
+  }
+
+  // Modified occurrences outside the window (or whose master is missing) are imported as they are.
+  for (const [key, override] of overrides) {
+    if (usedOverrides.has(key)) continue;
+    const startMs = Date.parse(override.start_at);
+    if (startMs < Date.parse(window.from) || startMs >= Date.parse(window.to)) continue;
+    pushInstance(key, override, override.start_at, override.end_at);
+  }
+
+  return instances;
+}
+
+export const planningIcal = {
+  async exportProject(projectId: string, options: PlanningIcalExportOptions): Promise<PlanningIcalExportResult> {
+    const { from, to } = exportWindow(options, DEFAULT_EXPORT_PAST_DAYS, DEFAULT_EXPORT_AHEAD_DAYS);
+    const items = await listAllItems((filters) => planning.listByProject(projectId, filters), {
+      org_id: options.org_id,
+      start_from: from,
+      start_to: to
+    });
+    const name = options.calendar_name ?? `Planning ${projectId}`;
+    return writeIcsFile(`planning_${projectId}`, items, name);
+  },
+
+  async exportTeam(teamId: string, options: PlanningIcalExportOptions): Promise<PlanningIcalExportResult> {
+    const { from, to } = exportWindow(options, DEFAULT_EXPORT_PAST_DAYS, DEFAULT_EXPORT_AHEAD_DAYS);
+    const items = await listAllItems((filters) => planning.listByTeam(teamId, filters), {
+      org_id: options.org_id,
+      start_from: from,
+      start_to: to
+    });
+    const name = options.calendar_name ?? `Équipe ${teamId}`;
+    return writeIcsFile(`equipe_${teamId}`, items, name);
+  },
+
+  async importFile(uri: string, options: PlanningIcalImportOptions): Promise<PlanningIcalImportResult> {
+    const text = await FileSystem.readAsStringAsync(uri, { encoding: FileSystem.EncodingType.UTF8 });
+    return this.importText(text, options);
+  },
+
+  /**
+   * Creates or updates planning items from iCalendar text.
+   * Events exported by this app map back to their item (UID); foreign events get a deterministic item id,
+   * and are attached to the task named in X-CONFORMEO-TASK-ID, else to a task of the project with the same
+   * title, else to a new task.
+   */
+  async importText(text: string, options: PlanningIcalImportOptions): Promise<PlanningIcalImportResult> {
+    const orgId = normalizeText(options.org_id);
+    const projectId = normalizeText(options.project_id);
+    const createdBy = normalizeText(options.created_by);
+    if (!orgId) throw new Error('org_id requis.');
+    if (!projectId) throw new Error('project_id requis.');
+    if (!createdBy) throw new Error('created_by requis.');
+
+    const parsed = parseIcalendar(text);
+    const warnings = [...parsed.warnings];
+    const window = exportWindow(options, DEFAULT_IMPORT_PAST_DAYS, DEFAULT_IMPORT_AHEAD_DAYS);
+    const instances = buildInstances(parsed.events, window, warnings);
+
+    const result: PlanningIcalImportResult = {
+      events: parsed.events.length,
+      created: 0,
+      updated: 0,
+      cancelled: 0,
+      tasks_created: 0,
+      skipped: [],
+      warnings
+    };
+
+    const taskIdsByTitle = new Map<string, string>();
+
+    const resolveTaskId = async (instance: ImportInstance) => {
+      if (instance.task_id) {
+        const task = await tasks.getById(instance.task_id);
+        if (task && task.org_id === orgId && task.project_id === projectId) {
+          return task.id;
+        }
+      }
+
+      const titleKey = instance.summary.toLowerCase();
+      const known = taskIdsByTitle.get(titleKey);
+      if (known) return known;
+
+      const matches = await tasks.searchByProject(projectId, instance.summary, { org_id: orgId, status: 'ALL', limit: 50 });
+      const existing = matches.find((task) => task.title.trim().toLowerCase() === titleKey);
+      if (existing) {
+        taskIdsByTitle.set(titleKey, existing.id);
+        return existing.id;
+      }
+
+      const created = await tasks.create({
+        org_id: orgId,
+        project_id: projectId,
+        title: instance.summary,
+        description: instance.description,
+        due_date: instance.end_at,
+        created_by: createdBy,
+        tags: ['ics']
+      });
+      result.tasks_created += 1;
+      taskIdsByTitle.set(titleKey, created.id);
+      return created.id;
+    };
+
+    for (const instance of instances) {
+      try {
+        const localId = instance.key === instance.uid ? localIdFromUid(instance.uid) : null;
+        const ownItem = localId ? await planning.getById(localId) : null;
+        const itemId = ownItem && ownItem.org_id === orgId ? ownItem.id : await importedItemId(orgId, instance.key);
+        const existing = ownItem && ownItem.id === itemId ? ownItem : await planning.getById(itemId);
+
+        if (instance.cancelled) {
+          if (existing) {
+            await planning.softDelete(existing.id);
+            result.cancelled += 1;
+          }
+          continue;
+        }
+
+        if (existing) {
+          if (
+            existing.start_at !== instance.start_at ||
+            existing.end_at !== instance.end_at ||
+            existing.title_snapshot !== instance.summary
+          ) {
+            await planning.update(existing.id, {
+              title_snapshot: instance.summary,
+              start_at: instance.start_at,
+              end_at: instance.end_at
+            });
+            result.updated += 1;
+          }
+          continue;
+        }
+
+        await planning.create({
+          id: itemId,
+          org_id: orgId,
+          project_id: projectId,
+          task_id: await resolveTaskId(instance),
+          title_snapshot: instance.summary,
+          start_at: instance.start_at,
+          end_at: instance.end_at,
+          created_by: createdBy
+        });
+        result.created += 1;
+      } catch (error) {
+        result.skipped.push({
+          uid: instance.uid,
+          summary: instance.summary,
+          reason: error instanceof Error ? error.message : 'Import impossible.'
+        });
+      }
+    }
+
+    return result;
+  }
+};
@@ -0,0 +1,71 @@
+export type IcalEventStatus = 'CONFIRMED' | 'TENTATIVE' | 'CANCELLED';
+
+export type IcalEvent = {
+  uid: string;
+  summary: string;
+  description?: string;
+  /** Instants (ISO, UTC). For all-day events: local midnight, end exclusive. */
+  start_at: string;
+  end_at: string;
+  all_day: boolean;
+  /** RRULE text (without the `RRULE:` prefix). */
+  rrule?: string;
+  /** Excluded occurrence starts (ISO). */
+  exdates: string[];
+  /** Set on a modified occurrence of a recurring event: original start (ISO). */
+  recurrence_id?: string;
+  status?: IcalEventStatus;
+  sequence: number;
+  updated_at?: string;
+  /** Conformeo ids carried as X- properties so a round trip maps back to the same task. */
+  task_id?: string;
+  project_id?: string;
+  team_id?: string;
+};
+
+export type IcalParseResult = {
+  calendar_name?: string;
+  events: IcalEvent[];
+  /** Non blocking issues (unknown time zone, missing end...). */
+  warnings: string[];
+};
+
+export type PlanningIcalExportOptions = {
+  org_id: string;
+  /** Defaults to 30 days ago / 1 year ahead. */
+  from?: string;
+  to?: string;
+  calendar_name?: string;
+};
+
+export type PlanningIcalExportResult = {
+  path: string;
+  file_name: string;
+  event_count: number;
+};
+
+export type PlanningIcalImportOptions = {
+  org_id: string;
+  /** Project receiving the imported items (and the tasks created for unknown events). */
+  project_id: string;
+  created_by: string;
+  /** Window used to expand recurring events; defaults to 30 days ago / 180 days ahead. */
+  from?: string;
+  to?: string;
+};
+
+export type PlanningIcalImportSkip = {
+  uid: string;
+  summary: string;
+  reason: string;
+};
+
+export type PlanningIcalImportResult = {
+  events: number;
+  created: number;
+  updated: number;
+  cancelled: number;
+  tasks_created: number;
+  skipped: PlanningIcalImportSkip[];
+  warnings: string[];
+};
@@ -1,2 +1,3 @@
 export * from './types';
+export { PLAN_ANNOTATION_KINDS } from './planGeometry';
 export { plans } from './plansAnnotations';
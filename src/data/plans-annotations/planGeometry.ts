@@ -0,0 +1,171 @@
+import { PlanAnnotationKind, PlanCalibration, PlanMeasure, PlanPoint } from './types';
+
+const MAX_SHAPE_POINTS = 400;
+
+type KindRule = {
+  key: PlanAnnotationKind;
+  label: string;
+  min_points: number;
+  max_points?: number;
+  closed: boolean;
+};
+
+export const PLAN_ANNOTATION_KINDS: KindRule[] = [
+  { key: 'PIN', label: 'Pin', min_points: 0, max_points: 0, closed: false },
+  { key: 'AREA', label: 'Zone', min_points: 3, closed: true },
+  { key: 'CLOUD', label: 'Nuage', min_points: 3, closed: true },
+  { key: 'POLYLINE', label: 'Polyligne', min_points: 2, closed: false },
+  { key: 'ARROW', label: 'Flèche', min_points: 2, max_points: 2, closed: false },
+  { key: 'FREEHAND', label: 'Main levée', min_points: 2, closed: false },
+  { key: 'TEXT', label: 'Texte', min_points: 1, max_points: 1, closed: false },
+  { key: 'DISTANCE', label: 'Distance', min_points: 2, max_points: 2, closed: false },
+  { key: 'SURFACE', label: 'Surface', min_points: 3, closed: true }
+];
+
+export function getKindRule(kind: string) {
+  const rule = PLAN_ANNOTATION_KINDS.find((candidate) => candidate.key === kind);
+  if (!rule) {
+    throw new Error(`Type d'annotation invalide: ${kind}`);
+  }
+
+  return rule;
+}
+
+function roundCoordinate(value: number, label: string) {
+  if (!Number.isFinite(value)) {
+    throw new Error(`${label} doit être un nombre.`);
+  }
+
+  if (value < 0 || value > 1) {
+    throw new Error(`${label} doit être normalisé entre 0 et 1.`);
+  }
+
+  return Number(value.toFixed(6));
+}
+
+/** Keeps every n-th point of a long freehand stroke (first and last points are always kept). */
+function decimate(points: PlanPoint[]) {
+  if (points.length <= MAX_SHAPE_POINTS) {
+    return points;
+  }
+
+  const step = (points.length - 1) / (MAX_SHAPE_POINTS - 1);
+  const next: PlanPoint[] = [];
+  for (let index = 0; index < MAX_SHAPE_POINTS; index += 1) {
+    next.push(points[Math.round(index * step)]);
+  }
+
+  return next;
+}
+
+export function normalizeShapePoints(kind: PlanAnnotationKind, points: PlanPoint[] | undefined) {
+  const rule = getKindRule(kind);
+  const raw = Array.isArray(points) ? points : [];
+
+  if (rule.max_points === 0) {
+    return [] as PlanPoint[];
+  }
+
+  const cleaned = decimate(
+    raw.map((point, index) => ({
+      x: roundCoordinate(point.x, `points[${index}].x`),
+      y: roundCoordinate(point.y, `points[${index}].y`)
+    }))
+  );
+
+  if (cleaned.length < rule.min_points) {
+    throw new Error(`${rule.label}: au moins ${rule.min_points} point(s) requis.`);
+  }
+
+  if (rule.max_points !== undefined && cleaned.length > rule.max_points) {
+    throw new Error(`${rule.label}: ${rule.max_points} point(s) maximum.`);
+  }
+
+  return cleaned;
+}
+
+/** Center of the bounding box: where the viewer centers and where labels are drawn. */
+export function shapeAnchor(points: PlanPoint[]): PlanPoint {
+  if (points.length === 0) {
+    throw new Error('Annotation sans point.');
+  }
+
+  let minX = 1;
+  let minY = 1;
+  let maxX = 0;
+  let maxY = 0;
+
+  for (const point of points) {
+    minX = Math.min(minX, point.x);
+    minY = Math.min(minY, point.y);
+    maxX = Math.max(maxX, point.x);
+    maxY = Math.max(maxY, point.y);
+  }
+
+  return {
+    x: Number(((minX + maxX) / 2).toFixed(6)),
+    y: Number(((minY + maxY) / 2).toFixed(6))
+  };
+}
+
+// Normalized coordinates are stretched by the page ratio: x is scaled so both axes share the same unit.
+function toIsotropic(point: PlanPoint, pageRatio: number) {
+  return { x: point.x * pageRatio, y: point.y };
+}
+
+function segmentLength(from: PlanPoint, to: PlanPoint, pageRatio: number) {
+  const a = toIsotropic(from, pageRatio);
+  const b = toIsotropic(to, pageRatio);
+  return Math.hypot(b.x - a.x, b.y - a.y);
+}
+
+/** Meters per isotropic unit, null when the reference segment is degenerate. */
+export function calibrationScale(calibration: PlanCalibration) {
+  const reference = segmentLength(
+    { x: calibration.x1, y: calibration.y1 },
+    { x: calibration.x2, y: calibration.y2 },
+    calibration.page_ratio
+  );
+
+  return reference > 0 ? calibration.length_m / reference : null;
+}
+
+export function measureShape(
+  kind: PlanAnnotationKind,
+  points: PlanPoint[],
+  calibration: PlanCalibration | null
+): PlanMeasure | null {
+  if (!calibration || (kind !== 'DISTANCE' && kind !== 'SURFACE')) {
+    return null;
+  }
+
+  const scale = calibrationScale(calibration);
+  if (scale === null) {
+    return null;
+  }
+
+  if (kind === 'DISTANCE') {
+    if (points.length < 2) return null;
+
+    let length = 0;
+    for (let index = 1; index < points.length; index += 1) {
+      length += segmentLength(points[index - 1], points[index], calibration.page_ratio);
+    }
+
+    const value = Math.round(length * scale * 100) / 100;
+    return { value, unit: 'm', label: `${value.toLocaleString('fr-FR')} m` };
+  }
+
+  if (points.length < 3) return null;
+
+  // Shoelace formula on isotropic coordinates.
+  let twiceArea = 0;
+  for (let index = 0; index < points.length; index += 1) {
+    const a = toIsotropic(points[index], calibration.page_ratio);
+    const b = toIsotropic(points[(index + 1) % points.length], calibration.page_ratio);
+    twiceArea += a.x * b.y - b.x * a.y;
+  }
+
+  const value = Math.round((Math.abs(twiceArea) / 2) * scale * scale * 100) / 100;
+  return { value, unit: 'm²', label: `${value.toLocaleString('fr-FR')} m²` };
+}
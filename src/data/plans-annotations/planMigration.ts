@@ -0,0 +1,228 @@
+import { MediaAsset, rasterDifference, readGrayRaster } from '../media';
+import { shapeAnchor } from './planGeometry';
+import { readPageFingerprints, readPageRatio } from './planPdf';
+import { PlanAlignment, PlanPin, PlanPinMigrationCandidate, PlanPoint, PlanVersionChange } from './types';
+
+const PDF_MIME = 'application/pdf';
+
+/** Half side of the compared area around a pin, as a fraction of the page. */
+const PIN_AREA_HALF = 0.04;
+const SHAPE_AREA_PADDING = 0.02;
+const AREA_RASTER_SIZE = 24;
+/** Mean luma difference above which an area is considered redrawn (compression noise stays well below). */
+const AREA_CHANGE_THRESHOLD = 0.06;
+
+type Transform = (point: PlanPoint) => PlanPoint;
+
+type Area = { x: number; y: number; width: number; height: number };
+
+export type MigrationTarget = Omit<PlanPinMigrationCandidate, 'change' | 'change_score'>;
+
+export type AreaChange = { change: PlanVersionChange; change_score?: number };
+
+const identity: Transform = (point) => ({ x: point.x, y: point.y });
+
+function roundCoordinate(value: number) {
+  return Number(value.toFixed(6));
+}
+
+/**
+ * Similarity (translation + rotation + uniform scale) mapping the two `from` points onto the two `to` points.
+ * Normalized coordinates are made isotropic with each page ratio so a rotation does not shear the plan.
+ */
+function alignmentTransform(alignment: PlanAlignment, fromRatio: number, toRatio: number): Transform {
+  const [f1, f2] = alignment.from.map((point) => ({ x: point.x * fromRatio, y: point.y }));
+  const [t1, t2] = alignment.to.map((point) => ({ x: point.x * toRatio, y: point.y }));
+
+  const fx = f2.x - f1.x;
+  const fy = f2.y - f1.y;
+  const norm = fx * fx + fy * fy;
+  if (norm === 0) {
+    throw new Error('Alignement: les deux points de référence doivent être distincts.');
+  }
+
+  const tx = t2.x - t1.x;
+  const ty = t2.y - t1.y;
+
+  // Complex division (t2 - t1) / (f2 - f1): scale * e^(i * angle).
+  const a = (tx * fx + ty * fy) / norm;
+  const b = (ty * fx - tx * fy) / norm;
+
+  return (point) => {
+    const px = point.x * fromRatio - f1.x;
+    const py = point.y - f1.y;
+
+    return {
+      x: (t1.x + a * px - b * py) / toRatio,
+      y: t1.y + b * px + a * py
+    };
+  };
+}
+
+function isInside(point: PlanPoint) {
+  return point.x >= 0 && point.x <= 1 && point.y >= 0 && point.y <= 1;
+}
+
+function pinArea(anchor: PlanPoint, points: PlanPoint[]): Area {
+  if (points.length === 0) {
+    return {
+      x: anchor.x - PIN_AREA_HALF,
+      y: anchor.y - PIN_AREA_HALF,
+      width: PIN_AREA_HALF * 2,
+      height: PIN_AREA_HALF * 2
+    };
+  }
+
+  const xs = points.map((point) => point.x);
+  const ys = points.map((point) => point.y);
+  const minX = Math.min(...xs) - SHAPE_AREA_PADDING;
+  const minY = Math.min(...ys) - SHAPE_AREA_PADDING;
+
+  return {
+    x: minX,
+    y: minY,
+    width: Math.max(...xs) + SHAPE_AREA_PADDING - minX,
+    height: Math.max(...ys) + SHAPE_AREA_PADDING - minY
+  };
+}
+
+/** Where each pin lands on the new version, page by page. */
+export async function computeMigrationTargets(input: {
+  pins: PlanPin[];
+  fromAsset: MediaAsset | null;
+  toAsset: MediaAsset | null;
+  toPageCount: number | null;
+  alignments: PlanAlignment[];
+}): Promise<MigrationTarget[]> {
+  const transforms = new Map<number, { transform: Transform; aligned: boolean }>();
+
+  const resolveTransform = async (page: number) => {
+    const cached = transforms.get(page);
+    if (cached) return cached;
+
+    const alignment =
+      input.alignments.find((candidate) => candidate.page === page) ??
+      input.alignments.find((candidate) => candidate.page === undefined);
+
+    let resolved = { transform: identity, aligned: false };
+    if (alignment) {
+      if (!input.fromAsset || !input.toAsset) {
+        throw new Error('Alignement impossible: fichier du plan introuvable.');
+      }
+
+      const [fromRatio, toRatio] = await Promise.all([
+        readPageRatio(input.fromAsset, page),
+        readPageRatio(input.toAsset, Math.min(page, input.toPageCount ?? page))
+      ]);
+      resolved = { transform: alignmentTransform(alignment, fromRatio, toRatio), aligned: true };
+    }
+
+    transforms.set(page, resolved);
+    return resolved;
+  };
+
+  const targets: MigrationTarget[] = [];
+
+  for (const pin of input.pins) {
+    const { transform, aligned } = await resolveTransform(pin.page_number);
+    const pageExists = input.toPageCount === null || pin.page_number <= input.toPageCount;
+
+    const rawPoints = pin.points.map(transform);
+    const rawAnchor = rawPoints.length > 0 ? null : transform({ x: pin.x, y: pin.y });
+    const inside = rawAnchor ? isInside(rawAnchor) : rawPoints.every(isInside);
+
+    const points = rawPoints.map((point) => ({ x: roundCoordinate(point.x), y: roundCoordinate(point.y) }));
+    const anchor = rawAnchor
+      ? { x: roundCoordinate(rawAnchor.x), y: roundCoordinate(rawAnchor.y) }
+      : inside
+        ? shapeAnchor(points)
+        : { x: pin.x, y: pin.y };
+
+    targets.push({
+      pin,
+      target: { page_number: pin.page_number, x: anchor.x, y: anchor.y, points },
+      aligned,
+      out_of_bounds: !pageExists || !inside
+    });
+  }
+
+  return targets;
+}
+
+async function compareImageAreas(fromAsset: MediaAsset, toAsset: MediaAsset, target: MigrationTarget): Promise<AreaChange> {
+  if (!fromAsset.width || !fromAsset.height || !toAsset.width || !toAsset.height) {
+    return { change: 'UNKNOWN' };
+  }
+
+  const size = { width: AREA_RASTER_SIZE, height: AREA_RASTER_SIZE };
+  const [before, after] = await Promise.all([
+    readGrayRaster(fromAsset.local_path, {
+      sourceWidth: fromAsset.width,
+      sourceHeight: fromAsset.height,
+      size,
+      crop: pinArea({ x: target.pin.x, y: target.pin.y }, target.pin.points)
+    }),
+    readGrayRaster(toAsset.local_path, {
+      sourceWidth: toAsset.width,
+      sourceHeight: toAsset.height,
+      size,
+      crop: pinArea({ x: target.target.x, y: target.target.y }, target.target.points)
+    })
+  ]);
+
+  const score = Number(rasterDifference(before, after).toFixed(4));
+  return { change: score > AREA_CHANGE_THRESHOLD ? 'CHANGED' : 'UNCHANGED', change_score: score };
+}
+
+/**
+ * Flags annotations whose surroundings changed between the two files. Images are compared area by area;
+ * PDF pages cannot be rasterized on device, so only redrawn pages are detected.
+ */
+export async function detectAreaChanges(
+  fromAsset: MediaAsset | null,
+  toAsset: MediaAsset | null,
+  targets: MigrationTarget[]
+): Promise<Map<string, AreaChange>> {
+  const changes = new Map<string, AreaChange>();
+  const setAll = (change: AreaChange) => targets.forEach((target) => changes.set(target.pin.id, change));
+
+  if (!fromAsset || !toAsset || (fromAsset.mime === PDF_MIME) !== (toAsset.mime === PDF_MIME)) {
+    setAll({ change: 'UNKNOWN' });
+    return changes;
+  }
+
+  if (fromAsset.mime === PDF_MIME) {
+    try {
+      const [before, after] = await Promise.all([readPageFingerprints(fromAsset), readPageFingerprints(toAsset)]);
+      for (const target of targets) {
+        const page = target.pin.page_number - 1;
+        const change: PlanVersionChange =
+          before[page] === undefined || after[page] === undefined
+            ? 'UNKNOWN'
+            : before[page] === after[page]
+              ? 'UNCHANGED'
+              : 'PAGE_CHANGED';
+        changes.set(target.pin.id, { change });
+      }
+    } catch {
+      setAll({ change: 'UNKNOWN' });
+    }
+
+    return changes;
+  }
+
+  for (const target of targets) {
+    if (target.out_of_bounds) {
+      changes.set(target.pin.id, { change: 'UNKNOWN' });
+      continue;
+    }
+
+    try {
+      changes.set(target.pin.id, await compareImageAreas(fromAsset, toAsset, target));
+    } catch {
+      changes.set(target.pin.id, { change: 'UNKNOWN' });
+    }
+  }
+
+  return changes;
+}
@@ -0,0 +1,591 @@
+import * as FileSystem from 'expo-file-system/legacy';
+import * as ImageManipulator from 'expo-image-manipulator';
+import { PDFArray, PDFDocument, PDFFont, PDFImage, PDFPage, PDFStream, RGB, StandardFonts, rgb } from 'pdf-lib';
+import { MediaAsset } from '../media';
+import { getKindRule, measureShape, PLAN_ANNOTATION_KINDS } from './planGeometry';
+import { PlanCalibration, PlanLegendEntry, PlanPin, PlanPinPriority, PlanPinStatus, PlanPoint } from './types';
+
+const PDF_MIME = 'application/pdf';
+
+const CLOUD_BUMP_PX = 14;
+const ARROW_HEAD_PX = 12;
+const MARKER_RADIUS = 7;
+
+/** Image plans are flattened on a page whose longest side is an A1 sheet, downscaled above this pixel width. */
+const IMAGE_PAGE_MAX_SIDE_PT = 2384;
+const IMAGE_MAX_WIDTH_PX = 4096;
+
+const LEGEND_PAGE: [number, number] = [842, 595];
+const LEGEND_MARGIN = 30;
+const LEGEND_FONT_SIZE = 8;
+const LEGEND_LINE_HEIGHT = 10;
+const LEGEND_THUMB_PX = 34;
+const LEGEND_THUMBS_PER_ROW = 3;
+
+const LEGEND_COLUMNS: Array<{ key: LegendColumn; title: string; width: number }> = [
+  { key: 'number', title: 'N°', width: 30 },
+  { key: 'label', title: 'Libellé', width: 150 },
+  { key: 'kind', title: 'Type', width: 58 },
+  { key: 'status', title: 'Statut', width: 52 },
+  { key: 'priority', title: 'Priorité', width: 52 },
+  { key: 'page', title: 'Page', width: 32 },
+  { key: 'assignee', title: 'Responsable', width: 100 },
+  { key: 'tasks', title: 'Tâches liées', width: 178 },
+  { key: 'photos', title: 'Photos', width: 130 }
+];
+
+type LegendColumn = 'number' | 'label' | 'kind' | 'status' | 'priority' | 'page' | 'assignee' | 'tasks' | 'photos';
+
+type PagePoint = { x: number; y: number };
+
+function exportDir() {
+  const base = FileSystem.cacheDirectory ?? FileSystem.documentDirectory;
+  if (!base) {
+    throw new Error('FileSystem cacheDirectory indisponible.');
+  }
+
+  return `${base}plans/exports/`;
+}
+
+function statusColor(status: PlanPinStatus): RGB {
+  if (status === 'OPEN') return rgb(0.05, 0.55, 0.55);
+  if (status === 'DONE') return rgb(0.06, 0.6, 0.36);
+  return rgb(0.96, 0.62, 0.04);
+}
+
+function priorityColor(priority: PlanPinPriority): RGB {
+  if (priority === 'HIGH') return rgb(0.88, 0.11, 0.28);
+  if (priority === 'MEDIUM') return rgb(0.96, 0.62, 0.04);
+  return rgb(1, 1, 1);
+}
+
+function statusLabel(status: PlanPinStatus) {
+  if (status === 'OPEN') return 'Ouvert';
+  if (status === 'DONE') return 'Fait';
+  return 'Info';
+}
+
+function priorityLabel(priority: PlanPinPriority) {
+  if (priority === 'HIGH') return 'Haute';
+  if (priority === 'MEDIUM') return 'Moyenne';
+  return 'Basse';
+}
+
+function strokeWidth(priority: PlanPinPriority) {
+  if (priority === 'HIGH') return 3;
+  if (priority === 'MEDIUM') return 2;
+  return 1.4;
+}
+
+// Standard fonts only encode WinAnsi: anything else would make pdf-lib throw.
+function pdfSafeText(value: string) {
+  return value
+    .replace(/[’‘]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[^\x20-\x7E\u00A0-\u00FF\u20AC\u2026]/g, '?');
+}
+
+async function loadPdf(asset: MediaAsset) {
+  if (asset.mime !== PDF_MIME) {
+    throw new Error('Export annoté disponible uniquement pour les plans PDF.');
+  }
+
+  const base64 = await FileSystem.readAsStringAsync(asset.local_path, {
+    encoding: FileSystem.EncodingType.Base64
+  });
+
+  return PDFDocument.load(base64, { ignoreEncryption: true });
+}
+
+/** Single-page PDF carrying an image plan, so both plan formats can be annotated the same way. */
+async function flattenImagePlan(asset: MediaAsset) {
+  const actions: ImageManipulator.Action[] =
+    typeof asset.width === 'number' && asset.width > IMAGE_MAX_WIDTH_PX ? [{ resize: { width: IMAGE_MAX_WIDTH_PX } }] : [];
+
+  const jpeg = await ImageManipulator.manipulateAsync(asset.local_path, actions, {
+    compress: 0.85,
+    format: ImageManipulator.SaveFormat.JPEG,
+    base64: true
+  });
+
+  if (!jpeg.base64) {
+    throw new Error('Lecture du plan image impossible.');
+  }
+
+  const pdfDoc = await PDFDocument.create();
+  const image = await pdfDoc.embedJpg(jpeg.base64);
+  const scale = Math.min(1, IMAGE_PAGE_MAX_SIDE_PT / Math.max(image.width, image.height));
+  const width = image.width * scale;
+  const height = image.height * scale;
+
+  const page = pdfDoc.addPage([width, height]);
+  page.drawImage(image, { x: 0, y: 0, width, height });
+
+  return pdfDoc;
+}
+
+async function loadPlanDocument(asset: MediaAsset) {
+  if (asset.mime === PDF_MIME) {
+    return loadPdf(asset);
+  }
+
+  if (asset.mime.startsWith('image/')) {
+    return flattenImagePlan(asset);
+  }
+
+  throw new Error('Export annoté indisponible pour ce format de plan.');
+}
+
+/** Width / height of a plan page, used to make calibrated measurements isotropic. */
+export async function readPageRatio(asset: MediaAsset, pageNumber: number) {
+  if (asset.mime !== PDF_MIME) {
+    if (typeof asset.width === 'number' && typeof asset.height === 'number' && asset.width > 0 && asset.height > 0) {
+      return asset.width / asset.height;
+    }
+
+    throw new Error('Dimensions du plan inconnues: étalonnage impossible.');
+  }
+
+  const pdfDoc = await loadPdf(asset);
+  const page = pdfDoc.getPages()[pageNumber - 1];
+  if (!page) {
+    throw new Error(`Page ${pageNumber} absente du plan.`);
+  }
+
+  const size = page.getSize();
+  return size.width / size.height;
+}
+
+// FNV-1a: cheap content fingerprint, only used to tell whether two pages are byte-identical.
+function fingerprint(chunks: Uint8Array[]) {
+  let hash = 0x811c9dc5;
+  let length = 0;
+
+  for (const chunk of chunks) {
+    length += chunk.length;
+    for (let index = 0; index < chunk.length; index += 1) {
+      hash ^= chunk[index];
+      hash = Math.imul(hash, 0x01000193) >>> 0;
+    }
+  }
+
+  return `${length}:${hash.toString(16)}`;
+}
+
+function pageContentChunks(page: PDFPage) {
+  const contents = page.node.Contents();
+  if (!contents) return [];
+
+  if (contents instanceof PDFStream) {
+    return [contents.getContents()];
+  }
+
+  const chunks: Uint8Array[] = [];
+  if (contents instanceof PDFArray) {
+    for (let index = 0; index < contents.size(); index += 1) {
+      const entry = contents.lookup(index);
+      if (entry instanceof PDFStream) {
+        chunks.push(entry.getContents());
+      }
+    }
+  }
+
+  return chunks;
+}
+
+/** One fingerprint per page (size + drawing operators): equal fingerprints mean the page was not redrawn. */
+export async function readPageFingerprints(asset: MediaAsset) {
+  const pdfDoc = await loadPdf(asset);
+
+  return pdfDoc.getPages().map((page) => {
+    const size = page.getSize();
+    return `${Math.round(size.width)}x${Math.round(size.height)}:${fingerprint(pageContentChunks(page))}`;
+  });
+}
+
+/** Page count of a plan file (1 for an image), null when the file cannot be read. */
+export async function readPageCount(asset: MediaAsset | null) {
+  if (!asset) return null;
+  if (asset.mime !== PDF_MIME) return 1;
+
+  try {
+    return (await loadPdf(asset)).getPageCount();
+  } catch {
+    return null;
+  }
+}
+
+function toPage(point: PlanPoint, width: number, height: number): PagePoint {
+  return { x: point.x * width, y: (1 - point.y) * height };
+}
+
+function drawPolyline(page: PDFPage, points: PagePoint[], closed: boolean, thickness: number, color: RGB) {
+  const count = closed ? points.length : points.length - 1;
+
+  for (let index = 0; index < count; index += 1) {
+    page.drawLine({
+      start: points[index],
+      end: points[(index + 1) % points.length],
+      thickness,
+      color
+    });
+  }
+}
+
+function drawCloud(page: PDFPage, points: PagePoint[], thickness: number, color: RGB) {
+  for (let index = 0; index < points.length; index += 1) {
+    const from = points[index];
+    const to = points[(index + 1) % points.length];
+    const length = Math.hypot(to.x - from.x, to.y - from.y);
+    const bumps = Math.max(1, Math.round(length / (CLOUD_BUMP_PX * 2)));
+
+    for (let bump = 0; bump < bumps; bump += 1) {
+      const cx = from.x + ((to.x - from.x) * (bump + 0.5)) / bumps;
+      const cy = from.y + ((to.y - from.y) * (bump + 0.5)) / bumps;
+      const radius = length / bumps / 2;
+
+      page.drawCircle({ x: cx, y: cy, size: radius, borderColor: color, borderWidth: thickness });
+    }
+  }
+}
+
+function drawArrowHead(page: PDFPage, from: PagePoint, to: PagePoint, thickness: number, color: RGB) {
+  const angle = Math.atan2(to.y - from.y, to.x - from.x);
+
+  for (const delta of [Math.PI * 0.85, -Math.PI * 0.85]) {
+    page.drawLine({
+      start: to,
+      end: {
+        x: to.x + Math.cos(angle + delta) * ARROW_HEAD_PX,
+        y: to.y + Math.sin(angle + delta) * ARROW_HEAD_PX
+      },
+      thickness,
+      color
+    });
+  }
+}
+
+function drawLabel(page: PDFPage, font: PDFFont, text: string, at: PagePoint, color: RGB, size = 9) {
+  const safe = pdfSafeText(text);
+  const width = font.widthOfTextAtSize(safe, size);
+
+  page.drawRectangle({
+    x: at.x - 2,
+    y: at.y - 3,
+    width: width + 4,
+    height: size + 5,
+    color: rgb(1, 1, 1),
+    opacity: 0.85,
+    borderColor: color,
+    borderWidth: 0.6
+  });
+  page.drawText(safe, { x: at.x, y: at.y, size, font, color: rgb(0.06, 0.09, 0.16) });
+}
+
+/** Numbered marker: fill is the status color, ring is the priority color (white when low). */
+function drawMarker(page: PDFPage, font: PDFFont, number: number, at: PagePoint, pin: PlanPin) {
+  const text = String(number);
+  const size = text.length > 2 ? 6 : 7;
+
+  page.drawCircle({
+    x: at.x,
+    y: at.y,
+    size: MARKER_RADIUS,
+    color: statusColor(pin.status),
+    borderColor: priorityColor(pin.priority),
+    borderWidth: pin.priority === 'LOW' ? 1.2 : 2
+  });
+  page.drawText(text, {
+    x: at.x - font.widthOfTextAtSize(text, size) / 2,
+    y: at.y - size * 0.35,
+    size,
+    font,
+    color: rgb(1, 1, 1)
+  });
+}
+
+function drawAnnotation(
+  page: PDFPage,
+  fonts: { regular: PDFFont; bold: PDFFont },
+  pin: PlanPin,
+  number: number,
+  calibration: PlanCalibration | null
+) {
+  const { width, height } = page.getSize();
+  const color = statusColor(pin.status);
+  const thickness = strokeWidth(pin.priority);
+  const anchor = toPage({ x: pin.x, y: pin.y }, width, height);
+
+  if (pin.kind === 'PIN') {
+    drawMarker(page, fonts.bold, number, anchor, pin);
+    if (pin.label) {
+      drawLabel(page, fonts.regular, pin.label, { x: anchor.x + MARKER_RADIUS + 4, y: anchor.y - 3 }, color);
+    }
+    return;
+  }
+
+  const points = pin.points.map((point) => toPage(point, width, height));
+  const rule = getKindRule(pin.kind);
+
+  if (pin.kind === 'TEXT') {
+    drawLabel(page, fonts.regular, pin.label ?? '', points[0], color, 11);
+    drawMarker(page, fonts.bold, number, { x: points[0].x - MARKER_RADIUS - 4, y: points[0].y + 3 }, pin);
+    return;
+  }
+
+  if (pin.kind === 'CLOUD') {
+    drawCloud(page, points, thickness, color);
+  } else {
+    drawPolyline(page, points, rule.closed, thickness, color);
+  }
+
+  if (pin.kind === 'ARROW') {
+    drawArrowHead(page, points[0], points[1], thickness, color);
+  }
+
+  drawMarker(page, fonts.bold, number, anchor, pin);
+
+  const measure = measureShape(pin.kind, pin.points, calibration);
+  const caption = [pin.label, measure?.label].filter(Boolean).join(' · ');
+  if (caption) {
+    drawLabel(page, fonts.regular, caption, { x: anchor.x + MARKER_RADIUS + 4, y: anchor.y - 3 }, color);
+  }
+}
+
+/** Splits `text` into at most `maxLines` lines fitting `width`, the last one ellipsized when cut. */
+function fitLines(font: PDFFont, text: string, size: number, width: number, maxLines: number) {
+  const fits = (value: string) => font.widthOfTextAtSize(value, size) <= width;
+  const ellipsize = (value: string) => {
+    let cut = value;
+    while (cut.length > 0 && !fits(`${cut}…`)) cut = cut.slice(0, -1);
+    return `${cut}…`;
+  };
+
+  const lines: string[] = [];
+  let current = '';
+
+  for (const word of pdfSafeText(text).split(/\s+/).filter(Boolean)) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (fits(candidate)) {
+      current = candidate;
+      continue;
+    }
+
+    if (current) lines.push(current);
+    if (lines.length === maxLines) {
+      lines[maxLines - 1] = ellipsize(lines[maxLines - 1]);
+      return lines;
+    }
+
+    current = fits(word) ? word : ellipsize(word);
+  }
+
+  if (current) lines.push(current);
+  return lines;
+}
+
+async function embedThumbnail(pdfDoc: PDFDocument, path: string): Promise<PDFImage | null> {
+  try {
+    // Thumbnails are WebP, which pdf-lib cannot embed: re-encode a small JPEG.
+    const jpeg = await ImageManipulator.manipulateAsync(path, [{ resize: { width: LEGEND_THUMB_PX * 3 } }], {
+      compress: 0.7,
+      format: ImageManipulator.SaveFormat.JPEG,
+      base64: true
+    });
+
+    return jpeg.base64 ? await pdfDoc.embedJpg(jpeg.base64) : null;
+  } catch {
+    return null;
+  }
+}
+
+function legendCellText(entry: PlanLegendEntry, column: LegendColumn) {
+  const pin = entry.pin;
+  if (column === 'label') return pin.label ?? pin.comment ?? '-';
+  if (column === 'kind') return PLAN_ANNOTATION_KINDS.find((rule) => rule.key === pin.kind)?.label ?? pin.kind;
+  if (column === 'status') return statusLabel(pin.status);
+  if (column === 'priority') return priorityLabel(pin.priority);
+  if (column === 'page') return String(pin.page_number);
+  if (column === 'assignee') return pin.assignee_user_id ?? '-';
+  if (column === 'tasks') return entry.task_titles.length > 0 ? entry.task_titles.join(' / ') : '-';
+  return '';
+}
+
+async function appendLegendPages(
+  pdfDoc: PDFDocument,
+  fonts: { regular: PDFFont; bold: PDFFont },
+  title: string,
+  entries: PlanLegendEntry[]
+) {
+  const [pageWidth, pageHeight] = LEGEND_PAGE;
+  const ink = rgb(0.06, 0.09, 0.16);
+  const grid = rgb(0.8, 0.84, 0.88);
+  const headerHeight = 18;
+
+  let cursorY = 0;
+
+  const startPage = (continued: boolean) => {
+    const next = pdfDoc.addPage(LEGEND_PAGE);
+    const heading = `Légende - ${title}${continued ? ' (suite)' : ''}`;
+    next.drawText(pdfSafeText(heading), {
+      x: LEGEND_MARGIN,
+      y: pageHeight - LEGEND_MARGIN - 12,
+      size: 13,
+      font: fonts.bold,
+      color: ink
+    });
+
+    let x = LEGEND_MARGIN;
+    const top = pageHeight - LEGEND_MARGIN - 24;
+    next.drawRectangle({
+      x: LEGEND_MARGIN,
+      y: top - headerHeight,
+      width: pageWidth - LEGEND_MARGIN * 2,
+      height: headerHeight,
+      color: rgb(0.89, 0.91, 0.94)
+    });
+    for (const column of LEGEND_COLUMNS) {
+      next.drawText(pdfSafeText(column.title), { x: x + 4, y: top - 12, size: LEGEND_FONT_SIZE, font: fonts.bold, color: ink });
+      x += column.width;
+    }
+
+    cursorY = top - headerHeight;
+    return next;
+  };
+
+  let page = startPage(false);
+
+  if (entries.length === 0) {
+    page.drawText('Aucune annotation pour ces filtres.', {
+      x: LEGEND_MARGIN + 4,
+      y: cursorY - 14,
+      size: LEGEND_FONT_SIZE,
+      font: fonts.regular,
+      color: ink
+    });
+    return;
+  }
+
+  for (const entry of entries) {
+    const cells = LEGEND_COLUMNS.map((column) =>
+      column.key === 'number' || column.key === 'photos'
+        ? []
+        : fitLines(fonts.regular, legendCellText(entry, column.key), LEGEND_FONT_SIZE, column.width - 8, 3)
+    );
+    const photos = entry.photo_paths.slice(0, LEGEND_THUMBS_PER_ROW);
+    const textHeight = Math.max(1, ...cells.map((lines) => lines.length)) * LEGEND_LINE_HEIGHT + 8;
+    const rowHeight = Math.max(textHeight, photos.length > 0 ? LEGEND_THUMB_PX + 6 : 0, MARKER_RADIUS * 2 + 6);
+
+    if (cursorY - rowHeight < LEGEND_MARGIN) {
+      page = startPage(true);
+    }
+
+    const rowTop = cursorY;
+    let x = LEGEND_MARGIN;
+
+    for (const [index, column] of LEGEND_COLUMNS.entries()) {
+      if (column.key === 'number') {
+        drawMarker(page, fonts.bold, entry.number, { x: x + column.width / 2, y: rowTop - MARKER_RADIUS - 4 }, entry.pin);
+      } else if (column.key === 'photos') {
+        let thumbX = x + 3;
+        for (const path of photos) {
+          const image = await embedThumbnail(pdfDoc, path);
+          if (image) {
+            const scale = LEGEND_THUMB_PX / Math.max(image.width, image.height);
+            page.drawImage(image, {
+              x: thumbX,
+              y: rowTop - 3 - image.height * scale,
+              width: image.width * scale,
+              height: image.height * scale
+            });
+            thumbX += LEGEND_THUMB_PX + 4;
+          }
+        }
+
+        const extra = entry.photo_paths.length - photos.length;
+        if (extra > 0) {
+          page.drawText(`+${extra}`, { x: thumbX, y: rowTop - 14, size: LEGEND_FONT_SIZE, font: fonts.regular, color: ink });
+        }
+      } else {
+        cells[index].forEach((line, lineIndex) => {
+          page.drawText(line, {
+            x: x + 4,
+            y: rowTop - 11 - lineIndex * LEGEND_LINE_HEIGHT,
+            size: LEGEND_FONT_SIZE,
+            font: fonts.regular,
+            color: ink
+          });
+        });
+      }
+
+      x += column.width;
+    }
+
+    cursorY = rowTop - rowHeight;
+    page.drawLine({
+      start: { x: LEGEND_MARGIN, y: cursorY },
+      end: { x: pageWidth - LEGEND_MARGIN, y: cursorY },
+      thickness: 0.5,
+      color: grid
+    });
+
+    await Promise.resolve();
+  }
+}
+
+/**
+ * Flattens the plan (PDF pages, or the image on a single page) with every annotation burnt in as a numbered,
+ * status/priority colored marker, optionally followed by legend pages, and writes it to the cache directory.
+ */
+export async function renderAnnotatedPlanPdf(input: {
+  asset: MediaAsset;
+  fileName: string;
+  title: string;
+  entries: PlanLegendEntry[];
+  calibrations: PlanCalibration[];
+  legend: boolean;
+}) {
+  const pdfDoc = await loadPlanDocument(input.asset);
+  const fonts = {
+    regular: await pdfDoc.embedFont(StandardFonts.Helvetica),
+    bold: await pdfDoc.embedFont(StandardFonts.HelveticaBold)
+  };
+  const pages = pdfDoc.getPages();
+
+  const calibrationByPage = new Map(input.calibrations.map((calibration) => [calibration.page_number, calibration]));
+
+  let drawn = 0;
+  for (const entry of input.entries) {
+    const page = pages[entry.pin.page_number - 1];
+    if (!page) {
+      continue;
+    }
+
+    drawAnnotation(page, fonts, entry.pin, entry.number, calibrationByPage.get(entry.pin.page_number) ?? null);
+    drawn += 1;
+  }
+
+  if (input.legend) {
+    await appendLegendPages(pdfDoc, fonts, input.title, input.entries);
+  }
+
+  const base64 = await pdfDoc.saveAsBase64({ dataUri: false });
+
+  await FileSystem.makeDirectoryAsync(exportDir(), { intermediates: true });
+  const target = `${exportDir()}${input.fileName}`;
+  await FileSystem.writeAsStringAsync(target, base64, {
+    encoding: FileSystem.EncodingType.Base64
+  });
+
+  const info = await FileSystem.getInfoAsync(target);
+  if (!info.exists) {
+    throw new Error('Ecriture du PDF annoté impossible.');
+  }
+
+  return {
+    uri: target,
+    size_bytes: typeof info.size === 'number' ? info.size : 0,
+    annotations_count: drawn,
+    legend_count: input.legend ? input.entries.length : 0
+  };
+}
@@ -3,29 +3,55 @@ import { DocumentVersion, documents } from '../documents';
 import { media } from '../media';
 import { offlineDB } from '../offline/outbox';
 import { assertProjectWritable } from '../control-mode/readOnly';
+import { rules } from '../rules-engine';
 import { tasks } from '../tasks';
+import { measureShape, normalizeShapePoints, shapeAnchor } from './planGeometry';
+import { computeMigrationTargets, detectAreaChanges } from './planMigration';
+import { readPageCount, readPageRatio, renderAnnotatedPlanPdf } from './planPdf';
 import {
   ActivePlanRecord,
+  PlanAnnotatedPdfOptions,
+  PlanAnnotatedPdfResult,
+  PlanAnnotationKind,
+  PlanCalibration,
+  PlanCalibrationInput,
   PlanCreatePinContext,
   PlanCreatePinMeta,
+  PlanCreateShapeContext,
   PlanJumpTarget,
+  PlanLegendEntry,
   PlanOpenResult,
+  PlanPendingMigration,
   PlanPin,
   PlanPinFilters,
+  PlanPinHistoryEntry,
   PlanPinLink,
   PlanPinLinkEntity,
+  PlanPinMigrationOptions,
+  PlanPinMigrationProposal,
+  PlanPinMigrationResult,
   PinLinkCounts,
   PlanPinPriority,
   PlanPinStatus,
+  PlanPoint,
   PlansAnnotationsApi,
   PlansAnnotationsContext,
-  PlanUpdatePinPatch
+  PlanUpdatePinPatch,
+  PlanVersionChange
 } from './types';
 
 const DB_NAME = 'conformeo.db';
 const PINS_TABLE = 'plan_pins';
 const LINKS_TABLE = 'plan_pin_links';
 const ACTIVE_PLAN_TABLE = 'project_active_plan';
+const CALIBRATIONS_TABLE = 'plan_calibrations';
+const HISTORY_TABLE = 'plan_pin_history';
+
+const PIN_UPGRADE_COLUMNS: Array<[string, string]> = [
+  ['kind', "TEXT NOT NULL DEFAULT 'PIN'"],
+  ['points_json', 'TEXT'],
+  ['version_change', 'TEXT']
+];
 
 const DEFAULT_LIMIT = 200;
 const MAX_LIMIT = 1000;
@@ -39,6 +65,9 @@ type PinRow = {
   page_number: number;
   x: number;
   y: number;
+  kind: PlanAnnotationKind | null;
+  points_json: string | null;
+  version_change: PlanVersionChange | null;
   label: string | null;
   status: PlanPinStatus;
   priority: PlanPinPriority;
@@ -57,6 +86,15 @@ type LinkRow = {
   created_at: string;
 };
 
+type CalibrationRow = PlanCalibration;
+
+type HistoryRow = Omit<PlanPinHistoryEntry, 'from_points' | 'to_points' | 'aligned' | 'change_score'> & {
+  from_points_json: string | null;
+  to_points_json: string | null;
+  aligned: number;
+  change_score: number | null;
+};
+
 type ActivePlanRow = {
   org_id: string;
   project_id: string;
@@ -142,6 +180,51 @@ function ensurePinPriority(priority: string): PlanPinPriority {
   throw new Error(`Priorité de pin invalide: ${priority}`);
 }
 
+function ensureShapeKind(kind: string): Exclude<PlanAnnotationKind, 'PIN'> {
+  if (
+    kind === 'AREA' ||
+    kind === 'CLOUD' ||
+    kind === 'POLYLINE' ||
+    kind === 'ARROW' ||
+    kind === 'FREEHAND' ||
+    kind === 'TEXT' ||
+    kind === 'DISTANCE' ||
+    kind === 'SURFACE'
+  ) {
+    return kind;
+  }
+
+  throw new Error(`Type d'annotation invalide: ${kind}`);
+}
+
+function ensureLength(value: number) {
+  if (!Number.isFinite(value) || value <= 0) {
+    throw new Error('La longueur de référence doit être un nombre > 0 (en mètres).');
+  }
+
+  return Number(value.toFixed(4));
+}
+
+function parsePoints(raw: string | null): PlanPoint[] {
+  if (!raw) {
+    return [];
+  }
+
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    if (!Array.isArray(parsed)) {
+      return [];
+    }
+
+    return parsed.filter(
+      (point): point is PlanPoint =>
+        !!point && typeof point.x === 'number' && typeof point.y === 'number'
+    );
+  } catch {
+    return [];
+  }
+}
+
 function ensureLinkEntity(entity: string): PlanPinLinkEntity {
   if (entity === 'TASK' || entity === 'MEDIA' || entity === 'DOCUMENT') {
     return entity;
@@ -160,6 +243,9 @@ function mapPinRow(row: PinRow): PlanPin {
     page_number: row.page_number,
     x: row.x,
     y: row.y,
+    kind: row.kind ?? 'PIN',
+    points: parsePoints(row.points_json),
+    version_change: row.version_change ?? undefined,
     label: row.label ?? undefined,
     status: row.status,
     priority: row.priority,
@@ -190,6 +276,22 @@ function mapActivePlanRow(row: ActivePlanRow): ActivePlanRecord {
   };
 }
 
+function mapCalibrationRow(row: CalibrationRow): PlanCalibration {
+  return { ...row };
+}
+
+function mapHistoryRow(row: HistoryRow): PlanPinHistoryEntry {
+  const { from_points_json, to_points_json, aligned, change_score, ...rest } = row;
+
+  return {
+    ...rest,
+    from_points: parsePoints(from_points_json),
+    to_points: parsePoints(to_points_json),
+    aligned: aligned === 1,
+    change_score: change_score ?? undefined
+  };
+}
+
 async function getDb() {
   if (!dbPromise) {
     dbPromise = SQLite.openDatabaseAsync(DB_NAME);
@@ -213,6 +315,9 @@ async function setupSchema() {
       page_number INTEGER NOT NULL,
       x REAL NOT NULL,
       y REAL NOT NULL,
+      kind TEXT NOT NULL DEFAULT 'PIN',
+      points_json TEXT,
+      version_change TEXT,
       label TEXT,
       status TEXT NOT NULL CHECK (status IN ('OPEN', 'DONE', 'INFO')),
       priority TEXT NOT NULL CHECK (priority IN ('LOW', 'MEDIUM', 'HIGH')),
@@ -257,7 +362,70 @@ async function setupSchema() {
 
     CREATE INDEX IF NOT EXISTS idx_project_active_plan_updated
       ON ${ACTIVE_PLAN_TABLE}(org_id, updated_at DESC);
+
+    CREATE TABLE IF NOT EXISTS ${CALIBRATIONS_TABLE} (
+      id TEXT PRIMARY KEY NOT NULL,
+      org_id TEXT NOT NULL,
+      project_id TEXT NOT NULL,
+      document_id TEXT NOT NULL,
+      document_version_id TEXT NOT NULL,
+      page_number INTEGER NOT NULL,
+      x1 REAL NOT NULL,
+      y1 REAL NOT NULL,
+      x2 REAL NOT NULL,
+      y2 REAL NOT NULL,
+      length_m REAL NOT NULL,
+      page_ratio REAL NOT NULL,
+      created_by TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      UNIQUE(document_version_id, page_number)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_plan_calibrations_document
+      ON ${CALIBRATIONS_TABLE}(document_id, document_version_id, page_number);
+
+    CREATE TABLE IF NOT EXISTS ${HISTORY_TABLE} (
+      id TEXT PRIMARY KEY NOT NULL,
+      pin_id TEXT NOT NULL,
+      org_id TEXT NOT NULL,
+      project_id TEXT NOT NULL,
+      document_id TEXT NOT NULL,
+      from_version_id TEXT NOT NULL,
+      from_version_number INTEGER NOT NULL,
+      from_page INTEGER NOT NULL,
+      from_x REAL NOT NULL,
+      from_y REAL NOT NULL,
+      from_points_json TEXT,
+      to_version_id TEXT NOT NULL,
+      to_version_number INTEGER NOT NULL,
+      to_page INTEGER NOT NULL,
+      to_x REAL NOT NULL,
+      to_y REAL NOT NULL,
+      to_points_json TEXT,
+      aligned INTEGER NOT NULL DEFAULT 0,
+      change TEXT NOT NULL,
+      change_score REAL,
+      migrated_by TEXT NOT NULL,
+      migrated_at TEXT NOT NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_plan_pin_history_pin
+      ON ${HISTORY_TABLE}(pin_id, migrated_at DESC);
   `);
+
+  await addMissingColumns(db, PINS_TABLE, PIN_UPGRADE_COLUMNS);
+}
+
+async function addMissingColumns(db: SQLite.SQLiteDatabase, tableName: string, columns: Array<[string, string]>) {
+  const existing = await db.getAllAsync<{ name: string }>(`PRAGMA table_info(${tableName})`);
+  const names = new Set(existing.map((column) => column.name));
+
+  for (const [name, definition] of columns) {
+    if (!names.has(name)) {
+      await db.execAsync(`ALTER TABLE ${tableName} ADD COLUMN ${name} ${definition};`);
+    }
+  }
 }
 
 async function ensureSetup() {
@@ -305,11 +473,12 @@ async function savePin(pin: PlanPin) {
         id, org_id, project_id,
         document_id, document_version_id,
         page_number, x, y,
+        kind, points_json, version_change,
         label, status, priority,
         assignee_user_id, comment,
         created_by, created_at, updated_at
       )
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `,
     pin.id,
     pin.org_id,
@@ -319,6 +488,9 @@ async function savePin(pin: PlanPin) {
     pin.page_number,
     pin.x,
     pin.y,
+    pin.kind,
+    pin.points.length > 0 ? JSON.stringify(pin.points) : null,
+    pin.version_change ?? null,
     pin.label ?? null,
     pin.status,
     pin.priority,
@@ -399,6 +571,37 @@ async function listLinkRows(pinId: string) {
   );
 }
 
+/** Numbers annotations page by page and, for the legend, resolves linked task titles and photo thumbnails. */
+async function buildLegendEntries(pins: PlanPin[], withLinks: boolean): Promise<PlanLegendEntry[]> {
+  const ordered = [...pins].sort((left, right) => left.page_number - right.page_number);
+  const entries: PlanLegendEntry[] = [];
+
+  for (const [index, pin] of ordered.entries()) {
+    const entry: PlanLegendEntry = { number: index + 1, pin, task_titles: [], photo_paths: [] };
+
+    if (withLinks) {
+      for (const link of await listLinkRows(pin.id)) {
+        if (link.entity === 'TASK') {
+          const task = await tasks.getById(link.entity_id);
+          if (task && !task.deleted_at) {
+            entry.task_titles.push(task.title);
+          }
+        } else if (link.entity === 'MEDIA') {
+          const asset = await media.getById(link.entity_id);
+          if (asset && asset.mime.startsWith('image/')) {
+            const exportFile = await media.getExportFile(asset);
+            entry.photo_paths.push(exportFile.thumb_path || exportFile.path);
+          }
+        }
+      }
+    }
+
+    entries.push(entry);
+  }
+
+  return entries;
+}
+
 async function getActivePlanRow(projectId: string) {
   await ensureSetup();
   const db = await getDb();
@@ -471,6 +674,263 @@ async function enqueueLinkOperation(
   });
 }
 
+async function enqueueCalibrationOperation(calibration: PlanCalibration, type: 'CREATE' | 'UPDATE') {
+  await offlineDB.enqueueOperation({
+    entity: 'plan_calibrations',
+    entity_id: calibration.id,
+    type,
+    payload: {
+      ...calibration,
+      orgId: calibration.org_id
+    }
+  });
+}
+
+async function getCalibrationRow(versionId: string, pageNumber: number) {
+  await ensureSetup();
+  const db = await getDb();
+
+  const row = await db.getFirstAsync<CalibrationRow>(
+    `
+      SELECT *
+      FROM ${CALIBRATIONS_TABLE}
+      WHERE document_version_id = ?
+        AND page_number = ?
+      LIMIT 1
+    `,
+    versionId,
+    pageNumber
+  );
+
+  return row ?? null;
+}
+
+/** Fields of a pin exposed to rule conditions. */
+function buildPinRuleContext(pin: PlanPin) {
+  return {
+    org_id: pin.org_id,
+    entity_id: pin.id,
+    project_id: pin.project_id,
+    document_id: pin.document_id,
+    title: pin.label ?? '',
+    label: pin.label ?? '',
+    comment: pin.comment ?? '',
+    kind: pin.kind,
+    status: pin.status,
+    priority: pin.priority,
+    assignee_user_id: pin.assignee_user_id ?? null,
+    created_by: pin.created_by
+  };
+}
+
+/** Runs PLAN_PIN rules after a write; a rule failure never blocks the annotation. */
+async function evaluatePinRules(pin: PlanPin) {
+  try {
+    await rules.evaluate('PLAN_PIN', buildPinRuleContext(pin));
+  } catch (error) {
+    if (__DEV__) {
+      console.warn('[plans-annotations] rules evaluation failed:', error instanceof Error ? error.message : String(error));
+    }
+  }
+}
+
+async function resolveWritableProject(openResult: PlanOpenResult, requestedProjectId: string | undefined, subject: string) {
+  const projectId = optionalString(requestedProjectId) ?? optionalString(openResult.document.project_id);
+  if (!projectId) {
+    throw new Error(`projectId est requis pour créer ${subject}.`);
+  }
+
+  if (openResult.document.scope === 'PROJECT' && openResult.document.project_id) {
+    if (projectId !== openResult.document.project_id) {
+      throw new Error('projectId incohérent avec le document de plan.');
+    }
+  }
+
+  await assertProjectWritable(openResult.document.org_id, projectId);
+  return projectId;
+}
+
+async function insertAnnotation(
+  openResult: PlanOpenResult,
+  projectId: string,
+  shape: { page: number; kind: PlanAnnotationKind; anchor: PlanPoint; points: PlanPoint[] },
+  meta: PlanCreatePinMeta
+) {
+  const createdBy = optionalString(meta.created_by) ?? contextUserId ?? openResult.document.created_by;
+  if (!createdBy) {
+    throw new Error('created_by est requis pour créer un pin.');
+  }
+
+  const label = optionalString(meta.label);
+  if (shape.kind === 'TEXT' && !label) {
+    throw new Error('Texte: le libellé est requis.');
+  }
+
+  const now = nowIso();
+
+  const pin: PlanPin = {
+    id: optionalString(meta.id) ?? createUuid(),
+    org_id: openResult.document.org_id,
+    project_id: projectId,
+    document_id: openResult.document.id,
+    document_version_id: openResult.version.id,
+    page_number: ensurePage(shape.page, 'ctx.page'),
+    x: shape.anchor.x,
+    y: shape.anchor.y,
+    kind: shape.kind,
+    points: shape.points,
+    label,
+    status: meta.status ? ensurePinStatus(meta.status) : 'OPEN',
+    priority: meta.priority ? ensurePinPriority(meta.priority) : 'MEDIUM',
+    assignee_user_id: optionalString(meta.assignee_user_id),
+    comment: optionalString(meta.comment),
+    created_by: createdBy,
+    created_at: now,
+    updated_at: now
+  };
+
+  await savePin(pin);
+  await enqueuePinOperation(pin, 'CREATE', {
+    version_number: openResult.version.version_number
+  });
+  await evaluatePinRules(pin);
+
+  return pin;
+}
+
+function findVersion(openResult: PlanOpenResult, versionId: string) {
+  const version = openResult.versions.find((candidate) => candidate.id === normalizeText(versionId));
+  if (!version) {
+    throw new Error('Version de plan introuvable.');
+  }
+
+  return version;
+}
+
+async function listVersionPinRows(documentId: string, versionId: string, options: PlanPinMigrationOptions) {
+  await ensureSetup();
+  const db = await getDb();
+
+  const statuses = (options.statuses && options.statuses.length > 0 ? options.statuses : ['OPEN']).map(ensurePinStatus);
+  const where = ['document_id = ?', 'document_version_id = ?', `status IN (${statuses.map(() => '?').join(', ')})`];
+  const params: string[] = [documentId, versionId, ...statuses];
+
+  const pinIds = (options.pinIds ?? []).map((id) => normalizeText(id)).filter((id) => id.length > 0);
+  if (pinIds.length > 0) {
+    where.push(`id IN (${pinIds.map(() => '?').join(', ')})`);
+    params.push(...pinIds);
+  }
+
+  return db.getAllAsync<PinRow>(
+    `
+      SELECT *
+      FROM ${PINS_TABLE}
+      WHERE ${where.join(' AND ')}
+      ORDER BY page_number ASC, created_at ASC
+    `,
+    ...params
+  );
+}
+
+async function buildMigrationProposal(
+  documentId: string,
+  fromVersionId: string,
+  toVersionId: string | undefined,
+  options: PlanPinMigrationOptions
+): Promise<PlanPinMigrationProposal> {
+  const openResult = await resolveOpenResult(documentId, toVersionId);
+  const fromVersion = findVersion(openResult, fromVersionId);
+  const toVersion = openResult.version;
+
+  if (fromVersion.id === toVersion.id) {
+    throw new Error('Les versions source et cible doivent être différentes.');
+  }
+
+  const rows = await listVersionPinRows(openResult.document.id, fromVersion.id, options);
+  const pins = rows.map(mapPinRow);
+
+  const [fromAsset, toAsset] = await Promise.all([
+    media.getById(fromVersion.file_asset_id),
+    media.getById(toVersion.file_asset_id)
+  ]);
+
+  const targets = await computeMigrationTargets({
+    pins,
+    fromAsset,
+    toAsset,
+    toPageCount: await readPageCount(toAsset),
+    alignments: options.alignments ?? []
+  });
+
+  const changes =
+    options.detectChanges === false
+      ? new Map()
+      : fromVersion.file_hash && fromVersion.file_hash === toVersion.file_hash
+        ? new Map(targets.map((target) => [target.pin.id, { change: 'UNCHANGED' as PlanVersionChange, change_score: 0 }]))
+        : await detectAreaChanges(fromAsset, toAsset, targets);
+
+  return {
+    document_id: openResult.document.id,
+    from_version: fromVersion,
+    to_version: toVersion,
+    candidates: targets.map((target) => ({
+      ...target,
+      change: changes.get(target.pin.id)?.change ?? 'UNKNOWN',
+      change_score: changes.get(target.pin.id)?.change_score
+    }))
+  };
+}
+
+async function saveHistoryEntry(entry: PlanPinHistoryEntry) {
+  await ensureSetup();
+  const db = await getDb();
+
+  await db.runAsync(
+    `
+      INSERT INTO ${HISTORY_TABLE}
+      (
+        id, pin_id, org_id, project_id, document_id,
+        from_version_id, from_version_number, from_page, from_x, from_y, from_points_json,
+        to_version_id, to_version_number, to_page, to_x, to_y, to_points_json,
+        aligned, change, change_score, migrated_by, migrated_at
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `,
+    entry.id,
+    entry.pin_id,
+    entry.org_id,
+    entry.project_id,
+    entry.document_id,
+    entry.from_version_id,
+    entry.from_version_number,
+    entry.from_page,
+    entry.from_x,
+    entry.from_y,
+    entry.from_points.length > 0 ? JSON.stringify(entry.from_points) : null,
+    entry.to_version_id,
+    entry.to_version_number,
+    entry.to_page,
+    entry.to_x,
+    entry.to_y,
+    entry.to_points.length > 0 ? JSON.stringify(entry.to_points) : null,
+    entry.aligned ? 1 : 0,
+    entry.change,
+    entry.change_score ?? null,
+    entry.migrated_by,
+    entry.migrated_at
+  );
+
+  await offlineDB.enqueueOperation({
+    entity: 'plan_pin_history',
+    entity_id: entry.id,
+    type: 'CREATE',
+    payload: {
+      ...entry,
+      orgId: entry.org_id
+    }
+  });
+}
+
 async function validateLinkTarget(pin: PlanPin, entity: PlanPinLinkEntity, entityId: string) {
   if (entity === 'TASK') {
     const task = await tasks.getById(entityId);
@@ -641,6 +1101,11 @@ export const plans: PlansAnnotationsApi = {
       params.push(ensurePinStatus(filters.status));
     }
 
+    if (filters.kinds && filters.kinds.length > 0) {
+      where.push(`kind IN (${filters.kinds.map(() => '?').join(', ')})`);
+      params.push(...filters.kinds.map((kind) => (kind === 'PIN' ? kind : ensureShapeKind(kind))));
+    }
+
     if (typeof filters.page_number === 'number') {
       where.push('page_number = ?');
       params.push(ensurePage(filters.page_number, 'filters.page_number'));
@@ -708,52 +1173,29 @@ export const plans: PlansAnnotationsApi = {
 
   async createPin(ctx: PlanCreatePinContext, meta: PlanCreatePinMeta = {}): Promise<PlanPin> {
     const openResult = await resolveOpenResult(ctx.documentId, ctx.versionId);
+    const projectId = await resolveWritableProject(openResult, ctx.projectId, 'un pin');
+
+    return insertAnnotation(
+      openResult,
+      projectId,
+      {
+        page: ctx.page,
+        kind: 'PIN',
+        anchor: { x: ensureCoordinate(ctx.x, 'ctx.x'), y: ensureCoordinate(ctx.y, 'ctx.y') },
+        points: []
+      },
+      meta
+    );
+  },
 
-    const projectId = optionalString(ctx.projectId) ?? optionalString(openResult.document.project_id);
-    if (!projectId) {
-      throw new Error('projectId est requis pour créer un pin.');
-    }
-
-    if (openResult.document.scope === 'PROJECT' && openResult.document.project_id) {
-      if (projectId !== openResult.document.project_id) {
-        throw new Error('projectId incohérent avec le document de plan.');
-      }
-    }
-
-    await assertProjectWritable(openResult.document.org_id, projectId);
-
-    const createdBy = optionalString(meta.created_by) ?? contextUserId ?? openResult.document.created_by;
-    if (!createdBy) {
-      throw new Error('created_by est requis pour créer un pin.');
-    }
-
-    const now = nowIso();
+  async createShape(ctx: PlanCreateShapeContext, meta: PlanCreatePinMeta = {}): Promise<PlanPin> {
+    const kind = ensureShapeKind(ctx.kind);
+    const points = normalizeShapePoints(kind, ctx.points);
 
-    const pin: PlanPin = {
-      id: optionalString(meta.id) ?? createUuid(),
-      org_id: openResult.document.org_id,
-      project_id: projectId,
-      document_id: openResult.document.id,
-      document_version_id: openResult.version.id,
-      page_number: ensurePage(ctx.page, 'ctx.page'),
-      x: ensureCoordinate(ctx.x, 'ctx.x'),
-      y: ensureCoordinate(ctx.y, 'ctx.y'),
-      label: optionalString(meta.label),
-      status: meta.status ? ensurePinStatus(meta.status) : 'OPEN',
-      priority: meta.priority ? ensurePinPriority(meta.priority) : 'MEDIUM',
-      assignee_user_id: optionalString(meta.assignee_user_id),
-      comment: optionalString(meta.comment),
-      created_by: createdBy,
-      created_at: now,
-      updated_at: now
-    };
-
-    await savePin(pin);
-    await enqueuePinOperation(pin, 'CREATE', {
-      version_number: openResult.version.version_number
-    });
+    const openResult = await resolveOpenResult(ctx.documentId, ctx.versionId);
+    const projectId = await resolveWritableProject(openResult, ctx.projectId, 'une annotation');
 
-    return pin;
+    return insertAnnotation(openResult, projectId, { page: ctx.page, kind, anchor: shapeAnchor(points), points }, meta);
   },
 
   async updatePin(pinId: string, patch: PlanUpdatePinPatch): Promise<PlanPin> {
@@ -762,15 +1204,33 @@ export const plans: PlansAnnotationsApi = {
     await assertProjectWritable(current.org_id, current.project_id);
 
     const nextPage = patch.page_number !== undefined ? ensurePage(patch.page_number) : current.page_number;
-    const nextX = patch.x !== undefined ? ensureCoordinate(patch.x, 'patch.x') : current.x;
-    const nextY = patch.y !== undefined ? ensureCoordinate(patch.y, 'patch.y') : current.y;
+    let nextX = patch.x !== undefined ? ensureCoordinate(patch.x, 'patch.x') : current.x;
+    let nextY = patch.y !== undefined ? ensureCoordinate(patch.y, 'patch.y') : current.y;
+    let nextPoints = current.points;
+
+    if (patch.points !== undefined) {
+      if (current.kind === 'PIN') {
+        throw new Error('Un pin n\'a pas de sommets: utiliser x / y.');
+      }
+
+      nextPoints = normalizeShapePoints(current.kind, patch.points);
+      const anchor = shapeAnchor(nextPoints);
+      nextX = anchor.x;
+      nextY = anchor.y;
+    }
+
+    const nextLabel = patch.label !== undefined ? optionalString(patch.label) : current.label;
+    if (current.kind === 'TEXT' && !nextLabel) {
+      throw new Error('Texte: le libellé est requis.');
+    }
 
     const updated: PlanPin = {
       ...current,
       page_number: nextPage,
       x: nextX,
       y: nextY,
-      label: patch.label !== undefined ? optionalString(patch.label) : current.label,
+      points: nextPoints,
+      label: nextLabel,
       status: patch.status !== undefined ? ensurePinStatus(patch.status) : current.status,
       priority: patch.priority !== undefined ? ensurePinPriority(patch.priority) : current.priority,
       assignee_user_id:
@@ -784,6 +1244,7 @@ export const plans: PlansAnnotationsApi = {
       patch,
       data: updated
     });
+    await evaluatePinRules(updated);
 
     return updated;
   },
@@ -967,6 +1428,305 @@ export const plans: PlansAnnotationsApi = {
     };
   },
 
+  async setCalibration(input: PlanCalibrationInput): Promise<PlanCalibration> {
+    const openResult = await resolveOpenResult(input.documentId, input.versionId);
+    const projectId = await resolveWritableProject(openResult, input.projectId, 'un étalonnage');
+
+    const page = ensurePage(input.page, 'input.page');
+    const from = { x: ensureCoordinate(input.from.x, 'from.x'), y: ensureCoordinate(input.from.y, 'from.y') };
+    const to = { x: ensureCoordinate(input.to.x, 'to.x'), y: ensureCoordinate(input.to.y, 'to.y') };
+    if (from.x === to.x && from.y === to.y) {
+      throw new Error('Les deux points de référence doivent être distincts.');
+    }
+
+    const asset = await media.getById(openResult.version.file_asset_id);
+    if (!asset) {
+      throw new Error('Fichier du plan introuvable.');
+    }
+
+    const pageRatio = await readPageRatio(asset, page);
+    const current = await getCalibrationRow(openResult.version.id, page);
+    const now = nowIso();
+
+    const calibration: PlanCalibration = {
+      id: current?.id ?? createUuid(),
+      org_id: openResult.document.org_id,
+      project_id: projectId,
+      document_id: openResult.document.id,
+      document_version_id: openResult.version.id,
+      page_number: page,
+      x1: from.x,
+      y1: from.y,
+      x2: to.x,
+      y2: to.y,
+      length_m: ensureLength(input.length_m),
+      page_ratio: Number(pageRatio.toFixed(6)),
+      created_by: current?.created_by ?? contextUserId ?? openResult.document.created_by,
+      created_at: current?.created_at ?? now,
+      updated_at: now
+    };
+
+    await ensureSetup();
+    const db = await getDb();
+
+    await db.runAsync(
+      `
+        INSERT OR REPLACE INTO ${CALIBRATIONS_TABLE}
+        (
+          id, org_id, project_id,
+          document_id, document_version_id, page_number,
+          x1, y1, x2, y2, length_m, page_ratio,
+          created_by, created_at, updated_at
+        )
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `,
+      calibration.id,
+      calibration.org_id,
+      calibration.project_id,
+      calibration.document_id,
+      calibration.document_version_id,
+      calibration.page_number,
+      calibration.x1,
+      calibration.y1,
+      calibration.x2,
+      calibration.y2,
+      calibration.length_m,
+      calibration.page_ratio,
+      calibration.created_by,
+      calibration.created_at,
+      calibration.updated_at
+    );
+
+    await enqueueCalibrationOperation(calibration, current ? 'UPDATE' : 'CREATE');
+    return calibration;
+  },
+
+  async getCalibration(documentId: string, versionId: string, page: number): Promise<PlanCalibration | null> {
+    const openResult = await resolveOpenResult(documentId, versionId);
+    const row = await getCalibrationRow(openResult.version.id, ensurePage(page, 'page'));
+    return row ? mapCalibrationRow(row) : null;
+  },
+
+  async listCalibrations(documentId: string, versionId?: string): Promise<PlanCalibration[]> {
+    const openResult = await resolveOpenResult(documentId, versionId);
+
+    await ensureSetup();
+    const db = await getDb();
+
+    const rows = await db.getAllAsync<CalibrationRow>(
+      `
+        SELECT *
+        FROM ${CALIBRATIONS_TABLE}
+        WHERE document_version_id = ?
+        ORDER BY page_number ASC
+      `,
+      openResult.version.id
+    );
+
+    return rows.map(mapCalibrationRow);
+  },
+
+  measure(pin: PlanPin, calibration: PlanCalibration | null) {
+    if (calibration && calibration.page_number !== pin.page_number) {
+      return null;
+    }
+
+    return measureShape(pin.kind, pin.points, calibration);
+  },
+
+  async exportAnnotatedPdf(
+    documentId: string,
+    versionId?: string,
+    filters: PlanPinFilters = {},
+    options: PlanAnnotatedPdfOptions = {}
+  ): Promise<PlanAnnotatedPdfResult> {
+    const openResult = await resolveOpenResult(documentId, versionId);
+
+    const asset = await media.getById(openResult.version.file_asset_id);
+    if (!asset) {
+      throw new Error('Fichier du plan introuvable.');
+    }
+
+    const [pins, calibrations] = await Promise.all([
+      plans.listPins(openResult.document.id, openResult.version.id, { ...filters, limit: filters.limit ?? MAX_LIMIT }),
+      plans.listCalibrations(openResult.document.id, openResult.version.id)
+    ]);
+
+    const legend = options.legend ?? true;
+    const entries = await buildLegendEntries(pins, legend);
+
+    const stamp = nowIso().replace(/[:.]/g, '-');
+    const rendered = await renderAnnotatedPlanPdf({
+      asset,
+      fileName:
+        optionalString(options.file_name) ??
+        `plan_${openResult.document.id}_v${openResult.version.version_number}_${stamp}.pdf`,
+      title: `${openResult.document.title} - v${openResult.version.version_number}`,
+      entries,
+      calibrations,
+      legend
+    });
+
+    return {
+      ...rendered,
+      document_id: openResult.document.id,
+      document_version_id: openResult.version.id,
+      version_number: openResult.version.version_number
+    };
+  },
+
+  async getPendingMigration(documentId: string, versionId?: string): Promise<PlanPendingMigration | null> {
+    const openResult = await resolveOpenResult(documentId, versionId);
+
+    await ensureSetup();
+    const db = await getDb();
+
+    const rows = await db.getAllAsync<{ document_version_id: string; count: number }>(
+      `
+        SELECT document_version_id, COUNT(*) AS count
+        FROM ${PINS_TABLE}
+        WHERE document_id = ?
+          AND document_version_id <> ?
+          AND status = 'OPEN'
+        GROUP BY document_version_id
+      `,
+      openResult.document.id,
+      openResult.version.id
+    );
+
+    const counts = new Map(rows.map((row) => [row.document_version_id, Number(row.count)]));
+    const source = openResult.versions.find(
+      (version) => version.version_number < openResult.version.version_number && (counts.get(version.id) ?? 0) > 0
+    );
+
+    if (!source) {
+      return null;
+    }
+
+    return {
+      from_version: source,
+      to_version: openResult.version,
+      pins_count: counts.get(source.id) ?? 0
+    };
+  },
+
+  async proposeMigration(documentId: string, fromVersionId: string, toVersionId?: string, options = {}) {
+    return buildMigrationProposal(documentId, fromVersionId, toVersionId, options);
+  },
+
+  async migratePins(documentId: string, fromVersionId: string, toVersionId?: string, options = {}): Promise<PlanPinMigrationResult> {
+    const proposal = await buildMigrationProposal(documentId, fromVersionId, toVersionId, options);
+    const result: PlanPinMigrationResult = { migrated: [], skipped: [], history: [] };
+
+    for (const candidate of proposal.candidates) {
+      ensureOrgAccess(candidate.pin.org_id);
+      await assertProjectWritable(candidate.pin.org_id, candidate.pin.project_id);
+    }
+
+    const migratedBy = contextUserId ?? proposal.to_version.created_by;
+
+    for (const candidate of proposal.candidates) {
+      const { pin, target } = candidate;
+
+      if (candidate.out_of_bounds) {
+        result.skipped.push({ pin_id: pin.id, reason: 'Hors du nouveau plan après alignement.' });
+        continue;
+      }
+
+      const now = nowIso();
+      const entry: PlanPinHistoryEntry = {
+        id: createUuid(),
+        pin_id: pin.id,
+        org_id: pin.org_id,
+        project_id: pin.project_id,
+        document_id: pin.document_id,
+        from_version_id: proposal.from_version.id,
+        from_version_number: proposal.from_version.version_number,
+        from_page: pin.page_number,
+        from_x: pin.x,
+        from_y: pin.y,
+        from_points: pin.points,
+        to_version_id: proposal.to_version.id,
+        to_version_number: proposal.to_version.version_number,
+        to_page: target.page_number,
+        to_x: target.x,
+        to_y: target.y,
+        to_points: target.points,
+        aligned: candidate.aligned,
+        change: candidate.change,
+        change_score: candidate.change_score,
+        migrated_by: migratedBy,
+        migrated_at: now
+      };
+
+      const moved: PlanPin = {
+        ...pin,
+        document_version_id: proposal.to_version.id,
+        page_number: target.page_number,
+        x: target.x,
+        y: target.y,
+        points: target.points,
+        version_change: candidate.change,
+        updated_at: now
+      };
+
+      await savePin(moved);
+      await enqueuePinOperation(moved, 'UPDATE', {
+        data: moved,
+        migration: {
+          history_id: entry.id,
+          from_version_id: entry.from_version_id,
+          to_version_id: entry.to_version_id,
+          version_number: entry.to_version_number
+        }
+      });
+      await saveHistoryEntry(entry);
+
+      result.migrated.push(moved);
+      result.history.push(entry);
+    }
+
+    return result;
+  },
+
+  async listPinHistory(pinId: string): Promise<PlanPinHistoryEntry[]> {
+    await ensurePin(pinId);
+
+    await ensureSetup();
+    const db = await getDb();
+
+    const rows = await db.getAllAsync<HistoryRow>(
+      `
+        SELECT *
+        FROM ${HISTORY_TABLE}
+        WHERE pin_id = ?
+        ORDER BY migrated_at DESC
+      `,
+      pinId
+    );
+
+    return rows.map(mapHistoryRow);
+  },
+
+  async acknowledgeVersionChange(pinId: string): Promise<PlanPin> {
+    const current = await ensurePin(pinId);
+    ensureOrgAccess(current.org_id);
+    await assertProjectWritable(current.org_id, current.project_id);
+
+    if (!current.version_change) {
+      return current;
+    }
+
+    const updated: PlanPin = { ...current, version_change: undefined, updated_at: nowIso() };
+    await savePin(updated);
+    await enqueuePinOperation(updated, 'UPDATE', {
+      patch: { version_change: null },
+      data: updated
+    });
+
+    return updated;
+  },
+
   async createTaskFromPin(pinId: string, template = {}) {
     const pin = await ensurePin(pinId);
     ensureOrgAccess(pin.org_id);
@@ -8,6 +8,38 @@ export type PlanPinPriority = 'LOW' | 'MEDIUM' | 'HIGH';
 
 export type PlanPinLinkEntity = 'TASK' | 'MEDIA' | 'DOCUMENT';
 
+/**
+ * `PIN` is the historical single-point marker. Every other kind is a shape drawn from `points`:
+ * - `AREA` / `CLOUD` / `SURFACE`: closed polygons (`SURFACE` shows its calibrated area)
+ * - `POLYLINE` / `FREEHAND`: open lines
+ * - `ARROW` / `DISTANCE`: two points (`DISTANCE` shows its calibrated length)
+ * - `TEXT`: a callout whose text is the label, anchored on one point
+ */
+export type PlanAnnotationKind =
+  | 'PIN'
+  | 'AREA'
+  | 'CLOUD'
+  | 'POLYLINE'
+  | 'ARROW'
+  | 'FREEHAND'
+  | 'TEXT'
+  | 'DISTANCE'
+  | 'SURFACE';
+
+/**
+ * Result of comparing the area of a pin between two plan versions:
+ * - `CHANGED` / `UNCHANGED`: pixels of the surrounding area compared (image plans)
+ * - `PAGE_CHANGED`: the PDF page was redrawn, the change cannot be located more precisely
+ * - `UNKNOWN`: comparison impossible (missing file, image vs PDF...)
+ */
+export type PlanVersionChange = 'UNCHANGED' | 'CHANGED' | 'PAGE_CHANGED' | 'UNKNOWN';
+
+/** Normalized page coordinates (0..1, origin top-left). */
+export type PlanPoint = {
+  x: number;
+  y: number;
+};
+
 export type ActivePlanRecord = {
   project_id: string;
   document_id: string;
@@ -28,8 +60,14 @@ export type PlanPin = {
   document_id: string;
   document_version_id: string;
   page_number: number;
+  /** Anchor of the annotation: the pin itself, or the center of the shape bounding box. */
   x: number;
   y: number;
+  kind: PlanAnnotationKind;
+  /** Shape vertices, empty for `PIN`. */
+  points: PlanPoint[];
+  /** Set when the pin was carried to a new plan version, cleared once reviewed. */
+  version_change?: PlanVersionChange;
   label?: string;
   status: PlanPinStatus;
   priority: PlanPinPriority;
@@ -40,6 +78,113 @@ export type PlanPin = {
   updated_at: string;
 };
 
+/**
+ * Scale of one plan page: a reference segment of known real length.
+ * `page_ratio` (width / height) makes normalized coordinates isotropic.
+ */
+export type PlanCalibration = {
+  id: string;
+  org_id: string;
+  project_id: string;
+  document_id: string;
+  document_version_id: string;
+  page_number: number;
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  length_m: number;
+  page_ratio: number;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+};
+
+export type PlanMeasure = {
+  value: number;
+  unit: 'm' | 'm²';
+  label: string;
+};
+
+/** One move of a pin from a plan version to another. */
+export type PlanPinHistoryEntry = {
+  id: string;
+  pin_id: string;
+  org_id: string;
+  project_id: string;
+  document_id: string;
+  from_version_id: string;
+  from_version_number: number;
+  from_page: number;
+  from_x: number;
+  from_y: number;
+  from_points: PlanPoint[];
+  to_version_id: string;
+  to_version_number: number;
+  to_page: number;
+  to_x: number;
+  to_y: number;
+  to_points: PlanPoint[];
+  aligned: boolean;
+  change: PlanVersionChange;
+  change_score?: number;
+  migrated_by: string;
+  migrated_at: string;
+};
+
+/**
+ * Two reference points picked on the old version (`from`) and on the new one (`to`).
+ * Without `page`, the alignment applies to every page.
+ */
+export type PlanAlignment = {
+  page?: number;
+  from: [PlanPoint, PlanPoint];
+  to: [PlanPoint, PlanPoint];
+};
+
+export type PlanPinMigrationOptions = {
+  /** Defaults to `['OPEN']`. */
+  statuses?: PlanPinStatus[];
+  pinIds?: string[];
+  alignments?: PlanAlignment[];
+  /** Defaults to true. */
+  detectChanges?: boolean;
+};
+
+export type PlanPinMigrationCandidate = {
+  pin: PlanPin;
+  target: {
+    page_number: number;
+    x: number;
+    y: number;
+    points: PlanPoint[];
+  };
+  aligned: boolean;
+  /** The transformed annotation leaves the page (or the page no longer exists): it is not carried. */
+  out_of_bounds: boolean;
+  change: PlanVersionChange;
+  change_score?: number;
+};
+
+export type PlanPinMigrationProposal = {
+  document_id: string;
+  from_version: DocumentVersion;
+  to_version: DocumentVersion;
+  candidates: PlanPinMigrationCandidate[];
+};
+
+export type PlanPinMigrationResult = {
+  migrated: PlanPin[];
+  skipped: Array<{ pin_id: string; reason: string }>;
+  history: PlanPinHistoryEntry[];
+};
+
+export type PlanPendingMigration = {
+  from_version: DocumentVersion;
+  to_version: DocumentVersion;
+  pins_count: number;
+};
+
 export type PlanPinLink = {
   id: string;
   pin_id: string;
@@ -63,6 +208,52 @@ export type PlanCreatePinContext = {
   projectId?: string;
 };
 
+export type PlanCreateShapeContext = {
+  documentId: string;
+  versionId?: string;
+  page: number;
+  kind: Exclude<PlanAnnotationKind, 'PIN'>;
+  points: PlanPoint[];
+  projectId?: string;
+};
+
+export type PlanCalibrationInput = {
+  documentId: string;
+  versionId?: string;
+  page: number;
+  from: PlanPoint;
+  to: PlanPoint;
+  length_m: number;
+  projectId?: string;
+};
+
+export type PlanAnnotatedPdfOptions = {
+  /** Appends numbered legend pages (label, status, assignee, linked tasks, photo thumbnails). Default true. */
+  legend?: boolean;
+  /** Output file name inside the cache export directory; generated when omitted. */
+  file_name?: string;
+};
+
+export type PlanAnnotatedPdfResult = {
+  uri: string;
+  size_bytes: number;
+  annotations_count: number;
+  /** Rows of the legend, numbered like the markers drawn on the plan (0 without legend). */
+  legend_count: number;
+  document_id: string;
+  document_version_id: string;
+  version_number: number;
+};
+
+/** One numbered row of the legend appended to an annotated plan PDF. */
+export type PlanLegendEntry = {
+  number: number;
+  pin: PlanPin;
+  task_titles: string[];
+  /** Local thumbnail paths of the photos linked to the pin. */
+  photo_paths: string[];
+};
+
 export type PlanCreatePinMeta = {
   id?: string;
   label?: string;
@@ -77,6 +268,8 @@ export type PlanUpdatePinPatch = {
   page_number?: number;
   x?: number;
   y?: number;
+  /** Shapes only: replaces the vertices and moves the anchor accordingly. */
+  points?: PlanPoint[];
   label?: string;
   status?: PlanPinStatus;
   priority?: PlanPinPriority;
@@ -86,6 +279,7 @@ export type PlanUpdatePinPatch = {
 
 export type PlanPinFilters = {
   status?: PlanPinStatus | 'ALL';
+  kinds?: PlanAnnotationKind[];
   page_number?: number;
   limit?: number;
   offset?: number;
@@ -119,6 +313,7 @@ export type PlansAnnotationsApi = {
   listPins: (documentId: string, versionId?: string, filters?: PlanPinFilters) => Promise<PlanPin[]>;
   listPinsByProject: (projectId: string, filters?: Pick<PlanPinFilters, 'status' | 'limit' | 'offset'>) => Promise<PlanPin[]>;
   createPin: (ctx: PlanCreatePinContext, meta?: PlanCreatePinMeta) => Promise<PlanPin>;
+  createShape: (ctx: PlanCreateShapeContext, meta?: PlanCreatePinMeta) => Promise<PlanPin>;
   updatePin: (pinId: string, patch: PlanUpdatePinPatch) => Promise<PlanPin>;
   deletePin: (pinId: string) => Promise<void>;
 
@@ -129,6 +324,34 @@ export type PlansAnnotationsApi = {
 
   jumpToPin: (pinId: string) => Promise<PlanJumpTarget>;
 
+  setCalibration: (input: PlanCalibrationInput) => Promise<PlanCalibration>;
+  getCalibration: (documentId: string, versionId: string, page: number) => Promise<PlanCalibration | null>;
+  listCalibrations: (documentId: string, versionId?: string) => Promise<PlanCalibration[]>;
+  measure: (pin: PlanPin, calibration: PlanCalibration | null) => PlanMeasure | null;
+
+  exportAnnotatedPdf: (
+    documentId: string,
+    versionId?: string,
+    filters?: PlanPinFilters,
+    options?: PlanAnnotatedPdfOptions
+  ) => Promise<PlanAnnotatedPdfResult>;
+
+  getPendingMigration: (documentId: string, versionId?: string) => Promise<PlanPendingMigration | null>;
+  proposeMigration: (
+    documentId: string,
+    fromVersionId: string,
+    toVersionId?: string,
+    options?: PlanPinMigrationOptions
+  ) => Promise<PlanPinMigrationProposal>;
+  migratePins: (
+    documentId: string,
+    fromVersionId: string,
+    toVersionId?: string,
+    options?: PlanPinMigrationOptions
+  ) => Promise<PlanPinMigrationResult>;
+  listPinHistory: (pinId: string) => Promise<PlanPinHistoryEntry[]>;
+  acknowledgeVersionChange: (pinId: string) => Promise<PlanPin>;
+
   createTaskFromPin: (
     pinId: string,
     template?: Partial<Pick<Task, 'title' | 'description' | 'status' | 'priority' | 'tags'>>
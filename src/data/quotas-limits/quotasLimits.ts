@@ -1,7 +1,7 @@
 import * as SQLite from 'expo-sqlite';
 import { requireSupabaseClient } from '../../core/supabase/client';
 import { toErrorMessage } from '../../core/identity-security/utils';
-import { OrgQuotas, OrgUsage } from './types';
+import { MediaDurationLimits, OrgQuotas, OrgUsage, UploadMediaInfo } from './types';
 
 const DB_NAME = 'conformeo.db';
 
@@ -18,6 +18,12 @@ const DEFAULT_QUOTAS: Omit<OrgQuotas, 'org_id'> = {
   max_file_mb: 25
 };
 
+// Clips are proofs, not reports: short enough to stay uploadable from a chantier connection.
+const MEDIA_DURATION_LIMITS: MediaDurationLimits = {
+  video_seconds: 120,
+  audio_seconds: 300
+};
+
 type QuotasCacheRow = {
   org_id: string;
   storage_mb: number;
@@ -328,6 +334,32 @@ async function countLocalExportsToday(orgId: string) {
   return row?.count ?? 0;
 }
 
+function formatSeconds(seconds: number) {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(Math.round(seconds % 60)).padStart(2, '0')}`;
+}
+
+function explainDurationBlock(mediaInfo: UploadMediaInfo | undefined) {
+  if (!mediaInfo || typeof mediaInfo.duration_ms !== 'number' || !Number.isFinite(mediaInfo.duration_ms)) {
+    return null;
+  }
+
+  const limit =
+    mediaInfo.kind === 'VIDEO'
+      ? MEDIA_DURATION_LIMITS.video_seconds
+      : mediaInfo.kind === 'AUDIO'
+        ? MEDIA_DURATION_LIMITS.audio_seconds
+        : null;
+
+  const seconds = mediaInfo.duration_ms / 1000;
+  if (limit === null || seconds <= limit) {
+    return null;
+  }
+
+  const label = mediaInfo.kind === 'VIDEO' ? 'Video' : 'Note audio';
+  return `${label} trop longue: ${formatSeconds(seconds)} (max ${formatSeconds(limit)}).`;
+}
+
 export const quotas = {
   setContext(context: { org_id?: string; user_id?: string }) {
     contextOrgId = normalizeText(context.org_id) || null;
@@ -496,7 +528,16 @@ export const quotas = {
     return mapped;
   },
 
-  async explainUploadBlock(sizeMb: number): Promise<string | null> {
+  mediaDurationLimits(): MediaDurationLimits {
+    return { ...MEDIA_DURATION_LIMITS };
+  },
+
+  async explainUploadBlock(sizeMb: number, mediaInfo?: UploadMediaInfo): Promise<string | null> {
+    const durationReason = explainDurationBlock(mediaInfo);
+    if (durationReason) {
+      return durationReason;
+    }
+
     const orgId = normalizeText(contextOrgId);
 
     if (!orgId) {
@@ -527,8 +568,8 @@ export const quotas = {
     return null;
   },
 
-  async canUpload(sizeMb: number) {
-    const reason = await this.explainUploadBlock(sizeMb);
+  async canUpload(sizeMb: number, mediaInfo?: UploadMediaInfo) {
+    const reason = await this.explainUploadBlock(sizeMb, mediaInfo);
     return reason === null;
   },
 
@@ -14,3 +14,14 @@ export type OrgUsage = {
   media_today: number;
   computed_at?: string;
 };
+
+/** Media characteristics checked on top of the file size before a capture/import is accepted. */
+export type UploadMediaInfo = {
+  kind: 'PHOTO' | 'DOCUMENT' | 'VIDEO' | 'AUDIO';
+  duration_ms?: number;
+};
+
+export type MediaDurationLimits = {
+  video_seconds: number;
+  audio_seconds: number;
+};
@@ -0,0 +1,3 @@
+export * from './types';
+export { describeRecurrence, expandOccurrences, formatRRule, parseRRule } from './rrule';
+export { recurrence } from './recurrence';
@@ -0,0 +1,771 @@
+import * as Crypto from 'expo-crypto';
+import * as SQLite from 'expo-sqlite';
+import { offlineDB } from '../offline/outbox';
+import { planning } from '../planning-engine';
+import { tasks } from '../tasks';
+import { TaskPriority } from '../tasks/types';
+import {
+  countOccurrencesBefore,
+  expandOccurrences,
+  formatRRule,
+  normalizeRecurrenceRule,
+  parseRRule,
+  remapOccurrenceKeys
+} from './rrule';
+import {
+  RecurrenceGenerateResult,
+  RecurrenceOccurrence,
+  RecurrenceOccurrencePatch,
+  RecurrenceRule,
+  RecurrenceScope,
+  RecurringSeries,
+  RecurringSeriesCreateInput
+} from './types';
+
+const DB_NAME = 'conformeo.db';
+const TABLE_NAME = 'recurrence_series';
+const TASKS_TABLE = 'tasks';
+const PLANNING_TABLE = 'planning_items';
+
+const DEFAULT_HORIZON_DAYS = 30;
+const MAX_HORIZON_DAYS = 365;
+const MAX_DURATION_MINUTES = 24 * 60;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type SeriesRow = {
+  id: string;
+  org_id: string;
+  project_id: string;
+  title: string;
+  description: string | null;
+  priority: TaskPriority;
+  tags_json: string;
+  assignee_user_id: string | null;
+  team_id: string | null;
+  task_id: string | null;
+  duration_minutes: number | null;
+  dtstart: string;
+  rule_json: string | null;
+  rrule: string;
+  exdates_json: string;
+  overrides_json: string;
+  generated_until: string | null;
+  previous_series_id: string | null;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+  deleted_at: string | null;
+};
+
+type GeneratedTaskRow = { id: string; occurrence_key: string; status: string; deleted_at: string | null };
+type GeneratedItemRow = { id: string; occurrence_key: string; start_at: string; deleted_at: string | null };
+
+type GeneratedOccurrence = {
+  task?: GeneratedTaskRow;
+  item?: GeneratedItemRow;
+};
+
+let dbPromise: Promise<SQLite.SQLiteDatabase> | null = null;
+let setupPromise: Promise<void> | null = null;
+
+function nowIso() {
+  return new Date().toISOString();
+}
+
+function normalizeText(value: string | null | undefined) {
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+function toOptional(value: string | null | undefined) {
+  const cleaned = normalizeText(value);
+  return cleaned.length > 0 ? cleaned : undefined;
+}
+
+function createUuid() {
+  const randomUUID = (globalThis as { crypto?: { randomUUID?: () => string } }).crypto?.randomUUID;
+  if (typeof randomUUID === 'function') {
+    return randomUUID();
+  }
+
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (char) => {
+    const random = Math.floor(Math.random() * 16);
+    const next = char === 'x' ? random : (random & 0x3) | 0x8;
+    return next.toString(16);
+  });
+}
+
+function parseJsonArray<T>(raw: string | null, fallback: T[]) {
+  if (!raw) return fallback;
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? (parsed as T[]) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+/** `rule_json` is authoritative; the RRULE text is the fallback for rows written by other clients. */
+function parseRule(raw: string | null, rrule: string): RecurrenceRule {
+  try {
+    const parsed = raw ? (JSON.parse(raw) as RecurrenceRule) : null;
+    if (parsed && typeof parsed === 'object' && parsed.freq) {
+      return parsed;
+    }
+  } catch {
+    // fall back to the RRULE text
+  }
+
+  try {
+    return parseRRule(rrule);
+  } catch {
+    return { freq: 'DAILY', interval: 1, count: 1 };
+  }
+}
+
+function normalizeTags(tags: string[] | undefined) {
+  return Array.from(new Set((tags ?? []).map((tag) => tag.trim()).filter((tag) => tag.length > 0)));
+}
+
+function normalizeIso(value: string, label: string) {
+  const ms = Date.parse(normalizeText(value));
+  if (!Number.isFinite(ms)) {
+    throw new Error(`${label} invalide.`);
+  }
+  return new Date(ms).toISOString();
+}
+
+function normalizeDuration(value: number | undefined) {
+  if (value === undefined || value === null) return undefined;
+  const minutes = Math.round(value);
+  if (!Number.isFinite(minutes) || minutes < 5 || minutes > MAX_DURATION_MINUTES) {
+    throw new Error('Durée invalide (5 min à 24 h).');
+  }
+  return minutes;
+}
+
+function addMinutes(iso: string, minutes: number) {
+  return new Date(Date.parse(iso) + minutes * 60_000).toISOString();
+}
+
+function clampHorizon(days?: number) {
+  if (typeof days !== 'number' || !Number.isFinite(days)) return DEFAULT_HORIZON_DAYS;
+  return Math.max(1, Math.min(MAX_HORIZON_DAYS, Math.floor(days)));
+}
+
+function mapRow(row: SeriesRow): RecurringSeries {
+  return {
+    id: row.id,
+    org_id: row.org_id,
+    project_id: row.project_id,
+    title: row.title,
+    description: toOptional(row.description),
+    priority: row.priority,
+    tags: parseJsonArray<string>(row.tags_json, []),
+    assignee_user_id: toOptional(row.assignee_user_id),
+    team_id: toOptional(row.team_id),
+    task_id: toOptional(row.task_id),
+    duration_minutes: typeof row.duration_minutes === 'number' && row.duration_minutes > 0 ? row.duration_minutes : undefined,
+    dtstart: row.dtstart,
+    rule: parseRule(row.rule_json, row.rrule),
+    rrule: row.rrule,
+    exdates: parseJsonArray<string>(row.exdates_json, []),
+    overrides: parseJsonArray<string>(row.overrides_json, []),
+    generated_until: toOptional(row.generated_until),
+    previous_series_id: toOptional(row.previous_series_id),
+    created_by: row.created_by,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+    deleted_at: toOptional(row.deleted_at)
+  };
+}
+
+async function getDb() {
+  if (!dbPromise) {
+    dbPromise = SQLite.openDatabaseAsync(DB_NAME);
+  }
+  return dbPromise;
+}
+
+async function ensureSetup() {
+  if (!setupPromise) {
+    setupPromise = (async () => {
+      const db = await getDb();
+      await db.execAsync(`
+        PRAGMA journal_mode = WAL;
+
+        CREATE TABLE IF NOT EXISTS ${TABLE_NAME} (
+          id TEXT PRIMARY KEY NOT NULL,
+          org_id TEXT NOT NULL,
+          project_id TEXT NOT NULL,
+          title TEXT NOT NULL,
+          description TEXT,
+          priority TEXT NOT NULL CHECK (priority IN ('LOW', 'MEDIUM', 'HIGH')),
+          tags_json TEXT NOT NULL DEFAULT '[]',
+          assignee_user_id TEXT,
+          team_id TEXT,
+          task_id TEXT,
+          duration_minutes INTEGER,
+          dtstart TEXT NOT NULL,
+          rule_json TEXT NOT NULL,
+          rrule TEXT NOT NULL,
+          exdates_json TEXT NOT NULL DEFAULT '[]',
+          overrides_json TEXT NOT NULL DEFAULT '[]',
+          generated_until TEXT,
+          previous_series_id TEXT,
+          created_by TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL,
+          deleted_at TEXT
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_recurrence_series_org_project
+          ON ${TABLE_NAME}(org_id, project_id, deleted_at);
+      `);
+    })();
+  }
+
+  return setupPromise;
+}
+
+async function saveSeries(series: RecurringSeries) {
+  await ensureSetup();
+  const db = await getDb();
+
+  await db.runAsync(
+    `
+      INSERT OR REPLACE INTO ${TABLE_NAME}
+      (
+        id, org_id, project_id, title, description, priority, tags_json,
+        assignee_user_id, team_id, task_id, duration_minutes,
+        dtstart, rule_json, rrule, exdates_json, overrides_json,
+        generated_until, previous_series_id,
+        created_by, created_at, updated_at, deleted_at
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `,
+    series.id,
+    series.org_id,
+    series.project_id,
+    series.title,
+    series.description ?? null,
+    series.priority,
+    JSON.stringify(series.tags),
+    series.assignee_user_id ?? null,
+    series.team_id ?? null,
+    series.task_id ?? null,
+    series.duration_minutes ?? null,
+    series.dtstart,
+    JSON.stringify(series.rule),
+    series.rrule,
+    JSON.stringify(series.exdates),
+    JSON.stringify(series.overrides),
+    series.generated_until ?? null,
+    series.previous_series_id ?? null,
+    series.created_by,
+    series.created_at,
+    series.updated_at,
+    series.deleted_at ?? null
+  );
+
+  return series;
+}
+
+async function enqueueSeriesOperation(
+  series: RecurringSeries,
+  type: 'CREATE' | 'UPDATE' | 'DELETE',
+  payload: Record<string, unknown>
+) {
+  await offlineDB.enqueueOperation({
+    entity: TABLE_NAME,
+    entity_id: series.id,
+    type,
+    payload: {
+      ...payload,
+      id: series.id,
+      org_id: series.org_id,
+      orgId: series.org_id,
+      project_id: series.project_id,
+      updated_at: series.updated_at
+    }
+  });
+}
+
+async function getSeriesRow(id: string) {
+  await ensureSetup();
+  const db = await getDb();
+  const row = await db.getFirstAsync<SeriesRow>(`SELECT * FROM ${TABLE_NAME} WHERE id = ? LIMIT 1`, id);
+  return row ? mapRow(row) : null;
+}
+
+async function requireSeries(id: string) {
+  const series = await getSeriesRow(id);
+  if (!series || series.deleted_at) {
+    throw new Error('Série récurrente introuvable.');
+  }
+  return series;
+}
+
+async function updateSeries(series: RecurringSeries, patch: Partial<RecurringSeries>) {
+  const next: RecurringSeries = { ...series, ...patch, updated_at: nowIso() };
+  next.rrule = formatRRule(next.rule);
+  await saveSeries(next);
+  await enqueueSeriesOperation(next, 'UPDATE', { patch, data: next });
+  return next;
+}
+
+/**
+ * Deterministic UUID (v5 layout) of a generated occurrence: two devices generating the same
+ * occurrence offline push the same id, so the server merges them instead of duplicating.
+ */
+async function occurrenceId(seriesId: string, occurrenceKey: string, kind: 'task' | 'planning') {
+  const hex = await Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, `${seriesId}:${occurrenceKey}:${kind}`);
+  const variant = ((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16);
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-5${hex.slice(13, 16)}-${variant}${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
+}
+
+/** Occurrences already created for a series, deleted ones included (they must not be regenerated). */
+async function loadGenerated(seriesId: string) {
+  const db = await getDb();
+  const generated = new Map<string, GeneratedOccurrence>();
+
+  try {
+    const taskRows = await db.getAllAsync<GeneratedTaskRow>(
+      `SELECT id, occurrence_key, status, deleted_at FROM ${TASKS_TABLE} WHERE series_id = ? AND occurrence_key IS NOT NULL`,
+      seriesId
+    );
+    for (const row of taskRows) {
+      generated.set(row.occurrence_key, { ...generated.get(row.occurrence_key), task: row });
+    }
+  } catch {
+    // tasks table not created yet
+  }
+
+  try {
+    const itemRows = await db.getAllAsync<GeneratedItemRow>(
+      `SELECT id, occurrence_key, start_at, deleted_at FROM ${PLANNING_TABLE} WHERE series_id = ? AND occurrence_key IS NOT NULL`,
+      seriesId
+    );
+    for (const row of itemRows) {
+      generated.set(row.occurrence_key, { ...generated.get(row.occurrence_key), item: row });
+    }
+  } catch {
+    // planning table not created yet
+  }
+
+  return generated;
+}
+
+async function removeOccurrence(occurrence: GeneratedOccurrence) {
+  if (occurrence.item && !occurrence.item.deleted_at) {
+    await planning.softDelete(occurrence.item.id);
+  }
+  if (occurrence.task && !occurrence.task.deleted_at) {
+    await tasks.softDelete(occurrence.task.id);
+  }
+}
+
+/**
+ * Soft-deletes the generated occurrences starting at or after `fromKey`.
+ * Done occurrences are history and are kept; `keep` may spare more (edited occurrences).
+ * Returns the keys that were kept.
+ */
+async function removeFutureOccurrences(series: RecurringSeries, fromKey: string, keep: (key: string) => boolean = () => false) {
+  const fromMs = Date.parse(fromKey);
+  const kept: string[] = [];
+
+  for (const [key, occurrence] of await loadGenerated(series.id)) {
+    if (Date.parse(key) < fromMs) continue;
+    if (occurrence.task?.status === 'DONE' || keep(key)) {
+      if (!occurrence.task?.deleted_at && !occurrence.item?.deleted_at) kept.push(key);
+      continue;
+    }
+    await removeOccurrence(occurrence);
+  }
+
+  return kept;
+}
+
+/** Ends a series just before `key`; returns null when no occurrence remains (series deleted). */
+async function truncateSeries(series: RecurringSeries, key: string) {
+  const before = countOccurrencesBefore(series.rule, series.dtstart, key);
+  if (before === 0) {
+    return null;
+  }
+
+  const rule: RecurrenceRule =
+    typeof series.rule.count === 'number'
+      ? { ...series.rule, count: before }
+      : { ...series.rule, until: new Date(Date.parse(key) - 1000).toISOString() };
+
+  return updateSeries(series, { rule });
+}
+
+async function markSeriesDeleted(series: RecurringSeries) {
+  const deletedAt = nowIso();
+  const next: RecurringSeries = { ...series, deleted_at: deletedAt, updated_at: deletedAt };
+  await saveSeries(next);
+  await enqueueSeriesOperation(next, 'UPDATE', { patch: { deleted_at: deletedAt }, data: next });
+}
+
+async function generateSeries(series: RecurringSeries, untilMs: number) {
+  const to = new Date(untilMs).toISOString();
+  const counts = { tasks_created: 0, planning_items_created: 0 };
+
+  if (series.generated_until && Date.parse(series.generated_until) >= untilMs) {
+    return counts;
+  }
+
+  if (series.task_id) {
+    const task = await tasks.getById(series.task_id);
+    if (!task) {
+      throw new Error('Tâche de la série introuvable.');
+    }
+  }
+
+  const keys = expandOccurrences(series.rule, series.dtstart, { from: series.generated_until, to }, series.exdates);
+  const generated = keys.length > 0 ? await loadGenerated(series.id) : new Map<string, GeneratedOccurrence>();
+
+  for (const key of keys) {
+    const existing = generated.get(key);
+    const endAt = series.duration_minutes ? addMinutes(key, series.duration_minutes) : undefined;
+    let taskId = series.task_id;
+
+    if (!series.task_id) {
+      if (existing?.task) {
+        if (existing.task.deleted_at) continue;
+        taskId = existing.task.id;
+      } else {
+        const task = await tasks.create({
+          id: await occurrenceId(series.id, key, 'task'),
+          org_id: series.org_id,
+          project_id: series.project_id,
+          title: series.title,
+          description: series.description,
+          priority: series.priority,
+          due_date: endAt ?? key,
+          assignee_user_id: series.assignee_user_id,
+          created_by: series.created_by,
+          tags: series.tags,
+          series_id: series.id,
+          occurrence_key: key
+        });
+        taskId = task.id;
+        counts.tasks_created += 1;
+      }
+    }
+
+    if (!endAt || !taskId || existing?.item) continue;
+
+    await planning.create({
+      id: await occurrenceId(series.id, key, 'planning'),
+      org_id: series.org_id,
+      project_id: series.project_id,
+      task_id: taskId,
+      title_snapshot: series.title,
+      start_at: key,
+      end_at: endAt,
+      assignee_user_id: series.assignee_user_id,
+      team_id: series.team_id,
+      created_by: series.created_by,
+      series_id: series.id,
+      occurrence_key: key
+    });
+    counts.planning_items_created += 1;
+  }
+
+  await updateSeries(series, { generated_until: to });
+  return counts;
+}
+
+function buildSeries(input: RecurringSeriesCreateInput, previousSeriesId?: string): RecurringSeries {
+  const orgId = normalizeText(input.org_id);
+  const projectId = normalizeText(input.project_id);
+  const createdBy = normalizeText(input.created_by);
+  const title = normalizeText(input.title);
+
+  if (!orgId) throw new Error('org_id requis.');
+  if (!projectId) throw new Error('project_id requis.');
+  if (!createdBy) throw new Error('created_by requis.');
+  if (title.length < 2) throw new Error('Titre de série trop court.');
+
+  const dtstart = normalizeIso(input.dtstart, 'Date de début');
+  const rule = normalizeRecurrenceRule(input.rule, dtstart);
+  const durationMinutes = normalizeDuration(input.duration_minutes);
+  const taskId = toOptional(input.task_id);
+
+  if (taskId && !durationMinutes) {
+    throw new Error('Une série de planning sur une tâche existante nécessite une durée.');
+  }
+
+  const createdAt = nowIso();
+  return {
+    id: createUuid(),
+    org_id: orgId,
+    project_id: projectId,
+    title,
+    description: toOptional(input.description),
+    priority: input.priority ?? 'MEDIUM',
+    tags: normalizeTags(input.tags),
+    assignee_user_id: toOptional(input.assignee_user_id),
+    team_id: toOptional(input.team_id),
+    task_id: taskId,
+    duration_minutes: durationMinutes,
+    dtstart,
+    rule,
+    rrule: formatRRule(rule),
+    exdates: [],
+    overrides: [],
+    previous_series_id: previousSeriesId,
+    created_by: createdBy,
+    created_at: createdAt,
+    updated_at: createdAt
+  };
+}
+
+export const recurrence = {
+  async create(input: RecurringSeriesCreateInput): Promise<RecurringSeries> {
+    await ensureSetup();
+    const series = buildSeries(input);
+
+    if (series.task_id) {
+      const task = await tasks.getById(series.task_id);
+      if (!task || task.project_id !== series.project_id) {
+        throw new Error('Tâche introuvable dans ce chantier.');
+      }
+    }
+
+    await saveSeries(series);
+    await enqueueSeriesOperation(series, 'CREATE', { data: series });
+    await generateSeries(series, Date.now() + DEFAULT_HORIZON_DAYS * DAY_MS);
+
+    return (await getSeriesRow(series.id)) ?? series;
+  },
+
+  async getSeries(id: string) {
+    const series = await getSeriesRow(id);
+    return series && !series.deleted_at ? series : null;
+  },
+
+  async listSeries(projectId: string, orgId: string): Promise<RecurringSeries[]> {
+    await ensureSetup();
+    const db = await getDb();
+    const rows = await db.getAllAsync<SeriesRow>(
+      `
+        SELECT *
+        FROM ${TABLE_NAME}
+        WHERE org_id = ?
+          AND project_id = ?
+          AND deleted_at IS NULL
+        ORDER BY dtstart ASC
+      `,
+      orgId,
+      projectId
+    );
+    return rows.map(mapRow);
+  },
+
+  /**
+   * Creates, offline, the occurrences of every active series of the org up to `days` ahead.
+   * Idempotent: occurrences already generated (or deleted) are never recreated.
+   */
+  async generateAhead(
+    orgId: string,
+    options: { days?: number; project_id?: string } = {}
+  ): Promise<RecurrenceGenerateResult> {
+    await ensureSetup();
+    const db = await getDb();
+    const projectId = toOptional(options.project_id);
+    const rows = await db.getAllAsync<SeriesRow>(
+      `
+        SELECT *
+        FROM ${TABLE_NAME}
+        WHERE org_id = ?
+          AND (? IS NULL OR project_id = ?)
+          AND deleted_at IS NULL
+      `,
+      orgId,
+      projectId ?? null,
+      projectId ?? null
+    );
+
+    const untilMs = Date.now() + clampHorizon(options.days) * DAY_MS;
+    const result: RecurrenceGenerateResult = { series: rows.length, tasks_created: 0, planning_items_created: 0, failed: [] };
+
+    for (const row of rows) {
+      try {
+        const counts = await generateSeries(mapRow(row), untilMs);
+        result.tasks_created += counts.tasks_created;
+        result.planning_items_created += counts.planning_items_created;
+      } catch (error) {
+        result.failed.push({ series_id: row.id, reason: error instanceof Error ? error.message : 'Erreur inconnue.' });
+      }
+    }
+
+    return result;
+  },
+
+  /** Occurrences of a series within [from, to), generated or not. */
+  async listOccurrences(seriesId: string, range: { from?: string; to: string }): Promise<RecurrenceOccurrence[]> {
+    const series = await requireSeries(seriesId);
+    const generated = await loadGenerated(series.id);
+    const overrides = new Set(series.overrides);
+
+    return expandOccurrences(series.rule, series.dtstart, range, series.exdates).map((key) => {
+      const occurrence = generated.get(key);
+      const task = occurrence?.task && !occurrence.task.deleted_at ? occurrence.task : undefined;
+      const item = occurrence?.item && !occurrence.item.deleted_at ? occurrence.item : undefined;
+      return {
+        series_id: series.id,
+        occurrence_key: key,
+        start_at: item?.start_at ?? key,
+        task_id: task?.id ?? (item ? series.task_id : undefined),
+        planning_item_id: item?.id,
+        generated: Boolean(task || item),
+        overridden: overrides.has(key)
+      };
+    });
+  },
+
+  /**
+   * THIS: edits the generated task / planning item of one occurrence and marks it as overridden.
+   * FUTURE: ends the series before the occurrence and starts a new series from it with the patch
+   * applied; open occurrences are regenerated, done and individually edited ones are kept.
+   */
+  async updateOccurrence(
+    seriesId: string,
+    occurrenceKey: string,
+    patch: RecurrenceOccurrencePatch,
+    scope: RecurrenceScope
+  ): Promise<RecurringSeries> {
+    const series = await requireSeries(seriesId);
+    const key = normalizeIso(occurrenceKey, 'Occurrence');
+
+    if (scope === 'THIS') {
+      if (patch.rule) {
+        throw new Error('La règle ne peut être modifiée que pour les occurrences suivantes.');
+      }
+
+      const occurrence = (await loadGenerated(series.id)).get(key);
+      const live = occurrence && ((occurrence.task && !occurrence.task.deleted_at) || (occurrence.item && !occurrence.item.deleted_at));
+      if (!occurrence || !live) {
+        throw new Error("Occurrence non générée: modifiez la série ou générez d'abord les occurrences.");
+      }
+
+      const startAt = patch.start_at !== undefined ? normalizeIso(patch.start_at, 'Début') : undefined;
+      const duration = normalizeDuration(patch.duration_minutes) ?? series.duration_minutes;
+
+      if (occurrence.task && !occurrence.task.deleted_at) {
+        await tasks.update(occurrence.task.id, {
+          title: patch.title,
+          description: patch.description,
+          priority: patch.priority,
+          assignee_user_id: patch.assignee_user_id !== undefined ? patch.assignee_user_id ?? '' : undefined,
+          due_date: startAt && duration ? addMinutes(startAt, duration) : startAt
+        });
+      }
+
+      if (occurrence.item && !occurrence.item.deleted_at) {
+        const current = await planning.getById(occurrence.item.id);
+        const nextStart = startAt ?? current?.start_at ?? key;
+        await planning.update(occurrence.item.id, {
+          title_snapshot: patch.title,
+          start_at: startAt,
+          end_at: startAt || patch.duration_minutes !== undefined ? addMinutes(nextStart, duration ?? 60) : undefined,
+          assignee_user_id: patch.assignee_user_id,
+          team_id: patch.team_id
+        });
+      }
+
+      if (series.overrides.includes(key)) {
+        return series;
+      }
+      return updateSeries(series, { overrides: [...series.overrides, key] });
+    }
+
+    const remainingCount =
+      typeof series.rule.count === 'number' && !patch.rule
+        ? series.rule.count - countOccurrencesBefore(series.rule, series.dtstart, key)
+        : undefined;
+    if (remainingCount !== undefined && remainingCount < 1) {
+      throw new Error('Occurrence hors de la série.');
+    }
+
+    const overrides = new Set(series.overrides);
+    const kept = await removeFutureOccurrences(series, key, (candidate) => overrides.has(candidate));
+
+    const truncated = await truncateSeries(series, key);
+    if (!truncated) {
+      await markSeriesDeleted(series);
+    }
+
+    const dtstart = patch.start_at !== undefined ? normalizeIso(patch.start_at, 'Début') : key;
+    const rule: RecurrenceRule = patch.rule ?? { ...series.rule, count: remainingCount };
+    const next = buildSeries(
+      {
+        org_id: series.org_id,
+        project_id: series.project_id,
+        title: patch.title ?? series.title,
+        description: patch.description ?? series.description,
+        priority: patch.priority ?? series.priority,
+        tags: series.tags,
+        assignee_user_id: patch.assignee_user_id !== undefined ? patch.assignee_user_id ?? undefined : series.assignee_user_id,
+        team_id: patch.team_id !== undefined ? patch.team_id ?? undefined : series.team_id,
+        task_id: series.task_id,
+        duration_minutes: patch.duration_minutes ?? series.duration_minutes,
+        dtstart,
+        rule,
+        created_by: series.created_by
+      },
+      series.id
+    );
+    if (patch.rule) {
+      // New rule: slots do not map one to one. Kept occurrences stay detached instances of the old series
+      // and only exclude the new slots they exactly cover.
+      next.exdates = kept.filter((candidate) => Date.parse(candidate) >= Date.parse(dtstart));
+    } else {
+      // Same rule, start possibly moved: kept occurrences and exceptions follow their slot in the new series.
+      const carried = [...kept, ...series.exdates.filter((candidate) => Date.parse(candidate) >= Date.parse(key))];
+      next.exdates = remapOccurrenceKeys(series.rule, series.dtstart, key, next.rule, next.dtstart, carried);
+    }
+
+    await saveSeries(next);
+    await enqueueSeriesOperation(next, 'CREATE', { data: next });
+    await generateSeries(next, Math.max(Date.parse(series.generated_until ?? dtstart), Date.now() + DEFAULT_HORIZON_DAYS * DAY_MS));
+
+    return (await getSeriesRow(next.id)) ?? next;
+  },
+
+  /** THIS: adds an exception and deletes the occurrence. FUTURE: ends the series before it. */
+  async deleteOccurrence(seriesId: string, occurrenceKey: string, scope: RecurrenceScope) {
+    const series = await requireSeries(seriesId);
+    const key = normalizeIso(occurrenceKey, 'Occurrence');
+
+    if (scope === 'THIS') {
+      const occurrence = (await loadGenerated(series.id)).get(key);
+      if (occurrence) {
+        await removeOccurrence(occurrence);
+      }
+      if (!series.exdates.includes(key)) {
+        await updateSeries(series, { exdates: [...series.exdates, key] });
+      }
+      return;
+    }
+
+    await removeFutureOccurrences(series, key);
+    const truncated = await truncateSeries(series, key);
+    if (!truncated) {
+      await markSeriesDeleted(series);
+    }
+  },
+
+  /** Deletes the series and its upcoming open occurrences; past and done ones stay as history. */
+  async deleteSeries(seriesId: string) {
+    const series = await getSeriesRow(seriesId);
+    if (!series || series.deleted_at) {
+      return;
+    }
+
+    await removeFutureOccurrences(series, nowIso());
+    await markSeriesDeleted(series);
+  }
+};
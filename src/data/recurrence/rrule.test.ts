@@ -0,0 +1,114 @@
+/// <reference types="node" />
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { expandOccurrences, formatRRule, normalizeRecurrenceRule, parseRRule, remapOccurrenceKeys } from './rrule';
+import type { RecurrenceRule } from './types';
+
+function at(day: number, hour: number) {
+  return new Date(2026, 2, day, hour, 0, 0).toISOString();
+}
+
+function onDate(month: number, day: number, hour = 8) {
+  return new Date(2026, month, day, hour, 0, 0).toISOString();
+}
+
+describe('expandOccurrences', () => {
+  it('skips months without the requested day for MONTHLY on the 31st', () => {
+    const rule: RecurrenceRule = { freq: 'MONTHLY', interval: 1, by_month_day: 31, count: 5 };
+
+    assert.deepEqual(expandOccurrences(rule, onDate(0, 31), { to: onDate(11, 31) }), [
+      onDate(0, 31),
+      onDate(2, 31),
+      onDate(4, 31),
+      onDate(6, 31),
+      onDate(7, 31)
+    ]);
+  });
+
+  it('uses the last day of each month for BYMONTHDAY=-1', () => {
+    const rule: RecurrenceRule = { freq: 'MONTHLY', interval: 1, by_month_day: -1, count: 3 };
+
+    assert.deepEqual(expandOccurrences(rule, onDate(0, 31), { to: onDate(11, 31) }), [
+      onDate(0, 31),
+      onDate(1, 28),
+      onDate(2, 31)
+    ]);
+  });
+
+  it('walks WEEKLY BYDAY in week order from a mid-week start', () => {
+    // 2026-03-04 is a Wednesday: the Monday of that week is before dtstart and is skipped.
+    const rule: RecurrenceRule = { freq: 'WEEKLY', interval: 1, by_weekday: [1, 3], count: 4 };
+
+    assert.deepEqual(expandOccurrences(rule, at(4, 8), { to: at(31, 0) }), [at(4, 8), at(9, 8), at(11, 8), at(16, 8)]);
+  });
+
+  it('skips whole weeks with INTERVAL on WEEKLY BYDAY', () => {
+    const rule: RecurrenceRule = { freq: 'WEEKLY', interval: 2, by_weekday: [1, 3] };
+
+    assert.deepEqual(expandOccurrences(rule, at(4, 8), { to: at(26, 0) }), [at(4, 8), at(16, 8), at(18, 8)]);
+  });
+
+  it('counts exceptions in COUNT and includes UNTIL', () => {
+    const daily: RecurrenceRule = { freq: 'DAILY', interval: 1, count: 3 };
+    assert.deepEqual(expandOccurrences(daily, at(2, 8), { to: at(31, 0) }, [at(3, 8)]), [at(2, 8), at(4, 8)]);
+
+    const until: RecurrenceRule = { freq: 'DAILY', interval: 1, until: at(4, 8) };
+    assert.deepEqual(expandOccurrences(until, at(2, 8), { from: at(3, 0), to: at(31, 0) }), [at(3, 8), at(4, 8)]);
+  });
+});
+
+describe('RRULE text', () => {
+  it('round-trips the supported subset', () => {
+    const rule = parseRRule('RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;COUNT=10');
+
+    assert.deepEqual(rule, { freq: 'WEEKLY', interval: 2, by_weekday: [1, 3], count: 10 });
+    assert.equal(formatRRule(rule), 'FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;COUNT=10');
+  });
+
+  it('rejects the parts it cannot expand', () => {
+    assert.throws(() => parseRRule('FREQ=MONTHLY;BYDAY=1MO'), /BYDAY est pris en charge uniquement/);
+    assert.throws(() => parseRRule('FREQ=WEEKLY;BYDAY=1MO'), /BYDAY non pris en charge: 1MO/);
+    assert.throws(() => parseRRule('FREQ=YEARLY'), /Fréquence non prise en charge/);
+  });
+
+  it('defaults BYDAY and BYMONTHDAY to the first occurrence when normalizing', () => {
+    assert.deepEqual(normalizeRecurrenceRule({ freq: 'WEEKLY', interval: 1 }, at(4, 8)).by_weekday, [3]);
+    assert.equal(normalizeRecurrenceRule({ freq: 'MONTHLY', interval: 1 }, onDate(0, 31)).by_month_day, 31);
+  });
+});
+
+describe('remapOccurrenceKeys (FUTURE split)', () => {
+  const rule: RecurrenceRule = { freq: 'DAILY', interval: 1, count: 10 };
+  const dtstart = at(2, 8);
+
+  it('moves a completed occurrence onto the new start time so it is not generated twice', () => {
+    // Occurrence of the 5th already DONE, then "this and following" from the 4th moved from 08:00 to 10:00.
+    const splitKey = at(4, 8);
+    const doneKey = at(5, 8);
+    const nextDtstart = at(4, 10);
+    const nextRule: RecurrenceRule = { ...rule, count: 8 };
+
+    const exdates = remapOccurrenceKeys(rule, dtstart, splitKey, nextRule, nextDtstart, [doneKey]);
+    assert.deepEqual(exdates, [at(5, 10)]);
+
+    const regenerated = expandOccurrences(nextRule, nextDtstart, { to: at(30, 0) }, exdates);
+    assert.equal(regenerated.length, 7);
+    assert.ok(!regenerated.includes(at(5, 10)));
+    assert.ok(!regenerated.includes(doneKey));
+  });
+
+  it('carries exceptions of the old series and drops keys before the split', () => {
+    const splitKey = at(4, 8);
+    const nextDtstart = at(4, 7);
+    const nextRule: RecurrenceRule = { ...rule, count: 8 };
+
+    const exdates = remapOccurrenceKeys(rule, dtstart, splitKey, nextRule, nextDtstart, [at(3, 8), at(7, 8), at(6, 8)]);
+    assert.deepEqual(exdates, [at(6, 7), at(7, 7)]);
+  });
+
+  it('keeps keys unchanged when the start time does not move', () => {
+    const splitKey = at(4, 8);
+    const exdates = remapOccurrenceKeys(rule, dtstart, splitKey, { ...rule, count: 8 }, splitKey, [at(5, 8)]);
+    assert.deepEqual(exdates, [at(5, 8)]);
+  });
+});
@@ -0,0 +1,352 @@
+import type { RecurrenceFrequency, RecurrenceRule } from './types';
+
+/** Hard cap on generated occurrences for one expansion (guards against open-ended rules). */
+export const MAX_OCCURRENCES = 1000;
+
+const MAX_PERIODS = 20000;
+const DAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'] as const;
+const DAY_LABELS = ['dim.', 'lun.', 'mar.', 'mer.', 'jeu.', 'ven.', 'sam.'];
+const FREQUENCIES: RecurrenceFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY'];
+
+function parseDate(value: string, label: string) {
+  const date = new Date(value);
+  if (!Number.isFinite(date.getTime())) {
+    throw new Error(`${label} invalide.`);
+  }
+  return date;
+}
+
+function daysInMonth(year: number, month: number) {
+  return new Date(year, month + 1, 0).getDate();
+}
+
+/** Monday-first order, as in RRULE WKST=MO. */
+function weekdayOffset(day: number) {
+  return (day + 6) % 7;
+}
+
+function withTimeOf(date: Date, time: Date) {
+  const next = new Date(date);
+  next.setHours(time.getHours(), time.getMinutes(), time.getSeconds(), time.getMilliseconds());
+  return next;
+}
+
+export function normalizeRecurrenceRule(rule: RecurrenceRule, dtstart: string): RecurrenceRule {
+  if (!FREQUENCIES.includes(rule.freq)) {
+    throw new Error('Fréquence de récurrence invalide.');
+  }
+
+  const interval = Math.floor(rule.interval ?? 1);
+  if (!Number.isFinite(interval) || interval < 1 || interval > 366) {
+    throw new Error('Intervalle de récurrence invalide (1 à 366).');
+  }
+
+  const start = parseDate(dtstart, 'Date de début');
+  const normalized: RecurrenceRule = { freq: rule.freq, interval };
+
+  if (rule.freq === 'WEEKLY') {
+    const days = Array.from(new Set(rule.by_weekday ?? [])).filter((day) => Number.isInteger(day) && day >= 0 && day <= 6);
+    if ((rule.by_weekday ?? []).length > 0 && days.length === 0) {
+      throw new Error('Jours de la semaine invalides.');
+    }
+    normalized.by_weekday = (days.length > 0 ? days : [start.getDay()]).sort((a, b) => weekdayOffset(a) - weekdayOffset(b));
+  }
+
+  if (rule.freq === 'MONTHLY') {
+    const day = rule.by_month_day ?? start.getDate();
+    if (!Number.isInteger(day) || (day !== -1 && (day < 1 || day > 31))) {
+      throw new Error('Jour du mois invalide (1 à 31, ou -1 pour le dernier jour).');
+    }
+    normalized.by_month_day = day;
+  }
+
+  if (typeof rule.count === 'number') {
+    const count = Math.floor(rule.count);
+    if (!Number.isFinite(count) || count < 1) {
+      throw new Error("Nombre d'occurrences invalide.");
+    }
+    normalized.count = count;
+  }
+
+  if (rule.until) {
+    const until = parseDate(rule.until, 'Date de fin');
+    if (until.getTime() < start.getTime()) {
+      throw new Error('La date de fin de récurrence précède la première occurrence.');
+    }
+    normalized.until = until.toISOString();
+  }
+
+  return normalized;
+}
+
+/**
+ * Visits the candidate starts of a rule in chronological order, from dtstart.
+ * Local time of day is kept across DST changes; invalid month days (31 in April) are skipped.
+ * `visit` returns false to stop.
+ */
+function walkCandidates(rule: RecurrenceRule, start: Date, visit: (date: Date) => boolean) {
+  if (rule.freq === 'DAILY') {
+    for (let period = 0; period < MAX_PERIODS; period += 1) {
+      const date = withTimeOf(new Date(start.getFullYear(), start.getMonth(), start.getDate() + period * rule.interval), start);
+      if (!visit(date)) return;
+    }
+    return;
+  }
+
+  if (rule.freq === 'WEEKLY') {
+    const days = rule.by_weekday && rule.by_weekday.length > 0 ? rule.by_weekday : [start.getDay()];
+    const monday = new Date(start.getFullYear(), start.getMonth(), start.getDate() - weekdayOffset(start.getDay()));
+    for (let period = 0; period < MAX_PERIODS; period += 1) {
+      for (const day of days) {
+        const date = withTimeOf(
+          new Date(monday.getFullYear(), monday.getMonth(), monday.getDate() + period * rule.interval * 7 + weekdayOffset(day)),
+          start
+        );
+        if (date.getTime() < start.getTime()) continue;
+        if (!visit(date)) return;
+      }
+    }
+    return;
+  }
+
+  const monthDay = rule.by_month_day ?? start.getDate();
+  for (let period = 0; period < MAX_PERIODS; period += 1) {
+    const month = new Date(start.getFullYear(), start.getMonth() + period * rule.interval, 1);
+    const length = daysInMonth(month.getFullYear(), month.getMonth());
+    const day = monthDay === -1 ? length : monthDay;
+    if (day > length) continue;
+    const date = withTimeOf(new Date(month.getFullYear(), month.getMonth(), day), start);
+    if (date.getTime() < start.getTime()) continue;
+    if (!visit(date)) return;
+  }
+}
+
+/**
+ * Occurrence starts (ISO) of a series within [from, to).
+ * COUNT counts every occurrence from dtstart, exceptions included (RFC 5545).
+ */
+export function expandOccurrences(
+  rule: RecurrenceRule,
+  dtstart: string,
+  range: { from?: string; to: string },
+  exdates: string[] = []
+) {
+  const start = parseDate(dtstart, 'Date de début');
+  const fromMs = range.from ? parseDate(range.from, 'Début de période').getTime() : Number.NEGATIVE_INFINITY;
+  const toMs = parseDate(range.to, 'Fin de période').getTime();
+  const untilMs = rule.until ? parseDate(rule.until, 'Date de fin').getTime() : Number.POSITIVE_INFINITY;
+  const excluded = new Set(exdates.map((value) => new Date(value).getTime()));
+
+  const occurrences: string[] = [];
+  let seen = 0;
+
+  walkCandidates(rule, start, (date) => {
+    const ms = date.getTime();
+    if (ms > untilMs || ms >= toMs) return false;
+    if (typeof rule.count === 'number' && seen >= rule.count) return false;
+    seen += 1;
+
+    if (ms >= fromMs && !excluded.has(ms)) {
+      occurrences.push(date.toISOString());
+    }
+    return occurrences.length < MAX_OCCURRENCES;
+  });
+
+  return occurrences;
+}
+
+/** Number of candidate occurrences (exceptions included) strictly before `before`. */
+export function countOccurrencesBefore(rule: RecurrenceRule, dtstart: string, before: string) {
+  return expandOccurrences(rule, dtstart, { to: before }).length;
+}
+
+/** Next candidate start after `after` (exceptions ignored), or null when the rule is exhausted. */
+export function nextOccurrenceAfter(rule: RecurrenceRule, dtstart: string, after: string) {
+  const afterMs = parseDate(after, 'Date').getTime();
+  const untilMs = rule.until ? parseDate(rule.until, 'Date de fin').getTime() : Number.POSITIVE_INFINITY;
+  let seen = 0;
+  let found: string | null = null;
+
+  walkCandidates(rule, parseDate(dtstart, 'Date de début'), (date) => {
+    const ms = date.getTime();
+    if (ms > untilMs) return false;
+    if (typeof rule.count === 'number' && seen >= rule.count) return false;
+    seen += 1;
+    if (ms > afterMs) {
+      found = date.toISOString();
+      return false;
+    }
+    return true;
+  });
+
+  return found as string | null;
+}
+
+/** First `limit` candidate starts of a rule (exceptions ignored). */
+function firstCandidates(rule: RecurrenceRule, dtstart: string, limit: number) {
+  const untilMs = rule.until ? parseDate(rule.until, 'Date de fin').getTime() : Number.POSITIVE_INFINITY;
+  const candidates: string[] = [];
+
+  walkCandidates(rule, parseDate(dtstart, 'Date de début'), (date) => {
+    if (date.getTime() > untilMs) return false;
+    if (typeof rule.count === 'number' && candidates.length >= rule.count) return false;
+    candidates.push(date.toISOString());
+    return candidates.length < limit;
+  });
+
+  return candidates;
+}
+
+/**
+ * Carries occurrence keys of a series split at `fromKey` onto the series replacing it from `nextDtstart`:
+ * the n-th candidate of the old series from `fromKey` maps to the n-th candidate of the new one, so a
+ * shifted start time moves exceptions and kept occurrences along. Keys before `fromKey`, or that are not
+ * candidates of the old rule, are dropped.
+ */
+export function remapOccurrenceKeys(
+  rule: RecurrenceRule,
+  dtstart: string,
+  fromKey: string,
+  nextRule: RecurrenceRule,
+  nextDtstart: string,
+  keys: string[]
+) {
+  const fromMs = parseDate(fromKey, 'Occurrence').getTime();
+  const targets = keys.map((key) => new Date(key).getTime()).filter((ms) => Number.isFinite(ms) && ms >= fromMs);
+  if (targets.length === 0) {
+    return [];
+  }
+
+  const lastMs = Math.max(...targets);
+  const oldKeys = expandOccurrences(rule, dtstart, { from: fromKey, to: new Date(lastMs + 1).toISOString() }).map((key) =>
+    Date.parse(key)
+  );
+  const ordinals = targets.map((ms) => oldKeys.indexOf(ms)).filter((ordinal) => ordinal >= 0);
+  if (ordinals.length === 0) {
+    return [];
+  }
+
+  const nextKeys = firstCandidates(nextRule, nextDtstart, Math.max(...ordinals) + 1);
+  const remapped = ordinals.map((ordinal) => nextKeys[ordinal]).filter((key): key is string => Boolean(key));
+  return Array.from(new Set(remapped)).sort();
+}
+
+function formatUtc(value: string) {
+  return new Date(value).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}Z$/, 'Z');
+}
+
+function parseUtc(value: string) {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z?))?$/.exec(value.trim());
+  if (!match) {
+    throw new Error(`UNTIL invalide: ${value}`);
+  }
+  const [, y, mo, d, h = '23', mi = '59', s = '59', utc] = match;
+  const parts = [Number(y), Number(mo) - 1, Number(d), Number(h), Number(mi), Number(s)] as const;
+  return utc ? new Date(Date.UTC(...parts)).toISOString() : new Date(...parts).toISOString();
+}
+
+/** RRULE text (without the `RRULE:` prefix), e.g. `FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;COUNT=10`. */
+export function formatRRule(rule: RecurrenceRule) {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.freq === 'WEEKLY' && rule.by_weekday && rule.by_weekday.length > 0) {
+    parts.push(`BYDAY=${rule.by_weekday.map((day) => DAY_CODES[day]).join(',')}`);
+  }
+  if (rule.freq === 'MONTHLY' && typeof rule.by_month_day === 'number') {
+    parts.push(`BYMONTHDAY=${rule.by_month_day}`);
+  }
+  if (typeof rule.count === 'number') parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${formatUtc(rule.until)}`);
+  return parts.join(';');
+}
+
+/** Parses the supported RRULE subset; unsupported parts (BYSETPOS, BYDAY=1MO...) are rejected. */
+export function parseRRule(text: string): RecurrenceRule {
+  const body = text.trim().replace(/^RRULE:/i, '');
+  const values = new Map<string, string>();
+  for (const part of body.split(';')) {
+    if (!part.trim()) continue;
+    const [key, value] = part.split('=');
+    if (!key || value === undefined) {
+      throw new Error(`RRULE invalide: ${text}`);
+    }
+    values.set(key.trim().toUpperCase(), value.trim().toUpperCase());
+  }
+
+  const freq = values.get('FREQ') as RecurrenceFrequency | undefined;
+  if (!freq || !FREQUENCIES.includes(freq)) {
+    throw new Error(`Fréquence non prise en charge: ${values.get('FREQ') ?? '(absente)'}.`);
+  }
+
+  const supported = new Set(['FREQ', 'INTERVAL', 'BYDAY', 'BYMONTHDAY', 'COUNT', 'UNTIL', 'WKST']);
+  const unsupported = Array.from(values.keys()).filter((key) => !supported.has(key));
+  if (unsupported.length > 0) {
+    throw new Error(`RRULE non prise en charge: ${unsupported.join(', ')}.`);
+  }
+
+  const rule: RecurrenceRule = { freq, interval: values.has('INTERVAL') ? Number(values.get('INTERVAL')) : 1 };
+
+  const byDay = values.get('BYDAY');
+  if (byDay) {
+    if (freq !== 'WEEKLY') {
+      throw new Error('BYDAY est pris en charge uniquement en récurrence hebdomadaire.');
+    }
+    rule.by_weekday = byDay.split(',').map((code) => {
+      const day = DAY_CODES.indexOf(code as (typeof DAY_CODES)[number]);
+      if (day < 0) {
+        throw new Error(`BYDAY non pris en charge: ${code}.`);
+      }
+      return day;
+    });
+  }
+
+  const byMonthDay = values.get('BYMONTHDAY');
+  if (byMonthDay) {
+    if (freq !== 'MONTHLY' || byMonthDay.includes(',')) {
+      throw new Error('BYMONTHDAY est pris en charge uniquement en récurrence mensuelle, avec un seul jour.');
+    }
+    rule.by_month_day = Number(byMonthDay);
+  }
+
+  if (values.has('COUNT')) rule.count = Number(values.get('COUNT'));
+  if (values.has('UNTIL')) rule.until = parseUtc(values.get('UNTIL') as string);
+  if (typeof rule.count === 'number' && rule.until) {
+    throw new Error('COUNT et UNTIL ne peuvent pas être combinés.');
+  }
+
+  return rule;
+}
+
+/** Human readable French summary, e.g. "Toutes les 2 semaines (lun., mer.) · 10 fois". */
+export function describeRecurrence(rule: RecurrenceRule) {
+  const every =
+    rule.freq === 'DAILY'
+      ? rule.interval > 1
+        ? `Tous les ${rule.interval} jours`
+        : 'Tous les jours'
+      : rule.freq === 'WEEKLY'
+        ? rule.interval > 1
+          ? `Toutes les ${rule.interval} semaines`
+          : 'Toutes les semaines'
+        : rule.interval > 1
+          ? `Tous les ${rule.interval} mois`
+          : 'Tous les mois';
+
+  const detail =
+    rule.freq === 'WEEKLY' && rule.by_weekday && rule.by_weekday.length > 0
+      ? ` (${rule.by_weekday.map((day) => DAY_LABELS[day]).join(', ')})`
+      : rule.freq === 'MONTHLY' && typeof rule.by_month_day === 'number'
+        ? rule.by_month_day === -1
+          ? ' (dernier jour)'
+          : ` (le ${rule.by_month_day})`
+        : '';
+
+  const end =
+    typeof rule.count === 'number'
+      ? ` · ${rule.count} fois`
+      : rule.until
+        ? ` · jusqu'au ${new Date(rule.until).toLocaleDateString('fr-FR')}`
+        : '';
+
+  return `${every}${detail}${end}`;
+}
@@ -0,0 +1,105 @@
+import type { TaskPriority } from '../tasks/types';
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY';
+
+/** Subset of RFC 5545 RRULE: FREQ, INTERVAL, BYDAY (weekly), BYMONTHDAY (monthly), COUNT, UNTIL. */
+export type RecurrenceRule = {
+  freq: RecurrenceFrequency;
+  /** Every N days / weeks / months (>= 1). */
+  interval: number;
+  /** WEEKLY only, as `Date.getDay()` (0 = dimanche). Defaults to the weekday of the first occurrence. */
+  by_weekday?: number[];
+  /** MONTHLY only: 1-31, or -1 for the last day. Defaults to the day of the first occurrence. */
+  by_month_day?: number;
+  /** Total number of occurrences, exceptions included (RFC semantics). */
+  count?: number;
+  /** Last possible occurrence start (ISO, inclusive). */
+  until?: string;
+};
+
+/** THIS: only the occurrence. FUTURE: the occurrence and all the following ones (series split). */
+export type RecurrenceScope = 'THIS' | 'FUTURE';
+
+export type RecurringSeries = {
+  id: string;
+  org_id: string;
+  project_id: string;
+  title: string;
+  description?: string;
+  priority: TaskPriority;
+  tags: string[];
+  assignee_user_id?: string;
+  team_id?: string;
+  /** Set for planning-only series: occurrences are planning items of this existing task. */
+  task_id?: string;
+  /** Length of the planning item created for each occurrence; no planning item when absent. */
+  duration_minutes?: number;
+  /** Start of the first occurrence (ISO); its local time of day is kept by every occurrence. */
+  dtstart: string;
+  rule: RecurrenceRule;
+  /** RRULE text of `rule`, for display and calendar exports. */
+  rrule: string;
+  /** Occurrence keys removed from the series. */
+  exdates: string[];
+  /** Occurrence keys edited individually ("this occurrence"). */
+  overrides: string[];
+  /** Occurrences are generated up to this instant (exclusive). */
+  generated_until?: string;
+  /** Series this one was split from by an "all future occurrences" edit. */
+  previous_series_id?: string;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+  deleted_at?: string;
+};
+
+export type RecurringSeriesCreateInput = {
+  org_id: string;
+  project_id: string;
+  title: string;
+  description?: string;
+  priority?: TaskPriority;
+  tags?: string[];
+  assignee_user_id?: string;
+  team_id?: string;
+  task_id?: string;
+  duration_minutes?: number;
+  dtstart: string;
+  rule: RecurrenceRule;
+  created_by: string;
+};
+
+export type RecurrenceOccurrence = {
+  series_id: string;
+  /** Original start of the occurrence (ISO): stable even when the occurrence is moved. */
+  occurrence_key: string;
+  start_at: string;
+  /** Generated task (absent for planning-only series). */
+  task_id?: string;
+  /** Generated planning item, when the series has a duration. */
+  planning_item_id?: string;
+  /** Already created locally. */
+  generated: boolean;
+  overridden: boolean;
+};
+
+export type RecurrenceOccurrencePatch = {
+  title?: string;
+  description?: string;
+  priority?: TaskPriority;
+  assignee_user_id?: string | null;
+  team_id?: string | null;
+  /** New start of the occurrence (THIS) or of the new series (FUTURE). */
+  start_at?: string;
+  duration_minutes?: number;
+  /** FUTURE only: new rule for the following occurrences. */
+  rule?: RecurrenceRule;
+};
+
+export type RecurrenceGenerateResult = {
+  series: number;
+  tasks_created: number;
+  planning_items_created: number;
+  /** Series skipped because of an error (read-only project, deleted task, ...). */
+  failed: Array<{ series_id: string; reason: string }>;
+};
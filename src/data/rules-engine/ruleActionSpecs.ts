@@ -0,0 +1,129 @@
+import { RuleAction, RuleEffectActionKind } from './types';
+
+// Pure part of the rule actions: validation, effect identity and proof messages, no SQLite access.
+
+const EFFECT_ACTION_KINDS: RuleEffectActionKind[] = ['CREATE_TASK', 'LINK_DOCUMENT', 'REQUIRE_PROOF', 'NOTIFY_ROLE'];
+
+export type EffectAction = Extract<RuleAction, { kind: RuleEffectActionKind }>;
+
+function normalizeText(value: string | null | undefined) {
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+function normalizeLower(value: string | null | undefined) {
+  return normalizeText(value).toLowerCase();
+}
+
+function toOptional(value: string | null | undefined) {
+  const cleaned = normalizeText(value);
+  return cleaned.length > 0 ? cleaned : undefined;
+}
+
+function hashFNV1a(input: string) {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i += 1) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    const keys = Object.keys(record)
+      .filter((key) => record[key] !== undefined)
+      .sort();
+    return `{${keys.map((key) => `${JSON.stringify(key)}:${stableStringify(record[key])}`).join(',')}}`;
+  }
+
+  return JSON.stringify(value ?? null);
+}
+
+export function normalizeAction(action: RuleAction): RuleAction {
+  if (action.kind === 'ADD_TAG' || action.kind === 'SUGGEST' || action.kind === 'ADD_REMINDER') {
+    const value = normalizeText(action.value);
+    if (!value) {
+      throw new Error(`Action ${action.kind} invalide (value).`);
+    }
+    return { ...action, value } as RuleAction;
+  }
+
+  if (action.kind === 'SET_FIELD') {
+    const field = normalizeText(action.field);
+    if (!field) {
+      throw new Error('Action SET_FIELD invalide (field).');
+    }
+    return { ...action, field } as RuleAction;
+  }
+
+  if (action.kind === 'CREATE_TASK') {
+    const title = normalizeText(action.title);
+    if (!title) {
+      throw new Error('Action CREATE_TASK invalide (title).');
+    }
+    if (action.priority !== undefined && !['LOW', 'MEDIUM', 'HIGH'].includes(action.priority)) {
+      throw new Error('Action CREATE_TASK invalide (priority).');
+    }
+    if (action.due_in_days !== undefined && !Number.isFinite(action.due_in_days)) {
+      throw new Error('Action CREATE_TASK invalide (due_in_days).');
+    }
+    const tags = Array.isArray(action.tags) ? action.tags.map((tag) => normalizeLower(tag)).filter(Boolean) : undefined;
+    const documentIds = Array.isArray(action.document_ids)
+      ? action.document_ids.map((id) => normalizeText(id)).filter(Boolean)
+      : undefined;
+    return {
+      ...action,
+      title,
+      description: toOptional(action.description),
+      tags: tags && tags.length > 0 ? tags : undefined,
+      assignee_user_id: toOptional(action.assignee_user_id),
+      assignee_role: toOptional(action.assignee_role)?.toLowerCase(),
+      document_ids: documentIds && documentIds.length > 0 ? documentIds : undefined
+    };
+  }
+
+  if (action.kind === 'LINK_DOCUMENT') {
+    const documentId = normalizeText(action.document_id);
+    if (!documentId) {
+      throw new Error('Action LINK_DOCUMENT invalide (document_id).');
+    }
+    return { ...action, document_id: documentId };
+  }
+
+  if (action.kind === 'REQUIRE_PROOF') {
+    return { ...action, mime_prefix: toOptional(action.mime_prefix), message: toOptional(action.message) };
+  }
+
+  if (action.kind === 'NOTIFY_ROLE') {
+    const role = normalizeLower(action.role);
+    const message = normalizeText(action.message);
+    if (!role || !message) {
+      throw new Error('Action NOTIFY_ROLE invalide (role/message).');
+    }
+    return { ...action, role, message };
+  }
+
+  throw new Error(`Action inconnue: ${(action as any).kind}`);
+}
+
+export function isEffectAction(action: RuleAction): action is EffectAction {
+  return (EFFECT_ACTION_KINDS as string[]).includes(action.kind);
+}
+
+/** Identifies an action inside its rule: editing the action (not just reordering) makes it run again. */
+export function effectActionKey(action: RuleAction) {
+  return hashFNV1a(stableStringify(action));
+}
+
+export function defaultProofMessage(mimePrefix?: string) {
+  if (mimePrefix?.startsWith('image/')) {
+    return 'Une photo est requise avant de passer la tâche en DONE.';
+  }
+
+  return 'Une preuve (média) est requise avant de passer la tâche en DONE.';
+}
@@ -0,0 +1,628 @@
+import * as Crypto from 'expo-crypto';
+import * as SQLite from 'expo-sqlite';
+import { audit } from '../audit-compliance';
+import { LinkedEntity, documents } from '../documents';
+import { offlineDB } from '../offline/outbox';
+import { members } from '../orgs-admin';
+import { EffectAction, effectActionKey, isEffectAction } from './ruleActionSpecs';
+import { RuleChainLink, closesRuleChain, collectRuleChain } from './ruleChain';
+import {
+  RuleAction,
+  RuleEffect,
+  RuleEffectActionKind,
+  RuleEntity,
+  RuleNotification,
+  RuleNotificationFilters,
+  RulesMatch
+} from './types';
+
+const DB_NAME = 'conformeo.db';
+const EFFECTS_TABLE = 'rules_engine_effects';
+const NOTIFICATIONS_TABLE = 'rules_engine_notifications';
+const TASKS_TABLE = 'tasks';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// A claim left PENDING longer than this (app killed mid-action) can be taken over.
+const STALE_CLAIM_MS = 10 * 60_000;
+const DEFAULT_NOTIFICATIONS_LIMIT = 50;
+
+const DOCUMENT_LINK_ENTITIES: LinkedEntity[] = ['TASK', 'PLAN_PIN', 'PROJECT'];
+
+type EffectRow = {
+  id: string;
+  org_id: string;
+  rule_id: string;
+  entity: string;
+  entity_id: string;
+  action_kind: RuleEffectActionKind;
+  action_key: string;
+  action_json: string;
+  result_id: string | null;
+  status: 'PENDING' | 'DONE';
+  created_at: string;
+};
+
+type NotificationRow = {
+  id: string;
+  org_id: string;
+  role: string;
+  message: string;
+  rule_id: string;
+  entity: string;
+  entity_id: string;
+  created_at: string;
+  read_at: string | null;
+};
+
+export type RuleExecutionScope = {
+  org_id: string;
+  entity: RuleEntity;
+  entity_id: string;
+  actor_user_id: string | null;
+  context: Record<string, unknown>;
+};
+
+let dbPromise: Promise<SQLite.SQLiteDatabase> | null = null;
+let setupPromise: Promise<void> | null = null;
+
+function nowIso() {
+  return new Date().toISOString();
+}
+
+function normalizeText(value: string | null | undefined) {
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+function createUuid() {
+  const randomUUID = (globalThis as { crypto?: { randomUUID?: () => string } }).crypto?.randomUUID;
+  if (typeof randomUUID === 'function') {
+    return randomUUID();
+  }
+
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (char) => {
+    const random = Math.floor(Math.random() * 16);
+    const value = char === 'x' ? random : (random & 0x3) | 0x8;
+    return value.toString(16);
+  });
+}
+
+/**
+ * Deterministic UUID (v5 layout): every device evaluating the same (org, rule, action, entity) derives
+ * the same effect / follow-up task / notification id, so concurrent executions collapse on the server.
+ */
+async function deterministicUuid(seed: string) {
+  const hex = await Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, seed);
+  const variant = ((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16);
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-5${hex.slice(13, 16)}-${variant}${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
+}
+
+function safeJsonParse(raw: string) {
+  try {
+    return JSON.parse(raw) as unknown;
+  } catch {
+    return null;
+  }
+}
+
+function contextText(context: Record<string, unknown>, key: string) {
+  const value = context[key];
+  return typeof value === 'string' ? normalizeText(value) : '';
+}
+
+function toErrorMessage(error: unknown) {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function mapEffectRow(row: EffectRow): RuleEffect {
+  return {
+    id: row.id,
+    org_id: row.org_id,
+    rule_id: row.rule_id,
+    entity: row.entity,
+    entity_id: row.entity_id,
+    action_kind: row.action_kind,
+    action_key: row.action_key,
+    action: (safeJsonParse(row.action_json) ?? { kind: row.action_kind }) as RuleAction,
+    result_id: row.result_id ?? undefined,
+    created_at: row.created_at
+  };
+}
+
+function mapNotificationRow(row: NotificationRow): RuleNotification {
+  return {
+    id: row.id,
+    org_id: row.org_id,
+    role: row.role,
+    message: row.message,
+    rule_id: row.rule_id,
+    entity: row.entity,
+    entity_id: row.entity_id,
+    created_at: row.created_at,
+    read_at: row.read_at ?? undefined
+  };
+}
+
+async function getDb() {
+  if (!dbPromise) {
+    dbPromise = SQLite.openDatabaseAsync(DB_NAME);
+  }
+  return dbPromise;
+}
+
+async function ensureSetup() {
+  if (!setupPromise) {
+    setupPromise = (async () => {
+      const db = await getDb();
+      await db.execAsync(`
+        PRAGMA journal_mode = WAL;
+
+        CREATE TABLE IF NOT EXISTS ${EFFECTS_TABLE} (
+          id TEXT PRIMARY KEY NOT NULL,
+          org_id TEXT NOT NULL,
+          rule_id TEXT NOT NULL,
+          entity TEXT NOT NULL,
+          entity_id TEXT NOT NULL,
+          action_kind TEXT NOT NULL,
+          action_key TEXT NOT NULL,
+          action_json TEXT NOT NULL,
+          result_id TEXT,
+          status TEXT NOT NULL CHECK (status IN ('PENDING', 'DONE')),
+          created_at TEXT NOT NULL
+        );
+
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_rules_engine_effects_once
+          ON ${EFFECTS_TABLE}(org_id, rule_id, action_key, entity, entity_id);
+
+        CREATE INDEX IF NOT EXISTS idx_rules_engine_effects_entity
+          ON ${EFFECTS_TABLE}(entity, entity_id, action_kind);
+
+        CREATE INDEX IF NOT EXISTS idx_rules_engine_effects_result
+          ON ${EFFECTS_TABLE}(result_id);
+
+        CREATE TABLE IF NOT EXISTS ${NOTIFICATIONS_TABLE} (
+          id TEXT PRIMARY KEY NOT NULL,
+          org_id TEXT NOT NULL,
+          role TEXT NOT NULL,
+          message TEXT NOT NULL,
+          rule_id TEXT NOT NULL,
+          entity TEXT NOT NULL,
+          entity_id TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          read_at TEXT
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_rules_engine_notifications_org_role_created
+          ON ${NOTIFICATIONS_TABLE}(org_id, role, created_at DESC);
+      `);
+    })();
+  }
+
+  return setupPromise;
+}
+
+/**
+ * Reserves the (rule, action, entity) slot before running the side effect, so that two concurrent
+ * evaluations cannot both execute it. Returns false when the effect already ran (or is running).
+ */
+async function claimEffect(db: SQLite.SQLiteDatabase, row: EffectRow) {
+  const insert = () =>
+    db.runAsync(
+      `
+        INSERT OR IGNORE INTO ${EFFECTS_TABLE}
+        (id, org_id, rule_id, entity, entity_id, action_kind, action_key, action_json, result_id, status, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 'PENDING', ?)
+      `,
+      row.id,
+      row.org_id,
+      row.rule_id,
+      row.entity,
+      row.entity_id,
+      row.action_kind,
+      row.action_key,
+      row.action_json,
+      row.result_id,
+      row.created_at
+    );
+
+  const inserted = await insert();
+  if ((inserted.changes ?? 0) > 0) {
+    return true;
+  }
+
+  const staleBefore = new Date(Date.now() - STALE_CLAIM_MS).toISOString();
+  const released = await db.runAsync(
+    `
+      DELETE FROM ${EFFECTS_TABLE}
+      WHERE org_id = ?
+        AND rule_id = ?
+        AND action_key = ?
+        AND entity = ?
+        AND entity_id = ?
+        AND status = 'PENDING'
+        AND created_at < ?
+    `,
+    row.org_id,
+    row.rule_id,
+    row.action_key,
+    row.entity,
+    row.entity_id,
+    staleBefore
+  );
+
+  if ((released.changes ?? 0) === 0) {
+    return false;
+  }
+
+  return ((await insert()).changes ?? 0) > 0;
+}
+
+/** CREATE_TASK effect (claimed or done) whose result is `taskId`: the previous link of its rule chain. */
+async function findTaskCreator(db: SQLite.SQLiteDatabase, taskId: string): Promise<RuleChainLink | null> {
+  const row = await db.getFirstAsync<RuleChainLink>(
+    `
+      SELECT rule_id, entity, entity_id
+      FROM ${EFFECTS_TABLE}
+      WHERE action_kind = 'CREATE_TASK'
+        AND result_id = ?
+      LIMIT 1
+    `,
+    taskId
+  );
+
+  return row ?? null;
+}
+
+async function taskRowExists(taskId: string) {
+  const db = await getDb();
+  try {
+    const row = await db.getFirstAsync<{ id: string }>(`SELECT id FROM ${TASKS_TABLE} WHERE id = ? LIMIT 1`, taskId);
+    return Boolean(row);
+  } catch {
+    // tasks table not created yet
+    return false;
+  }
+}
+
+async function resolveRoleAssignee(orgId: string, role: string) {
+  const wanted = role.toLowerCase();
+
+  try {
+    const list = await members.list(orgId);
+    const member = list.find((item) => item.role === wanted && item.status === 'ACTIVE' && item.user_id);
+    return member?.user_id ?? undefined;
+  } catch {
+    // Offline without cached members: the task stays unassigned, tagged with the role.
+    return undefined;
+  }
+}
+
+async function executeCreateTask(
+  scope: RuleExecutionScope,
+  match: RulesMatch,
+  action: Extract<RuleAction, { kind: 'CREATE_TASK' }>,
+  taskId: string
+) {
+  const projectId = contextText(scope.context, 'project_id');
+  if (!projectId) {
+    throw new Error('CREATE_TASK: project_id manquant dans le contexte.');
+  }
+
+  const createdBy = scope.actor_user_id ?? contextText(scope.context, 'created_by');
+  if (!createdBy) {
+    throw new Error('CREATE_TASK: utilisateur courant inconnu.');
+  }
+
+  const assigneeFromRole = action.assignee_role ? await resolveRoleAssignee(scope.org_id, action.assignee_role) : undefined;
+  const assignee = action.assignee_user_id ?? assigneeFromRole;
+
+  const tags = [...(action.tags ?? [])];
+  if (action.assignee_role && !assignee) {
+    tags.push(`role_${action.assignee_role.toLowerCase()}`);
+  }
+
+  const sourceTitle = contextText(scope.context, 'title');
+  const origin = sourceTitle
+    ? `Créée par la règle « ${match.rule_name} » depuis « ${sourceTitle} ».`
+    : `Créée par la règle « ${match.rule_name} ».`;
+
+  // Already created by another device (pulled task, effect row not pulled yet): never overwrite it.
+  if (await taskRowExists(taskId)) {
+    return;
+  }
+
+  const { tasks } = await import('../tasks');
+
+  await tasks.create({
+    id: taskId,
+    org_id: scope.org_id,
+    project_id: projectId,
+    title: action.title,
+    description: action.description ? `${action.description}\n\n${origin}` : origin,
+    priority: action.priority,
+    due_date:
+      action.due_in_days !== undefined ? new Date(Date.now() + action.due_in_days * DAY_MS).toISOString() : undefined,
+    assignee_user_id: assignee,
+    created_by: createdBy,
+    tags
+  });
+
+  for (const documentId of action.document_ids ?? []) {
+    try {
+      await documents.link(documentId, 'TASK', taskId);
+    } catch (error) {
+      if (__DEV__) {
+        console.warn('[rules-engine] follow-up document link failed:', toErrorMessage(error));
+      }
+    }
+  }
+}
+
+async function executeNotifyRole(
+  db: SQLite.SQLiteDatabase,
+  scope: RuleExecutionScope,
+  match: RulesMatch,
+  action: Extract<RuleAction, { kind: 'NOTIFY_ROLE' }>,
+  notificationId: string
+) {
+  const notification: RuleNotification = {
+    id: notificationId,
+    org_id: scope.org_id,
+    role: action.role.toLowerCase(),
+    message: action.message,
+    rule_id: match.rule_id,
+    entity: scope.entity,
+    entity_id: scope.entity_id,
+    created_at: nowIso()
+  };
+
+  await db.runAsync(
+    `
+      INSERT OR IGNORE INTO ${NOTIFICATIONS_TABLE}
+      (id, org_id, role, message, rule_id, entity, entity_id, created_at, read_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, NULL)
+    `,
+    notification.id,
+    notification.org_id,
+    notification.role,
+    notification.message,
+    notification.rule_id,
+    notification.entity,
+    notification.entity_id,
+    notification.created_at
+  );
+
+  await offlineDB.enqueueOperation({
+    entity: NOTIFICATIONS_TABLE,
+    entity_id: notification.id,
+    type: 'CREATE',
+    payload: {
+      ...notification,
+      orgId: notification.org_id,
+      project_id: contextText(scope.context, 'project_id') || null
+    }
+  });
+}
+
+async function executeAction(
+  db: SQLite.SQLiteDatabase,
+  scope: RuleExecutionScope,
+  match: RulesMatch,
+  action: EffectAction,
+  resultId: string | null
+) {
+  if (action.kind === 'CREATE_TASK') {
+    await executeCreateTask(scope, match, action, resultId ?? createUuid());
+    return;
+  }
+
+  if (action.kind === 'LINK_DOCUMENT') {
+    const entity = scope.entity as LinkedEntity;
+    if (!DOCUMENT_LINK_ENTITIES.includes(entity)) {
+      throw new Error(`LINK_DOCUMENT: entité non liable (${scope.entity}).`);
+    }
+    await documents.link(action.document_id, entity, scope.entity_id);
+    return;
+  }
+
+  if (action.kind === 'NOTIFY_ROLE') {
+    await executeNotifyRole(db, scope, match, action, resultId ?? createUuid());
+    return;
+  }
+
+  // REQUIRE_PROOF: the effect row itself is the requirement, checked by the task status change.
+}
+
+function effectSeed(row: Pick<EffectRow, 'org_id' | 'rule_id' | 'action_key' | 'entity' | 'entity_id'>) {
+  return `${row.org_id}:${row.rule_id}:${row.action_key}:${row.entity}:${row.entity_id}`;
+}
+
+/** Id the effect row of (rule, action, entity) gets once executed, the same on every device. */
+export async function effectIdFor(scope: Pick<RuleExecutionScope, 'org_id' | 'entity' | 'entity_id'>, ruleId: string, action: RuleAction) {
+  const seed = effectSeed({
+    org_id: scope.org_id,
+    rule_id: ruleId,
+    action_key: effectActionKey(action),
+    entity: scope.entity,
+    entity_id: scope.entity_id
+  });
+  return deterministicUuid(`rule-effect:${seed}`);
+}
+
+async function resultIdFor(action: EffectAction, seed: string) {
+  if (action.kind === 'CREATE_TASK' || action.kind === 'NOTIFY_ROLE') return deterministicUuid(`rule-result:${seed}`);
+  if (action.kind === 'LINK_DOCUMENT') return action.document_id;
+  return null;
+}
+
+/** Pushes the executed effect: other devices pull it and skip the action (see `claimEffect`). */
+async function enqueueEffect(row: EffectRow, projectId: string) {
+  await offlineDB.enqueueOperation({
+    entity: EFFECTS_TABLE,
+    entity_id: row.id,
+    type: 'CREATE',
+    payload: {
+      ...row,
+      orgId: row.org_id,
+      project_id: projectId || null
+    }
+  });
+}
+
+async function auditEffect(effect: RuleEffect, ruleName: string) {
+  try {
+    await audit.log(`rules.action.${effect.action_kind.toLowerCase()}`, effect.entity, effect.entity_id, {
+      rule_id: effect.rule_id,
+      rule_name: ruleName,
+      action: effect.action,
+      result_id: effect.result_id ?? null
+    });
+  } catch (error) {
+    if (__DEV__) {
+      console.warn('[rules-engine] audit log failed:', toErrorMessage(error));
+    }
+  }
+}
+
+/**
+ * Runs the side-effect actions of the matched rules, at most once per (rule, action, entity).
+ * A failing action is released (retried on the next evaluation) and never breaks the others.
+ */
+export async function executeRuleEffects(scope: RuleExecutionScope, matched: RulesMatch[]): Promise<RuleEffect[]> {
+  const pending = matched.flatMap((match) =>
+    match.actions.filter(isEffectAction).map((action) => ({ match, action }))
+  );
+
+  if (pending.length === 0) {
+    return [];
+  }
+
+  await ensureSetup();
+  const db = await getDb();
+
+  const executed: RuleEffect[] = [];
+  let chain: string[] | null = null;
+
+  for (const { match, action } of pending) {
+    // A follow-up task never re-triggers a rule of its own chain (A -> B -> A) nor extends a chain too long.
+    if (action.kind === 'CREATE_TASK' && scope.entity === 'TASK') {
+      chain = chain ?? (await collectRuleChain(scope.entity_id, (taskId) => findTaskCreator(db, taskId)));
+      if (closesRuleChain(chain, match.rule_id)) {
+        continue;
+      }
+    }
+
+    const key = {
+      org_id: scope.org_id,
+      rule_id: match.rule_id,
+      action_key: effectActionKey(action),
+      entity: scope.entity,
+      entity_id: scope.entity_id
+    };
+    const seed = effectSeed(key);
+
+    const row: EffectRow = {
+      ...key,
+      id: await deterministicUuid(`rule-effect:${seed}`),
+      action_kind: action.kind,
+      action_json: JSON.stringify(action),
+      result_id: await resultIdFor(action, seed),
+      status: 'PENDING',
+      created_at: nowIso()
+    };
+
+    if (!(await claimEffect(db, row))) {
+      continue;
+    }
+
+    try {
+      await executeAction(db, scope, match, action, row.result_id);
+    } catch (error) {
+      // Only release our own claim: a DONE row pulled meanwhile must stay.
+      await db.runAsync(`DELETE FROM ${EFFECTS_TABLE} WHERE id = ? AND status = 'PENDING'`, row.id);
+      if (__DEV__) {
+        console.warn(`[rules-engine] action ${action.kind} failed (${match.rule_id}):`, toErrorMessage(error));
+      }
+      continue;
+    }
+
+    await db.runAsync(`UPDATE ${EFFECTS_TABLE} SET status = 'DONE' WHERE id = ?`, row.id);
+    await enqueueEffect({ ...row, status: 'DONE' }, contextText(scope.context, 'project_id'));
+
+    const effect = mapEffectRow({ ...row, status: 'DONE' });
+    executed.push(effect);
+    await auditEffect(effect, match.rule_name);
+  }
+
+  return executed;
+}
+
+export async function listEntityEffects(entity: RuleEntity, entityId: string, kind?: RuleEffectActionKind) {
+  await ensureSetup();
+  const db = await getDb();
+
+  const rows = await db.getAllAsync<EffectRow>(
+    `
+      SELECT *
+      FROM ${EFFECTS_TABLE}
+      WHERE entity = ?
+        AND entity_id = ?
+        AND status = 'DONE'
+        ${kind ? 'AND action_kind = ?' : ''}
+      ORDER BY created_at ASC
+    `,
+    ...(kind ? [entity, entityId, kind] : [entity, entityId])
+  );
+
+  return rows.map(mapEffectRow);
+}
+
+export async function listRuleNotifications(orgId: string, filters: RuleNotificationFilters = {}) {
+  await ensureSetup();
+  const db = await getDb();
+
+  const where: string[] = ['org_id = ?'];
+  const params: Array<string | number> = [orgId];
+
+  const role = normalizeText(filters.role).toLowerCase();
+  if (role) {
+    where.push('role = ?');
+    params.push(role);
+  }
+
+  if (filters.unread_only) {
+    where.push('read_at IS NULL');
+  }
+
+  const limit = Math.max(1, Math.min(filters.limit ?? DEFAULT_NOTIFICATIONS_LIMIT, 200));
+
+  const rows = await db.getAllAsync<NotificationRow>(
+    `
+      SELECT *
+      FROM ${NOTIFICATIONS_TABLE}
+      WHERE ${where.join(' AND ')}
+      ORDER BY created_at DESC
+      LIMIT ?
+    `,
+    ...params,
+    limit
+  );
+
+  return rows.map(mapNotificationRow);
+}
+
+export async function markRuleNotificationRead(id: string) {
+  await ensureSetup();
+  const db = await getDb();
+
+  const readAt = nowIso();
+  await db.runAsync(
+    `
+      UPDATE ${NOTIFICATIONS_TABLE}
+      SET read_at = ?
+      WHERE id = ?
+        AND read_at IS NULL
+    `,
+    readAt,
+    id
+  );
+}
@@ -0,0 +1,100 @@
+/// <reference types="node" />
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { defaultProofMessage, effectActionKey, isEffectAction, normalizeAction } from './ruleActionSpecs';
+import { MAX_RULE_CHAIN_DEPTH, RuleChainLink, closesRuleChain, collectRuleChain } from './ruleChain';
+
+/** CREATE_TASK effects by created task id, as the effects table would return them. */
+function creators(links: Record<string, RuleChainLink>) {
+  return async (taskId: string) => links[taskId] ?? null;
+}
+
+describe('rule chain guard', () => {
+  // t0 (user task) --A--> t1 --B--> t2
+  const links = {
+    t1: { rule_id: 'A', entity: 'TASK', entity_id: 't0' },
+    t2: { rule_id: 'B', entity: 'TASK', entity_id: 't1' }
+  };
+
+  it('collects the rules behind a follow-up task, nearest first', async () => {
+    assert.deepEqual(await collectRuleChain('t2', creators(links)), ['B', 'A']);
+    assert.deepEqual(await collectRuleChain('t0', creators(links)), []);
+  });
+
+  it('stops A -> B -> A and self-triggering, but lets another rule extend the chain', async () => {
+    const chain = await collectRuleChain('t2', creators(links));
+
+    assert.equal(closesRuleChain(chain, 'A'), true);
+    assert.equal(closesRuleChain(chain, 'B'), true);
+    assert.equal(closesRuleChain(chain, 'C'), false);
+    assert.equal(closesRuleChain([], 'A'), false);
+  });
+
+  it('stops at a task created from another entity', async () => {
+    const chain = await collectRuleChain(
+      't1',
+      creators({ t1: { rule_id: 'W', entity: 'WASTE', entity_id: 't0' }, t0: { rule_id: 'X', entity: 'TASK', entity_id: 't9' } })
+    );
+    assert.deepEqual(chain, ['W']);
+  });
+
+  it('caps the chain length and terminates on looping effect rows', async () => {
+    const long: Record<string, RuleChainLink> = {};
+    for (let index = 1; index <= 20; index += 1) {
+      long[`t${index}`] = { rule_id: `R${index}`, entity: 'TASK', entity_id: `t${index - 1}` };
+    }
+    const chain = await collectRuleChain('t20', creators(long));
+    assert.equal(chain.length, MAX_RULE_CHAIN_DEPTH);
+    assert.equal(closesRuleChain(chain, 'NEW'), true);
+
+    const looping = await collectRuleChain(
+      't1',
+      creators({ t1: { rule_id: 'A', entity: 'TASK', entity_id: 't2' }, t2: { rule_id: 'B', entity: 'TASK', entity_id: 't1' } })
+    );
+    assert.deepEqual(looping, ['A', 'B']);
+  });
+});
+
+describe('rule actions', () => {
+  it('normalizes CREATE_TASK and rejects invalid actions', () => {
+    assert.deepEqual(
+      normalizeAction({
+        kind: 'CREATE_TASK',
+        title: '  Permis de feu ',
+        tags: ['SECU', ' '],
+        assignee_role: ' Manager ',
+        document_ids: []
+      }),
+      {
+        kind: 'CREATE_TASK',
+        title: 'Permis de feu',
+        description: undefined,
+        tags: ['secu'],
+        assignee_user_id: undefined,
+        assignee_role: 'manager',
+        document_ids: undefined
+      }
+    );
+    assert.throws(() => normalizeAction({ kind: 'CREATE_TASK', title: ' ' }), /Action CREATE_TASK invalide \(title\)/);
+    assert.throws(() => normalizeAction({ kind: 'NOTIFY_ROLE', role: 'manager', message: '' }), /NOTIFY_ROLE invalide/);
+    assert.throws(() => normalizeAction({ kind: 'LINK_DOCUMENT', document_id: '' }), /LINK_DOCUMENT invalide/);
+  });
+
+  it('separates side-effect actions from inline ones', () => {
+    assert.equal(isEffectAction({ kind: 'REQUIRE_PROOF' }), true);
+    assert.equal(isEffectAction({ kind: 'NOTIFY_ROLE', role: 'manager', message: 'Soudure' }), true);
+    assert.equal(isEffectAction({ kind: 'ADD_TAG', value: 'secu' }), false);
+  });
+
+  it('keys an action on its content, not on key order', () => {
+    const key = effectActionKey({ kind: 'NOTIFY_ROLE', role: 'manager', message: 'Soudure' });
+
+    assert.equal(effectActionKey({ message: 'Soudure', role: 'manager', kind: 'NOTIFY_ROLE' }), key);
+    assert.notEqual(effectActionKey({ kind: 'NOTIFY_ROLE', role: 'manager', message: 'Levage' }), key);
+  });
+
+  it('words the proof requirement after the expected media', () => {
+    assert.match(defaultProofMessage('image/'), /photo est requise/);
+    assert.match(defaultProofMessage(), /preuve \(média\) est requise/);
+  });
+});
@@ -0,0 +1,45 @@
+// Follow-up tasks created by CREATE_TASK are evaluated like any other task, so rules can trigger each
+// other (A creates a task matching B, B creates a task matching A...). The chain of rules behind a task
+// is read back from the CREATE_TASK effect rows (synced, the same on every device).
+
+/** Longest chain of follow-up tasks a rule may extend. */
+export const MAX_RULE_CHAIN_DEPTH = 8;
+
+/** CREATE_TASK effect that produced a task: the rule and the entity it was evaluated on. */
+export type RuleChainLink = {
+  rule_id: string;
+  entity: string;
+  entity_id: string;
+};
+
+/**
+ * Rule ids behind `taskId`, nearest first: the rule that created the task, then the rule that created
+ * its source task, and so on until a task not created by a rule (or a non-task source).
+ */
+export async function collectRuleChain(
+  taskId: string,
+  creatorOf: (taskId: string) => Promise<RuleChainLink | null>
+): Promise<string[]> {
+  const chain: string[] = [];
+  const visited = new Set([taskId]);
+  let current = taskId;
+
+  while (chain.length < MAX_RULE_CHAIN_DEPTH) {
+    const link = await creatorOf(current);
+    if (!link) break;
+
+    chain.push(link.rule_id);
+    // Looping effect rows can only come from corrupted synced data: stop rather than walk forever.
+    if (link.entity !== 'TASK' || visited.has(link.entity_id)) break;
+
+    visited.add(link.entity_id);
+    current = link.entity_id;
+  }
+
+  return chain;
+}
+
+/** True when `ruleId` must not create another task at the end of `chain` (loop or chain too long). */
+export function closesRuleChain(chain: string[], ruleId: string) {
+  return chain.includes(ruleId) || chain.length >= MAX_RULE_CHAIN_DEPTH;
+}
@@ -0,0 +1,98 @@
+/// <reference types="node" />
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { collectRelations, evaluateCondition, isTimeBased, normalizeCondition, relationKey } from './ruleConditions';
+import type { RuleCondition } from './types';
+
+const NOW = Date.parse('2026-10-19T08:00:00.000Z');
+const HOUR_MS = 3_600_000;
+
+function matches(condition: RuleCondition, context: Record<string, unknown>, linkedCounts: Record<string, number> = {}) {
+  return evaluateCondition(normalizeCondition(condition), context, { nowMs: NOW, linkedCounts });
+}
+
+describe('evaluateCondition', () => {
+  it('compares numbers, including decimal strings with a comma', () => {
+    const condition: RuleCondition = { kind: 'NUMBER_COMPARE', field: 'volume_m3', op: 'GT', value: 10 };
+
+    assert.equal(matches(condition, { volume_m3: 12 }), true);
+    assert.equal(matches(condition, { volume_m3: '10,5' }), true);
+    assert.equal(matches(condition, { volume_m3: 10 }), false);
+    assert.equal(matches(condition, {}), false);
+  });
+
+  it('compares dates relative to now', () => {
+    const within48h: RuleCondition = { kind: 'DATE_RELATIVE', field: 'due_date', op: 'BEFORE', days: 2 };
+
+    assert.equal(matches(within48h, { due_date: new Date(NOW + 24 * HOUR_MS).toISOString() }), true);
+    assert.equal(matches(within48h, { due_date: new Date(NOW + 72 * HOUR_MS).toISOString() }), false);
+    assert.equal(matches(within48h, { due_date: 'pas une date' }), false);
+  });
+
+  it('counts linked entities per relation and mime prefix', () => {
+    const photo: RuleCondition = { kind: 'EXISTS', relation: 'MEDIA', mime_prefix: 'image/' };
+    const twoDocs: RuleCondition = { kind: 'LINKED_COUNT', relation: 'DOCUMENTS', op: 'GTE', value: 2 };
+
+    assert.equal(matches(photo, {}, { [relationKey('MEDIA', 'image/')]: 1 }), true);
+    assert.equal(matches(photo, {}, { MEDIA: 3 }), false);
+    assert.equal(matches(twoDocs, {}, { DOCUMENTS: 2 }), true);
+    assert.equal(matches(twoDocs, {}), false);
+  });
+
+  it('matches keywords, equality and array values case-insensitively by default', () => {
+    assert.equal(
+      matches({ kind: 'KEYWORDS_ANY', fields: ['title', 'tags'], keywords: ['Soudure'] }, { title: 'Reprise soudure R+2' }),
+      true
+    );
+    assert.equal(matches({ kind: 'FIELD_EQUALS', field: 'status', value: 'done' }, { status: 'DONE' }), true);
+    assert.equal(
+      matches({ kind: 'FIELD_EQUALS', field: 'status', value: 'done', case_insensitive: false }, { status: 'DONE' }),
+      false
+    );
+    assert.equal(matches({ kind: 'ARRAY_INCLUDES_ANY', field: 'tags', values: ['SECU'] }, { tags: ['secu', 'lot2'] }), true);
+    assert.equal(matches({ kind: 'FIELD_EQUALS', field: 'project.city', value: 'lyon' }, { project: { city: 'Lyon' } }), true);
+  });
+
+  it('combines conditions: HIGH priority due within 48h without a photo', () => {
+    const condition: RuleCondition = {
+      kind: 'AND',
+      all: [
+        { kind: 'FIELD_EQUALS', field: 'priority', value: 'HIGH' },
+        { kind: 'DATE_RELATIVE', field: 'due_date', op: 'BEFORE', days: 2 },
+        { kind: 'NOT', cond: { kind: 'EXISTS', relation: 'MEDIA', mime_prefix: 'image/' } }
+      ]
+    };
+    const task = { priority: 'HIGH', due_date: new Date(NOW + 12 * HOUR_MS).toISOString() };
+
+    assert.equal(matches(condition, task), true);
+    assert.equal(matches(condition, task, { 'MEDIA:image/': 1 }), false);
+    assert.equal(matches(condition, { ...task, priority: 'LOW' }), false);
+  });
+});
+
+describe('normalizeCondition', () => {
+  it('rejects incomplete conditions', () => {
+    assert.throws(
+      () => normalizeCondition({ kind: 'NUMBER_COMPARE', field: 'volume', op: 'ABOUT' as 'GT', value: 1 }),
+      /Condition NUMBER_COMPARE invalide/
+    );
+    assert.throws(() => normalizeCondition({ kind: 'AND', all: [] }), /Condition AND invalide/);
+    assert.throws(() => normalizeCondition({ kind: 'EXISTS', relation: 'PHOTOS' as 'MEDIA' }), /Condition EXISTS invalide/);
+  });
+});
+
+describe('condition analysis', () => {
+  const condition: RuleCondition = {
+    kind: 'OR',
+    any: [
+      { kind: 'EXISTS', relation: 'MEDIA', mime_prefix: 'image/' },
+      { kind: 'NOT', cond: { kind: 'DATE_RELATIVE', field: 'due_date', op: 'AFTER', days: 0 } }
+    ]
+  };
+
+  it('lists the relations to count and detects time-based rules', () => {
+    assert.deepEqual([...collectRelations(condition, new Map()).keys()], ['MEDIA:image/']);
+    assert.equal(isTimeBased(condition), true);
+    assert.equal(isTimeBased({ kind: 'ALWAYS' }), false);
+  });
+});
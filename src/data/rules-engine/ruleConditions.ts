@@ -0,0 +1,286 @@
+import { RuleCondition, RuleDateOperator, RuleNumberOperator, RuleRelation } from './types';
+
+// Pure part of the rules engine: condition validation and evaluation, no SQLite access.
+// Linked entity counts are resolved by the caller and passed in `EvaluationEnv`.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const NUMBER_OPERATORS: RuleNumberOperator[] = ['GT', 'GTE', 'LT', 'LTE', 'EQ', 'NEQ'];
+const DATE_OPERATORS: RuleDateOperator[] = ['BEFORE', 'AFTER'];
+const RELATIONS: RuleRelation[] = ['MEDIA', 'DOCUMENTS', 'PINS'];
+
+export type EvaluationEnv = {
+  nowMs: number;
+  linkedCounts: Record<string, number>;
+};
+
+function normalizeText(value: string | null | undefined) {
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+function normalizeLower(value: string | null | undefined) {
+  return normalizeText(value).toLowerCase();
+}
+
+function toOptional(value: string | null | undefined) {
+  const cleaned = normalizeText(value);
+  return cleaned.length > 0 ? cleaned : undefined;
+}
+
+export function normalizeCondition(input: RuleCondition): RuleCondition {
+  if (input.kind === 'ALWAYS') {
+    return input;
+  }
+
+  if (input.kind === 'KEYWORDS_ANY') {
+    const fields = Array.isArray(input.fields) ? input.fields.map((f) => normalizeText(f)).filter(Boolean) : [];
+    const keywords = Array.isArray(input.keywords) ? input.keywords.map((k) => normalizeText(k)).filter(Boolean) : [];
+    if (fields.length === 0 || keywords.length === 0) {
+      throw new Error('Condition KEYWORDS_ANY invalide (fields/keywords).');
+    }
+    return { ...input, fields, keywords };
+  }
+
+  if (input.kind === 'FIELD_EQUALS') {
+    const field = normalizeText(input.field);
+    if (!field) {
+      throw new Error('Condition FIELD_EQUALS invalide (field).');
+    }
+    return { ...input, field };
+  }
+
+  if (input.kind === 'ARRAY_INCLUDES_ANY') {
+    const field = normalizeText(input.field);
+    const values = Array.isArray(input.values) ? input.values.map((v) => normalizeText(v)).filter(Boolean) : [];
+    if (!field || values.length === 0) {
+      throw new Error('Condition ARRAY_INCLUDES_ANY invalide (field/values).');
+    }
+    return { ...input, field, values };
+  }
+
+  if (input.kind === 'NUMBER_COMPARE') {
+    const field = normalizeText(input.field);
+    if (!field || !NUMBER_OPERATORS.includes(input.op) || !Number.isFinite(input.value)) {
+      throw new Error('Condition NUMBER_COMPARE invalide (field/op/value).');
+    }
+    return { ...input, field };
+  }
+
+  if (input.kind === 'DATE_RELATIVE') {
+    const field = normalizeText(input.field);
+    if (!field || !DATE_OPERATORS.includes(input.op) || !Number.isFinite(input.days)) {
+      throw new Error('Condition DATE_RELATIVE invalide (field/op/days).');
+    }
+    return { ...input, field };
+  }
+
+  if (input.kind === 'EXISTS' || input.kind === 'LINKED_COUNT') {
+    if (!RELATIONS.includes(input.relation)) {
+      throw new Error(`Condition ${input.kind} invalide (relation).`);
+    }
+    if (input.kind === 'LINKED_COUNT' && (!NUMBER_OPERATORS.includes(input.op) || !Number.isFinite(input.value))) {
+      throw new Error('Condition LINKED_COUNT invalide (op/value).');
+    }
+    const mimePrefix = toOptional(input.mime_prefix);
+    return { ...input, mime_prefix: mimePrefix };
+  }
+
+  if (input.kind === 'AND') {
+    if (!Array.isArray(input.all) || input.all.length === 0) {
+      throw new Error('Condition AND invalide (all).');
+    }
+    return { ...input, all: input.all.map(normalizeCondition) };
+  }
+
+  if (input.kind === 'OR') {
+    if (!Array.isArray(input.any) || input.any.length === 0) {
+      throw new Error('Condition OR invalide (any).');
+    }
+    return { ...input, any: input.any.map(normalizeCondition) };
+  }
+
+  if (input.kind === 'NOT') {
+    return { ...input, cond: normalizeCondition(input.cond) };
+  }
+
+  throw new Error(`Condition inconnue: ${(input as any).kind}`);
+}
+
+function resolvePath(context: Record<string, unknown>, path: string) {
+  const cleaned = normalizeText(path);
+  if (!cleaned) return undefined;
+
+  const segments = cleaned.split('.').filter(Boolean);
+  let cursor: unknown = context;
+
+  for (const seg of segments) {
+    if (!cursor || typeof cursor !== 'object') {
+      return undefined;
+    }
+    cursor = (cursor as Record<string, unknown>)[seg];
+  }
+
+  return cursor;
+}
+
+function fieldAsText(context: Record<string, unknown>, path: string) {
+  const value = resolvePath(context, path);
+
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  if (Array.isArray(value)) {
+    return value.map((item) => (typeof item === 'string' ? item : '')).filter(Boolean).join(' ');
+  }
+
+  return '';
+}
+
+function fieldAsNumber(context: Record<string, unknown>, path: string) {
+  const value = resolvePath(context, path);
+
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'string' && value.trim().length > 0) {
+    const parsed = Number(value.replace(',', '.'));
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+
+  return null;
+}
+
+function fieldAsTime(context: Record<string, unknown>, path: string) {
+  const value = resolvePath(context, path);
+  if (typeof value !== 'string' || value.trim().length === 0) {
+    return null;
+  }
+
+  const parsed = Date.parse(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function compareNumbers(actual: number, op: RuleNumberOperator, expected: number) {
+  if (op === 'GT') return actual > expected;
+  if (op === 'GTE') return actual >= expected;
+  if (op === 'LT') return actual < expected;
+  if (op === 'LTE') return actual <= expected;
+  if (op === 'EQ') return actual === expected;
+  return actual !== expected;
+}
+
+export function relationKey(relation: RuleRelation, mimePrefix?: string) {
+  return mimePrefix ? `${relation}:${mimePrefix}` : relation;
+}
+
+export function collectRelations(condition: RuleCondition, out: Map<string, { relation: RuleRelation; mimePrefix?: string }>) {
+  if (condition.kind === 'EXISTS' || condition.kind === 'LINKED_COUNT') {
+    out.set(relationKey(condition.relation, condition.mime_prefix), {
+      relation: condition.relation,
+      mimePrefix: condition.mime_prefix
+    });
+  } else if (condition.kind === 'AND') {
+    condition.all.forEach((child) => collectRelations(child, out));
+  } else if (condition.kind === 'OR') {
+    condition.any.forEach((child) => collectRelations(child, out));
+  } else if (condition.kind === 'NOT') {
+    collectRelations(condition.cond, out);
+  }
+
+  return out;
+}
+
+export function isTimeBased(condition: RuleCondition): boolean {
+  if (condition.kind === 'DATE_RELATIVE') return true;
+  if (condition.kind === 'AND') return condition.all.some(isTimeBased);
+  if (condition.kind === 'OR') return condition.any.some(isTimeBased);
+  if (condition.kind === 'NOT') return isTimeBased(condition.cond);
+  return false;
+}
+
+export function evaluateCondition(condition: RuleCondition, context: Record<string, unknown>, env: EvaluationEnv): boolean {
+  if (condition.kind === 'ALWAYS') {
+    return true;
+  }
+
+  if (condition.kind === 'NUMBER_COMPARE') {
+    const actual = fieldAsNumber(context, condition.field);
+    return actual !== null && compareNumbers(actual, condition.op, condition.value);
+  }
+
+  if (condition.kind === 'DATE_RELATIVE') {
+    const actual = fieldAsTime(context, condition.field);
+    if (actual === null) {
+      return false;
+    }
+
+    const threshold = env.nowMs + condition.days * DAY_MS;
+    return condition.op === 'BEFORE' ? actual < threshold : actual > threshold;
+  }
+
+  if (condition.kind === 'EXISTS') {
+    return (env.linkedCounts[relationKey(condition.relation, condition.mime_prefix)] ?? 0) > 0;
+  }
+
+  if (condition.kind === 'LINKED_COUNT') {
+    const count = env.linkedCounts[relationKey(condition.relation, condition.mime_prefix)] ?? 0;
+    return compareNumbers(count, condition.op, condition.value);
+  }
+
+  if (condition.kind === 'KEYWORDS_ANY') {
+    const haystack = condition.fields.map((field) => fieldAsText(context, field)).join(' ').toLowerCase();
+    if (!haystack) return false;
+    for (const keyword of condition.keywords) {
+      const needle = normalizeLower(keyword);
+      if (needle && haystack.includes(needle)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  if (condition.kind === 'FIELD_EQUALS') {
+    const actual = resolvePath(context, condition.field);
+    const expected = condition.value;
+
+    if (typeof actual === 'string' && typeof expected === 'string') {
+      if (condition.case_insensitive === false) {
+        return actual === expected;
+      }
+      return normalizeLower(actual) === normalizeLower(expected);
+    }
+
+    return actual === expected;
+  }
+
+  if (condition.kind === 'ARRAY_INCLUDES_ANY') {
+    const actual = resolvePath(context, condition.field);
+    if (!Array.isArray(actual)) {
+      return false;
+    }
+
+    const normalized = new Set(
+      actual.map((item) => (typeof item === 'string' ? normalizeLower(item) : '')).filter(Boolean)
+    );
+
+    for (const value of condition.values) {
+      const needle = normalizeLower(value);
+      if (needle && normalized.has(needle)) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  if (condition.kind === 'AND') {
+    return condition.all.every((child) => evaluateCondition(child, context, env));
+  }
+
+  if (condition.kind === 'OR') {
+    return condition.any.some((child) => evaluateCondition(child, context, env));
+  }
+
+  if (condition.kind === 'NOT') {
+    return !evaluateCondition(condition.cond, context, env);
+  }
+
+  return false;
+}
@@ -1,16 +1,44 @@
+import * as FileSystem from 'expo-file-system/legacy';
 import * as SQLite from 'expo-sqlite';
 import defaultRulesConfig from './defaultRules.json';
+import { defaultProofMessage, effectActionKey, normalizeAction } from './ruleActionSpecs';
+import {
+  effectIdFor,
+  executeRuleEffects,
+  listEntityEffects,
+  listRuleNotifications,
+  markRuleNotificationRead
+} from './ruleActions';
+import {
+  EvaluationEnv,
+  collectRelations,
+  evaluateCondition,
+  isTimeBased,
+  normalizeCondition,
+  relationKey
+} from './ruleConditions';
 import {
   RuleAction,
-  RuleCondition,
   RuleDefinition,
+  RuleEffect,
   RuleEntity,
+  RuleNotification,
+  RuleNotificationFilters,
+  RuleProofRequirement,
   RuleRecord,
+  RuleRelation,
   RuleSource,
   RulesConfig,
+  RulesDryRunResult,
   RulesEvaluateContext,
+  RulesEvaluateOptions,
   RulesEvaluationResult,
-  RulesMatch
+  RulesEvaluationTrigger,
+  RulesExportFile,
+  RulesImportResult,
+  RulesMatch,
+  RulesScheduledRunResult,
+  RulesSchedulerOptions
 } from './types';
 
 const DB_NAME = 'conformeo.db';
@@ -18,6 +46,63 @@ const RULES_CACHE_TABLE = 'rules_engine_cache';
 const RULES_JOURNAL_TABLE = 'rules_engine_journal';
 
 const DEFAULT_PRIORITY = 50;
+const CONFIG_VERSION = 1;
+const MAX_IMPORTED_RULES = 500;
+
+const DEFAULT_SCHEDULER_INTERVAL_MS = 15 * 60_000;
+const MIN_SCHEDULER_INTERVAL_MS = 60_000;
+const MAX_SCHEDULED_ENTITIES = 500;
+
+type RelationQuery = {
+  tables: string[];
+  sql: string;
+  mimeColumn?: string;
+};
+
+// Linked entities per evaluated entity. Tables are created lazily by their module: a missing
+// table simply counts as 0.
+const RELATION_QUERIES: Record<string, Partial<Record<RuleRelation, RelationQuery>>> = {
+  TASK: {
+    MEDIA: {
+      tables: ['media_assets'],
+      sql: 'SELECT COUNT(*) AS count FROM media_assets WHERE task_id = ?',
+      mimeColumn: 'mime'
+    },
+    DOCUMENTS: {
+      tables: ['document_links', 'documents'],
+      sql: `
+        SELECT COUNT(*) AS count
+        FROM document_links l
+        JOIN documents d ON d.id = l.document_id
+        WHERE l.linked_entity = 'TASK'
+          AND l.linked_id = ?
+          AND d.deleted_at IS NULL
+      `
+    },
+    PINS: {
+      tables: ['plan_pin_links'],
+      sql: "SELECT COUNT(*) AS count FROM plan_pin_links WHERE entity = 'TASK' AND entity_id = ?"
+    }
+  },
+  PLAN_PIN: {
+    MEDIA: {
+      tables: ['media_assets'],
+      sql: 'SELECT COUNT(*) AS count FROM media_assets WHERE plan_pin_id = ?',
+      mimeColumn: 'mime'
+    },
+    DOCUMENTS: {
+      tables: ['plan_pin_links'],
+      sql: "SELECT COUNT(*) AS count FROM plan_pin_links WHERE pin_id = ? AND entity = 'DOCUMENT'"
+    }
+  }
+};
+
+// Entities the scheduler can reload from SQLite to re-evaluate time-based rules.
+const SCHEDULED_SOURCES: Record<string, { table: string; softDelete: boolean }> = {
+  TASK: { table: 'tasks', softDelete: true },
+  PLAN_PIN: { table: 'plan_pins', softDelete: false },
+  WASTE: { table: 'waste_entries', softDelete: true }
+};
 
 type CacheRow = {
   org_id: string;
@@ -34,6 +119,9 @@ let setupPromise: Promise<void> | null = null;
 let contextOrgId: string | null = null;
 let contextUserId: string | null = null;
 
+let schedulerIntervalId: ReturnType<typeof setInterval> | null = null;
+let scheduledRunPromise: Promise<RulesScheduledRunResult | null> | null = null;
+
 const defaultConfig = defaultRulesConfig as RulesConfig;
 
 const rulesByOrgMemory = new Map<string, Map<string, RuleRecord>>();
@@ -50,10 +138,6 @@ function normalizeUpper(value: string | null | undefined) {
   return normalizeText(value).toUpperCase();
 }
 
-function normalizeLower(value: string | null | undefined) {
-  return normalizeText(value).toLowerCase();
-}
-
 function toOptional(value: string | null | undefined) {
   const cleaned = normalizeText(value);
   return cleaned.length > 0 ? cleaned : undefined;
@@ -125,78 +209,6 @@ function ruleOrder(left: RuleRecord, right: RuleRecord) {
   return left.id.localeCompare(right.id);
 }
 
-function normalizeCondition(input: RuleCondition): RuleCondition {
-  if (input.kind === 'ALWAYS') {
-    return input;
-  }
-
-  if (input.kind === 'KEYWORDS_ANY') {
-    const fields = Array.isArray(input.fields) ? input.fields.map((f) => normalizeText(f)).filter(Boolean) : [];
-    const keywords = Array.isArray(input.keywords) ? input.keywords.map((k) => normalizeText(k)).filter(Boolean) : [];
-    if (fields.length === 0 || keywords.length === 0) {
-      throw new Error('Condition KEYWORDS_ANY invalide (fields/keywords).');
-    }
-    return { ...input, fields, keywords };
-  }
-
-  if (input.kind === 'FIELD_EQUALS') {
-    const field = normalizeText(input.field);
-    if (!field) {
-      throw new Error('Condition FIELD_EQUALS invalide (field).');
-    }
-    return { ...input, field };
-  }
-
-  if (input.kind === 'ARRAY_INCLUDES_ANY') {
-    const field = normalizeText(input.field);
-    const values = Array.isArray(input.values) ? input.values.map((v) => normalizeText(v)).filter(Boolean) : [];
-    if (!field || values.length === 0) {
-      throw new Error('Condition ARRAY_INCLUDES_ANY invalide (field/values).');
-    }
-    return { ...input, field, values };
-  }
-
-  if (input.kind === 'AND') {
-    if (!Array.isArray(input.all) || input.all.length === 0) {
-      throw new Error('Condition AND invalide (all).');
-    }
-    return { ...input, all: input.all.map(normalizeCondition) };
-  }
-
-  if (input.kind === 'OR') {
-    if (!Array.isArray(input.any) || input.any.length === 0) {
-      throw new Error('Condition OR invalide (any).');
-    }
-    return { ...input, any: input.any.map(normalizeCondition) };
-  }
-
-  if (input.kind === 'NOT') {
-    return { ...input, cond: normalizeCondition(input.cond) };
-  }
-
-  throw new Error(`Condition inconnue: ${(input as any).kind}`);
-}
-
-function normalizeAction(action: RuleAction): RuleAction {
-  if (action.kind === 'ADD_TAG' || action.kind === 'SUGGEST' || action.kind === 'ADD_REMINDER') {
-    const value = normalizeText(action.value);
-    if (!value) {
-      throw new Error(`Action ${action.kind} invalide (value).`);
-    }
-    return { ...action, value } as RuleAction;
-  }
-
-  if (action.kind === 'SET_FIELD') {
-    const field = normalizeText(action.field);
-    if (!field) {
-      throw new Error('Action SET_FIELD invalide (field).');
-    }
-    return { ...action, field } as RuleAction;
-  }
-
-  throw new Error(`Action inconnue: ${(action as any).kind}`);
-}
-
 function normalizeRule(def: RuleDefinition, source: RuleSource, meta?: Partial<Pick<RuleRecord, 'updated_at' | 'updated_by'>>): RuleRecord {
   const id = normalizeText(def.id);
   const name = normalizeText(def.name);
@@ -277,7 +289,8 @@ async function ensureSetup() {
           matched_rules_json TEXT NOT NULL,
           actions_json TEXT NOT NULL,
           duration_ms INTEGER NOT NULL,
-          created_at TEXT NOT NULL
+          created_at TEXT NOT NULL,
+          trigger_type TEXT NOT NULL DEFAULT 'EVENT'
         );
 
         CREATE INDEX IF NOT EXISTS idx_rules_engine_journal_org_created
@@ -286,6 +299,18 @@ async function ensureSetup() {
         CREATE INDEX IF NOT EXISTS idx_rules_engine_journal_org_entity_created
           ON ${RULES_JOURNAL_TABLE}(org_id, entity, created_at DESC);
       `);
+
+      const journalColumns = await db.getAllAsync<{ name: string }>(`PRAGMA table_info(${RULES_JOURNAL_TABLE})`);
+      if (!journalColumns.some((column) => column.name === 'trigger_type')) {
+        await db.execAsync(
+          `ALTER TABLE ${RULES_JOURNAL_TABLE} ADD COLUMN trigger_type TEXT NOT NULL DEFAULT 'EVENT';`
+        );
+      }
+
+      await db.execAsync(`
+        CREATE INDEX IF NOT EXISTS idx_rules_engine_journal_entity_trigger
+          ON ${RULES_JOURNAL_TABLE}(org_id, entity, entity_id, trigger_type, created_at DESC);
+      `);
     })();
   }
 
@@ -334,15 +359,7 @@ async function upsertCacheRule(orgId: string, rule: RuleRecord) {
 
   const updatedAt = rule.updated_at ?? nowIso();
 
-  const payload: RuleDefinition = {
-    id: rule.id,
-    name: rule.name,
-    entity: rule.entity,
-    enabled: rule.enabled,
-    priority: rule.priority,
-    condition: rule.condition,
-    actions: rule.actions
-  };
+  const payload = toDefinition(rule);
 
   await db.runAsync(
     `
@@ -373,106 +390,159 @@ function mergeRules(defaultRules: RuleRecord[], cachedRules: RuleRecord[]) {
   return Array.from(map.values()).sort(ruleOrder);
 }
 
-function resolveOrgId(inputOrgId?: string) {
-  return normalizeText(inputOrgId) || contextOrgId || null;
+function toDefinition(rule: RuleRecord): RuleDefinition {
+  return {
+    id: rule.id,
+    name: rule.name,
+    entity: rule.entity,
+    enabled: rule.enabled,
+    priority: rule.priority,
+    condition: rule.condition,
+    actions: rule.actions
+  };
 }
 
-function resolvePath(context: Record<string, unknown>, path: string) {
-  const cleaned = normalizeText(path);
-  if (!cleaned) return undefined;
+/** Validates a whole config before anything is written: an import is all-or-nothing. */
+function parseConfig(input: RulesConfig | string): RuleDefinition[] {
+  const parsed = typeof input === 'string' ? safeJsonParse(input) : input;
+  if (!isRecord(parsed)) {
+    throw new Error('Configuration de règles invalide (JSON objet attendu).');
+  }
+
+  if (typeof parsed.version !== 'number' || parsed.version > CONFIG_VERSION) {
+    throw new Error(`Version de configuration non supportée: ${String(parsed.version)}`);
+  }
 
-  const segments = cleaned.split('.').filter(Boolean);
-  let cursor: unknown = context;
+  if (!Array.isArray(parsed.rules) || parsed.rules.length === 0) {
+    throw new Error('Configuration de règles vide.');
+  }
 
-  for (const seg of segments) {
-    if (!cursor || typeof cursor !== 'object') {
-      return undefined;
-    }
-    cursor = (cursor as Record<string, unknown>)[seg];
+  if (parsed.rules.length > MAX_IMPORTED_RULES) {
+    throw new Error(`Trop de règles (${parsed.rules.length} > ${MAX_IMPORTED_RULES}).`);
   }
 
-  return cursor;
-}
+  const seen = new Set<string>();
+  return parsed.rules.map((raw, index) => {
+    let normalized: RuleRecord;
+    try {
+      normalized = normalizeRule(raw as RuleDefinition, 'LOCAL');
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Règle #${index + 1} invalide: ${message}`);
+    }
+
+    if (seen.has(normalized.id)) {
+      throw new Error(`Règle en double: ${normalized.id}`);
+    }
+    seen.add(normalized.id);
 
-function fieldAsText(context: Record<string, unknown>, path: string) {
-  const value = resolvePath(context, path);
+    return toDefinition(normalized);
+  });
+}
 
-  if (typeof value === 'string') return value;
-  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
-  if (Array.isArray(value)) {
-    return value.map((item) => (typeof item === 'string' ? item : '')).filter(Boolean).join(' ');
+function exportsDir() {
+  const base = FileSystem.documentDirectory;
+  if (!base) {
+    throw new Error('FileSystem documentDirectory indisponible.');
   }
+  return `${base}rules_engine/exports/`;
+}
 
-  return '';
+function resolveOrgId(inputOrgId?: string) {
+  return normalizeText(inputOrgId) || contextOrgId || null;
 }
 
-function evaluateCondition(condition: RuleCondition, context: Record<string, unknown>): boolean {
-  if (condition.kind === 'ALWAYS') {
-    return true;
-  }
+async function tableExists(db: SQLite.SQLiteDatabase, tableName: string) {
+  const row = await db.getFirstAsync<{ count: number }>(
+    `
+      SELECT COUNT(*) AS count
+      FROM sqlite_master
+      WHERE type = 'table'
+        AND name = ?
+    `,
+    tableName
+  );
 
-  if (condition.kind === 'KEYWORDS_ANY') {
-    const haystack = condition.fields.map((field) => fieldAsText(context, field)).join(' ').toLowerCase();
-    if (!haystack) return false;
-    for (const keyword of condition.keywords) {
-      const needle = normalizeLower(keyword);
-      if (needle && haystack.includes(needle)) {
-        return true;
+  return (row?.count ?? 0) > 0;
+}
+
+/** Counts linked entities needed by the candidate rules; counts given in the context win. */
+async function resolveLinkedCounts(
+  entity: RuleEntity,
+  entityId: string | undefined,
+  candidates: RuleRecord[],
+  provided: unknown
+) {
+  const counts: Record<string, number> = {};
+
+  if (isRecord(provided)) {
+    for (const [key, value] of Object.entries(provided)) {
+      if (typeof value === 'number' && Number.isFinite(value)) {
+        counts[key] = value;
       }
     }
-    return false;
   }
 
-  if (condition.kind === 'FIELD_EQUALS') {
-    const actual = resolvePath(context, condition.field);
-    const expected = condition.value;
-
-    if (typeof actual === 'string' && typeof expected === 'string') {
-      if (condition.case_insensitive === false) {
-        return actual === expected;
-      }
-      return normalizeLower(actual) === normalizeLower(expected);
-    }
+  const needed = new Map<string, { relation: RuleRelation; mimePrefix?: string }>();
+  for (const rule of candidates) {
+    collectRelations(rule.condition, needed);
+  }
 
-    return actual === expected;
+  for (const key of Object.keys(counts)) {
+    needed.delete(key);
   }
 
-  if (condition.kind === 'ARRAY_INCLUDES_ANY') {
-    const actual = resolvePath(context, condition.field);
-    if (!Array.isArray(actual)) {
-      return false;
-    }
+  return { ...counts, ...(await countRelations(entity, entityId, needed)) };
+}
 
-    const normalized = new Set(
-      actual.map((item) => (typeof item === 'string' ? normalizeLower(item) : '')).filter(Boolean)
-    );
+async function countRelations(
+  entity: RuleEntity,
+  entityId: string | undefined,
+  needed: Map<string, { relation: RuleRelation; mimePrefix?: string }>
+) {
+  const counts: Record<string, number> = {};
+  const queries = RELATION_QUERIES[entity] ?? {};
+  const db = needed.size > 0 && entityId ? await getDb() : null;
 
-    for (const value of condition.values) {
-      const needle = normalizeLower(value);
-      if (needle && normalized.has(needle)) {
-        return true;
-      }
-    }
+  for (const [key, { relation, mimePrefix }] of needed) {
+    counts[key] = 0;
 
-    return false;
-  }
+    const query = queries[relation];
+    if (!db || !entityId || !query) {
+      continue;
+    }
 
-  if (condition.kind === 'AND') {
-    return condition.all.every((child) => evaluateCondition(child, context));
-  }
+    let available = true;
+    for (const table of query.tables) {
+      if (!(await tableExists(db, table))) {
+        available = false;
+        break;
+      }
+    }
 
-  if (condition.kind === 'OR') {
-    return condition.any.some((child) => evaluateCondition(child, context));
-  }
+    if (!available) {
+      continue;
+    }
 
-  if (condition.kind === 'NOT') {
-    return !evaluateCondition(condition.cond, context);
+    const useMime = Boolean(mimePrefix && query.mimeColumn);
+    const row = await db.getFirstAsync<{ count: number }>(
+      useMime ? `${query.sql} AND ${query.mimeColumn} LIKE ?` : query.sql,
+      ...(useMime ? [entityId, `${mimePrefix}%`] : [entityId])
+    );
+    counts[key] = row?.count ?? 0;
   }
 
-  return false;
+  return counts;
 }
 
-async function writeJournal(orgId: string, entity: RuleEntity, entityId: string | null, result: { matched: RulesMatch[]; actions: RuleAction[]; duration_ms: number }, ctxHash: string) {
+async function writeJournal(
+  orgId: string,
+  entity: RuleEntity,
+  entityId: string | null,
+  result: { matched: RulesMatch[]; actions: RuleAction[]; duration_ms: number },
+  ctxHash: string,
+  trigger: RulesEvaluationTrigger = 'EVENT'
+) {
   await ensureSetup();
   const db = await getDb();
 
@@ -482,8 +552,8 @@ async function writeJournal(orgId: string, entity: RuleEntity, entityId: string
   await db.runAsync(
     `
       INSERT INTO ${RULES_JOURNAL_TABLE}
-      (id, org_id, entity, entity_id, context_hash, matched_rules_json, actions_json, duration_ms, created_at)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      (id, org_id, entity, entity_id, context_hash, matched_rules_json, actions_json, duration_ms, created_at, trigger_type)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `,
     id,
     orgId,
@@ -493,12 +563,239 @@ async function writeJournal(orgId: string, entity: RuleEntity, entityId: string
     JSON.stringify(result.matched),
     JSON.stringify(result.actions),
     Math.max(0, Math.floor(result.duration_ms)),
-    createdAt
+    createdAt,
+    trigger
   );
 
   return id;
 }
 
+function matchedRuleIds(matched: Array<{ rule_id: string }>) {
+  return matched
+    .map((item) => item.rule_id)
+    .sort()
+    .join('|');
+}
+
+/** A scheduled run only journals when the matched rules changed since the previous scheduled entry. */
+async function isSameAsLastScheduled(orgId: string, entity: RuleEntity, entityId: string, matched: RulesMatch[]) {
+  await ensureSetup();
+  const db = await getDb();
+
+  const row = await db.getFirstAsync<{ matched_rules_json: string }>(
+    `
+      SELECT matched_rules_json
+      FROM ${RULES_JOURNAL_TABLE}
+      WHERE org_id = ?
+        AND entity = ?
+        AND entity_id = ?
+        AND trigger_type = 'SCHEDULED'
+      ORDER BY created_at DESC
+      LIMIT 1
+    `,
+    orgId,
+    entity,
+    entityId
+  );
+
+  if (!row) {
+    return false;
+  }
+
+  const previous = safeJsonParse(row.matched_rules_json);
+  if (!Array.isArray(previous)) {
+    return false;
+  }
+
+  const previousIds = matchedRuleIds(
+    previous.filter((item): item is { rule_id: string } => isRecord(item) && typeof item.rule_id === 'string')
+  );
+
+  return previousIds === matchedRuleIds(matched);
+}
+
+/** Scheduled evaluation context: the raw row, with `*_json` columns parsed under their base name. */
+function rowToContext(row: Record<string, unknown>, orgId: string, nowIsoValue: string): RulesEvaluateContext {
+  const context: RulesEvaluateContext = {};
+
+  for (const [key, value] of Object.entries(row)) {
+    if (key.endsWith('_json') && typeof value === 'string') {
+      context[key.slice(0, -'_json'.length)] = safeJsonParse(value);
+      continue;
+    }
+    context[key] = value;
+  }
+
+  context.org_id = orgId;
+  context.entity_id = typeof row.id === 'string' ? row.id : undefined;
+  context.now = nowIsoValue;
+  return context;
+}
+
+async function runEffects(
+  orgId: string,
+  entity: RuleEntity,
+  entityId: string,
+  context: Record<string, unknown>,
+  matched: RulesMatch[]
+): Promise<RuleEffect[]> {
+  try {
+    return await executeRuleEffects(
+      { org_id: orgId, entity, entity_id: entityId, actor_user_id: contextUserId, context },
+      matched
+    );
+  } catch (error) {
+    if (__DEV__) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.warn('[rules-engine] action execution failed:', message);
+    }
+    return [];
+  }
+}
+
+async function evaluateRules(
+  rulesList: RuleRecord[],
+  entity: RuleEntity,
+  context: RulesEvaluateContext,
+  trigger: RulesEvaluationTrigger,
+  options: RulesEvaluateOptions = {}
+): Promise<RulesEvaluationResult> {
+  const started = Date.now();
+
+  const entityNorm = normalizeUpper(entity);
+  const orgId = resolveOrgId(typeof context.org_id === 'string' ? context.org_id : undefined) ?? undefined;
+  const entityId = normalizeText(typeof context.entity_id === 'string' ? context.entity_id : undefined) || undefined;
+
+  const candidates = rulesList.filter((rule) => rule.enabled && rule.entity === entityNorm).sort(ruleOrder);
+
+  const ctx = ensureObject(context) as Record<string, unknown>;
+  const contextNow = typeof context.now === 'string' ? Date.parse(context.now) : Number.NaN;
+
+  let linkedCounts: Record<string, number> = {};
+  try {
+    linkedCounts = await resolveLinkedCounts(entityNorm, entityId, candidates, context.linked_counts);
+  } catch {
+    // Unreadable relations count as 0: a rule must never break the calling flow.
+  }
+
+  const env: EvaluationEnv = {
+    nowMs: Number.isFinite(contextNow) ? contextNow : Date.now(),
+    linkedCounts
+  };
+
+  const matched: RulesMatch[] = [];
+  const actions: RuleAction[] = [];
+
+  for (const rule of candidates) {
+    let ok = false;
+    try {
+      ok = evaluateCondition(rule.condition, ctx, env);
+    } catch {
+      ok = false;
+    }
+
+    if (!ok) continue;
+
+    const normalizedActions = rule.actions.map(normalizeAction);
+    matched.push({ rule_id: rule.id, rule_name: rule.name, actions: normalizedActions });
+    actions.push(...normalizedActions);
+  }
+
+  const durationMs = Date.now() - started;
+  const result: RulesEvaluationResult = {
+    entity: entityNorm,
+    org_id: orgId,
+    entity_id: entityId,
+    matched,
+    actions,
+    duration_ms: durationMs
+  };
+
+  if (orgId && entityId && matched.length > 0 && !options.defer_effects) {
+    const effects = await runEffects(orgId, entityNorm, entityId, ctx, matched);
+    if (effects.length > 0) {
+      result.effects = effects;
+    }
+  }
+
+  if (orgId && matched.length > 0) {
+    try {
+      const skip =
+        trigger === 'SCHEDULED' && entityId ? await isSameAsLastScheduled(orgId, entityNorm, entityId, matched) : false;
+
+      if (!skip) {
+        const journalId = await writeJournal(
+          orgId,
+          entityNorm,
+          entityId ?? null,
+          { matched, actions, duration_ms: durationMs },
+          contextHash(entityNorm, context),
+          trigger
+        );
+        result.journal_id = journalId;
+      }
+    } catch {
+      // no-op (journal should not break UX)
+    }
+  }
+
+  return result;
+}
+
+async function runScheduledInternal(orgId: string, rulesList: RuleRecord[]): Promise<RulesScheduledRunResult> {
+  const started = Date.now();
+  const startedAt = new Date(started).toISOString();
+
+  const result: RulesScheduledRunResult = {
+    org_id: orgId,
+    started_at: startedAt,
+    evaluated: 0,
+    matched: 0,
+    journaled: 0,
+    duration_ms: 0
+  };
+
+  const timeBasedEntities = new Set(
+    rulesList.filter((rule) => rule.enabled && isTimeBased(rule.condition)).map((rule) => rule.entity)
+  );
+
+  const db = await getDb();
+
+  for (const entity of timeBasedEntities) {
+    const source = SCHEDULED_SOURCES[entity];
+    if (!source || !(await tableExists(db, source.table))) {
+      continue;
+    }
+
+    const rows = await db.getAllAsync<Record<string, unknown>>(
+      `
+        SELECT *
+        FROM ${source.table}
+        WHERE org_id = ?
+          ${source.softDelete ? 'AND deleted_at IS NULL' : ''}
+        ORDER BY updated_at DESC
+        LIMIT ?
+      `,
+      orgId,
+      MAX_SCHEDULED_ENTITIES
+    );
+
+    for (const row of rows) {
+      const evaluation = await evaluateRules(rulesList, entity, rowToContext(row, orgId, startedAt), 'SCHEDULED');
+      result.evaluated += 1;
+      if (evaluation.matched.length > 0) {
+        result.matched += 1;
+      }
+      if (evaluation.journal_id) {
+        result.journaled += 1;
+      }
+    }
+  }
+
+  result.duration_ms = Date.now() - started;
+  return result;
+}
+
 export const rules = {
   setContext(context: { org_id?: string; user_id?: string }) {
     contextOrgId = normalizeText(context.org_id) || null;
@@ -531,6 +828,98 @@ export const rules = {
     return merged;
   },
 
+  async exportConfig(): Promise<RulesConfig> {
+    const list = await this.list();
+    return {
+      version: CONFIG_VERSION,
+      rules: list.map(toDefinition)
+    };
+  },
+
+  async exportConfigFile(): Promise<RulesExportFile> {
+    const orgId = resolveOrgId();
+    if (!orgId) {
+      throw new Error('org_id manquant (rules-engine).');
+    }
+
+    const config = await this.exportConfig();
+    const directory = exportsDir();
+    await FileSystem.makeDirectoryAsync(directory, { intermediates: true });
+
+    const stamp = nowIso().replace(/[:.]/g, '-');
+    const path = `${directory}rules-${orgId}-${stamp}.json`;
+    await FileSystem.writeAsStringAsync(path, JSON.stringify(config, null, 2), {
+      encoding: FileSystem.EncodingType.UTF8
+    });
+
+    return { path, rule_count: config.rules.length };
+  },
+
+  /** Imports a shared `RulesConfig` (object or JSON text): rules are upserted as LOCAL rules of the active org. */
+  async importConfig(input: RulesConfig | string): Promise<RulesImportResult> {
+    const orgId = resolveOrgId();
+    if (!orgId) {
+      throw new Error('org_id manquant (rules-engine).');
+    }
+
+    const definitions = parseConfig(input);
+    for (const definition of definitions) {
+      await this.update(definition);
+    }
+
+    return {
+      imported: definitions.length,
+      rule_ids: definitions.map((definition) => definition.id)
+    };
+  },
+
+  /**
+   * Evaluates a draft rule against sample contexts without saving it: nothing is journaled and
+   * side-effect actions are not executed. Invalid drafts throw the same errors as `update`.
+   */
+  async dryRun(rule: RuleDefinition, contexts: RulesEvaluateContext[]): Promise<RulesDryRunResult> {
+    const started = Date.now();
+    const normalized = normalizeRule({ ...rule, enabled: true }, 'LOCAL');
+
+    const items: RulesDryRunResult['items'] = [];
+    for (const context of contexts) {
+      const entityId = normalizeText(typeof context.entity_id === 'string' ? context.entity_id : undefined) || undefined;
+      const contextNow = typeof context.now === 'string' ? Date.parse(context.now) : Number.NaN;
+
+      let linkedCounts: Record<string, number> = {};
+      try {
+        linkedCounts = await resolveLinkedCounts(normalized.entity, entityId, [normalized], context.linked_counts);
+      } catch {
+        // same fallback as evaluate(): unreadable relations count as 0
+      }
+
+      let matched = false;
+      try {
+        matched = evaluateCondition(normalized.condition, ensureObject(context) as Record<string, unknown>, {
+          nowMs: Number.isFinite(contextNow) ? contextNow : Date.now(),
+          linkedCounts
+        });
+      } catch {
+        matched = false;
+      }
+
+      items.push({
+        entity_id: entityId,
+        label: typeof context.title === 'string' ? context.title : undefined,
+        matched,
+        actions: matched ? normalized.actions : []
+      });
+    }
+
+    return {
+      rule_id: normalized.id,
+      evaluated: items.length,
+      matched: items.filter((item) => item.matched).length,
+      items,
+      duration_ms: Date.now() - started
+    };
+  },
+
   async update(rule: RuleDefinition): Promise<RuleRecord> {
     const orgId = resolveOrgId();
     if (!orgId) {
@@ -557,56 +946,167 @@ export const rules = {
     return normalized;
   },
 
-  async evaluate(entity: RuleEntity, context: RulesEvaluateContext): Promise<RulesEvaluationResult> {
-    const started = Date.now();
+  async evaluate(
+    entity: RuleEntity,
+    context: RulesEvaluateContext,
+    options: RulesEvaluateOptions = {}
+  ): Promise<RulesEvaluationResult> {
+    const orgId = resolveOrgId(typeof context.org_id === 'string' ? context.org_id : undefined);
+    const rulesList = orgId ? await this.list() : loadDefaultRules();
 
-    const entityNorm = normalizeUpper(entity);
-    const orgId = resolveOrgId(typeof context.org_id === 'string' ? context.org_id : undefined) ?? undefined;
-    const entityId = normalizeText(typeof context.entity_id === 'string' ? context.entity_id : undefined) || undefined;
+    return evaluateRules(rulesList, entity, context, 'EVENT', options);
+  },
 
-    const rulesList = orgId ? await this.list() : loadDefaultRules();
-    const candidates = rulesList.filter((rule) => rule.enabled && rule.entity === entityNorm).sort(ruleOrder);
+  /** Runs the side effects of a `defer_effects` evaluation, once the entity is saved (each at most once). */
+  async executeEffects(entity: RuleEntity, context: RulesEvaluateContext, matched: RulesMatch[]): Promise<RuleEffect[]> {
+    const orgId = resolveOrgId(typeof context.org_id === 'string' ? context.org_id : undefined);
+    const entityId = normalizeText(typeof context.entity_id === 'string' ? context.entity_id : undefined);
+    if (!orgId || !entityId || matched.length === 0) {
+      return [];
+    }
 
-    const ctx = ensureObject(context) as Record<string, unknown>;
+    return runEffects(orgId, normalizeUpper(entity), entityId, ensureObject(context) as Record<string, unknown>, matched);
+  },
 
-    const matched: RulesMatch[] = [];
-    const actions: RuleAction[] = [];
+  /**
+   * Re-evaluates every rule with a DATE_RELATIVE condition against the entities stored locally
+   * (a due date gets close without the task being edited). Concurrent calls share the same run.
+   */
+  async runScheduled(): Promise<RulesScheduledRunResult | null> {
+    const orgId = resolveOrgId();
+    if (!orgId) {
+      return null;
+    }
 
-    for (const rule of candidates) {
-      let ok = false;
-      try {
-        ok = evaluateCondition(rule.condition, ctx);
-      } catch {
-        ok = false;
+    if (!scheduledRunPromise) {
+      scheduledRunPromise = (async () => {
+        try {
+          await ensureSetup();
+          return await runScheduledInternal(orgId, await this.list());
+        } finally {
+          scheduledRunPromise = null;
+        }
+      })();
+    }
+
+    return scheduledRunPromise;
+  },
+
+  /** Side effects already executed for an entity (follow-up tasks, links, notifications, proof requirements). */
+  async listEffects(entity: RuleEntity, entityId: string): Promise<RuleEffect[]> {
+    return listEntityEffects(normalizeUpper(entity), normalizeText(entityId));
+  },
+
+  /**
+   * REQUIRE_PROOF effects recorded on the entity, with their current state (a matching media is linked).
+   * `pending`: matches of a `defer_effects` evaluation, whose requirements count before they are recorded.
+   */
+  async getProofRequirements(entity: RuleEntity, entityId: string, pending: RulesMatch[] = []): Promise<RuleProofRequirement[]> {
+    const entityNorm = normalizeUpper(entity);
+    const id = normalizeText(entityId);
+    if (!id) {
+      return [];
+    }
+
+    const effects = await listEntityEffects(entityNorm, id, 'REQUIRE_PROOF');
+    const recorded = new Set(effects.map((effect) => `${effect.rule_id}:${effect.action_key}`));
+    const orgId = resolveOrgId();
+
+    for (const match of pending) {
+      for (const action of match.actions) {
+        if (action.kind !== 'REQUIRE_PROOF' || !orgId || recorded.has(`${match.rule_id}:${effectActionKey(action)}`)) {
+          continue;
+        }
+
+        effects.push({
+          id: await effectIdFor({ org_id: orgId, entity: entityNorm, entity_id: id }, match.rule_id, action),
+          org_id: orgId,
+          rule_id: match.rule_id,
+          entity: entityNorm,
+          entity_id: id,
+          action_kind: 'REQUIRE_PROOF',
+          action_key: effectActionKey(action),
+          action,
+          created_at: nowIso()
+        });
       }
+    }
 
-      if (!ok) continue;
+    if (effects.length === 0) {
+      return [];
+    }
 
-      const normalizedActions = rule.actions.map(normalizeAction);
-      matched.push({ rule_id: rule.id, rule_name: rule.name, actions: normalizedActions });
-      actions.push(...normalizedActions);
+    const needed = new Map<string, { relation: RuleRelation; mimePrefix?: string }>();
+    for (const effect of effects) {
+      const mimePrefix = effect.action.kind === 'REQUIRE_PROOF' ? effect.action.mime_prefix : undefined;
+      needed.set(relationKey('MEDIA', mimePrefix), { relation: 'MEDIA', mimePrefix });
     }
 
-    const durationMs = Date.now() - started;
-    const result: RulesEvaluationResult = {
-      entity: entityNorm,
-      org_id: orgId,
-      entity_id: entityId,
-      matched,
-      actions,
-      duration_ms: durationMs
-    };
+    const counts = await countRelations(entityNorm, id, needed);
+
+    return effects.map((effect) => {
+      const action = effect.action.kind === 'REQUIRE_PROOF' ? effect.action : { kind: 'REQUIRE_PROOF' as const };
+      return {
+        effect_id: effect.id,
+        rule_id: effect.rule_id,
+        entity: entityNorm,
+        entity_id: id,
+        mime_prefix: action.mime_prefix,
+        message: action.message ?? defaultProofMessage(action.mime_prefix),
+        satisfied: (counts[relationKey('MEDIA', action.mime_prefix)] ?? 0) > 0
+      };
+    });
+  },
 
-    if (orgId && matched.length > 0) {
+  async listNotifications(filters: RuleNotificationFilters = {}): Promise<RuleNotification[]> {
+    const orgId = resolveOrgId();
+    if (!orgId) {
+      return [];
+    }
+
+    return listRuleNotifications(orgId, filters);
+  },
+
+  async markNotificationRead(id: string): Promise<void> {
+    const cleaned = normalizeText(id);
+    if (!cleaned) {
+      throw new Error('id notification manquant.');
+    }
+
+    await markRuleNotificationRead(cleaned);
+  },
+
+  startScheduler(options: RulesSchedulerOptions = {}) {
+    if (schedulerIntervalId) {
+      return;
+    }
+
+    const intervalMs = Math.max(MIN_SCHEDULER_INTERVAL_MS, Math.floor(options.interval_ms ?? DEFAULT_SCHEDULER_INTERVAL_MS));
+
+    const tick = async () => {
       try {
-        const journalId = await writeJournal(orgId, entityNorm, entityId ?? null, { matched, actions, duration_ms: durationMs }, contextHash(entityNorm, context));
-        result.journal_id = journalId;
-      } catch {
-        // no-op (journal should not break UX)
+        await this.runScheduled();
+      } catch (error) {
+        if (__DEV__) {
+          const message = error instanceof Error ? error.message : String(error);
+          console.warn('[rules-engine] scheduled run failed:', message);
+        }
       }
+    };
+
+    void tick();
+    schedulerIntervalId = setInterval(() => {
+      void tick();
+    }, intervalMs);
+  },
+
+  stopScheduler() {
+    if (!schedulerIntervalId) {
+      return;
     }
 
-    return result;
+    clearInterval(schedulerIntervalId);
+    schedulerIntervalId = null;
   }
 };
 
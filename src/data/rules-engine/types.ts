@@ -1,10 +1,22 @@
 export type RuleEntity = string;
 
+export type RuleNumberOperator = 'GT' | 'GTE' | 'LT' | 'LTE' | 'EQ' | 'NEQ';
+
+/** `BEFORE`: field < now + days, `AFTER`: field > now + days (days may be negative or fractional). */
+export type RuleDateOperator = 'BEFORE' | 'AFTER';
+
+/** Entities linked to the evaluated one, counted from the local database. */
+export type RuleRelation = 'MEDIA' | 'DOCUMENTS' | 'PINS';
+
 export type RuleCondition =
   | { kind: 'ALWAYS' }
   | { kind: 'KEYWORDS_ANY'; fields: string[]; keywords: string[] }
   | { kind: 'FIELD_EQUALS'; field: string; value: string | number | boolean | null; case_insensitive?: boolean }
   | { kind: 'ARRAY_INCLUDES_ANY'; field: string; values: string[] }
+  | { kind: 'NUMBER_COMPARE'; field: string; op: RuleNumberOperator; value: number }
+  | { kind: 'DATE_RELATIVE'; field: string; op: RuleDateOperator; days: number }
+  | { kind: 'EXISTS'; relation: RuleRelation; mime_prefix?: string }
+  | { kind: 'LINKED_COUNT'; relation: RuleRelation; op: RuleNumberOperator; value: number; mime_prefix?: string }
   | { kind: 'AND'; all: RuleCondition[] }
   | { kind: 'OR'; any: RuleCondition[] }
   | { kind: 'NOT'; cond: RuleCondition };
@@ -13,7 +25,28 @@ export type RuleAction =
   | { kind: 'ADD_TAG'; value: string }
   | { kind: 'SUGGEST'; value: string }
   | { kind: 'ADD_REMINDER'; value: string }
-  | { kind: 'SET_FIELD'; field: string; value: unknown };
+  | { kind: 'SET_FIELD'; field: string; value: unknown }
+  | {
+      kind: 'CREATE_TASK';
+      title: string;
+      description?: string;
+      priority?: 'LOW' | 'MEDIUM' | 'HIGH';
+      tags?: string[];
+      /** Due date of the follow-up task, relative to the execution time. */
+      due_in_days?: number;
+      assignee_user_id?: string;
+      /** Assigns the first active member with this org role (`manager`...) when the member list is available. */
+      assignee_role?: string;
+      /** Documents linked to the created task (templates, procedures...). */
+      document_ids?: string[];
+    }
+  | { kind: 'LINK_DOCUMENT'; document_id: string }
+  /** Blocks the DONE status of the task until a matching media is attached. */
+  | { kind: 'REQUIRE_PROOF'; mime_prefix?: string; message?: string }
+  | { kind: 'NOTIFY_ROLE'; role: string; message: string };
+
+/** Actions with a side effect, executed once per (rule, action, entity). */
+export type RuleEffectActionKind = 'CREATE_TASK' | 'LINK_DOCUMENT' | 'REQUIRE_PROOF' | 'NOTIFY_ROLE';
 
 export type RuleSource = 'DEFAULT' | 'LOCAL' | 'REMOTE';
 
@@ -48,9 +81,15 @@ export type RulesConfig = {
 export type RulesEvaluateContext = {
   org_id?: string;
   entity_id?: string;
+  /** Reference time for DATE_RELATIVE (ISO), defaults to the evaluation time. */
+  now?: string;
+  /** Pre-computed counts keyed by relation (`MEDIA`, `MEDIA:image/`...); missing ones are read from SQLite. */
+  linked_counts?: Partial<Record<string, number>>;
   [key: string]: unknown;
 };
 
+export type RulesEvaluationTrigger = 'EVENT' | 'SCHEDULED';
+
 export type RulesMatch = {
   rule_id: string;
   rule_name: string;
@@ -65,5 +104,96 @@ export type RulesEvaluationResult = {
   actions: RuleAction[];
   duration_ms: number;
   journal_id?: string;
+  /** Side effects executed during this evaluation (already executed ones are not repeated). */
+  effects?: RuleEffect[];
+};
+
+export type RuleEffect = {
+  id: string;
+  org_id: string;
+  rule_id: string;
+  entity: RuleEntity;
+  entity_id: string;
+  action_kind: RuleEffectActionKind;
+  action_key: string;
+  action: RuleAction;
+  /** Created task id, linked document id, notification id... */
+  result_id?: string;
+  created_at: string;
+};
+
+export type RuleProofRequirement = {
+  effect_id: string;
+  rule_id: string;
+  entity: RuleEntity;
+  entity_id: string;
+  mime_prefix?: string;
+  message: string;
+  satisfied: boolean;
+};
+
+export type RuleNotification = {
+  id: string;
+  org_id: string;
+  role: string;
+  message: string;
+  rule_id: string;
+  entity: RuleEntity;
+  entity_id: string;
+  created_at: string;
+  read_at?: string;
+};
+
+export type RuleNotificationFilters = {
+  role?: string;
+  unread_only?: boolean;
+  limit?: number;
+};
+
+export type RulesScheduledRunResult = {
+  org_id: string;
+  started_at: string;
+  evaluated: number;
+  matched: number;
+  journaled: number;
+  duration_ms: number;
+};
+
+export type RulesDryRunItem = {
+  entity_id?: string;
+  label?: string;
+  matched: boolean;
+  actions: RuleAction[];
+};
+
+/** Simulation of a (possibly unsaved) rule: no journal entry, no side effect. */
+export type RulesDryRunResult = {
+  rule_id: string;
+  evaluated: number;
+  matched: number;
+  items: RulesDryRunItem[];
+  duration_ms: number;
+};
+
+export type RulesImportResult = {
+  imported: number;
+  rule_ids: string[];
+};
+
+export type RulesExportFile = {
+  path: string;
+  rule_count: number;
+};
+
+export type RulesEvaluateOptions = {
+  /**
+   * Match only: the side effects are left to `rules.executeEffects`, once the caller has saved the entity
+   * (a rejected or failed write must not leave follow-up tasks, links or notifications behind).
+   */
+  defer_effects?: boolean;
+};
+
+export type RulesSchedulerOptions = {
+  interval_ms?: number;
 };
 
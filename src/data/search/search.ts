@@ -13,24 +13,39 @@ import {
 
 const DB_NAME = 'conformeo.db';
 
+// `search_entries` holds the rows, `search_index` is the FTS5 index over them (external content).
+const SEARCH_ENTRIES_TABLE = 'search_entries';
 const SEARCH_INDEX_TABLE = 'search_index';
 const TASKS_TABLE = 'tasks';
 const DOCUMENTS_TABLE = 'documents';
 const MEDIA_TABLE = 'media_assets';
 const EXPORTS_TABLE = 'export_jobs';
+const DOCUMENT_PAGES_TABLE = 'document_version_pages';
+
+// Every trigger owned by the search module (entries -> FTS, business tables -> entries).
+const TRIGGER_PREFIX = 'trg_search_';
 
 const DEFAULT_LIMIT = 40;
 const MAX_LIMIT = 200;
 const DEFAULT_SUGGESTIONS_LIMIT = 8;
 const MAX_SUGGESTIONS_LIMIT = 20;
 
+const MAX_QUERY_CLAUSES = 8;
+const SNIPPET_TOKENS = 24;
+
+// bm25 column weights: title, body, tags.
+const BM25_WEIGHTS = '10.0, 1.0, 5.0';
+
+const HIGHLIGHT_OPEN = '[[';
+const HIGHLIGHT_CLOSE = ']]';
+
 const ALLOWED_ENTITIES: SearchEntity[] = ['TASK', 'DOCUMENT', 'MEDIA', 'EXPORT'];
 
 const RESULT_GROUP_ORDER: SearchEntity[] = ['TASK', 'DOCUMENT', 'MEDIA', 'EXPORT'];
 
 type CountRow = { count: number };
 
-type SearchIndexRow = {
+type SearchHitRow = {
   id: string;
   org_id: string;
   entity: SearchEntity;
@@ -40,10 +55,11 @@ type SearchIndexRow = {
   body: string;
   tags_json: string;
   updated_at: string;
-  title_norm: string;
-  body_norm: string;
-  tags_norm: string;
+  version_id: string | null;
+  page_number: number | null;
   score: number;
+  title_highlight: string | null;
+  body_highlight: string | null;
 };
 
 type SearchEntry = {
@@ -58,6 +74,29 @@ type SearchEntry = {
   updated_at: string;
 };
 
+/**
+ * Describes how a business table feeds the index.
+ * `values(ref)` returns the SQL expressions for ENTRY_COLUMNS, `ref` being `NEW.`/`OLD.` in
+ * triggers or `` in a plain SELECT. `live(ref)` adds a condition on top of `deleted_at`, and
+ * `removeWhere(ref)` widens what is purged when the row goes away (default: its own entry).
+ */
+type EntrySource = {
+  key: string;
+  table: string;
+  entity: SearchEntity;
+  idPrefix: string;
+  softDelete: boolean;
+  values: (ref: string) => string;
+  live?: (ref: string) => string;
+  removeWhere?: (ref: string) => string;
+};
+
+type MatchClause = {
+  expression: string;
+  negated: boolean;
+  joinWithOr: boolean;
+};
+
 type TaskRow = {
   id: string;
   org_id: string;
@@ -114,6 +153,127 @@ type SuggestRow = {
   updated_at: string;
 };
 
+const ENTRY_COLUMNS =
+  'id, org_id, entity, entity_id, project_id, title, body, tags_json, updated_at, version_id, page_number';
+
+const ENTRY_SOURCES: EntrySource[] = [
+  {
+    key: 'tasks',
+    table: TASKS_TABLE,
+    entity: 'TASK',
+    idPrefix: 'TASK',
+    softDelete: true,
+    values: (r) => `
+      'TASK:' || ${r}id,
+      ${r}org_id,
+      'TASK',
+      ${r}id,
+      ${r}project_id,
+      COALESCE(${r}title, ''),
+      TRIM(COALESCE(${r}description, '') || ' ' || COALESCE(${r}status, '') || ' ' || COALESCE(${r}priority, '')),
+      COALESCE(${r}tags_json, '[]'),
+      COALESCE(${r}updated_at, ${r}created_at, datetime('now')),
+      NULL,
+      NULL
+    `
+  },
+  {
+    key: 'documents',
+    table: DOCUMENTS_TABLE,
+    entity: 'DOCUMENT',
+    idPrefix: 'DOCUMENT',
+    softDelete: true,
+    values: (r) => `
+      'DOCUMENT:' || ${r}id,
+      ${r}org_id,
+      'DOCUMENT',
+      ${r}id,
+      ${r}project_id,
+      COALESCE(${r}title, ''),
+      TRIM(COALESCE(${r}description, '') || ' ' || COALESCE(${r}doc_type, '') || ' ' || COALESCE(${r}status, '')),
+      COALESCE(${r}tags_json, '[]'),
+      COALESCE(${r}updated_at, ${r}created_at, datetime('now')),
+      NULL,
+      NULL
+    `,
+    // Pages share the document entity_id: a deleted document takes its pages out of the index.
+    removeWhere: (r) => `entity = 'DOCUMENT' AND entity_id = ${r}id`
+  },
+  {
+    key: 'media',
+    table: MEDIA_TABLE,
+    entity: 'MEDIA',
+    idPrefix: 'MEDIA',
+    softDelete: false,
+    values: (r) => `
+      'MEDIA:' || ${r}id,
+      ${r}org_id,
+      'MEDIA',
+      ${r}id,
+      ${r}project_id,
+      COALESCE(NULLIF(TRIM(${r}tag), ''), 'Preuve ' || substr(${r}id, 1, 8)),
+      TRIM(COALESCE(${r}mime, '') || ' ' || COALESCE(${r}upload_status, '') || ' ' || COALESCE(${r}task_id, '')),
+      CASE WHEN ${r}tag IS NULL OR LENGTH(TRIM(${r}tag)) = 0 THEN '[]' ELSE json_array(LOWER(TRIM(${r}tag))) END,
+      COALESCE(${r}created_at, datetime('now')),
+      NULL,
+      NULL
+    `
+  },
+  {
+    key: 'exports',
+    table: EXPORTS_TABLE,
+    entity: 'EXPORT',
+    idPrefix: 'EXPORT',
+    softDelete: false,
+    values: (r) => `
+      'EXPORT:' || ${r}id,
+      ${r}org_id,
+      'EXPORT',
+      ${r}id,
+      ${r}project_id,
+      CASE
+        WHEN ${r}type = 'CONTROL_PACK' THEN 'Pack controle'
+        WHEN ${r}type = 'DOE_ZIP' THEN 'Dossier DOE'
+        ELSE 'Rapport chantier'
+      END,
+      TRIM(COALESCE(${r}type, '') || ' ' || COALESCE(${r}status, '') || ' ' || COALESCE(${r}last_error, '')),
+      '[]',
+      COALESCE(${r}finished_at, ${r}created_at, datetime('now')),
+      NULL,
+      NULL
+    `
+  },
+  {
+    // Text extracted from PDF versions: one entry per page, attached to the parent document.
+    // The title stays empty so that a document title does not outrank its own pages.
+    key: 'document_pages',
+    table: DOCUMENT_PAGES_TABLE,
+    entity: 'DOCUMENT',
+    idPrefix: 'DOCUMENT_PAGE',
+    softDelete: false,
+    values: (r) => `
+      'DOCUMENT_PAGE:' || ${r}id,
+      ${r}org_id,
+      'DOCUMENT',
+      ${r}document_id,
+      ${r}project_id,
+      '',
+      COALESCE(${r}text, ''),
+      '[]',
+      COALESCE(${r}created_at, datetime('now')),
+      ${r}version_id,
+      ${r}page_number
+    `,
+    live: (r) => `
+      EXISTS (
+        SELECT 1 FROM ${DOCUMENTS_TABLE} d
+        WHERE d.id = ${r}document_id
+          AND d.deleted_at IS NULL
+      )
+    `
+  }
+];
+
 let dbPromise: Promise<SQLite.SQLiteDatabase> | null = null;
 let setupPromise: Promise<void> | null = null;
 let bootstrapPromise: Promise<void> | null = null;
@@ -134,6 +294,13 @@ function normalizeLower(value: string | null | undefined) {
   return normalizeText(value).toLowerCase();
 }
 
+/** Lowercase + accent folding, aligned with the `unicode61 remove_diacritics 2` tokenizer. */
+function foldText(value: string | null | undefined) {
+  return normalizeLower(value)
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '');
+}
+
 function toOptional(value: string | null | undefined) {
   const cleaned = normalizeText(value);
   return cleaned.length > 0 ? cleaned : undefined;
@@ -162,62 +329,85 @@ function clamp(value: number, min: number, max: number) {
   return Math.max(min, Math.min(max, value));
 }
 
-function tokenizeQuery(q: string) {
-  return unique(
-    normalizeLower(q)
-      .split(/\s+/)
-      .filter((token) => token.length >= 2)
-      .slice(0, 8)
-  );
+function hasIndexableChars(value: string) {
+  return /[0-9a-z]/.test(foldText(value));
 }
 
-function escapeLike(input: string) {
-  return input.replace(/\\/g, '\\\\').replace(/%/g, '\\%').replace(/_/g, '\\_');
+function toFtsString(value: string, prefix: boolean) {
+  const quoted = `"${value.replace(/"/g, ' ').replace(/\s+/g, ' ').trim()}"`;
+  return prefix ? `${quoted}*` : quoted;
 }
 
-function escapeRegExp(input: string) {
-  return input.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-}
+/**
+ * Translates the user query into an FTS5 MATCH expression.
+ * - `mot` matches words starting with `mot` (saisie progressive)
+ * - `"plusieurs mots"` matches the exact phrase
+ * - `OR`/`OU` between terms, `-mot` or `NOT`/`SAUF mot` to exclude, `AND`/`ET` implicit
+ * Every term is quoted, so user input can never inject FTS5 syntax.
+ */
+function buildMatchExpression(q: string) {
+  const clauses: MatchClause[] = [];
+  const pattern = /(-?)"([^"]*)"?|(\S+)/g;
+
+  let pendingOr = false;
+  let pendingNot = false;
+
+  for (let match = pattern.exec(q); match; match = pattern.exec(q)) {
+    if (clauses.length >= MAX_QUERY_CLAUSES) {
+      break;
+    }
 
-function applyHighlights(input: string, tokens: string[]) {
-  let output = input;
+    const [, phraseNegation, phrase, rawWord] = match;
 
-  const orderedTokens = [...tokens].sort((left, right) => right.length - left.length);
-  for (const token of orderedTokens) {
-    const regex = new RegExp(escapeRegExp(token), 'gi');
-    output = output.replace(regex, (match) => `[[${match}]]`);
-  }
+    if (rawWord !== undefined) {
+      const operator = rawWord.toUpperCase();
+      if (operator === 'OR' || operator === 'OU') {
+        pendingOr = clauses.length > 0;
+        continue;
+      }
+      if (operator === 'AND' || operator === 'ET') {
+        continue;
+      }
+      if (operator === 'NOT' || operator === 'SAUF') {
+        pendingNot = true;
+        continue;
+      }
+    }
 
-  return output;
-}
+    const negated = pendingNot || phraseNegation === '-' || (rawWord?.startsWith('-') ?? false);
+    const value = phrase ?? rawWord.replace(/^-+/, '').replace(/\*+$/, '');
 
-function snippet(input: string, tokens: string[], maxLength = 180) {
-  const text = normalizeText(input);
-  if (text.length <= maxLength) {
-    return text;
-  }
+    if (!hasIndexableChars(value) || (rawWord !== undefined && foldText(value).length < 2)) {
+      pendingNot = false;
+      continue;
+    }
 
-  const lowered = text.toLowerCase();
-  let firstMatch = -1;
+    clauses.push({
+      expression: toFtsString(value, phrase === undefined),
+      negated,
+      joinWithOr: pendingOr && !negated
+    });
 
-  for (const token of tokens) {
-    const index = lowered.indexOf(token.toLowerCase());
-    if (index >= 0 && (firstMatch === -1 || index < firstMatch)) {
-      firstMatch = index;
-    }
+    pendingOr = false;
+    pendingNot = false;
   }
 
-  if (firstMatch === -1) {
-    return `${text.slice(0, maxLength - 1)}…`;
+  const positives = clauses.filter((clause) => !clause.negated);
+  if (positives.length === 0) {
+    return null;
   }
 
-  const start = Math.max(0, firstMatch - Math.floor(maxLength / 3));
-  const end = Math.min(text.length, start + maxLength);
+  let expression = positives[0].expression;
+  for (const clause of positives.slice(1)) {
+    expression = `${expression} ${clause.joinWithOr ? 'OR' : 'AND'} ${clause.expression}`;
+  }
 
-  const prefix = start > 0 ? '…' : '';
-  const suffix = end < text.length ? '…' : '';
+  const negatives = clauses.filter((clause) => clause.negated).map((clause) => clause.expression);
+  if (negatives.length > 0) {
+    expression = `(${expression}) NOT (${negatives.join(' OR ')})`;
+  }
 
-  return `${prefix}${text.slice(start, end)}${suffix}`;
+  return expression;
 }
 
 function buildSearchId(entity: SearchEntity, entityId: string) {
@@ -285,16 +475,67 @@ async function tableExists(db: SQLite.SQLiteDatabase, tableName: string) {
   return (row?.count ?? 0) > 0;
 }
 
+async function hasColumn(db: SQLite.SQLiteDatabase, tableName: string, columnName: string) {
+  const columns = await db.getAllAsync<{ name: string }>(`PRAGMA table_info(${tableName})`);
+  return columns.some((column) => column.name === columnName);
+}
+
+async function isOutdatedIndex(db: SQLite.SQLiteDatabase) {
+  const row = await db.getFirstAsync<{ sql: string | null }>(
+    `
+      SELECT sql
+      FROM sqlite_master
+      WHERE type = 'table'
+        AND name = ?
+      LIMIT 1
+    `,
+    SEARCH_INDEX_TABLE
+  );
+
+  // v1: plain `search_index` table.
+  if (row?.sql && !/CREATE\s+VIRTUAL\s+TABLE/i.test(row.sql)) {
+    return true;
+  }
+
+  // v2: FTS5 entries without document pages (one entry per entity, no version/page columns).
+  return (await tableExists(db, SEARCH_ENTRIES_TABLE)) && !(await hasColumn(db, SEARCH_ENTRIES_TABLE, 'page_number'));
+}
+
+async function dropOutdatedIndex(db: SQLite.SQLiteDatabase) {
+  if (!(await isOutdatedIndex(db))) {
+    return;
+  }
+
+  const triggers = await db.getAllAsync<{ name: string }>(
+    `
+      SELECT name
+      FROM sqlite_master
+      WHERE type = 'trigger'
+        AND name LIKE ?
+    `,
+    `${TRIGGER_PREFIX}%`
+  );
+
+  // The index is derived data: drop tables and triggers, bootstrap recreates and rebuilds everything.
+  await db.execAsync(`
+    ${triggers.map((trigger) => `DROP TRIGGER IF EXISTS ${trigger.name};`).join('\n')}
+    DROP TABLE IF EXISTS ${SEARCH_INDEX_TABLE};
+    DROP TABLE IF EXISTS ${SEARCH_ENTRIES_TABLE};
+  `);
+}
+
 async function ensureSetup() {
   if (!setupPromise) {
     setupPromise = (async () => {
       const db = await getDb();
 
-      await db.execAsync(`
-        PRAGMA journal_mode = WAL;
+      await db.execAsync('PRAGMA journal_mode = WAL;');
+      await dropOutdatedIndex(db);
 
-        CREATE TABLE IF NOT EXISTS ${SEARCH_INDEX_TABLE} (
-          id TEXT PRIMARY KEY NOT NULL,
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS ${SEARCH_ENTRIES_TABLE} (
+          doc_id INTEGER PRIMARY KEY,
+          id TEXT NOT NULL UNIQUE,
           org_id TEXT NOT NULL,
           entity TEXT NOT NULL,
           entity_id TEXT NOT NULL,
@@ -303,28 +544,51 @@ async function ensureSetup() {
           body TEXT NOT NULL,
           tags_json TEXT NOT NULL,
           updated_at TEXT NOT NULL,
-          title_norm TEXT NOT NULL,
-          body_norm TEXT NOT NULL,
-          tags_norm TEXT NOT NULL
+          version_id TEXT,
+          page_number INTEGER
         );
 
-        CREATE UNIQUE INDEX IF NOT EXISTS idx_search_index_entity_id
-          ON ${SEARCH_INDEX_TABLE}(entity, entity_id);
-
-        CREATE INDEX IF NOT EXISTS idx_search_index_org_entity_updated
-          ON ${SEARCH_INDEX_TABLE}(org_id, entity, updated_at DESC);
+        CREATE INDEX IF NOT EXISTS idx_search_entries_entity
+          ON ${SEARCH_ENTRIES_TABLE}(entity, entity_id);
 
-        CREATE INDEX IF NOT EXISTS idx_search_index_org_project_updated
-          ON ${SEARCH_INDEX_TABLE}(org_id, project_id, updated_at DESC);
+        CREATE INDEX IF NOT EXISTS idx_search_entries_org_entity_updated
+          ON ${SEARCH_ENTRIES_TABLE}(org_id, entity, updated_at DESC);
 
-        CREATE INDEX IF NOT EXISTS idx_search_index_org_title_norm
-          ON ${SEARCH_INDEX_TABLE}(org_id, title_norm);
+        CREATE INDEX IF NOT EXISTS idx_search_entries_org_project_updated
+          ON ${SEARCH_ENTRIES_TABLE}(org_id, project_id, updated_at DESC);
 
-        CREATE INDEX IF NOT EXISTS idx_search_index_org_body_norm
-          ON ${SEARCH_INDEX_TABLE}(org_id, body_norm);
+        CREATE VIRTUAL TABLE IF NOT EXISTS ${SEARCH_INDEX_TABLE} USING fts5(
+          title,
+          body,
+          tags_json,
+          content='${SEARCH_ENTRIES_TABLE}',
+          content_rowid='doc_id',
+          tokenize='unicode61 remove_diacritics 2',
+          prefix='2 3'
+        );
 
-        CREATE INDEX IF NOT EXISTS idx_search_index_org_tags_norm
-          ON ${SEARCH_INDEX_TABLE}(org_id, tags_norm);
+        CREATE TRIGGER IF NOT EXISTS trg_search_entries_insert
+        AFTER INSERT ON ${SEARCH_ENTRIES_TABLE}
+        BEGIN
+          INSERT INTO ${SEARCH_INDEX_TABLE} (rowid, title, body, tags_json)
+          VALUES (NEW.doc_id, NEW.title, NEW.body, NEW.tags_json);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS trg_search_entries_delete
+        AFTER DELETE ON ${SEARCH_ENTRIES_TABLE}
+        BEGIN
+          INSERT INTO ${SEARCH_INDEX_TABLE} (${SEARCH_INDEX_TABLE}, rowid, title, body, tags_json)
+          VALUES ('delete', OLD.doc_id, OLD.title, OLD.body, OLD.tags_json);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS trg_search_entries_update
+        AFTER UPDATE ON ${SEARCH_ENTRIES_TABLE}
+        BEGIN
+          INSERT INTO ${SEARCH_INDEX_TABLE} (${SEARCH_INDEX_TABLE}, rowid, title, body, tags_json)
+          VALUES ('delete', OLD.doc_id, OLD.title, OLD.body, OLD.tags_json);
+          INSERT INTO ${SEARCH_INDEX_TABLE} (rowid, title, body, tags_json)
+          VALUES (NEW.doc_id, NEW.title, NEW.body, NEW.tags_json);
+        END;
       `);
     })();
   }
@@ -332,344 +596,132 @@ async function ensureSetup() {
   return setupPromise;
 }
 
-async function installTaskTriggers(db: SQLite.SQLiteDatabase) {
-  if (!(await tableExists(db, TASKS_TABLE))) {
-    return;
-  }
+function entryIdExpression(source: EntrySource, ref: string) {
+  return `'${source.idPrefix}:' || ${ref}id`;
+}
 
-  await db.execAsync(`
-    CREATE TRIGGER IF NOT EXISTS trg_search_tasks_insert
-    AFTER INSERT ON ${TASKS_TABLE}
-    WHEN NEW.deleted_at IS NULL
-    BEGIN
-      INSERT OR REPLACE INTO ${SEARCH_INDEX_TABLE}
-      (
-        id, org_id, entity, entity_id, project_id,
-        title, body, tags_json, updated_at,
-        title_norm, body_norm, tags_norm
-      )
-      VALUES
-      (
-        'TASK:' || NEW.id,
-        NEW.org_id,
-        'TASK',
-        NEW.id,
-        NEW.project_id,
-        COALESCE(NEW.title, ''),
-        TRIM(COALESCE(NEW.description, '') || ' ' || COALESCE(NEW.status, '') || ' ' || COALESCE(NEW.priority, '')),
-        COALESCE(NEW.tags_json, '[]'),
-        COALESCE(NEW.updated_at, NEW.created_at, datetime('now')),
-        LOWER(COALESCE(NEW.title, '')),
-        LOWER(TRIM(COALESCE(NEW.description, '') || ' ' || COALESCE(NEW.status, '') || ' ' || COALESCE(NEW.priority, ''))),
-        LOWER(COALESCE(NEW.tags_json, '[]'))
-      );
-    END;
+function liveCondition(source: EntrySource, ref: string) {
+  const parts: string[] = [];
+  if (source.softDelete) {
+    parts.push(`${ref}deleted_at IS NULL`);
+  }
+  if (source.live) {
+    parts.push(source.live(ref));
+  }
 
-    CREATE TRIGGER IF NOT EXISTS trg_search_tasks_update_upsert
-    AFTER UPDATE ON ${TASKS_TABLE}
-    WHEN NEW.deleted_at IS NULL
-    BEGIN
-      INSERT OR REPLACE INTO ${SEARCH_INDEX_TABLE}
-      (
-        id, org_id, entity, entity_id, project_id,
-        title, body, tags_json, updated_at,
-        title_norm, body_norm, tags_norm
-      )
-      VALUES
-      (
-        'TASK:' || NEW.id,
-        NEW.org_id,
-        'TASK',
-        NEW.id,
-        NEW.project_id,
-        COALESCE(NEW.title, ''),
-        TRIM(COALESCE(NEW.description, '') || ' ' || COALESCE(NEW.status, '') || ' ' || COALESCE(NEW.priority, '')),
-        COALESCE(NEW.tags_json, '[]'),
-        COALESCE(NEW.updated_at, NEW.created_at, datetime('now')),
-        LOWER(COALESCE(NEW.title, '')),
-        LOWER(TRIM(COALESCE(NEW.description, '') || ' ' || COALESCE(NEW.status, '') || ' ' || COALESCE(NEW.priority, ''))),
-        LOWER(COALESCE(NEW.tags_json, '[]'))
-      );
-    END;
+  return parts.length > 0 ? parts.join(' AND ') : null;
+}
 
-    CREATE TRIGGER IF NOT EXISTS trg_search_tasks_update_delete
-    AFTER UPDATE ON ${TASKS_TABLE}
-    WHEN NEW.deleted_at IS NOT NULL
-    BEGIN
-      DELETE FROM ${SEARCH_INDEX_TABLE} WHERE id = 'TASK:' || NEW.id;
-    END;
+function entryRemoveCondition(source: EntrySource, ref: string) {
+  return source.removeWhere ? source.removeWhere(ref) : `id = ${entryIdExpression(source, ref)}`;
+}
 
-    CREATE TRIGGER IF NOT EXISTS trg_search_tasks_delete
-    AFTER DELETE ON ${TASKS_TABLE}
-    BEGIN
-      DELETE FROM ${SEARCH_INDEX_TABLE} WHERE id = 'TASK:' || OLD.id;
-    END;
-  `);
+/**
+ * Entries are always replaced with DELETE + INSERT: `INSERT OR REPLACE` would remove the old row
+ * without firing the delete trigger, leaving a stale FTS entry behind.
+ */
+function entryUpsertStatements(source: EntrySource) {
+  return `
+      DELETE FROM ${SEARCH_ENTRIES_TABLE} WHERE id = ${entryIdExpression(source, 'NEW.')};
+      INSERT INTO ${SEARCH_ENTRIES_TABLE} (${ENTRY_COLUMNS})
+      VALUES (${source.values('NEW.')});
+  `;
 }
 
-async function installDocumentTriggers(db: SQLite.SQLiteDatabase) {
-  if (!(await tableExists(db, DOCUMENTS_TABLE))) {
+async function installSourceTriggers(db: SQLite.SQLiteDatabase, source: EntrySource) {
+  if (!(await tableExists(db, source.table))) {
     return;
   }
 
-  await db.execAsync(`
-    CREATE TRIGGER IF NOT EXISTS trg_search_documents_insert
-    AFTER INSERT ON ${DOCUMENTS_TABLE}
-    WHEN NEW.deleted_at IS NULL
-    BEGIN
-      INSERT OR REPLACE INTO ${SEARCH_INDEX_TABLE}
-      (
-        id, org_id, entity, entity_id, project_id,
-        title, body, tags_json, updated_at,
-        title_norm, body_norm, tags_norm
-      )
-      VALUES
-      (
-        'DOCUMENT:' || NEW.id,
-        NEW.org_id,
-        'DOCUMENT',
-        NEW.id,
-        NEW.project_id,
-        COALESCE(NEW.title, ''),
-        TRIM(COALESCE(NEW.description, '') || ' ' || COALESCE(NEW.doc_type, '') || ' ' || COALESCE(NEW.status, '')),
-        COALESCE(NEW.tags_json, '[]'),
-        COALESCE(NEW.updated_at, NEW.created_at, datetime('now')),
-        LOWER(COALESCE(NEW.title, '')),
-        LOWER(TRIM(COALESCE(NEW.description, '') || ' ' || COALESCE(NEW.doc_type, '') || ' ' || COALESCE(NEW.status, ''))),
-        LOWER(COALESCE(NEW.tags_json, '[]'))
-      );
-    END;
+  const installed = await db.getFirstAsync<{ sql: string | null }>(
+    `
+      SELECT sql
+      FROM sqlite_master
+      WHERE type = 'trigger'
+        AND name = ?
+    `,
+    `${TRIGGER_PREFIX}${source.key}_insert`
+  );
 
-    CREATE TRIGGER IF NOT EXISTS trg_search_documents_update_upsert
-    AFTER UPDATE ON ${DOCUMENTS_TABLE}
-    WHEN NEW.deleted_at IS NULL
-    BEGIN
-      INSERT OR REPLACE INTO ${SEARCH_INDEX_TABLE}
-      (
-        id, org_id, entity, entity_id, project_id,
-        title, body, tags_json, updated_at,
-        title_norm, body_norm, tags_norm
-      )
-      VALUES
-      (
-        'DOCUMENT:' || NEW.id,
-        NEW.org_id,
-        'DOCUMENT',
-        NEW.id,
-        NEW.project_id,
-        COALESCE(NEW.title, ''),
-        TRIM(COALESCE(NEW.description, '') || ' ' || COALESCE(NEW.doc_type, '') || ' ' || COALESCE(NEW.status, '')),
-        COALESCE(NEW.tags_json, '[]'),
-        COALESCE(NEW.updated_at, NEW.created_at, datetime('now')),
-        LOWER(COALESCE(NEW.title, '')),
-        LOWER(TRIM(COALESCE(NEW.description, '') || ' ' || COALESCE(NEW.doc_type, '') || ' ' || COALESCE(NEW.status, ''))),
-        LOWER(COALESCE(NEW.tags_json, '[]'))
-      );
-    END;
+  // Triggers written for an older `values` expression are replaced and their entries rebuilt.
+  const current = Boolean(installed?.sql?.includes(source.values('NEW.').trim()));
+  if (installed && !current) {
+    await db.execAsync(
+      ['insert', 'update_upsert', 'update_delete', 'delete']
+        .map((suffix) => `DROP TRIGGER IF EXISTS ${TRIGGER_PREFIX}${source.key}_${suffix};`)
+        .join('\n')
+    );
+  }
 
-    CREATE TRIGGER IF NOT EXISTS trg_search_documents_update_delete
-    AFTER UPDATE ON ${DOCUMENTS_TABLE}
-    WHEN NEW.deleted_at IS NOT NULL
-    BEGIN
-      DELETE FROM ${SEARCH_INDEX_TABLE} WHERE id = 'DOCUMENT:' || NEW.id;
-    END;
+  const live = liveCondition(source, 'NEW.');
+  const whenLive = live ? `WHEN ${live}` : '';
 
-    CREATE TRIGGER IF NOT EXISTS trg_search_documents_delete
-    AFTER DELETE ON ${DOCUMENTS_TABLE}
+  await db.execAsync(`
+    CREATE TRIGGER IF NOT EXISTS ${TRIGGER_PREFIX}${source.key}_insert
+    AFTER INSERT ON ${source.table}
+    ${whenLive}
     BEGIN
-      DELETE FROM ${SEARCH_INDEX_TABLE} WHERE id = 'DOCUMENT:' || OLD.id;
+      ${entryUpsertStatements(source)}
     END;
-  `);
-}
-
-async function installMediaTriggers(db: SQLite.SQLiteDatabase) {
-  if (!(await tableExists(db, MEDIA_TABLE))) {
-    return;
-  }
 
-  await db.execAsync(`
-    CREATE TRIGGER IF NOT EXISTS trg_search_media_insert
-    AFTER INSERT ON ${MEDIA_TABLE}
+    CREATE TRIGGER IF NOT EXISTS ${TRIGGER_PREFIX}${source.key}_update_upsert
+    AFTER UPDATE ON ${source.table}
+    ${whenLive}
     BEGIN
-      INSERT OR REPLACE INTO ${SEARCH_INDEX_TABLE}
-      (
-        id, org_id, entity, entity_id, project_id,
-        title, body, tags_json, updated_at,
-        title_norm, body_norm, tags_norm
-      )
-      VALUES
-      (
-        'MEDIA:' || NEW.id,
-        NEW.org_id,
-        'MEDIA',
-        NEW.id,
-        NEW.project_id,
-        COALESCE(NULLIF(TRIM(NEW.tag), ''), 'Preuve ' || NEW.id),
-        TRIM(COALESCE(NEW.mime, '') || ' ' || COALESCE(NEW.upload_status, '') || ' ' || COALESCE(NEW.task_id, '')),
-        CASE WHEN NEW.tag IS NULL OR LENGTH(TRIM(NEW.tag)) = 0 THEN '[]' ELSE json_array(LOWER(TRIM(NEW.tag))) END,
-        COALESCE(NEW.created_at, datetime('now')),
-        LOWER(COALESCE(NULLIF(TRIM(NEW.tag), ''), 'Preuve ' || NEW.id)),
-        LOWER(TRIM(COALESCE(NEW.mime, '') || ' ' || COALESCE(NEW.upload_status, '') || ' ' || COALESCE(NEW.task_id, ''))),
-        LOWER(CASE WHEN NEW.tag IS NULL OR LENGTH(TRIM(NEW.tag)) = 0 THEN '[]' ELSE json_array(LOWER(TRIM(NEW.tag))) END)
-      );
+      ${entryUpsertStatements(source)}
     END;
 
-    CREATE TRIGGER IF NOT EXISTS trg_search_media_update
-    AFTER UPDATE ON ${MEDIA_TABLE}
+    ${
+      live
+        ? `
+    CREATE TRIGGER IF NOT EXISTS ${TRIGGER_PREFIX}${source.key}_update_delete
+    AFTER UPDATE ON ${source.table}
+    WHEN NOT (${live})
     BEGIN
-      INSERT OR REPLACE INTO ${SEARCH_INDEX_TABLE}
-      (
-        id, org_id, entity, entity_id, project_id,
-        title, body, tags_json, updated_at,
-        title_norm, body_norm, tags_norm
-      )
-      VALUES
-      (
-        'MEDIA:' || NEW.id,
-        NEW.org_id,
-        'MEDIA',
-        NEW.id,
-        NEW.project_id,
-        COALESCE(NULLIF(TRIM(NEW.tag), ''), 'Preuve ' || NEW.id),
-        TRIM(COALESCE(NEW.mime, '') || ' ' || COALESCE(NEW.upload_status, '') || ' ' || COALESCE(NEW.task_id, '')),
-        CASE WHEN NEW.tag IS NULL OR LENGTH(TRIM(NEW.tag)) = 0 THEN '[]' ELSE json_array(LOWER(TRIM(NEW.tag))) END,
-        COALESCE(NEW.created_at, datetime('now')),
-        LOWER(COALESCE(NULLIF(TRIM(NEW.tag), ''), 'Preuve ' || NEW.id)),
-        LOWER(TRIM(COALESCE(NEW.mime, '') || ' ' || COALESCE(NEW.upload_status, '') || ' ' || COALESCE(NEW.task_id, ''))),
-        LOWER(CASE WHEN NEW.tag IS NULL OR LENGTH(TRIM(NEW.tag)) = 0 THEN '[]' ELSE json_array(LOWER(TRIM(NEW.tag))) END)
-      );
+      DELETE FROM ${SEARCH_ENTRIES_TABLE} WHERE ${entryRemoveCondition(source, 'NEW.')};
     END;
+    `
+        : ''
+    }
 
-    CREATE TRIGGER IF NOT EXISTS trg_search_media_delete
-    AFTER DELETE ON ${MEDIA_TABLE}
+    CREATE TRIGGER IF NOT EXISTS ${TRIGGER_PREFIX}${source.key}_delete
+    AFTER DELETE ON ${source.table}
     BEGIN
-      DELETE FROM ${SEARCH_INDEX_TABLE} WHERE id = 'MEDIA:' || OLD.id;
+      DELETE FROM ${SEARCH_ENTRIES_TABLE} WHERE ${entryRemoveCondition(source, 'OLD.')};
     END;
   `);
-}
 
-async function installExportTriggers(db: SQLite.SQLiteDatabase) {
-  if (!(await tableExists(db, EXPORTS_TABLE))) {
-    return;
+  // The owning module may have created its table (and written rows) after the bootstrap.
+  if (!current) {
+    await db.runAsync(`DELETE FROM ${SEARCH_ENTRIES_TABLE} WHERE id LIKE ?`, `${source.idPrefix}:%`);
+    await insertSourceEntries(db, source);
   }
-
-  await db.execAsync(`
-    CREATE TRIGGER IF NOT EXISTS trg_search_exports_insert
-    AFTER INSERT ON ${EXPORTS_TABLE}
-    BEGIN
-      INSERT OR REPLACE INTO ${SEARCH_INDEX_TABLE}
-      (
-        id, org_id, entity, entity_id, project_id,
-        title, body, tags_json, updated_at,
-        title_norm, body_norm, tags_norm
-      )
-      VALUES
-      (
-        'EXPORT:' || NEW.id,
-        NEW.org_id,
-        'EXPORT',
-        NEW.id,
-        NEW.project_id,
-        CASE
-          WHEN NEW.type = 'CONTROL_PACK' THEN 'Pack controle'
-          WHEN NEW.type = 'DOE_ZIP' THEN 'Dossier DOE'
-          ELSE 'Rapport chantier'
-        END,
-        TRIM(COALESCE(NEW.type, '') || ' ' || COALESCE(NEW.status, '') || ' ' || COALESCE(NEW.last_error, '')),
-        '[]',
-        COALESCE(NEW.finished_at, NEW.created_at, datetime('now')),
-        LOWER(
-          CASE
-            WHEN NEW.type = 'CONTROL_PACK' THEN 'Pack controle'
-            WHEN NEW.type = 'DOE_ZIP' THEN 'Dossier DOE'
-            ELSE 'Rapport chantier'
-          END
-        ),
-        LOWER(TRIM(COALESCE(NEW.type, '') || ' ' || COALESCE(NEW.status, '') || ' ' || COALESCE(NEW.last_error, ''))),
-        '[]'
-      );
-    END;
-
-    CREATE TRIGGER IF NOT EXISTS trg_search_exports_update
-    AFTER UPDATE ON ${EXPORTS_TABLE}
-    BEGIN
-      INSERT OR REPLACE INTO ${SEARCH_INDEX_TABLE}
-      (
-        id, org_id, entity, entity_id, project_id,
-        title, body, tags_json, updated_at,
-        title_norm, body_norm, tags_norm
-      )
-      VALUES
-      (
-        'EXPORT:' || NEW.id,
-        NEW.org_id,
-        'EXPORT',
-        NEW.id,
-        NEW.project_id,
-        CASE
-          WHEN NEW.type = 'CONTROL_PACK' THEN 'Pack controle'
-          WHEN NEW.type = 'DOE_ZIP' THEN 'Dossier DOE'
-          ELSE 'Rapport chantier'
-        END,
-        TRIM(COALESCE(NEW.type, '') || ' ' || COALESCE(NEW.status, '') || ' ' || COALESCE(NEW.last_error, '')),
-        '[]',
-        COALESCE(NEW.finished_at, NEW.created_at, datetime('now')),
-        LOWER(
-          CASE
-            WHEN NEW.type = 'CONTROL_PACK' THEN 'Pack controle'
-            WHEN NEW.type = 'DOE_ZIP' THEN 'Dossier DOE'
-            ELSE 'Rapport chantier'
-          END
-        ),
-        LOWER(TRIM(COALESCE(NEW.type, '') || ' ' || COALESCE(NEW.status, '') || ' ' || COALESCE(NEW.last_error, ''))),
-        '[]'
-      );
-    END;
-
-    CREATE TRIGGER IF NOT EXISTS trg_search_exports_delete
-    AFTER DELETE ON ${EXPORTS_TABLE}
-    BEGIN
-      DELETE FROM ${SEARCH_INDEX_TABLE} WHERE id = 'EXPORT:' || OLD.id;
-    END;
-  `);
 }
 
 async function installEntityTriggers(db: SQLite.SQLiteDatabase) {
-  await Promise.all([
-    installTaskTriggers(db),
-    installDocumentTriggers(db),
-    installMediaTriggers(db),
-    installExportTriggers(db)
-  ]);
+  for (const source of ENTRY_SOURCES) {
+    await installSourceTriggers(db, source);
+  }
 }
 
 async function upsertIndexEntry(db: SQLite.SQLiteDatabase, entry: SearchEntry) {
   const tags = normalizeTags(entry.tags);
-  const title = normalizeText(entry.title);
-  const body = normalizeText(entry.body);
 
+  await db.runAsync(`DELETE FROM ${SEARCH_ENTRIES_TABLE} WHERE id = ?`, entry.id);
   await db.runAsync(
     `
-      INSERT OR REPLACE INTO ${SEARCH_INDEX_TABLE}
-      (
-        id, org_id, entity, entity_id, project_id,
-        title, body, tags_json, updated_at,
-        title_norm, body_norm, tags_norm
-      )
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      INSERT INTO ${SEARCH_ENTRIES_TABLE} (${ENTRY_COLUMNS})
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, NULL, NULL)
     `,
     entry.id,
     entry.org_id,
     entry.entity,
     entry.entity_id,
     entry.project_id,
-    title,
-    body,
+    normalizeText(entry.title),
+    normalizeText(entry.body),
     JSON.stringify(tags),
-    entry.updated_at,
-    normalizeLower(title),
-    normalizeLower(body),
-    normalizeLower(JSON.stringify(tags))
+    entry.updated_at
   );
 }
 
@@ -753,122 +805,46 @@ function mapExportRowToEntry(row: ExportRow): SearchEntry {
   };
 }
 
-async function rebuildAllInternal(db: SQLite.SQLiteDatabase) {
-  await db.runAsync(`DELETE FROM ${SEARCH_INDEX_TABLE}`);
-
-  if (await tableExists(db, TASKS_TABLE)) {
-    await db.execAsync(`
-      INSERT OR REPLACE INTO ${SEARCH_INDEX_TABLE}
-      (
-        id, org_id, entity, entity_id, project_id,
-        title, body, tags_json, updated_at,
-        title_norm, body_norm, tags_norm
-      )
-      SELECT
-        'TASK:' || id,
-        org_id,
-        'TASK',
-        id,
-        project_id,
-        COALESCE(title, ''),
-        TRIM(COALESCE(description, '') || ' ' || COALESCE(status, '') || ' ' || COALESCE(priority, '')),
-        COALESCE(tags_json, '[]'),
-        COALESCE(updated_at, created_at, datetime('now')),
-        LOWER(COALESCE(title, '')),
-        LOWER(TRIM(COALESCE(description, '') || ' ' || COALESCE(status, '') || ' ' || COALESCE(priority, ''))),
-        LOWER(COALESCE(tags_json, '[]'))
-      FROM ${TASKS_TABLE}
-      WHERE deleted_at IS NULL;
-    `);
+async function insertSourceEntries(
+  db: SQLite.SQLiteDatabase,
+  source: EntrySource,
+  filter?: { column: string; value: string }
+) {
+  if (!(await tableExists(db, source.table))) {
+    return;
   }
 
-  if (await tableExists(db, DOCUMENTS_TABLE)) {
-    await db.execAsync(`
-      INSERT OR REPLACE INTO ${SEARCH_INDEX_TABLE}
-      (
-        id, org_id, entity, entity_id, project_id,
-        title, body, tags_json, updated_at,
-        title_norm, body_norm, tags_norm
-      )
-      SELECT
-        'DOCUMENT:' || id,
-        org_id,
-        'DOCUMENT',
-        id,
-        project_id,
-        COALESCE(title, ''),
-        TRIM(COALESCE(description, '') || ' ' || COALESCE(doc_type, '') || ' ' || COALESCE(status, '')),
-        COALESCE(tags_json, '[]'),
-        COALESCE(updated_at, created_at, datetime('now')),
-        LOWER(COALESCE(title, '')),
-        LOWER(TRIM(COALESCE(description, '') || ' ' || COALESCE(doc_type, '') || ' ' || COALESCE(status, ''))),
-        LOWER(COALESCE(tags_json, '[]'))
-      FROM ${DOCUMENTS_TABLE}
-      WHERE deleted_at IS NULL;
-    `);
+  const whereParts: string[] = [];
+  const live = liveCondition(source, `${source.table}.`);
+  if (live) {
+    whereParts.push(live);
   }
-
-  if (await tableExists(db, MEDIA_TABLE)) {
-    await db.execAsync(`
-      INSERT OR REPLACE INTO ${SEARCH_INDEX_TABLE}
-      (
-        id, org_id, entity, entity_id, project_id,
-        title, body, tags_json, updated_at,
-        title_norm, body_norm, tags_norm
-      )
-      SELECT
-        'MEDIA:' || id,
-        org_id,
-        'MEDIA',
-        id,
-        project_id,
-        COALESCE(NULLIF(TRIM(tag), ''), 'Preuve ' || id),
-        TRIM(COALESCE(mime, '') || ' ' || COALESCE(upload_status, '') || ' ' || COALESCE(task_id, '')),
-        CASE WHEN tag IS NULL OR LENGTH(TRIM(tag)) = 0 THEN '[]' ELSE json_array(LOWER(TRIM(tag))) END,
-        COALESCE(created_at, datetime('now')),
-        LOWER(COALESCE(NULLIF(TRIM(tag), ''), 'Preuve ' || id)),
-        LOWER(TRIM(COALESCE(mime, '') || ' ' || COALESCE(upload_status, '') || ' ' || COALESCE(task_id, ''))),
-        LOWER(CASE WHEN tag IS NULL OR LENGTH(TRIM(tag)) = 0 THEN '[]' ELSE json_array(LOWER(TRIM(tag))) END)
-      FROM ${MEDIA_TABLE};
-    `);
+  if (filter) {
+    whereParts.push(`${source.table}.${filter.column} = ?`);
   }
 
-  if (await tableExists(db, EXPORTS_TABLE)) {
-    await db.execAsync(`
-      INSERT OR REPLACE INTO ${SEARCH_INDEX_TABLE}
-      (
-        id, org_id, entity, entity_id, project_id,
-        title, body, tags_json, updated_at,
-        title_norm, body_norm, tags_norm
-      )
-      SELECT
-        'EXPORT:' || id,
-        org_id,
-        'EXPORT',
-        id,
-        project_id,
-        CASE
-          WHEN type = 'CONTROL_PACK' THEN 'Pack controle'
-          WHEN type = 'DOE_ZIP' THEN 'Dossier DOE'
-          ELSE 'Rapport chantier'
-        END,
-        TRIM(COALESCE(type, '') || ' ' || COALESCE(status, '') || ' ' || COALESCE(last_error, '')),
-        '[]',
-        COALESCE(finished_at, created_at, datetime('now')),
-        LOWER(
-          CASE
-            WHEN type = 'CONTROL_PACK' THEN 'Pack controle'
-            WHEN type = 'DOE_ZIP' THEN 'Dossier DOE'
-            ELSE 'Rapport chantier'
-          END
-        ),
-        LOWER(TRIM(COALESCE(type, '') || ' ' || COALESCE(status, '') || ' ' || COALESCE(last_error, ''))),
-        '[]'
-      FROM ${EXPORTS_TABLE};
-    `);
+  await db.runAsync(
+    `
+      INSERT INTO ${SEARCH_ENTRIES_TABLE} (${ENTRY_COLUMNS})
+      SELECT ${source.values(`${source.table}.`)}
+      FROM ${source.table}
+      ${whereParts.length > 0 ? `WHERE ${whereParts.join(' AND ')}` : ''}
+    `,
+    ...(filter ? [filter.value] : [])
+  );
+}
+
+async function rebuildAllInternal(db: SQLite.SQLiteDatabase) {
+  await db.runAsync(`DELETE FROM ${SEARCH_ENTRIES_TABLE}`);
+
+  for (const source of ENTRY_SOURCES) {
+    await insertSourceEntries(db, source);
   }
 
-  const countRow = await db.getFirstAsync<CountRow>(`SELECT COUNT(*) AS count FROM ${SEARCH_INDEX_TABLE}`);
+  // Realign the FTS index on its content table in one pass (cheap, and heals any drift).
+  await db.execAsync(`INSERT INTO ${SEARCH_INDEX_TABLE} (${SEARCH_INDEX_TABLE}) VALUES ('rebuild');`);
+
+  const countRow = await db.getFirstAsync<CountRow>(`SELECT COUNT(*) AS count FROM ${SEARCH_ENTRIES_TABLE}`);
   return countRow?.count ?? 0;
 }
 
@@ -880,7 +856,7 @@ async function ensureBootstrapped() {
       const db = await getDb();
       await installEntityTriggers(db);
 
-      const row = await db.getFirstAsync<CountRow>(`SELECT COUNT(*) AS count FROM ${SEARCH_INDEX_TABLE}`);
+      const row = await db.getFirstAsync<CountRow>(`SELECT COUNT(*) AS count FROM ${SEARCH_ENTRIES_TABLE}`);
       const count = row?.count ?? 0;
       if (count === 0) {
         await rebuildAllInternal(db);
@@ -891,7 +867,7 @@ async function ensureBootstrapped() {
   return bootstrapPromise;
 }
 
-function mapRowToResult(row: SearchIndexRow, tokens: string[]): SearchResult {
+function mapRowToResult(row: SearchHitRow): SearchResult {
   const tags = parseJsonArray(row.tags_json);
   const title = normalizeText(row.title);
   const body = normalizeText(row.body);
@@ -907,8 +883,10 @@ function mapRowToResult(row: SearchIndexRow, tokens: string[]): SearchResult {
     tags,
     updated_at: row.updated_at,
     score: Number(row.score) || 0,
-    title_highlight: applyHighlights(title, tokens),
-    body_highlight: applyHighlights(snippet(body, tokens), tokens)
+    title_highlight: normalizeText(row.title_highlight) || title,
+    body_highlight: normalizeText(row.body_highlight),
+    version_id: toOptional(row.version_id),
+    page_number: typeof row.page_number === 'number' ? row.page_number : undefined
   };
 }
 
@@ -1012,14 +990,14 @@ export const search: SearchApi = {
     const db = await getDb();
     await installEntityTriggers(db);
 
-    const tokens = tokenizeQuery(q);
+    const matchExpression = buildMatchExpression(q);
     const limit = clamp(opts.limit ?? DEFAULT_LIMIT, 1, MAX_LIMIT);
     const offset = Math.max(0, Math.floor(opts.offset ?? 0));
 
     const resolvedScope = resolveScope(opts.scope);
     const entities = sanitizeEntities(opts.entities);
 
-    if (tokens.length === 0) {
+    if (!matchExpression) {
       return {
         q,
         limit,
@@ -1031,79 +1009,66 @@ export const search: SearchApi = {
       };
     }
 
-    const whereParts: string[] = ['org_id = ?'];
-    const whereParams: Array<string | number> = [resolvedScope.orgId];
+    const whereParts: string[] = [`${SEARCH_INDEX_TABLE} MATCH ?`, 'e.org_id = ?'];
+    const whereParams: Array<string | number> = [matchExpression, resolvedScope.orgId];
 
     if (resolvedScope.projectId) {
-      whereParts.push('project_id = ?');
+      whereParts.push('e.project_id = ?');
       whereParams.push(resolvedScope.projectId);
     }
 
     if (entities.length > 0) {
-      whereParts.push(`entity IN (${entities.map(() => '?').join(', ')})`);
+      whereParts.push(`e.entity IN (${entities.map(() => '?').join(', ')})`);
       whereParams.push(...entities);
     }
 
-    for (const token of tokens) {
-      const contains = `%${escapeLike(token)}%`;
-      whereParts.push(
-        `(title_norm LIKE ? ESCAPE '\\' OR body_norm LIKE ? ESCAPE '\\' OR tags_norm LIKE ? ESCAPE '\\')`
-      );
-      whereParams.push(contains, contains, contains);
-    }
-
-    const scoreParts: string[] = [];
-    const scoreParams: Array<string | number> = [];
-
-    for (const token of tokens) {
-      const exact = token;
-      const prefix = `${escapeLike(token)}%`;
-      const contains = `%${escapeLike(token)}%`;
-
-      scoreParts.push(
-        `(
-          CASE WHEN title_norm = ? THEN 120 ELSE 0 END +
-          CASE WHEN title_norm LIKE ? ESCAPE '\\' THEN 80 ELSE 0 END +
-          CASE WHEN title_norm LIKE ? ESCAPE '\\' THEN 50 ELSE 0 END +
-          CASE WHEN tags_norm LIKE ? ESCAPE '\\' THEN 35 ELSE 0 END +
-          CASE WHEN body_norm LIKE ? ESCAPE '\\' THEN 15 ELSE 0 END
-        )`
-      );
-
-      scoreParams.push(exact, prefix, contains, contains, contains);
-    }
-
-    const scoreExpression = scoreParts.length > 0 ? scoreParts.join(' + ') : '0';
+    // Page entries carry no title of their own: show the one of their document.
+    const hasDocuments = await tableExists(db, DOCUMENTS_TABLE);
+    const titleSelect = hasDocuments
+      ? 'CASE WHEN e.page_number IS NULL THEN e.title ELSE COALESCE(d.title, e.title) END AS title'
+      : 'e.title';
+    const documentsJoin = hasDocuments
+      ? `LEFT JOIN ${DOCUMENTS_TABLE} d ON e.page_number IS NOT NULL AND d.id = e.entity_id`
+      : '';
 
     const countRow = await db.getFirstAsync<CountRow>(
       `
         SELECT COUNT(*) AS count
         FROM ${SEARCH_INDEX_TABLE}
+        JOIN ${SEARCH_ENTRIES_TABLE} e ON e.doc_id = ${SEARCH_INDEX_TABLE}.rowid
         WHERE ${whereParts.join(' AND ')}
       `,
       ...whereParams
     );
 
-    const rows = await db.getAllAsync<SearchIndexRow>(
+    // bm25() is lower-is-better: negate it so that `score` keeps its "higher is better" meaning.
+    const rows = await db.getAllAsync<SearchHitRow>(
       `
         SELECT
-          id, org_id, entity, entity_id, project_id,
-          title, body, tags_json, updated_at,
-          title_norm, body_norm, tags_norm,
-          (${scoreExpression}) AS score
+          e.id, e.org_id, e.entity, e.entity_id, e.project_id,
+          ${titleSelect}, e.body, e.tags_json, e.updated_at,
+          e.version_id, e.page_number,
+          -bm25(${SEARCH_INDEX_TABLE}, ${BM25_WEIGHTS}) AS score,
+          highlight(${SEARCH_INDEX_TABLE}, 0, ?, ?) AS title_highlight,
+          snippet(${SEARCH_INDEX_TABLE}, 1, ?, ?, '…', ${SNIPPET_TOKENS}) AS body_highlight
         FROM ${SEARCH_INDEX_TABLE}
+        JOIN ${SEARCH_ENTRIES_TABLE} e ON e.doc_id = ${SEARCH_INDEX_TABLE}.rowid
+        ${documentsJoin}
         WHERE ${whereParts.join(' AND ')}
-        ORDER BY score DESC, updated_at DESC
+        ORDER BY score DESC, e.updated_at DESC
         LIMIT ?
         OFFSET ?
       `,
-      ...scoreParams,
+      HIGHLIGHT_OPEN,
+      HIGHLIGHT_CLOSE,
+      HIGHLIGHT_OPEN,
+      HIGHLIGHT_CLOSE,
       ...whereParams,
       limit,
       offset
     );
 
-    const results = rows.map((row) => mapRowToResult(row, tokens));
+    const results = rows.map(mapRowToResult);
 
     return {
       q,
@@ -1122,31 +1087,35 @@ export const search: SearchApi = {
     await installEntityTriggers(db);
 
     const resolvedScope = resolveScope(opts.scope);
-    const normalizedPrefix = normalizeLower(prefix);
+    const normalizedPrefix = foldText(prefix);
     const safeLimit = clamp(opts.limit ?? DEFAULT_SUGGESTIONS_LIMIT, 1, MAX_SUGGESTIONS_LIMIT);
 
-    const whereParts: string[] = ['org_id = ?'];
+    const whereParts: string[] = ['e.org_id = ?'];
     const whereParams: Array<string | number> = [resolvedScope.orgId];
 
     if (resolvedScope.projectId) {
-      whereParts.push('project_id = ?');
+      whereParts.push('e.project_id = ?');
       whereParams.push(resolvedScope.projectId);
     }
 
+    let fromClause = `${SEARCH_ENTRIES_TABLE} e`;
+
     if (normalizedPrefix.length > 0) {
-      const contains = `%${escapeLike(normalizedPrefix)}%`;
-      whereParts.push(
-        `(title_norm LIKE ? ESCAPE '\\' OR body_norm LIKE ? ESCAPE '\\' OR tags_norm LIKE ? ESCAPE '\\')`
-      );
-      whereParams.push(contains, contains, contains);
+      if (!hasIndexableChars(normalizedPrefix)) {
+        return [];
+      }
+
+      fromClause = `${SEARCH_INDEX_TABLE} JOIN ${SEARCH_ENTRIES_TABLE} e ON e.doc_id = ${SEARCH_INDEX_TABLE}.rowid`;
+      whereParts.unshift(`${SEARCH_INDEX_TABLE} MATCH ?`);
+      whereParams.unshift(`{title tags_json} : ${toFtsString(normalizedPrefix, true)}`);
     }
 
     const rows = await db.getAllAsync<SuggestRow>(
       `
-        SELECT title, tags_json, updated_at
-        FROM ${SEARCH_INDEX_TABLE}
+        SELECT e.title, e.tags_json, e.updated_at
+        FROM ${fromClause}
         WHERE ${whereParts.join(' AND ')}
-        ORDER BY updated_at DESC
+        ORDER BY e.updated_at DESC
         LIMIT 80
       `,
       ...whereParams
@@ -1161,7 +1130,7 @@ export const search: SearchApi = {
         return;
       }
 
-      const normalized = cleaned.toLowerCase();
+      const normalized = foldText(cleaned);
       if (normalizedPrefix.length > 0 && !normalized.includes(normalizedPrefix)) {
         return;
       }
@@ -1177,7 +1146,7 @@ export const search: SearchApi = {
     for (const row of rows) {
       const title = normalizeText(row.title);
       if (normalizedPrefix.length > 0) {
-        if (title.toLowerCase().startsWith(normalizedPrefix)) {
+        if (foldText(title).startsWith(normalizedPrefix)) {
           tryAdd(title);
         }
       } else {
@@ -1187,7 +1156,7 @@ export const search: SearchApi = {
       const tags = parseJsonArray(row.tags_json);
       for (const tag of tags) {
         if (normalizedPrefix.length > 0) {
-          if (tag.startsWith(normalizedPrefix)) {
+          if (foldText(tag).startsWith(normalizedPrefix)) {
             tryAdd(tag);
           }
         } else {
@@ -1290,11 +1259,22 @@ export const search: SearchApi = {
     }
 
     if (!entry) {
-      await db.runAsync(`DELETE FROM ${SEARCH_INDEX_TABLE} WHERE id = ?`, buildSearchId(entity, cleanId));
-      return;
+      await db.runAsync(`DELETE FROM ${SEARCH_ENTRIES_TABLE} WHERE id = ?`, buildSearchId(entity, cleanId));
+    } else {
+      await upsertIndexEntry(db, entry);
     }
 
-    await upsertIndexEntry(db, entry);
+    if (entity === 'DOCUMENT') {
+      await db.runAsync(
+        `DELETE FROM ${SEARCH_ENTRIES_TABLE} WHERE entity = 'DOCUMENT' AND entity_id = ? AND page_number IS NOT NULL`,
+        cleanId
+      );
+
+      const pagesSource = ENTRY_SOURCES.find((source) => source.table === DOCUMENT_PAGES_TABLE);
+      if (entry && pagesSource) {
+        await insertSourceEntries(db, pagesSource, { column: 'document_id', value: cleanId });
+      }
+    }
   },
 
   async rebuildAll() {
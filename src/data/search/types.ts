@@ -31,6 +31,9 @@ export type SearchResult = {
   score: number;
   title_highlight: string;
   body_highlight: string;
+  /** Set on hits inside the text of a PDF version (entity DOCUMENT). */
+  version_id?: string;
+  page_number?: number;
 };
 
 export type SearchGroup = {
@@ -8,10 +8,35 @@ import { documents } from '../documents';
 import { media } from '../media';
 import { offlineDB } from '../offline/outbox';
 import { geo } from '../geo-context';
-import { SignatureActor, SignatureCanvasData, SignatureRecord, SignatureStatus, VerifyResult } from './types';
+import {
+  SignatureActor,
+  SignatureCanvasData,
+  SignatureChainCheck,
+  SignatureRecord,
+  SignatureRequest,
+  SignatureRequestCreateInput,
+  SignatureRequestSigner,
+  SignatureRequestStatus,
+  SignatureStatus,
+  VerifyResult
+} from './types';
 
 const DB_NAME = 'conformeo.db';
 const TABLE_NAME = 'signatures';
+const REQUESTS_TABLE = 'signature_requests';
+
+const MAX_SIGNERS = 8;
+
+/** Campaign columns, added after the first schema. */
+const CAMPAIGN_COLUMNS: Array<[string, string]> = [
+  ['request_id', 'TEXT'],
+  ['signer_order', 'INTEGER'],
+  ['previous_chain_hash', 'TEXT'],
+  ['chain_hash', 'TEXT']
+];
+
+/** Campaign request columns, added after the first schema. */
+const REQUEST_COLUMNS: Array<[string, string]> = [['device_id', 'TEXT']];
 
 // Shared with sessions audit (same SecureStore key).
 const DEVICE_ID_KEY = 'conformeo.security.device_id';
@@ -46,6 +71,32 @@ type SignatureRow = {
   created_at: string;
   updated_at: string;
   last_error: string | null;
+
+  request_id: string | null;
+  signer_order: number | null;
+  previous_chain_hash: string | null;
+  chain_hash: string | null;
+};
+
+type RequestRow = {
+  id: string;
+  org_id: string;
+  project_id: string | null;
+  document_id: string;
+  version_id: string;
+  source_version_hash: string;
+  title: string;
+  message: string | null;
+  signers_json: string;
+  status: SignatureRequestStatus;
+  current_pdf_asset_id: string | null;
+  current_pdf_hash: string | null;
+  signed_document_version_id: string | null;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+  closed_at: string | null;
+  device_id: string | null;
 };
 
 let dbPromise: Promise<SQLite.SQLiteDatabase> | null = null;
@@ -187,6 +238,53 @@ async function setupSchema() {
 
     CREATE INDEX IF NOT EXISTS idx_signatures_status
       ON ${TABLE_NAME}(status, created_at DESC);
+
+    CREATE TABLE IF NOT EXISTS ${REQUESTS_TABLE} (
+      id TEXT PRIMARY KEY NOT NULL,
+      org_id TEXT NOT NULL,
+      project_id TEXT,
+      document_id TEXT NOT NULL,
+      version_id TEXT NOT NULL,
+      source_version_hash TEXT NOT NULL,
+      title TEXT NOT NULL,
+      message TEXT,
+      signers_json TEXT NOT NULL,
+      status TEXT NOT NULL CHECK (status IN ('OPEN', 'COMPLETED', 'DECLINED', 'CANCELLED')),
+      current_pdf_asset_id TEXT,
+      current_pdf_hash TEXT,
+      signed_document_version_id TEXT,
+      created_by TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      closed_at TEXT
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_signature_requests_document_created
+      ON ${REQUESTS_TABLE}(document_id, created_at DESC);
+
+    CREATE INDEX IF NOT EXISTS idx_signature_requests_org_status
+      ON ${REQUESTS_TABLE}(org_id, status, updated_at DESC);
+  `);
+
+  const existing = await db.getAllAsync<{ name: string }>(`PRAGMA table_info(${TABLE_NAME})`);
+  const names = new Set(existing.map((column) => column.name));
+  for (const [name, definition] of CAMPAIGN_COLUMNS) {
+    if (!names.has(name)) {
+      await db.execAsync(`ALTER TABLE ${TABLE_NAME} ADD COLUMN ${name} ${definition};`);
+    }
+  }
+
+  const existingRequest = await db.getAllAsync<{ name: string }>(`PRAGMA table_info(${REQUESTS_TABLE})`);
+  const requestNames = new Set(existingRequest.map((column) => column.name));
+  for (const [name, definition] of REQUEST_COLUMNS) {
+    if (!requestNames.has(name)) {
+      await db.execAsync(`ALTER TABLE ${REQUESTS_TABLE} ADD COLUMN ${name} ${definition};`);
+    }
+  }
+
+  await db.execAsync(`
+    CREATE INDEX IF NOT EXISTS idx_signatures_request_order
+      ON ${TABLE_NAME}(request_id, signer_order);
   `);
 }
 
@@ -244,7 +342,11 @@ function mapRow(row: SignatureRow): SignatureRecord {
     created_at: row.created_at,
     updated_at: row.updated_at,
     last_error: row.last_error ?? undefined,
-    canvas
+    canvas,
+    request_id: row.request_id ?? undefined,
+    signer_order: typeof row.signer_order === 'number' ? row.signer_order : undefined,
+    previous_chain_hash: row.previous_chain_hash ?? undefined,
+    chain_hash: row.chain_hash ?? undefined
   };
 }
 
@@ -281,9 +383,10 @@ async function upsertRow(row: SignatureRow) {
         geo_lat, geo_lng,
         status, canvas_json,
         created_at, updated_at,
-        last_error
+        last_error,
+        request_id, signer_order, previous_chain_hash, chain_hash
       )
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `,
     row.id,
     row.org_id,
@@ -306,7 +409,11 @@ async function upsertRow(row: SignatureRow) {
     row.canvas_json,
     row.created_at,
     row.updated_at,
-    row.last_error
+    row.last_error,
+    row.request_id,
+    row.signer_order,
+    row.previous_chain_hash,
+    row.chain_hash
   );
 }
 
@@ -379,13 +486,16 @@ async function generateSignedPdfBase64(input: {
   signedAtLocal: string;
   sourceVersionHash: string;
   canvas: SignatureCanvasData;
+  /** Campaign signatures: position in the signing order and hash of the PDF being signed. */
+  step?: { order: number; total: number; previousPdfHash: string; previousChainHash: string };
 }) {
   const pdfDoc = await PDFDocument.load(input.sourcePdfBase64, { ignoreEncryption: true });
   const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
 
   const pages = pdfDoc.getPages();
   const firstPage = pages[0];
-  if (firstPage) {
+  // Stamped once: later signers of a campaign append their page to an already stamped PDF.
+  if (firstPage && (!input.step || input.step.order === 1)) {
     firstPage.drawText('SIGNE', {
       x: 18,
       y: 18,
@@ -399,7 +509,7 @@ async function generateSignedPdfBase64(input: {
   const size = page.getSize();
 
   const titleY = size.height - 48;
-  page.drawText('Signature probante', {
+  page.drawText(input.step ? `Signature probante ${input.step.order}/${input.step.total}` : 'Signature probante', {
     x: 48,
     y: titleY,
     size: 18,
@@ -416,6 +526,11 @@ async function generateSignedPdfBase64(input: {
     `Hash source: ${input.sourceVersionHash}`
   ];
 
+  if (input.step && input.step.order > 1) {
+    metaLines.push(`Hash PDF signe precedent: ${input.step.previousPdfHash}`);
+    metaLines.push(`Chaine precedente: ${input.step.previousChainHash}`);
+  }
+
   let y = titleY - 28;
   for (const line of metaLines) {
     page.drawText(line, { x: 48, y, size: 10, font, color: rgb(0.25, 0.3, 0.32) });
@@ -535,6 +650,524 @@ async function sha256FromBase64(base64: string) {
   return Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, base64);
 }
 
+/**
+ * Chain entry of a campaign signature: binds it to the previous one and to the PDF it produced
+ * (the signer identity is printed in that PDF, so it is covered by `fileHash`).
+ */
+async function computeChainHash(input: {
+  previousChainHash: string;
+  signatureId: string;
+  signerOrder: number;
+  signedAtLocal: string;
+  fileHash: string;
+}) {
+  return Crypto.digestStringAsync(
+    Crypto.CryptoDigestAlgorithm.SHA256,
+    [input.previousChainHash, input.signatureId, String(input.signerOrder), input.signedAtLocal, input.fileHash].join('|')
+  );
+}
+
+/** Registers the signed PDF and the receipt as media assets (processed and queued for upload). */
+async function registerSignedFiles(
+  doc: { org_id: string; project_id?: string },
+  signatureId: string,
+  signedPdfBase64: string,
+  receiptBase64: string,
+  signedTag: string
+) {
+  const signedTmp = await writeTmpPdf(signedPdfBase64, `signed_${signatureId}.pdf`);
+  const receiptTmp = await writeTmpPdf(receiptBase64, `signature_${signatureId}.pdf`);
+
+  const signedAsset = await media.registerGeneratedFile(
+    {
+      org_id: doc.org_id,
+      project_id: doc.project_id,
+      tag: signedTag
+    },
+    {
+      uri: signedTmp.uri,
+      mimeType: 'application/pdf',
+      fileName: `signed_${signatureId}.pdf`,
+      fileSize: signedTmp.sizeBytes
+    }
+  );
+
+  const receiptAsset = await media.registerGeneratedFile(
+    {
+      org_id: doc.org_id,
+      project_id: doc.project_id,
+      tag: 'signature_receipt'
+    },
+    {
+      uri: receiptTmp.uri,
+      mimeType: 'application/pdf',
+      fileName: `signature_${signatureId}.pdf`,
+      fileSize: receiptTmp.sizeBytes
+    }
+  );
+
+  await Promise.all([
+    FileSystem.deleteAsync(signedTmp.uri, { idempotent: true }),
+    FileSystem.deleteAsync(receiptTmp.uri, { idempotent: true })
+  ]);
+
+  await media.process(signedAsset.id);
+  await media.enqueueUpload(signedAsset.id);
+
+  await media.process(receiptAsset.id);
+  await media.enqueueUpload(receiptAsset.id);
+
+  return { signedAsset, receiptAsset };
+}
+
+async function enqueueSignatureOperation(record: SignatureRecord, projectId: string | undefined) {
+  await offlineDB.enqueueOperation({
+    id: record.id,
+    entity: 'signatures',
+    entity_id: record.id,
+    type: 'CREATE',
+    payload: {
+      ...record,
+      orgId: record.org_id,
+      org_id: record.org_id,
+      project_id: projectId,
+      user_id: record.signer_user_id
+    }
+  });
+}
+
+function parseSigners(raw: string): SignatureRequestSigner[] {
+  const parsed = parseJsonObject(raw);
+  if (!Array.isArray(parsed)) {
+    return [];
+  }
+
+  return (parsed as SignatureRequestSigner[])
+    .filter((signer) => signer && typeof signer.id === 'string' && typeof signer.order === 'number')
+    .sort((left, right) => left.order - right.order);
+}
+
+function mapRequestRow(row: RequestRow): SignatureRequest {
+  return {
+    id: row.id,
+    org_id: row.org_id,
+    project_id: row.project_id ?? undefined,
+    document_id: row.document_id,
+    version_id: row.version_id,
+    source_version_hash: row.source_version_hash,
+    title: row.title,
+    message: row.message ?? undefined,
+    signers: parseSigners(row.signers_json),
+    status: row.status,
+    current_pdf_asset_id: row.current_pdf_asset_id ?? undefined,
+    current_pdf_hash: row.current_pdf_hash ?? undefined,
+    signed_document_version_id: row.signed_document_version_id ?? undefined,
+    created_by: row.created_by,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+    closed_at: row.closed_at ?? undefined,
+    device_id: row.device_id ?? undefined
+  };
+}
+
+async function getRequestById(id: string) {
+  await ensureSetup();
+  const db = await getDb();
+
+  const row = await db.getFirstAsync<RequestRow>(
+    `
+      SELECT *
+      FROM ${REQUESTS_TABLE}
+      WHERE id = ?
+      LIMIT 1
+    `,
+    id
+  );
+
+  return row ? mapRequestRow(row) : null;
+}
+
+async function saveRequest(request: SignatureRequest) {
+  await ensureSetup();
+  const db = await getDb();
+
+  await db.runAsync(
+    `
+      INSERT OR REPLACE INTO ${REQUESTS_TABLE}
+      (
+        id, org_id, project_id, document_id, version_id, source_version_hash,
+        title, message, signers_json, status,
+        current_pdf_asset_id, current_pdf_hash, signed_document_version_id,
+        created_by, created_at, updated_at, closed_at, device_id
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `,
+    request.id,
+    request.org_id,
+    request.project_id ?? null,
+    request.document_id,
+    request.version_id,
+    request.source_version_hash,
+    request.title,
+    request.message ?? null,
+    JSON.stringify(request.signers),
+    request.status,
+    request.current_pdf_asset_id ?? null,
+    request.current_pdf_hash ?? null,
+    request.signed_document_version_id ?? null,
+    request.created_by,
+    request.created_at,
+    request.updated_at,
+    request.closed_at ?? null,
+    request.device_id ?? null
+  );
+}
+
+async function enqueueRequestOperation(request: SignatureRequest, type: 'CREATE' | 'UPDATE') {
+  await offlineDB.enqueueOperation({
+    entity: REQUESTS_TABLE,
+    entity_id: request.id,
+    type,
+    payload: {
+      id: request.id,
+      org_id: request.org_id,
+      orgId: request.org_id,
+      project_id: request.project_id,
+      document_id: request.document_id,
+      data: request
+    }
+  });
+}
+
+function currentSigner(request: SignatureRequest) {
+  return request.signers.find((signer) => signer.status === 'PENDING') ?? null;
+}
+
+async function requireOpenRequest(requestId: string) {
+  const id = normalizeText(requestId);
+  if (!id) {
+    throw new Error('requestId manquant.');
+  }
+
+  const request = await getRequestById(id);
+  if (!request) {
+    throw new Error('Demande de signature introuvable.');
+  }
+
+  if (request.status !== 'OPEN') {
+    throw new Error('Demande de signature close.');
+  }
+
+  // The current PDF only exists on the device running the campaign (never downloaded): other devices
+  // see the pulled progress but cannot sign, decline or cancel.
+  if (request.device_id && request.device_id !== (await getOrCreateDeviceId())) {
+    throw new Error('Demande de signature en cours sur un autre appareil: poursuivez-la sur celui-ci.');
+  }
+
+  return request;
+}
+
+function normalizeSigners(input: SignatureRequestCreateInput['signers']): SignatureRequestSigner[] {
+  if (!Array.isArray(input) || input.length === 0) {
+    throw new Error('Au moins un signataire est requis.');
+  }
+
+  if (input.length > MAX_SIGNERS) {
+    throw new Error(`${MAX_SIGNERS} signataires maximum.`);
+  }
+
+  return input.map((signer, index) => {
+    const label = normalizeText(signer?.label);
+    const role = normalizeText(signer?.role);
+    if (!label || !role) {
+      throw new Error(`Signataire ${index + 1}: nom et qualite requis.`);
+    }
+
+    return {
+      id: createUuid(),
+      order: index + 1,
+      label,
+      role,
+      user_id: toOptional(normalizeText(signer.user_id)),
+      status: 'PENDING'
+    };
+  });
+}
+
+async function listRequestSignatureRows(requestId: string) {
+  await ensureSetup();
+  const db = await getDb();
+
+  return db.getAllAsync<SignatureRow>(
+    `
+      SELECT *
+      FROM ${TABLE_NAME}
+      WHERE request_id = ?
+        AND status != 'DRAFT'
+      ORDER BY signer_order ASC
+    `,
+    requestId
+  );
+}
+
+/**
+ * Checks every signature of a campaign in order: PDF hash, link to the previous PDF (or the source
+ * version) and chain hash. A single broken link invalidates the signatures that follow it.
+ */
+async function verifyChain(requestId: string): Promise<VerifyResult> {
+  const request = await getRequestById(requestId);
+  if (!request) {
+    return { valid: false, reason: 'Demande de signature introuvable' };
+  }
+
+  const rows = await listRequestSignatureRows(request.id);
+  const chain: SignatureChainCheck[] = [];
+  let expectedSourceHash = request.source_version_hash;
+  let expectedPreviousChain = request.source_version_hash;
+  let broken: string | null = null;
+
+  for (const row of rows) {
+    const signer = request.signers.find((candidate) => candidate.order === row.signer_order);
+    const check: SignatureChainCheck = {
+      signature_id: row.id,
+      signer_order: row.signer_order ?? 0,
+      signer_label: row.signer_display_name ?? signer?.label ?? row.signer_user_id,
+      valid: false
+    };
+
+    if (broken) {
+      check.reason = `Chaine rompue en amont (${broken})`;
+      chain.push(check);
+      continue;
+    }
+
+    try {
+      if (!row.signed_pdf_asset_id || !row.file_hash || !row.chain_hash || !row.signed_at_local) {
+        throw new Error('Signature incomplete (PDF/hash manquant)');
+      }
+
+      if (row.source_version_hash !== expectedSourceHash || row.previous_chain_hash !== expectedPreviousChain) {
+        throw new Error('Signature non rattachee au PDF precedent');
+      }
+
+      const asset = await media.getById(row.signed_pdf_asset_id);
+      if (!asset) {
+        throw new Error('PDF signe introuvable localement');
+      }
+
+      const hash = await sha256FromBase64(await loadPdfBase64(asset.local_path));
+      if (hash !== row.file_hash) {
+        throw new Error('Hash mismatch (PDF modifie ou corrompu)');
+      }
+
+      const chainHash = await computeChainHash({
+        previousChainHash: expectedPreviousChain,
+        signatureId: row.id,
+        signerOrder: row.signer_order ?? 0,
+        signedAtLocal: row.signed_at_local,
+        fileHash: row.file_hash
+      });
+      if (chainHash !== row.chain_hash) {
+        throw new Error('Entree de chaine invalide');
+      }
+
+      check.valid = true;
+      expectedSourceHash = row.file_hash;
+      expectedPreviousChain = row.chain_hash;
+    } catch (error) {
+      check.reason = toErrorMessage(error, 'Verification impossible');
+      broken = `signature ${check.signer_order}`;
+    }
+
+    chain.push(check);
+  }
+
+  const signedCount = request.signers.filter((signer) => signer.status === 'SIGNED').length;
+  if (!broken && signedCount !== rows.length) {
+    return { valid: false, reason: 'Signatures manquantes localement', chain };
+  }
+
+  const failed = chain.find((check) => !check.valid);
+  return failed ? { valid: false, reason: failed.reason, chain } : { valid: true, chain };
+}
+
+/** Appends the draft signature of the current signer to the campaign PDF. */
+async function finalizeRequestSignature(row: SignatureRow): Promise<SignatureRecord> {
+  const request = await requireOpenRequest(row.request_id ?? '');
+  const signer = currentSigner(request);
+  if (!signer || signer.order !== row.signer_order) {
+    throw new Error("Ce n'est pas le tour de ce signataire.");
+  }
+
+  const doc = await documents.getById(request.document_id);
+  if (!doc) {
+    throw new Error('Document introuvable.');
+  }
+
+  const canvas = ensureCanvasData(parseJsonObject(row.canvas_json));
+  if (canvas.strokes.length == 0) {
+    throw new Error('Signature vide.');
+  }
+
+  let sourceAssetId = request.current_pdf_asset_id;
+  if (!sourceAssetId) {
+    const versions = await documents.listVersions(request.document_id);
+    sourceAssetId = versions.find((candidate) => candidate.id === request.version_id)?.file_asset_id;
+  }
+
+  const sourceAsset = sourceAssetId ? await media.getById(sourceAssetId) : null;
+  if (!sourceAsset) {
+    throw new Error('PDF en cours de signature introuvable sur cet appareil.');
+  }
+
+  const sourceBase64 = await loadPdfBase64(sourceAsset.local_path);
+  const previousPdfHash = request.current_pdf_hash ?? request.source_version_hash;
+  if ((await sha256FromBase64(sourceBase64)) !== previousPdfHash) {
+    throw new Error('Le PDF en cours a ete modifie: chaine de signatures rompue.');
+  }
+
+  const previousRows = await listRequestSignatureRows(request.id);
+  const previousChainHash =
+    previousRows.filter((candidate) => (candidate.signer_order ?? 0) < signer.order).pop()?.chain_hash ??
+    request.source_version_hash;
+
+  const signedAtLocal = nowIso();
+  const isLast = request.signers.every((candidate) => candidate.id === signer.id || candidate.status === 'SIGNED');
+
+  const pdfInput = {
+    signatureId: row.id,
+    documentTitle: doc.title,
+    orgId: doc.org_id,
+    signerLabel: signer.label,
+    signerRole: signer.role,
+    signedAtLocal,
+    sourceVersionHash: request.source_version_hash,
+    canvas
+  };
+
+  const signedPdfBase64 = await generateSignedPdfBase64({
+    ...pdfInput,
+    sourcePdfBase64: sourceBase64,
+    step: { order: signer.order, total: request.signers.length, previousPdfHash, previousChainHash }
+  });
+  const receiptBase64 = await generateSignatureReceiptBase64(pdfInput);
+
+  const signedHash = await sha256FromBase64(signedPdfBase64);
+  const chainHash = await computeChainHash({
+    previousChainHash,
+    signatureId: row.id,
+    signerOrder: signer.order,
+    signedAtLocal,
+    fileHash: signedHash
+  });
+
+  try {
+    const { signedAsset, receiptAsset } = await registerSignedFiles(
+      doc,
+      row.id,
+      signedPdfBase64,
+      receiptBase64,
+      isLast ? 'signed_pdf' : 'signed_pdf_partial'
+    );
+
+    let signedVersionId: string | null = null;
+    if (isLast) {
+      const signedVersion = await documents.addVersion(doc.id, {
+        source: 'existing',
+        existing_asset_id: signedAsset.id,
+        tag: 'signed_pdf'
+      });
+      signedVersionId = signedVersion.id;
+
+      await documents.update(doc.id, {
+        status: 'SIGNED'
+      });
+    }
+
+    const updatedAt = nowIso();
+    const next: SignatureRow = {
+      ...row,
+      signed_document_version_id: signedVersionId,
+      signer_role: signer.role,
+      signer_display_name: signer.label,
+      signature_asset_id: receiptAsset.id,
+      signed_pdf_asset_id: signedAsset.id,
+      file_hash: signedHash,
+      source_version_hash: previousPdfHash,
+      signed_at_local: signedAtLocal,
+      status: 'PENDING',
+      updated_at: updatedAt,
+      last_error: null,
+      previous_chain_hash: previousChainHash,
+      chain_hash: chainHash
+    };
+
+    await upsertRow(next);
+
+    const nextRequest: SignatureRequest = {
+      ...request,
+      signers: request.signers.map((candidate) =>
+        candidate.id === signer.id
+          ? { ...candidate, status: 'SIGNED', signature_id: row.id, signed_at: signedAtLocal }
+          : candidate
+      ),
+      status: isLast ? 'COMPLETED' : 'OPEN',
+      current_pdf_asset_id: signedAsset.id,
+      current_pdf_hash: signedHash,
+      signed_document_version_id: signedVersionId ?? undefined,
+      updated_at: updatedAt,
+      closed_at: isLast ? updatedAt : undefined
+    };
+
+    await saveRequest(nextRequest);
+
+    const record = mapRow(next);
+    await enqueueSignatureOperation(record, doc.project_id);
+    await enqueueRequestOperation(nextRequest, 'UPDATE');
+
+    await audit.log('signature.finalize', 'SIGNATURE', record.id, {
+      document_id: doc.id,
+      version_id: request.version_id,
+      request_id: request.id,
+      signer_order: signer.order,
+      signer_label: signer.label,
+      signed_document_version_id: record.signed_document_version_id,
+      signed_pdf_asset_id: record.signed_pdf_asset_id,
+      file_hash: record.file_hash,
+      chain_hash: record.chain_hash,
+      signed_at_local: record.signed_at_local
+    });
+
+    if (isLast) {
+      await audit.log('signature.request_complete', 'SIGNATURE', request.id, {
+        document_id: doc.id,
+        signed_document_version_id: signedVersionId,
+        signers: nextRequest.signers.length,
+        chain_hash: chainHash
+      });
+    }
+
+    void geo.capture({
+      entity: 'SIGNATURE',
+      entity_id: record.id,
+      org_id: record.org_id,
+      user_id: record.signer_user_id,
+      project_id: doc.project_id
+    });
+
+    activeDraftId = null;
+    return record;
+  } catch (error) {
+    const message = toErrorMessage(error, 'Finalisation signature impossible.');
+    await upsertRow({
+      ...row,
+      last_error: message,
+      updated_at: nowIso()
+    });
+    throw new Error(message);
+  }
+}
+
 export const sign = {
   setActor(next: SignatureActor | null) {
     actor = next;
@@ -600,7 +1233,11 @@ export const sign = {
       canvas_json: JSON.stringify({ strokes: [] } satisfies SignatureCanvasData),
       created_at: createdAt,
       updated_at: createdAt,
-      last_error: null
+      last_error: null,
+      request_id: null,
+      signer_order: null,
+      previous_chain_hash: null,
+      chain_hash: null
     };
 
     await upsertRow(row);
@@ -646,6 +1283,10 @@ export const sign = {
       throw new Error('Signature draft introuvable.');
     }
 
+    if (row.request_id) {
+      return finalizeRequestSignature(row);
+    }
+
     const actorContext = requireActor();
 
     const doc = await documents.getById(row.document_id);
@@ -707,48 +1348,14 @@ export const sign = {
     const signedHash = await sha256FromBase64(signedPdfBase64);
 
     try {
-      const signedTmp = await writeTmpPdf(signedPdfBase64, `signed_${row.id}.pdf`);
-      const receiptTmp = await writeTmpPdf(receiptBase64, `signature_${row.id}.pdf`);
-
-      const signedAsset = await media.registerGeneratedFile(
-        {
-          org_id: doc.org_id,
-          project_id: doc.project_id,
-          tag: 'signed_pdf'
-        },
-        {
-          uri: signedTmp.uri,
-          mimeType: 'application/pdf',
-          fileName: `signed_${row.id}.pdf`,
-          fileSize: signedTmp.sizeBytes
-        }
-      );
-
-      const receiptAsset = await media.registerGeneratedFile(
-        {
-          org_id: doc.org_id,
-          project_id: doc.project_id,
-          tag: 'signature_receipt'
-        },
-        {
-          uri: receiptTmp.uri,
-          mimeType: 'application/pdf',
-          fileName: `signature_${row.id}.pdf`,
-          fileSize: receiptTmp.sizeBytes
-        }
+      const { signedAsset, receiptAsset } = await registerSignedFiles(
+        doc,
+        row.id,
+        signedPdfBase64,
+        receiptBase64,
+        'signed_pdf'
       );
 
-      await Promise.all([
-        FileSystem.deleteAsync(signedTmp.uri, { idempotent: true }),
-        FileSystem.deleteAsync(receiptTmp.uri, { idempotent: true })
-      ]);
-
-      await media.process(signedAsset.id);
-      await media.enqueueUpload(signedAsset.id);
-
-      await media.process(receiptAsset.id);
-      await media.enqueueUpload(receiptAsset.id);
-
       const signedVersion = await documents.addVersion(doc.id, {
         source: 'existing',
         existing_asset_id: signedAsset.id,
@@ -777,19 +1384,7 @@ export const sign = {
 
       const record = mapRow(next);
 
-      await offlineDB.enqueueOperation({
-        id: record.id,
-        entity: 'signatures',
-        entity_id: record.id,
-        type: 'CREATE',
-        payload: {
-          ...record,
-          orgId: record.org_id,
-          org_id: record.org_id,
-          project_id: doc.project_id,
-          user_id: record.signer_user_id
-        }
-      });
+      await enqueueSignatureOperation(record, doc.project_id);
 
       await audit.log('signature.finalize', 'SIGNATURE', record.id, {
         document_id: doc.id,
@@ -823,6 +1418,204 @@ export const sign = {
     }
   },
 
+  /** Opens a campaign: the signers sign `versionId` one after the other, in the given order. */
+  async createRequest(documentId: string, versionId: string, input: SignatureRequestCreateInput) {
+    await ensureSetup();
+    const actorContext = requireActor();
+
+    const doc = await documents.getById(normalizeText(documentId));
+    if (!doc) {
+      throw new Error('Document introuvable.');
+    }
+
+    const versions = await documents.listVersions(doc.id);
+    const version = versions.find((candidate) => candidate.id === normalizeText(versionId));
+    if (!version) {
+      throw new Error('Version introuvable pour ce document.');
+    }
+
+    if (version.file_mime !== 'application/pdf') {
+      throw new Error('Signature probante supportee uniquement sur PDF pour le MVP.');
+    }
+
+    const open = (await this.listRequests(doc.id)).find((request) => request.status === 'OPEN');
+    if (open) {
+      throw new Error('Une demande de signature est deja en cours pour ce document.');
+    }
+
+    const createdAt = nowIso();
+    const request: SignatureRequest = {
+      id: createUuid(),
+      org_id: doc.org_id,
+      project_id: doc.project_id,
+      document_id: doc.id,
+      version_id: version.id,
+      source_version_hash: version.file_hash,
+      title: normalizeText(input.title) || doc.title,
+      message: toOptional(normalizeText(input.message)),
+      signers: normalizeSigners(input.signers),
+      status: 'OPEN',
+      created_by: actorContext.user_id,
+      created_at: createdAt,
+      updated_at: createdAt,
+      device_id: await getOrCreateDeviceId()
+    };
+
+    await saveRequest(request);
+    await enqueueRequestOperation(request, 'CREATE');
+
+    await audit.log('signature.request_create', 'SIGNATURE', request.id, {
+      document_id: doc.id,
+      version_id: version.id,
+      source_version_hash: version.file_hash,
+      signers: request.signers.map((signer) => ({ order: signer.order, label: signer.label, role: signer.role }))
+    });
+
+    return request;
+  },
+
+  async getRequest(requestId: string) {
+    const id = normalizeText(requestId);
+    return id ? getRequestById(id) : null;
+  },
+
+  async listRequests(documentId: string) {
+    const docId = normalizeText(documentId);
+    if (!docId) {
+      return [] as SignatureRequest[];
+    }
+
+    await ensureSetup();
+    const db = await getDb();
+
+    const rows = await db.getAllAsync<RequestRow>(
+      `
+        SELECT *
+        FROM ${REQUESTS_TABLE}
+        WHERE document_id = ?
+        ORDER BY created_at DESC
+      `,
+      docId
+    );
+
+    return rows.map(mapRequestRow);
+  },
+
+  /** Starts the draft of the next signer of a campaign; then `capture()` and `finalize()` as usual. */
+  async startRequest(requestId: string) {
+    const request = await requireOpenRequest(requestId);
+    const actorContext = requireActor();
+
+    const signer = currentSigner(request);
+    if (!signer) {
+      throw new Error('Tous les signataires ont deja signe.');
+    }
+
+    const createdAt = nowIso();
+    const row: SignatureRow = {
+      id: createUuid(),
+      org_id: request.org_id,
+      document_id: request.document_id,
+      version_id: request.version_id,
+      signed_document_version_id: null,
+      // The account on which the signature is captured: external signers sign on a member's device.
+      signer_user_id: signer.user_id ?? actorContext.user_id,
+      signer_role: signer.role,
+      signer_display_name: signer.label,
+      device_id: await getOrCreateDeviceId(),
+      signature_asset_id: null,
+      signed_pdf_asset_id: null,
+      file_hash: null,
+      source_version_hash: request.current_pdf_hash ?? request.source_version_hash,
+      signed_at_local: null,
+      signed_at_server: null,
+      geo_lat: null,
+      geo_lng: null,
+      status: 'DRAFT',
+      canvas_json: JSON.stringify({ strokes: [] } satisfies SignatureCanvasData),
+      created_at: createdAt,
+      updated_at: createdAt,
+      last_error: null,
+      request_id: request.id,
+      signer_order: signer.order,
+      previous_chain_hash: null,
+      chain_hash: null
+    };
+
+    await upsertRow(row);
+    activeDraftId = row.id;
+    return mapRow(row);
+  },
+
+  /** The current signer refuses to sign: the campaign stops, signatures already given stay valid. */
+  async declineRequest(requestId: string, reason: string) {
+    const request = await requireOpenRequest(requestId);
+    const actorContext = requireActor();
+
+    const cleanedReason = normalizeText(reason);
+    if (!cleanedReason) {
+      throw new Error('Motif de refus requis.');
+    }
+
+    const signer = currentSigner(request);
+    if (!signer) {
+      throw new Error('Aucun signataire en attente.');
+    }
+
+    const updatedAt = nowIso();
+    const next: SignatureRequest = {
+      ...request,
+      signers: request.signers.map((candidate) =>
+        candidate.id === signer.id ? { ...candidate, status: 'DECLINED', decline_reason: cleanedReason } : candidate
+      ),
+      status: 'DECLINED',
+      updated_at: updatedAt,
+      closed_at: updatedAt
+    };
+
+    await saveRequest(next);
+    await enqueueRequestOperation(next, 'UPDATE');
+    activeDraftId = null;
+
+    await audit.log('signature.request_decline', 'SIGNATURE', request.id, {
+      document_id: request.document_id,
+      signer_order: signer.order,
+      signer_label: signer.label,
+      reason: cleanedReason,
+      recorded_by: actorContext.user_id
+    });
+
+    return next;
+  },
+
+  async cancelRequest(requestId: string) {
+    const request = await requireOpenRequest(requestId);
+    requireActor();
+
+    const updatedAt = nowIso();
+    const next: SignatureRequest = { ...request, status: 'CANCELLED', updated_at: updatedAt, closed_at: updatedAt };
+
+    await saveRequest(next);
+    await enqueueRequestOperation(next, 'UPDATE');
+    activeDraftId = null;
+
+    await audit.log('signature.request_cancel', 'SIGNATURE', request.id, {
+      document_id: request.document_id,
+      signed: request.signers.filter((signer) => signer.status === 'SIGNED').length
+    });
+
+    return next;
+  },
+
+  async verifyRequest(requestId: string): Promise<VerifyResult> {
+    const id = normalizeText(requestId);
+    if (!id) {
+      return { valid: false, reason: 'requestId manquant' };
+    }
+
+    return verifyChain(id);
+  },
+
   async getByDocument(documentId: string) {
     const docId = normalizeText(documentId);
     if (!docId) {
@@ -894,6 +1687,10 @@ export const sign = {
       return { valid: false, reason: 'Signature non finalisee' };
     }
 
+    if (row.request_id) {
+      return verifyChain(row.request_id);
+    }
+
     if (!row.signed_pdf_asset_id || !row.file_hash) {
       return { valid: false, reason: 'Signature incomplete (PDF/hash manquant)' };
     }
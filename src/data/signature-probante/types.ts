@@ -47,9 +47,84 @@ export type SignatureRecord = {
 
   canvas?: SignatureCanvasData;
   last_error?: string;
+
+  /** Campaign signatures only: request, position in the signing order and hash chain entry. */
+  request_id?: string;
+  signer_order?: number;
+  /** Chain hash of the previous signature of the campaign (the source version hash for the first one). */
+  previous_chain_hash?: string;
+  chain_hash?: string;
 };
 
 export type VerifyResult = {
   valid: boolean;
   reason?: string;
+  /** Campaign signatures: result of every signature of the chain, in signing order. */
+  chain?: SignatureChainCheck[];
+};
+
+export type SignatureRequestStatus = 'OPEN' | 'COMPLETED' | 'DECLINED' | 'CANCELLED';
+
+export type SignatureRequestSignerStatus = 'PENDING' | 'SIGNED' | 'DECLINED';
+
+/**
+ * One signer of a campaign, in signing order. `user_id` is optional: clients and architects often sign
+ * on the contractor's device without an account.
+ */
+export type SignatureRequestSigner = {
+  id: string;
+  order: number;
+  label: string;
+  /** Quality shown on the PDF (e.g. "Maitre d'ouvrage", "Architecte", "Entreprise"). */
+  role: string;
+  user_id?: string;
+  status: SignatureRequestSignerStatus;
+  signature_id?: string;
+  signed_at?: string;
+  decline_reason?: string;
+};
+
+export type SignatureRequestSignerInput = {
+  label: string;
+  role: string;
+  user_id?: string;
+};
+
+export type SignatureRequest = {
+  id: string;
+  org_id: string;
+  project_id?: string;
+  document_id: string;
+  /** Version submitted to the signers; every signature is appended to the PDF built from it. */
+  version_id: string;
+  source_version_hash: string;
+  title: string;
+  message?: string;
+  signers: SignatureRequestSigner[];
+  status: SignatureRequestStatus;
+  /** PDF carrying all signatures so far (media asset), absent before the first one. */
+  current_pdf_asset_id?: string;
+  current_pdf_hash?: string;
+  /** Document version created when the last signer signs. */
+  signed_document_version_id?: string;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+  closed_at?: string;
+  /** Device running the campaign (holder of the current PDF): the only one allowed to move it forward. */
+  device_id?: string;
+};
+
+export type SignatureRequestCreateInput = {
+  signers: SignatureRequestSignerInput[];
+  title?: string;
+  message?: string;
+};
+
+export type SignatureChainCheck = {
+  signature_id: string;
+  signer_order: number;
+  signer_label: string;
+  valid: boolean;
+  reason?: string;
 };
@@ -1,9 +1,14 @@
 import * as SQLite from 'expo-sqlite';
+import { securityPolicies } from '../../core/security/policies';
 import { OfflineOperationType, offlineDB } from '../offline/outbox';
+import { localApply } from './local-apply';
+import { FieldChoice, FieldMergeResult, applyFieldChoices, threeWayMerge, toMergeRecord } from './merge';
 
 const DB_NAME = 'conformeo.db';
 const CONFLICTS_TABLE = 'sync_conflicts';
 const POLICIES_TABLE = 'sync_conflict_policies';
+const BASES_TABLE = 'sync_base_versions';
+const OPERATIONS_TABLE = 'operations_queue';
 
 const DEFAULT_POLICY: ConflictPolicy = 'LWW';
 const DEFAULT_LIMIT = 100;
@@ -20,6 +25,7 @@ type ConflictRow = {
   operation_type: OfflineOperationType;
   local_payload: string;
   server_payload: string;
+  base_payload: string | null;
   policy: ConflictPolicy;
   status: ConflictStatus;
   reason: string | null;
@@ -38,7 +44,11 @@ type PolicyRow = {
   updated_by: string | null;
 };
 
-export type ConflictPolicy = 'LWW' | 'SERVER_WINS' | 'MANUAL';
+type BaseRow = {
+  payload: string;
+};
+
+export type ConflictPolicy = 'LWW' | 'SERVER_WINS' | 'MANUAL' | 'FIELD_MERGE';
 
 export type ConflictStatus = 'OPEN' | 'RESOLVED';
 
@@ -53,6 +63,8 @@ export type SyncConflict = {
   operation_type: OfflineOperationType;
   local_payload: JsonRecord;
   server_payload: JsonRecord;
+  /** Last server state known before the local edit (pull conflicts only). */
+  base_payload?: JsonRecord;
   policy: ConflictPolicy;
   status: ConflictStatus;
   reason?: string;
@@ -84,10 +96,19 @@ export type ConflictRecordInput = {
   operation_type: OfflineOperationType;
   local_payload: JsonRecord;
   server_payload: JsonRecord;
+  base_payload?: JsonRecord | null;
   policy?: ConflictPolicy;
   reason?: string;
 };
 
+export type ConflictBaseInput = {
+  org_id: string;
+  entity: string;
+  entity_id: string;
+  payload: JsonRecord;
+  server_updated_at?: string;
+};
+
 export type ConflictResolveOptions = {
   requeue?: boolean;
 };
@@ -112,6 +133,19 @@ export type ConflictApi = {
   getOpenCount: (orgId?: string) => Promise<number>;
   record: (input: ConflictRecordInput) => Promise<SyncConflict>;
   autoResolve: (id: string, action: ConflictResolutionAction) => Promise<SyncConflict>;
+
+  previewMerge: (id: string) => Promise<FieldMergeResult>;
+  resolveFields: (
+    id: string,
+    choices: Record<string, FieldChoice>,
+    options?: ConflictResolveOptions
+  ) => Promise<SyncConflict>;
+  autoMerge: (id: string) => Promise<SyncConflict>;
+
+  recordBase: (input: ConflictBaseInput) => Promise<void>;
+  captureLocalBase: (orgId: string, entity: string, entityId: string) => Promise<void>;
+  getBase: (entity: string, entityId: string) => Promise<JsonRecord | null>;
+  clearBase: (entity: string, entityId: string) => Promise<void>;
 };
 
 let dbPromise: Promise<SQLite.SQLiteDatabase> | null = null;
@@ -166,7 +200,7 @@ function clamp(value: number, min: number, max: number) {
 }
 
 function ensurePolicy(policy: string): ConflictPolicy {
-  if (policy === 'LWW' || policy === 'SERVER_WINS' || policy === 'MANUAL') {
+  if (policy === 'LWW' || policy === 'SERVER_WINS' || policy === 'MANUAL' || policy === 'FIELD_MERGE') {
     return policy;
   }
 
@@ -181,6 +215,47 @@ function ensureResolutionAction(action: string): ConflictResolutionAction {
   throw new Error(`Action de résolution invalide: ${action}`);
 }
 
+function isPullConflict(conflict: SyncConflict) {
+  return conflict.server_payload.source === 'PULL';
+}
+
+function serverRecordOf(conflict: SyncConflict) {
+  const payload = conflict.server_payload.payload;
+  return toMergeRecord(conflict.entity_id, isObject(payload) ? payload : {});
+}
+
+function isObject(value: unknown): value is JsonRecord {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+function computeMerge(conflict: SyncConflict): FieldMergeResult {
+  if (!isPullConflict(conflict)) {
+    throw new Error('Merge champ à champ indisponible: le rejet serveur ne contient pas la ligne distante.');
+  }
+
+  if (conflict.server_payload.deleted === true || conflict.operation_type === 'DELETE') {
+    throw new Error('Merge champ à champ indisponible sur une suppression.');
+  }
+
+  return threeWayMerge(
+    conflict.base_payload ? toMergeRecord(conflict.entity_id, conflict.base_payload) : null,
+    toMergeRecord(conflict.entity_id, conflict.local_payload),
+    serverRecordOf(conflict)
+  );
+}
+
+async function applyServerSide(conflict: SyncConflict) {
+  const payload = conflict.server_payload.payload;
+  const updatedAt = conflict.server_payload.server_updated_at;
+
+  await localApply.applyRemoteChange(conflict.entity, {
+    entity_id: conflict.entity_id,
+    payload: payload && typeof payload === 'object' && !Array.isArray(payload) ? (payload as JsonRecord) : {},
+    deleted: conflict.server_payload.deleted === true,
+    updated_at: typeof updatedAt === 'string' ? updatedAt : nowIso()
+  });
+}
+
 function ensureOrgId(orgId?: string) {
   const resolved = normalizeText(orgId) || normalizeText(contextOrgId);
   if (!resolved) {
@@ -200,6 +275,7 @@ function mapConflictRow(row: ConflictRow): SyncConflict {
     operation_type: row.operation_type,
     local_payload: parseJsonObject(row.local_payload),
     server_payload: parseJsonObject(row.server_payload),
+    base_payload: row.base_payload ? parseJsonObject(row.base_payload) : undefined,
     policy: row.policy,
     status: row.status,
     reason: row.reason ?? undefined,
@@ -229,55 +305,161 @@ async function getDb() {
   return dbPromise;
 }
 
+async function getTableSql(db: SQLite.SQLiteDatabase, tableName: string) {
+  const row = await db.getFirstAsync<{ sql: string | null }>(
+    `
+      SELECT sql
+      FROM sqlite_master
+      WHERE type = 'table'
+        AND name = ?
+      LIMIT 1
+    `,
+    tableName
+  );
+
+  return row?.sql ?? null;
+}
+
+/**
+ * SQLite cannot alter a CHECK constraint: tables created before FIELD_MERGE are renamed
+ * (their indexes dropped so they can be recreated) and copied back once the new schema exists.
+ * A `_legacy` table left by an interrupted migration still holds the rows: it is restored, never dropped.
+ */
+async function detachLegacyTables(db: SQLite.SQLiteDatabase) {
+  const detached: string[] = [];
+
+  for (const [table, indexes] of [
+    [
+      CONFLICTS_TABLE,
+      ['idx_sync_conflicts_org_status_created', 'idx_sync_conflicts_entity', 'idx_sync_conflicts_open_operation']
+    ],
+    [POLICIES_TABLE, ['idx_sync_conflict_policies_org']]
+  ] as const) {
+    const sql = await getTableSql(db, table);
+    const orphaned = (await getTableSql(db, `${table}_legacy`)) !== null;
+    const outdated = !!sql && !sql.includes('FIELD_MERGE');
+
+    if (outdated) {
+      await db.execAsync(`
+        ${indexes.map((name) => `DROP INDEX IF EXISTS ${name};`).join('\n')}
+        ${
+          orphaned
+            ? `INSERT OR IGNORE INTO ${table}_legacy SELECT * FROM ${table};
+        DROP TABLE ${table};`
+            : `ALTER TABLE ${table} RENAME TO ${table}_legacy;`
+        }
+      `);
+    }
+
+    if (outdated || orphaned) {
+      detached.push(table);
+    }
+  }
+
+  return detached;
+}
+
+async function restoreLegacyTables(db: SQLite.SQLiteDatabase, detached: string[]) {
+  if (detached.includes(CONFLICTS_TABLE)) {
+    await db.execAsync(`
+      INSERT OR IGNORE INTO ${CONFLICTS_TABLE}
+      (
+        id, org_id, entity, entity_id, operation_id, operation_type,
+        local_payload, server_payload, base_payload, policy, status, reason, created_at,
+        resolved_at, resolution_action, merged_payload, resolver_user_id
+      )
+      SELECT
+        id, org_id, entity, entity_id, operation_id, operation_type,
+        local_payload, server_payload, NULL, policy, status, reason, created_at,
+        resolved_at, resolution_action, merged_payload, resolver_user_id
+      FROM ${CONFLICTS_TABLE}_legacy;
+
+      DROP TABLE ${CONFLICTS_TABLE}_legacy;
+    `);
+  }
+
+  if (detached.includes(POLICIES_TABLE)) {
+    await db.execAsync(`
+      INSERT OR IGNORE INTO ${POLICIES_TABLE} (org_id, entity, policy, updated_at, updated_by)
+      SELECT org_id, entity, policy, updated_at, updated_by
+      FROM ${POLICIES_TABLE}_legacy;
+
+      DROP TABLE ${POLICIES_TABLE}_legacy;
+    `);
+  }
+}
+
 async function ensureSetup() {
   if (!setupPromise) {
     setupPromise = (async () => {
       const db = await getDb();
 
-      await db.execAsync(`
-        PRAGMA journal_mode = WAL;
-
-        CREATE TABLE IF NOT EXISTS ${CONFLICTS_TABLE} (
-          id TEXT PRIMARY KEY NOT NULL,
-          org_id TEXT NOT NULL,
-          entity TEXT NOT NULL,
-          entity_id TEXT NOT NULL,
-          operation_id TEXT NOT NULL,
-          operation_type TEXT NOT NULL CHECK (operation_type IN ('CREATE', 'UPDATE', 'DELETE')),
-          local_payload TEXT NOT NULL,
-          server_payload TEXT NOT NULL,
-          policy TEXT NOT NULL CHECK (policy IN ('LWW', 'SERVER_WINS', 'MANUAL')),
-          status TEXT NOT NULL CHECK (status IN ('OPEN', 'RESOLVED')),
-          reason TEXT,
-          created_at TEXT NOT NULL,
-          resolved_at TEXT,
-          resolution_action TEXT CHECK (resolution_action IN ('KEEP_LOCAL', 'KEEP_SERVER', 'MERGE')),
-          merged_payload TEXT,
-          resolver_user_id TEXT
-        );
-
-        CREATE INDEX IF NOT EXISTS idx_sync_conflicts_org_status_created
-          ON ${CONFLICTS_TABLE}(org_id, status, created_at DESC);
-
-        CREATE INDEX IF NOT EXISTS idx_sync_conflicts_entity
-          ON ${CONFLICTS_TABLE}(org_id, entity, entity_id, created_at DESC);
-
-        CREATE UNIQUE INDEX IF NOT EXISTS idx_sync_conflicts_open_operation
-          ON ${CONFLICTS_TABLE}(operation_id)
-          WHERE status = 'OPEN';
-
-        CREATE TABLE IF NOT EXISTS ${POLICIES_TABLE} (
-          org_id TEXT NOT NULL,
-          entity TEXT NOT NULL,
-          policy TEXT NOT NULL CHECK (policy IN ('LWW', 'SERVER_WINS', 'MANUAL')),
-          updated_at TEXT NOT NULL,
-          updated_by TEXT,
-          PRIMARY KEY (org_id, entity)
-        );
-
-        CREATE INDEX IF NOT EXISTS idx_sync_conflict_policies_org
-          ON ${POLICIES_TABLE}(org_id, updated_at DESC);
-      `);
+      await db.execAsync('PRAGMA journal_mode = WAL;');
+      await db.execAsync('BEGIN;');
+
+      try {
+        const detached = await detachLegacyTables(db);
+
+        await db.execAsync(`
+          CREATE TABLE IF NOT EXISTS ${CONFLICTS_TABLE} (
+            id TEXT PRIMARY KEY NOT NULL,
+            org_id TEXT NOT NULL,
+            entity TEXT NOT NULL,
+            entity_id TEXT NOT NULL,
+            operation_id TEXT NOT NULL,
+            operation_type TEXT NOT NULL CHECK (operation_type IN ('CREATE', 'UPDATE', 'DELETE')),
+            local_payload TEXT NOT NULL,
+            server_payload TEXT NOT NULL,
+            base_payload TEXT,
+            policy TEXT NOT NULL CHECK (policy IN ('LWW', 'SERVER_WINS', 'MANUAL', 'FIELD_MERGE')),
+            status TEXT NOT NULL CHECK (status IN ('OPEN', 'RESOLVED')),
+            reason TEXT,
+            created_at TEXT NOT NULL,
+            resolved_at TEXT,
+            resolution_action TEXT CHECK (resolution_action IN ('KEEP_LOCAL', 'KEEP_SERVER', 'MERGE')),
+            merged_payload TEXT,
+            resolver_user_id TEXT
+          );
+
+          CREATE INDEX IF NOT EXISTS idx_sync_conflicts_org_status_created
+            ON ${CONFLICTS_TABLE}(org_id, status, created_at DESC);
+
+          CREATE INDEX IF NOT EXISTS idx_sync_conflicts_entity
+            ON ${CONFLICTS_TABLE}(org_id, entity, entity_id, created_at DESC);
+
+          CREATE UNIQUE INDEX IF NOT EXISTS idx_sync_conflicts_open_operation
+            ON ${CONFLICTS_TABLE}(operation_id)
+            WHERE status = 'OPEN';
+
+          CREATE TABLE IF NOT EXISTS ${POLICIES_TABLE} (
+            org_id TEXT NOT NULL,
+            entity TEXT NOT NULL,
+            policy TEXT NOT NULL CHECK (policy IN ('LWW', 'SERVER_WINS', 'MANUAL', 'FIELD_MERGE')),
+            updated_at TEXT NOT NULL,
+            updated_by TEXT,
+            PRIMARY KEY (org_id, entity)
+          );
+
+          CREATE INDEX IF NOT EXISTS idx_sync_conflict_policies_org
+            ON ${POLICIES_TABLE}(org_id, updated_at DESC);
+
+          CREATE TABLE IF NOT EXISTS ${BASES_TABLE} (
+            entity TEXT NOT NULL,
+            entity_id TEXT NOT NULL,
+            org_id TEXT NOT NULL,
+            payload TEXT NOT NULL,
+            server_updated_at TEXT,
+            captured_at TEXT NOT NULL,
+            PRIMARY KEY (entity, entity_id)
+          );
+        `);
+
+        await restoreLegacyTables(db, detached);
+        await db.execAsync('COMMIT;');
+      } catch (error) {
+        await db.execAsync('ROLLBACK;');
+        throw error;
+      }
     })();
   }
 
@@ -355,6 +537,114 @@ async function markResolved(
   return updated;
 }
 
+async function requeuePayload(conflict: SyncConflict, payloadToQueue: JsonRecord) {
+  const normalizedPayload: JsonRecord = {
+    ...payloadToQueue,
+    id:
+      typeof payloadToQueue.id === 'string' && payloadToQueue.id.trim().length > 0
+        ? payloadToQueue.id
+        : conflict.entity_id,
+    orgId:
+      typeof payloadToQueue.orgId === 'string' && payloadToQueue.orgId.trim().length > 0
+        ? payloadToQueue.orgId
+        : conflict.org_id,
+    org_id:
+      typeof payloadToQueue.org_id === 'string' && payloadToQueue.org_id.trim().length > 0
+        ? payloadToQueue.org_id
+        : conflict.org_id
+  };
+
+  await offlineDB.enqueueOperation({
+    entity: conflict.entity,
+    entity_id: conflict.entity_id,
+    type: conflict.operation_type,
+    payload: normalizedPayload,
+    status: 'PENDING'
+  });
+}
+
+async function saveBase(input: ConflictBaseInput) {
+  await ensureSetup();
+  const db = await getDb();
+
+  await db.runAsync(
+    `
+      INSERT OR REPLACE INTO ${BASES_TABLE}
+      (entity, entity_id, org_id, payload, server_updated_at, captured_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `,
+    input.entity,
+    input.entity_id,
+    input.org_id,
+    JSON.stringify(input.payload),
+    normalizeText(input.server_updated_at) || null,
+    nowIso()
+  );
+}
+
+async function resolveConflict(
+  conflict: SyncConflict,
+  action: ConflictResolutionAction,
+  mergedPayload: JsonRecord | undefined,
+  options: ConflictResolveOptions,
+  resolverUserId?: string
+) {
+  const shouldRequeue = options.requeue !== false;
+
+  let payloadToQueue: JsonRecord | null = null;
+  if (action === 'KEEP_LOCAL') {
+    payloadToQueue = conflict.local_payload;
+  } else if (action === 'MERGE') {
+    payloadToQueue = ensureObject(mergedPayload, 'mergedPayload');
+  }
+
+  if (shouldRequeue && payloadToQueue) {
+    await requeuePayload(conflict, payloadToQueue);
+  }
+
+  if (isPullConflict(conflict)) {
+    // Pull-side conflicts carry the full remote row: keeping the server means writing it locally,
+    // a merge is written locally too so the screens show what will be pushed.
+    if (action === 'KEEP_SERVER') {
+      await applyServerSide(conflict);
+    } else if (action === 'MERGE' && payloadToQueue) {
+      await localApply.applyRemoteChange(conflict.entity, {
+        entity_id: conflict.entity_id,
+        payload: payloadToQueue,
+        deleted: false,
+        updated_at: nowIso()
+      });
+    }
+
+    if (action !== 'KEEP_LOCAL' && conflict.server_payload.deleted !== true) {
+      await saveBase({
+        org_id: conflict.org_id,
+        entity: conflict.entity,
+        entity_id: conflict.entity_id,
+        payload: serverRecordOf(conflict),
+        server_updated_at:
+          typeof conflict.server_payload.server_updated_at === 'string'
+            ? conflict.server_payload.server_updated_at
+            : undefined
+      });
+    }
+  }
+
+  return markResolved(
+    conflict.id,
+    action,
+    action === 'MERGE' ? ensureObject(mergedPayload, 'mergedPayload') : undefined,
+    resolverUserId
+  );
+}
+
+function stampMerged(merged: JsonRecord): JsonRecord {
+  return {
+    ...merged,
+    updated_at: nowIso()
+  };
+}
+
 export const conflicts: ConflictApi = {
   setContext(context: Partial<ConflictContext>) {
     contextOrgId = normalizeText(context.org_id) || null;
@@ -416,47 +706,7 @@ export const conflicts: ConflictApi = {
       return conflict;
     }
 
-    const shouldRequeue = options.requeue !== false;
-
-    let payloadToQueue: JsonRecord | null = null;
-    if (safeAction === 'KEEP_LOCAL') {
-      payloadToQueue = conflict.local_payload;
-    } else if (safeAction === 'MERGE') {
-      payloadToQueue = ensureObject(mergedPayload, 'mergedPayload');
-    }
-
-    if (shouldRequeue && payloadToQueue) {
-      const normalizedPayload: JsonRecord = {
-        ...payloadToQueue,
-        id:
-          typeof payloadToQueue.id === 'string' && payloadToQueue.id.trim().length > 0
-            ? payloadToQueue.id
-            : conflict.entity_id,
-        orgId:
-          typeof payloadToQueue.orgId === 'string' && payloadToQueue.orgId.trim().length > 0
-            ? payloadToQueue.orgId
-            : conflict.org_id,
-        org_id:
-          typeof payloadToQueue.org_id === 'string' && payloadToQueue.org_id.trim().length > 0
-            ? payloadToQueue.org_id
-            : conflict.org_id
-      };
-
-      await offlineDB.enqueueOperation({
-        entity: conflict.entity,
-        entity_id: conflict.entity_id,
-        type: conflict.operation_type,
-        payload: normalizedPayload,
-        status: 'PENDING'
-      });
-    }
-
-    return markResolved(
-      conflict.id,
-      safeAction,
-      safeAction === 'MERGE' ? ensureObject(mergedPayload, 'mergedPayload') : undefined,
-      contextUserId ?? undefined
-    );
+    return resolveConflict(conflict, safeAction, mergedPayload, options, contextUserId ?? undefined);
   },
 
   async setPolicy(entity: string, policy: ConflictPolicy) {
@@ -597,6 +847,7 @@ export const conflicts: ConflictApi = {
       operation_type: input.operation_type,
       local_payload: ensureObject(input.local_payload, 'local_payload'),
       server_payload: ensureObject(input.server_payload, 'server_payload'),
+      base_payload: input.base_payload ? ensureObject(input.base_payload, 'base_payload') : undefined,
       policy: safePolicy,
       status: 'OPEN',
       reason: normalizeText(input.reason) || undefined,
@@ -609,13 +860,13 @@ export const conflicts: ConflictApi = {
         (
           id, org_id, entity, entity_id,
           operation_id, operation_type,
-          local_payload, server_payload,
+          local_payload, server_payload, base_payload,
           policy, status,
           reason, created_at,
           resolved_at, resolution_action,
           merged_payload, resolver_user_id
         )
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, NULL, NULL, NULL, NULL)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, NULL, NULL, NULL, NULL)
       `,
       next.id,
       next.org_id,
@@ -625,6 +876,7 @@ export const conflicts: ConflictApi = {
       next.operation_type,
       JSON.stringify(next.local_payload),
       JSON.stringify(next.server_payload),
+      next.base_payload ? JSON.stringify(next.base_payload) : null,
       next.policy,
       next.status,
       next.reason ?? null,
@@ -647,5 +899,131 @@ export const conflicts: ConflictApi = {
     }
 
     return markResolved(conflict.id, safeAction, undefined, normalizeText(contextUserId) || undefined);
+  },
+
+  async previewMerge(id) {
+    const conflict = await findConflictById(id);
+    if (!conflict) {
+      throw new Error('Conflit introuvable.');
+    }
+
+    return computeMerge(conflict);
+  },
+
+  async resolveFields(id, choices, options = {}) {
+    const conflict = await findConflictById(id);
+    if (!conflict) {
+      throw new Error('Conflit introuvable.');
+    }
+
+    if (conflict.status === 'RESOLVED') {
+      return conflict;
+    }
+
+    const result = computeMerge(conflict);
+    const merged = stampMerged(applyFieldChoices(result, choices));
+
+    return resolveConflict(conflict, 'MERGE', merged, options, contextUserId ?? undefined);
+  },
+
+  /**
+   * FIELD_MERGE policy: resolves the conflict when no field was edited differently on both sides,
+   * otherwise leaves it OPEN for the per-field choice in ConflictsScreen.
+   */
+  async autoMerge(id) {
+    const conflict = await findConflictById(id);
+    if (!conflict) {
+      throw new Error('Conflit introuvable.');
+    }
+
+    if (conflict.status === 'RESOLVED') {
+      return conflict;
+    }
+
+    let result: FieldMergeResult;
+    try {
+      result = computeMerge(conflict);
+    } catch {
+      return conflict;
+    }
+
+    if (result.conflicts.length > 0) {
+      return conflict;
+    }
+
+    return resolveConflict(conflict, 'MERGE', stampMerged(result.merged), {}, undefined);
+  },
+
+  async recordBase(input) {
+    const entity = normalizeText(input.entity);
+    const entityId = normalizeText(input.entity_id);
+    const orgId = normalizeText(input.org_id);
+
+    if (!entity || !entityId || !orgId) {
+      return;
+    }
+
+    await saveBase({ ...input, org_id: orgId, entity, entity_id: entityId });
+  },
+
+  /**
+   * After a successful push the local row is what the server holds, unless later local edits on
+   * the same entity are still queued (the base must not include them).
+   */
+  async captureLocalBase(orgId, entity, entityId) {
+    await ensureSetup();
+    const db = await getDb();
+
+    const pending = await db.getFirstAsync<{ count: number }>(
+      `
+        SELECT COUNT(*) AS count
+        FROM ${OPERATIONS_TABLE}
+        WHERE entity = ?
+          AND entity_id = ?
+          AND status != 'SYNCED'
+          AND retry_count < ?
+      `,
+      entity,
+      entityId,
+      securityPolicies.maxSyncAttempts
+    );
+
+    if ((pending?.count ?? 0) > 0) {
+      return;
+    }
+
+    const row = await localApply.getRow(entity, entityId);
+    if (!row) {
+      await conflicts.clearBase(entity, entityId);
+      return;
+    }
+
+    await conflicts.recordBase({ org_id: orgId, entity, entity_id: entityId, payload: row });
+  },
+
+  async getBase(entity, entityId) {
+    await ensureSetup();
+    const db = await getDb();
+
+    const row = await db.getFirstAsync<BaseRow>(
+      `
+        SELECT payload
+        FROM ${BASES_TABLE}
+        WHERE entity = ?
+          AND entity_id = ?
+        LIMIT 1
+      `,
+      entity,
+      entityId
+    );
+
+    return row ? parseJsonObject(row.payload) : null;
+  },
+
+  async clearBase(entity, entityId) {
+    await ensureSetup();
+    const db = await getDb();
+
+    await db.runAsync(`DELETE FROM ${BASES_TABLE} WHERE entity = ? AND entity_id = ?`, entity, entityId);
   }
 };
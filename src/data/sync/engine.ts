@@ -14,6 +14,8 @@ export async function syncOnce(
 
   return {
     pushed: 0,
+    pulled: 0,
+    conflicts: 0,
     failed: 0,
     dead: 0,
     remaining: syncEngine.getStatus().pendingOps
@@ -0,0 +1,181 @@
+import * as SQLite from 'expo-sqlite';
+import { extractRemoteRecord } from './remoteRecord';
+import { RemoteChange } from './types';
+
+const DB_NAME = 'conformeo.db';
+
+// Columns that only make sense on the device that produced them (file paths, caches).
+const DEVICE_LOCAL_COLUMN_PREFIX = 'local_';
+const SAFE_IDENTIFIER = /^[a-z_][a-z0-9_]*$/;
+
+type JsonRecord = Record<string, unknown>;
+
+type ColumnInfo = {
+  name: string;
+  type: string;
+  notnull: number;
+  dflt_value: string | null;
+  pk: number;
+};
+
+type SqlValue = string | number | null;
+
+let dbPromise: Promise<SQLite.SQLiteDatabase> | null = null;
+const columnsCache = new Map<string, ColumnInfo[]>();
+
+async function getDb() {
+  if (!dbPromise) {
+    dbPromise = SQLite.openDatabaseAsync(DB_NAME);
+  }
+
+  return dbPromise;
+}
+
+function ensureIdentifier(value: string) {
+  if (!SAFE_IDENTIFIER.test(value)) {
+    throw new Error(`Identifiant SQL invalide: ${value}`);
+  }
+
+  return value;
+}
+
+function toSqlValue(value: unknown): SqlValue | undefined {
+  if (value === undefined) return undefined;
+  if (value === null) return null;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'string') return value;
+  return JSON.stringify(value);
+}
+
+function defaultForColumn(column: ColumnInfo): SqlValue {
+  if (!column.notnull) {
+    return null;
+  }
+
+  const type = column.type.toUpperCase();
+  if (type.includes('INT') || type.includes('REAL') || type.includes('NUM')) {
+    return 0;
+  }
+
+  return '';
+}
+
+function resolveColumnValue(column: ColumnInfo, record: JsonRecord): SqlValue | undefined {
+  if (column.name.startsWith(DEVICE_LOCAL_COLUMN_PREFIX)) {
+    return undefined;
+  }
+
+  if (column.name in record) {
+    return toSqlValue(record[column.name]);
+  }
+
+  if (column.name.endsWith('_json')) {
+    const base = column.name.slice(0, -'_json'.length);
+    if (base in record) {
+      const value = record[base];
+      return value === undefined || value === null ? null : JSON.stringify(value);
+    }
+  }
+
+  return undefined;
+}
+
+async function getColumns(table: string) {
+  const cached = columnsCache.get(table);
+  if (cached) {
+    return cached;
+  }
+
+  const db = await getDb();
+  const columns = await db.getAllAsync<ColumnInfo>(`PRAGMA table_info(${ensureIdentifier(table)})`);
+
+  // An empty result means the owning module has not created its table yet: do not cache it.
+  if (columns.length > 0) {
+    columnsCache.set(table, columns);
+  }
+
+  return columns;
+}
+
+export const localApply = {
+  async hasTable(table: string) {
+    const columns = await getColumns(table);
+    return columns.length > 0;
+  },
+
+  async getRow(table: string, id: string): Promise<JsonRecord | null> {
+    const columns = await getColumns(table);
+    if (columns.length === 0) {
+      return null;
+    }
+
+    const db = await getDb();
+    const row = await db.getFirstAsync<JsonRecord>(
+      `SELECT * FROM ${ensureIdentifier(table)} WHERE id = ? LIMIT 1`,
+      id
+    );
+
+    return row ?? null;
+  },
+
+  /**
+   * Upserts (or soft-deletes) a remote row into the module table that owns `entity`.
+   * Device-local columns (`local_*`) are never overwritten by remote data.
+   */
+  async applyRemoteChange(table: string, change: RemoteChange): Promise<boolean> {
+    const columns = await getColumns(table);
+    if (columns.length === 0) {
+      return false;
+    }
+
+    const db = await getDb();
+    const safeTable = ensureIdentifier(table);
+    const hasSoftDelete = columns.some((column) => column.name === 'deleted_at');
+
+    if (change.deleted && !hasSoftDelete) {
+      await db.runAsync(`DELETE FROM ${safeTable} WHERE id = ?`, change.entity_id);
+      return true;
+    }
+
+    const record = extractRemoteRecord(change);
+    if (change.deleted) {
+      record.deleted_at = typeof record.deleted_at === 'string' ? record.deleted_at : change.updated_at;
+    }
+
+    const existing = await db.getFirstAsync<Record<string, SqlValue>>(
+      `SELECT * FROM ${safeTable} WHERE id = ? LIMIT 1`,
+      change.entity_id
+    );
+
+    const names: string[] = [];
+    const values: SqlValue[] = [];
+
+    for (const column of columns) {
+      const remoteValue = resolveColumnValue(column, record);
+      let value: SqlValue;
+
+      if (remoteValue !== undefined && !(remoteValue === null && column.notnull)) {
+        value = remoteValue;
+      } else if (existing && column.name in existing) {
+        value = existing[column.name] ?? defaultForColumn(column);
+      } else {
+        value = defaultForColumn(column);
+      }
+
+      names.push(ensureIdentifier(column.name));
+      values.push(value);
+    }
+
+    await db.runAsync(
+      `
+        INSERT OR REPLACE INTO ${safeTable}
+        (${names.join(', ')})
+        VALUES (${names.map(() => '?').join(', ')})
+      `,
+      ...values
+    );
+
+    return true;
+  }
+};
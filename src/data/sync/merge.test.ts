@@ -0,0 +1,95 @@
+/// <reference types="node" />
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { applyFieldChoices, threeWayMerge, toMergeRecord } from './merge';
+
+const base = { id: 't1', title: 'Coffrage', status: 'TODO', priority: 'LOW', tags: ['a', 'b'] };
+
+describe('threeWayMerge (FIELD_MERGE)', () => {
+  it('takes each side for fields edited on that side only', () => {
+    const local = { ...base, title: 'Coffrage R+1' };
+    const server = { ...base, status: 'DONE', updated_at: '2026-10-19T08:00:00Z' };
+
+    const result = threeWayMerge(base, local, server);
+
+    assert.equal(result.has_base, true);
+    assert.deepEqual(result.conflicts, []);
+    assert.equal(result.merged.title, 'Coffrage R+1');
+    assert.equal(result.merged.status, 'DONE');
+    assert.equal(result.fields.find((field) => field.field === 'title')?.source, 'LOCAL');
+    assert.equal(result.fields.find((field) => field.field === 'status')?.source, 'SERVER');
+  });
+
+  it('keeps an identical edit on both sides without conflict', () => {
+    const result = threeWayMerge(base, { ...base, priority: 'HIGH' }, { ...base, priority: 'HIGH' });
+
+    assert.deepEqual(result.conflicts, []);
+    assert.equal(result.fields.find((field) => field.field === 'priority')?.source, 'BOTH');
+  });
+
+  it('reports a field edited differently on both sides as a conflict', () => {
+    const result = threeWayMerge(base, { ...base, title: 'Local' }, { ...base, title: 'Serveur' });
+
+    assert.deepEqual(result.conflicts, [{ field: 'title', base: 'Coffrage', local: 'Local', server: 'Serveur' }]);
+    assert.equal(result.merged.title, 'Serveur');
+  });
+
+  it('merges primitive lists as sets, honouring removals from either side', () => {
+    const result = threeWayMerge(base, { ...base, tags: ['a', 'b', 'c'] }, { ...base, tags: ['b', 'd'] });
+
+    assert.deepEqual(result.conflicts, []);
+    assert.deepEqual(result.merged.tags, ['b', 'd', 'c']);
+  });
+
+  it('treats a field missing from a local patch as not edited locally', () => {
+    const result = threeWayMerge(base, { title: 'Patch' }, { ...base, status: 'DONE' });
+
+    assert.equal(result.merged.title, 'Patch');
+    assert.equal(result.merged.status, 'DONE');
+    assert.deepEqual(result.conflicts, []);
+  });
+
+  it('reports every diverging field as a conflict without a base', () => {
+    const result = threeWayMerge(null, { ...base, title: 'Local' }, { ...base, title: 'Serveur' });
+
+    assert.equal(result.has_base, false);
+    assert.deepEqual(
+      result.conflicts.map((conflict) => conflict.field),
+      ['title']
+    );
+  });
+});
+
+describe('applyFieldChoices', () => {
+  it('applies the chosen side on each conflicting field', () => {
+    const result = threeWayMerge(base, { ...base, title: 'Local' }, { ...base, title: 'Serveur' });
+
+    assert.equal(applyFieldChoices(result, { title: 'LOCAL' }).title, 'Local');
+    assert.equal(applyFieldChoices(result, { title: 'SERVER' }).title, 'Serveur');
+  });
+
+  it('rejects a conflict left without a choice', () => {
+    const result = threeWayMerge(base, { ...base, title: 'Local' }, { ...base, title: 'Serveur' });
+
+    assert.throws(() => applyFieldChoices(result, {}), /Choix manquant pour le champ title/);
+  });
+});
+
+describe('toMergeRecord', () => {
+  it('flattens a sync envelope, parses *_json columns and drops device-local columns', () => {
+    const record = toMergeRecord('t1', {
+      orgId: 'org-1',
+      data: { title: 'Coffrage', tags_json: '["a","b"]', local_path: '/tmp/x.jpg' },
+      patch: { title: 'ignored' }
+    });
+
+    assert.deepEqual(record, { title: 'Coffrage', tags: ['a', 'b'], org_id: 'org-1', id: 't1' });
+  });
+
+  it('applies the patch of a patch-only payload', () => {
+    const record = toMergeRecord('t1', { orgId: 'org-1', patch: { status: 'DONE' } });
+
+    assert.equal(record.status, 'DONE');
+    assert.equal(record.id, 't1');
+  });
+});
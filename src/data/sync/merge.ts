@@ -0,0 +1,218 @@
+import { extractRemoteRecord } from './remoteRecord';
+
+type JsonRecord = Record<string, unknown>;
+
+// Bookkeeping columns: always differ between sides and never carry a user edit.
+const META_FIELDS = new Set(['id', 'org_id', 'created_at', 'created_by', 'updated_at', 'updated_by']);
+const DEVICE_LOCAL_FIELD_PREFIX = 'local_';
+const JSON_COLUMN_SUFFIX = '_json';
+
+export type MergedFieldSource = 'UNCHANGED' | 'LOCAL' | 'SERVER' | 'BOTH' | 'UNION';
+
+export type MergedField = {
+  field: string;
+  source: MergedFieldSource;
+  value: unknown;
+};
+
+export type FieldConflict = {
+  field: string;
+  base?: unknown;
+  local: unknown;
+  server: unknown;
+};
+
+export type FieldMergeResult = {
+  /** false when no base version was known: every diverging field is then reported as a conflict. */
+  has_base: boolean;
+  /** Server row with every non-conflicting field merged in (conflicting fields keep the server value). */
+  merged: JsonRecord;
+  fields: MergedField[];
+  conflicts: FieldConflict[];
+};
+
+export type FieldChoice = 'LOCAL' | 'SERVER';
+
+function isObject(value: unknown): value is JsonRecord {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+
+  if (isObject(value)) {
+    const keys = Object.keys(value).sort();
+    return `{${keys.map((key) => `${JSON.stringify(key)}:${stableStringify(value[key])}`).join(',')}}`;
+  }
+
+  return JSON.stringify(value ?? null);
+}
+
+function sameValue(left: unknown, right: unknown) {
+  return stableStringify(left) === stableStringify(right);
+}
+
+function isPrimitiveArray(value: unknown): value is Array<string | number> {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string' || typeof item === 'number');
+}
+
+/**
+ * Set-like merge of two edited lists (tags, ids...): keeps additions from both sides and
+ * drops items that either side removed from the base.
+ */
+function mergeLists(base: unknown, local: Array<string | number>, server: Array<string | number>) {
+  const baseItems = isPrimitiveArray(base) ? base : [];
+  const localKeys = new Set(local.map((item) => stableStringify(item)));
+  const serverKeys = new Set(server.map((item) => stableStringify(item)));
+
+  const removed = new Set(
+    baseItems
+      .map((item) => stableStringify(item))
+      .filter((key) => !localKeys.has(key) || !serverKeys.has(key))
+  );
+
+  const seen = new Set<string>();
+  const merged: Array<string | number> = [];
+
+  for (const item of [...server, ...local]) {
+    const key = stableStringify(item);
+    if (removed.has(key) || seen.has(key)) {
+      continue;
+    }
+
+    seen.add(key);
+    merged.push(item);
+  }
+
+  return merged;
+}
+
+function parseJsonColumn(raw: string): unknown {
+  try {
+    return JSON.parse(raw) as unknown;
+  } catch {
+    return raw;
+  }
+}
+
+/**
+ * Flattens a sync payload (`{ data, patch, ... }` or flat row) or a local SQLite row into
+ * comparable fields: `*_json` columns are parsed under their base name, device-local columns dropped.
+ */
+export function toMergeRecord(entityId: string, payload: JsonRecord): JsonRecord {
+  const record = extractRemoteRecord({ entity_id: entityId, payload });
+
+  if (isObject(payload.patch) && !isObject(payload.data)) {
+    Object.assign(record, payload.patch);
+  }
+
+  const normalized: JsonRecord = {};
+
+  for (const [key, value] of Object.entries(record)) {
+    if (key.startsWith(DEVICE_LOCAL_FIELD_PREFIX)) {
+      continue;
+    }
+
+    if (key.endsWith(JSON_COLUMN_SUFFIX) && typeof value === 'string') {
+      const base = key.slice(0, -JSON_COLUMN_SUFFIX.length);
+      if (!(base in record)) {
+        normalized[base] = parseJsonColumn(value);
+        continue;
+      }
+    }
+
+    normalized[key] = value;
+  }
+
+  return normalized;
+}
+
+/**
+ * Three-way merge at field level. A field edited on one side only takes that side, a field edited
+ * identically on both sides is kept, lists of primitives are merged as sets, anything else edited
+ * differently on both sides is a conflict. A field missing from the local record (patch payload)
+ * counts as not edited locally.
+ */
+export function threeWayMerge(base: JsonRecord | null, local: JsonRecord, server: JsonRecord): FieldMergeResult {
+  const fields: MergedField[] = [];
+  const conflicts: FieldConflict[] = [];
+  const merged: JsonRecord = { ...server };
+
+  const names = Array.from(new Set([...Object.keys(local), ...Object.keys(server)]))
+    .filter((name) => !META_FIELDS.has(name))
+    .sort((left, right) => left.localeCompare(right));
+
+  for (const field of names) {
+    const serverValue = server[field];
+
+    if (!(field in local)) {
+      fields.push({ field, source: 'UNCHANGED', value: serverValue });
+      continue;
+    }
+
+    const localValue = local[field];
+
+    if (sameValue(localValue, serverValue)) {
+      fields.push({ field, source: sameValue(localValue, base?.[field]) ? 'UNCHANGED' : 'BOTH', value: localValue });
+      continue;
+    }
+
+    if (base && field in base) {
+      const baseValue = base[field];
+
+      if (sameValue(localValue, baseValue)) {
+        fields.push({ field, source: 'SERVER', value: serverValue });
+        continue;
+      }
+
+      if (sameValue(serverValue, baseValue) || !(field in server)) {
+        merged[field] = localValue;
+        fields.push({ field, source: 'LOCAL', value: localValue });
+        continue;
+      }
+    } else if (!(field in server)) {
+      merged[field] = localValue;
+      fields.push({ field, source: 'LOCAL', value: localValue });
+      continue;
+    }
+
+    if (isPrimitiveArray(localValue) && isPrimitiveArray(serverValue)) {
+      const value = mergeLists(base?.[field], localValue, serverValue);
+      merged[field] = value;
+      fields.push({ field, source: 'UNION', value });
+      continue;
+    }
+
+    conflicts.push({
+      field,
+      base: base?.[field],
+      local: localValue,
+      server: serverValue
+    });
+  }
+
+  return {
+    has_base: Boolean(base),
+    merged,
+    fields,
+    conflicts
+  };
+}
+
+/** Applies the user choices on the overlapping fields; every conflict must have a choice. */
+export function applyFieldChoices(result: FieldMergeResult, choices: Record<string, FieldChoice>): JsonRecord {
+  const merged: JsonRecord = { ...result.merged };
+
+  for (const conflict of result.conflicts) {
+    const choice = choices[conflict.field];
+    if (choice !== 'LOCAL' && choice !== 'SERVER') {
+      throw new Error(`Choix manquant pour le champ ${conflict.field}.`);
+    }
+
+    merged[conflict.field] = choice === 'LOCAL' ? conflict.local : conflict.server;
+  }
+
+  return merged;
+}
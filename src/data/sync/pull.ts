@@ -0,0 +1,420 @@
+import * as SQLite from 'expo-sqlite';
+import { securityPolicies } from '../../core/security/policies';
+import { OfflineOperationType, offlineDB } from '../offline/outbox';
+import { sign } from '../signature-probante';
+import { SyncDelta } from '../types';
+import { conflicts } from './conflicts';
+import { localApply } from './local-apply';
+import { resumeCursor } from './pullCursor';
+import { RemoteChange, SyncTransport } from './types';
+
+const DB_NAME = 'conformeo.db';
+const CURSORS_TABLE = 'sync_pull_cursors';
+const OPERATIONS_TABLE = 'operations_queue';
+const SIGNATURES_ENTITY = 'signatures';
+
+const PAGE_SIZE = 200;
+const MAX_PAGES_PER_ENTITY = 10;
+
+// Pull order matters: parents before children so local joins resolve on first display.
+export const PULL_ENTITIES = [
+  'projects',
+  'tasks',
+  'task_comments',
+  'documents',
+  'document_versions',
+  'document_links',
+  'document_reviews',
+  'document_review_decisions',
+  'media_assets',
+  'plan_pins',
+  'plan_pin_links',
+  'planning_items',
+  'planning_dependencies',
+  'recurrence_series',
+  'inspection_templates',
+  'signature_requests',
+  'signatures',
+  'rules_engine_effects',
+  'rules_engine_notifications'
+] as const;
+
+export type PullEntity = (typeof PULL_ENTITIES)[number];
+
+export type PullApplyResult = {
+  applied: number;
+  conflicts: number;
+  skipped: number;
+  /** Changes left unapplied after an apply error (the first failing one and those after it). */
+  failed: number;
+  /** Cursor covering the changes processed from this page, null when none was. */
+  cursor: string | null;
+};
+
+export type PullEntityResult = PullApplyResult & {
+  entity: string;
+  pulled: number;
+  cursor: string | null;
+};
+
+export type PullRunResult = {
+  pulled: number;
+  applied: number;
+  conflicts: number;
+  entities: PullEntityResult[];
+};
+
+type CursorRow = {
+  org_id: string;
+  entity: string;
+  cursor: string;
+  updated_at: string;
+};
+
+type PendingOperationRow = {
+  id: string;
+  type: OfflineOperationType;
+  payload: string;
+  created_at: string;
+};
+
+let dbPromise: Promise<SQLite.SQLiteDatabase> | null = null;
+let setupPromise: Promise<void> | null = null;
+
+function nowIso() {
+  return new Date().toISOString();
+}
+
+function normalizeText(value: string | null | undefined) {
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+function parseJsonObject(raw: string): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+      return parsed as Record<string, unknown>;
+    }
+    return { value: parsed };
+  } catch {
+    return {};
+  }
+}
+
+async function getDb() {
+  if (!dbPromise) {
+    dbPromise = SQLite.openDatabaseAsync(DB_NAME);
+  }
+
+  return dbPromise;
+}
+
+async function ensureSetup() {
+  if (!setupPromise) {
+    setupPromise = (async () => {
+      const db = await getDb();
+
+      await db.execAsync(`
+        PRAGMA journal_mode = WAL;
+
+        CREATE TABLE IF NOT EXISTS ${CURSORS_TABLE} (
+          org_id TEXT NOT NULL,
+          entity TEXT NOT NULL,
+          cursor TEXT NOT NULL,
+          updated_at TEXT NOT NULL,
+          PRIMARY KEY (org_id, entity)
+        );
+      `);
+    })();
+  }
+
+  return setupPromise;
+}
+
+async function listPendingOperations(entity: string, entityId: string) {
+  const db = await getDb();
+  const rows = await db.getAllAsync<PendingOperationRow>(
+    `
+      SELECT id, type, payload, created_at
+      FROM ${OPERATIONS_TABLE}
+      WHERE entity = ?
+        AND entity_id = ?
+        AND status != 'SYNCED'
+        AND retry_count < ?
+      ORDER BY created_at DESC
+    `,
+    entity,
+    entityId,
+    securityPolicies.maxSyncAttempts
+  );
+
+  return rows;
+}
+
+async function dropPendingOperations(operations: PendingOperationRow[], reason: string) {
+  for (const operation of operations) {
+    await offlineDB.markAsDead(operation.id, reason);
+  }
+}
+
+/** Applies a remote change and keeps it as the base of the next three-way merge. */
+async function applyAndRecordBase(orgId: string, entity: string, change: RemoteChange) {
+  const applied = await localApply.applyRemoteChange(entity, change);
+  if (!applied) {
+    return false;
+  }
+
+  if (change.deleted) {
+    await conflicts.clearBase(entity, change.entity_id);
+  } else {
+    await conflicts.recordBase({
+      org_id: orgId,
+      entity,
+      entity_id: change.entity_id,
+      payload: change.payload,
+      server_updated_at: change.updated_at
+    });
+  }
+
+  return true;
+}
+
+function isRemoteNewer(change: RemoteChange, localCreatedAt: string) {
+  const remoteMs = Date.parse(change.updated_at);
+  const localMs = Date.parse(localCreatedAt);
+
+  if (!Number.isFinite(remoteMs) || !Number.isFinite(localMs)) {
+    return false;
+  }
+
+  return remoteMs > localMs;
+}
+
+/**
+ * A remote change landing on an entity that still has unsent local operations is a divergence:
+ * it is journaled through `conflicts.record()` and arbitrated with the entity policy.
+ */
+async function handleDivergence(
+  orgId: string,
+  entity: string,
+  change: RemoteChange,
+  pending: PendingOperationRow[]
+) {
+  const latest = pending[0];
+  conflicts.setOrg(orgId);
+  const policy = await conflicts.getPolicy(entity, orgId);
+  const reason = `Modification distante concurrente (${change.updated_at})`;
+
+  const conflict = await conflicts.record({
+    org_id: orgId,
+    entity,
+    entity_id: change.entity_id,
+    operation_id: latest.id,
+    operation_type: latest.type,
+    local_payload: parseJsonObject(latest.payload),
+    base_payload: await conflicts.getBase(entity, change.entity_id),
+    server_payload: {
+      source: 'PULL',
+      payload: change.payload,
+      deleted: change.deleted,
+      server_updated_at: change.updated_at,
+      updated_by: change.updated_by
+    },
+    policy,
+    reason
+  });
+
+  const serverWins = policy === 'SERVER_WINS' || (policy === 'LWW' && isRemoteNewer(change, latest.created_at));
+
+  if (serverWins) {
+    await applyAndRecordBase(orgId, entity, change);
+    await dropPendingOperations(pending, `Conflict server-wins (pull): ${reason}`);
+    await conflicts.autoResolve(conflict.id, 'KEEP_SERVER');
+    return;
+  }
+
+  if (policy === 'LWW') {
+    // Local edit is newer: keep it, the queued operation will overwrite the server on next push.
+    await conflicts.autoResolve(conflict.id, 'KEEP_LOCAL');
+    return;
+  }
+
+  if (policy === 'FIELD_MERGE' && !change.deleted && latest.type !== 'DELETE') {
+    // The merged row is re-queued as a new operation; overlapping fields keep the conflict OPEN.
+    await dropPendingOperations(pending, `Conflict field-merge (pull): ${reason}`);
+    await conflicts.autoMerge(conflict.id);
+    return;
+  }
+
+  // MANUAL (and FIELD_MERGE on deletions): freeze the local operation until a human picks a side.
+  await dropPendingOperations(pending, `Conflict manual required (pull): ${reason}`);
+}
+
+export const deltaPull = {
+  entities: PULL_ENTITIES,
+
+  async getCursor(orgId: string, entity: string) {
+    await ensureSetup();
+    const db = await getDb();
+
+    const row = await db.getFirstAsync<CursorRow>(
+      `
+        SELECT org_id, entity, cursor, updated_at
+        FROM ${CURSORS_TABLE}
+        WHERE org_id = ?
+          AND entity = ?
+        LIMIT 1
+      `,
+      orgId,
+      entity
+    );
+
+    return row?.cursor ?? null;
+  },
+
+  async setCursor(orgId: string, entity: string, cursor: string) {
+    await ensureSetup();
+    const db = await getDb();
+
+    await db.runAsync(
+      `
+        INSERT OR REPLACE INTO ${CURSORS_TABLE}
+        (org_id, entity, cursor, updated_at)
+        VALUES (?, ?, ?, ?)
+      `,
+      orgId,
+      entity,
+      cursor,
+      nowIso()
+    );
+  },
+
+  async resetCursors(orgId: string) {
+    await ensureSetup();
+    const db = await getDb();
+
+    await db.runAsync(`DELETE FROM ${CURSORS_TABLE} WHERE org_id = ?`, orgId);
+  },
+
+  /**
+   * Applies a page in order and stops at the first change that fails to apply: the returned cursor never
+   * covers it, so it is pulled again on the next cycle.
+   */
+  async applyDeltas(orgId: string, delta: SyncDelta<RemoteChange>): Promise<PullApplyResult> {
+    const result: PullApplyResult = { applied: 0, conflicts: 0, skipped: 0, failed: 0, cursor: null };
+    let processed = 0;
+
+    for (const change of delta.items) {
+      try {
+        const pending = await listPendingOperations(delta.entity, change.entity_id);
+
+        if (pending.length > 0) {
+          await handleDivergence(orgId, delta.entity, change, pending);
+          result.conflicts += 1;
+          processed += 1;
+          continue;
+        }
+
+        // A signature is immutable once acked, and the server copy still carries the pushed PENDING status.
+        if (delta.entity === SIGNATURES_ENTITY) {
+          const local = await localApply.getRow(SIGNATURES_ENTITY, change.entity_id);
+          if (local?.status === 'FINAL') {
+            result.skipped += 1;
+            processed += 1;
+            continue;
+          }
+        }
+
+        const applied = await applyAndRecordBase(orgId, delta.entity, change);
+        if (applied && delta.entity === SIGNATURES_ENTITY && !change.deleted) {
+          await sign.markFinal(change.entity_id, change.updated_at);
+        }
+
+        if (applied) {
+          result.applied += 1;
+        } else {
+          result.skipped += 1;
+        }
+        processed += 1;
+      } catch (error) {
+        result.failed = delta.items.length - processed;
+        if (__DEV__) {
+          const message = error instanceof Error ? error.message : String(error);
+          console.warn('[sync-pull] apply error', { entity: delta.entity, id: change.entity_id, error: message });
+        }
+        break;
+      }
+    }
+
+    result.cursor = resumeCursor(delta, processed);
+    return result;
+  },
+
+  async pullEntity(transport: SyncTransport, orgId: string, entity: string): Promise<PullEntityResult> {
+    const result: PullEntityResult = {
+      entity,
+      pulled: 0,
+      applied: 0,
+      conflicts: 0,
+      skipped: 0,
+      failed: 0,
+      cursor: await deltaPull.getCursor(orgId, entity)
+    };
+
+    // The owning module creates its table lazily; pulling before that would lose rows.
+    if (!(await localApply.hasTable(entity))) {
+      return result;
+    }
+
+    for (let page = 0; page < MAX_PAGES_PER_ENTITY; page += 1) {
+      const delta = await transport.pullDeltas({
+        org_id: orgId,
+        entity,
+        cursor: result.cursor,
+        limit: PAGE_SIZE
+      });
+
+      if (delta.items.length === 0) {
+        break;
+      }
+
+      const applied = await deltaPull.applyDeltas(orgId, delta);
+      result.pulled += delta.items.length;
+      result.applied += applied.applied;
+      result.conflicts += applied.conflicts;
+      result.skipped += applied.skipped;
+      result.failed += applied.failed;
+
+      if (applied.cursor && applied.cursor !== result.cursor) {
+        await deltaPull.setCursor(orgId, entity, applied.cursor);
+        result.cursor = applied.cursor;
+      }
+
+      // The failing change (and the rest of the page) is retried on the next cycle.
+      if (applied.failed > 0 || delta.items.length < PAGE_SIZE || !delta.cursor) {
+        break;
+      }
+    }
+
+    return result;
+  },
+
+  async pullAll(transport: SyncTransport, orgId: string): Promise<PullRunResult> {
+    const safeOrgId = normalizeText(orgId);
+    if (!safeOrgId) {
+      throw new Error('org_id requis pour le pull.');
+    }
+
+    const entities: PullEntityResult[] = [];
+    for (const entity of PULL_ENTITIES) {
+      entities.push(await deltaPull.pullEntity(transport, safeOrgId, entity));
+    }
+
+    return {
+      pulled: entities.reduce((sum, item) => sum + item.pulled, 0),
+      applied: entities.reduce((sum, item) => sum + item.applied, 0),
+      conflicts: entities.reduce((sum, item) => sum + item.conflicts, 0),
+      entities
+    };
+  }
+};
@@ -0,0 +1,34 @@
+/// <reference types="node" />
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { changeCursor, resumeCursor } from './pullCursor';
+import type { RemoteChange } from './types';
+
+function change(id: string, updatedAt: string): RemoteChange {
+  return { entity_id: id, payload: {}, deleted: false, updated_at: updatedAt };
+}
+
+const items = [
+  change('a', '2026-10-19T08:00:00.000001+00:00'),
+  change('b', '2026-10-19T08:00:00.000002+00:00'),
+  change('c', '2026-10-19T08:00:00.000003+00:00')
+];
+
+describe('resumeCursor (delta pull)', () => {
+  it('moves to the page cursor once every change is applied', () => {
+    assert.equal(resumeCursor({ entity: 'tasks', items, cursor: 'server-cursor' }, 3), 'server-cursor');
+  });
+
+  it('stops on the last applied change before a failure', () => {
+    assert.equal(resumeCursor({ entity: 'tasks', items, cursor: 'server-cursor' }, 1), changeCursor(items[0]));
+    assert.equal(changeCursor(items[0]), '2026-10-19T08:00:00.000001+00:00|a');
+  });
+
+  it('does not move when the first change fails', () => {
+    assert.equal(resumeCursor({ entity: 'tasks', items, cursor: 'server-cursor' }, 0), null);
+  });
+
+  it('falls back to the last change when the server sends no cursor', () => {
+    assert.equal(resumeCursor({ entity: 'tasks', items }, 3), changeCursor(items[2]));
+  });
+});
@@ -0,0 +1,21 @@
+import type { SyncDelta } from '../types';
+import type { RemoteChange } from './types';
+
+/** Server cursor of one change: `<updated_at>|<entity_id>`, the page order of `pull_sync_deltas`. */
+export function changeCursor(change: Pick<RemoteChange, 'updated_at' | 'entity_id'>) {
+  return `${change.updated_at}|${change.entity_id}`;
+}
+
+/**
+ * Cursor to store once the first `processed` changes of the page are applied locally: the page cursor when
+ * all of them are, else the last processed change (null when none is), so that an unapplied row is pulled again.
+ */
+export function resumeCursor(delta: SyncDelta<RemoteChange>, processed: number): string | null {
+  const count = Math.max(0, Math.min(processed, delta.items.length));
+
+  if (count === delta.items.length && delta.cursor) {
+    return delta.cursor;
+  }
+
+  return count > 0 ? changeCursor(delta.items[count - 1]) : null;
+}
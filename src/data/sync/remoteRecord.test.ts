@@ -0,0 +1,48 @@
+/// <reference types="node" />
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { extractRemoteRecord, mapRemoteChange } from './remoteRecord';
+
+describe('mapRemoteChange', () => {
+  it('keeps the fields of a pulled change and defaults the optional ones', () => {
+    assert.deepEqual(
+      mapRemoteChange({ entity_id: 't1', updated_at: '2026-10-19T08:00:00.000001+00:00', payload: { title: 'A' }, extra: 1 }),
+      {
+        entity_id: 't1',
+        payload: { title: 'A' },
+        deleted: false,
+        updated_at: '2026-10-19T08:00:00.000001+00:00',
+        updated_by: undefined
+      }
+    );
+    assert.equal(mapRemoteChange({ entity_id: 't1', updated_at: 'x', payload: [1], deleted: 'yes' })?.deleted, false);
+    assert.deepEqual(mapRemoteChange({ entity_id: 't1', updated_at: 'x', payload: [1] })?.payload, {});
+  });
+
+  it('rejects items without entity_id or updated_at', () => {
+    assert.equal(mapRemoteChange({ entity_id: 't1' }), null);
+    assert.equal(mapRemoteChange({ updated_at: '2026-10-19T08:00:00Z' }), null);
+    assert.equal(mapRemoteChange('t1'), null);
+    assert.equal(mapRemoteChange(null), null);
+  });
+});
+
+describe('extractRemoteRecord', () => {
+  it('flattens a `{ data, patch }` envelope and forces the row id', () => {
+    assert.deepEqual(
+      extractRemoteRecord({
+        entity_id: 't1',
+        payload: { orgId: 'org-1', entityId: 'other', data: { id: 'stale', title: 'A' }, patch: { title: 'B' } }
+      }),
+      { id: 't1', title: 'A', org_id: 'org-1' }
+    );
+  });
+
+  it('keeps the org_id of a flat row', () => {
+    assert.deepEqual(extractRemoteRecord({ entity_id: 't1', payload: { org_id: 'org-2', orgId: 'org-1', title: 'A' } }), {
+      id: 't1',
+      org_id: 'org-2',
+      title: 'A'
+    });
+  });
+});
@@ -0,0 +1,51 @@
+import type { RemoteChange } from './types';
+
+const ENVELOPE_KEYS = new Set(['orgId', 'entityId', 'externalId', 'patch', 'data']);
+
+type JsonRecord = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonRecord {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Extracts the entity row from a pushed payload.
+ * Modules either push `{ data: <row>, patch, ... }` or the flat row itself.
+ */
+export function extractRemoteRecord(change: Pick<RemoteChange, 'entity_id' | 'payload'>): JsonRecord {
+  const payload = isObject(change.payload) ? change.payload : {};
+  const source = isObject(payload.data) ? { ...payload, ...payload.data } : payload;
+
+  const record: JsonRecord = {};
+  for (const [key, value] of Object.entries(source)) {
+    if (!ENVELOPE_KEYS.has(key)) {
+      record[key] = value;
+    }
+  }
+
+  if (typeof record.org_id !== 'string' && typeof payload.orgId === 'string') {
+    record.org_id = payload.orgId;
+  }
+
+  record.id = change.entity_id;
+  return record;
+}
+
+/** Validates one pulled item: null when it is not a change (no `entity_id` / `updated_at`). */
+export function mapRemoteChange(value: unknown): RemoteChange | null {
+  const parsed = isObject(value) ? value : {};
+  const entityId = typeof parsed.entity_id === 'string' ? parsed.entity_id : '';
+  const updatedAt = typeof parsed.updated_at === 'string' ? parsed.updated_at : '';
+
+  if (!entityId || !updatedAt) {
+    return null;
+  }
+
+  return {
+    entity_id: entityId,
+    payload: isObject(parsed.payload) ? parsed.payload : {},
+    deleted: parsed.deleted === true,
+    updated_at: updatedAt,
+    updated_by: typeof parsed.updated_by === 'string' ? parsed.updated_by : undefined
+  };
+}
@@ -6,6 +6,7 @@ import { sign } from '../signature-probante';
 import { createSyncTransport } from './transport';
 import { ApplyOperationResponse, SyncRunResult, SyncTransport } from './types';
 import { conflicts } from './conflicts';
+import { deltaPull, PullRunResult } from './pull';
 
 const BATCH_SIZE = 50;
 const MAX_OPS_PER_CYCLE = 500;
@@ -20,6 +21,7 @@ export type SyncEngineStatus = {
   state: SyncEngineState;
   pendingOps: number;
   lastSyncAt?: string;
+  lastPullAt?: string;
   lastError?: string;
   lastTriggerReason?: SyncTriggerReason;
 };
@@ -122,6 +124,7 @@ class SyncEngine {
   private intervalId: ReturnType<typeof setInterval> | null = null;
   private networkSubscription: { remove: () => void } | null = null;
   private transport: SyncTransport = createSyncTransport();
+  private orgId: string | null = null;
 
   private started = false;
   private isSyncing = false;
@@ -129,6 +132,7 @@ class SyncEngine {
 
   private consecutiveFailures = 0;
   private circuitOpenUntil: number | null = null;
+  private cycleConflicts = 0;
 
   start() {
     if (this.started) {
@@ -178,6 +182,16 @@ class SyncEngine {
     }
   }
 
+  setContext(context: { org_id?: string | null }) {
+    const next = valueAsString(context.org_id);
+    const changed = next !== this.orgId;
+    this.orgId = next;
+
+    if (changed && next && this.started && this.isOnline) {
+      void this.triggerSync('MANUAL');
+    }
+  }
+
   async triggerSync(reason: SyncTriggerReason = 'MANUAL') {
     await this.refreshPendingOps();
 
@@ -209,16 +223,25 @@ class SyncEngine {
     this.patchStatus({ state: 'SYNCING', lastError: undefined, lastTriggerReason: reason });
 
     try {
-      const result = await this.pushOutbox();
+      const pushResult = await this.pushOutbox();
+      const pullResult = await this.pullDeltas();
+      const result: SyncRunResult = {
+        ...pushResult,
+        pulled: pullResult?.pulled ?? 0,
+        conflicts: pushResult.conflicts + (pullResult?.conflicts ?? 0),
+        remaining: pullResult ? await this.refreshPendingOps() : pushResult.remaining
+      };
 
       if (result.failed === 0 && result.dead === 0) {
         this.consecutiveFailures = 0;
       }
 
+      const syncedAt = nowIso();
       this.patchStatus({
         state: this.isOnline ? 'IDLE' : 'OFFLINE',
         pendingOps: result.remaining,
-        lastSyncAt: nowIso(),
+        lastSyncAt: syncedAt,
+        lastPullAt: pullResult ? syncedAt : this.status.lastPullAt,
         lastError:
           result.failed > 0 || result.dead > 0
             ? `${result.failed} operation(s) en retry, ${result.dead} en echec terminal`
@@ -273,6 +296,7 @@ class SyncEngine {
     let dead = 0;
     let processed = 0;
     let shouldStopCycle = false;
+    this.cycleConflicts = 0;
 
     while (processed < MAX_OPS_PER_CYCLE && !shouldStopCycle) {
       const batchSize = Math.min(BATCH_SIZE, MAX_OPS_PER_CYCLE - processed);
@@ -321,7 +345,32 @@ class SyncEngine {
       mediaUploadWorker.getPendingCount()
     ]);
 
-    return { pushed, failed, dead, remaining: remainingOutbox + remainingMedia };
+    return {
+      pushed,
+      pulled: 0,
+      conflicts: this.cycleConflicts,
+      failed,
+      dead,
+      remaining: remainingOutbox + remainingMedia
+    };
+  }
+
+  async pullDeltas(): Promise<PullRunResult | null> {
+    if (!this.orgId) {
+      return null;
+    }
+
+    const result = await deltaPull.pullAll(this.transport, this.orgId);
+
+    if (__DEV__ && result.pulled > 0) {
+      console.info('[sync-engine] pull ok', {
+        pulled: result.pulled,
+        applied: result.applied,
+        conflicts: result.conflicts
+      });
+    }
+
+    return result;
   }
 
   async applyOperation(operation: OfflineOperation): Promise<'PUSHED' | 'FAILED' | 'DEAD'> {
@@ -333,6 +382,7 @@ class SyncEngine {
           await sign.markFinal(operation.entity_id, response.server_updated_at);
         }
         await this.markSynced(operation.id);
+        await this.captureBase(operation);
         this.consecutiveFailures = 0;
         return 'PUSHED';
       }
@@ -418,6 +468,7 @@ class SyncEngine {
       policy,
       reason
     });
+    this.cycleConflicts += 1;
 
     if (policy === 'SERVER_WINS') {
       await conflicts.autoResolve(conflict.id, 'KEEP_SERVER');
@@ -428,9 +479,11 @@ class SyncEngine {
       return 'DEAD';
     }
 
-    if (policy === 'LWW') {
+    // FIELD_MERGE: a reject carries no server row. The operation stays queued, the pull of this
+    // cycle sees it pending and runs the three-way merge on the remote row.
+    if (policy === 'LWW' || policy === 'FIELD_MERGE') {
       await conflicts.autoResolve(conflict.id, 'KEEP_LOCAL');
-      await this.markFailed(operation.id, `Conflict lww retry: ${reason}`, {
+      await this.markFailed(operation.id, `Conflict ${policy === 'LWW' ? 'lww' : 'field-merge'} retry: ${reason}`, {
         retryCount: operation.retry_count,
         terminal: false
       });
@@ -449,6 +502,22 @@ class SyncEngine {
     return 'DEAD';
   }
 
+  private async captureBase(operation: OfflineOperation) {
+    const orgId = resolveOrgIdFromPayload(ensurePayloadObject(operation.payload));
+    if (!orgId) {
+      return;
+    }
+
+    try {
+      await conflicts.captureLocalBase(orgId, operation.entity, operation.entity_id);
+    } catch (error) {
+      // The base only improves later merges: never fail a push because of it.
+      if (__DEV__) {
+        console.warn('[sync-engine] base capture error', { entity: operation.entity, error: toErrorMessage(error) });
+      }
+    }
+  }
+
   private isConflictReject(operation: OfflineOperation, response: ApplyOperationResponse, reason: string) {
     if (isConflictReason(reason)) {
       return true;
@@ -1,7 +1,9 @@
 import { appEnv } from '../../core/env';
 import { requireSupabaseClient } from '../../core/supabase/client';
 import { OfflineOperation } from '../offline/outbox';
-import { ApplyOperationResponse, SyncTransport } from './types';
+import { SyncDelta } from '../types';
+import { mapRemoteChange } from './remoteRecord';
+import { ApplyOperationResponse, PullDeltasRequest, RemoteChange, SyncTransport } from './types';
 
 type ApplyOperationRequest = {
   operation_id: string;
@@ -21,6 +23,7 @@ function ensureObject(value: unknown): Record<string, unknown> {
 }
 
 const APPLY_OPERATION_TIMEOUT_MS = 15_000;
+const PULL_DELTAS_TIMEOUT_MS = 20_000;
 let edgeFallbackWarned = false;
 let useRpcOnly = false;
 
@@ -135,6 +138,40 @@ async function invokeRpcFallback(
   };
 }
 
+async function invokePullRpc(request: PullDeltasRequest): Promise<SyncDelta<RemoteChange>> {
+  const client = requireSupabaseClient();
+  const rpcPromise = Promise.resolve(
+    client.rpc('pull_sync_deltas', {
+      p_org_id: request.org_id,
+      p_entity: request.entity,
+      p_cursor: request.cursor,
+      p_limit: request.limit
+    })
+  );
+
+  const rpcResult = (await withTimeout(
+    rpcPromise,
+    PULL_DELTAS_TIMEOUT_MS,
+    'pull_sync_deltas'
+  )) as { data: unknown; error: { message: string } | null };
+
+  const { data, error } = rpcResult;
+
+  if (error) {
+    throw new Error(error.message || 'pull_sync_deltas failed');
+  }
+
+  const parsed = ensureObject(data);
+  const rawItems = Array.isArray(parsed.items) ? parsed.items : [];
+  const items = rawItems.map(mapRemoteChange).filter((item): item is RemoteChange => item !== null);
+
+  return {
+    entity: request.entity,
+    items,
+    cursor: typeof parsed.cursor === 'string' && parsed.cursor.length > 0 ? parsed.cursor : undefined
+  };
+}
+
 function createLocalTransport(): SyncTransport {
   return {
     async pushOperation() {
@@ -143,6 +180,15 @@ function createLocalTransport(): SyncTransport {
         status: 'OK',
         server_updated_at: new Date().toISOString()
       };
+    },
+
+    async pullDeltas(request: PullDeltasRequest) {
+      await Promise.resolve();
+      return {
+        entity: request.entity,
+        items: [],
+        cursor: request.cursor ?? undefined
+      };
     }
   };
 }
@@ -184,6 +230,10 @@ function createSupabaseTransport(): SyncTransport {
         }
         return invokeRpcFallback(request);
       }
+    },
+
+    async pullDeltas(request: PullDeltasRequest) {
+      return invokePullRpc(request);
     }
   };
 }
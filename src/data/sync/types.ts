@@ -1,4 +1,5 @@
 import { OfflineOperation } from '../offline/outbox';
+import { SyncDelta } from '../types';
 
 export type ApplyOperationStatus = 'OK' | 'DUPLICATE' | 'REJECTED';
 
@@ -9,8 +10,24 @@ export type ApplyOperationResponse = {
   server_updated_at?: string;
 };
 
+export type RemoteChange = {
+  entity_id: string;
+  payload: Record<string, unknown>;
+  deleted: boolean;
+  updated_at: string;
+  updated_by?: string;
+};
+
+export type PullDeltasRequest = {
+  org_id: string;
+  entity: string;
+  cursor: string | null;
+  limit: number;
+};
+
 export type SyncTransport = {
   pushOperation(operation: OfflineOperation): Promise<ApplyOperationResponse>;
+  pullDeltas(request: PullDeltasRequest): Promise<SyncDelta<RemoteChange>>;
 };
 
 export type SyncRunOptions = {
@@ -21,6 +38,8 @@ export type SyncRunOptions = {
 
 export type SyncRunResult = {
   pushed: number;
+  pulled: number;
+  conflicts: number;
   failed: number;
   dead: number;
   remaining: number;
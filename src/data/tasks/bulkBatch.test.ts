@@ -0,0 +1,146 @@
+/// <reference types="node" />
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  MAX_BULK_TASKS,
+  assertBulkChange,
+  assertUnchangedSinceBatch,
+  normalizeBulkIds,
+  partitionBulk,
+  pickBulkFields,
+  restoreBulkFields
+} from './bulkBatch';
+import type { Task } from './types';
+
+const CREATED_AT = '2026-10-19T06:00:00.000Z';
+const UPDATED_AT = '2026-10-19T08:00:00.000Z';
+
+function task(id: string, overrides: Partial<Task> = {}): Task {
+  return {
+    id,
+    org_id: 'org-1',
+    project_id: 'p1',
+    title: id.toUpperCase(),
+    status: 'TODO',
+    priority: 'MEDIUM',
+    created_by: 'u1',
+    tags: [],
+    suggestions: [],
+    created_at: CREATED_AT,
+    updated_at: CREATED_AT,
+    progress: 0,
+    ...overrides
+  };
+}
+
+describe('normalizeBulkIds', () => {
+  it('trims and deduplicates the selection', () => {
+    assert.deepEqual(normalizeBulkIds([' t1', 't2', 't1 ', '']), ['t1', 't2']);
+  });
+
+  it('rejects an empty or oversized selection', () => {
+    assert.throws(() => normalizeBulkIds([' ']), /Aucune tâche sélectionnée/);
+    assert.throws(
+      () => normalizeBulkIds(Array.from({ length: MAX_BULK_TASKS + 1 }, (_, index) => `t${index}`)),
+      /limitée à 200 tâches/
+    );
+    assert.equal(normalizeBulkIds(Array.from({ length: MAX_BULK_TASKS }, (_, index) => `t${index}`)).length, 200);
+  });
+});
+
+describe('bulk update partitioning', () => {
+  const tasks: Record<string, Task> = {
+    t1: task('t1'),
+    t2: task('t2', { status: 'DOING' }),
+    t3: task('t3', { project_id: 'archived' })
+  };
+
+  /** SET_STATUS DOING on a selection, with a read-only project and a missing task. */
+  const setDoing = partitionBulk(['t1', 't2', 't3', 'missing'], async (id) => {
+    const current = tasks[id];
+    if (!current) throw new Error('Tâche introuvable.');
+    if (current.project_id === 'archived') throw new Error('Chantier archivé: lecture seule.');
+
+    const next = { ...current, status: 'DOING' as const, updated_at: UPDATED_AT };
+    assertBulkChange(current, next);
+    return { previous: current, next };
+  });
+
+  it('writes the changed tasks and reports the others with their reason, in selection order', async () => {
+    const { entries, skipped } = await setDoing;
+
+    assert.deepEqual(
+      entries.map((entry) => entry.next.id),
+      ['t1']
+    );
+    assert.deepEqual(skipped, [
+      { task_id: 't2', reason: 'Déjà à jour.' },
+      { task_id: 't3', reason: 'Chantier archivé: lecture seule.' },
+      { task_id: 'missing', reason: 'Tâche introuvable.' }
+    ]);
+  });
+
+  it('counts rule outputs as a change but not a bare updated_at', () => {
+    const current = task('t1');
+
+    assert.throws(() => assertBulkChange(current, { ...current, updated_at: UPDATED_AT }), /Déjà à jour/);
+    assert.doesNotThrow(() => assertBulkChange(current, { ...current, tags: ['secu'] }));
+    // An absent optional field and an explicit undefined are the same value.
+    assert.throws(() => assertBulkChange(current, { ...current, due_date: undefined }), /Déjà à jour/);
+  });
+
+  it('reports a non-Error failure with a generic reason', async () => {
+    const { skipped } = await partitionBulk([task('t1')], async () => {
+      throw 'boom';
+    });
+    assert.deepEqual(skipped, [{ task_id: 't1', reason: 'Tâche ignorée.' }]);
+  });
+
+  it('sends only the bulk fields as the outbox patch', () => {
+    const patch = pickBulkFields(task('t1', { title: 'Coffrage', tags: ['lot2'] }));
+
+    assert.equal('title' in patch, false);
+    assert.deepEqual(patch.tags, ['lot2']);
+    assert.equal(patch.due_date, null);
+  });
+});
+
+describe('bulk undo', () => {
+  const before = task('t1', { tags: ['lot2'] });
+  const written = { ...before, status: 'DONE' as const, tags: ['lot2', 'controle'], updated_at: UPDATED_AT };
+
+  it('skips a task changed since the batch on a bulk field', () => {
+    assert.doesNotThrow(() => assertUnchangedSinceBatch({ ...written, title: 'Renommée' }, written));
+    assert.throws(
+      () => assertUnchangedSinceBatch({ ...written, priority: 'HIGH' }, written),
+      /Modifiée depuis l'opération groupée/
+    );
+    assert.throws(() => assertUnchangedSinceBatch(written, undefined), /Tâche introuvable/);
+  });
+
+  it('restores the bulk fields only, rule tags included, and clears fields the batch set', () => {
+    const current = { ...written, title: 'Renommée', due_date: '2026-10-30', deleted_at: UPDATED_AT };
+    const restored = restoreBulkFields(current, before, '2026-10-19T09:00:00.000Z');
+
+    assert.equal(restored.status, 'TODO');
+    assert.deepEqual(restored.tags, ['lot2']);
+    assert.equal(restored.due_date, undefined);
+    assert.equal(restored.deleted_at, undefined);
+    assert.equal(restored.title, 'Renommée');
+    assert.equal(restored.updated_at, '2026-10-19T09:00:00.000Z');
+  });
+
+  it('partitions an undo batch on the state of each task', async () => {
+    const { entries, skipped } = await partitionBulk([before, task('t2')], async (previous) => {
+      const current = previous.id === 't1' ? written : { ...previous, status: 'BLOCKED' as const };
+      assertUnchangedSinceBatch(current, previous.id === 't1' ? written : { ...previous, status: 'DONE' });
+      return { previous: current, next: restoreBulkFields(current, previous, UPDATED_AT) };
+    });
+
+    assert.deepEqual(
+      entries.map((entry) => [entry.next.id, entry.next.status]),
+      [['t1', 'TODO']]
+    );
+    assert.deepEqual(skipped, [{ task_id: 't2', reason: "Modifiée depuis l'opération groupée." }]);
+  });
+});
@@ -0,0 +1,86 @@
+import { Task, TaskBulkResult } from './types';
+
+export const MAX_BULK_TASKS = 200;
+
+/** Fields a bulk action may change, rule outputs (tags, suggestions) included; undo restores exactly these. */
+export const BULK_FIELDS = [
+  'status',
+  'priority',
+  'assignee_user_id',
+  'due_date',
+  'tags',
+  'suggestions',
+  'deleted_at',
+  'project_id',
+  'parent_task_id'
+] as const;
+
+export function bulkFieldsEqual(a: Task, b: Task) {
+  return BULK_FIELDS.every((field) => JSON.stringify(a[field] ?? null) === JSON.stringify(b[field] ?? null));
+}
+
+export function pickBulkFields(task: Task) {
+  const picked: Record<string, unknown> = {};
+  for (const field of BULK_FIELDS) {
+    picked[field] = task[field] ?? null;
+  }
+  return picked;
+}
+
+/** Trimmed, deduplicated selection; throws when it is empty or above `MAX_BULK_TASKS`. */
+export function normalizeBulkIds(taskIds: string[]) {
+  const ids = Array.from(new Set(taskIds.map((id) => (typeof id === 'string' ? id.trim() : '')).filter((id) => id.length > 0)));
+  if (ids.length === 0) {
+    throw new Error('Aucune tâche sélectionnée.');
+  }
+  if (ids.length > MAX_BULK_TASKS) {
+    throw new Error(`Opération groupée limitée à ${MAX_BULK_TASKS} tâches.`);
+  }
+  return ids;
+}
+
+/** A bulk action that leaves every bulk field as it was is not written. */
+export function assertBulkChange(previous: Task, next: Task) {
+  if (bulkFieldsEqual(previous, next)) {
+    throw new Error('Déjà à jour.');
+  }
+}
+
+/** Undo only reverts a task still as the batch wrote it on the bulk fields. */
+export function assertUnchangedSinceBatch(current: Task, written: Task | undefined) {
+  if (!written) {
+    throw new Error('Tâche introuvable.');
+  }
+  if (!bulkFieldsEqual(current, written)) {
+    throw new Error("Modifiée depuis l'opération groupée.");
+  }
+}
+
+/** `current` with the bulk fields of `before` put back, as written by `tasks.undoBulk`. */
+export function restoreBulkFields(current: Task, before: Task, updatedAt: string): Task {
+  const next: Task = { ...current, updated_at: updatedAt };
+  for (const field of BULK_FIELDS) {
+    (next as Record<string, unknown>)[field] = before[field];
+  }
+  return next;
+}
+
+/**
+ * Runs `prepare` for each task (id or task) in order and splits the batch: a returned entry is written, a
+ * thrown error moves the task to `skipped` with its message and does not block the others.
+ */
+export async function partitionBulk<S extends string | Task, T>(sources: S[], prepare: (source: S) => Promise<T>) {
+  const entries: T[] = [];
+  const skipped: TaskBulkResult['skipped'] = [];
+
+  for (const source of sources) {
+    try {
+      entries.push(await prepare(source));
+    } catch (error) {
+      const taskId = typeof source === 'string' ? source : source.id;
+      skipped.push({ task_id: taskId, reason: error instanceof Error ? error.message : 'Tâche ignorée.' });
+    }
+  }
+
+  return { entries, skipped };
+}
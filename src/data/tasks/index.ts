@@ -1,3 +1,3 @@
 export * from './types';
 export * from './rules';
-export { tasks } from './tasksSmart';
+export { taskProgress, tasks } from './tasksSmart';
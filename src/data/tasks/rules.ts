@@ -1,6 +1,6 @@
 import keywordRulesConfig from './keywordRules.json';
 import { KeywordRulesConfig, Task, TaskSuggestion } from './types';
-import { rules as rulesEngine } from '../rules-engine';
+import { RulesEvaluateContext, RulesMatch, rules as rulesEngine } from '../rules-engine';
 
 const RULES_CONFIG = keywordRulesConfig as KeywordRulesConfig;
 
@@ -55,16 +55,27 @@ function mergeSuggestions(existing: TaskSuggestion[], next: TaskSuggestion[]) {
   return [...byId.values()];
 }
 
-export async function evaluateKeywordRules(task: Task) {
-  const start = Date.now();
-
-  const evaluation = await rulesEngine.evaluate('TASK', {
+/** Fields of a task exposed to rule conditions (also used by the rule builder dry-run). */
+export function buildTaskRuleContext(task: Task): RulesEvaluateContext {
+  return {
     org_id: task.org_id,
     entity_id: task.id,
+    project_id: task.project_id,
     title: task.title,
     description: task.description ?? '',
+    status: task.status,
+    priority: task.priority,
+    due_date: task.due_date ?? null,
+    assignee_user_id: task.assignee_user_id ?? null,
     tags: task.tags ?? []
-  });
+  };
+}
+
+/** Tags and suggestions of the matched rules; their side effects are left to `executeTaskRuleEffects`. */
+export async function evaluateKeywordRules(task: Task) {
+  const start = Date.now();
+
+  const evaluation = await rulesEngine.evaluate('TASK', buildTaskRuleContext(task), { defer_effects: true });
 
   const nextTags = new Set<string>();
   const nextSuggestions: TaskSuggestion[] = [];
@@ -91,10 +102,22 @@ export async function evaluateKeywordRules(task: Task) {
   return {
     tags: mergedTags,
     suggestions: mergedSuggestions,
+    matched: evaluation.matched,
     durationMs: Date.now() - start
   };
 }
 
+/** Side effects (follow-up task, link, notification, proof requirement) of the rules matched by a saved task. */
+export async function executeTaskRuleEffects(task: Task, matched: RulesMatch[]) {
+  return rulesEngine.executeEffects('TASK', buildTaskRuleContext(task), matched);
+}
+
+/** Proofs required by rules (REQUIRE_PROOF) that are still missing on the task, `pending` matches included. */
+export async function getMissingRuleProofs(taskId: string, pending: RulesMatch[] = []) {
+  const requirements = await rulesEngine.getProofRequirements('TASK', taskId, pending);
+  return requirements.filter((requirement) => !requirement.satisfied);
+}
+
 export function getKeywordRules() {
   return RULES_CONFIG;
 }
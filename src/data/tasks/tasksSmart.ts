@@ -1,11 +1,23 @@
 import * as SQLite from 'expo-sqlite';
 import { MediaAsset, media } from '../media';
 import { offlineDB } from '../offline/outbox';
+import { audit } from '../audit-compliance';
 import { assertProjectWritable } from '../control-mode/readOnly';
 import { geo } from '../geo-context';
-import { evaluateKeywordRules } from './rules';
+import { RulesMatch } from '../rules-engine';
+import {
+  assertBulkChange,
+  assertUnchangedSinceBatch,
+  normalizeBulkIds,
+  partitionBulk,
+  pickBulkFields,
+  restoreBulkFields
+} from './bulkBatch';
+import { evaluateKeywordRules, executeTaskRuleEffects, getMissingRuleProofs } from './rules';
 import {
   Task,
+  TaskBulkAction,
+  TaskBulkResult,
   TaskComment,
   TaskCreateInput,
   TaskFilters,
@@ -22,8 +34,17 @@ const COMMENTS_TABLE = 'task_comments';
 const MEDIA_TABLE = 'media_assets';
 const OPERATIONS_TABLE = 'operations_queue';
 const CONFLICTS_TABLE = 'sync_conflicts';
+const PLANNING_TABLE = 'planning_items';
 const MAX_TASKS_PER_ORG = 5000;
 const DEFAULT_PAGE_SIZE = 25;
+const MAX_TASK_DEPTH = 20;
+
+const TASK_UPGRADE_COLUMNS: Array<[string, string]> = [
+  ['parent_task_id', 'TEXT'],
+  ['progress', 'INTEGER NOT NULL DEFAULT 0'],
+  ['series_id', 'TEXT'],
+  ['occurrence_key', 'TEXT']
+];
 
 let dbPromise: Promise<SQLite.SQLiteDatabase> | null = null;
 let setupPromise: Promise<void> | null = null;
@@ -46,6 +67,10 @@ type TaskRow = {
   updated_at: string;
   deleted_at: string | null;
   last_transcript: string | null;
+  parent_task_id: string | null;
+  progress: number | null;
+  series_id: string | null;
+  occurrence_key: string | null;
 };
 
 type CommentRow = {
@@ -107,7 +132,11 @@ function mapTaskRow(row: TaskRow): Task {
     created_at: row.created_at,
     updated_at: row.updated_at,
     deleted_at: row.deleted_at ?? undefined,
-    last_transcript: row.last_transcript ?? undefined
+    last_transcript: row.last_transcript ?? undefined,
+    parent_task_id: row.parent_task_id ?? undefined,
+    progress: Number(row.progress ?? 0) || 0,
+    series_id: row.series_id ?? undefined,
+    occurrence_key: row.occurrence_key ?? undefined
   };
 }
 
@@ -129,6 +158,18 @@ function validatePriority(priority: string): priority is TaskPriority {
   return priority === 'LOW' || priority === 'MEDIUM' || priority === 'HIGH';
 }
 
+function normalizeProgress(value: number) {
+  if (!Number.isFinite(value)) {
+    throw new Error(`Progression invalide: ${value}`);
+  }
+  return Math.max(0, Math.min(100, Math.round(value)));
+}
+
+/** Progress shown for a task: a DONE task counts as complete whatever its stored progress. */
+export function taskProgress(task: Pick<Task, 'status' | 'progress'>) {
+  return task.status === 'DONE' ? 100 : task.progress;
+}
+
 function normalizeTags(tags: string[] | undefined) {
   if (!tags) {
     return [] as string[];
@@ -216,6 +257,27 @@ async function setupSchema() {
     CREATE INDEX IF NOT EXISTS idx_task_comments_task_created
       ON ${COMMENTS_TABLE}(task_id, created_at DESC);
   `);
+
+  await addMissingColumns(db, TASKS_TABLE, TASK_UPGRADE_COLUMNS);
+
+  await db.execAsync(`
+    CREATE INDEX IF NOT EXISTS idx_tasks_parent
+      ON ${TASKS_TABLE}(parent_task_id);
+
+    CREATE INDEX IF NOT EXISTS idx_tasks_series_occurrence
+      ON ${TASKS_TABLE}(series_id, occurrence_key);
+  `);
+}
+
+async function addMissingColumns(db: SQLite.SQLiteDatabase, tableName: string, columns: Array<[string, string]>) {
+  const existing = await db.getAllAsync<{ name: string }>(`PRAGMA table_info(${tableName})`);
+  const names = new Set(existing.map((column) => column.name));
+
+  for (const [name, definition] of columns) {
+    if (!names.has(name)) {
+      await db.execAsync(`ALTER TABLE ${tableName} ADD COLUMN ${name} ${definition};`);
+    }
+  }
 }
 
 async function ensureSetup() {
@@ -254,9 +316,10 @@ async function saveTask(task: Task) {
         id, org_id, project_id, title, description,
         status, priority, due_date, assignee_user_id, created_by,
         tags_json, suggestions_json,
-        created_at, updated_at, deleted_at, last_transcript
+        created_at, updated_at, deleted_at, last_transcript,
+        parent_task_id, progress, series_id, occurrence_key
       )
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `,
     task.id,
     task.org_id,
@@ -273,7 +336,11 @@ async function saveTask(task: Task) {
     task.created_at,
     task.updated_at,
     task.deleted_at ?? null,
-    task.last_transcript ?? null
+    task.last_transcript ?? null,
+    task.parent_task_id ?? null,
+    task.progress,
+    task.series_id ?? null,
+    task.occurrence_key ?? null
   );
 
   return task;
@@ -356,18 +423,111 @@ function mergeTaskPatch(task: Task, patch: TaskUpdatePatch): Task {
     suggestions: patch.suggestions ?? task.suggestions,
     deleted_at: patch.deleted_at !== undefined ? patch.deleted_at : task.deleted_at,
     last_transcript: patch.last_transcript !== undefined ? patch.last_transcript : task.last_transcript,
+    parent_task_id:
+      patch.parent_task_id !== undefined ? normalizeText(patch.parent_task_id) || undefined : task.parent_task_id,
+    progress: patch.progress !== undefined ? normalizeProgress(patch.progress) : task.progress,
     updated_at: nowIso()
   };
 }
 
-async function applyKeywordRules(task: Task) {
+async function listSubtaskRows(parentId: string) {
+  await ensureSetup();
+  const db = await getDb();
+
+  return db.getAllAsync<TaskRow>(
+    `
+      SELECT *
+      FROM ${TASKS_TABLE}
+      WHERE parent_task_id = ?
+        AND deleted_at IS NULL
+      ORDER BY created_at ASC
+    `,
+    parentId
+  );
+}
+
+/** Parent must live in the same project and must not be the task itself or one of its subtasks. */
+async function ensureValidParent(task: Pick<Task, 'id' | 'project_id'>, parentId: string) {
+  const parent = await getTaskRowById(parentId);
+  if (!parent) {
+    throw new Error('Tâche parente introuvable.');
+  }
+
+  if (parent.project_id !== task.project_id) {
+    throw new Error('La tâche parente doit appartenir au même chantier.');
+  }
+
+  let cursor: TaskRow | null = parent;
+  for (let depth = 0; cursor && depth < MAX_TASK_DEPTH; depth += 1) {
+    if (cursor.id === task.id) {
+      throw new Error(`Sous-tâche circulaire: "${parent.title}" est déjà une sous-tâche de cette tâche.`);
+    }
+    cursor = cursor.parent_task_id ? await getTaskRowById(cursor.parent_task_id) : null;
+  }
+
+  if (cursor) {
+    throw new Error(`Arborescence trop profonde (${MAX_TASK_DEPTH} niveaux maximum).`);
+  }
+}
+
+/** Recomputes the progress of `parentId` and its ancestors as the mean progress of their subtasks. */
+async function rollUpProgress(parentId: string | undefined) {
+  let currentId = parentId;
+
+  for (let depth = 0; currentId && depth < MAX_TASK_DEPTH; depth += 1) {
+    const row = await getTaskRowById(currentId);
+    if (!row) {
+      return;
+    }
+
+    const children = (await listSubtaskRows(row.id)).map(mapTaskRow);
+    if (children.length === 0) {
+      return;
+    }
+
+    const parent = mapTaskRow(row);
+    const progress = Math.round(children.reduce((sum, child) => sum + taskProgress(child), 0) / children.length);
+
+    if (progress !== parent.progress) {
+      const next: Task = { ...parent, progress, updated_at: nowIso() };
+      await saveTask(next);
+      await enqueueTaskOperation(next, 'UPDATE', {
+        patch: { progress },
+        data: next
+      });
+    }
+
+    currentId = parent.parent_task_id;
+  }
+}
+
+/** `pending`: rules matched by the new state, whose proof requirements are not recorded yet. */
+async function assertCanComplete(task: Task, pending: RulesMatch[] = []) {
+  if (task.status !== 'DONE') {
+    return;
+  }
+
+  const missing = await getMissingRuleProofs(task.id, pending);
+  if (missing.length > 0) {
+    throw new Error(missing[0].message);
+  }
+}
+
+/**
+ * Tags and suggestions of the matching rules. Their side effects are only returned (`matched`): the caller
+ * runs them with `executeTaskRuleEffects` once the task is saved.
+ */
+async function applyKeywordRules(task: Task): Promise<{ task: Task; matched: RulesMatch[] }> {
   const outcome = await evaluateKeywordRules(task);
 
   return {
-    ...task,
-    tags: outcome.tags,
-    suggestions: outcome.suggestions,
-    updated_at: nowIso()
+    task: {
+      ...task,
+      tags: outcome.tags,
+      suggestions: outcome.suggestions,
+      updated_at: nowIso()
+    },
+    matched: outcome.matched
   };
 }
 
@@ -464,6 +624,130 @@ async function queryTasksByProject(projectId: string, filters: TaskFilters, quer
   return rows.map(mapTaskRow);
 }
 
+async function isTaskPlanned(taskId: string) {
+  const db = await getDb();
+  try {
+    const row = await db.getFirstAsync<{ count: number }>(
+      `SELECT COUNT(*) AS count FROM ${PLANNING_TABLE} WHERE task_id = ? AND deleted_at IS NULL`,
+      taskId
+    );
+    return (row?.count ?? 0) > 0;
+  } catch {
+    // planning table not created yet
+    return false;
+  }
+}
+
+/**
+ * Next state of one task under a bulk action, through the same pipeline as `tasks.update` (rules engine, then
+ * proof gate for `DONE`); throws with the reason when the task must be skipped. The rule side effects are
+ * only returned: `bulkUpdate` runs them once the batch is committed, for the tasks actually written.
+ */
+async function prepareBulkTask(
+  task: Task,
+  action: TaskBulkAction,
+  selection: Set<string>
+): Promise<{ task: Task; matched: RulesMatch[] }> {
+  const next = await applyBulkAction(task, action, selection);
+  if (action.type === 'DELETE') {
+    return { task: next, matched: [] };
+  }
+
+  const { task: finalTask, matched } = await applyKeywordRules(next);
+  if (task.status !== 'DONE') {
+    await assertCanComplete(finalTask, matched);
+  }
+  return { task: finalTask, matched };
+}
+
+async function applyBulkAction(task: Task, action: TaskBulkAction, selection: Set<string>): Promise<Task> {
+  const updatedAt = nowIso();
+
+  switch (action.type) {
+    case 'DELETE':
+      return { ...task, deleted_at: updatedAt, updated_at: updatedAt };
+
+    case 'MOVE_PROJECT': {
+      const projectId = normalizeText(action.project_id);
+      if (!projectId) {
+        throw new Error('Chantier cible requis.');
+      }
+      if (projectId === task.project_id) {
+        throw new Error('Déjà dans ce chantier.');
+      }
+
+      const children = await listSubtaskRows(task.id);
+      if (children.some((child) => !selection.has(child.id))) {
+        throw new Error('Sous-tâches non sélectionnées: déplacez-les avec leur tâche parente.');
+      }
+      if (await isTaskPlanned(task.id)) {
+        throw new Error('Tâche planifiée: retirez-la du planning avant de la déplacer.');
+      }
+
+      return {
+        ...task,
+        project_id: projectId,
+        // A subtask moved without its parent becomes a top-level task of the target project.
+        parent_task_id: task.parent_task_id && selection.has(task.parent_task_id) ? task.parent_task_id : undefined,
+        updated_at: updatedAt
+      };
+    }
+
+    case 'ADD_TAGS':
+      return { ...task, tags: normalizeTags([...task.tags, ...action.tags]), updated_at: updatedAt };
+
+    case 'REMOVE_TAGS': {
+      const removed = new Set(normalizeTags(action.tags));
+      return { ...task, tags: task.tags.filter((tag) => !removed.has(tag)), updated_at: updatedAt };
+    }
+
+    case 'SET_STATUS':
+      return mergeTaskPatch(task, { status: action.status });
+
+    case 'SET_ASSIGNEE':
+      return mergeTaskPatch(task, { assignee_user_id: action.assignee_user_id ?? '' });
+
+    case 'SET_PRIORITY':
+      return mergeTaskPatch(task, { priority: action.priority });
+
+    case 'SET_DUE_DATE': {
+      const dueDate = normalizeText(action.due_date);
+      if (dueDate && !Number.isFinite(Date.parse(dueDate))) {
+        throw new Error(`Échéance invalide: ${dueDate}`);
+      }
+      return mergeTaskPatch(task, { due_date: dueDate });
+    }
+  }
+}
+
+/**
+ * Writes a batch in one local transaction: every task row, its outbox operation (tagged with `batch_id`)
+ * and the progress roll-up of the affected parents commit or roll back together.
+ */
+async function commitBulk(batchId: string, entries: Array<{ previous: Task; next: Task }>, extraPayload: Record<string, unknown>) {
+  const db = await getDb();
+  const parents = new Set<string>();
+
+  await db.withTransactionAsync(async () => {
+    for (const { previous, next } of entries) {
+      await saveTask(next);
+      await enqueueTaskOperation(next, 'UPDATE', {
+        ...extraPayload,
+        patch: pickBulkFields(next),
+        data: next,
+        batch_id: batchId
+      });
+
+      if (previous.parent_task_id) parents.add(previous.parent_task_id);
+      if (next.parent_task_id) parents.add(next.parent_task_id);
+    }
+
+    for (const parentId of parents) {
+      await rollUpProgress(parentId);
+    }
+  });
+}
+
 export const tasks = {
   async create(data: TaskCreateInput): Promise<Task> {
     await ensureSetup();
@@ -508,9 +792,17 @@ export const tasks = {
       suggestions: data.suggestions ?? [],
       created_at: createdAt,
       updated_at: createdAt,
-      last_transcript: normalizeText(data.last_transcript) || undefined
+      last_transcript: normalizeText(data.last_transcript) || undefined,
+      parent_task_id: normalizeText(data.parent_task_id) || undefined,
+      progress: data.progress !== undefined ? normalizeProgress(data.progress) : 0,
+      series_id: normalizeText(data.series_id) || undefined,
+      occurrence_key: normalizeText(data.occurrence_key) || undefined
     };
 
+    if (baseTask.parent_task_id) {
+      await ensureValidParent(baseTask, baseTask.parent_task_id);
+    }
+
     if (!validateStatus(baseTask.status)) {
       throw new Error(`Statut invalide: ${baseTask.status}`);
     }
@@ -519,13 +811,18 @@ export const tasks = {
       throw new Error(`Priorité invalide: ${baseTask.priority}`);
     }
 
-    const finalTask = await applyKeywordRules(baseTask);
+    const { task: finalTask, matched } = await applyKeywordRules(baseTask);
+    await assertCanComplete(finalTask, matched);
     await saveTask(finalTask);
 
     await enqueueTaskOperation(finalTask, 'CREATE', {
       data: finalTask
     });
 
+    await executeTaskRuleEffects(finalTask, matched);
+
+    await rollUpProgress(finalTask.parent_task_id);
+
     void geo.capture({
       entity: 'TASK',
       entity_id: finalTask.id,
@@ -541,7 +838,20 @@ export const tasks = {
     const current = await ensureTaskExists(id);
     await assertProjectWritable(current.org_id, current.project_id);
     const merged = mergeTaskPatch(current, patch);
-    const finalTask = await applyKeywordRules(merged);
+
+    if (merged.parent_task_id && merged.parent_task_id !== current.parent_task_id) {
+      await ensureValidParent(current, merged.parent_task_id);
+    }
+
+    if (patch.progress !== undefined && (await listSubtaskRows(current.id)).length > 0) {
+      throw new Error("La progression d'une tâche parente est calculée depuis ses sous-tâches.");
+    }
+
+    const { task: finalTask, matched } = await applyKeywordRules(merged);
+
+    if (current.status !== 'DONE') {
+      await assertCanComplete(finalTask, matched);
+    }
 
     await saveTask(finalTask);
 
@@ -550,6 +860,15 @@ export const tasks = {
       data: finalTask
     });
 
+    await executeTaskRuleEffects(finalTask, matched);
+
+    if (finalTask.parent_task_id !== current.parent_task_id) {
+      await rollUpProgress(current.parent_task_id);
+    }
+    if (taskProgress(finalTask) !== taskProgress(current) || finalTask.parent_task_id !== current.parent_task_id) {
+      await rollUpProgress(finalTask.parent_task_id);
+    }
+
     return finalTask;
   },
 
@@ -577,6 +896,8 @@ export const tasks = {
       patch: { deleted_at: next.deleted_at },
       data: next
     });
+
+    await rollUpProgress(next.parent_task_id);
   },
 
   async getById(id: string): Promise<Task | null> {
@@ -588,6 +909,11 @@ export const tasks = {
     return queryTasksByProject(projectId, filters);
   },
 
+  async listSubtasks(parentId: string): Promise<Task[]> {
+    const rows = await listSubtaskRows(parentId);
+    return rows.map(mapTaskRow);
+  },
+
   async searchByProject(projectId: string, q: string, filters: TaskFilters = {}): Promise<Task[]> {
     const cleaned = normalizeText(q);
     if (!cleaned) {
@@ -702,13 +1028,14 @@ export const tasks = {
   async runKeywordRules(task: Task): Promise<{ tagsAdded: string[]; suggestions: TaskSuggestion[] }> {
     const current = await ensureTaskExists(task.id);
     await assertProjectWritable(current.org_id, current.project_id);
-    const next = await applyKeywordRules({ ...current, ...task, id: current.id, updated_at: nowIso() });
+    const { task: next, matched } = await applyKeywordRules({ ...current, ...task, id: current.id, updated_at: nowIso() });
 
     const hasChanges =
       JSON.stringify(current.tags) !== JSON.stringify(next.tags) ||
       JSON.stringify(current.suggestions) !== JSON.stringify(next.suggestions);
 
     if (!hasChanges) {
+      await executeTaskRuleEffects(next, matched);
       return {
         tagsAdded: [],
         suggestions: (current.suggestions ?? []).filter((item) => !item.dismissed_at)
@@ -722,6 +1049,8 @@ export const tasks = {
       data: next
     });
 
+    await executeTaskRuleEffects(next, matched);
+
     const previousTags = new Set(current.tags ?? []);
     const tagsAdded = (next.tags ?? []).filter((tag) => !previousTags.has(tag));
     return { tagsAdded, suggestions: (next.suggestions ?? []).filter((item) => !item.dismissed_at) };
@@ -861,6 +1190,107 @@ export const tasks = {
     return badges;
   },
 
+  /**
+   * Applies one action to up to 200 tasks as a single batch (one transaction, one audit entry).
+   * Tasks that cannot take the action (read-only project, missing proof, unchanged...) are reported in
+   * `skipped` and do not block the others.
+   */
+  async bulkUpdate(taskIds: string[], action: TaskBulkAction): Promise<TaskBulkResult> {
+    await ensureSetup();
+
+    const ids = normalizeBulkIds(taskIds);
+    const batchId = createUuid();
+    const selection = new Set(ids);
+    const writable = new Map<string, Promise<void>>();
+    const checkWritable = (orgId: string, projectId: string) => {
+      const key = `${orgId}:${projectId}`;
+      if (!writable.has(key)) writable.set(key, assertProjectWritable(orgId, projectId));
+      return writable.get(key) as Promise<void>;
+    };
+
+    const { entries, skipped } = await partitionBulk(ids, async (id) => {
+      const current = await ensureTaskExists(id);
+      await checkWritable(current.org_id, current.project_id);
+
+      const { task: next, matched } = await prepareBulkTask(current, action, selection);
+      if (next.project_id !== current.project_id) {
+        await checkWritable(next.org_id, next.project_id);
+      }
+      assertBulkChange(current, next);
+
+      return { previous: current, next, matched };
+    });
+
+    if (entries.length > 0) {
+      await commitBulk(batchId, entries, { bulk_action: action.type });
+
+      // After the commit only: a skipped task or a rolled back batch leaves no rule side effect behind.
+      for (const entry of entries) {
+        await executeTaskRuleEffects(entry.next, entry.matched);
+      }
+
+      await audit.log('tasks.bulk_update', 'TASK_BATCH', batchId, {
+        action,
+        task_ids: entries.map((entry) => entry.next.id),
+        skipped: skipped.length
+      });
+    }
+
+    return {
+      batch_id: batchId,
+      action: action.type,
+      updated: entries.map((entry) => entry.next),
+      previous: entries.map((entry) => entry.previous),
+      skipped
+    };
+  },
+
+  /**
+   * Reverts a batch returned by `bulkUpdate`, as a new batch. Tasks changed since the batch on one of the
+   * bulk fields are left untouched and reported in `skipped`. Tags and suggestions added by rules during the
+   * batch are reverted with the rest; rule side effects (follow-up task, notification) ran once per task and
+   * are kept, as after a manual edit.
+   */
+  async undoBulk(result: TaskBulkResult): Promise<TaskBulkResult> {
+    await ensureSetup();
+
+    const batchId = createUuid();
+    const written = new Map(result.updated.map((task) => [task.id, task]));
+    const { entries, skipped } = await partitionBulk(result.previous, async (before) => {
+      const row = await getTaskRowById(before.id, true);
+      if (!row) {
+        throw new Error('Tâche introuvable.');
+      }
+
+      const current = mapTaskRow(row);
+      assertUnchangedSinceBatch(current, written.get(before.id));
+
+      await assertProjectWritable(current.org_id, current.project_id);
+      if (before.project_id !== current.project_id) {
+        await assertProjectWritable(before.org_id, before.project_id);
+      }
+
+      return { previous: current, next: restoreBulkFields(current, before, nowIso()) };
+    });
+
+    if (entries.length > 0) {
+      await commitBulk(batchId, entries, { undo_of: result.batch_id });
+      await audit.log('tasks.bulk_undo', 'TASK_BATCH', batchId, {
+        undo_of: result.batch_id,
+        task_ids: entries.map((entry) => entry.next.id),
+        skipped: skipped.length
+      });
+    }
+
+    return {
+      batch_id: batchId,
+      action: 'UNDO',
+      updated: entries.map((entry) => entry.next),
+      previous: entries.map((entry) => entry.previous),
+      skipped
+    };
+  },
+
   async countByOrg(orgId: string) {
     return countActiveTasksByOrg(orgId);
   },
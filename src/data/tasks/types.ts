@@ -30,6 +30,13 @@ export type Task = {
   updated_at: string;
   deleted_at?: string;
   last_transcript?: string;
+  /** Parent task when this one is a subtask. */
+  parent_task_id?: string;
+  /** 0-100. Rolled up from the subtasks when the task has any. */
+  progress: number;
+  /** Recurring series that generated this task, and the original start of its occurrence (ISO). */
+  series_id?: string;
+  occurrence_key?: string;
 };
 
 export type TaskComment = {
@@ -83,6 +90,10 @@ export type TaskCreateInput = {
   tags?: string[];
   suggestions?: TaskSuggestion[];
   last_transcript?: string;
+  parent_task_id?: string;
+  progress?: number;
+  series_id?: string;
+  occurrence_key?: string;
 };
 
 export type TaskUpdatePatch = {
@@ -96,6 +107,32 @@ export type TaskUpdatePatch = {
   suggestions?: TaskSuggestion[];
   deleted_at?: string;
   last_transcript?: string;
+  /** `null` detaches the subtask from its parent. */
+  parent_task_id?: string | null;
+  progress?: number;
+};
+
+export type TaskBulkAction =
+  | { type: 'SET_STATUS'; status: TaskStatus }
+  | { type: 'SET_ASSIGNEE'; assignee_user_id: string | null }
+  | { type: 'SET_PRIORITY'; priority: TaskPriority }
+  | { type: 'ADD_TAGS'; tags: string[] }
+  | { type: 'REMOVE_TAGS'; tags: string[] }
+  | { type: 'SET_DUE_DATE'; due_date: string | null }
+  | { type: 'DELETE' }
+  | { type: 'MOVE_PROJECT'; project_id: string };
+
+export type TaskBulkActionType = TaskBulkAction['type'];
+
+export type TaskBulkResult = {
+  /** Shared by the outbox operations and the audit entry of the batch. */
+  batch_id: string;
+  action: TaskBulkActionType | 'UNDO';
+  /** Tasks as written by the batch. */
+  updated: Task[];
+  /** Same tasks before the batch, for `tasks.undoBulk`. */
+  previous: Task[];
+  skipped: Array<{ task_id: string; reason: string }>;
 };
 
 export type TaskMediaContext = {
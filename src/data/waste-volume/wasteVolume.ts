@@ -2,6 +2,7 @@ import * as FileSystem from 'expo-file-system/legacy';
 import * as SQLite from 'expo-sqlite';
 import { geo } from '../geo-context';
 import { offlineDB } from '../offline/outbox';
+import { rules } from '../rules-engine';
 import { WasteCategory, WasteCreateInput, WasteCsvExportResult, WasteEntry, WasteListFilters, WasteTotals, WasteUpdatePatch } from './types';
 
 const DB_NAME = 'conformeo.db';
@@ -223,6 +224,34 @@ async function enqueueOperation(entry: WasteEntry, type: 'CREATE' | 'UPDATE' | '
   });
 }
 
+/** Fields of a waste entry exposed to rule conditions (e.g. `volume_m3 GT 10`). */
+function buildWasteRuleContext(entry: WasteEntry) {
+  return {
+    org_id: entry.org_id,
+    entity_id: entry.id,
+    project_id: entry.project_id,
+    title: `Déchets ${entry.category} (${entry.volume_m3} m3)`,
+    category: entry.category,
+    length_m: entry.length_m,
+    width_m: entry.width_m,
+    height_m: entry.height_m,
+    volume_m3: entry.volume_m3,
+    note: entry.note ?? '',
+    created_by: entry.created_by
+  };
+}
+
+/** Runs WASTE rules (follow-up tasks, notifications...) after a write; a rule failure never blocks the entry. */
+async function evaluateWasteRules(entry: WasteEntry) {
+  try {
+    await rules.evaluate('WASTE', buildWasteRuleContext(entry));
+  } catch (error) {
+    if (__DEV__) {
+      console.warn('[waste-volume] rules evaluation failed:', error instanceof Error ? error.message : String(error));
+    }
+  }
+}
+
 function csvEscape(value: unknown, delimiter: string) {
   const raw = value === null || value === undefined ? '' : String(value);
   const needsQuotes = raw.includes(delimiter) || raw.includes('\n') || raw.includes('\r') || raw.includes('"');
@@ -280,6 +309,7 @@ export const waste = {
 
     await upsert(entry);
     await enqueueOperation(entry, 'CREATE', { data: entry });
+    await evaluateWasteRules(entry);
 
     void geo.capture({
       entity: 'WASTE_ENTRY',
@@ -322,6 +352,9 @@ export const waste = {
 
     await upsert(next);
     await enqueueOperation(next, 'UPDATE', { patch, data: next });
+    if (!next.deleted_at) {
+      await evaluateWasteRules(next);
+    }
     return next;
   },
 
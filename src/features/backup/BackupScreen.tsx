@@ -3,7 +3,7 @@ import * as Sharing from 'expo-sharing';
 import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import { ActivityIndicator, Alert, ScrollView, View } from 'react-native';
 import { useAuth } from '../../core/auth';
-import { backup, BackupImportMode, BackupRecord } from '../../data/backup-restore';
+import { backup, BackupImportMode, BackupRecord, ServerSnapshot, snapshot } from '../../data/backup-restore';
 import { Button } from '../../ui/components/Button';
 import { Card } from '../../ui/components/Card';
 import { Text } from '../../ui/components/Text';
@@ -28,6 +28,8 @@ export function BackupScreen() {
   const { activeOrgId, user } = useAuth();
 
   const [items, setItems] = useState<BackupRecord[]>([]);
+  const [snapshots, setSnapshots] = useState<ServerSnapshot[]>([]);
+  const [snapshotsError, setSnapshotsError] = useState<string | null>(null);
   const [busy, setBusy] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -43,6 +45,7 @@ export function BackupScreen() {
   const refresh = useCallback(async () => {
     if (!hasOrg) {
       setItems([]);
+      setSnapshots([]);
       return;
     }
 
@@ -53,6 +56,16 @@ export function BackupScreen() {
       const message = listError instanceof Error ? listError.message : 'Chargement backups impossible.';
       setError(message);
     }
+
+    // Remote listing is best-effort: offline devices still see their local history.
+    try {
+      const remote = await snapshot.list();
+      setSnapshots(remote);
+      setSnapshotsError(null);
+    } catch (listError) {
+      const message = listError instanceof Error ? listError.message : 'Chargement snapshots impossible.';
+      setSnapshotsError(message);
+    }
   }, [hasOrg]);
 
   useEffect(() => {
@@ -90,6 +103,35 @@ export function BackupScreen() {
     [hasOrg, withBusy]
   );
 
+  const createSnapshot = useCallback(
+    (includeMedia: boolean) => {
+      if (!hasOrg) {
+        setError('Session invalide: utilisateur ou organisation absente.');
+        return;
+      }
+
+      void withBusy(async () => {
+        await snapshot.createServerSnapshot({ includeMedia });
+      });
+    },
+    [hasOrg, withBusy]
+  );
+
+  const confirmReplace = useCallback(
+    () =>
+      new Promise<boolean>((resolve) => {
+        Alert.alert(
+          'Importer (écraser)',
+          "Cette action remplace les données locales pour l'organisation active. Continuer ?",
+          [
+            { text: 'Annuler', style: 'cancel', onPress: () => resolve(false) },
+            { text: 'Écraser', style: 'destructive', onPress: () => resolve(true) }
+          ]
+        );
+      }),
+    []
+  );
+
   const pickZipFile = useCallback(async () => {
     const picked = await DocumentPicker.getDocumentAsync({
       type: ['application/zip', 'application/x-zip-compressed', 'application/*', '*/*'],
@@ -125,23 +167,28 @@ export function BackupScreen() {
         if (!uri) return;
 
         if (mode === 'REPLACE') {
-          const ok = await new Promise<boolean>((resolve) => {
-            Alert.alert(
-              'Importer (écraser)',
-              "Cette action remplace les données locales pour l'organisation active. Continuer ?",
-              [
-                { text: 'Annuler', style: 'cancel', onPress: () => resolve(false) },
-                { text: 'Écraser', style: 'destructive', onPress: () => resolve(true) }
-              ]
-            );
-          });
+          const ok = await confirmReplace();
           if (!ok) return;
         }
 
         await backup.import(uri, { mode });
       });
     },
-    [hasOrg, pickZipFile, withBusy]
+    [confirmReplace, hasOrg, pickZipFile, withBusy]
+  );
+
+  const restoreSnapshot = useCallback(
+    (item: ServerSnapshot, mode: BackupImportMode) => {
+      void withBusy(async () => {
+        if (mode === 'REPLACE') {
+          const ok = await confirmReplace();
+          if (!ok) return;
+        }
+
+        await snapshot.restore(item.id, { mode });
+      });
+    },
+    [confirmReplace, withBusy]
   );
 
   const shareBackup = useCallback(
@@ -182,7 +229,7 @@ export function BackupScreen() {
       <ScrollView style={{ flex: 1 }} contentContainerStyle={{ paddingBottom: spacing.lg }}>
         <SectionHeader
           title="Sauvegarde / Restauration"
-          subtitle="Export ZIP local (JSON + manifest + medias optionnels) et import controle (merge ou ecrase)."
+          subtitle="Export ZIP local ou snapshot serveur (JSON + manifest + medias optionnels) et import controle (merge ou ecrase)."
         />
 
         <View style={{ gap: spacing.md }}>
@@ -203,6 +250,13 @@ export function BackupScreen() {
                   <Button label="Exporter (avec médias)" kind="ghost" onPress={() => exportBackup(true)} disabled={busy} />
                   <Button label="Importer (merge)" kind="ghost" onPress={() => runImport('MERGE')} disabled={busy} />
                   <Button label="Importer (écrase)" kind="ghost" onPress={() => runImport('REPLACE')} disabled={busy} />
+                  <Button label="Snapshot serveur" kind="ghost" onPress={() => createSnapshot(false)} disabled={busy} />
+                  <Button
+                    label="Snapshot serveur (avec médias)"
+                    kind="ghost"
+                    onPress={() => createSnapshot(true)}
+                    disabled={busy}
+                  />
                   <Button label="Rafraîchir" kind="ghost" onPress={() => void refresh()} disabled={busy} />
                 </View>
               </>
@@ -224,6 +278,49 @@ export function BackupScreen() {
             ) : null}
           </Card>
 
+          <Card>
+            <Text variant="h2">Snapshots serveur (max 50)</Text>
+            {snapshotsError ? (
+              <Text variant="caption" style={{ color: colors.rose, marginTop: spacing.xs }}>
+                {snapshotsError}
+              </Text>
+            ) : snapshots.length === 0 ? (
+              <Text variant="caption" style={{ color: colors.slate, marginTop: spacing.xs }}>
+                Aucun snapshot serveur.
+              </Text>
+            ) : (
+              <View style={{ gap: spacing.sm, marginTop: spacing.sm }}>
+                {snapshots.map((item) => (
+                  <View
+                    key={item.id}
+                    style={{
+                      borderWidth: 1,
+                      borderColor: colors.fog,
+                      borderRadius: radii.md,
+                      padding: spacing.md
+                    }}
+                  >
+                    <Text variant="bodyStrong" numberOfLines={1}>
+                      {formatBytes(item.size_bytes)} • {item.include_media ? 'avec médias' : 'sans médias'}
+                    </Text>
+                    <Text variant="caption" style={{ color: colors.slate, marginTop: spacing.xs }} numberOfLines={2}>
+                      {formatDate(item.created_at)} • {item.id}
+                    </Text>
+                    <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: spacing.sm, marginTop: spacing.sm }}>
+                      <Button label="Restaurer (merge)" onPress={() => restoreSnapshot(item, 'MERGE')} disabled={busy} />
+                      <Button
+                        label="Restaurer (écrase)"
+                        kind="ghost"
+                        onPress={() => restoreSnapshot(item, 'REPLACE')}
+                        disabled={busy}
+                      />
+                    </View>
+                  </View>
+                ))}
+              </View>
+            )}
+          </Card>
+
           <Card>
             <Text variant="h2">Historique (max 50)</Text>
             {items.length === 0 ? (
@@ -243,7 +340,7 @@ export function BackupScreen() {
                     }}
                   >
                     <Text variant="bodyStrong" numberOfLines={1}>
-                      {item.status} • {formatBytes(item.size_bytes)} • {item.include_media ? 'avec médias' : 'sans médias'}
+                      {item.type === 'SERVER_SNAPSHOT' ? 'SNAPSHOT' : 'LOCAL'} • {item.status} • {formatBytes(item.size_bytes)} • {item.include_media ? 'avec médias' : 'sans médias'}
                     </Text>
                     <Text variant="caption" style={{ color: colors.slate, marginTop: spacing.xs }} numberOfLines={2}>
                       {formatDate(item.created_at)} • {item.id}
@@ -5,6 +5,9 @@ import {
   ConflictPolicy,
   ConflictPolicyRecord,
   ConflictResolutionAction,
+  FieldChoice,
+  FieldMergeResult,
+  MergedFieldSource,
   SyncConflict,
   conflicts
 } from '../../data';
@@ -16,7 +19,15 @@ import { Screen } from '../../ui/layout/Screen';
 import { useTheme } from '../../ui/theme/ThemeProvider';
 import { SectionHeader } from '../common/SectionHeader';
 
-const POLICY_VALUES: ConflictPolicy[] = ['LWW', 'SERVER_WINS', 'MANUAL'];
+const POLICY_VALUES: ConflictPolicy[] = ['LWW', 'SERVER_WINS', 'MANUAL', 'FIELD_MERGE'];
+
+const FIELD_SOURCE_LABELS: Record<MergedFieldSource, string> = {
+  UNCHANGED: 'inchangé',
+  LOCAL: 'local',
+  SERVER: 'serveur',
+  BOTH: 'identique des deux côtés',
+  UNION: 'fusion des listes'
+};
 
 function toErrorMessage(error: unknown) {
   if (error instanceof Error && error.message) {
@@ -53,6 +64,18 @@ function toPrettyJson(value: unknown, max = 3000) {
   return `${serialized.slice(0, max)}\n...`;
 }
 
+function formatFieldValue(value: unknown) {
+  if (value === undefined) {
+    return '(absent)';
+  }
+
+  if (typeof value === 'string') {
+    return value.length > 0 ? value : '(vide)';
+  }
+
+  return toPrettyJson(value, 400);
+}
+
 export function ConflictsScreen() {
   const { colors, spacing, radii } = useTheme();
   const { activeOrgId, user } = useAuth();
@@ -65,6 +88,9 @@ export function ConflictsScreen() {
 
   const [policyEntity, setPolicyEntity] = useState('');
   const [mergePayloadDraft, setMergePayloadDraft] = useState('{}');
+  const [fieldMerge, setFieldMerge] = useState<FieldMergeResult | null>(null);
+  const [fieldMergeError, setFieldMergeError] = useState<string | null>(null);
+  const [fieldChoices, setFieldChoices] = useState<Record<string, FieldChoice>>({});
 
   const [loading, setLoading] = useState(false);
   const [busy, setBusy] = useState(false);
@@ -131,6 +157,35 @@ export function ConflictsScreen() {
     setMergePayloadDraft(toPrettyJson(selectedConflict.local_payload, 5000));
   }, [selectedConflict]);
 
+  useEffect(() => {
+    let cancelled = false;
+
+    setFieldMerge(null);
+    setFieldMergeError(null);
+    setFieldChoices({});
+
+    if (!selectedConflictId) {
+      return;
+    }
+
+    void conflicts
+      .previewMerge(selectedConflictId)
+      .then((result) => {
+        if (!cancelled) {
+          setFieldMerge(result);
+        }
+      })
+      .catch((previewError) => {
+        if (!cancelled) {
+          setFieldMergeError(toErrorMessage(previewError));
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedConflictId]);
+
   const withBusy = async (task: () => Promise<void>) => {
     setBusy(true);
     setError(null);
@@ -175,6 +230,26 @@ export function ConflictsScreen() {
     [mergePayloadDraft, selectedConflict, syncNow]
   );
 
+  const resolveFieldMerge = useCallback(async () => {
+    if (!selectedConflict || !fieldMerge) {
+      setError('Aucun merge champ à champ disponible.');
+      return;
+    }
+
+    await withBusy(async () => {
+      await conflicts.resolveFields(selectedConflict.id, fieldChoices);
+      await syncNow();
+      setInfo('Conflit résolu (merge champ à champ).');
+    });
+  }, [fieldChoices, fieldMerge, selectedConflict, syncNow]);
+
+  const chooseField = useCallback((field: string, choice: FieldChoice) => {
+    setFieldChoices((current) => ({ ...current, [field]: choice }));
+  }, []);
+
+  const missingChoices = fieldMerge ? fieldMerge.conflicts.filter((item) => !fieldChoices[item.field]).length : 0;
+  const mergedFields = fieldMerge ? fieldMerge.fields.filter((item) => item.source !== 'UNCHANGED') : [];
+
   const savePolicy = useCallback(
     async (policy: ConflictPolicy) => {
       const entity = policyEntity.trim();
@@ -347,6 +422,88 @@ export function ConflictsScreen() {
                 {toPrettyJson(selectedConflict.server_payload, 2000)}
               </Text>
 
+              <Text variant="bodyStrong" style={{ marginTop: spacing.sm }}>
+                Merge champ à champ
+              </Text>
+
+              {fieldMergeError ? (
+                <Text variant="caption" style={{ color: colors.slate, marginTop: spacing.xs }}>
+                  {fieldMergeError}
+                </Text>
+              ) : null}
+
+              {fieldMerge ? (
+                <View style={{ marginTop: spacing.xs, gap: spacing.sm }}>
+                  {!fieldMerge.has_base ? (
+                    <Text variant="caption" style={{ color: colors.amber }}>
+                      Version de base inconnue: chaque champ divergent est à arbitrer.
+                    </Text>
+                  ) : null}
+
+                  {mergedFields.map((item) => (
+                    <Text key={`merged-${item.field}`} variant="caption" style={{ color: colors.slate }}>
+                      {item.field}: {FIELD_SOURCE_LABELS[item.source]} • {formatFieldValue(item.value)}
+                    </Text>
+                  ))}
+
+                  {fieldMerge.conflicts.map((item) => {
+                    const choice = fieldChoices[item.field];
+
+                    return (
+                      <View
+                        key={`conflict-${item.field}`}
+                        style={{
+                          borderWidth: 1,
+                          borderColor: choice ? colors.teal : colors.rose,
+                          borderRadius: radii.md,
+                          padding: spacing.sm,
+                          gap: spacing.xs
+                        }}
+                      >
+                        <Text variant="bodyStrong">{item.field}</Text>
+                        {fieldMerge.has_base ? (
+                          <Text variant="caption" style={{ color: colors.slate }}>
+                            Base: {formatFieldValue(item.base)}
+                          </Text>
+                        ) : null}
+                        <Text variant="caption" style={{ color: colors.ink }}>
+                          Local: {formatFieldValue(item.local)}
+                        </Text>
+                        <Text variant="caption" style={{ color: colors.ink }}>
+                          Serveur: {formatFieldValue(item.server)}
+                        </Text>
+                        <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: spacing.sm }}>
+                          <Button
+                            label="Local"
+                            kind={choice === 'LOCAL' ? 'primary' : 'ghost'}
+                            onPress={() => chooseField(item.field, 'LOCAL')}
+                            disabled={busy}
+                          />
+                          <Button
+                            label="Serveur"
+                            kind={choice === 'SERVER' ? 'primary' : 'ghost'}
+                            onPress={() => chooseField(item.field, 'SERVER')}
+                            disabled={busy}
+                          />
+                        </View>
+                      </View>
+                    );
+                  })}
+
+                  {fieldMerge.conflicts.length === 0 ? (
+                    <Text variant="caption" style={{ color: colors.tealDark }}>
+                      Aucun champ modifié des deux côtés: le merge est automatique.
+                    </Text>
+                  ) : null}
+
+                  <Button
+                    label={missingChoices > 0 ? `Appliquer le merge (${missingChoices} choix restant)` : 'Appliquer le merge'}
+                    onPress={() => void resolveFieldMerge()}
+                    disabled={busy || missingChoices > 0}
+                  />
+                </View>
+              ) : null}
+
               <Text variant="bodyStrong" style={{ marginTop: spacing.sm }}>
                 Merge payload (v1)
               </Text>
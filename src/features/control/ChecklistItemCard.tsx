@@ -0,0 +1,231 @@
+import React, { useEffect, useState } from 'react';
+import { TextInput, View } from 'react-native';
+import { ChecklistAnswer, InspectionItem } from '../../data/control-mode';
+import { Button } from '../../ui/components/Button';
+import { Text } from '../../ui/components/Text';
+import { useTheme } from '../../ui/theme/ThemeProvider';
+
+type Props = {
+  item: InspectionItem;
+  disabled: boolean;
+  defaultSignerName: string;
+  onSetAnswer: (item: InspectionItem, answer: ChecklistAnswer | null) => void;
+  onSaveMeasure: (item: InspectionItem, value: number | null) => void;
+  onCapturePhoto: (item: InspectionItem) => void;
+  onRemovePhoto: (item: InspectionItem) => void;
+  onSign: (item: InspectionItem, signerName: string | null) => void;
+  onSaveComment: (item: InspectionItem, text: string) => void;
+};
+
+function formatDate(value: string | undefined) {
+  if (!value) {
+    return '-';
+  }
+  return new Date(value).toLocaleString('fr-FR');
+}
+
+function rangeLabel(item: InspectionItem) {
+  const unit = item.unit ? ` ${item.unit}` : '';
+
+  if (item.min !== undefined && item.max !== undefined) {
+    return `Attendu: ${item.min} – ${item.max}${unit}`;
+  }
+  if (item.min !== undefined) {
+    return `Attendu: ≥ ${item.min}${unit}`;
+  }
+  if (item.max !== undefined) {
+    return `Attendu: ≤ ${item.max}${unit}`;
+  }
+  return item.unit ? `Unité: ${item.unit}` : null;
+}
+
+function statusLabel(item: InspectionItem) {
+  if (item.answer === 'NA') return 'N/A';
+  if (item.checked) return 'Conforme';
+
+  if (item.type === 'YES_NO_NA') return item.answer === 'NO' ? 'Non conforme' : 'À renseigner';
+  if (item.type === 'MEASURE') return item.value_number !== undefined ? 'Hors tolérance' : 'À mesurer';
+  if (item.type === 'PHOTO') return 'Photo manquante';
+  return 'Signature manquante';
+}
+
+export function ChecklistItemCard({
+  item,
+  disabled,
+  defaultSignerName,
+  onSetAnswer,
+  onSaveMeasure,
+  onCapturePhoto,
+  onRemovePhoto,
+  onSign,
+  onSaveComment
+}: Props) {
+  const { colors, spacing, radii } = useTheme();
+
+  const [measureDraft, setMeasureDraft] = useState(item.value_number !== undefined ? String(item.value_number) : '');
+  const [signerDraft, setSignerDraft] = useState(item.signer_name ?? defaultSignerName);
+  const [commentDraft, setCommentDraft] = useState(item.comment ?? '');
+
+  useEffect(() => {
+    setMeasureDraft(item.value_number !== undefined ? String(item.value_number) : '');
+  }, [item.value_number]);
+
+  useEffect(() => {
+    setCommentDraft(item.comment ?? '');
+  }, [item.comment]);
+
+  const isNa = item.answer === 'NA';
+  const statusColor = isNa ? colors.slate : item.checked ? colors.teal : colors.rose;
+
+  const inputStyle = {
+    borderWidth: 1,
+    borderColor: colors.fog,
+    borderRadius: radii.md,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    backgroundColor: colors.white,
+    color: colors.ink
+  };
+
+  const saveMeasure = () => {
+    const cleaned = measureDraft.trim().replace(',', '.');
+    onSaveMeasure(item, cleaned.length > 0 ? Number(cleaned) : null);
+  };
+
+  const range = item.type === 'MEASURE' ? rangeLabel(item) : null;
+
+  return (
+    <View
+      style={{
+        borderWidth: 1,
+        borderColor: colors.fog,
+        borderRadius: radii.md,
+        padding: spacing.sm,
+        opacity: isNa ? 0.7 : 1
+      }}
+    >
+      <View style={{ flexDirection: 'row', alignItems: 'center', gap: spacing.sm }}>
+        <Text variant="bodyStrong" style={{ flex: 1 }}>
+          {item.label}
+          {item.required ? ' *' : ''}
+        </Text>
+        <Text variant="caption" style={{ color: statusColor }}>
+          {statusLabel(item)}
+        </Text>
+      </View>
+
+      <Text variant="caption" style={{ color: colors.slate, marginTop: spacing.xs }}>
+        Poids {item.weight}
+        {item.hint ? ` · ${item.hint}` : ''}
+        {range ? ` · ${range}` : ''}
+      </Text>
+
+      <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: spacing.sm, marginTop: spacing.sm }}>
+        {item.type === 'YES_NO_NA' ? (
+          <>
+            <Button
+              label="Oui"
+              kind={item.answer === 'YES' ? 'primary' : 'ghost'}
+              onPress={() => onSetAnswer(item, item.answer === 'YES' ? null : 'YES')}
+              disabled={disabled}
+            />
+            <Button
+              label="Non"
+              kind={item.answer === 'NO' ? 'primary' : 'ghost'}
+              onPress={() => onSetAnswer(item, item.answer === 'NO' ? null : 'NO')}
+              disabled={disabled}
+            />
+          </>
+        ) : null}
+
+        {item.type === 'PHOTO' ? (
+          item.media_id ? (
+            <Button label="Retirer la photo" kind="ghost" onPress={() => onRemovePhoto(item)} disabled={disabled} />
+          ) : (
+            <Button label="Prendre la photo" onPress={() => onCapturePhoto(item)} disabled={disabled || isNa} />
+          )
+        ) : null}
+
+        {!item.required ? (
+          <Button
+            label="N/A"
+            kind={isNa ? 'primary' : 'ghost'}
+            onPress={() => onSetAnswer(item, isNa ? null : 'NA')}
+            disabled={disabled}
+          />
+        ) : null}
+      </View>
+
+      {item.type === 'MEASURE' && !isNa ? (
+        <View style={{ flexDirection: 'row', gap: spacing.sm, marginTop: spacing.sm, alignItems: 'center' }}>
+          <TextInput
+            value={measureDraft}
+            onChangeText={setMeasureDraft}
+            editable={!disabled}
+            keyboardType="decimal-pad"
+            placeholder={item.unit ? `Valeur (${item.unit})` : 'Valeur'}
+            placeholderTextColor={colors.slate}
+            style={[inputStyle, { flex: 1 }]}
+          />
+          <Button label="Enregistrer" kind="ghost" onPress={saveMeasure} disabled={disabled} />
+        </View>
+      ) : null}
+
+      {item.type === 'PHOTO' && item.media_id ? (
+        <Text variant="caption" style={{ color: colors.slate, marginTop: spacing.xs }}>
+          Photo jointe: {item.media_id}
+        </Text>
+      ) : null}
+
+      {item.type === 'SIGNATURE' && !isNa ? (
+        item.signed_at ? (
+          <View style={{ flexDirection: 'row', gap: spacing.sm, marginTop: spacing.sm, alignItems: 'center' }}>
+            <Text variant="caption" style={{ flex: 1, color: colors.slate }}>
+              Signé par {item.signer_name ?? '-'} le {formatDate(item.signed_at)}
+            </Text>
+            <Button label="Effacer" kind="ghost" onPress={() => onSign(item, null)} disabled={disabled} />
+          </View>
+        ) : (
+          <View style={{ flexDirection: 'row', gap: spacing.sm, marginTop: spacing.sm, alignItems: 'center' }}>
+            <TextInput
+              value={signerDraft}
+              onChangeText={setSignerDraft}
+              editable={!disabled}
+              placeholder="Nom du signataire"
+              placeholderTextColor={colors.slate}
+              style={[inputStyle, { flex: 1 }]}
+            />
+            <Button
+              label="Signer"
+              onPress={() => onSign(item, signerDraft)}
+              disabled={disabled || signerDraft.trim().length === 0}
+            />
+          </View>
+        )
+      ) : null}
+
+      <TextInput
+        value={commentDraft}
+        onChangeText={setCommentDraft}
+        editable={!disabled}
+        placeholder="Commentaire (optionnel)"
+        placeholderTextColor={colors.slate}
+        multiline
+        style={[inputStyle, { marginTop: spacing.sm, minHeight: 56 }]}
+      />
+
+      <View style={{ flexDirection: 'row', gap: spacing.sm, marginTop: spacing.sm }}>
+        <Button
+          label="Enregistrer commentaire"
+          kind="ghost"
+          onPress={() => onSaveComment(item, commentDraft)}
+          disabled={disabled || commentDraft.trim() === (item.comment ?? '')}
+        />
+      </View>
+
+      <Text variant="caption" style={{ color: colors.slate, marginTop: spacing.xs }}>
+        Maj: {formatDate(item.updated_at)} | auteur: {item.updated_by ?? '-'}
+      </Text>
+    </View>
+  );
+}
@@ -0,0 +1,549 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { ActivityIndicator, Pressable, ScrollView, TextInput, View } from 'react-native';
+import { useAuth } from '../../core/auth';
+import { rbac } from '../../core/identity-security';
+import {
+  CHECKLIST_TRADES,
+  ChecklistItemType,
+  ChecklistTemplate,
+  controlMode,
+  tradeLabel
+} from '../../data/control-mode';
+import { Button } from '../../ui/components/Button';
+import { Card } from '../../ui/components/Card';
+import { Text } from '../../ui/components/Text';
+import { Screen } from '../../ui/layout/Screen';
+import { useTheme } from '../../ui/theme/ThemeProvider';
+import { SectionHeader } from '../common/SectionHeader';
+import {
+  ITEM_TYPES,
+  ItemDraft,
+  SectionDraft,
+  TemplateDraft,
+  createItemDraft,
+  createSectionDraft,
+  draftToInput,
+  emptyTemplateDraft,
+  moveInList,
+  templateToDraft,
+  updateSection
+} from './checklistTemplateDraft';
+
+const TEMPLATES_PERMISSION = 'control:templates';
+
+const ITEM_TYPE_LABELS: Record<ChecklistItemType, string> = {
+  YES_NO_NA: 'Oui / Non / N/A',
+  MEASURE: 'Mesure',
+  PHOTO: 'Photo',
+  SIGNATURE: 'Signature'
+};
+
+function toErrorMessage(error: unknown) {
+  if (error instanceof Error && error.message) {
+    return error.message;
+  }
+
+  return 'Erreur inconnue';
+}
+
+function formatDate(value: string) {
+  return new Date(value).toLocaleString('fr-FR');
+}
+
+function countItems(template: ChecklistTemplate) {
+  return template.sections.reduce((count, section) => count + section.items.length, 0);
+}
+
+function Field({
+  value,
+  onChangeText,
+  placeholder,
+  keyboardType
+}: {
+  value: string;
+  onChangeText: (value: string) => void;
+  placeholder: string;
+  keyboardType?: 'default' | 'decimal-pad';
+}) {
+  const { colors, spacing, radii } = useTheme();
+
+  return (
+    <TextInput
+      value={value}
+      onChangeText={onChangeText}
+      placeholder={placeholder}
+      placeholderTextColor={colors.slate}
+      keyboardType={keyboardType ?? 'default'}
+      style={{
+        flex: 1,
+        minWidth: 80,
+        borderWidth: 1,
+        borderColor: colors.fog,
+        borderRadius: radii.md,
+        paddingHorizontal: spacing.md,
+        paddingVertical: spacing.sm,
+        backgroundColor: colors.white,
+        color: colors.ink
+      }}
+    />
+  );
+}
+
+function ItemEditor({
+  item,
+  onChange,
+  onMove,
+  onRemove
+}: {
+  item: ItemDraft;
+  onChange: (values: Partial<ItemDraft>) => void;
+  onMove: (delta: -1 | 1) => void;
+  onRemove: (() => void) | null;
+}) {
+  const { colors, spacing, radii } = useTheme();
+
+  return (
+    <View style={{ borderWidth: 1, borderColor: colors.fog, borderRadius: radii.md, padding: spacing.sm, gap: spacing.xs }}>
+      <Field value={item.label} onChangeText={(label) => onChange({ label })} placeholder="libellé de l'item" />
+
+      <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: spacing.xs }}>
+        {ITEM_TYPES.map((type) => (
+          <Button
+            key={type}
+            label={ITEM_TYPE_LABELS[type]}
+            kind={item.type === type ? 'primary' : 'ghost'}
+            onPress={() => onChange({ type })}
+          />
+        ))}
+      </View>
+
+      <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: spacing.xs, alignItems: 'center' }}>
+        <Button
+          label={item.required ? 'Obligatoire' : 'Facultatif'}
+          kind={item.required ? 'primary' : 'ghost'}
+          onPress={() => onChange({ required: !item.required })}
+        />
+        <Field value={item.weight} onChangeText={(weight) => onChange({ weight })} placeholder="poids" keyboardType="decimal-pad" />
+      </View>
+
+      {item.type === 'MEASURE' ? (
+        <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: spacing.xs }}>
+          <Field value={item.unit} onChangeText={(unit) => onChange({ unit })} placeholder="unité" />
+          <Field value={item.min} onChangeText={(min) => onChange({ min })} placeholder="min" keyboardType="decimal-pad" />
+          <Field value={item.max} onChangeText={(max) => onChange({ max })} placeholder="max" keyboardType="decimal-pad" />
+        </View>
+      ) : null}
+
+      <Field value={item.hint} onChangeText={(hint) => onChange({ hint })} placeholder="aide (optionnel)" />
+
+      <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: spacing.xs }}>
+        <Button label="↑" kind="ghost" onPress={() => onMove(-1)} />
+        <Button label="↓" kind="ghost" onPress={() => onMove(1)} />
+        {onRemove ? <Button label="Retirer l'item" kind="ghost" onPress={onRemove} /> : null}
+      </View>
+    </View>
+  );
+}
+
+function SectionEditor({
+  section,
+  onChange,
+  onMove,
+  onRemove
+}: {
+  section: SectionDraft;
+  onChange: (updater: (section: SectionDraft) => SectionDraft) => void;
+  onMove: (delta: -1 | 1) => void;
+  onRemove: (() => void) | null;
+}) {
+  const { colors, spacing, radii } = useTheme();
+
+  return (
+    <View style={{ borderWidth: 1, borderColor: colors.teal, borderRadius: radii.md, padding: spacing.sm, gap: spacing.sm }}>
+      <Field
+        value={section.label}
+        onChangeText={(label) => onChange((current) => ({ ...current, label }))}
+        placeholder="nom de la section"
+      />
+
+      {section.items.map((item) => (
+        <ItemEditor
+          key={item.key}
+          item={item}
+          onChange={(values) =>
+            onChange((current) => ({
+              ...current,
+              items: current.items.map((entry) => (entry.key === item.key ? { ...entry, ...values } : entry))
+            }))
+          }
+          onMove={(delta) => onChange((current) => ({ ...current, items: moveInList(current.items, item.key, delta) }))}
+          onRemove={
+            section.items.length > 1
+              ? () => onChange((current) => ({ ...current, items: current.items.filter((entry) => entry.key !== item.key) }))
+              : null
+          }
+        />
+      ))}
+
+      <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: spacing.xs }}>
+        <Button
+          label="Ajouter un item"
+          kind="ghost"
+          onPress={() => onChange((current) => ({ ...current, items: [...current.items, createItemDraft()] }))}
+        />
+        <Button label="Section ↑" kind="ghost" onPress={() => onMove(-1)} />
+        <Button label="Section ↓" kind="ghost" onPress={() => onMove(1)} />
+        {onRemove ? <Button label="Retirer la section" kind="ghost" onPress={onRemove} /> : null}
+      </View>
+    </View>
+  );
+}
+
+export function ChecklistTemplatesScreen() {
+  const { colors, spacing, radii } = useTheme();
+  const { activeOrgId, user } = useAuth();
+
+  const [canEdit, setCanEdit] = useState<boolean | null>(null);
+  const [templates, setTemplates] = useState<ChecklistTemplate[]>([]);
+  const [tradeFilter, setTradeFilter] = useState<string | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+  const [versions, setVersions] = useState<{ familyId: string; list: ChecklistTemplate[] } | null>(null);
+  const [draft, setDraft] = useState<TemplateDraft | null>(null);
+
+  const [loading, setLoading] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [info, setInfo] = useState<string | null>(null);
+
+  useEffect(() => {
+    controlMode.setContext({
+      org_id: activeOrgId ?? undefined,
+      user_id: user?.id ?? undefined
+    });
+  }, [activeOrgId, user?.id]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    setCanEdit(null);
+    if (!activeOrgId || !user?.id) {
+      setCanEdit(false);
+      return;
+    }
+
+    void rbac
+      .hasPermission(TEMPLATES_PERMISSION, { orgId: activeOrgId })
+      .then((allowed) => {
+        if (!cancelled) setCanEdit(allowed);
+      })
+      .catch(() => {
+        if (!cancelled) setCanEdit(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [activeOrgId, user?.id]);
+
+  const refresh = useCallback(async () => {
+    if (!activeOrgId || !canEdit) {
+      setTemplates([]);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      setTemplates(await controlMode.listTemplates({ include_archived: showArchived }));
+    } catch (refreshError) {
+      setError(toErrorMessage(refreshError));
+    } finally {
+      setLoading(false);
+    }
+  }, [activeOrgId, canEdit, showArchived]);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  const withBusy = async (task: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    setInfo(null);
+
+    try {
+      await task();
+    } catch (taskError) {
+      setError(toErrorMessage(taskError));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const visibleTemplates = useMemo(
+    () => (tradeFilter ? templates.filter((template) => template.trade === tradeFilter) : templates),
+    [templates, tradeFilter]
+  );
+
+  const editTemplate = useCallback((template: ChecklistTemplate | null, asCopy = false) => {
+    setDraft(template ? templateToDraft(template, asCopy) : emptyTemplateDraft());
+    setError(null);
+    setInfo(null);
+  }, []);
+
+  const patchDraft = useCallback((values: Partial<TemplateDraft>) => {
+    setDraft((current) => (current ? { ...current, ...values } : current));
+  }, []);
+
+  const saveDraft = useCallback(async () => {
+    if (!draft) return;
+
+    await withBusy(async () => {
+      const saved = await controlMode.saveTemplate(draftToInput(draft));
+      setDraft(templateToDraft(saved));
+      await refresh();
+      setInfo(`Modèle ${saved.name} enregistré (v${saved.version}).`);
+    });
+  }, [draft, refresh]);
+
+  const archive = useCallback(
+    async (template: ChecklistTemplate) => {
+      await withBusy(async () => {
+        await controlMode.archiveTemplate(template.family_id);
+        if (draft?.family_id === template.family_id) {
+          setDraft(null);
+        }
+        await refresh();
+        setInfo(`Modèle ${template.name} archivé.`);
+      });
+    },
+    [draft?.family_id, refresh]
+  );
+
+  const toggleVersions = useCallback(
+    async (template: ChecklistTemplate) => {
+      if (versions?.familyId === template.family_id) {
+        setVersions(null);
+        return;
+      }
+
+      await withBusy(async () => {
+        const list = await controlMode.listTemplateVersions(template.family_id);
+        setVersions({ familyId: template.family_id, list });
+      });
+    },
+    [versions?.familyId]
+  );
+
+  if (canEdit === null) {
+    return (
+      <Screen>
+        <ActivityIndicator size="small" color={colors.teal} />
+      </Screen>
+    );
+  }
+
+  if (!canEdit) {
+    return (
+      <Screen>
+        <SectionHeader title="Checklists inspection" subtitle="Modèles de checklist de l'organisation." />
+        <Card>
+          <Text variant="body" style={{ color: colors.slate }}>
+            Accès réservé aux administrateurs et managers (permission {TEMPLATES_PERMISSION}).
+          </Text>
+        </Card>
+      </Screen>
+    );
+  }
+
+  return (
+    <Screen>
+      <ScrollView
+        style={{ flex: 1 }}
+        contentContainerStyle={{ paddingBottom: spacing.lg }}
+        keyboardShouldPersistTaps="handled"
+      >
+        <SectionHeader
+          title="Checklists inspection"
+          subtitle="Modèles par métier: sections, items obligatoires, mesures, photos et signatures. Chaque enregistrement crée une nouvelle version."
+        />
+
+        <View style={{ gap: spacing.md }}>
+          <Card>
+            <Text variant="h2">Modèles</Text>
+
+            <ScrollView
+              horizontal
+              showsHorizontalScrollIndicator={false}
+              style={{ marginTop: spacing.sm }}
+              contentContainerStyle={{ gap: spacing.xs }}
+            >
+              <Button label="Tous métiers" kind={tradeFilter === null ? 'primary' : 'ghost'} onPress={() => setTradeFilter(null)} />
+              {CHECKLIST_TRADES.map((trade) => (
+                <Button
+                  key={trade.key}
+                  label={trade.label}
+                  kind={tradeFilter === trade.key ? 'primary' : 'ghost'}
+                  onPress={() => setTradeFilter(trade.key)}
+                />
+              ))}
+            </ScrollView>
+
+            <View style={{ marginTop: spacing.sm, gap: spacing.sm }}>
+              {visibleTemplates.map((template) => {
+                const selected = !template.builtin && draft?.family_id === template.family_id;
+
+                return (
+                  <View
+                    key={template.id}
+                    style={{
+                      borderWidth: 1,
+                      borderColor: selected ? colors.teal : colors.fog,
+                      borderRadius: radii.md,
+                      backgroundColor: template.archived ? colors.fog : colors.white,
+                      padding: spacing.md
+                    }}
+                  >
+                    <Pressable onPress={() => editTemplate(template)} disabled={template.archived}>
+                      <Text variant="bodyStrong">
+                        {template.name} • v{template.version}
+                      </Text>
+                      <Text variant="caption" style={{ color: colors.slate, marginTop: spacing.xs }}>
+                        {tradeLabel(template.trade)} • {template.sections.length} section(s) • {countItems(template)} item(s)
+                        {template.builtin ? ' • modèle intégré' : ''}
+                        {template.archived ? ' • archivé' : ''}
+                      </Text>
+                    </Pressable>
+
+                    <View style={{ marginTop: spacing.sm, flexDirection: 'row', flexWrap: 'wrap', gap: spacing.xs }}>
+                      <Button label="Dupliquer" kind="ghost" onPress={() => editTemplate(template, true)} disabled={busy} />
+                      {!template.builtin ? (
+                        <Button
+                          label={versions?.familyId === template.family_id ? 'Masquer versions' : 'Versions'}
+                          kind="ghost"
+                          onPress={() => void toggleVersions(template)}
+                          disabled={busy}
+                        />
+                      ) : null}
+                      {!template.builtin && !template.archived ? (
+                        <Button label="Archiver" kind="ghost" onPress={() => void archive(template)} disabled={busy} />
+                      ) : null}
+                    </View>
+
+                    {versions?.familyId === template.family_id ? (
+                      <View style={{ marginTop: spacing.sm, gap: spacing.xs }}>
+                        {versions.list.map((version) => (
+                          <Text key={version.id} variant="caption" style={{ color: colors.slate }}>
+                            v{version.version} • {formatDate(version.created_at)} • {countItems(version)} item(s) • par{' '}
+                            {version.created_by ?? '-'}
+                          </Text>
+                        ))}
+                      </View>
+                    ) : null}
+                  </View>
+                );
+              })}
+
+              {visibleTemplates.length === 0 && !loading ? (
+                <Text variant="caption" style={{ color: colors.slate }}>
+                  Aucun modèle pour ce métier.
+                </Text>
+              ) : null}
+
+              {loading ? <ActivityIndicator size="small" color={colors.teal} /> : null}
+            </View>
+
+            <View style={{ marginTop: spacing.sm, flexDirection: 'row', flexWrap: 'wrap', gap: spacing.sm }}>
+              <Button label="Nouveau modèle" onPress={() => editTemplate(null)} disabled={busy} />
+              <Button
+                label={showArchived ? 'Masquer archivés' : 'Afficher archivés'}
+                kind="ghost"
+                onPress={() => setShowArchived((current) => !current)}
+                disabled={busy}
+              />
+              <Button label="Rafraîchir" kind="ghost" onPress={() => void refresh()} disabled={loading || busy} />
+            </View>
+          </Card>
+
+          {draft ? (
+            <Card>
+              <Text variant="h2">{draft.family_id ? `Nouvelle version de ${draft.source_label}` : 'Nouveau modèle'}</Text>
+              {!draft.family_id && draft.source_label ? (
+                <Text variant="caption" style={{ color: colors.slate, marginTop: spacing.xs }}>
+                  Copie de {draft.source_label}
+                </Text>
+              ) : null}
+
+              <View style={{ marginTop: spacing.sm, gap: spacing.sm }}>
+                <Field value={draft.name} onChangeText={(name) => patchDraft({ name })} placeholder="nom du modèle" />
+                <Field
+                  value={draft.description}
+                  onChangeText={(description) => patchDraft({ description })}
+                  placeholder="description (optionnel)"
+                />
+
+                <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: spacing.xs }}>
+                  {CHECKLIST_TRADES.map((trade) => (
+                    <Button
+                      key={trade.key}
+                      label={trade.label}
+                      kind={draft.trade === trade.key ? 'primary' : 'ghost'}
+                      onPress={() => patchDraft({ trade: trade.key })}
+                    />
+                  ))}
+                </View>
+
+                {draft.sections.map((section) => (
+                  <SectionEditor
+                    key={section.key}
+                    section={section}
+                    onChange={(updater) => setDraft((current) => (current ? updateSection(current, section.key, updater) : current))}
+                    onMove={(delta) =>
+                      setDraft((current) => (current ? { ...current, sections: moveInList(current.sections, section.key, delta) } : current))
+                    }
+                    onRemove={
+                      draft.sections.length > 1
+                        ? () =>
+                            setDraft((current) =>
+                              current ? { ...current, sections: current.sections.filter((entry) => entry.key !== section.key) } : current
+                            )
+                        : null
+                    }
+                  />
+                ))}
+
+                <Button
+                  label="Ajouter une section"
+                  kind="ghost"
+                  onPress={() => setDraft((current) => (current ? { ...current, sections: [...current.sections, createSectionDraft()] } : current))}
+                />
+              </View>
+
+              <Text variant="caption" style={{ color: colors.slate, marginTop: spacing.sm }}>
+                Un item obligatoire ne peut pas être marqué N/A. Les items N/A sont exclus du score pondéré.
+              </Text>
+
+              <View style={{ marginTop: spacing.md, flexDirection: 'row', flexWrap: 'wrap', gap: spacing.sm }}>
+                <Button label="Enregistrer" onPress={() => void saveDraft()} disabled={busy} />
+                <Button label="Fermer" kind="ghost" onPress={() => setDraft(null)} disabled={busy} />
+              </View>
+            </Card>
+          ) : null}
+
+          {info ? (
+            <Text variant="caption" style={{ color: colors.tealDark }}>
+              {info}
+            </Text>
+          ) : null}
+
+          {error ? (
+            <Text variant="caption" style={{ color: colors.rose }}>
+              {error}
+            </Text>
+          ) : null}
+        </View>
+      </ScrollView>
+    </Screen>
+  );
+}
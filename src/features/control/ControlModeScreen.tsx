@@ -7,20 +7,29 @@ import {
   Image,
   Pressable,
   ScrollView,
+  Share,
   TextInput,
   View,
   useWindowDimensions
 } from 'react-native';
 import { useAuth } from '../../core/auth';
 import {
+  CHECKLIST_TRADES,
+  ChecklistAnswer,
+  ChecklistTemplate,
   ChecklistWithItems,
   ControlSummary,
   InspectionItem,
+  InspectionReport,
+  InspectionScore,
   InspectionSummary,
-  controlMode
+  controlMode,
+  tradeLabel
 } from '../../data/control-mode';
 import { ExportJob, exportsDoe } from '../../data/exports';
+import { share } from '../../data/external-sharing';
 import { media, MediaAsset } from '../../data/media';
+import { SignatureActor } from '../../data/signature-probante';
 import { useSyncStatus } from '../../data/sync/useSyncStatus';
 import { useAppNavigationContext } from '../../navigation/contextStore';
 import { Button } from '../../ui/components/Button';
@@ -29,6 +38,8 @@ import { Text } from '../../ui/components/Text';
 import { Screen } from '../../ui/layout/Screen';
 import { useTheme } from '../../ui/theme/ThemeProvider';
 import { SectionHeader } from '../common/SectionHeader';
+import { SignatureModal } from '../documents/SignatureModal';
+import { ChecklistItemCard } from './ChecklistItemCard';
 
 const FALLBACK_PROJECT_ID = 'chantier-conformeo-demo';
 const PROOF_PAGE_SIZE = 90;
@@ -63,6 +74,28 @@ function toErrorMessage(error: unknown) {
   return 'Erreur inconnue.';
 }
 
+function formatScore(score: Pick<InspectionScore, 'score_checked' | 'score_total' | 'score_percent'>) {
+  const percent = score.score_percent === null ? '-' : `${score.score_percent}%`;
+  return `${percent} (${score.score_checked}/${score.score_total})`;
+}
+
+function groupBySection(items: InspectionItem[]) {
+  const sections: Array<{ key: string; label: string; items: InspectionItem[] }> = [];
+
+  for (const item of items) {
+    const key = item.section_key ?? '';
+    const last = sections[sections.length - 1];
+
+    if (last && last.key === key) {
+      last.items.push(item);
+    } else {
+      sections.push({ key, label: item.section_label ?? 'Checklist', items: [item] });
+    }
+  }
+
+  return sections;
+}
+
 function fromDateForWindow(window: ProofWindow) {
   if (window === 'ALL') {
     return undefined;
@@ -110,7 +143,14 @@ export function ControlModeScreen(
   const [inspections, setInspections] = useState<InspectionSummary[]>([]);
 
   const [checklist, setChecklist] = useState<ChecklistWithItems | null>(null);
-  const [commentDrafts, setCommentDrafts] = useState<Record<string, string>>({});
+  const [checklistScore, setChecklistScore] = useState<InspectionScore | null>(null);
+  const [templates, setTemplates] = useState<ChecklistTemplate[]>([]);
+  const [templatePickerOpen, setTemplatePickerOpen] = useState(false);
+  const [templateTrade, setTemplateTrade] = useState<string | null>(null);
+
+  const [reportChecklistId, setReportChecklistId] = useState<string | null>(null);
+  const [report, setReport] = useState<InspectionReport | null>(null);
+  const [signatureOpen, setSignatureOpen] = useState(false);
 
   const [proofs, setProofs] = useState<MediaAsset[]>([]);
   const [criticalOnly, setCriticalOnly] = useState(true);
@@ -171,6 +211,7 @@ export function ControlModeScreen(
     if (!activeOrgId || !projectId) {
       setSummary(null);
       setChecklist(null);
+      setChecklistScore(null);
       setInspections([]);
       setCriticalPreview([]);
       setModeEnabled(false);
@@ -192,15 +233,10 @@ export function ControlModeScreen(
       setModeEnabled(enabled);
       setSummary(summaryValue);
       setChecklist(latestChecklist);
+      setChecklistScore(await controlMode.computeScore(latestChecklist.checklist.id));
       setInspections(inspectionHistory);
       setCriticalPreview(previewProofs);
 
-      setCommentDrafts(
-        Object.fromEntries(
-          latestChecklist.items.map((item) => [item.id, item.comment ?? ''])
-        )
-      );
-
       const latestControlPack = currentExportJobs.find((job) => job.type === 'CONTROL_PACK') ?? null;
       setExportJob(latestControlPack);
     } catch (refreshError) {
@@ -210,6 +246,19 @@ export function ControlModeScreen(
     }
   }, [activeOrgId, projectId]);
 
+  const refreshTemplates = useCallback(async () => {
+    if (!activeOrgId) {
+      setTemplates([]);
+      return;
+    }
+
+    try {
+      setTemplates(await controlMode.listTemplates());
+    } catch (templateError) {
+      setError(toErrorMessage(templateError));
+    }
+  }, [activeOrgId]);
+
   const refreshProofs = useCallback(async () => {
     if (!activeOrgId || !projectId) {
       setProofs([]);
@@ -395,34 +444,175 @@ export function ControlModeScreen(
     }
   }, [exportJob?.local_path]);
 
-  const toggleChecklistItem = useCallback(
-    (item: InspectionItem) => {
+  const runItemUpdate = useCallback(
+    (update: () => Promise<void>) => {
       void withBusy(async () => {
-        await controlMode.toggleItem(item.id, !item.checked);
+        await update();
         await refreshSummary();
       });
     },
     [refreshSummary, withBusy]
   );
 
+  const setItemAnswer = useCallback(
+    (item: InspectionItem, answer: ChecklistAnswer | null) => {
+      runItemUpdate(() => controlMode.setAnswer(item.id, answer));
+    },
+    [runItemUpdate]
+  );
+
+  const saveItemMeasure = useCallback(
+    (item: InspectionItem, value: number | null) => {
+      if (value !== null && !Number.isFinite(value)) {
+        setError('Mesure invalide.');
+        return;
+      }
+
+      runItemUpdate(() => controlMode.setMeasure(item.id, value));
+    },
+    [runItemUpdate]
+  );
+
+  const captureItemPhoto = useCallback(
+    (item: InspectionItem) => {
+      if (!activeOrgId || !projectId) {
+        setError('Aucune organisation ou chantier actif.');
+        return;
+      }
+
+      runItemUpdate(async () => {
+        const asset = await media.capturePhoto({
+          org_id: activeOrgId,
+          project_id: projectId,
+          tag: `checklist_${item.key}`
+        });
+
+        await controlMode.attachPhoto(item.id, asset.id);
+      });
+    },
+    [activeOrgId, projectId, runItemUpdate]
+  );
+
+  const removeItemPhoto = useCallback(
+    (item: InspectionItem) => {
+      runItemUpdate(() => controlMode.attachPhoto(item.id, null));
+    },
+    [runItemUpdate]
+  );
+
+  const signChecklistItem = useCallback(
+    (item: InspectionItem, signerName: string | null) => {
+      runItemUpdate(() => controlMode.signItem(item.id, signerName));
+    },
+    [runItemUpdate]
+  );
+
   const saveChecklistComment = useCallback(
-    (itemId: string) => {
-      const value = (commentDrafts[itemId] ?? '').trim();
+    (item: InspectionItem, text: string) => {
+      runItemUpdate(() => controlMode.setComment(item.id, text));
+    },
+    [runItemUpdate]
+  );
+
+  // Loads the chooser on open, then after each sync: templates saved on another device arrive with the pull.
+  useEffect(() => {
+    if (templatePickerOpen) {
+      void refreshTemplates();
+    }
+  }, [refreshTemplates, syncStatus.lastSyncedAt, templatePickerOpen]);
 
+  const openTemplatePicker = useCallback(() => {
+    setTemplatePickerOpen(true);
+  }, []);
+
+  const createNewChecklist = useCallback(
+    (template: ChecklistTemplate) => {
       void withBusy(async () => {
-        await controlMode.setComment(itemId, value);
+        await controlMode.createChecklist(projectId, { template_id: template.id });
+        setTemplatePickerOpen(false);
+        setReportChecklistId(null);
         await refreshSummary();
       });
     },
-    [commentDrafts, refreshSummary, withBusy]
+    [projectId, refreshSummary, withBusy]
   );
 
-  const createNewChecklist = useCallback(() => {
+  const reportTargetId = reportChecklistId ?? checklist?.checklist.id ?? null;
+  const reportTarget = inspections.find((inspection) => inspection.id === reportTargetId) ?? null;
+
+  const refreshReport = useCallback(async () => {
+    if (!activeOrgId || !reportTargetId) {
+      setReport(null);
+      return;
+    }
+
+    try {
+      setReport(await controlMode.getInspectionReport(reportTargetId));
+    } catch (reportError) {
+      setError(toErrorMessage(reportError));
+    }
+  }, [activeOrgId, reportTargetId]);
+
+  useEffect(() => {
+    setReportChecklistId(null);
+  }, [projectId]);
+
+  useEffect(() => {
+    void refreshReport();
+  }, [refreshReport]);
+
+  const generateReport = useCallback(() => {
+    if (!reportTargetId) {
+      return;
+    }
+
     void withBusy(async () => {
-      await controlMode.createChecklist(projectId);
+      setReport(await controlMode.generateInspectionReport(reportTargetId));
       await refreshSummary();
     });
-  }, [projectId, refreshSummary, withBusy]);
+  }, [refreshSummary, reportTargetId, withBusy]);
+
+  const shareReportFile = useCallback(() => {
+    if (!report) {
+      return;
+    }
+
+    void withBusy(async () => {
+      const asset = await media.getById(report.version.file_asset_id);
+      if (!asset) {
+        throw new Error('Fichier PV introuvable sur ce device.');
+      }
+
+      const canShare = await Sharing.isAvailableAsync();
+      if (!canShare) {
+        throw new Error('Partage indisponible sur ce device.');
+      }
+
+      await Sharing.shareAsync(asset.local_path, {
+        dialogTitle: 'Partager PV inspection'
+      });
+    });
+  }, [report, withBusy]);
+
+  const shareReportLink = useCallback(() => {
+    if (!report) {
+      return;
+    }
+
+    void withBusy(async () => {
+      const created = await share.create('DOCUMENT', report.document.id, { expiresInHours: 72 });
+      void Share.share({ message: created.url });
+    });
+  }, [report, withBusy]);
+
+  const signatureActor = useMemo<SignatureActor | null>(() => {
+    if (!user?.id) return null;
+    return {
+      user_id: user.id,
+      role: undefined,
+      display_name: user.email ?? undefined
+    };
+  }, [user?.email, user?.id]);
 
   const openCriticalProofsTab = useCallback(() => {
     setCriticalOnly(true);
@@ -431,11 +621,17 @@ export function ControlModeScreen(
 
   const riskPillColor = summary ? riskColor(summary.riskLevel, colors) : colors.fog;
 
-  const checklistScore = useMemo(() => {
-    const items = checklist?.items ?? [];
-    const checked = items.filter((item) => item.checked).length;
-    return { checked, total: items.length };
-  }, [checklist?.items]);
+  const checklistSections = useMemo(() => groupBySection(checklist?.items ?? []), [checklist?.items]);
+
+  const templateTrades = useMemo(
+    () => CHECKLIST_TRADES.filter((trade) => templates.some((template) => template.trade === trade.key)),
+    [templates]
+  );
+
+  const visibleTemplates = useMemo(
+    () => (templateTrade ? templates.filter((template) => template.trade === templateTrade) : templates),
+    [templateTrade, templates]
+  );
 
   const proofHeader = useMemo(
     () => (
@@ -717,81 +913,147 @@ export function ControlModeScreen(
           <Card>
             <View style={{ flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' }}>
               <Text variant="h2">Checklist inspection</Text>
-              <Button label="Nouvelle inspection" kind="ghost" onPress={createNewChecklist} disabled={busy} />
+              <Button
+                label={templatePickerOpen ? 'Annuler' : 'Nouvelle inspection'}
+                kind="ghost"
+                onPress={templatePickerOpen ? () => setTemplatePickerOpen(false) : openTemplatePicker}
+                disabled={busy}
+              />
             </View>
 
-            <Text variant="caption" style={{ color: colors.slate, marginTop: spacing.xs }}>
-              Score: {checklistScore.checked}/{checklistScore.total} · Dernière: {formatDate(checklist?.checklist.created_at)}
-            </Text>
+            {templatePickerOpen ? (
+              <View
+                style={{
+                  marginTop: spacing.sm,
+                  padding: spacing.sm,
+                  borderWidth: 1,
+                  borderColor: colors.fog,
+                  borderRadius: radii.md,
+                  gap: spacing.sm
+                }}
+              >
+                <Text variant="bodyStrong">Choisir un modèle</Text>
 
-            <View style={{ gap: spacing.sm, marginTop: spacing.sm }}>
-              {checklist?.items.map((item) => (
-                <View
-                  key={item.id}
-                  style={{
-                    borderWidth: 1,
-                    borderColor: colors.fog,
-                    borderRadius: radii.md,
-                    padding: spacing.sm
-                  }}
-                >
-                  <Pressable
-                    onPress={() => toggleChecklistItem(item)}
-                    disabled={busy}
-                    style={{ flexDirection: 'row', alignItems: 'center', gap: spacing.sm }}
-                  >
-                    <View
+                <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={{ gap: spacing.sm }}>
+                  <Button label="Tous métiers" kind={templateTrade === null ? 'primary' : 'ghost'} onPress={() => setTemplateTrade(null)} />
+                  {templateTrades.map((trade) => (
+                    <Button
+                      key={trade.key}
+                      label={trade.label}
+                      kind={templateTrade === trade.key ? 'primary' : 'ghost'}
+                      onPress={() => setTemplateTrade(trade.key)}
+                    />
+                  ))}
+                </ScrollView>
+
+                {visibleTemplates.map((template) => {
+                  const itemCount = template.sections.reduce((count, section) => count + section.items.length, 0);
+                  return (
+                    <Pressable
+                      key={template.id}
+                      onPress={() => createNewChecklist(template)}
+                      disabled={busy}
                       style={{
-                        width: 18,
-                        height: 18,
-                        borderRadius: 9,
                         borderWidth: 1,
                         borderColor: colors.fog,
-                        backgroundColor: item.checked ? colors.mint : colors.white
+                        borderRadius: radii.md,
+                        padding: spacing.sm,
+                        backgroundColor: colors.white
                       }}
-                    />
-                    <Text variant="bodyStrong" style={{ flex: 1 }}>
-                      {item.label}
-                    </Text>
-                  </Pressable>
+                    >
+                      <Text variant="bodyStrong">{template.name}</Text>
+                      <Text variant="caption" style={{ color: colors.slate }}>
+                        {tradeLabel(template.trade)} · v{template.version} · {template.sections.length} section(s) · {itemCount} item(s)
+                        {template.builtin ? ' · modèle intégré' : ''}
+                      </Text>
+                    </Pressable>
+                  );
+                })}
+
+                {visibleTemplates.length === 0 ? (
+                  <Text variant="caption" style={{ color: colors.slate }}>
+                    Aucun modèle pour ce métier.
+                  </Text>
+                ) : null}
+              </View>
+            ) : null}
 
-                  <TextInput
-                    value={commentDrafts[item.id] ?? item.comment ?? ''}
-                    onChangeText={(value) => setCommentDrafts((current) => ({ ...current, [item.id]: value }))}
-                    editable={!busy}
-                    placeholder="Commentaire (optionnel)"
-                    placeholderTextColor={colors.slate}
-                    multiline
-                    style={{
-                      borderWidth: 1,
-                      borderColor: colors.fog,
-                      borderRadius: radii.md,
-                      paddingHorizontal: spacing.md,
-                      paddingVertical: spacing.sm,
-                      backgroundColor: colors.white,
-                      marginTop: spacing.sm,
-                      color: colors.ink,
-                      minHeight: 56
-                    }}
-                  />
+            <Text variant="caption" style={{ color: colors.slate, marginTop: spacing.xs }}>
+              {checklist?.checklist.template_name ?? 'Checklist'}
+              {checklist?.checklist.template_version ? ` v${checklist.checklist.template_version}` : ''}
+              {checklist?.checklist.trade ? ` · ${tradeLabel(checklist.checklist.trade)}` : ''} · Dernière:{' '}
+              {formatDate(checklist?.checklist.created_at)}
+            </Text>
 
-                  <View style={{ flexDirection: 'row', gap: spacing.sm, marginTop: spacing.sm }}>
-                    <Button
-                      label="Enregistrer commentaire"
-                      kind="ghost"
-                      onPress={() => saveChecklistComment(item.id)}
-                      disabled={busy}
-                    />
-                  </View>
+            {checklistScore ? (
+              <Text variant="caption" style={{ color: colors.slate, marginTop: spacing.xs }}>
+                Score pondéré: {formatScore(checklistScore)} · N/A: {checklistScore.na_count} · Non conformes:{' '}
+                {checklistScore.nonconforming_count}
+                {checklistScore.required_missing > 0 ? ` · Obligatoires manquants: ${checklistScore.required_missing}` : ''}
+              </Text>
+            ) : null}
 
-                  <Text variant="caption" style={{ color: colors.slate, marginTop: spacing.xs }}>
-                    Maj: {formatDate(item.updated_at)} | auteur: {item.updated_by ?? '-'}
+            <View style={{ gap: spacing.md, marginTop: spacing.sm }}>
+              {checklistSections.map((section) => (
+                <View key={`${section.key}-${section.items[0]?.id}`} style={{ gap: spacing.sm }}>
+                  <Text variant="bodyStrong" style={{ color: colors.tealDark }}>
+                    {section.label}
                   </Text>
+                  {section.items.map((item) => (
+                    <ChecklistItemCard
+                      key={item.id}
+                      item={item}
+                      disabled={busy}
+                      defaultSignerName={user?.email ?? ''}
+                      onSetAnswer={setItemAnswer}
+                      onSaveMeasure={saveItemMeasure}
+                      onCapturePhoto={captureItemPhoto}
+                      onRemovePhoto={removeItemPhoto}
+                      onSign={signChecklistItem}
+                      onSaveComment={saveChecklistComment}
+                    />
+                  ))}
                 </View>
               ))}
             </View>
           </Card>
 
+          <Card>
+            <Text variant="h2">PV d'inspection</Text>
+            <Text variant="caption" style={{ color: colors.slate, marginTop: spacing.xs }}>
+              {reportTarget
+                ? `${reportTarget.template_name ?? 'Checklist'} du ${formatDate(reportTarget.created_at)} · ${formatScore(reportTarget)}`
+                : 'Inspection courante'}
+            </Text>
+            <Text variant="caption" style={{ color: colors.slate, marginTop: spacing.xs }}>
+              {report
+                ? `${report.document.title} · v${report.version.version_number} · ${report.signed ? 'signé' : 'non signé'} · ${formatDate(report.version.created_at)}`
+                : 'Aucun PV généré pour cette inspection.'}
+            </Text>
+
+            <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: spacing.sm, marginTop: spacing.sm }}>
+              <Button
+                label={report ? 'Régénérer le PV' : 'Générer le PV'}
+                kind={report ? 'ghost' : 'primary'}
+                onPress={generateReport}
+                disabled={busy || !reportTargetId}
+              />
+              <Button
+                label="Signer"
+                onPress={() => setSignatureOpen(true)}
+                disabled={busy || !report || report.signed || !signatureActor}
+              />
+              <Button label="Partager PDF" kind="ghost" onPress={shareReportFile} disabled={busy || !report} />
+              <Button label="Lien 72h" kind="ghost" onPress={shareReportLink} disabled={busy || !report} />
+            </View>
+
+            {report?.signed ? (
+              <Text variant="caption" style={{ color: colors.slate, marginTop: spacing.xs }}>
+                Régénérer le PV crée une nouvelle version à signer de nouveau.
+              </Text>
+            ) : null}
+          </Card>
+
           <Card>
             <View style={{ flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', gap: spacing.sm }}>
               <Text variant="h2">Preuves critiques</Text>
@@ -852,12 +1114,23 @@ export function ControlModeScreen(
                     backgroundColor: inspection.id === checklist?.checklist.id ? colors.mint : colors.white
                   }}
                 >
-                  <Text variant="bodyStrong">
-                    {formatDate(inspection.created_at)} · {inspection.score_checked}/{inspection.score_total}
-                  </Text>
-                  <Text variant="caption" style={{ color: colors.slate }}>
-                    auteur: {inspection.created_by}
-                  </Text>
+                  <View style={{ flexDirection: 'row', alignItems: 'center', gap: spacing.sm }}>
+                    <View style={{ flex: 1 }}>
+                      <Text variant="bodyStrong">
+                        {formatDate(inspection.created_at)} · {formatScore(inspection)}
+                      </Text>
+                      <Text variant="caption" style={{ color: colors.slate }}>
+                        {inspection.template_name ?? 'Checklist'} · auteur: {inspection.created_by}
+                        {inspection.report_document_id ? ' · PV' : ''}
+                      </Text>
+                    </View>
+                    <Button
+                      label="PV"
+                      kind={inspection.id === reportTargetId ? 'primary' : 'ghost'}
+                      onPress={() => setReportChecklistId(inspection.id)}
+                      disabled={busy}
+                    />
+                  </View>
                 </View>
               ))}
               {inspections.length === 0 ? (
@@ -873,6 +1146,17 @@ export function ControlModeScreen(
               {error}
             </Text>
           ) : null}
+
+          <SignatureModal
+            visible={signatureOpen}
+            document={report?.document ?? null}
+            version={report?.version ?? null}
+            actor={signatureActor}
+            onClose={() => setSignatureOpen(false)}
+            onCompleted={async () => {
+              await refreshReport();
+            }}
+          />
         </ScrollView>
       ) : (
         <View style={{ flex: 1, minHeight: 0, marginTop: spacing.md }}>
@@ -0,0 +1,180 @@
+import type {
+  ChecklistItemType,
+  ChecklistTemplate,
+  ChecklistTemplateInput,
+  ChecklistTemplateItemInput
+} from '../../data/control-mode';
+
+// Editable (string-based) mirror of a checklist template: numbers stay free text until the
+// template is converted back, so a half-typed weight never throws while the user is editing.
+
+export type ItemDraft = {
+  key: string;
+  /** Key persisted in the template, kept across versions so inspections stay comparable. */
+  item_key: string;
+  label: string;
+  type: ChecklistItemType;
+  required: boolean;
+  weight: string;
+  unit: string;
+  min: string;
+  max: string;
+  hint: string;
+};
+
+export type SectionDraft = {
+  key: string;
+  section_key: string;
+  label: string;
+  items: ItemDraft[];
+};
+
+export type TemplateDraft = {
+  /** Empty: a new template family (also used when copying a built-in template). */
+  family_id: string;
+  source_label: string;
+  name: string;
+  trade: string;
+  description: string;
+  sections: SectionDraft[];
+};
+
+export const ITEM_TYPES: ChecklistItemType[] = ['YES_NO_NA', 'MEASURE', 'PHOTO', 'SIGNATURE'];
+
+let keySeed = 0;
+
+function nextKey() {
+  keySeed += 1;
+  return `t${keySeed}`;
+}
+
+function formatNumber(value: number | undefined) {
+  return value === undefined ? '' : String(value);
+}
+
+function parseOptionalNumber(raw: string, label: string) {
+  const cleaned = raw.trim().replace(',', '.');
+  if (cleaned.length === 0) {
+    return undefined;
+  }
+
+  const parsed = Number(cleaned);
+  if (!Number.isFinite(parsed)) {
+    throw new Error(`${label}: nombre attendu.`);
+  }
+  return parsed;
+}
+
+export function createItemDraft(type: ChecklistItemType = 'YES_NO_NA'): ItemDraft {
+  return {
+    key: nextKey(),
+    item_key: '',
+    label: '',
+    type,
+    required: false,
+    weight: '1',
+    unit: '',
+    min: '',
+    max: '',
+    hint: ''
+  };
+}
+
+export function createSectionDraft(): SectionDraft {
+  return { key: nextKey(), section_key: '', label: '', items: [createItemDraft()] };
+}
+
+export function emptyTemplateDraft(trade = 'GENERAL'): TemplateDraft {
+  return {
+    family_id: '',
+    source_label: '',
+    name: '',
+    trade,
+    description: '',
+    sections: [createSectionDraft()]
+  };
+}
+
+/** `asCopy` drops the family id: saving creates a new template instead of a new version. */
+export function templateToDraft(template: ChecklistTemplate, asCopy = false): TemplateDraft {
+  const copy = asCopy || template.builtin;
+
+  return {
+    family_id: copy ? '' : template.family_id,
+    source_label: `${template.name} v${template.version}`,
+    name: copy ? `${template.name} (copie)` : template.name,
+    trade: template.trade,
+    description: template.description ?? '',
+    sections: template.sections.map((section) => ({
+      key: nextKey(),
+      section_key: section.key,
+      label: section.label,
+      items: section.items.map((item) => ({
+        key: nextKey(),
+        item_key: item.key,
+        label: item.label,
+        type: item.type,
+        required: item.required,
+        weight: String(item.weight),
+        unit: item.unit ?? '',
+        min: formatNumber(item.min),
+        max: formatNumber(item.max),
+        hint: item.hint ?? ''
+      }))
+    }))
+  };
+}
+
+function itemDraftToInput(item: ItemDraft): ChecklistTemplateItemInput {
+  const label = item.label.trim() || 'item';
+  const input: ChecklistTemplateItemInput = {
+    key: item.item_key || undefined,
+    label: item.label,
+    type: item.type,
+    required: item.required,
+    weight: parseOptionalNumber(item.weight, `Poids de "${label}"`) ?? 1,
+    hint: item.hint
+  };
+
+  if (item.type === 'MEASURE') {
+    input.unit = item.unit;
+    input.min = parseOptionalNumber(item.min, `Minimum de "${label}"`);
+    input.max = parseOptionalNumber(item.max, `Maximum de "${label}"`);
+  }
+
+  return input;
+}
+
+export function draftToInput(draft: TemplateDraft): ChecklistTemplateInput {
+  return {
+    family_id: draft.family_id || undefined,
+    name: draft.name,
+    trade: draft.trade,
+    description: draft.description,
+    sections: draft.sections.map((section) => ({
+      key: section.section_key || undefined,
+      label: section.label,
+      items: section.items.map(itemDraftToInput)
+    }))
+  };
+}
+
+export function updateSection(draft: TemplateDraft, key: string, updater: (section: SectionDraft) => SectionDraft) {
+  return {
+    ...draft,
+    sections: draft.sections.map((section) => (section.key === key ? updater(section) : section))
+  };
+}
+
+export function moveInList<T extends { key: string }>(list: T[], key: string, delta: -1 | 1) {
+  const index = list.findIndex((entry) => entry.key === key);
+  const target = index + delta;
+
+  if (index < 0 || target < 0 || target >= list.length) {
+    return list;
+  }
+
+  const next = [...list];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+}
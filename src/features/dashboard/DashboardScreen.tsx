@@ -3,6 +3,7 @@ import { ActivityIndicator, Pressable, ScrollView, View } from 'react-native';
 import { useAuth } from '../../core/auth';
 import { applyQuickAction, ux } from '../../data/ux-accelerators';
 import { controlMode } from '../../data/control-mode';
+import { rules } from '../../data/rules-engine';
 import { useEnabledModules } from '../../navigation/EnabledModulesProvider';
 import { nav } from '../../navigation/nav';
 import { ROUTES } from '../../navigation/routes';
@@ -40,6 +41,11 @@ function formatProofsKpi(pending: number, failed: number) {
   return String(pending);
 }
 
+function formatDueDate(value: string) {
+  const ts = Date.parse(value.length === 10 ? `${value}T00:00:00` : value);
+  return Number.isFinite(ts) ? new Date(ts).toLocaleDateString('fr-FR') : value;
+}
+
 function resolveProjectTarget(cockpit: DashboardCockpit | null) {
   if (cockpit?.lastProjectId) return cockpit.lastProjectId;
   if (cockpit?.projects?.[0]?.projectId) return cockpit.projects[0].projectId;
@@ -86,14 +92,14 @@ export function DashboardScreen() {
     setError(null);
 
     try {
-      const next = await getDashboardCockpit({ orgId: activeOrgId, userId: user?.id });
+      const next = await getDashboardCockpit({ orgId: activeOrgId, userId: user?.id, role });
       setCockpit(next);
     } catch (e) {
       setError(toErrorMessage(e));
     } finally {
       setLoading(false);
     }
-  }, [activeOrgId, user?.id]);
+  }, [activeOrgId, role, user?.id]);
 
   useEffect(() => {
     void refresh();
@@ -287,6 +293,24 @@ export function DashboardScreen() {
   }, [cockpit?.alerts, hasConflicts, hasOrgsAdmin]);
 
   const projectsRows = useMemo(() => cockpit?.projects ?? [], [cockpit?.projects]);
+  const pendingReviews = useMemo(() => cockpit?.pendingReviews ?? [], [cockpit?.pendingReviews]);
+  const ruleNotifications = useMemo(() => cockpit?.ruleNotifications ?? [], [cockpit?.ruleNotifications]);
+
+  const markNotificationRead = useCallback(
+    async (id: string) => {
+      setBusy(true);
+      setError(null);
+      try {
+        await rules.markNotificationRead(id);
+        await refresh();
+      } catch (e) {
+        setError(toErrorMessage(e));
+      } finally {
+        setBusy(false);
+      }
+    },
+    [refresh]
+  );
 
   const quotaBadge = useMemo(() => {
     return <QuotaBadge level={cockpit?.quotaLevel ?? 'OK'} />;
@@ -357,6 +381,81 @@ export function DashboardScreen() {
           </View>
         </Card>
 
+        {ruleNotifications.length > 0 ? (
+          <Card style={{ marginTop: spacing.md }}>
+            <View style={{ flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' }}>
+              <Text variant="h2">Notifications règles</Text>
+              <Text variant="caption" style={{ color: colors.mutedText }}>
+                {ruleNotifications.length} non lue(s)
+              </Text>
+            </View>
+
+            <View style={{ gap: spacing.sm, marginTop: spacing.sm }}>
+              {ruleNotifications.map((item) => (
+                <View
+                  key={item.id}
+                  style={{
+                    flexDirection: 'row',
+                    alignItems: 'center',
+                    gap: spacing.sm,
+                    borderWidth: 1,
+                    borderColor: colors.border,
+                    borderRadius: radii.md,
+                    padding: spacing.md,
+                    backgroundColor: colors.surfaceAlt
+                  }}
+                >
+                  <View style={{ flex: 1 }}>
+                    <Text variant="bodyStrong" numberOfLines={2}>
+                      {item.message}
+                    </Text>
+                    <Text variant="caption" style={{ color: colors.mutedText }} numberOfLines={1}>
+                      {item.entity} · {formatDueDate(item.created_at)}
+                    </Text>
+                  </View>
+                  <Button label="Lu" kind="ghost" onPress={() => void markNotificationRead(item.id)} disabled={busy} />
+                </View>
+              ))}
+            </View>
+          </Card>
+        ) : null}
+
+        {pendingReviews.length > 0 ? (
+          <Card style={{ marginTop: spacing.md }}>
+            <View style={{ flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' }}>
+              <Text variant="h2">Visas à rendre</Text>
+              <Text variant="caption" style={{ color: colors.mutedText }}>
+                {pendingReviews.length} en attente
+              </Text>
+            </View>
+
+            <View style={{ gap: spacing.sm, marginTop: spacing.sm }}>
+              {pendingReviews.map((item) => (
+                <Pressable
+                  key={item.review.id}
+                  onPress={() => item.review.project_id && nav.openProject(item.review.project_id, 'Documents')}
+                  style={{
+                    borderWidth: 1,
+                    borderColor: item.overdue ? colors.danger : colors.border,
+                    borderRadius: radii.md,
+                    padding: spacing.md,
+                    backgroundColor: colors.surfaceAlt
+                  }}
+                >
+                  <Text variant="bodyStrong" numberOfLines={1}>
+                    {item.document_title} · v{item.review.version_number}
+                  </Text>
+                  <Text variant="caption" style={{ color: item.overdue ? colors.danger : colors.mutedText }} numberOfLines={1}>
+                    {item.doc_type}
+                    {item.review.due_date ? ` · échéance ${formatDueDate(item.review.due_date)}` : ''}
+                    {item.overdue ? ' · en retard' : ''}
+                  </Text>
+                </Pressable>
+              ))}
+            </View>
+          </Card>
+        ) : null}
+
         <Card style={{ marginTop: spacing.md }}>
           <View style={{ flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' }}>
             <Text variant="h2">Mes chantiers</Text>
@@ -1,8 +1,11 @@
 import * as SQLite from 'expo-sqlite';
+import type { AppRole } from '../../core/identity-security/types';
 import { dashboard } from '../../data/dashboard';
+import { documents, type DocumentPendingReview } from '../../data/documents';
 import { media } from '../../data/media';
 import { projects, type ProjectIndicators } from '../../data/projects';
 import { quotas } from '../../data/quotas-limits';
+import { rules, type RuleNotification } from '../../data/rules-engine';
 import { conflicts } from '../../data/sync/conflicts';
 import { ux } from '../../data/ux-accelerators';
 import { ROUTES } from '../../navigation/routes';
@@ -39,6 +42,10 @@ export type DashboardCockpit = {
   quotaLevel: QuotaLevel;
   alerts: DashboardAlert[];
   projects: ProjectSummary[];
+  /** Reviews waiting for the current user's visa, earliest due date first. */
+  pendingReviews: DocumentPendingReview[];
+  /** Unread NOTIFY_ROLE notifications addressed to the current user's role (pulled from other devices too). */
+  ruleNotifications: RuleNotification[];
   lastProjectId: string | null;
 };
 
@@ -116,6 +123,7 @@ function riskScore(risk: ProjectSummary['risk']) {
 export async function getDashboardCockpit(input: {
   orgId: string;
   userId?: string;
+  role?: AppRole | null;
 }): Promise<DashboardCockpit> {
   const orgId = normalizeText(input.orgId);
   if (!orgId) {
@@ -129,15 +137,20 @@ export async function getDashboardCockpit(input: {
   projects.setContext({ org_id: orgId });
   conflicts.setContext({ org_id: orgId, user_id: userId || undefined });
   ux.setContext({ org_id: orgId, user_id: userId || undefined });
+  rules.setContext({ org_id: orgId, user_id: userId || undefined });
 
-  const [recents, summary, pendingUploads, failedUploads, activeProjects, quotaRow, usageRow] = await Promise.all([
+  const [recents, summary, pendingUploads, failedUploads, activeProjects, quotaRow, usageRow, pendingReviews, ruleNotifications] = await Promise.all([
     ux.listRecents(20).catch(() => []),
     dashboard.getSummary({ orgId }),
     media.countPendingUploads(orgId).catch(() => 0),
     media.countFailedUploads(orgId).catch(() => 0),
     countActiveProjects(orgId).catch(() => 0),
     quotas.get().catch(() => null),
-    quotas.getUsage().catch(() => null)
+    quotas.getUsage().catch(() => null),
+    userId ? documents.listPendingReviews(orgId, userId, input.role, 8).catch(() => []) : Promise.resolve([]),
+    input.role
+      ? rules.listNotifications({ role: input.role.toLowerCase(), unread_only: true, limit: 8 }).catch(() => [])
+      : Promise.resolve([])
   ]);
 
   const lastProjectId =
@@ -268,6 +281,20 @@ export async function getDashboardCockpit(input: {
     });
   }
 
+  const overdueReviews = pendingReviews.filter((item) => item.overdue);
+  if (overdueReviews.length > 0) {
+    const firstProjectId = overdueReviews.find((item) => item.review.project_id)?.review.project_id ?? null;
+    alerts.push({
+      key: 'REVIEWS_OVERDUE',
+      level: 'WARN',
+      title: `${overdueReviews.length} visa(s) en retard`,
+      ctaLabel: 'Voir',
+      ctaRoute: firstProjectId
+        ? { screen: 'ProjectDetail', params: { projectId: firstProjectId, tab: 'Documents' } }
+        : { screen: ROUTES.DASHBOARD }
+    });
+  }
+
   alerts.sort((a, b) => levelScore(b.level) - levelScore(a.level));
 
   return {
@@ -275,6 +302,8 @@ export async function getDashboardCockpit(input: {
     quotaLevel,
     alerts: alerts.slice(0, 3),
     projects: topProjects,
+    pendingReviews,
+    ruleNotifications,
     lastProjectId
   };
 }
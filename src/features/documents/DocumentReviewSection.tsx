@@ -0,0 +1,320 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { TextInput, View } from 'react-native';
+import type { AppRole } from '../../core/identity-security/types';
+import {
+  DocumentReview,
+  DocumentReviewDecisionInput,
+  DocumentReviewDecisionKind,
+  DocumentReviewer,
+  DocumentReviewSubmitInput,
+  DocumentVersion
+} from '../../data/documents';
+import type { OrganizationMember } from '../../data/orgs-admin';
+import { members } from '../../data/orgs-admin';
+import { Button } from '../../ui/components/Button';
+import { Text } from '../../ui/components/Text';
+import { useTheme } from '../../ui/theme/ThemeProvider';
+
+const REVIEWER_ROLES: Array<{ role: AppRole; label: string }> = [
+  { role: 'MANAGER', label: 'Conducteurs (Manager)' },
+  { role: 'ADMIN', label: 'Admins' },
+  { role: 'FIELD', label: 'Terrain' }
+];
+
+const DUE_CHOICES: Array<{ days: number | null; label: string }> = [
+  { days: 3, label: 'J+3' },
+  { days: 7, label: 'J+7' },
+  { days: 14, label: 'J+14' },
+  { days: null, label: 'Sans échéance' }
+];
+
+function dueDateIn(days: number) {
+  const date = new Date();
+  date.setDate(date.getDate() + days);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function formatDue(value: string | undefined) {
+  if (!value) return 'sans échéance';
+  const ts = Date.parse(value.length === 10 ? `${value}T00:00:00` : value);
+  return Number.isFinite(ts) ? `échéance ${new Date(ts).toLocaleDateString('fr-FR')}` : value;
+}
+
+export function reviewStatusLabel(review: DocumentReview) {
+  if (review.status === 'PENDING') return 'En revue';
+  if (review.status === 'CANCELLED') return 'Annulée';
+  if (review.status === 'REJECTED') return 'Refusé';
+  return review.visa_kind === 'AVEC_OBSERVATIONS' ? 'Visa avec observations' : 'Visa sans observations';
+}
+
+function decisionLabel(decision: DocumentReviewDecisionKind) {
+  if (decision === 'APPROVE') return 'Visa sans observations';
+  if (decision === 'APPROVE_WITH_OBSERVATIONS') return 'Visa avec observations';
+  return 'Refus';
+}
+
+function reviewerLabel(reviewer: DocumentReviewer) {
+  if (reviewer.kind === 'ROLE') {
+    return REVIEWER_ROLES.find((item) => item.role === reviewer.role)?.label ?? reviewer.role;
+  }
+  return reviewer.label ?? reviewer.user_id.slice(0, 8);
+}
+
+export function DocumentReviewSection({
+  orgId,
+  userId,
+  role,
+  activeVersion,
+  reviews,
+  busy,
+  onSubmit,
+  onDecide,
+  onCancel
+}: {
+  orgId: string | null;
+  userId: string | null;
+  role: AppRole | null;
+  activeVersion: DocumentVersion | null;
+  reviews: DocumentReview[];
+  busy: boolean;
+  onSubmit: (versionId: string, input: DocumentReviewSubmitInput) => void;
+  onDecide: (reviewId: string, input: DocumentReviewDecisionInput) => void;
+  onCancel: (reviewId: string) => void;
+}) {
+  const { colors, spacing, radii } = useTheme();
+
+  const [orgMembers, setOrgMembers] = useState<OrganizationMember[]>([]);
+  const [roles, setRoles] = useState<AppRole[]>(['MANAGER']);
+  const [userIds, setUserIds] = useState<string[]>([]);
+  const [requiredApprovals, setRequiredApprovals] = useState(1);
+  const [dueInDays, setDueInDays] = useState<number | null>(7);
+  const [message, setMessage] = useState('');
+  const [comment, setComment] = useState('');
+
+  const pending = reviews.find((review) => review.status === 'PENDING') ?? null;
+  const history = reviews.filter((review) => review.id !== pending?.id).slice(0, 5);
+
+  useEffect(() => {
+    if (!orgId) {
+      setOrgMembers([]);
+      return;
+    }
+
+    let cancelled = false;
+    members
+      .list(orgId)
+      .then((rows) => {
+        if (!cancelled) setOrgMembers(rows.filter((row) => row.user_id && row.user_id !== userId && row.status === 'ACTIVE'));
+      })
+      .catch(() => {
+        if (!cancelled) setOrgMembers([]);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [orgId, userId]);
+
+  const reviewers = useMemo<DocumentReviewer[]>(() => {
+    const byRole: DocumentReviewer[] = roles.map((value) => ({ kind: 'ROLE', role: value }));
+    const byUser: DocumentReviewer[] = userIds.map((id) => ({
+      kind: 'USER',
+      user_id: id,
+      label: orgMembers.find((row) => row.user_id === id)?.email ?? undefined
+    }));
+    return [...byRole, ...byUser];
+  }, [orgMembers, roles, userIds]);
+
+  const maxApprovals = roles.length > 0 ? 3 : Math.max(1, userIds.length);
+
+  const canDecide =
+    pending !== null &&
+    userId !== null &&
+    pending.submitted_by !== userId &&
+    !pending.decisions.some((row) => row.reviewer_user_id === userId) &&
+    pending.reviewers.some(
+      (reviewer) => (reviewer.kind === 'USER' && reviewer.user_id === userId) || (reviewer.kind === 'ROLE' && reviewer.role === role)
+    );
+
+  const decide = (decision: DocumentReviewDecisionKind) => {
+    if (!pending) return;
+    onDecide(pending.id, { decision, comment });
+    setComment('');
+  };
+
+  const inputStyle = {
+    borderWidth: 1,
+    borderColor: colors.fog,
+    borderRadius: radii.md,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    backgroundColor: colors.white,
+    marginTop: spacing.sm
+  };
+
+  return (
+    <>
+      <Text variant="h2" style={{ marginTop: spacing.lg }}>
+        Visa
+      </Text>
+
+      {pending ? (
+        <View style={{ borderWidth: 1, borderColor: colors.amber, borderRadius: radii.md, padding: spacing.md, marginTop: spacing.sm }}>
+          <Text variant="bodyStrong">
+            v{pending.version_number} en revue · {pending.decisions.filter((row) => row.decision !== 'REJECT').length}/
+            {pending.required_approvals} visa(s)
+          </Text>
+          <Text variant="caption" style={{ color: colors.slate, marginTop: spacing.xs }}>
+            {pending.reviewers.map(reviewerLabel).join(', ')} · {formatDue(pending.due_date)}
+          </Text>
+          {pending.message ? (
+            <Text variant="caption" style={{ color: colors.slate, marginTop: spacing.xs }}>
+              « {pending.message} »
+            </Text>
+          ) : null}
+          {pending.decisions.map((row) => (
+            <Text key={row.id} variant="caption" style={{ color: colors.slate, marginTop: spacing.xs }}>
+              {decisionLabel(row.decision)} · {row.reviewer_user_id.slice(0, 8)}
+              {row.comment ? ` · ${row.comment}` : ''}
+            </Text>
+          ))}
+
+          {canDecide ? (
+            <>
+              <TextInput
+                value={comment}
+                onChangeText={setComment}
+                placeholder="Observations / motif (requis sauf visa sans observations)"
+                placeholderTextColor={colors.slate}
+                multiline
+                style={inputStyle}
+              />
+              <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: spacing.sm, marginTop: spacing.sm }}>
+                <Button label="Visa sans observations" onPress={() => decide('APPROVE')} disabled={busy} />
+                <Button
+                  label="Visa avec observations"
+                  kind="ghost"
+                  onPress={() => decide('APPROVE_WITH_OBSERVATIONS')}
+                  disabled={busy || comment.trim().length === 0}
+                />
+                <Button label="Refuser" kind="ghost" onPress={() => decide('REJECT')} disabled={busy || comment.trim().length === 0} />
+              </View>
+            </>
+          ) : null}
+
+          <View style={{ flexDirection: 'row', gap: spacing.sm, marginTop: spacing.sm }}>
+            <Button label="Annuler la revue" kind="ghost" onPress={() => onCancel(pending.id)} disabled={busy} />
+          </View>
+        </View>
+      ) : (
+        <View style={{ marginTop: spacing.sm }}>
+          <Text variant="caption" style={{ color: colors.slate }}>
+            Soumettre la version active (v{activeVersion?.version_number ?? '—'}) à des relecteurs.
+          </Text>
+
+          <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: spacing.xs, marginTop: spacing.sm }}>
+            {REVIEWER_ROLES.map((item) => {
+              const selected = roles.includes(item.role);
+              return (
+                <Button
+                  key={item.role}
+                  label={item.label}
+                  kind={selected ? 'primary' : 'ghost'}
+                  onPress={() =>
+                    setRoles((prev) => (selected ? prev.filter((value) => value !== item.role) : [...prev, item.role]))
+                  }
+                  disabled={busy}
+                />
+              );
+            })}
+            {orgMembers.slice(0, 12).map((member) => {
+              const id = member.user_id!;
+              const selected = userIds.includes(id);
+              return (
+                <Button
+                  key={id}
+                  label={member.email ?? id.slice(0, 8)}
+                  kind={selected ? 'primary' : 'ghost'}
+                  onPress={() => setUserIds((prev) => (selected ? prev.filter((value) => value !== id) : [...prev, id]))}
+                  disabled={busy}
+                />
+              );
+            })}
+          </View>
+
+          <Text variant="caption" style={{ color: colors.slate, marginTop: spacing.sm }}>
+            Visas requis
+          </Text>
+          <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: spacing.xs, marginTop: spacing.xs }}>
+            {[1, 2, 3].map((count) => (
+              <Button
+                key={count}
+                label={String(count)}
+                kind={requiredApprovals === count ? 'primary' : 'ghost'}
+                onPress={() => setRequiredApprovals(count)}
+                disabled={busy || count > maxApprovals}
+              />
+            ))}
+          </View>
+
+          <Text variant="caption" style={{ color: colors.slate, marginTop: spacing.sm }}>
+            Échéance
+          </Text>
+          <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: spacing.xs, marginTop: spacing.xs }}>
+            {DUE_CHOICES.map((choice) => (
+              <Button
+                key={choice.label}
+                label={choice.label}
+                kind={dueInDays === choice.days ? 'primary' : 'ghost'}
+                onPress={() => setDueInDays(choice.days)}
+                disabled={busy}
+              />
+            ))}
+          </View>
+
+          <TextInput
+            value={message}
+            onChangeText={setMessage}
+            placeholder="Message aux relecteurs (optionnel)"
+            placeholderTextColor={colors.slate}
+            style={inputStyle}
+          />
+
+          <View style={{ flexDirection: 'row', gap: spacing.sm, marginTop: spacing.sm }}>
+            <Button
+              label="Soumettre au visa"
+              onPress={() => {
+                if (!activeVersion) return;
+                onSubmit(activeVersion.id, {
+                  reviewers,
+                  required_approvals: Math.min(requiredApprovals, maxApprovals),
+                  due_date: dueInDays === null ? undefined : dueDateIn(dueInDays),
+                  message
+                });
+                setMessage('');
+              }}
+              disabled={busy || !activeVersion || reviewers.length === 0}
+            />
+          </View>
+        </View>
+      )}
+
+      {history.length > 0 ? (
+        <View style={{ gap: spacing.xs, marginTop: spacing.sm }}>
+          {history.map((review) => {
+            const closedAt = new Date(review.closed_at ?? review.submitted_at).toLocaleDateString('fr-FR');
+            const firstComment = review.decisions.find((row) => row.comment)?.comment;
+            return (
+              <Text key={review.id} variant="caption" style={{ color: colors.slate }} numberOfLines={2}>
+                v{review.version_number} · {reviewStatusLabel(review)} · {closedAt}
+                {firstComment ? ` · ${firstComment}` : ''}
+              </Text>
+            );
+          })}
+        </View>
+      ) : null}
+    </>
+  );
+}
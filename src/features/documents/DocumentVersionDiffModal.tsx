@@ -0,0 +1,366 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Image, Modal, ScrollView, View } from 'react-native';
+import {
+  DocumentDiffPageStatus,
+  DocumentDiffRegion,
+  DocumentVersion,
+  DocumentVersionDiff,
+  DocumentVersionDiffPage,
+  documents
+} from '../../data/documents';
+import { Button } from '../../ui/components/Button';
+import { Card } from '../../ui/components/Card';
+import { Text } from '../../ui/components/Text';
+import { Screen } from '../../ui/layout/Screen';
+import { useTheme } from '../../ui/theme/ThemeProvider';
+
+type DiffMode = 'SIDE_BY_SIDE' | 'OVERLAY' | 'TEXT';
+
+const MODES: Array<{ key: DiffMode; label: string }> = [
+  { key: 'SIDE_BY_SIDE', label: 'Côte à côte' },
+  { key: 'OVERLAY', label: 'Superposition' },
+  { key: 'TEXT', label: 'Texte' }
+];
+
+function pageStatusLabel(status: DocumentDiffPageStatus) {
+  if (status === 'UNCHANGED') return 'Identique';
+  if (status === 'CHANGED') return 'Modifiée';
+  if (status === 'ADDED') return 'Ajoutée';
+  if (status === 'REMOVED') return 'Supprimée';
+  return 'Non comparable';
+}
+
+function pageStatusTint(
+  status: DocumentDiffPageStatus,
+  colors: { teal: string; amber: string; rose: string; mint: string; slate: string }
+) {
+  if (status === 'UNCHANGED') return colors.mint;
+  if (status === 'CHANGED') return colors.amber;
+  if (status === 'ADDED') return colors.teal;
+  if (status === 'REMOVED') return colors.rose;
+  return colors.slate;
+}
+
+function methodNote(page: DocumentVersionDiffPage) {
+  if (page.method === 'RASTER') {
+    const ratio = ((page.changed_ratio ?? 0) * 100).toFixed(2);
+    return `Comparaison pixel · ${ratio}% de la page · ${page.regions.length} zone(s)`;
+  }
+  if (page.method === 'FINGERPRINT') {
+    return 'Page vectorielle : comparaison du contenu uniquement (pas de rendu sur l’appareil).';
+  }
+  return 'Fichiers non découpables en pages : seule l’identité du fichier est comparée.';
+}
+
+/** Previous version of `right`, or the closest other one. */
+function defaultLeftVersion(versions: DocumentVersion[], right: DocumentVersion | null) {
+  if (!right) return null;
+  const older = versions
+    .filter((version) => version.version_number < right.version_number)
+    .sort((a, b) => b.version_number - a.version_number)[0];
+  return older ?? versions.find((version) => version.id !== right.id) ?? null;
+}
+
+function PageImage({
+  uri,
+  aspect,
+  regions,
+  label
+}: {
+  uri?: string;
+  aspect: number;
+  regions: DocumentDiffRegion[];
+  label: string;
+}) {
+  const { colors, spacing, radii } = useTheme();
+
+  return (
+    <View style={{ flex: 1, minWidth: 0 }}>
+      <Text variant="caption" style={{ color: colors.slate, marginBottom: spacing.xs }}>
+        {label}
+      </Text>
+      <View
+        style={{
+          width: '100%',
+          aspectRatio: aspect,
+          borderWidth: 1,
+          borderColor: colors.fog,
+          borderRadius: radii.md,
+          backgroundColor: colors.white,
+          overflow: 'hidden',
+          alignItems: 'center',
+          justifyContent: 'center'
+        }}
+      >
+        {uri ? (
+          <>
+            <Image source={{ uri }} style={{ width: '100%', height: '100%' }} resizeMode="stretch" />
+            {regions.map((region, index) => (
+              <View
+                key={index}
+                pointerEvents="none"
+                style={{
+                  position: 'absolute',
+                  left: `${region.x * 100}%`,
+                  top: `${region.y * 100}%`,
+                  width: `${region.width * 100}%`,
+                  height: `${region.height * 100}%`,
+                  borderWidth: 2,
+                  borderColor: colors.amber
+                }}
+              />
+            ))}
+          </>
+        ) : (
+          <Text variant="caption" style={{ color: colors.slate, padding: spacing.sm, textAlign: 'center' }}>
+            Aperçu indisponible
+          </Text>
+        )}
+      </View>
+    </View>
+  );
+}
+
+export function DocumentVersionDiffModal({
+  visible,
+  title,
+  versions,
+  initialRightVersionId,
+  onClose
+}: {
+  visible: boolean;
+  title: string;
+  versions: DocumentVersion[];
+  /** Version to compare against its predecessor; defaults to the latest version. */
+  initialRightVersionId: string | null;
+  onClose: () => void;
+}) {
+  const { colors, spacing, radii } = useTheme();
+
+  const sortedVersions = useMemo(
+    () => [...versions].sort((a, b) => b.version_number - a.version_number),
+    [versions]
+  );
+
+  const [leftId, setLeftId] = useState<string | null>(null);
+  const [rightId, setRightId] = useState<string | null>(null);
+  const [mode, setMode] = useState<DiffMode>('SIDE_BY_SIDE');
+  const [pageIndex, setPageIndex] = useState(0);
+  const [diff, setDiff] = useState<DocumentVersionDiff | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!visible) {
+      setDiff(null);
+      setError(null);
+      setPageIndex(0);
+      return;
+    }
+
+    const right = sortedVersions.find((version) => version.id === initialRightVersionId) ?? sortedVersions[0] ?? null;
+    setRightId(right?.id ?? null);
+    setLeftId(defaultLeftVersion(sortedVersions, right)?.id ?? null);
+    setMode('SIDE_BY_SIDE');
+  }, [initialRightVersionId, sortedVersions, visible]);
+
+  useEffect(() => {
+    if (!visible || !leftId || !rightId || leftId === rightId) {
+      setDiff(null);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    setPageIndex(0);
+
+    documents
+      .compareVersions(leftId, rightId)
+      .then((next) => {
+        if (cancelled) return;
+        setDiff(next);
+        const firstChanged = next.pages.findIndex((page) => page.status !== 'UNCHANGED');
+        setPageIndex(firstChanged >= 0 ? firstChanged : 0);
+      })
+      .catch((compareError) => {
+        if (cancelled) return;
+        setDiff(null);
+        setError(compareError instanceof Error ? compareError.message : 'Comparaison impossible.');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [leftId, rightId, visible]);
+
+  const page = diff?.pages[pageIndex] ?? null;
+  const aspect = page?.image_width && page.image_height ? page.image_width / page.image_height : 0.707;
+  const changedCount = diff?.pages.filter((item) => item.status !== 'UNCHANGED').length ?? 0;
+
+  const versionChips = (selectedId: string | null, otherId: string | null, onPick: (id: string) => void) => (
+    <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: spacing.xs, marginTop: spacing.xs }}>
+      {sortedVersions.map((version) => (
+        <Button
+          key={version.id}
+          label={`v${version.version_number}`}
+          kind={selectedId === version.id ? 'primary' : 'ghost'}
+          onPress={() => onPick(version.id)}
+          disabled={loading || version.id === otherId}
+        />
+      ))}
+    </View>
+  );
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      <Screen>
+        <Card style={{ flex: 1, minHeight: 0 }}>
+          <View style={{ flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', gap: spacing.sm }}>
+            <View style={{ flex: 1, minWidth: 0 }}>
+              <Text variant="h2">Comparer les versions</Text>
+              <Text variant="caption" style={{ color: colors.slate, marginTop: spacing.xs }} numberOfLines={1}>
+                {title}
+              </Text>
+            </View>
+            <Button label="Fermer" kind="ghost" onPress={onClose} />
+          </View>
+
+          <ScrollView style={{ flex: 1, minHeight: 0, marginTop: spacing.md }} keyboardShouldPersistTaps="handled">
+            <Text variant="caption" style={{ color: colors.slate }}>
+              Référence (avant)
+            </Text>
+            {versionChips(leftId, rightId, setLeftId)}
+            <Text variant="caption" style={{ color: colors.slate, marginTop: spacing.sm }}>
+              Comparée (après)
+            </Text>
+            {versionChips(rightId, leftId, setRightId)}
+
+            {loading ? (
+              <Text variant="caption" style={{ color: colors.slate, marginTop: spacing.md }}>
+                Comparaison en cours...
+              </Text>
+            ) : null}
+
+            {error ? (
+              <Text variant="caption" style={{ color: colors.rose, marginTop: spacing.md }}>
+                {error}
+              </Text>
+            ) : null}
+
+            {diff && !loading ? (
+              <>
+                <Text variant="bodyStrong" style={{ marginTop: spacing.md }}>
+                  v{diff.left_version_number} → v{diff.right_version_number} · {changedCount} page(s) différente(s) sur{' '}
+                  {diff.pages.length}
+                </Text>
+
+                <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: spacing.xs, marginTop: spacing.sm }}>
+                  {diff.pages.map((item, index) => {
+                    const tint = pageStatusTint(item.status, colors);
+                    return (
+                      <Button
+                        key={item.page_number}
+                        label={`p.${item.page_number} · ${pageStatusLabel(item.status)}`}
+                        kind={index === pageIndex ? 'primary' : 'ghost'}
+                        onPress={() => setPageIndex(index)}
+                        style={index === pageIndex ? undefined : { borderColor: tint }}
+                      />
+                    );
+                  })}
+                </View>
+
+                <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: spacing.xs, marginTop: spacing.sm }}>
+                  {MODES.map((item) => (
+                    <Button
+                      key={item.key}
+                      label={item.label}
+                      kind={mode === item.key ? 'primary' : 'ghost'}
+                      onPress={() => setMode(item.key)}
+                      disabled={item.key === 'TEXT' && !diff.text_available}
+                    />
+                  ))}
+                </View>
+
+                {page ? (
+                  <View style={{ marginTop: spacing.md }}>
+                    <Text variant="caption" style={{ color: colors.slate }}>
+                      {methodNote(page)}
+                    </Text>
+
+                    {mode === 'SIDE_BY_SIDE' ? (
+                      <View style={{ flexDirection: 'row', gap: spacing.sm, marginTop: spacing.sm }}>
+                        <PageImage
+                          uri={page.left_image_path}
+                          aspect={aspect}
+                          regions={page.regions}
+                          label={`v${diff.left_version_number}`}
+                        />
+                        <PageImage
+                          uri={page.right_image_path}
+                          aspect={aspect}
+                          regions={page.regions}
+                          label={`v${diff.right_version_number}`}
+                        />
+                      </View>
+                    ) : null}
+
+                    {mode === 'OVERLAY' ? (
+                      <View style={{ marginTop: spacing.sm }}>
+                        <PageImage
+                          uri={page.overlay_image_path ?? page.right_image_path}
+                          aspect={aspect}
+                          regions={[]}
+                          label={`Rouge : retiré de v${diff.left_version_number} · Bleu-vert : ajouté en v${diff.right_version_number}`}
+                        />
+                      </View>
+                    ) : null}
+
+                    {mode === 'TEXT' ? (
+                      <View
+                        style={{
+                          marginTop: spacing.sm,
+                          borderWidth: 1,
+                          borderColor: colors.fog,
+                          borderRadius: radii.md,
+                          padding: spacing.sm,
+                          gap: 2
+                        }}
+                      >
+                        <Text variant="caption" style={{ color: colors.slate }}>
+                          +{page.text_added} ligne(s) · −{page.text_removed} ligne(s)
+                        </Text>
+                        {page.text_lines.length === 0 ? (
+                          <Text variant="caption" style={{ color: colors.slate }}>
+                            Aucun texte extrait sur cette page.
+                          </Text>
+                        ) : (
+                          page.text_lines.map((line, index) => (
+                            <Text
+                              key={index}
+                              variant="caption"
+                              style={{
+                                color: line.kind === 'REMOVED' ? colors.rose : line.kind === 'ADDED' ? colors.teal : colors.slate,
+                                textDecorationLine: line.kind === 'REMOVED' ? 'line-through' : 'none'
+                              }}
+                            >
+                              {line.kind === 'ADDED' ? '+ ' : line.kind === 'REMOVED' ? '− ' : '  '}
+                              {line.text}
+                            </Text>
+                          ))
+                        )}
+                      </View>
+                    ) : null}
+                  </View>
+                ) : null}
+              </>
+            ) : null}
+          </ScrollView>
+        </Card>
+      </Screen>
+    </Modal>
+  );
+}
@@ -2,6 +2,7 @@ import * as Sharing from 'expo-sharing';
 import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import { FlatList, Image, Modal, Pressable, ScrollView, Share, TextInput, View, useWindowDimensions } from 'react-native';
 import { useAuth } from '../../core/auth';
+import type { AppRole } from '../../core/identity-security/types';
 import { flags } from '../../data/feature-flags';
 import type { ExportJob } from '../../data/exports';
 import { exportsDoe } from '../../data/exports';
@@ -11,7 +12,7 @@ import type { MediaAsset } from '../../data/media';
 import { media } from '../../data/media';
 import type { PlanPin } from '../../data/plans-annotations';
 import { plans } from '../../data/plans-annotations';
-import type { SignatureActor, SignatureRecord } from '../../data/signature-probante';
+import type { SignatureActor, SignatureRecord, SignatureRequest, SignatureRequestCreateInput } from '../../data/signature-probante';
 import { sign } from '../../data/signature-probante';
 import { useSyncStatus } from '../../data/sync/useSyncStatus';
 import type { Task, TaskFilters } from '../../data/tasks';
@@ -19,6 +20,9 @@ import { tasks } from '../../data/tasks';
 import {
   Document,
   DocumentLink,
+  DocumentReview,
+  DocumentReviewDecisionInput,
+  DocumentReviewSubmitInput,
   DocumentScope,
   DocumentStatus,
   DocumentsListFilters,
@@ -34,12 +38,15 @@ import { Text } from '../../ui/components/Text';
 import { Screen } from '../../ui/layout/Screen';
 import { useTheme } from '../../ui/theme/ThemeProvider';
 import { SectionHeader } from '../common/SectionHeader';
+import { DocumentReviewSection } from './DocumentReviewSection';
+import { DocumentVersionDiffModal } from './DocumentVersionDiffModal';
 import { SignatureModal } from './SignatureModal';
+import { SignatureRequestSection } from './SignatureRequestSection';
 
 const DEMO_PROJECT_ID = 'chantier-conformeo-demo';
 const PAGE_SIZE = 30;
 
-type QuickFilter = 'ALL' | 'PLANS' | 'DOE_REPORTS' | 'PV' | 'SECURITY' | 'OTHER' | 'SIGNED' | 'LINKED_TASK';
+type QuickFilter = 'ALL' | 'PLANS' | 'DOE_REPORTS' | 'PV' | 'SECURITY' | 'OTHER' | 'IN_REVIEW' | 'SIGNED' | 'LINKED_TASK';
 
 const QUICK_FILTERS: Array<{ key: QuickFilter; label: string }> = [
   { key: 'ALL', label: 'Tous' },
@@ -48,6 +55,7 @@ const QUICK_FILTERS: Array<{ key: QuickFilter; label: string }> = [
   { key: 'PV', label: 'PV' },
   { key: 'SECURITY', label: 'Sécurité' },
   { key: 'OTHER', label: 'Autres' },
+  { key: 'IN_REVIEW', label: 'En revue' },
   { key: 'SIGNED', label: 'Signés' },
   { key: 'LINKED_TASK', label: 'Liés à une tâche' }
 ];
@@ -78,14 +86,19 @@ function formatShortDate(value: string) {
   return new Date(ts).toLocaleDateString('fr-FR');
 }
 
-function statusTint(status: DocumentStatus, palette: { amber: string; teal: string; mint: string }) {
+function statusTint(status: DocumentStatus, palette: { amber: string; teal: string; mint: string; rose: string; fog: string }) {
   if (status === 'DRAFT') return palette.amber;
-  if (status === 'FINAL') return palette.teal;
+  if (status === 'IN_REVIEW') return palette.fog;
+  if (status === 'REJECTED') return palette.rose;
+  if (status === 'FINAL' || status === 'VISA') return palette.teal;
   return palette.mint;
 }
 
 function statusLabel(status: DocumentStatus) {
   if (status === 'DRAFT') return 'Brouillon';
+  if (status === 'IN_REVIEW') return 'En revue';
+  if (status === 'VISA') return 'Visé';
+  if (status === 'REJECTED') return 'Refusé';
   if (status === 'FINAL') return 'Final';
   return 'Signé';
 }
@@ -597,13 +610,16 @@ function DocumentDetailPanel({
   versions,
   links,
   signatures,
+  signatureRequests,
   shareLinks,
+  reviews,
   activeAsset,
   activeVersionNumber,
   linkCount,
   busy,
   signatureEnabled,
   sharingEnabled,
+  reviewer,
   onClose,
   onRefresh,
   onAddVersionImport,
@@ -618,19 +634,30 @@ function DocumentDetailPanel({
   onUnlink,
   onCreateShareLink,
   onRevokeShareLink,
-  onStartSignature
+  onStartSignature,
+  onCreateSignatureRequest,
+  onSignRequest,
+  onDeclineSignatureRequest,
+  onCancelSignatureRequest,
+  onCompareVersion,
+  onSubmitReview,
+  onDecideReview,
+  onCancelReview
 }: {
   document: Document | null;
   versions: DocumentVersion[];
   links: DocumentLink[];
   signatures: SignatureRecord[];
+  signatureRequests: SignatureRequest[];
   shareLinks: ShareLink[];
+  reviews: DocumentReview[];
   activeAsset: MediaAsset | null;
   activeVersionNumber: number | null;
   linkCount: number;
   busy: boolean;
   signatureEnabled: boolean;
   sharingEnabled: boolean;
+  reviewer: { orgId: string | null; userId: string | null; role: AppRole | null };
   onClose?: () => void;
   onRefresh: () => void;
   onAddVersionImport: () => void;
@@ -646,6 +673,14 @@ function DocumentDetailPanel({
   onCreateShareLink: () => void;
   onRevokeShareLink: (linkId: string) => void;
   onStartSignature: (versionId: string) => void;
+  onCreateSignatureRequest: (versionId: string, input: SignatureRequestCreateInput) => void;
+  onSignRequest: (request: SignatureRequest) => void;
+  onDeclineSignatureRequest: (requestId: string, reason: string) => void;
+  onCancelSignatureRequest: (requestId: string) => void;
+  onCompareVersion: (versionId: string | null) => void;
+  onSubmitReview: (versionId: string, input: DocumentReviewSubmitInput) => void;
+  onDecideReview: (reviewId: string, input: DocumentReviewDecisionInput) => void;
+  onCancelReview: (reviewId: string) => void;
 }) {
   const { colors, spacing, radii } = useTheme();
 
@@ -669,7 +704,8 @@ function DocumentDetailPanel({
 
   const canSign = signatureEnabled && isPdfVersion(activeVersion);
 
-  const statusColor = statusTint(document.status, { amber: colors.amber, teal: colors.teal, mint: colors.mint });
+  const statusColor = statusTint(document.status, colors);
+  const inReview = document.status === 'IN_REVIEW';
 
   return (
     <Card style={{ flex: 1, minHeight: 0 }}>
@@ -745,14 +781,32 @@ function DocumentDetailPanel({
           Statut
         </Text>
         <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: spacing.sm, marginTop: spacing.sm }}>
-          <Button label="Brouillon" kind={document.status === 'DRAFT' ? 'primary' : 'ghost'} onPress={() => onSetStatus('DRAFT')} disabled={busy} />
-          <Button label="Final" kind={document.status === 'FINAL' ? 'primary' : 'ghost'} onPress={() => onSetStatus('FINAL')} disabled={busy} />
+          <Button label="Brouillon" kind={document.status === 'DRAFT' ? 'primary' : 'ghost'} onPress={() => onSetStatus('DRAFT')} disabled={busy || inReview} />
+          <Button label="Final" kind={document.status === 'FINAL' ? 'primary' : 'ghost'} onPress={() => onSetStatus('FINAL')} disabled={busy || inReview} />
           <Button label="Supprimer (non définitif)" kind="ghost" onPress={onSoftDelete} disabled={busy} />
         </View>
+        {inReview ? (
+          <Text variant="caption" style={{ color: colors.slate, marginTop: spacing.xs }}>
+            Revue en cours: annule-la pour changer le statut à la main.
+          </Text>
+        ) : null}
 
-        <Text variant="h2" style={{ marginTop: spacing.lg }}>
-          Versions
-        </Text>
+        <DocumentReviewSection
+          orgId={reviewer.orgId}
+          userId={reviewer.userId}
+          role={reviewer.role}
+          activeVersion={activeVersion}
+          reviews={reviews}
+          busy={busy}
+          onSubmit={onSubmitReview}
+          onDecide={onDecideReview}
+          onCancel={onCancelReview}
+        />
+
+        <View style={{ flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginTop: spacing.lg }}>
+          <Text variant="h2">Versions</Text>
+          {versions.length >= 2 ? <Button label="Comparer" kind="ghost" onPress={() => onCompareVersion(null)} disabled={busy} /> : null}
+        </View>
         <View style={{ gap: spacing.sm, marginTop: spacing.sm }}>
           {versions.length === 0 ? (
             <Text variant="caption" style={{ color: colors.slate }}>
@@ -782,6 +836,9 @@ function DocumentDetailPanel({
                   </Text>
                   <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: spacing.sm, marginTop: spacing.sm }}>
                     <Button label="Activer" kind="ghost" onPress={() => onActivateVersion(version.id)} disabled={busy || isActive} />
+                    {versions.length >= 2 ? (
+                      <Button label="Comparer" kind="ghost" onPress={() => onCompareVersion(version.id)} disabled={busy} />
+                    ) : null}
                     {signatureEnabled && version.file_mime === 'application/pdf' ? (
                       <Button label="Signer" kind="ghost" onPress={() => onStartSignature(version.id)} disabled={busy} />
                     ) : null}
@@ -841,6 +898,15 @@ function DocumentDetailPanel({
             <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: spacing.sm, marginTop: spacing.sm }}>
               <Button label="Signer la version active" onPress={() => activeVersion && onStartSignature(activeVersion.id)} disabled={busy || !canSign} />
             </View>
+            <SignatureRequestSection
+              activeVersion={activeVersion}
+              requests={signatureRequests}
+              busy={busy}
+              onCreate={onCreateSignatureRequest}
+              onSign={onSignRequest}
+              onDecline={onDeclineSignatureRequest}
+              onCancel={onCancelSignatureRequest}
+            />
             <View style={{ gap: spacing.sm, marginTop: spacing.sm }}>
               {signatures.length === 0 ? (
                 <Text variant="caption" style={{ color: colors.slate }}>
@@ -942,7 +1008,7 @@ export function DocumentsScreen({ projectId }: { projectId?: string } = {}) {
   const { width } = useWindowDimensions();
   const split = width >= 980;
 
-  const { activeOrgId, user } = useAuth();
+  const { activeOrgId, user, role } = useAuth();
   const navCtx = useAppNavigationContext();
   const { status: syncStatus } = useSyncStatus();
 
@@ -976,7 +1042,9 @@ export function DocumentsScreen({ projectId }: { projectId?: string } = {}) {
   const [selectedVersions, setSelectedVersions] = useState<DocumentVersion[]>([]);
   const [selectedLinks, setSelectedLinks] = useState<DocumentLink[]>([]);
   const [selectedSignatures, setSelectedSignatures] = useState<SignatureRecord[]>([]);
+  const [selectedSignatureRequests, setSelectedSignatureRequests] = useState<SignatureRequest[]>([]);
   const [selectedShareLinks, setSelectedShareLinks] = useState<ShareLink[]>([]);
+  const [selectedReviews, setSelectedReviews] = useState<DocumentReview[]>([]);
   const [activeAsset, setActiveAsset] = useState<MediaAsset | null>(null);
 
   const [createOpen, setCreateOpen] = useState(false);
@@ -986,6 +1054,10 @@ export function DocumentsScreen({ projectId }: { projectId?: string } = {}) {
 
   const [signatureModalOpen, setSignatureModalOpen] = useState(false);
   const [signatureTargetVersionId, setSignatureTargetVersionId] = useState<string | null>(null);
+  const [signatureRequest, setSignatureRequest] = useState<SignatureRequest | null>(null);
+
+  const [diffModalOpen, setDiffModalOpen] = useState(false);
+  const [diffTargetVersionId, setDiffTargetVersionId] = useState<string | null>(null);
 
   useEffect(() => {
     const handle = setTimeout(() => setDebouncedQuery(normalizeText(query)), 250);
@@ -1018,6 +1090,8 @@ export function DocumentsScreen({ projectId }: { projectId?: string } = {}) {
         base.tags = ['securite'];
       } else if (filter === 'OTHER') {
         base.doc_type = 'OTHER';
+      } else if (filter === 'IN_REVIEW') {
+        base.status = 'IN_REVIEW';
       } else if (filter === 'SIGNED') {
         base.status = 'SIGNED';
       } else if (filter === 'LINKED_TASK') {
@@ -1101,10 +1175,11 @@ export function DocumentsScreen({ projectId }: { projectId?: string } = {}) {
       setError(null);
 
       try {
-        const [doc, versions, links] = await Promise.all([
+        const [doc, versions, links, reviews] = await Promise.all([
           documents.getById(documentId),
           documents.listVersions(documentId),
-          documents.listLinks(documentId)
+          documents.listLinks(documentId),
+          documents.listReviews(documentId)
         ]);
 
         if (!doc) {
@@ -1112,7 +1187,9 @@ export function DocumentsScreen({ projectId }: { projectId?: string } = {}) {
           setSelectedVersions([]);
           setSelectedLinks([]);
           setSelectedSignatures([]);
+          setSelectedSignatureRequests([]);
           setSelectedShareLinks([]);
+          setSelectedReviews([]);
           setActiveAsset(null);
           return;
         }
@@ -1120,12 +1197,15 @@ export function DocumentsScreen({ projectId }: { projectId?: string } = {}) {
         setSelectedDocument(doc);
         setSelectedVersions(versions);
         setSelectedLinks(links);
+        setSelectedReviews(reviews);
 
         if (signatureEnabled) {
-          const rows = await sign.getByDocument(doc.id);
+          const [rows, requests] = await Promise.all([sign.getByDocument(doc.id), sign.listRequests(doc.id)]);
           setSelectedSignatures(rows);
+          setSelectedSignatureRequests(requests);
         } else {
           setSelectedSignatures([]);
+          setSelectedSignatureRequests([]);
         }
 
         if (sharingEnabled) {
@@ -1247,7 +1327,7 @@ export function DocumentsScreen({ projectId }: { projectId?: string } = {}) {
       const isActive = selectedDocument?.id === item.id;
       const linkCount = linkCounts[item.id] ?? 0;
       const v = activeVersionNumbers[item.id];
-      const statusColor = statusTint(item.status, { amber: colors.amber, teal: colors.teal, mint: colors.mint });
+      const statusColor = statusTint(item.status, colors);
 
       return (
         <Pressable onPress={() => openDetail(item.id)}>
@@ -1316,13 +1396,16 @@ export function DocumentsScreen({ projectId }: { projectId?: string } = {}) {
       versions={selectedVersions}
       links={selectedLinks}
       signatures={selectedSignatures}
+      signatureRequests={selectedSignatureRequests}
       shareLinks={selectedShareLinks}
+      reviews={selectedReviews}
       activeAsset={activeAsset}
       activeVersionNumber={selectedActiveVersionNumber}
       linkCount={selectedLinkCount}
       busy={detailBusy || listBusy}
       signatureEnabled={signatureEnabled}
       sharingEnabled={sharingEnabled}
+      reviewer={{ orgId: activeOrgId ?? null, userId: user?.id ?? null, role }}
       onClose={split ? undefined : closeDetail}
       onRefresh={() => selectedDocument && void refreshDetail(selectedDocument.id)}
       onAddVersionImport={() =>
@@ -1358,6 +1441,8 @@ export function DocumentsScreen({ projectId }: { projectId?: string } = {}) {
           setSelectedLinks([]);
           setSelectedShareLinks([]);
           setSelectedSignatures([]);
+          setSelectedSignatureRequests([]);
+          setSelectedReviews([]);
           setActiveAsset(null);
         })
       }
@@ -1405,9 +1490,54 @@ export function DocumentsScreen({ projectId }: { projectId?: string } = {}) {
         })
       }
       onStartSignature={(versionId) => {
+        setSignatureRequest(null);
         setSignatureTargetVersionId(versionId);
         setSignatureModalOpen(true);
       }}
+      onCreateSignatureRequest={(versionId, input) =>
+        selectedDocument &&
+        void withDetailBusy(async () => {
+          sign.setActor(actor);
+          await sign.createRequest(selectedDocument.id, versionId, input);
+        })
+      }
+      onSignRequest={(request) => {
+        setSignatureRequest(request);
+        setSignatureTargetVersionId(request.version_id);
+        setSignatureModalOpen(true);
+      }}
+      onDeclineSignatureRequest={(requestId, reason) =>
+        void withDetailBusy(async () => {
+          sign.setActor(actor);
+          await sign.declineRequest(requestId, reason);
+        })
+      }
+      onCancelSignatureRequest={(requestId) =>
+        void withDetailBusy(async () => {
+          sign.setActor(actor);
+          await sign.cancelRequest(requestId);
+        })
+      }
+      onCompareVersion={(versionId) => {
+        setDiffTargetVersionId(versionId);
+        setDiffModalOpen(true);
+      }}
+      onSubmitReview={(versionId, input) =>
+        selectedDocument &&
+        void withDetailBusy(async () => {
+          await documents.submitForReview(selectedDocument.id, versionId, input);
+        })
+      }
+      onDecideReview={(reviewId, input) =>
+        void withDetailBusy(async () => {
+          await documents.decideReview(reviewId, input, role);
+        })
+      }
+      onCancelReview={(reviewId) =>
+        void withDetailBusy(async () => {
+          await documents.cancelReview(reviewId);
+        })
+      }
     />
   );
 
@@ -1493,9 +1623,11 @@ export function DocumentsScreen({ projectId }: { projectId?: string } = {}) {
           document={selectedDocument}
           version={signatureVersion}
           actor={actor}
+          request={signatureRequest}
           onClose={() => {
             setSignatureModalOpen(false);
             setSignatureTargetVersionId(null);
+            setSignatureRequest(null);
           }}
           onCompleted={async () => {
             if (selectedDocument) {
@@ -1504,6 +1636,17 @@ export function DocumentsScreen({ projectId }: { projectId?: string } = {}) {
             }
           }}
         />
+
+        <DocumentVersionDiffModal
+          visible={diffModalOpen}
+          title={selectedDocument?.title ?? ''}
+          versions={selectedVersions}
+          initialRightVersionId={diffTargetVersionId}
+          onClose={() => {
+            setDiffModalOpen(false);
+            setDiffTargetVersionId(null);
+          }}
+        />
       </Screen>
     );
   }
@@ -1541,9 +1684,11 @@ export function DocumentsScreen({ projectId }: { projectId?: string } = {}) {
         document={selectedDocument}
         version={signatureVersion}
         actor={actor}
+        request={signatureRequest}
         onClose={() => {
           setSignatureModalOpen(false);
           setSignatureTargetVersionId(null);
+          setSignatureRequest(null);
         }}
         onCompleted={async () => {
           if (selectedDocument) {
@@ -1552,6 +1697,17 @@ export function DocumentsScreen({ projectId }: { projectId?: string } = {}) {
           }
         }}
       />
+
+      <DocumentVersionDiffModal
+        visible={diffModalOpen}
+        title={selectedDocument?.title ?? ''}
+        versions={selectedVersions}
+        initialRightVersionId={diffTargetVersionId}
+        onClose={() => {
+          setDiffModalOpen(false);
+          setDiffTargetVersionId(null);
+        }}
+      />
     </Screen>
   );
 }
@@ -7,7 +7,7 @@ import { Card } from '../../ui/components/Card';
 import { Text } from '../../ui/components/Text';
 import { Document, DocumentVersion } from '../../data/documents';
 import { media } from '../../data/media';
-import { SignatureActor, SignatureCanvasData, SignatureRecord, sign } from '../../data/signature-probante';
+import { SignatureActor, SignatureCanvasData, SignatureRecord, SignatureRequest, sign } from '../../data/signature-probante';
 import { useSyncStatus } from '../../data/sync/useSyncStatus';
 
 type StrokePoint = { x: number; y: number };
@@ -21,6 +21,8 @@ type Props = {
   document: Document | null;
   version: DocumentVersion | null;
   actor: SignatureActor | null;
+  /** Campaign mode: the next signer of the request signs, then the following ones on the same device. */
+  request?: SignatureRequest | null;
   onClose: () => void;
   onCompleted?: (record: SignatureRecord) => void;
 };
@@ -76,7 +78,7 @@ function isCanvasEmpty(strokes: Stroke[]) {
   return strokes.every((stroke) => stroke.length < 2);
 }
 
-export function SignatureModal({ visible, document, version, actor, onClose, onCompleted }: Props) {
+export function SignatureModal({ visible, document, version, actor, request, onClose, onCompleted }: Props) {
   const { colors, spacing, radii } = useTheme();
   const { status: syncStatus } = useSyncStatus();
 
@@ -84,6 +86,10 @@ export function SignatureModal({ visible, document, version, actor, onClose, onC
   const [busy, setBusy] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [result, setResult] = useState<SignatureRecord | null>(null);
+  const [liveRequest, setLiveRequest] = useState<SignatureRequest | null>(null);
+  const [round, setRound] = useState(0);
+  // By id: the parent reloads the request after each signature, which must not restart the draft.
+  const requestId = request?.id ?? null;
 
   const strokesRef = useRef<Stroke[]>([]);
   const [strokes, setStrokes] = useState<Stroke[]>([]);
@@ -98,6 +104,8 @@ export function SignatureModal({ visible, document, version, actor, onClose, onC
       setBusy(false);
       setError(null);
       setResult(null);
+      setLiveRequest(null);
+      setRound(0);
       strokesRef.current = [];
       setStrokes([]);
       return;
@@ -114,11 +122,26 @@ export function SignatureModal({ visible, document, version, actor, onClose, onC
     }
 
     sign.setActor(actor);
+
+    if (requestId) {
+      void sign
+        .startRequest(requestId)
+        .then(() => sign.getRequest(requestId))
+        .then((next) => setLiveRequest(next))
+        .catch((startError) => {
+          const message = startError instanceof Error ? startError.message : 'Signature start failed';
+          setError(message);
+        });
+      return;
+    }
+
     void sign.start(document.id, version.id).catch((startError) => {
       const message = startError instanceof Error ? startError.message : 'Signature start failed';
       setError(message);
     });
-  }, [actor, document, version, visible]);
+  }, [actor, document, requestId, round, version, visible]);
+
+  const currentSigner = liveRequest?.signers.find((signer) => signer.status === 'PENDING') ?? null;
 
   const panResponder = useMemo(
     () =>
@@ -215,6 +238,9 @@ export function SignatureModal({ visible, document, version, actor, onClose, onC
     try {
       const record = await sign.finalize();
       setResult(record);
+      if (requestId) {
+        setLiveRequest(await sign.getRequest(requestId));
+      }
       setStep('DONE');
       onCompleted?.(record);
     } catch (finalizeError) {
@@ -251,6 +277,15 @@ export function SignatureModal({ visible, document, version, actor, onClose, onC
     }
   };
 
+  const onNextSigner = () => {
+    strokesRef.current = [];
+    setStrokes([]);
+    setResult(null);
+    setError(null);
+    setStep('SIGN');
+    setRound((value) => value + 1);
+  };
+
   if (!visible) {
     return null;
   }
@@ -281,6 +316,12 @@ export function SignatureModal({ visible, document, version, actor, onClose, onC
           </Text>
         ) : null}
 
+        {liveRequest && currentSigner && step !== 'DONE' ? (
+          <Text variant="bodyStrong" style={{ marginTop: spacing.xs }}>
+            Signataire {currentSigner.order}/{liveRequest.signers.length} : {currentSigner.label} ({currentSigner.role})
+          </Text>
+        ) : null}
+
         {offlineWarning ? (
           <Text variant="caption" style={{ color: colors.amber, marginTop: spacing.xs }}>
             Hors ligne : la signature sera finalisée à la synchronisation.
@@ -340,7 +381,10 @@ export function SignatureModal({ visible, document, version, actor, onClose, onC
           <View style={{ flex: 1, marginTop: spacing.md }}>
             <Text variant="bodyStrong">Previsualisation</Text>
             <Text variant="caption" style={{ color: colors.slate, marginTop: spacing.xs }}>
-              Signataire: {actor?.display_name || actor?.user_id} ({actor?.role || 'FIELD'})
+              Signataire:{' '}
+              {currentSigner
+                ? `${currentSigner.label} (${currentSigner.role})`
+                : `${actor?.display_name || actor?.user_id} (${actor?.role || 'FIELD'})`}
             </Text>
 
             <View
@@ -387,8 +431,19 @@ export function SignatureModal({ visible, document, version, actor, onClose, onC
               </Text>
             ) : null}
 
+            {liveRequest ? (
+              <Text variant="caption" style={{ color: colors.slate, marginTop: spacing.xs }}>
+                {currentSigner
+                  ? `Prochain signataire : ${currentSigner.label} (${currentSigner.role})`
+                  : 'Tous les signataires ont signe : version signee creee.'}
+              </Text>
+            ) : null}
+
             <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: spacing.sm, marginTop: spacing.md }}>
-              <Button label="Partager PDF signe" onPress={() => void shareSignedPdf()} disabled={busy || !result} />
+              {liveRequest?.status === 'OPEN' && currentSigner ? (
+                <Button label="Signataire suivant" onPress={onNextSigner} disabled={busy} />
+              ) : null}
+              <Button label="Partager PDF signe" kind={liveRequest?.status === 'OPEN' ? 'ghost' : 'primary'} onPress={() => void shareSignedPdf()} disabled={busy || !result} />
               <Button label="Fermer" kind="ghost" onPress={onClose} disabled={busy} />
             </View>
           </View>
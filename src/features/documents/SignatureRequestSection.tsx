@@ -0,0 +1,234 @@
+import React, { useState } from 'react';
+import { TextInput, View } from 'react-native';
+import { DocumentVersion } from '../../data/documents';
+import {
+  SignatureRequest,
+  SignatureRequestCreateInput,
+  SignatureRequestSignerInput,
+  SignatureRequestSignerStatus,
+  VerifyResult,
+  sign
+} from '../../data/signature-probante';
+import { Button } from '../../ui/components/Button';
+import { Text } from '../../ui/components/Text';
+import { useTheme } from '../../ui/theme/ThemeProvider';
+
+const ROLE_PRESETS = ["Maître d'ouvrage", 'Architecte', 'Entreprise', 'Bureau de contrôle'];
+
+function signerStatusLabel(status: SignatureRequestSignerStatus) {
+  if (status === 'SIGNED') return 'Signé';
+  if (status === 'DECLINED') return 'Refusé';
+  return 'En attente';
+}
+
+function requestStatusLabel(request: SignatureRequest) {
+  if (request.status === 'OPEN') return 'En cours';
+  if (request.status === 'COMPLETED') return 'Terminée';
+  if (request.status === 'DECLINED') return 'Refusée';
+  return 'Annulée';
+}
+
+export function SignatureRequestSection({
+  activeVersion,
+  requests,
+  busy,
+  onCreate,
+  onSign,
+  onDecline,
+  onCancel
+}: {
+  activeVersion: DocumentVersion | null;
+  requests: SignatureRequest[];
+  busy: boolean;
+  onCreate: (versionId: string, input: SignatureRequestCreateInput) => void;
+  onSign: (request: SignatureRequest) => void;
+  onDecline: (requestId: string, reason: string) => void;
+  onCancel: (requestId: string) => void;
+}) {
+  const { colors, spacing, radii } = useTheme();
+
+  const [signers, setSigners] = useState<SignatureRequestSignerInput[]>([]);
+  const [label, setLabel] = useState('');
+  const [role, setRole] = useState(ROLE_PRESETS[0]);
+  const [declineReason, setDeclineReason] = useState('');
+  const [verification, setVerification] = useState<{ requestId: string; result: VerifyResult } | null>(null);
+
+  const open = requests.find((request) => request.status === 'OPEN') ?? null;
+  const history = requests.filter((request) => request.id !== open?.id).slice(0, 5);
+  const canCreate = activeVersion?.file_mime === 'application/pdf';
+
+  const inputStyle = {
+    borderWidth: 1,
+    borderColor: colors.fog,
+    borderRadius: radii.md,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    backgroundColor: colors.white,
+    marginTop: spacing.sm
+  };
+
+  const addSigner = () => {
+    const cleaned = label.trim();
+    if (!cleaned) return;
+    setSigners((prev) => [...prev, { label: cleaned, role }]);
+    setLabel('');
+  };
+
+  const moveUp = (index: number) => {
+    if (index === 0) return;
+    setSigners((prev) => {
+      const next = prev.slice();
+      [next[index - 1], next[index]] = [next[index], next[index - 1]];
+      return next;
+    });
+  };
+
+  const verify = async (requestId: string) => {
+    try {
+      setVerification({ requestId, result: await sign.verifyRequest(requestId) });
+    } catch (verifyError) {
+      const reason = verifyError instanceof Error ? verifyError.message : 'Verification impossible';
+      setVerification({ requestId, result: { valid: false, reason } });
+    }
+  };
+
+  const renderVerification = (requestId: string) => {
+    if (verification?.requestId !== requestId) return null;
+    const { result } = verification;
+    return (
+      <View style={{ marginTop: spacing.xs }}>
+        <Text variant="caption" style={{ color: result.valid ? colors.teal : colors.rose }}>
+          {result.valid ? 'Chaîne de signatures valide' : `Chaîne invalide : ${result.reason ?? '—'}`}
+        </Text>
+        {(result.chain ?? []).map((check) => (
+          <Text key={check.signature_id} variant="caption" style={{ color: check.valid ? colors.slate : colors.rose }}>
+            {check.signer_order}. {check.signer_label} · {check.valid ? 'OK' : check.reason}
+          </Text>
+        ))}
+      </View>
+    );
+  };
+
+  return (
+    <>
+      <Text variant="bodyStrong" style={{ marginTop: spacing.md }}>
+        Circuit de signatures
+      </Text>
+
+      {open ? (
+        <View style={{ borderWidth: 1, borderColor: colors.amber, borderRadius: radii.md, padding: spacing.md, marginTop: spacing.sm }}>
+          <Text variant="bodyStrong" numberOfLines={1}>
+            {open.title} · {open.signers.filter((signer) => signer.status === 'SIGNED').length}/{open.signers.length} signature(s)
+          </Text>
+          {open.signers.map((signer) => (
+            <Text
+              key={signer.id}
+              variant="caption"
+              style={{ color: signer.status === 'SIGNED' ? colors.teal : colors.slate, marginTop: spacing.xs }}
+            >
+              {signer.order}. {signer.label} ({signer.role}) · {signerStatusLabel(signer.status)}
+            </Text>
+          ))}
+
+          <TextInput
+            value={declineReason}
+            onChangeText={setDeclineReason}
+            placeholder="Motif de refus (si le signataire refuse)"
+            placeholderTextColor={colors.slate}
+            style={inputStyle}
+          />
+          <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: spacing.sm, marginTop: spacing.sm }}>
+            <Button label="Faire signer" onPress={() => onSign(open)} disabled={busy} />
+            <Button
+              label="Refus du signataire"
+              kind="ghost"
+              onPress={() => {
+                onDecline(open.id, declineReason);
+                setDeclineReason('');
+              }}
+              disabled={busy || declineReason.trim().length === 0}
+            />
+            <Button label="Annuler le circuit" kind="ghost" onPress={() => onCancel(open.id)} disabled={busy} />
+            <Button label="Vérifier" kind="ghost" onPress={() => void verify(open.id)} disabled={busy} />
+          </View>
+          {renderVerification(open.id)}
+        </View>
+      ) : (
+        <View style={{ marginTop: spacing.sm }}>
+          <Text variant="caption" style={{ color: colors.slate }}>
+            Signataires successifs de la version active (v{activeVersion?.version_number ?? '—'}), dans l'ordre : chaque signature
+            s'ajoute au même PDF.
+          </Text>
+
+          {signers.map((signer, index) => (
+            <View key={`${signer.label}-${index}`} style={{ flexDirection: 'row', alignItems: 'center', gap: spacing.sm, marginTop: spacing.xs }}>
+              <Text variant="caption" style={{ flex: 1, color: colors.slate }} numberOfLines={1}>
+                {index + 1}. {signer.label} ({signer.role})
+              </Text>
+              <Button label="↑" kind="ghost" onPress={() => moveUp(index)} disabled={busy || index === 0} />
+              <Button
+                label="Retirer"
+                kind="ghost"
+                onPress={() => setSigners((prev) => prev.filter((_, position) => position !== index))}
+                disabled={busy}
+              />
+            </View>
+          ))}
+
+          <TextInput
+            value={label}
+            onChangeText={setLabel}
+            placeholder="Nom du signataire"
+            placeholderTextColor={colors.slate}
+            style={inputStyle}
+            onSubmitEditing={addSigner}
+          />
+          <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: spacing.xs, marginTop: spacing.xs }}>
+            {ROLE_PRESETS.map((preset) => (
+              <Button
+                key={preset}
+                label={preset}
+                kind={role === preset ? 'primary' : 'ghost'}
+                onPress={() => setRole(preset)}
+                disabled={busy}
+              />
+            ))}
+          </View>
+
+          <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: spacing.sm, marginTop: spacing.sm }}>
+            <Button label="Ajouter le signataire" kind="ghost" onPress={addSigner} disabled={busy || label.trim().length === 0} />
+            <Button
+              label="Lancer le circuit"
+              onPress={() => {
+                if (!activeVersion) return;
+                onCreate(activeVersion.id, { signers });
+                setSigners([]);
+              }}
+              disabled={busy || !canCreate || signers.length === 0}
+            />
+          </View>
+        </View>
+      )}
+
+      {history.length > 0 ? (
+        <View style={{ gap: spacing.xs, marginTop: spacing.sm }}>
+          {history.map((request) => {
+            const declined = request.signers.find((signer) => signer.status === 'DECLINED');
+            return (
+              <View key={request.id}>
+                <Text variant="caption" style={{ color: colors.slate }} numberOfLines={2}>
+                  {requestStatusLabel(request)} · {request.signers.map((signer) => signer.label).join(' → ')}
+                  {declined?.decline_reason ? ` · ${declined.label} : ${declined.decline_reason}` : ''}
+                </Text>
+                {request.status === 'COMPLETED' ? (
+                  <Button label="Vérifier la chaîne" kind="ghost" onPress={() => void verify(request.id)} disabled={busy} />
+                ) : null}
+                {renderVerification(request.id)}
+              </View>
+            );
+          })}
+        </View>
+      ) : null}
+    </>
+  );
+}
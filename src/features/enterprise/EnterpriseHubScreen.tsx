@@ -22,7 +22,9 @@ export function EnterpriseHubScreen({ navigation }: Props) {
       { key: 'company', label: 'Espace entreprise', route: 'CompanyHub' as const },
       { key: 'offers', label: 'Offres', route: 'Offers' as const },
       { key: 'governance', label: 'Gouvernance', route: 'Governance' as const },
-      { key: 'backup', label: 'Sauvegarde', route: 'Backup' as const }
+      { key: 'backup', label: 'Sauvegarde', route: 'Backup' as const },
+      { key: 'rules', label: 'Règles', route: 'Rules' as const },
+      { key: 'control', label: 'Checklists inspection', route: 'ChecklistTemplates' as const }
     ],
     []
   );
@@ -31,7 +33,7 @@ export function EnterpriseHubScreen({ navigation }: Props) {
 
   return (
     <Screen>
-      <SectionHeader title="Entreprise" subtitle="Espace entreprise: équipe, paramètres, modules, offres, gouvernance." />
+      <SectionHeader title="Entreprise" subtitle="Espace entreprise: équipe, paramètres, modules, offres, gouvernance, règles, checklists." />
 
       <View style={{ gap: spacing.md }}>
         <Card>
@@ -2,7 +2,7 @@ import * as Sharing from 'expo-sharing';
 import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import { ActivityIndicator, Pressable, ScrollView, Share, TextInput, View } from 'react-native';
 import { useAuth } from '../../core/auth';
-import { ExportJob, ExportType, exportsDoe } from '../../data/exports';
+import { ExportJob, ExportOptions, ExportType, exportsDoe } from '../../data/exports';
 import { share } from '../../data/external-sharing';
 import { useSyncStatus } from '../../data/sync/useSyncStatus';
 import { useAppNavigationContext } from '../../navigation/contextStore';
@@ -20,6 +20,11 @@ const EXPORT_TYPES: Array<{ value: ExportType; label: string; hint: string }> =
   { value: 'DOE_ZIP', label: 'Dossier complet', hint: 'ZIP DOE complet + manifeste' }
 ];
 
+const PLAN_STATUS_FILTERS: Array<{ value: 'ALL' | 'OPEN'; label: string }> = [
+  { value: 'ALL', label: 'Tous les points' },
+  { value: 'OPEN', label: 'Points ouverts' }
+];
+
 function statusLabel(status: ExportJob['status']) {
   if (status === 'PENDING') return 'En attente';
   if (status === 'RUNNING') return 'En cours';
@@ -67,6 +72,17 @@ export function ExportsScreen({ projectId }: { projectId?: string } = {}) {
   const [error, setError] = useState<string | null>(null);
   const [estimatedSize, setEstimatedSize] = useState<number | null>(null);
   const [retentionDays, setRetentionDays] = useState('30');
+  const [includePlans, setIncludePlans] = useState(false);
+  const [planStatus, setPlanStatus] = useState<'ALL' | 'OPEN'>('ALL');
+  const [excludeDuplicates, setExcludeDuplicates] = useState(false);
+
+  const exportOptions = useMemo<ExportOptions>(
+    () => ({
+      ...(includePlans ? { annotated_plans: { filters: { status: planStatus }, legend: true } } : {}),
+      ...(excludeDuplicates ? { exclude_near_duplicates: true } : {})
+    }),
+    [excludeDuplicates, includePlans, planStatus]
+  );
 
   const runningCount = useMemo(() => jobs.filter((job) => job.status === 'RUNNING').length, [jobs]);
 
@@ -103,12 +119,12 @@ export function ExportsScreen({ projectId }: { projectId?: string } = {}) {
     }
 
     try {
-      const size = await exportsDoe.computeEstimatedSize(effectiveProjectId, selectedType);
+      const size = await exportsDoe.computeEstimatedSize(effectiveProjectId, selectedType, exportOptions);
       setEstimatedSize(size);
     } catch {
       setEstimatedSize(null);
     }
-  }, [activeOrgId, effectiveProjectId, selectedType]);
+  }, [activeOrgId, effectiveProjectId, exportOptions, selectedType]);
 
   useEffect(() => {
     void refresh();
@@ -156,12 +172,12 @@ export function ExportsScreen({ projectId }: { projectId?: string } = {}) {
     }
 
     void withBusy(async () => {
-      const estimated = await exportsDoe.computeEstimatedSize(effectiveProjectId, selectedType);
+      const estimated = await exportsDoe.computeEstimatedSize(effectiveProjectId, selectedType, exportOptions);
       if (estimated > exportsDoe.config.maxLocalExportSizeBytes) {
         throw new Error('Export trop lourd: utiliser export serveur (v1).');
       }
 
-      const created = await exportsDoe.createJob(effectiveProjectId, selectedType);
+      const created = await exportsDoe.createJob(effectiveProjectId, selectedType, exportOptions);
       setJobs((current) => [created, ...current]);
 
       void exportsDoe.run(created.id).then(() => {
@@ -169,7 +185,7 @@ export function ExportsScreen({ projectId }: { projectId?: string } = {}) {
         void recomputeEstimate();
       });
     });
-  }, [activeOrgId, effectiveProjectId, recomputeEstimate, refresh, selectedType, user?.id, withBusy]);
+  }, [activeOrgId, effectiveProjectId, exportOptions, recomputeEstimate, refresh, selectedType, user?.id, withBusy]);
 
   const rerunJob = useCallback(
     (job: ExportJob) => {
@@ -283,6 +299,45 @@ export function ExportsScreen({ projectId }: { projectId?: string } = {}) {
             })}
           </View>
 
+          <View style={{ marginTop: spacing.md, gap: spacing.xs }}>
+            <Text variant="bodyStrong">Blocs optionnels</Text>
+            <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: spacing.sm }}>
+              <Button
+                label={includePlans ? 'Plans annotes: OUI' : 'Plans annotes: NON'}
+                kind={includePlans ? 'primary' : 'ghost'}
+                onPress={() => setIncludePlans((value) => !value)}
+                disabled={busy}
+              />
+              {includePlans
+                ? PLAN_STATUS_FILTERS.map((filter) => (
+                    <Button
+                      key={filter.value}
+                      label={filter.label}
+                      kind={planStatus === filter.value ? 'primary' : 'ghost'}
+                      onPress={() => setPlanStatus(filter.value)}
+                      disabled={busy}
+                    />
+                  ))
+                : null}
+              <Button
+                label={excludeDuplicates ? 'Photos similaires: meilleure seule' : 'Photos similaires: toutes'}
+                kind={excludeDuplicates ? 'primary' : 'ghost'}
+                onPress={() => setExcludeDuplicates((value) => !value)}
+                disabled={busy}
+              />
+            </View>
+            {includePlans ? (
+              <Text variant="caption" style={{ color: colors.slate }}>
+                Version active de chaque plan, points numerotes + legende. Rapport: pages en annexe. ZIP: dossier plans/.
+              </Text>
+            ) : null}
+            {excludeDuplicates ? (
+              <Text variant="caption" style={{ color: colors.slate }}>
+                Series de photos quasi identiques: seule la meilleure prise (choisie ou la plus nette) est exportee.
+              </Text>
+            ) : null}
+          </View>
+
           <View style={{ marginTop: spacing.md, flexDirection: 'row', flexWrap: 'wrap', gap: spacing.sm }}>
             <Button label="Lancer" onPress={launchExport} disabled={busy || !activeOrgId} />
             <Button label="Rafraichir" kind="ghost" onPress={() => void refresh()} disabled={busy || refreshing} />
@@ -349,6 +404,16 @@ export function ExportsScreen({ projectId }: { projectId?: string } = {}) {
                   <Text variant="caption" style={{ color: colors.slate }}>
                     {exportsDoe.getDisplayFileName(item)}
                   </Text>
+                  {item.options.annotated_plans ? (
+                    <Text variant="caption" style={{ color: colors.tealDark }}>
+                      + plans annotes
+                    </Text>
+                  ) : null}
+                  {item.options.exclude_near_duplicates ? (
+                    <Text variant="caption" style={{ color: colors.tealDark }}>
+                      sans photos en double
+                    </Text>
+                  ) : null}
                 </View>
 
                 <View
@@ -0,0 +1,456 @@
+import * as Sharing from 'expo-sharing';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { GestureResponderEvent, Image, Modal, Pressable, ScrollView, TextInput, View } from 'react-native';
+import { MediaAnnotationInput, MediaAnnotationKind, MediaAnnotationLayer, MediaAsset, MediaPoint, media } from '../../data/media';
+import { Button } from '../../ui/components/Button';
+import { Text } from '../../ui/components/Text';
+import { Screen } from '../../ui/layout/Screen';
+import { useTheme } from '../../ui/theme/ThemeProvider';
+
+const TOOLS: Array<{ key: MediaAnnotationKind; label: string; hint: string }> = [
+  { key: 'ARROW', label: 'Fleche', hint: 'Tapez la queue puis la pointe.' },
+  { key: 'CIRCLE', label: 'Cercle', hint: 'Tapez deux coins opposes.' },
+  { key: 'TEXT', label: 'Texte', hint: 'Saisissez le texte puis tapez son emplacement.' },
+  { key: 'BLUR', label: 'Flou', hint: 'Tapez deux coins opposes de la zone a masquer.' }
+];
+
+const COLORS = ['#E11D48', '#F59E0B', '#0E7C86', '#FFFFFF'];
+
+const ARROW_HEAD_PX = 14;
+const STROKE_PX = 3;
+
+type Segment = { key: string; x: number; y: number; length: number; angleDeg: number };
+
+function segment(key: string, from: MediaPoint, to: MediaPoint): Segment {
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+
+  return {
+    key,
+    x: (from.x + to.x) / 2,
+    y: (from.y + to.y) / 2,
+    length: Math.hypot(dx, dy),
+    angleDeg: (Math.atan2(dy, dx) * 180) / Math.PI
+  };
+}
+
+function arrowSegments(key: string, from: MediaPoint, to: MediaPoint) {
+  const angle = Math.atan2(to.y - from.y, to.x - from.x);
+  const heads = [Math.PI * 0.82, -Math.PI * 0.82].map((delta, index) =>
+    segment(`${key}-head${index}`, to, {
+      x: to.x + Math.cos(angle + delta) * ARROW_HEAD_PX,
+      y: to.y + Math.sin(angle + delta) * ARROW_HEAD_PX
+    })
+  );
+
+  return [segment(`${key}-body`, from, to), ...heads];
+}
+
+function box(points: MediaPoint[]) {
+  const [a, b] = points;
+  return {
+    left: Math.min(a.x, b.x),
+    top: Math.min(a.y, b.y),
+    width: Math.abs(b.x - a.x),
+    height: Math.abs(b.y - a.y)
+  };
+}
+
+/**
+ * Vector preview of the markup over the photo. The burned-in rendition (blur included) is produced by
+ * `media.renderAnnotated`; here the blur is only suggested by a translucent box.
+ */
+function AnnotationOverlay({
+  width,
+  height,
+  annotations,
+  pending
+}: {
+  width: number;
+  height: number;
+  annotations: MediaAnnotationInput[];
+  pending: MediaPoint | null;
+}) {
+  const { colors, radii } = useTheme();
+
+  const toPixels = (points: MediaPoint[]) => points.map((point) => ({ x: point.x * width, y: point.y * height }));
+
+  return (
+    <View pointerEvents="none" style={{ position: 'absolute', left: 0, top: 0, width, height }}>
+      {annotations.map((annotation, index) => {
+        const key = annotation.id ?? `annotation-${index}`;
+        const color = annotation.color ?? COLORS[0];
+        const pixels = toPixels(annotation.points);
+
+        if (annotation.kind === 'ARROW' && pixels.length >= 2) {
+          return arrowSegments(key, pixels[0], pixels[1]).map((seg) => (
+            <View
+              key={seg.key}
+              style={{
+                position: 'absolute',
+                left: seg.x - seg.length / 2,
+                top: seg.y - STROKE_PX / 2,
+                width: seg.length,
+                height: STROKE_PX,
+                borderRadius: 2,
+                backgroundColor: color,
+                transform: [{ rotate: `${seg.angleDeg}deg` }]
+              }}
+            />
+          ));
+        }
+
+        if ((annotation.kind === 'CIRCLE' || annotation.kind === 'BLUR') && pixels.length >= 2) {
+          const area = box(pixels);
+          return (
+            <View
+              key={key}
+              style={{
+                position: 'absolute',
+                ...area,
+                borderRadius: annotation.kind === 'CIRCLE' ? 999 : radii.sm,
+                borderWidth: annotation.kind === 'CIRCLE' ? STROKE_PX : 1,
+                borderColor: annotation.kind === 'CIRCLE' ? color : colors.white,
+                backgroundColor: annotation.kind === 'BLUR' ? 'rgba(31,41,51,0.65)' : undefined
+              }}
+            />
+          );
+        }
+
+        if (annotation.kind === 'TEXT' && pixels.length >= 1) {
+          return (
+            <View
+              key={key}
+              style={{
+                position: 'absolute',
+                left: pixels[0].x,
+                top: pixels[0].y,
+                paddingHorizontal: 4,
+                borderLeftWidth: 3,
+                borderLeftColor: color,
+                backgroundColor: colors.white
+              }}
+            >
+              <Text variant="caption" style={{ color: colors.ink }}>
+                {annotation.text}
+              </Text>
+            </View>
+          );
+        }
+
+        return null;
+      })}
+
+      {pending ? (
+        <View
+          style={{
+            position: 'absolute',
+            left: pending.x * width - 5,
+            top: pending.y * height - 5,
+            width: 10,
+            height: 10,
+            borderRadius: 999,
+            backgroundColor: colors.ink,
+            borderWidth: 2,
+            borderColor: colors.white
+          }}
+        />
+      ) : null}
+    </View>
+  );
+}
+
+export function MediaAnnotationEditor({
+  visible,
+  asset,
+  onClose,
+  onSaved
+}: {
+  visible: boolean;
+  asset: MediaAsset | null;
+  onClose: () => void;
+  onSaved?: (layer: MediaAnnotationLayer | null) => void;
+}) {
+  const { colors, spacing, radii } = useTheme();
+
+  const [annotations, setAnnotations] = useState<MediaAnnotationInput[]>([]);
+  const [layer, setLayer] = useState<MediaAnnotationLayer | null>(null);
+  const [tool, setTool] = useState<MediaAnnotationKind>('ARROW');
+  const [color, setColor] = useState(COLORS[0]);
+  const [textDraft, setTextDraft] = useState('');
+  const [pending, setPending] = useState<MediaPoint | null>(null);
+  const [dirty, setDirty] = useState(false);
+  const [canvasWidth, setCanvasWidth] = useState(0);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const assetId = asset?.id ?? null;
+
+  useEffect(() => {
+    if (!visible || !assetId) return;
+
+    setPending(null);
+    setDirty(false);
+    setError(null);
+
+    let cancelled = false;
+    void media
+      .getAnnotations(assetId)
+      .then((current) => {
+        if (cancelled) return;
+        setLayer(current);
+        setAnnotations(current?.annotations ?? []);
+      })
+      .catch((loadError) => {
+        if (cancelled) return;
+        setError(loadError instanceof Error ? loadError.message : 'Chargement des annotations impossible.');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [assetId, visible]);
+
+  const canvas = useMemo(() => {
+    const ratio = asset?.width && asset?.height ? asset.height / asset.width : 0.75;
+    return { width: canvasWidth, height: Math.round(canvasWidth * ratio) };
+  }, [asset?.height, asset?.width, canvasWidth]);
+
+  const activeTool = TOOLS.find((item) => item.key === tool) ?? TOOLS[0];
+
+  const pushAnnotation = useCallback((annotation: MediaAnnotationInput) => {
+    setAnnotations((current) => [...current, annotation]);
+    setDirty(true);
+  }, []);
+
+  const onTap = useCallback(
+    (event: GestureResponderEvent) => {
+      if (busy || canvas.width <= 0 || canvas.height <= 0) return;
+
+      const point = {
+        x: Math.max(0, Math.min(1, event.nativeEvent.locationX / canvas.width)),
+        y: Math.max(0, Math.min(1, event.nativeEvent.locationY / canvas.height))
+      };
+
+      if (tool === 'TEXT') {
+        const text = textDraft.trim();
+        if (!text) {
+          setError('Saisissez un texte avant de le placer.');
+          return;
+        }
+
+        setError(null);
+        pushAnnotation({ kind: 'TEXT', points: [point], text, color });
+        setTextDraft('');
+        return;
+      }
+
+      if (!pending) {
+        setPending(point);
+        return;
+      }
+
+      setPending(null);
+      pushAnnotation({ kind: tool, points: [pending, point], color: tool === 'BLUR' ? undefined : color });
+    },
+    [busy, canvas.height, canvas.width, color, pending, pushAnnotation, textDraft, tool]
+  );
+
+  const undo = useCallback(() => {
+    if (pending) {
+      setPending(null);
+      return;
+    }
+
+    setAnnotations((current) => current.slice(0, -1));
+    setDirty(true);
+  }, [pending]);
+
+  const withBusy = useCallback(async (task: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await task();
+    } catch (taskError) {
+      setError(taskError instanceof Error ? taskError.message : 'Erreur annotations.');
+    } finally {
+      setBusy(false);
+    }
+  }, []);
+
+  const persist = useCallback(async () => {
+    if (!asset) return null;
+
+    if (annotations.length === 0) {
+      await media.clearAnnotations(asset.id);
+      setLayer(null);
+      setDirty(false);
+      onSaved?.(null);
+      return null;
+    }
+
+    const saved = await media.saveAnnotations(asset.id, annotations);
+    setLayer(saved);
+    setAnnotations(saved.annotations);
+    setDirty(false);
+    onSaved?.(saved);
+    return saved;
+  }, [annotations, asset, onSaved]);
+
+  const save = useCallback(() => {
+    void withBusy(async () => {
+      await persist();
+    });
+  }, [persist, withBusy]);
+
+  const shareRendered = useCallback(() => {
+    if (!asset) return;
+
+    void withBusy(async () => {
+      const saved = dirty || !layer ? await persist() : layer;
+      if (!saved) {
+        throw new Error('Aucune annotation a rendre.');
+      }
+
+      const rendered = await media.renderAnnotated(asset.id);
+      setLayer(rendered);
+
+      if (!rendered.rendered_path) {
+        throw new Error('Rendu indisponible.');
+      }
+
+      const available = await Sharing.isAvailableAsync();
+      if (!available) {
+        throw new Error('Partage indisponible sur cet appareil.');
+      }
+
+      await Sharing.shareAsync(rendered.rendered_path, { mimeType: asset.mime });
+    });
+  }, [asset, dirty, layer, persist, withBusy]);
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      <Screen>
+        <ScrollView style={{ flex: 1 }} keyboardShouldPersistTaps="handled">
+          <View style={{ flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', gap: spacing.sm }}>
+            <View style={{ flex: 1, minWidth: 0 }}>
+              <Text variant="h2">Annoter la photo</Text>
+              <Text variant="caption" style={{ color: colors.slate, marginTop: spacing.xs }}>
+                L'original reste intact: les annotations sont rendues sur une copie pour les exports.
+              </Text>
+            </View>
+            <Button label="Fermer" kind="ghost" onPress={onClose} disabled={busy} />
+          </View>
+
+          <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: spacing.xs, marginTop: spacing.md }}>
+            {TOOLS.map((item) => (
+              <Button
+                key={item.key}
+                label={item.label}
+                kind={tool === item.key ? 'primary' : 'ghost'}
+                onPress={() => {
+                  setTool(item.key);
+                  setPending(null);
+                }}
+                disabled={busy}
+              />
+            ))}
+          </View>
+
+          {tool !== 'BLUR' ? (
+            <View style={{ flexDirection: 'row', gap: spacing.sm, marginTop: spacing.sm }}>
+              {COLORS.map((item) => (
+                <Pressable
+                  key={item}
+                  onPress={() => setColor(item)}
+                  style={{
+                    width: 28,
+                    height: 28,
+                    borderRadius: 999,
+                    backgroundColor: item,
+                    borderWidth: color === item ? 3 : 1,
+                    borderColor: color === item ? colors.ink : colors.fog
+                  }}
+                />
+              ))}
+            </View>
+          ) : null}
+
+          {tool === 'TEXT' ? (
+            <TextInput
+              value={textDraft}
+              onChangeText={setTextDraft}
+              placeholder="Texte de l'annotation"
+              placeholderTextColor={colors.slate}
+              maxLength={140}
+              style={{
+                marginTop: spacing.sm,
+                borderWidth: 1,
+                borderColor: colors.fog,
+                borderRadius: radii.md,
+                paddingHorizontal: spacing.md,
+                paddingVertical: spacing.sm,
+                color: colors.ink
+              }}
+            />
+          ) : null}
+
+          <Text variant="caption" style={{ color: colors.tealDark, marginTop: spacing.sm }}>
+            {pending ? 'Tapez le second point.' : activeTool.hint}
+          </Text>
+
+          <View
+            onLayout={(event) => {
+              const width = event.nativeEvent.layout.width;
+              if (width !== canvasWidth) setCanvasWidth(width);
+            }}
+            style={{ marginTop: spacing.sm, borderRadius: radii.md, overflow: 'hidden', borderWidth: 1, borderColor: colors.fog }}
+          >
+            {asset && canvas.width > 0 ? (
+              <Pressable onPress={onTap} style={{ width: canvas.width, height: canvas.height }}>
+                <Image
+                  source={{ uri: asset.local_path }}
+                  style={{ width: canvas.width, height: canvas.height, backgroundColor: colors.fog }}
+                  resizeMode="stretch"
+                />
+                <AnnotationOverlay width={canvas.width} height={canvas.height} annotations={annotations} pending={pending} />
+              </Pressable>
+            ) : null}
+          </View>
+
+          <Text variant="caption" style={{ color: colors.slate, marginTop: spacing.sm }}>
+            {annotations.length} annotation(s){layer ? ` · revision ${layer.revision}` : ''}
+            {dirty ? ' · non enregistre' : ''}
+          </Text>
+
+          {error ? (
+            <Text variant="caption" style={{ color: colors.rose, marginTop: spacing.sm }}>
+              {error}
+            </Text>
+          ) : null}
+
+          <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: spacing.sm, marginTop: spacing.md, marginBottom: spacing.lg }}>
+            <Button label="Annuler dernier" kind="ghost" onPress={undo} disabled={busy || (!pending && annotations.length === 0)} />
+            <Button
+              label="Tout effacer"
+              kind="ghost"
+              onPress={() => {
+                setAnnotations([]);
+                setPending(null);
+                setDirty(true);
+              }}
+              disabled={busy || annotations.length === 0}
+            />
+            <Button label={busy ? 'Enregistrement...' : 'Enregistrer'} onPress={save} disabled={busy || !dirty} />
+            <Button
+              label="Partager le rendu"
+              kind="ghost"
+              onPress={shareRendered}
+              disabled={busy || annotations.length === 0}
+            />
+          </View>
+        </ScrollView>
+      </Screen>
+    </Modal>
+  );
+}
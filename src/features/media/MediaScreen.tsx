@@ -3,7 +3,14 @@ import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import { FlatList, Image, Modal, Pressable, ScrollView, TextInput, View, useWindowDimensions } from 'react-native';
 import { useAuth } from '../../core/auth';
 import { flags } from '../../data/feature-flags';
-import { MediaAsset, media } from '../../data/media';
+import {
+  MediaAsset,
+  MediaSimilarGroup,
+  MediaUploadProgress,
+  formatMediaDuration,
+  media,
+  mediaKindOf
+} from '../../data/media';
 import { plans } from '../../data/plans-annotations';
 import type { PlanPin } from '../../data/plans-annotations';
 import type { Task, TaskFilters } from '../../data/tasks';
@@ -16,6 +23,9 @@ import { Text } from '../../ui/components/Text';
 import { Screen } from '../../ui/layout/Screen';
 import { useTheme } from '../../ui/theme/ThemeProvider';
 import { SectionHeader } from '../common/SectionHeader';
+import { MediaAnnotationEditor } from './MediaAnnotationEditor';
+import { formatMegabytes, uploadBlockLabel, uploadProgressOf, useUploadProgress } from './useUploadProgress';
+import { useVoiceMemo } from './useVoiceMemo';
 
 const DEMO_PROJECT_ID = 'chantier-conformeo-demo';
 
@@ -26,7 +36,8 @@ type QuickFilter =
   | 'TASK_LINKED'
   | 'UNLINKED'
   | 'UPLOAD_PENDING'
-  | 'UPLOAD_FAILED';
+  | 'UPLOAD_FAILED'
+  | 'SIMILAR';
 
 const QUICK_FILTERS: Array<{ key: QuickFilter; label: string }> = [
   { key: 'ALL', label: 'Toutes' },
@@ -35,7 +46,8 @@ const QUICK_FILTERS: Array<{ key: QuickFilter; label: string }> = [
   { key: 'TASK_LINKED', label: 'Liées à une tâche' },
   { key: 'UNLINKED', label: 'Non liées' },
   { key: 'UPLOAD_PENDING', label: 'Téléversement en attente' },
-  { key: 'UPLOAD_FAILED', label: 'Téléversement en échec' }
+  { key: 'UPLOAD_FAILED', label: 'Téléversement en échec' },
+  { key: 'SIMILAR', label: 'Photos similaires' }
 ];
 
 type DetailState = {
@@ -53,6 +65,15 @@ function isImage(asset: MediaAsset) {
   return asset.mime === 'image/webp' || asset.mime === 'image/jpeg';
 }
 
+function isClip(asset: MediaAsset) {
+  const kind = mediaKindOf(asset.mime);
+  return kind === 'VIDEO' || kind === 'AUDIO';
+}
+
+function clipLabel(asset: MediaAsset) {
+  return mediaKindOf(asset.mime) === 'VIDEO' ? 'Video' : 'Note audio';
+}
+
 function normalizeText(value: string) {
   return value.trim().replace(/\s+/g, ' ');
 }
@@ -333,7 +354,15 @@ function MediaDetailPanel({
   onLinkPin,
   onUnlinkPin,
   onRetryUpload,
-  onOpenFile
+  onOpenFile,
+  annotated,
+  onAnnotate,
+  uploadProgress,
+  similarGroup,
+  similarAssets,
+  onSelectAsset,
+  onChooseBestShot,
+  onClearBestShot
 }: {
   asset: MediaAsset | null;
   linkedTask: Task | null;
@@ -347,6 +376,14 @@ function MediaDetailPanel({
   onUnlinkPin: () => void;
   onRetryUpload: () => void;
   onOpenFile: () => void;
+  annotated: boolean;
+  onAnnotate: () => void;
+  uploadProgress?: MediaUploadProgress;
+  similarGroup: MediaSimilarGroup | null;
+  similarAssets: MediaAsset[];
+  onSelectAsset: (id: string) => void;
+  onChooseBestShot: () => void;
+  onClearBestShot: () => void;
 }) {
   const { colors, spacing, radii } = useTheme();
 
@@ -369,6 +406,7 @@ function MediaDetailPanel({
     amber: colors.amber,
     rose: colors.rose
   });
+  const progress = uploadProgressOf(asset, uploadProgress);
 
   return (
     <Card style={{ flex: 1, minHeight: 0 }}>
@@ -394,21 +432,74 @@ function MediaDetailPanel({
         {isImage(asset) ? (
           <View style={{ marginTop: spacing.md, borderRadius: radii.md, overflow: 'hidden', borderWidth: 1, borderColor: colors.fog }}>
             <Image source={{ uri: asset.local_path }} style={{ width: '100%', height: 260, backgroundColor: colors.fog }} resizeMode="contain" />
+            <View style={{ flexDirection: 'row', alignItems: 'center', gap: spacing.sm, padding: spacing.sm }}>
+              <Button label={annotated ? 'Modifier les annotations' : 'Annoter'} kind="ghost" onPress={onAnnotate} disabled={busy} />
+              {annotated ? (
+                <Text variant="caption" style={{ color: colors.slate }}>
+                  Annotee (original intact)
+                </Text>
+              ) : null}
+            </View>
           </View>
         ) : (
           <View style={{ marginTop: spacing.md, borderRadius: radii.md, overflow: 'hidden', borderWidth: 1, borderColor: colors.fog }}>
+            {isClip(asset) && asset.local_thumb_path ? (
+              <Image source={{ uri: asset.local_thumb_path }} style={{ width: '100%', height: 180, backgroundColor: colors.fog }} resizeMode="contain" />
+            ) : null}
             <View style={{ padding: spacing.lg, backgroundColor: colors.fog }}>
-              <Text variant="bodyStrong">Document</Text>
+              <Text variant="bodyStrong">{isClip(asset) ? clipLabel(asset) : 'Document'}</Text>
               <Text variant="caption" style={{ color: colors.slate, marginTop: spacing.xs }}>
-                {isPdf(asset) ? 'PDF' : asset.mime}
+                {isClip(asset) ? `${formatMediaDuration(asset.duration_ms)} · ${asset.mime}` : isPdf(asset) ? 'PDF' : asset.mime}
               </Text>
               <View style={{ marginTop: spacing.md }}>
-                <Button label="Ouvrir" kind="ghost" onPress={onOpenFile} disabled={busy} />
+                <Button label={isClip(asset) ? 'Lire' : 'Ouvrir'} kind="ghost" onPress={onOpenFile} disabled={busy} />
               </View>
             </View>
           </View>
         )}
 
+        {similarGroup ? (
+          <View style={{ marginTop: spacing.md, borderWidth: 1, borderColor: colors.fog, borderRadius: radii.md, padding: spacing.md }}>
+            <Text variant="bodyStrong">Photos similaires ({similarAssets.length})</Text>
+            <Text variant="caption" style={{ color: colors.slate, marginTop: spacing.xs }}>
+              {similarGroup.best_asset_id === asset.id
+                ? similarGroup.best_chosen
+                  ? 'Meilleure prise (choisie).'
+                  : 'Meilleure prise suggeree (la plus nette).'
+                : 'Doublon probable: exclu des exports sans photos en double.'}
+            </Text>
+            <ScrollView horizontal style={{ marginTop: spacing.sm }} contentContainerStyle={{ gap: spacing.sm }}>
+              {similarAssets.map((item) => (
+                <Pressable
+                  key={item.id}
+                  onPress={() => onSelectAsset(item.id)}
+                  style={{
+                    width: 72,
+                    height: 72,
+                    borderRadius: radii.sm,
+                    overflow: 'hidden',
+                    borderWidth: 2,
+                    borderColor:
+                      item.id === similarGroup.best_asset_id ? colors.teal : item.id === asset.id ? colors.slate : colors.fog
+                  }}
+                >
+                  <Image source={{ uri: item.local_thumb_path }} style={{ width: '100%', height: '100%' }} resizeMode="cover" />
+                </Pressable>
+              ))}
+            </ScrollView>
+            <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: spacing.sm, marginTop: spacing.sm }}>
+              <Button
+                label="Choisir comme meilleure prise"
+                onPress={onChooseBestShot}
+                disabled={busy || (similarGroup.best_chosen && similarGroup.best_asset_id === asset.id)}
+              />
+              {similarGroup.best_chosen ? (
+                <Button label="Annuler le choix" kind="ghost" onPress={onClearBestShot} disabled={busy} />
+              ) : null}
+            </View>
+          </View>
+        ) : null}
+
         {asset.last_error ? (
           <View style={{ marginTop: spacing.md, padding: spacing.md, borderRadius: radii.md, backgroundColor: colors.sand }}>
             <Text variant="bodyStrong" style={{ color: colors.rose }}>
@@ -454,6 +545,17 @@ function MediaDetailPanel({
         <Text variant="h2" style={{ marginTop: spacing.lg }}>
           Téléversement
         </Text>
+        {progress ? (
+          <View style={{ marginTop: spacing.sm }}>
+            <View style={{ height: 6, borderRadius: 999, backgroundColor: colors.fog, overflow: 'hidden' }}>
+              <View style={{ width: `${Math.round(progress.ratio * 100)}%`, height: '100%', backgroundColor: colors.teal }} />
+            </View>
+            <Text variant="caption" style={{ color: colors.slate, marginTop: spacing.xs }}>
+              {formatMegabytes(progress.sent_bytes)} / {formatMegabytes(progress.total_bytes)} ({Math.round(progress.ratio * 100)}%)
+              {progress.blocked_reason ? ` · ${uploadBlockLabel(progress.blocked_reason)}` : ''}
+            </Text>
+          </View>
+        ) : null}
         <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: spacing.sm, marginTop: spacing.sm }}>
           <Button label="Retenter le téléversement" onPress={onRetryUpload} disabled={busy} />
           <Button label="Ouvrir fichier" kind="ghost" onPress={onOpenFile} disabled={busy} />
@@ -498,6 +600,10 @@ export function MediaScreen({
   const [detail, setDetail] = useState<DetailState>({ open: false, assetId: null });
   const [taskPickerOpen, setTaskPickerOpen] = useState(false);
   const [pinPickerOpen, setPinPickerOpen] = useState(false);
+  const [annotatorOpen, setAnnotatorOpen] = useState(false);
+  const voiceMemo = useVoiceMemo();
+  const [annotatedIds, setAnnotatedIds] = useState<Set<string>>(new Set());
+  const [similarGroups, setSimilarGroups] = useState<MediaSimilarGroup[]>([]);
 
   useEffect(() => {
     if (!initialUploadStatus) {
@@ -536,6 +642,8 @@ export function MediaScreen({
     try {
       const next = await media.listByProject(effectiveProjectId);
       setAssets(next);
+      setAnnotatedIds(new Set(await media.listAnnotatedIds(next.map((asset) => asset.id))));
+      setSimilarGroups(await media.listSimilarGroups(effectiveProjectId));
     } catch (err) {
       const message = err instanceof Error ? err.message : 'Chargement des preuves impossible.';
       setError(message);
@@ -546,6 +654,12 @@ export function MediaScreen({
     void refresh();
   }, [refresh]);
 
+  const onUploadFinished = useCallback(() => {
+    void refresh();
+  }, [refresh]);
+
+  const uploadProgress = useUploadProgress(onUploadFinished);
+
   // Lightweight polling to pick up thumbnails / processing updates shortly after capture/import.
   useEffect(() => {
     if (!activeOrgId) {
@@ -614,6 +728,25 @@ export function MediaScreen({
     void run();
   }, [detail.assetId]);
 
+  const similarGroupByAsset = useMemo(() => {
+    const map = new Map<string, MediaSimilarGroup>();
+    for (const group of similarGroups) {
+      for (const id of group.asset_ids) {
+        map.set(id, group);
+      }
+    }
+    return map;
+  }, [similarGroups]);
+
+  const selectedSimilarGroup = selectedAsset ? similarGroupByAsset.get(selectedAsset.id) ?? null : null;
+  const selectedSimilarAssets = useMemo(
+    () =>
+      selectedSimilarGroup
+        ? assets.filter((asset) => selectedSimilarGroup.asset_ids.includes(asset.id))
+        : [],
+    [assets, selectedSimilarGroup]
+  );
+
   const stats = useMemo(() => {
     const total = assets.length;
     const pending = assets.filter((asset) => asset.upload_status === 'PENDING' || asset.upload_status === 'UPLOADING').length;
@@ -638,9 +771,10 @@ export function MediaScreen({
       if (filter === 'UNLINKED') return !hasTask && !hasPin;
       if (filter === 'UPLOAD_PENDING') return pending;
       if (filter === 'UPLOAD_FAILED') return failed;
+      if (filter === 'SIMILAR') return similarGroupByAsset.has(asset.id);
       return true;
     });
-  }, [assets, filter]);
+  }, [assets, filter, similarGroupByAsset]);
 
   const panelWidth = 380;
 
@@ -694,6 +828,46 @@ export function MediaScreen({
     });
   }, [activeOrgId, effectiveProjectId, withBusy]);
 
+  const onCaptureVideo = useCallback(() => {
+    if (!activeOrgId) {
+      setError('Compte sans organisation active.');
+      return;
+    }
+
+    void withBusy(async () => {
+      await media.captureVideo({
+        org_id: activeOrgId,
+        project_id: effectiveProjectId,
+        tag: 'proof'
+      });
+    });
+  }, [activeOrgId, effectiveProjectId, withBusy]);
+
+  const onToggleVoiceMemo = useCallback(() => {
+    if (voiceMemo.isRecording) {
+      voiceMemo.stop();
+      return;
+    }
+
+    if (!activeOrgId) {
+      setError('Compte sans organisation active.');
+      return;
+    }
+
+    void voiceMemo.start((recording) => {
+      void withBusy(async () => {
+        await media.saveVoiceMemo(
+          {
+            org_id: activeOrgId,
+            project_id: effectiveProjectId,
+            tag: 'proof'
+          },
+          recording
+        );
+      });
+    });
+  }, [activeOrgId, effectiveProjectId, voiceMemo, withBusy]);
+
   const onImport = useCallback(() => {
     if (!activeOrgId) {
       setError('Compte sans organisation active.');
@@ -730,8 +904,13 @@ export function MediaScreen({
     setDetail({ open: false, assetId: null });
     setTaskPickerOpen(false);
     setPinPickerOpen(false);
+    setAnnotatorOpen(false);
   }, []);
 
+  const onAnnotationsSaved = useCallback(() => {
+    void refresh();
+  }, [refresh]);
+
   const openFile = useCallback(async () => {
     if (!selectedAsset) return;
     try {
@@ -746,6 +925,20 @@ export function MediaScreen({
     }
   }, [selectedAsset]);
 
+  const chooseBestShot = useCallback(() => {
+    if (!selectedAsset) return;
+    void withBusy(async () => {
+      await media.chooseBestShot(selectedAsset.id);
+    });
+  }, [selectedAsset, withBusy]);
+
+  const clearBestShot = useCallback(() => {
+    if (!selectedAsset) return;
+    void withBusy(async () => {
+      await media.clearBestShot(selectedAsset.id);
+    });
+  }, [selectedAsset, withBusy]);
+
   const retryUpload = useCallback(() => {
     if (!selectedAsset) return;
     void withBusy(async () => {
@@ -836,6 +1029,8 @@ export function MediaScreen({
         amber: colors.amber,
         rose: colors.rose
       });
+      const progress = uploadProgressOf(item, uploadProgress[item.id]);
+      const similar = similarGroupByAsset.get(item.id);
 
       return (
         <Pressable
@@ -850,12 +1045,12 @@ export function MediaScreen({
             backgroundColor: colors.fog
           }}
         >
-          {item.local_thumb_path && isImage(item) ? (
+          {item.local_thumb_path && (isImage(item) || isClip(item)) ? (
             <Image source={{ uri: item.local_thumb_path }} style={{ width: '100%', height: '100%' }} resizeMode="cover" />
           ) : (
             <View style={{ flex: 1, alignItems: 'center', justifyContent: 'center', padding: spacing.sm }}>
               <Text variant="caption" style={{ color: colors.slate }}>
-                {isPdf(item) ? 'PDF' : '...'}
+                {isPdf(item) ? 'PDF' : isClip(item) ? clipLabel(item) : '...'}
               </Text>
             </View>
           )}
@@ -875,6 +1070,20 @@ export function MediaScreen({
                 </Text>
               </View>
             ) : null}
+            {annotatedIds.has(item.id) ? (
+              <View style={{ backgroundColor: 'rgba(0,0,0,0.55)', borderRadius: 8, paddingHorizontal: 6, paddingVertical: 2 }}>
+                <Text variant="caption" style={{ color: '#FFFFFF' }}>
+                  A
+                </Text>
+              </View>
+            ) : null}
+            {similar ? (
+              <View style={{ backgroundColor: 'rgba(0,0,0,0.55)', borderRadius: 8, paddingHorizontal: 6, paddingVertical: 2 }}>
+                <Text variant="caption" style={{ color: '#FFFFFF' }}>
+                  {similar.best_asset_id === item.id ? `★${similar.asset_ids.length}` : '≈'}
+                </Text>
+              </View>
+            ) : null}
           </View>
 
           <View style={{ position: 'absolute', bottom: 6, left: 6, right: 6, flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' }}>
@@ -885,10 +1094,36 @@ export function MediaScreen({
             </View>
             <View style={{ width: 10, height: 10, borderRadius: 999, marginLeft: 8, backgroundColor: tint }} />
           </View>
+
+          {progress ? (
+            <View style={{ position: 'absolute', bottom: 0, left: 0, right: 0, height: 3, backgroundColor: 'rgba(0,0,0,0.35)' }}>
+              <View
+                style={{
+                  width: `${Math.round(progress.ratio * 100)}%`,
+                  height: '100%',
+                  backgroundColor: progress.blocked_reason ? colors.amber : colors.teal
+                }}
+              />
+            </View>
+          ) : null}
         </Pressable>
       );
     },
-    [colors.amber, colors.fog, colors.mint, colors.rose, colors.slate, colors.teal, onSelectAsset, radii.md, spacing.sm, tileSize]
+    [
+      annotatedIds,
+      colors.amber,
+      colors.fog,
+      colors.mint,
+      colors.rose,
+      colors.slate,
+      colors.teal,
+      onSelectAsset,
+      radii.md,
+      similarGroupByAsset,
+      spacing.sm,
+      tileSize,
+      uploadProgress
+    ]
   );
 
   const leftColumn = (
@@ -909,14 +1144,21 @@ export function MediaScreen({
         <Text variant="caption" style={{ color: colors.slate, marginTop: spacing.xs }}>
           File sync globale: {syncStatus.queueDepth} · échecs définitifs: {syncStatus.deadLetterCount}
         </Text>
-        {error ? (
+        {error || voiceMemo.error ? (
           <Text variant="caption" style={{ color: colors.rose, marginTop: spacing.sm }}>
-            {error}
+            {error ?? voiceMemo.error}
           </Text>
         ) : null}
 
         <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: spacing.sm, marginTop: spacing.md }}>
           <Button label="+ Photo" onPress={onCapture} disabled={busy} />
+          <Button label="+ Video" kind="ghost" onPress={onCaptureVideo} disabled={busy || voiceMemo.isRecording} />
+          <Button
+            label={voiceMemo.isRecording ? `Arreter (${formatMediaDuration(voiceMemo.elapsedMs)})` : 'Note vocale'}
+            kind={voiceMemo.isRecording ? 'primary' : 'ghost'}
+            onPress={onToggleVoiceMemo}
+            disabled={busy}
+          />
           {allowImport ? <Button label="Importer" kind="ghost" onPress={onImport} disabled={busy} /> : null}
           <Button label="Sync" kind="ghost" onPress={onSyncNow} disabled={busy} />
           <Button label="Rafraîchir" kind="ghost" onPress={() => void refresh()} disabled={busy} />
@@ -999,6 +1241,14 @@ export function MediaScreen({
       onUnlinkPin={unlinkPin}
       onRetryUpload={retryUpload}
       onOpenFile={openFile}
+      annotated={selectedAsset ? annotatedIds.has(selectedAsset.id) : false}
+      onAnnotate={() => setAnnotatorOpen(true)}
+      uploadProgress={selectedAsset ? uploadProgress[selectedAsset.id] : undefined}
+      similarGroup={selectedSimilarGroup}
+      similarAssets={selectedSimilarAssets}
+      onSelectAsset={onSelectAsset}
+      onChooseBestShot={chooseBestShot}
+      onClearBestShot={clearBestShot}
     />
   );
 
@@ -1027,6 +1277,13 @@ export function MediaScreen({
           onClose={() => setPinPickerOpen(false)}
           onPick={onPickPin}
         />
+
+        <MediaAnnotationEditor
+          visible={annotatorOpen}
+          asset={selectedAsset}
+          onClose={() => setAnnotatorOpen(false)}
+          onSaved={onAnnotationsSaved}
+        />
       </Screen>
     );
   }
@@ -1060,6 +1317,13 @@ export function MediaScreen({
       ) : null}
 
       <PinPickerModal visible={pinPickerOpen} projectId={effectiveProjectId} onClose={() => setPinPickerOpen(false)} onPick={onPickPin} />
+
+      <MediaAnnotationEditor
+        visible={annotatorOpen}
+        asset={selectedAsset}
+        onClose={() => setAnnotatorOpen(false)}
+        onSaved={onAnnotationsSaved}
+      />
     </Screen>
   );
 }
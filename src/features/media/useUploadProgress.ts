@@ -0,0 +1,71 @@
+import { useEffect, useState } from 'react';
+import { MediaAsset, MediaUploadBlockReason, MediaUploadProgress, mediaUploadWorker } from '../../data/media';
+
+export function uploadBlockLabel(reason: MediaUploadBlockReason) {
+  if (reason === 'WIFI_ONLY') return 'En attente du Wi-Fi';
+  if (reason === 'CELLULAR_BUDGET') return 'Budget cellulaire du jour atteint';
+  return 'Hors ligne';
+}
+
+export function formatMegabytes(bytes: number) {
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Sent/total bytes of an asset still in the queue: live progress of the current session first, then the
+ * offset persisted by a resumable upload (after an app restart). Null when nothing was sent yet.
+ */
+export function uploadProgressOf(asset: MediaAsset, live: MediaUploadProgress | undefined) {
+  if (asset.upload_status === 'UPLOADED') {
+    return null;
+  }
+
+  if (live && live.state !== 'UPLOADED' && live.total_bytes > 0) {
+    return {
+      sent_bytes: live.sent_bytes,
+      total_bytes: live.total_bytes,
+      ratio: Math.min(1, live.sent_bytes / live.total_bytes),
+      blocked_reason: live.state === 'PAUSED' ? live.blocked_reason : undefined
+    };
+  }
+
+  if (asset.upload_offset && asset.size_bytes > 0) {
+    return {
+      sent_bytes: asset.upload_offset,
+      total_bytes: asset.size_bytes,
+      ratio: Math.min(1, asset.upload_offset / asset.size_bytes),
+      blocked_reason: undefined
+    };
+  }
+
+  return null;
+}
+
+/** Live upload progress keyed by asset id; `onUploaded` fires once per asset finishing while mounted. */
+export function useUploadProgress(onUploaded?: () => void) {
+  const [progress, setProgress] = useState<Record<string, MediaUploadProgress>>({});
+
+  useEffect(() => {
+    const seen = new Set<string>();
+    let initialized = false;
+
+    return mediaUploadWorker.onProgress((snapshot) => {
+      setProgress(snapshot);
+
+      let finished = false;
+      for (const entry of Object.values(snapshot)) {
+        if (entry.state === 'UPLOADED' && !seen.has(entry.asset_id)) {
+          seen.add(entry.asset_id);
+          finished = true;
+        }
+      }
+
+      if (finished && initialized) {
+        onUploaded?.();
+      }
+      initialized = true;
+    });
+  }, [onUploaded]);
+
+  return progress;
+}
@@ -0,0 +1,162 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { MediaRecording } from '../../data/media';
+import { quotas } from '../../data/quotas-limits';
+import { Listener, SpeechModule, loadSpeechModule } from '../tasks/useTaskDictation';
+
+type Session = {
+  startedAt: number;
+  onRecorded: (recording: MediaRecording) => void;
+};
+
+/**
+ * Voice memos are recorded through the speech recognizer with `recordingOptions.persist` (the only audio
+ * capture available in the app): WAV on Android, CAF on iOS. The recording stops at the audio quota.
+ */
+export function useVoiceMemo() {
+  const moduleRef = useRef<SpeechModule | null>(null);
+  const listenersRef = useRef<Listener[]>([]);
+  const sessionRef = useRef<Session | null>(null);
+  const limitTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const [isRecording, setIsRecording] = useState(false);
+  const [elapsedMs, setElapsedMs] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const clearSession = useCallback(() => {
+    for (const listener of listenersRef.current) {
+      try {
+        listener.remove();
+      } catch {
+        // no-op
+      }
+    }
+
+    listenersRef.current = [];
+    sessionRef.current = null;
+
+    if (limitTimerRef.current) {
+      clearTimeout(limitTimerRef.current);
+      limitTimerRef.current = null;
+    }
+
+    setIsRecording(false);
+  }, []);
+
+  const stop = useCallback(() => {
+    const module = moduleRef.current;
+    if (!module || !sessionRef.current) {
+      return;
+    }
+
+    try {
+      module.stop();
+    } catch {
+      clearSession();
+    }
+  }, [clearSession]);
+
+  const start = useCallback(
+    async (onRecorded: (recording: MediaRecording) => void) => {
+      setError(null);
+
+      const module = await loadSpeechModule();
+      if (!module || !module.isRecognitionAvailable()) {
+        setError('Enregistrement audio indisponible sur ce build (Expo Go ou reconnaissance vocale absente).');
+        return false;
+      }
+
+      const permission = await module.requestPermissionsAsync();
+      if (!permission.granted) {
+        setError('Permission microphone refusée.');
+        return false;
+      }
+
+      moduleRef.current = module;
+      clearSession();
+      sessionRef.current = { startedAt: Date.now(), onRecorded };
+      setElapsedMs(0);
+      setIsRecording(true);
+
+      listenersRef.current.push(
+        module.addListener('audioend', (event) => {
+          const session = sessionRef.current;
+          const uri = typeof event?.uri === 'string' ? event.uri : null;
+          clearSession();
+
+          if (!session) {
+            return;
+          }
+
+          if (!uri) {
+            setError('Note vocale non enregistree (fichier audio absent).');
+            return;
+          }
+
+          session.onRecorded({ uri, duration_ms: Date.now() - session.startedAt });
+        })
+      );
+
+      listenersRef.current.push(
+        module.addListener('error', (event) => {
+          // `no-speech` only means nothing was transcribed: the audio itself is still delivered on `audioend`.
+          if (event?.error === 'no-speech') {
+            return;
+          }
+
+          setError(event?.message?.trim() || event?.error || 'Erreur enregistrement audio.');
+          clearSession();
+        })
+      );
+
+      limitTimerRef.current = setTimeout(() => {
+        stop();
+      }, quotas.mediaDurationLimits().audio_seconds * 1000);
+
+      module.start({
+        lang: 'fr-FR',
+        interimResults: false,
+        continuous: true,
+        iosTaskHint: 'dictation',
+        recordingOptions: { persist: true }
+      });
+
+      return true;
+    },
+    [clearSession, stop]
+  );
+
+  useEffect(() => {
+    if (!isRecording) {
+      return;
+    }
+
+    const handle = setInterval(() => {
+      const session = sessionRef.current;
+      if (session) {
+        setElapsedMs(Date.now() - session.startedAt);
+      }
+    }, 500);
+
+    return () => clearInterval(handle);
+  }, [isRecording]);
+
+  useEffect(() => {
+    return () => {
+      try {
+        moduleRef.current?.abort();
+      } catch {
+        // no-op
+      }
+      clearSession();
+    };
+  }, [clearSession]);
+
+  return {
+    isRecording,
+    elapsedMs,
+    error,
+    start,
+    stop,
+    clearError: () => setError(null)
+  };
+}
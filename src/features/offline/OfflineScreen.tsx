@@ -1,6 +1,14 @@
 import React, { useCallback, useEffect, useState } from 'react';
 import { ScrollView, View } from 'react-native';
 import { useAuth } from '../../core/auth';
+import {
+  MediaAsset,
+  MediaUploadAllowance,
+  MediaUploadNetwork,
+  MediaUploadSettings,
+  media,
+  mediaUploadPolicy
+} from '../../data/media';
 import { offlineDB, OfflineOperation } from '../../data/offline/outbox';
 import { useSyncStatus } from '../../data/sync/useSyncStatus';
 import { Button } from '../../ui/components/Button';
@@ -9,6 +17,9 @@ import { Text } from '../../ui/components/Text';
 import { Screen } from '../../ui/layout/Screen';
 import { useTheme } from '../../ui/theme/ThemeProvider';
 import { SectionHeader } from '../common/SectionHeader';
+import { formatMegabytes, uploadBlockLabel, uploadProgressOf, useUploadProgress } from '../media/useUploadProgress';
+
+const BUDGET_CHOICES: Array<number | null> = [50, 200, 500, null];
 
 function toStatusLabel(phase: 'idle' | 'syncing' | 'offline' | 'error') {
   if (phase === 'syncing') return 'Synchronisation en cours';
@@ -17,6 +28,12 @@ function toStatusLabel(phase: 'idle' | 'syncing' | 'offline' | 'error') {
   return 'Synchronisation OK';
 }
 
+function toNetworkLabel(network: MediaUploadNetwork) {
+  if (network === 'UNMETERED') return 'Wi-Fi';
+  if (network === 'CELLULAR') return 'Cellulaire';
+  return 'Hors ligne';
+}
+
 export function OfflineScreen() {
   const { colors, spacing } = useTheme();
   const { activeOrgId } = useAuth();
@@ -24,17 +41,40 @@ export function OfflineScreen() {
 
   const [pendingOps, setPendingOps] = useState<OfflineOperation[]>([]);
   const [failedOps, setFailedOps] = useState<OfflineOperation[]>([]);
+  const [uploadQueue, setUploadQueue] = useState<MediaAsset[]>([]);
+  const [uploadSettings, setUploadSettings] = useState<MediaUploadSettings | null>(null);
+  const [allowance, setAllowance] = useState<MediaUploadAllowance | null>(null);
 
   const refreshDetails = useCallback(async () => {
     const now = Date.now();
-    const [pending, failed] = await Promise.all([
+    const [pending, failed, queue, settings, nextAllowance] = await Promise.all([
       offlineDB.getPendingOperations(10, now),
-      offlineDB.getFailedOperations(10, 1)
+      offlineDB.getFailedOperations(10, 1),
+      media.listUploadQueue(10, activeOrgId ?? undefined),
+      mediaUploadPolicy.getSettings(),
+      mediaUploadPolicy.getAllowance()
     ]);
 
     setPendingOps(pending);
     setFailedOps(failed);
-  }, []);
+    setUploadQueue(queue);
+    setUploadSettings(settings);
+    setAllowance(nextAllowance);
+  }, [activeOrgId]);
+
+  const onUploadFinished = useCallback(() => {
+    void refreshDetails();
+  }, [refreshDetails]);
+
+  const uploadProgress = useUploadProgress(onUploadFinished);
+
+  const updateUploadSettings = useCallback(
+    async (patch: Partial<Pick<MediaUploadSettings, 'network_mode' | 'cellular_daily_budget_mb'>>) => {
+      await mediaUploadPolicy.updateSettings(patch);
+      await refreshDetails();
+    },
+    [refreshDetails]
+  );
 
   const refreshAll = useCallback(async () => {
     await refreshQueue();
@@ -95,8 +135,8 @@ export function OfflineScreen() {
             </Text>
             {status.lastResult ? (
               <Text variant="caption" style={{ color: colors.slate, marginTop: spacing.xs }}>
-                Dernier cycle - envoyés:{status.lastResult.pushed}, retentatives:{status.lastResult.failed}, terminaux:
-                {status.lastResult.dead}
+                Dernier cycle - envoyés:{status.lastResult.pushed}, reçus:{status.lastResult.pulled}, conflits:
+                {status.lastResult.conflicts}, retentatives:{status.lastResult.failed}, terminaux:{status.lastResult.dead}
               </Text>
             ) : null}
             {status.lastSyncedAt ? (
@@ -118,6 +158,104 @@ export function OfflineScreen() {
             <Button label="Rejouer les erreurs" kind="ghost" onPress={() => void replayDeadLetters()} />
           </View>
 
+          <Card>
+            <Text variant="h2">Téléversement des médias</Text>
+            {allowance ? (
+              <>
+                <Text variant="body" style={{ color: colors.slate, marginTop: spacing.xs }}>
+                  Réseau: {toNetworkLabel(allowance.network)}
+                </Text>
+                <Text variant="caption" style={{ color: colors.slate, marginTop: spacing.xs }}>
+                  Cellulaire aujourd'hui: {formatMegabytes(allowance.cellular_used_bytes)}
+                  {allowance.cellular_budget_bytes !== null
+                    ? ` / ${formatMegabytes(allowance.cellular_budget_bytes)}`
+                    : ' (sans limite)'}
+                </Text>
+                {allowance.blocked_reason ? (
+                  <Text variant="caption" style={{ color: colors.amber, marginTop: spacing.xs }}>
+                    Envois suspendus: {uploadBlockLabel(allowance.blocked_reason)}
+                  </Text>
+                ) : null}
+              </>
+            ) : null}
+
+            {uploadSettings ? (
+              <>
+                <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: spacing.sm, marginTop: spacing.sm }}>
+                  <Button
+                    label="Wi-Fi uniquement"
+                    kind={uploadSettings.network_mode === 'WIFI_ONLY' ? 'primary' : 'ghost'}
+                    onPress={() => void updateUploadSettings({ network_mode: 'WIFI_ONLY' })}
+                  />
+                  <Button
+                    label="Cellulaire autorisé"
+                    kind={uploadSettings.network_mode === 'CELLULAR_ALLOWED' ? 'primary' : 'ghost'}
+                    onPress={() => void updateUploadSettings({ network_mode: 'CELLULAR_ALLOWED' })}
+                  />
+                </View>
+                {uploadSettings.network_mode === 'CELLULAR_ALLOWED' ? (
+                  <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: spacing.sm, marginTop: spacing.sm }}>
+                    {BUDGET_CHOICES.map((budget) => (
+                      <Button
+                        key={budget ?? 'none'}
+                        label={budget === null ? 'Sans limite' : `${budget} MB/jour`}
+                        kind={uploadSettings.cellular_daily_budget_mb === budget ? 'primary' : 'ghost'}
+                        onPress={() => void updateUploadSettings({ cellular_daily_budget_mb: budget })}
+                      />
+                    ))}
+                  </View>
+                ) : null}
+              </>
+            ) : null}
+
+            {uploadQueue.length === 0 ? (
+              <Text variant="caption" style={{ color: colors.slate, marginTop: spacing.sm }}>
+                Aucun média en attente.
+              </Text>
+            ) : (
+              uploadQueue.map((asset) => {
+                const progress = uploadProgressOf(asset, uploadProgress[asset.id]);
+                return (
+                  <View key={asset.id} style={{ marginTop: spacing.sm }}>
+                    <Text variant="caption" style={{ color: colors.slate }} numberOfLines={1}>
+                      {asset.tag ?? 'Preuve'} · {asset.mime} · {formatMegabytes(asset.size_bytes)} · {asset.upload_status}
+                    </Text>
+                    {progress ? (
+                      <>
+                        <View
+                          style={{
+                            height: 4,
+                            borderRadius: 999,
+                            backgroundColor: colors.fog,
+                            overflow: 'hidden',
+                            marginTop: spacing.xs
+                          }}
+                        >
+                          <View
+                            style={{
+                              width: `${Math.round(progress.ratio * 100)}%`,
+                              height: '100%',
+                              backgroundColor: progress.blocked_reason ? colors.amber : colors.teal
+                            }}
+                          />
+                        </View>
+                        <Text variant="caption" style={{ color: colors.slate }}>
+                          {formatMegabytes(progress.sent_bytes)} / {formatMegabytes(progress.total_bytes)}
+                          {progress.blocked_reason ? ` · ${uploadBlockLabel(progress.blocked_reason)}` : ''}
+                        </Text>
+                      </>
+                    ) : null}
+                    {asset.last_error ? (
+                      <Text variant="caption" style={{ color: colors.rose }} numberOfLines={2}>
+                        {asset.last_error}
+                      </Text>
+                    ) : null}
+                  </View>
+                );
+              })
+            )}
+          </Card>
+
           <Card>
             <Text variant="h2">Opérations prêtes (top 10)</Text>
             {pendingOps.length === 0 ? (
@@ -0,0 +1,220 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { View } from 'react-native';
+import { PlanningAutoScheduleProposal, planning } from '../../data/planning-engine';
+import { Task, tasks } from '../../data/tasks';
+import { Button } from '../../ui/components/Button';
+import { Text } from '../../ui/components/Text';
+import { useTheme } from '../../ui/theme/ThemeProvider';
+
+const MAX_CANDIDATES = 20;
+
+/** Working time presets; a day is the default 8h-17h window. */
+const DURATIONS: Array<{ minutes: number; label: string }> = [
+  { minutes: 60, label: '1 h' },
+  { minutes: 120, label: '2 h' },
+  { minutes: 270, label: '½ j' },
+  { minutes: 540, label: '1 j' },
+  { minutes: 1080, label: '2 j' }
+];
+
+const PRIORITY_RANK = { HIGH: 0, MEDIUM: 1, LOW: 2 } as const;
+
+function formatSlot(iso: string) {
+  return new Date(iso).toLocaleString('fr-FR', {
+    weekday: 'short',
+    day: '2-digit',
+    month: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+}
+
+export function PlanningAutoSchedule({
+  orgId,
+  userId,
+  projectId,
+  refreshKey,
+  onAccepted
+}: {
+  orgId: string | null;
+  userId: string | null;
+  projectId: string;
+  refreshKey: number;
+  onAccepted: () => void;
+}) {
+  const { colors, spacing, radii } = useTheme();
+
+  const [candidates, setCandidates] = useState<Task[]>([]);
+  const [durations, setDurations] = useState<Record<string, number>>({});
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+  const [alsaceMoselle, setAlsaceMoselle] = useState(false);
+  const [proposal, setProposal] = useState<PlanningAutoScheduleProposal | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    if (!orgId) {
+      setCandidates([]);
+      return;
+    }
+
+    try {
+      const [projectTasks, items] = await Promise.all([
+        tasks.listByProject(projectId, { org_id: orgId, status: 'ALL', limit: 200 }),
+        planning.listByProject(projectId, { org_id: orgId, limit: 500 })
+      ]);
+      const planned = new Set(items.map((item) => item.task_id));
+      setCandidates(
+        projectTasks
+          .filter((task) => task.status !== 'DONE' && !planned.has(task.id))
+          .sort((a, b) => PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority])
+          .slice(0, MAX_CANDIDATES)
+      );
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'Impossible de charger les tâches.');
+    }
+  }, [orgId, projectId]);
+
+  useEffect(() => {
+    setProposal(null);
+    void load();
+  }, [load, refreshKey]);
+
+  const propose = async () => {
+    if (!orgId) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const next = await planning.proposeSchedule(
+        candidates
+          .filter((task) => !excluded.has(task.id))
+          .map((task) => ({
+            task_id: task.id,
+            title: task.title,
+            duration_minutes: durations[task.id] ?? 120,
+            assignee_user_id: task.assignee_user_id
+          })),
+        { org_id: orgId, project_id: projectId, start_at: new Date().toISOString(), alsace_moselle: alsaceMoselle }
+      );
+      setProposal(next);
+    } catch (proposeError) {
+      setError(proposeError instanceof Error ? proposeError.message : 'Planification impossible.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const accept = async () => {
+    if (!proposal || !userId) return;
+    setBusy(true);
+    setError(null);
+    try {
+      await planning.acceptSchedule(proposal, userId);
+      setProposal(null);
+      await load();
+      onAccepted();
+    } catch (acceptError) {
+      setError(acceptError instanceof Error ? acceptError.message : 'Acceptation impossible.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (candidates.length === 0 && !proposal) {
+    return (
+      <Text variant="caption" style={{ color: colors.slate, marginTop: spacing.sm }}>
+        Toutes les tâches ouvertes du chantier sont planifiées.
+      </Text>
+    );
+  }
+
+  return (
+    <View style={{ marginTop: spacing.sm, gap: spacing.sm }}>
+      <Text variant="caption" style={{ color: colors.slate }}>
+        Créneaux libres en jours ouvrés (8h-17h, jours fériés exclus) pour l'assigné, l'équipe et les équipements liés,
+        dans l'ordre des dépendances puis des priorités.
+      </Text>
+
+      {candidates.map((task) => {
+        const included = !excluded.has(task.id);
+        return (
+          <View key={task.id} style={{ borderWidth: 1, borderColor: colors.fog, borderRadius: radii.md, padding: spacing.sm }}>
+            <View style={{ flexDirection: 'row', alignItems: 'center', gap: spacing.sm }}>
+              <Text variant="bodyStrong" numberOfLines={1} style={{ flex: 1, color: included ? colors.ink : colors.slate }}>
+                {task.title}
+              </Text>
+              <Button
+                label={included ? 'Inclus' : 'Exclu'}
+                kind={included ? 'primary' : 'ghost'}
+                onPress={() =>
+                  setExcluded((prev) => {
+                    const next = new Set(prev);
+                    if (next.has(task.id)) next.delete(task.id);
+                    else next.add(task.id);
+                    return next;
+                  })
+                }
+                disabled={busy}
+              />
+            </View>
+            {included ? (
+              <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: spacing.xs, marginTop: spacing.xs }}>
+                {DURATIONS.map((duration) => (
+                  <Button
+                    key={duration.minutes}
+                    label={duration.label}
+                    kind={(durations[task.id] ?? 120) === duration.minutes ? 'primary' : 'ghost'}
+                    onPress={() => setDurations((prev) => ({ ...prev, [task.id]: duration.minutes }))}
+                    disabled={busy}
+                  />
+                ))}
+              </View>
+            ) : null}
+          </View>
+        );
+      })}
+
+      <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: spacing.sm }}>
+        <Button
+          label="Alsace-Moselle"
+          kind={alsaceMoselle ? 'primary' : 'ghost'}
+          onPress={() => setAlsaceMoselle((value) => !value)}
+          disabled={busy}
+        />
+        <Button
+          label={busy && !proposal ? 'Calcul...' : 'Proposer un planning'}
+          onPress={() => void propose()}
+          disabled={busy || candidates.every((task) => excluded.has(task.id))}
+        />
+      </View>
+
+      {proposal ? (
+        <View style={{ borderWidth: 1, borderColor: colors.teal, borderRadius: radii.md, padding: spacing.sm, gap: spacing.xs }}>
+          <Text variant="bodyStrong">Proposition · {proposal.slots.length} tâche(s) placée(s)</Text>
+          {proposal.slots.map((slot) => (
+            <Text key={slot.task_id} variant="caption" style={{ color: colors.slate }}>
+              {slot.title} · {formatSlot(slot.start_at)} → {formatSlot(slot.end_at)}
+              {slot.segments.length > 1 ? ` (${slot.segments.length} jours)` : ''}
+              {slot.equipment_ids.length > 0 ? ` · ${slot.equipment_ids.length} équipement(s)` : ''}
+            </Text>
+          ))}
+          {proposal.unscheduled.map((entry) => (
+            <Text key={entry.task_id} variant="caption" style={{ color: colors.rose }}>
+              {entry.title} · {entry.reason}
+            </Text>
+          ))}
+          <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: spacing.sm }}>
+            <Button label="Tout accepter" onPress={() => void accept()} disabled={busy || proposal.slots.length === 0} />
+            <Button label="Abandonner" kind="ghost" onPress={() => setProposal(null)} disabled={busy} />
+          </View>
+        </View>
+      ) : null}
+
+      {error ? (
+        <Text variant="caption" style={{ color: colors.rose }}>
+          {error}
+        </Text>
+      ) : null}
+    </View>
+  );
+}
@@ -0,0 +1,188 @@
+import * as DocumentPicker from 'expo-document-picker';
+import * as Sharing from 'expo-sharing';
+import React, { useMemo, useState } from 'react';
+import { TextInput, View } from 'react-native';
+import { PlanningIcalExportResult, PlanningIcalImportResult, planningIcal } from '../../data/planning-ical';
+import { Button } from '../../ui/components/Button';
+import { Text } from '../../ui/components/Text';
+import { useTheme } from '../../ui/theme/ThemeProvider';
+
+async function shareIcs(result: PlanningIcalExportResult) {
+  const available = await Sharing.isAvailableAsync();
+  if (!available) {
+    return false;
+  }
+
+  await Sharing.shareAsync(result.path, {
+    mimeType: 'text/calendar',
+    UTI: 'com.apple.ical.ics',
+    dialogTitle: 'Exporter le planning (.ics)'
+  });
+  return true;
+}
+
+async function pickIcsFile() {
+  const picked = await DocumentPicker.getDocumentAsync({
+    type: ['text/calendar', 'application/ics', 'text/x-vcalendar', '*/*'],
+    multiple: false,
+    copyToCacheDirectory: true
+  });
+
+  if (picked.canceled) {
+    return null;
+  }
+
+  const asset = picked.assets?.[0];
+  if (!asset?.uri) {
+    return null;
+  }
+
+  if (asset.name && !/\.(ics|ical|ifb|icalendar)$/i.test(asset.name)) {
+    throw new Error('Fichier invalide: .ics requis.');
+  }
+
+  return asset.uri;
+}
+
+function describeImport(result: PlanningIcalImportResult) {
+  const parts = [`${result.events} événement(s)`, `${result.created} créé(s)`, `${result.updated} mis à jour`];
+  if (result.cancelled > 0) parts.push(`${result.cancelled} annulé(s)`);
+  if (result.tasks_created > 0) parts.push(`${result.tasks_created} tâche(s) créée(s)`);
+  if (result.skipped.length > 0) parts.push(`${result.skipped.length} ignoré(s)`);
+  return parts.join(' · ');
+}
+
+export function PlanningCalendarExchange({
+  orgId,
+  userId,
+  projectId,
+  onImported
+}: {
+  orgId: string | null;
+  userId: string | null;
+  projectId: string;
+  onImported: () => void;
+}) {
+  const { colors, spacing, radii } = useTheme();
+
+  const [teamId, setTeamId] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [info, setInfo] = useState<string | null>(null);
+  const [importResult, setImportResult] = useState<PlanningIcalImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const inputStyle = useMemo(
+    () => ({
+      borderWidth: 1,
+      borderColor: colors.fog,
+      borderRadius: radii.md,
+      paddingHorizontal: spacing.md,
+      paddingVertical: spacing.sm,
+      color: colors.ink,
+      backgroundColor: colors.white
+    }),
+    [colors, radii.md, spacing.md, spacing.sm]
+  );
+
+  const withBusy = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    setInfo(null);
+    try {
+      await action();
+    } catch (actionError) {
+      setError(actionError instanceof Error ? actionError.message : 'Opération impossible.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const exportIcs = (scope: 'PROJECT' | 'TEAM') =>
+    withBusy(async () => {
+      if (!orgId) {
+        throw new Error('Session invalide: organisation manquante.');
+      }
+
+      const cleanedTeamId = teamId.trim();
+      if (scope === 'TEAM' && !cleanedTeamId) {
+        throw new Error("Renseigne l'identifiant de l'équipe.");
+      }
+
+      const result =
+        scope === 'PROJECT'
+          ? await planningIcal.exportProject(projectId, { org_id: orgId })
+          : await planningIcal.exportTeam(cleanedTeamId, { org_id: orgId });
+
+      const shared = await shareIcs(result);
+      setInfo(shared ? `.ics exporté (${result.event_count} événements).` : `.ics généré: ${result.path}`);
+    });
+
+  const importIcs = () =>
+    withBusy(async () => {
+      if (!orgId || !userId) {
+        throw new Error('Session invalide: utilisateur ou organisation manquante.');
+      }
+
+      const uri = await pickIcsFile();
+      if (!uri) return;
+
+      const result = await planningIcal.importFile(uri, { org_id: orgId, project_id: projectId, created_by: userId });
+      setImportResult(result);
+      onImported();
+    });
+
+  return (
+    <View style={{ marginTop: spacing.sm, gap: spacing.sm }}>
+      <Text variant="caption" style={{ color: colors.slate }}>
+        Export compatible Outlook / Google Agenda: chaque créneau garde le même UID, un nouvel import remplace
+        l'événement au lieu de le dupliquer.
+      </Text>
+
+      <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: spacing.sm }}>
+        <Button label="Exporter le chantier" onPress={() => void exportIcs('PROJECT')} disabled={busy} />
+        <Button label="Importer un .ics" kind="ghost" onPress={() => void importIcs()} disabled={busy} />
+      </View>
+
+      <View style={{ flexDirection: 'row', alignItems: 'center', gap: spacing.sm }}>
+        <TextInput
+          value={teamId}
+          onChangeText={setTeamId}
+          placeholder="team_id"
+          placeholderTextColor={colors.slate}
+          style={[inputStyle, { flex: 1 }]}
+        />
+        <Button label="Exporter l'équipe" kind="ghost" onPress={() => void exportIcs('TEAM')} disabled={busy} />
+      </View>
+
+      {info ? (
+        <Text variant="caption" style={{ color: colors.slate }}>
+          {info}
+        </Text>
+      ) : null}
+
+      {importResult ? (
+        <View style={{ gap: spacing.xs }}>
+          <Text variant="caption" style={{ color: colors.ink }}>
+            Import: {describeImport(importResult)}
+          </Text>
+          {importResult.skipped.slice(0, 5).map((entry) => (
+            <Text key={`${entry.uid}-${entry.summary}`} variant="caption" style={{ color: colors.rose }}>
+              {entry.summary} · {entry.reason}
+            </Text>
+          ))}
+          {importResult.warnings.slice(0, 5).map((warning) => (
+            <Text key={warning} variant="caption" style={{ color: colors.amber }}>
+              {warning}
+            </Text>
+          ))}
+        </View>
+      ) : null}
+
+      {error ? (
+        <Text variant="caption" style={{ color: colors.rose }}>
+          {error}
+        </Text>
+      ) : null}
+    </View>
+  );
+}
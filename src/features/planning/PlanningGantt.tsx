@@ -0,0 +1,399 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Pressable, TextInput, View } from 'react-native';
+import {
+  PlanningCriticalPath,
+  PlanningDependency,
+  PlanningDependencyType,
+  PlanningItem,
+  PlanningScheduleNode,
+  planning
+} from '../../data/planning-engine';
+import { Task, taskProgress, tasks } from '../../data/tasks';
+import { Button } from '../../ui/components/Button';
+import { Text } from '../../ui/components/Text';
+import { useTheme } from '../../ui/theme/ThemeProvider';
+
+const LABEL_WIDTH = 128;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type GanttRow = {
+  task_id: string;
+  title: string;
+  depth: number;
+  start_ms: number;
+  end_ms: number;
+  progress: number;
+  /** Node of the task itself; absent for a parent only summarizing its subtasks. */
+  node?: PlanningScheduleNode;
+};
+
+function formatDay(ms: number) {
+  return new Date(ms).toLocaleDateString('fr-FR', { day: '2-digit', month: '2-digit' });
+}
+
+function formatFloat(minutes: number) {
+  if (minutes <= 0) return 'critique';
+  if (minutes < 60) return `marge ${minutes} min`;
+  if (minutes < 24 * 60) return `marge ${Math.round(minutes / 60)} h`;
+  return `marge ${Math.round(minutes / (24 * 60))} j`;
+}
+
+/** Tasks ordered parent first, subtasks indented below; parents without own items get a summary bar. */
+function buildRows(path: PlanningCriticalPath, taskById: Map<string, Task>) {
+  const nodes = new Map(path.nodes.map((node) => [node.task_id, node]));
+  const children = new Map<string, string[]>();
+  const included = new Set<string>(nodes.keys());
+
+  for (const taskId of nodes.keys()) {
+    let cursor = taskById.get(taskId);
+    while (cursor?.parent_task_id && taskById.has(cursor.parent_task_id)) {
+      included.add(cursor.parent_task_id);
+      cursor = taskById.get(cursor.parent_task_id);
+    }
+  }
+
+  const roots: string[] = [];
+  for (const taskId of included) {
+    const parentId = taskById.get(taskId)?.parent_task_id;
+    if (parentId && included.has(parentId)) {
+      children.set(parentId, [...(children.get(parentId) ?? []), taskId]);
+    } else {
+      roots.push(taskId);
+    }
+  }
+
+  const spanOf = (taskId: string): { start: number; end: number } | null => {
+    const node = nodes.get(taskId);
+    const spans = [
+      ...(node ? [{ start: Date.parse(node.start_at), end: Date.parse(node.end_at) }] : []),
+      ...(children.get(taskId) ?? []).map(spanOf).filter((span): span is { start: number; end: number } => span !== null)
+    ];
+    if (spans.length === 0) return null;
+    return { start: Math.min(...spans.map((span) => span.start)), end: Math.max(...spans.map((span) => span.end)) };
+  };
+
+  const byStart = (a: string, b: string) => (spanOf(a)?.start ?? 0) - (spanOf(b)?.start ?? 0);
+  const rows: GanttRow[] = [];
+
+  const visit = (taskId: string, depth: number) => {
+    const span = spanOf(taskId);
+    const task = taskById.get(taskId);
+    const node = nodes.get(taskId);
+    if (span) {
+      rows.push({
+        task_id: taskId,
+        title: task?.title ?? node?.title ?? taskId,
+        depth,
+        start_ms: span.start,
+        end_ms: span.end,
+        progress: task ? taskProgress(task) : 0,
+        node
+      });
+    }
+    for (const childId of [...(children.get(taskId) ?? [])].sort(byStart)) {
+      visit(childId, depth + 1);
+    }
+  };
+
+  for (const rootId of roots.sort(byStart)) {
+    visit(rootId, 0);
+  }
+
+  return rows;
+}
+
+export function PlanningGantt({
+  orgId,
+  userId,
+  projectId,
+  refreshKey,
+  onChanged
+}: {
+  orgId: string | null;
+  userId: string | null;
+  projectId: string;
+  /** Bumped by the parent screen when planning items change elsewhere. */
+  refreshKey: number;
+  onChanged: () => void;
+}) {
+  const { colors, spacing, radii } = useTheme();
+
+  const [items, setItems] = useState<PlanningItem[]>([]);
+  const [dependencies, setDependencies] = useState<PlanningDependency[]>([]);
+  const [taskById, setTaskById] = useState<Map<string, Task>>(new Map());
+  const [selectedTaskId, setSelectedTaskId] = useState<string | null>(null);
+  const [linkType, setLinkType] = useState<PlanningDependencyType>('FS');
+  const [lagMinutes, setLagMinutes] = useState('0');
+  const [busy, setBusy] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    if (!orgId) {
+      setItems([]);
+      setDependencies([]);
+      return;
+    }
+
+    try {
+      const [nextItems, nextDependencies, projectTasks] = await Promise.all([
+        planning.listByProject(projectId, { org_id: orgId, limit: 500 }),
+        planning.listDependencies(projectId, orgId),
+        tasks.listByProject(projectId, { org_id: orgId, status: 'ALL', limit: 200 })
+      ]);
+      setItems(nextItems);
+      setDependencies(nextDependencies);
+      setTaskById(new Map(projectTasks.map((task) => [task.id, task])));
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'Impossible de charger le Gantt.');
+    }
+  }, [orgId, projectId]);
+
+  useEffect(() => {
+    void load();
+  }, [load, refreshKey]);
+
+  const path = useMemo(() => planning.computeCriticalPath(items, dependencies), [dependencies, items]);
+  const rows = useMemo(() => buildRows(path, taskById), [path, taskById]);
+
+  const rangeStart = path.start_at ? Date.parse(path.start_at) : 0;
+  const rangeEnd = path.end_at ? Date.parse(path.end_at) : 0;
+  const rangeMs = Math.max(rangeEnd - rangeStart, 60 * 60 * 1000);
+  const offset = (ms: number) => `${Math.max(0, Math.min(100, ((ms - rangeStart) / rangeMs) * 100))}%` as const;
+  const length = (ms: number) => `${Math.max(0, Math.min(100, (ms / rangeMs) * 100))}%` as const;
+
+  const titleOf = (taskId: string) => taskById.get(taskId)?.title ?? path.nodes.find((node) => node.task_id === taskId)?.title ?? taskId;
+  const selectedNode = path.nodes.find((node) => node.task_id === selectedTaskId) ?? null;
+
+  const run = async (action: () => Promise<string | null>) => {
+    setBusy(true);
+    setError(null);
+    setNotice(null);
+    try {
+      setNotice(await action());
+      await load();
+      onChanged();
+    } catch (actionError) {
+      setError(actionError instanceof Error ? actionError.message : 'Action impossible.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const link = (successorTaskId: string) =>
+    run(async () => {
+      if (!orgId || !userId || !selectedTaskId) {
+        throw new Error('Session invalide: utilisateur ou organisation manquante.');
+      }
+      const lag = Number.parseInt(lagMinutes.trim() || '0', 10);
+      const result = await planning.addDependency({
+        org_id: orgId,
+        project_id: projectId,
+        predecessor_task_id: selectedTaskId,
+        successor_task_id: successorTaskId,
+        type: linkType,
+        lag_minutes: Number.isFinite(lag) ? lag : 0,
+        created_by: userId
+      });
+      return result.rescheduled.length > 0 ? `${result.rescheduled.length} créneau(x) décalé(s) par la dépendance.` : null;
+    });
+
+  const shiftSelected = (days: number) =>
+    run(async () => {
+      if (!selectedTaskId) return null;
+      const own = items
+        .filter((item) => item.task_id === selectedTaskId)
+        .sort((a, b) => (days > 0 ? b.start_at.localeCompare(a.start_at) : a.start_at.localeCompare(b.start_at)));
+
+      let moved = 0;
+      for (const item of own) {
+        const result = await planning.updateWithReschedule(item.id, {
+          start_at: new Date(Date.parse(item.start_at) + days * DAY_MS).toISOString(),
+          end_at: new Date(Date.parse(item.end_at) + days * DAY_MS).toISOString()
+        });
+        moved += result.rescheduled.length;
+      }
+      return moved > 0 ? `${moved} créneau(x) successeur(s) replanifié(s).` : null;
+    });
+
+  if (rows.length === 0) {
+    return (
+      <Text variant="caption" style={{ color: colors.slate, marginTop: spacing.sm }}>
+        Aucun item planifié sur ce chantier.
+      </Text>
+    );
+  }
+
+  return (
+    <View style={{ marginTop: spacing.sm }}>
+      <Text variant="caption" style={{ color: colors.slate }}>
+        {formatDay(rangeStart)} → {formatDay(rangeEnd)} · chemin critique : {path.critical_task_ids.length} tâche(s)
+      </Text>
+
+      <View style={{ flexDirection: 'row', justifyContent: 'space-between', marginTop: spacing.xs, marginLeft: LABEL_WIDTH }}>
+        <Text variant="caption" style={{ color: colors.slate }}>
+          {formatDay(rangeStart)}
+        </Text>
+        <Text variant="caption" style={{ color: colors.slate }}>
+          {formatDay(rangeStart + rangeMs / 2)}
+        </Text>
+        <Text variant="caption" style={{ color: colors.slate }}>
+          {formatDay(rangeEnd)}
+        </Text>
+      </View>
+
+      {rows.map((row) => {
+        const critical = row.node?.critical ?? false;
+        const selected = row.task_id === selectedTaskId;
+        const tint = critical ? colors.rose : row.node ? colors.teal : colors.slate;
+
+        return (
+          <Pressable
+            key={row.task_id}
+            onPress={() => (row.node ? setSelectedTaskId(selected ? null : row.task_id) : undefined)}
+            style={{
+              flexDirection: 'row',
+              alignItems: 'center',
+              marginTop: spacing.xs,
+              paddingVertical: 2,
+              borderRadius: radii.sm,
+              backgroundColor: selected ? colors.fog : 'transparent'
+            }}
+          >
+            <Text
+              variant="caption"
+              numberOfLines={1}
+              style={{ width: LABEL_WIDTH, paddingLeft: row.depth * spacing.sm, color: critical ? colors.rose : colors.ink }}
+            >
+              {row.title}
+            </Text>
+            <View style={{ flex: 1, height: 18, justifyContent: 'center' }}>
+              {row.node && row.node.total_float_minutes > 0 ? (
+                <View
+                  style={{
+                    position: 'absolute',
+                    left: offset(row.end_ms),
+                    width: length(Math.min(row.node.total_float_minutes * 60000, rangeEnd - row.end_ms)),
+                    height: 4,
+                    backgroundColor: colors.fog
+                  }}
+                />
+              ) : null}
+              <View
+                style={{
+                  position: 'absolute',
+                  left: offset(row.start_ms),
+                  width: length(Math.max(row.end_ms - row.start_ms, rangeMs / 200)),
+                  height: row.node ? 14 : 6,
+                  borderRadius: radii.sm,
+                  borderWidth: 1,
+                  borderColor: tint,
+                  overflow: 'hidden'
+                }}
+              >
+                <View style={{ width: `${row.progress}%`, height: '100%', backgroundColor: tint }} />
+              </View>
+            </View>
+          </Pressable>
+        );
+      })}
+
+      <Text variant="caption" style={{ color: colors.slate, marginTop: spacing.sm }}>
+        Rouge : chemin critique · trait gris : marge · remplissage : avancement (sous-tâches cumulées).
+      </Text>
+
+      {selectedNode ? (
+        <View
+          style={{ borderWidth: 1, borderColor: colors.fog, borderRadius: radii.md, padding: spacing.sm, marginTop: spacing.sm, gap: spacing.xs }}
+        >
+          <Text variant="bodyStrong" numberOfLines={1}>
+            {selectedNode.title} · {formatFloat(selectedNode.total_float_minutes)}
+          </Text>
+
+          {dependencies
+            .filter(
+              (dependency) =>
+                dependency.predecessor_task_id === selectedNode.task_id ||
+                dependency.successor_task_id === selectedNode.task_id
+            )
+            .map((dependency) => (
+              <View key={dependency.id} style={{ flexDirection: 'row', alignItems: 'center', gap: spacing.sm }}>
+                <Text variant="caption" style={{ flex: 1, color: colors.slate }} numberOfLines={1}>
+                  {titleOf(dependency.predecessor_task_id)} → {titleOf(dependency.successor_task_id)} ({dependency.type}
+                  {dependency.lag_minutes !== 0 ? ` ${dependency.lag_minutes > 0 ? '+' : ''}${dependency.lag_minutes} min` : ''})
+                </Text>
+                <Button
+                  label="Retirer"
+                  kind="ghost"
+                  onPress={() =>
+                    void run(async () => {
+                      await planning.removeDependency(dependency.id);
+                      return null;
+                    })
+                  }
+                  disabled={busy}
+                />
+              </View>
+            ))}
+
+          <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: spacing.xs }}>
+            <Button label="−1 j" kind="ghost" onPress={() => void shiftSelected(-1)} disabled={busy} />
+            <Button label="+1 j" kind="ghost" onPress={() => void shiftSelected(1)} disabled={busy} />
+            {(['FS', 'SS'] as const).map((type) => (
+              <Button
+                key={type}
+                label={type === 'FS' ? 'Fin → début' : 'Début → début'}
+                kind={linkType === type ? 'primary' : 'ghost'}
+                onPress={() => setLinkType(type)}
+                disabled={busy}
+              />
+            ))}
+          </View>
+
+          <TextInput
+            value={lagMinutes}
+            onChangeText={setLagMinutes}
+            keyboardType="numbers-and-punctuation"
+            placeholder="Décalage (minutes, négatif = chevauchement)"
+            placeholderTextColor={colors.slate}
+            style={{
+              borderWidth: 1,
+              borderColor: colors.fog,
+              borderRadius: radii.md,
+              paddingHorizontal: spacing.md,
+              paddingVertical: spacing.sm,
+              color: colors.ink,
+              backgroundColor: colors.white
+            }}
+          />
+
+          <Text variant="caption" style={{ color: colors.slate }}>
+            Ajouter un successeur :
+          </Text>
+          <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: spacing.xs }}>
+            {path.nodes
+              .filter((node) => node.task_id !== selectedNode.task_id)
+              .map((node) => (
+                <Button key={node.task_id} label={node.title} kind="ghost" onPress={() => void link(node.task_id)} disabled={busy} />
+              ))}
+          </View>
+        </View>
+      ) : (
+        <Text variant="caption" style={{ color: colors.slate, marginTop: spacing.xs }}>
+          Touchez une tâche pour la décaler ou la lier à un successeur.
+        </Text>
+      )}
+
+      {notice ? (
+        <Text variant="caption" style={{ color: colors.teal, marginTop: spacing.sm }}>
+          {notice}
+        </Text>
+      ) : null}
+      {error ? (
+        <Text variant="caption" style={{ color: colors.rose, marginTop: spacing.sm }}>
+          {error}
+        </Text>
+      ) : null}
+    </View>
+  );
+}
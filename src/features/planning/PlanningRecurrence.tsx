@@ -0,0 +1,383 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { TextInput, View } from 'react-native';
+import {
+  describeRecurrence,
+  recurrence,
+  RecurrenceFrequency,
+  RecurrenceOccurrence,
+  RecurrenceScope,
+  RecurringSeries
+} from '../../data/recurrence';
+import { Button } from '../../ui/components/Button';
+import { Text } from '../../ui/components/Text';
+import { useTheme } from '../../ui/theme/ThemeProvider';
+
+const FREQUENCIES: Array<{ value: RecurrenceFrequency; label: string }> = [
+  { value: 'DAILY', label: 'Jour' },
+  { value: 'WEEKLY', label: 'Semaine' },
+  { value: 'MONTHLY', label: 'Mois' }
+];
+
+/** Monday-first, as `Date.getDay()` values. */
+const WEEKDAYS: Array<{ day: number; label: string }> = [
+  { day: 1, label: 'L' },
+  { day: 2, label: 'M' },
+  { day: 3, label: 'M' },
+  { day: 4, label: 'J' },
+  { day: 5, label: 'V' },
+  { day: 6, label: 'S' },
+  { day: 0, label: 'D' }
+];
+
+const DURATIONS: Array<{ minutes: number | undefined; label: string }> = [
+  { minutes: undefined, label: 'Tâche seule' },
+  { minutes: 60, label: '1 h' },
+  { minutes: 120, label: '2 h' },
+  { minutes: 240, label: '½ j' }
+];
+
+const UPCOMING_DAYS = 30;
+const MAX_UPCOMING = 8;
+
+type EndMode = 'NONE' | 'COUNT' | 'UNTIL';
+
+function defaultStart() {
+  const date = new Date();
+  date.setDate(date.getDate() + 1);
+  date.setHours(8, 0, 0, 0);
+  return date.toISOString();
+}
+
+function formatOccurrence(iso: string) {
+  return new Date(iso).toLocaleString('fr-FR', {
+    weekday: 'short',
+    day: '2-digit',
+    month: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+}
+
+export function PlanningRecurrence({
+  orgId,
+  userId,
+  projectId,
+  refreshKey,
+  onChanged
+}: {
+  orgId: string | null;
+  userId: string | null;
+  projectId: string;
+  refreshKey: number;
+  onChanged: () => void;
+}) {
+  const { colors, spacing, radii } = useTheme();
+
+  const [seriesList, setSeriesList] = useState<RecurringSeries[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [occurrences, setOccurrences] = useState<RecurrenceOccurrence[]>([]);
+  const [scope, setScope] = useState<RecurrenceScope>('THIS');
+
+  const [title, setTitle] = useState('');
+  const [freq, setFreq] = useState<RecurrenceFrequency>('WEEKLY');
+  const [intervalText, setIntervalText] = useState('1');
+  const [weekdays, setWeekdays] = useState<number[]>([]);
+  const [startAt, setStartAt] = useState(defaultStart);
+  const [durationMinutes, setDurationMinutes] = useState<number | undefined>(60);
+  const [endMode, setEndMode] = useState<EndMode>('COUNT');
+  const [count, setCount] = useState('10');
+  const [until, setUntil] = useState('');
+
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const inputStyle = useMemo(
+    () => ({
+      borderWidth: 1,
+      borderColor: colors.fog,
+      borderRadius: radii.md,
+      paddingHorizontal: spacing.md,
+      paddingVertical: spacing.sm,
+      color: colors.ink,
+      backgroundColor: colors.white
+    }),
+    [colors, radii.md, spacing.md, spacing.sm]
+  );
+
+  const selected = seriesList.find((series) => series.id === selectedId) ?? null;
+
+  const load = useCallback(async () => {
+    if (!orgId) {
+      setSeriesList([]);
+      return;
+    }
+
+    try {
+      setSeriesList(await recurrence.listSeries(projectId, orgId));
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'Impossible de charger les séries.');
+    }
+  }, [orgId, projectId]);
+
+  const loadOccurrences = useCallback(async () => {
+    if (!selectedId) {
+      setOccurrences([]);
+      return;
+    }
+
+    try {
+      const now = new Date();
+      const rows = await recurrence.listOccurrences(selectedId, {
+        from: now.toISOString(),
+        to: new Date(now.getTime() + UPCOMING_DAYS * 24 * 60 * 60 * 1000).toISOString()
+      });
+      setOccurrences(rows.slice(0, MAX_UPCOMING));
+    } catch {
+      setOccurrences([]);
+    }
+  }, [selectedId]);
+
+  useEffect(() => {
+    void load();
+  }, [load, refreshKey]);
+
+  useEffect(() => {
+    void loadOccurrences();
+  }, [loadOccurrences, refreshKey]);
+
+  const run = async (action: () => Promise<unknown>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+      await load();
+      await loadOccurrences();
+      onChanged();
+    } catch (actionError) {
+      setError(actionError instanceof Error ? actionError.message : 'Action impossible.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const create = () =>
+    run(async () => {
+      if (!orgId || !userId) {
+        throw new Error('Session invalide: utilisateur ou organisation manquante.');
+      }
+
+      const created = await recurrence.create({
+        org_id: orgId,
+        project_id: projectId,
+        title,
+        dtstart: startAt,
+        duration_minutes: durationMinutes,
+        created_by: userId,
+        rule: {
+          freq,
+          interval: Number(intervalText) || 1,
+          by_weekday: freq === 'WEEKLY' && weekdays.length > 0 ? weekdays : undefined,
+          count: endMode === 'COUNT' ? Number(count) : undefined,
+          until: endMode === 'UNTIL' && until.trim() ? `${until.trim()}T23:59:59` : undefined
+        }
+      });
+      setTitle('');
+      setSelectedId(created.id);
+    });
+
+  /** Moves the occurrence (and, with FUTURE, the following ones) by one hour. */
+  const shiftOccurrence = (occurrence: RecurrenceOccurrence) =>
+    run(() =>
+      recurrence.updateOccurrence(
+        occurrence.series_id,
+        occurrence.occurrence_key,
+        { start_at: new Date(Date.parse(occurrence.start_at) + 60 * 60 * 1000).toISOString() },
+        scope
+      )
+    );
+
+  const deleteOccurrence = (occurrence: RecurrenceOccurrence) =>
+    run(() => recurrence.deleteOccurrence(occurrence.series_id, occurrence.occurrence_key, scope));
+
+  return (
+    <View style={{ marginTop: spacing.sm, gap: spacing.sm }}>
+      <Text variant="caption" style={{ color: colors.slate }}>
+        Les occurrences sont générées hors ligne sur {UPCOMING_DAYS} jours glissants (tâche, et créneau si une durée est
+        choisie).
+      </Text>
+
+      <TextInput
+        value={title}
+        onChangeText={setTitle}
+        placeholder="Titre (ex: Réunion de chantier)"
+        placeholderTextColor={colors.slate}
+        style={inputStyle}
+      />
+      <TextInput
+        value={startAt}
+        onChangeText={setStartAt}
+        placeholder="Première occurrence (ISO)"
+        placeholderTextColor={colors.slate}
+        style={inputStyle}
+      />
+
+      <View style={{ flexDirection: 'row', flexWrap: 'wrap', alignItems: 'center', gap: spacing.xs }}>
+        <Text variant="caption" style={{ color: colors.slate }}>
+          Intervalle
+        </Text>
+        <TextInput
+          value={intervalText}
+          onChangeText={setIntervalText}
+          keyboardType="number-pad"
+          style={[inputStyle, { minWidth: 48, textAlign: 'center' }]}
+        />
+        {FREQUENCIES.map((option) => (
+          <Button
+            key={option.value}
+            label={option.label}
+            kind={freq === option.value ? 'primary' : 'ghost'}
+            onPress={() => setFreq(option.value)}
+            disabled={busy}
+          />
+        ))}
+      </View>
+
+      {freq === 'WEEKLY' ? (
+        <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: spacing.xs }}>
+          {WEEKDAYS.map((option) => (
+            <Button
+              key={option.day}
+              label={option.label}
+              kind={weekdays.includes(option.day) ? 'primary' : 'ghost'}
+              onPress={() =>
+                setWeekdays((prev) =>
+                  prev.includes(option.day) ? prev.filter((day) => day !== option.day) : [...prev, option.day]
+                )
+              }
+              disabled={busy}
+            />
+          ))}
+        </View>
+      ) : null}
+
+      <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: spacing.xs }}>
+        {DURATIONS.map((option) => (
+          <Button
+            key={option.label}
+            label={option.label}
+            kind={durationMinutes === option.minutes ? 'primary' : 'ghost'}
+            onPress={() => setDurationMinutes(option.minutes)}
+            disabled={busy}
+          />
+        ))}
+      </View>
+
+      <View style={{ flexDirection: 'row', flexWrap: 'wrap', alignItems: 'center', gap: spacing.xs }}>
+        <Button label="Sans fin" kind={endMode === 'NONE' ? 'primary' : 'ghost'} onPress={() => setEndMode('NONE')} />
+        <Button label="Nombre" kind={endMode === 'COUNT' ? 'primary' : 'ghost'} onPress={() => setEndMode('COUNT')} />
+        <Button label="Jusqu'au" kind={endMode === 'UNTIL' ? 'primary' : 'ghost'} onPress={() => setEndMode('UNTIL')} />
+        {endMode === 'COUNT' ? (
+          <TextInput
+            value={count}
+            onChangeText={setCount}
+            keyboardType="number-pad"
+            style={[inputStyle, { minWidth: 56, textAlign: 'center' }]}
+          />
+        ) : null}
+        {endMode === 'UNTIL' ? (
+          <TextInput
+            value={until}
+            onChangeText={setUntil}
+            placeholder="AAAA-MM-JJ"
+            placeholderTextColor={colors.slate}
+            style={[inputStyle, { minWidth: 120 }]}
+          />
+        ) : null}
+      </View>
+
+      <Button
+        label={busy ? 'Enregistrement...' : 'Créer la série'}
+        onPress={() => void create()}
+        disabled={busy || title.trim().length < 2}
+      />
+
+      {seriesList.map((series) => (
+        <View
+          key={series.id}
+          style={{
+            borderWidth: 1,
+            borderColor: series.id === selectedId ? colors.teal : colors.fog,
+            borderRadius: radii.md,
+            padding: spacing.sm,
+            gap: spacing.xs
+          }}
+        >
+          <Text variant="bodyStrong" numberOfLines={1}>
+            {series.title}
+          </Text>
+          <Text variant="caption" style={{ color: colors.slate }}>
+            {describeRecurrence(series.rule)} · {formatOccurrence(series.dtstart)}
+            {series.duration_minutes ? ` · ${series.duration_minutes} min` : ''}
+            {series.exdates.length > 0 ? ` · ${series.exdates.length} exception(s)` : ''}
+          </Text>
+          <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: spacing.xs }}>
+            <Button
+              label={series.id === selectedId ? 'Masquer' : 'Occurrences'}
+              kind="ghost"
+              onPress={() => setSelectedId((current) => (current === series.id ? null : series.id))}
+              disabled={busy}
+            />
+            <Button
+              label="Supprimer la série"
+              kind="ghost"
+              onPress={() => void run(() => recurrence.deleteSeries(series.id))}
+              disabled={busy}
+            />
+          </View>
+        </View>
+      ))}
+
+      {selected ? (
+        <View style={{ gap: spacing.xs }}>
+          <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: spacing.xs }}>
+            <Button label="Cette occurrence" kind={scope === 'THIS' ? 'primary' : 'ghost'} onPress={() => setScope('THIS')} />
+            <Button
+              label="Toutes les suivantes"
+              kind={scope === 'FUTURE' ? 'primary' : 'ghost'}
+              onPress={() => setScope('FUTURE')}
+            />
+          </View>
+
+          {occurrences.length === 0 ? (
+            <Text variant="caption" style={{ color: colors.slate }}>
+              Aucune occurrence dans les {UPCOMING_DAYS} prochains jours.
+            </Text>
+          ) : null}
+
+          {occurrences.map((occurrence) => (
+            <View key={occurrence.occurrence_key} style={{ flexDirection: 'row', alignItems: 'center', gap: spacing.sm }}>
+              <Text variant="caption" style={{ flex: 1, color: occurrence.generated ? colors.ink : colors.slate }}>
+                {formatOccurrence(occurrence.start_at)}
+                {occurrence.overridden ? ' · modifiée' : ''}
+                {occurrence.generated ? '' : ' · à générer'}
+              </Text>
+              <Button
+                label="+1 h"
+                kind="ghost"
+                onPress={() => void shiftOccurrence(occurrence)}
+                disabled={busy || (scope === 'THIS' && !occurrence.generated)}
+              />
+              <Button label="Supprimer" kind="ghost" onPress={() => void deleteOccurrence(occurrence)} disabled={busy} />
+            </View>
+          ))}
+        </View>
+      ) : null}
+
+      {error ? (
+        <Text variant="caption" style={{ color: colors.rose }}>
+          {error}
+        </Text>
+      ) : null}
+    </View>
+  );
+}
@@ -1,7 +1,8 @@
 import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import { FlatList, Pressable, ScrollView, TextInput, View } from 'react-native';
 import { useAuth } from '../../core/auth';
-import { planning, PlanningItem } from '../../data/planning-engine';
+import { planning, PlanningItem, PlanningOverlapShift } from '../../data/planning-engine';
+import { recurrence } from '../../data/recurrence';
 import { Task, tasks } from '../../data/tasks';
 import { useSyncStatus } from '../../data/sync/useSyncStatus';
 import { Button } from '../../ui/components/Button';
@@ -10,11 +11,15 @@ import { Text } from '../../ui/components/Text';
 import { Screen } from '../../ui/layout/Screen';
 import { useTheme } from '../../ui/theme/ThemeProvider';
 import { SectionHeader } from '../common/SectionHeader';
+import { PlanningAutoSchedule } from './PlanningAutoSchedule';
+import { PlanningCalendarExchange } from './PlanningCalendarExchange';
+import { PlanningGantt } from './PlanningGantt';
+import { PlanningRecurrence } from './PlanningRecurrence';
 
 const DEMO_PROJECT_ID = 'chantier-conformeo-demo';
 const TASK_PAGE_SIZE = 25;
 
-type ViewMode = 'TODAY' | 'WEEK';
+type ViewMode = 'TODAY' | 'WEEK' | 'GANTT';
 
 function startOfDayIso(date: Date) {
   const d = new Date(date);
@@ -47,9 +52,17 @@ function roundToNextQuarterHour(date: Date) {
 }
 
 function labelForRange(mode: ViewMode) {
+  if (mode === 'GANTT') return 'Gantt';
   return mode === 'TODAY' ? "Aujourd'hui" : '7 jours';
 }
 
+function formatShift(minutes: number) {
+  const sign = minutes > 0 ? '+' : '−';
+  const abs = Math.abs(minutes);
+  if (abs < 60) return `${sign}${abs} min`;
+  return `${sign}${Math.floor(abs / 60)} h${abs % 60 ? String(abs % 60).padStart(2, '0') : ''}`;
+}
+
 function formatLocal(iso: string) {
   const ms = Date.parse(iso);
   if (!Number.isFinite(ms)) return iso;
@@ -64,6 +77,7 @@ export function PlanningScreen() {
   const [viewMode, setViewMode] = useState<ViewMode>('TODAY');
   const [planningItems, setPlanningItems] = useState<PlanningItem[]>([]);
   const [overlapWarnings, setOverlapWarnings] = useState<string[]>([]);
+  const [overlapShifts, setOverlapShifts] = useState<PlanningOverlapShift[]>([]);
 
   const [taskQuery, setTaskQuery] = useState('');
   const [taskPage, setTaskPage] = useState(0);
@@ -75,6 +89,7 @@ export function PlanningScreen() {
   const [assigneeUserId, setAssigneeUserId] = useState('');
   const [teamId, setTeamId] = useState('');
 
+  const [ganttRefreshKey, setGanttRefreshKey] = useState(0);
   const [loading, setLoading] = useState(false);
   const [submitting, setSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -97,6 +112,7 @@ export function PlanningScreen() {
     if (viewMode === 'TODAY') {
       return { start: startOfDayIso(now), end: endOfDayIso(now) };
     }
+    // The Gantt loads the whole project itself; overlaps stay on the coming week.
     return { start: startOfDayIso(now), end: endOfDayIso(addDays(now, 6)) };
   }, [viewMode]);
 
@@ -104,6 +120,7 @@ export function PlanningScreen() {
     if (!activeOrgId) {
       setPlanningItems([]);
       setOverlapWarnings([]);
+      setOverlapShifts([]);
       return;
     }
 
@@ -111,6 +128,9 @@ export function PlanningScreen() {
     setError(null);
 
     try {
+      // Per-series failures are reported in the result; they must not block the planning.
+      await recurrence.generateAhead(activeOrgId, { project_id: DEMO_PROJECT_ID });
+
       const rows = await planning.listByProject(DEMO_PROJECT_ID, {
         org_id: activeOrgId,
         start_from: range.start,
@@ -127,6 +147,7 @@ export function PlanningScreen() {
           return `${ov.resource_key} • ${ov.overlap_minutes} min • "${ov.first.title_snapshot}" ↔ "${ov.second.title_snapshot}"`;
         })
       );
+      setOverlapShifts(planning.suggestOverlapShifts(rows).slice(0, 6));
     } catch (planningError) {
       const message = planningError instanceof Error ? planningError.message : 'Impossible de charger le planning.';
       setError(message);
@@ -212,6 +233,7 @@ export function PlanningScreen() {
       setTeamId('');
       setStartAt('');
       setEndAt('');
+      setGanttRefreshKey((key) => key + 1);
       await refreshPlanning();
     } catch (createError) {
       const message = createError instanceof Error ? createError.message : 'Création planning impossible.';
@@ -227,6 +249,7 @@ export function PlanningScreen() {
       setError(null);
       try {
         await planning.softDelete(id);
+        setGanttRefreshKey((key) => key + 1);
         await refreshPlanning();
       } catch (deleteError) {
         const message = deleteError instanceof Error ? deleteError.message : 'Suppression impossible.';
@@ -238,6 +261,24 @@ export function PlanningScreen() {
     [refreshPlanning]
   );
 
+  const applyShift = useCallback(
+    async (shift: PlanningOverlapShift) => {
+      setSubmitting(true);
+      setError(null);
+      try {
+        await planning.applyOverlapShift(shift);
+        setGanttRefreshKey((key) => key + 1);
+        await refreshPlanning();
+      } catch (shiftError) {
+        const message = shiftError instanceof Error ? shiftError.message : 'Décalage impossible.';
+        setError(message);
+      } finally {
+        setSubmitting(false);
+      }
+    },
+    [refreshPlanning]
+  );
+
   const hasNextTasks = taskRows.length >= TASK_PAGE_SIZE;
 
   return (
@@ -249,14 +290,14 @@ export function PlanningScreen() {
       >
         <SectionHeader
           title="Planning"
-          subtitle="Calendrier par chantier, assignations, et alertes de chevauchement (MVP)."
+          subtitle="Calendrier par chantier, assignations, récurrences, dépendances, chemin critique et alertes de chevauchement."
         />
 
         <View style={{ gap: spacing.md }}>
           <Card>
             <Text variant="h2">Vue</Text>
             <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: spacing.sm, marginTop: spacing.sm }}>
-              {(['TODAY', 'WEEK'] as const).map((mode) => (
+              {(['TODAY', 'WEEK', 'GANTT'] as const).map((mode) => (
                 <Button
                   key={mode}
                   label={labelForRange(mode)}
@@ -265,7 +306,15 @@ export function PlanningScreen() {
                   disabled={submitting}
                 />
               ))}
-              <Button label="Rafraîchir" kind="ghost" onPress={() => void refreshPlanning()} disabled={submitting} />
+              <Button
+                label="Rafraîchir"
+                kind="ghost"
+                onPress={() => {
+                  setGanttRefreshKey((key) => key + 1);
+                  void refreshPlanning();
+                }}
+                disabled={submitting}
+              />
               <Text variant="caption" style={{ color: colors.slate, alignSelf: 'center' }}>
                 queue sync {syncStatus.queueDepth}
               </Text>
@@ -285,10 +334,69 @@ export function PlanningScreen() {
                     {line}
                   </Text>
                 ))}
+
+                {overlapShifts.length > 0 ? (
+                  <Text variant="caption" style={{ color: colors.slate, marginTop: spacing.sm }}>
+                    Décalages minimaux suggérés:
+                  </Text>
+                ) : null}
+                {overlapShifts.map((shift) => (
+                  <View
+                    key={`${shift.overlap.first.id}-${shift.overlap.second.id}`}
+                    style={{ flexDirection: 'row', alignItems: 'center', gap: spacing.sm, marginTop: spacing.xs }}
+                  >
+                    <Text variant="caption" style={{ flex: 1, color: colors.slate }} numberOfLines={2}>
+                      "{shift.item.title_snapshot}" {formatShift(shift.shift_minutes)} → {formatLocal(shift.start_at)}
+                    </Text>
+                    <Button label="Appliquer" kind="ghost" onPress={() => void applyShift(shift)} disabled={submitting} />
+                  </View>
+                ))}
               </View>
             ) : null}
           </Card>
 
+          <Card>
+            <Text variant="h2">Planification automatique</Text>
+            <PlanningAutoSchedule
+              orgId={activeOrgId ?? null}
+              userId={user?.id ?? null}
+              projectId={DEMO_PROJECT_ID}
+              refreshKey={ganttRefreshKey}
+              onAccepted={() => {
+                setGanttRefreshKey((key) => key + 1);
+                void refreshPlanning();
+              }}
+            />
+          </Card>
+
+          <Card>
+            <Text variant="h2">Récurrences</Text>
+            <PlanningRecurrence
+              orgId={activeOrgId ?? null}
+              userId={user?.id ?? null}
+              projectId={DEMO_PROJECT_ID}
+              refreshKey={ganttRefreshKey}
+              onChanged={() => {
+                setGanttRefreshKey((key) => key + 1);
+                void refreshPlanning();
+              }}
+            />
+          </Card>
+
+          <Card>
+            <Text variant="h2">Calendrier (.ics)</Text>
+            <PlanningCalendarExchange
+              orgId={activeOrgId ?? null}
+              userId={user?.id ?? null}
+              projectId={DEMO_PROJECT_ID}
+              onImported={() => {
+                setGanttRefreshKey((key) => key + 1);
+                void refreshPlanning();
+                void refreshTasks();
+              }}
+            />
+          </Card>
+
           <Card>
             <Text variant="h2">Planifier une tâche</Text>
 
@@ -412,37 +520,50 @@ export function PlanningScreen() {
             />
           </Card>
 
-          <Card>
-            <Text variant="h2">Planning ({loading ? 'chargement...' : `${planningItems.length}`})</Text>
+          {viewMode === 'GANTT' ? (
+            <Card>
+              <Text variant="h2">Gantt · chemin critique</Text>
+              <PlanningGantt
+                orgId={activeOrgId ?? null}
+                userId={user?.id ?? null}
+                projectId={DEMO_PROJECT_ID}
+                refreshKey={ganttRefreshKey}
+                onChanged={() => void refreshPlanning()}
+              />
+            </Card>
+          ) : (
+            <Card>
+              <Text variant="h2">Planning ({loading ? 'chargement...' : `${planningItems.length}`})</Text>
 
-            {planningItems.length === 0 ? (
-              <Text variant="caption" style={{ color: colors.slate, marginTop: spacing.sm }}>
-                Aucun item planifié sur la période.
-              </Text>
-            ) : (
-              planningItems.map((item) => (
-                <View key={item.id} style={{ marginTop: spacing.sm }}>
-                  <Text variant="bodyStrong" numberOfLines={1}>
-                    {item.title_snapshot}
-                  </Text>
-                  <Text variant="caption" style={{ color: colors.slate, marginTop: spacing.xs }}>
-                    {formatLocal(item.start_at)} → {formatLocal(item.end_at)}
-                  </Text>
-                  <Text variant="caption" style={{ color: colors.slate, marginTop: spacing.xs }}>
-                    {item.assignee_user_id ? `assignee ${item.assignee_user_id}` : item.team_id ? `team ${item.team_id}` : 'non assigné'}
-                  </Text>
-                  <View style={{ marginTop: spacing.xs }}>
-                    <Button
-                      label="Supprimer"
-                      kind="ghost"
-                      onPress={() => void deletePlanning(item.id)}
-                      disabled={submitting}
-                    />
+              {planningItems.length === 0 ? (
+                <Text variant="caption" style={{ color: colors.slate, marginTop: spacing.sm }}>
+                  Aucun item planifié sur la période.
+                </Text>
+              ) : (
+                planningItems.map((item) => (
+                  <View key={item.id} style={{ marginTop: spacing.sm }}>
+                    <Text variant="bodyStrong" numberOfLines={1}>
+                      {item.title_snapshot}
+                    </Text>
+                    <Text variant="caption" style={{ color: colors.slate, marginTop: spacing.xs }}>
+                      {formatLocal(item.start_at)} → {formatLocal(item.end_at)}
+                    </Text>
+                    <Text variant="caption" style={{ color: colors.slate, marginTop: spacing.xs }}>
+                      {item.assignee_user_id ? `assignee ${item.assignee_user_id}` : item.team_id ? `team ${item.team_id}` : 'non assigné'}
+                    </Text>
+                    <View style={{ marginTop: spacing.xs }}>
+                      <Button
+                        label="Supprimer"
+                        kind="ghost"
+                        onPress={() => void deletePlanning(item.id)}
+                        disabled={submitting}
+                      />
+                    </View>
                   </View>
-                </View>
-              ))
-            )}
-          </Card>
+                ))
+              )}
+            </Card>
+          )}
 
           {error ? (
             <Card>
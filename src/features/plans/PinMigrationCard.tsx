@@ -0,0 +1,97 @@
+import React from 'react';
+import { View } from 'react-native';
+import { PlanPendingMigration, PlanPinMigrationProposal, PlanVersionChange } from '../../data/plans-annotations';
+import { Button } from '../../ui/components/Button';
+import { Card } from '../../ui/components/Card';
+import { Text } from '../../ui/components/Text';
+import { useTheme } from '../../ui/theme/ThemeProvider';
+
+export type AlignStep = 'NONE' | 'FROM' | 'TO';
+
+export function versionChangeLabel(change: PlanVersionChange | undefined) {
+  if (change === 'CHANGED') return 'Zone modifiee';
+  if (change === 'PAGE_CHANGED') return 'Page modifiee';
+  if (change === 'UNKNOWN') return 'Zone non comparee';
+  return null;
+}
+
+export function PinMigrationCard({
+  pending,
+  proposal,
+  alignStep,
+  alignPointsCount,
+  aligned,
+  busy,
+  onPreview,
+  onStartAlign,
+  onClearAlign,
+  onMigrate
+}: {
+  pending: PlanPendingMigration;
+  proposal: PlanPinMigrationProposal | null;
+  alignStep: AlignStep;
+  alignPointsCount: number;
+  aligned: boolean;
+  busy: boolean;
+  onPreview: () => void;
+  onStartAlign: () => void;
+  onClearAlign: () => void;
+  onMigrate: () => void;
+}) {
+  const { colors, spacing } = useTheme();
+
+  const carried = proposal?.candidates.filter((candidate) => !candidate.out_of_bounds) ?? [];
+  const outside = (proposal?.candidates.length ?? 0) - carried.length;
+  const changed = carried.filter((candidate) => candidate.change === 'CHANGED' || candidate.change === 'PAGE_CHANGED').length;
+
+  return (
+    <Card>
+      <Text variant="h2">Report des points</Text>
+      <Text variant="caption" style={{ color: colors.slate, marginTop: spacing.xs }}>
+        {pending.pins_count} point(s) ouvert(s) sur v{pending.from_version.version_number}, non reportes sur v
+        {pending.to_version.version_number}.
+      </Text>
+
+      {alignStep !== 'NONE' ? (
+        <Text variant="caption" style={{ color: colors.tealDark, marginTop: spacing.sm }}>
+          {alignStep === 'FROM'
+            ? `Alignement: tapez 2 reperes sur l'ancienne version v${pending.from_version.version_number} (${alignPointsCount}/2).`
+            : `Alignement: tapez les 2 memes reperes sur v${pending.to_version.version_number} (${alignPointsCount}/2).`}
+        </Text>
+      ) : null}
+
+      {proposal ? (
+        <View style={{ marginTop: spacing.sm }}>
+          <Text variant="bodyStrong">
+            {carried.length} a reporter{aligned ? ' (aligne)' : ' (memes coordonnees)'}
+          </Text>
+          {outside > 0 ? (
+            <Text variant="caption" style={{ color: colors.amber }}>
+              {outside} hors du nouveau plan: laisses sur v{pending.from_version.version_number}.
+            </Text>
+          ) : null}
+          {changed > 0 ? (
+            <Text variant="caption" style={{ color: colors.rose }}>
+              {changed} dans une zone modifiee: a verifier apres report.
+            </Text>
+          ) : null}
+        </View>
+      ) : null}
+
+      <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: spacing.sm, marginTop: spacing.sm }}>
+        <Button label="Apercu" kind="ghost" onPress={onPreview} disabled={busy || alignStep !== 'NONE'} />
+        {alignStep === 'NONE' ? (
+          <Button label={aligned ? 'Realigner' : 'Aligner (2 reperes)'} kind="ghost" onPress={onStartAlign} disabled={busy} />
+        ) : null}
+        {aligned || alignStep !== 'NONE' ? (
+          <Button label="Sans alignement" kind="ghost" onPress={onClearAlign} disabled={busy} />
+        ) : null}
+        <Button
+          label={busy ? 'Report...' : 'Reporter'}
+          onPress={onMigrate}
+          disabled={busy || alignStep !== 'NONE' || (proposal !== null && carried.length === 0)}
+        />
+      </View>
+    </Card>
+  );
+}
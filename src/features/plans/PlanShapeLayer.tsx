@@ -0,0 +1,261 @@
+import React, { useMemo } from 'react';
+import { View } from 'react-native';
+import {
+  PLAN_ANNOTATION_KINDS,
+  PlanAnnotationKind,
+  PlanCalibration,
+  PlanPin,
+  PlanPinStatus,
+  PlanPoint,
+  plans
+} from '../../data/plans-annotations';
+import { Text } from '../../ui/components/Text';
+import { useTheme } from '../../ui/theme/ThemeProvider';
+
+export type PlanTool = PlanAnnotationKind | 'CALIBRATE';
+
+export type ShapeDraft = {
+  tool: PlanTool;
+  points: PlanPoint[];
+};
+
+type Segment = { key: string; x: number; y: number; length: number; angleDeg: number };
+
+const ARROW_HEAD_PX = 10;
+const CLOUD_BUMP_PX = 12;
+
+export function kindLabel(kind: PlanAnnotationKind) {
+  return PLAN_ANNOTATION_KINDS.find((rule) => rule.key === kind)?.label ?? kind;
+}
+
+export function isClosedKind(kind: PlanTool) {
+  if (kind === 'CALIBRATE') return false;
+  return PLAN_ANNOTATION_KINDS.find((rule) => rule.key === kind)?.closed ?? false;
+}
+
+export function shapeColor(status: PlanPinStatus, colors: { teal: string; mint: string; amber: string }) {
+  if (status === 'OPEN') return colors.teal;
+  if (status === 'DONE') return colors.mint;
+  return colors.amber;
+}
+
+function toPixels(points: PlanPoint[], width: number, height: number) {
+  return points.map((point) => ({ x: point.x * width, y: point.y * height }));
+}
+
+function buildSegments(points: PlanPoint[], closed: boolean, keyPrefix: string) {
+  const segments: Segment[] = [];
+  const count = closed && points.length > 2 ? points.length : points.length - 1;
+
+  for (let i = 0; i < count; i += 1) {
+    const left = points[i];
+    const right = points[(i + 1) % points.length];
+    const dx = right.x - left.x;
+    const dy = right.y - left.y;
+    const length = Math.sqrt(dx * dx + dy * dy);
+    if (length < 0.8) {
+      continue;
+    }
+
+    segments.push({
+      key: `${keyPrefix}-${i}`,
+      x: (left.x + right.x) / 2,
+      y: (left.y + right.y) / 2,
+      length,
+      angleDeg: (Math.atan2(dy, dx) * 180) / Math.PI
+    });
+  }
+
+  return segments;
+}
+
+function arrowHeadSegments(from: PlanPoint, to: PlanPoint, keyPrefix: string) {
+  const angle = Math.atan2(to.y - from.y, to.x - from.x);
+
+  return [Math.PI * 0.85, -Math.PI * 0.85].flatMap((delta, index) =>
+    buildSegments(
+      [
+        to,
+        {
+          x: to.x + Math.cos(angle + delta) * ARROW_HEAD_PX,
+          y: to.y + Math.sin(angle + delta) * ARROW_HEAD_PX
+        }
+      ],
+      false,
+      `${keyPrefix}-head${index}`
+    )
+  );
+}
+
+function cloudBumps(points: PlanPoint[], keyPrefix: string) {
+  const bumps: Array<{ key: string; x: number; y: number; radius: number }> = [];
+
+  points.forEach((from, index) => {
+    const to = points[(index + 1) % points.length];
+    const length = Math.hypot(to.x - from.x, to.y - from.y);
+    const count = Math.max(1, Math.round(length / (CLOUD_BUMP_PX * 2)));
+
+    for (let bump = 0; bump < count; bump += 1) {
+      bumps.push({
+        key: `${keyPrefix}-${index}-${bump}`,
+        x: from.x + ((to.x - from.x) * (bump + 0.5)) / count,
+        y: from.y + ((to.y - from.y) * (bump + 0.5)) / count,
+        radius: length / count / 2
+      });
+    }
+  });
+
+  return bumps;
+}
+
+/**
+ * Non-interactive drawing of shape annotations (and of the shape being drawn) over a plan page.
+ * Pins and shape anchors stay tappable: they are rendered by the viewer on top of this layer.
+ */
+export function PlanShapeLayer({
+  width,
+  height,
+  pins,
+  selectedPinId,
+  calibration,
+  draft
+}: {
+  width: number;
+  height: number;
+  pins: PlanPin[];
+  selectedPinId: string | null;
+  calibration: PlanCalibration | null;
+  draft: ShapeDraft | null;
+}) {
+  const { colors, radii } = useTheme();
+
+  const shapes = useMemo(() => {
+    if (width <= 0 || height <= 0) return [];
+
+    return pins
+      .filter((pin) => pin.kind !== 'PIN' && pin.points.length > 0)
+      .map((pin) => {
+        const pixels = toPixels(pin.points, width, height);
+        const segments =
+          pin.kind === 'TEXT' || pin.kind === 'CLOUD' ? [] : buildSegments(pixels, isClosedKind(pin.kind), pin.id);
+
+        if (pin.kind === 'ARROW' && pixels.length >= 2) {
+          segments.push(...arrowHeadSegments(pixels[0], pixels[1], pin.id));
+        }
+
+        const measure = plans.measure(pin, calibration);
+        const caption = pin.kind === 'TEXT' ? pin.label : measure?.label;
+
+        return {
+          pin,
+          segments,
+          bumps: pin.kind === 'CLOUD' ? cloudBumps(pixels, pin.id) : [],
+          caption,
+          captionAt: pin.kind === 'TEXT' ? pixels[0] : { x: pin.x * width, y: pin.y * height }
+        };
+      });
+  }, [calibration, height, pins, width]);
+
+  const draftPixels = useMemo(
+    () => (draft && width > 0 && height > 0 ? toPixels(draft.points, width, height) : []),
+    [draft, height, width]
+  );
+
+  const draftSegments = useMemo(
+    () => (draft ? buildSegments(draftPixels, isClosedKind(draft.tool), 'draft') : []),
+    [draft, draftPixels]
+  );
+
+  return (
+    <View pointerEvents="none" style={{ position: 'absolute', left: 0, top: 0, width, height }}>
+      {shapes.map((shape) => {
+        const color = shapeColor(shape.pin.status, colors);
+        const thickness = shape.pin.id === selectedPinId ? 4 : shape.pin.priority === 'HIGH' ? 3 : 2;
+
+        return (
+          <React.Fragment key={shape.pin.id}>
+            {shape.segments.map((seg) => (
+              <View
+                key={seg.key}
+                style={{
+                  position: 'absolute',
+                  left: seg.x - seg.length / 2,
+                  top: seg.y - thickness / 2,
+                  width: seg.length,
+                  height: thickness,
+                  backgroundColor: color,
+                  borderRadius: 2,
+                  transform: [{ rotate: `${seg.angleDeg}deg` }]
+                }}
+              />
+            ))}
+            {shape.bumps.map((bump) => (
+              <View
+                key={bump.key}
+                style={{
+                  position: 'absolute',
+                  left: bump.x - bump.radius,
+                  top: bump.y - bump.radius,
+                  width: bump.radius * 2,
+                  height: bump.radius * 2,
+                  borderRadius: 999,
+                  borderWidth: thickness,
+                  borderColor: color
+                }}
+              />
+            ))}
+            {shape.caption ? (
+              <View
+                style={{
+                  position: 'absolute',
+                  left: shape.captionAt.x + 8,
+                  top: shape.captionAt.y - 10,
+                  paddingHorizontal: 4,
+                  borderRadius: radii.sm,
+                  borderWidth: 1,
+                  borderColor: color,
+                  backgroundColor: colors.white
+                }}
+              >
+                <Text variant="caption" style={{ color: colors.ink, fontSize: 11 }}>
+                  {shape.caption}
+                </Text>
+              </View>
+            ) : null}
+          </React.Fragment>
+        );
+      })}
+
+      {draftSegments.map((seg) => (
+        <View
+          key={seg.key}
+          style={{
+            position: 'absolute',
+            left: seg.x - seg.length / 2,
+            top: seg.y - 1,
+            width: seg.length,
+            height: 2,
+            backgroundColor: draft?.tool === 'CALIBRATE' ? colors.rose : colors.ink,
+            transform: [{ rotate: `${seg.angleDeg}deg` }]
+          }}
+        />
+      ))}
+      {draft && draft.tool !== 'FREEHAND'
+        ? draftPixels.map((point, index) => (
+            <View
+              key={`draft-point-${index}`}
+              style={{
+                position: 'absolute',
+                left: point.x - 4,
+                top: point.y - 4,
+                width: 8,
+                height: 8,
+                borderRadius: 999,
+                backgroundColor: draft.tool === 'CALIBRATE' ? colors.rose : colors.ink
+              }}
+            />
+          ))
+        : null}
+    </View>
+  );
+}
@@ -4,6 +4,7 @@ import {
   FlatList,
   Image,
   Modal,
+  PanResponder,
   Pressable,
   ScrollView,
   TextInput,
@@ -17,12 +18,20 @@ import { useAuth } from '../../core/auth';
 import { Document, DocumentVersion, documents } from '../../data/documents';
 import { MediaAsset, media } from '../../data/media';
 import {
+  PLAN_ANNOTATION_KINDS,
   PinLinkCounts,
+  PlanAnnotationKind,
+  PlanAlignment,
+  PlanCalibration,
+  PlanPendingMigration,
   PlanPin,
+  PlanPinHistoryEntry,
   PlanPinLink,
   PlanPinLinkEntity,
+  PlanPinMigrationProposal,
   PlanPinPriority,
   PlanPinStatus,
+  PlanPoint,
   plans
 } from '../../data/plans-annotations';
 import { tasks } from '../../data/tasks';
@@ -33,6 +42,8 @@ import { Text } from '../../ui/components/Text';
 import { Screen } from '../../ui/layout/Screen';
 import { useTheme } from '../../ui/theme/ThemeProvider';
 import { SectionHeader } from '../common/SectionHeader';
+import { AlignStep, PinMigrationCard, versionChangeLabel } from './PinMigrationCard';
+import { PlanShapeLayer, PlanTool, ShapeDraft, kindLabel } from './PlanShapeLayer';
 
 const DEMO_PROJECT_ID = 'chantier-conformeo-demo';
 
@@ -50,6 +61,18 @@ const PRIORITY_FILTERS: Array<{ key: PlanPinPriority | 'ALL'; label: string }> =
   { key: 'LOW', label: 'Basse' }
 ];
 
+const KIND_FILTERS: Array<{ key: 'ALL' | 'PIN' | 'SHAPES' | 'MEASURES'; label: string; kinds?: PlanAnnotationKind[] }> = [
+  { key: 'ALL', label: 'Tous' },
+  { key: 'PIN', label: 'Pins', kinds: ['PIN'] },
+  { key: 'SHAPES', label: 'Formes', kinds: ['AREA', 'CLOUD', 'POLYLINE', 'ARROW', 'FREEHAND', 'TEXT'] },
+  { key: 'MEASURES', label: 'Mesures', kinds: ['DISTANCE', 'SURFACE'] }
+];
+
+const TOOLS: Array<{ key: PlanTool; label: string }> = [
+  ...PLAN_ANNOTATION_KINDS.map((rule) => ({ key: rule.key as PlanTool, label: rule.label })),
+  { key: 'CALIBRATE', label: 'Etalonner' }
+];
+
 type TaskLinkFilter = 'ALL' | 'WITH_TASK' | 'WITHOUT_TASK';
 
 type ResolvedLink = {
@@ -90,6 +113,11 @@ function statusDotColor(status: PlanPinStatus, colors: { teal: string; mint: str
   return colors.amber;
 }
 
+function parseLength(value: string) {
+  const parsed = Number(value.trim().replace(',', '.'));
+  return Number.isFinite(parsed) ? parsed : NaN;
+}
+
 function priorityLabel(priority: PlanPinPriority) {
   if (priority === 'HIGH') return 'Haute';
   if (priority === 'MEDIUM') return 'Moyenne';
@@ -101,19 +129,34 @@ type PlanViewerProps = {
   pins: PlanPin[];
   selectedPinId: string | null;
   addMode: boolean;
+  calibration: PlanCalibration | null;
+  draft: ShapeDraft | null;
   onSelectPin: (pin: PlanPin) => void;
-  onCreatePin: (x: number, y: number) => void;
+  onTapPlan: (x: number, y: number) => void;
+  onStroke: (points: PlanPoint[]) => void;
   onOpenPdf: (asset: MediaAsset) => void;
 };
 
+function toNormalizedPoint(locationX: number, locationY: number, size: { width: number; height: number }) {
+  if (size.width <= 0 || size.height <= 0) return null;
+
+  const x = locationX / size.width;
+  const y = locationY / size.height;
+  if (x < 0 || x > 1 || y < 0 || y > 1) return null;
+
+  return { x: Number(x.toFixed(6)), y: Number(y.toFixed(6)) };
+}
+
 const PlanViewer = React.forwardRef<ViewerHandle, PlanViewerProps>(function PlanViewerInner(
-  { asset, pins, selectedPinId, addMode, onSelectPin, onCreatePin, onOpenPdf },
+  { asset, pins, selectedPinId, addMode, calibration, draft, onSelectPin, onTapPlan, onStroke, onOpenPdf },
   ref
 ) {
   const { colors, spacing, radii } = useTheme();
   const scrollRef = useRef<ScrollView | null>(null);
   const zoomScaleRef = useRef(1);
   const viewportRef = useRef({ width: 0, height: 0 });
+  const strokeRef = useRef<PlanPoint[]>([]);
+  const [stroke, setStroke] = useState<PlanPoint[]>([]);
 
   const naturalSize = useMemo(() => {
     if (!asset) return null;
@@ -125,6 +168,7 @@ const PlanViewer = React.forwardRef<ViewerHandle, PlanViewerProps>(function Plan
   }, [asset]);
 
   const [viewport, setViewport] = useState({ width: 0, height: 0 });
+  const [pdfBox, setPdfBox] = useState({ width: 0, height: 0 });
 
   useEffect(() => {
     viewportRef.current = viewport;
@@ -146,6 +190,9 @@ const PlanViewer = React.forwardRef<ViewerHandle, PlanViewerProps>(function Plan
     };
   }, [naturalSize, viewport.height, viewport.width]);
 
+  const canvas = asset && isImage(asset) ? fit : pdfBox;
+  const strokeMode = addMode && draft?.tool === 'FREEHAND';
+
   const onScroll = useCallback((event: NativeSyntheticEvent<NativeScrollEvent>) => {
     const zoomScale = (event.nativeEvent as unknown as { zoomScale?: number }).zoomScale;
     if (typeof zoomScale === 'number' && Number.isFinite(zoomScale)) {
@@ -179,23 +226,63 @@ const PlanViewer = React.forwardRef<ViewerHandle, PlanViewerProps>(function Plan
 
   const onTap = useCallback(
     (event: GestureResponderEvent) => {
-      if (!addMode) return;
-      if (fit.width <= 0 || fit.height <= 0) return;
+      if (!addMode || strokeMode) return;
 
-      const x = event.nativeEvent.locationX / fit.width;
-      const y = event.nativeEvent.locationY / fit.height;
-      if (x < 0 || x > 1 || y < 0 || y > 1) return;
+      const point = toNormalizedPoint(event.nativeEvent.locationX, event.nativeEvent.locationY, canvas);
+      if (!point) return;
 
-      onCreatePin(Number(x.toFixed(6)), Number(y.toFixed(6)));
+      onTapPlan(point.x, point.y);
     },
-    [addMode, fit.height, fit.width, onCreatePin]
+    [addMode, canvas, onTapPlan, strokeMode]
   );
 
+  const strokeResponder = useMemo(
+    () =>
+      PanResponder.create({
+        onStartShouldSetPanResponder: () => strokeMode,
+        onMoveShouldSetPanResponder: () => strokeMode,
+        onPanResponderGrant: (event) => {
+          const point = toNormalizedPoint(event.nativeEvent.locationX, event.nativeEvent.locationY, canvas);
+          strokeRef.current = point ? [point] : [];
+          setStroke(strokeRef.current);
+        },
+        onPanResponderMove: (event) => {
+          const point = toNormalizedPoint(event.nativeEvent.locationX, event.nativeEvent.locationY, canvas);
+          const last = strokeRef.current[strokeRef.current.length - 1];
+          if (!point) return;
+
+          if (last && Math.hypot((point.x - last.x) * canvas.width, (point.y - last.y) * canvas.height) < 3) {
+            return;
+          }
+
+          strokeRef.current = [...strokeRef.current, point];
+          setStroke(strokeRef.current);
+        },
+        onPanResponderRelease: () => {
+          const points = strokeRef.current;
+          strokeRef.current = [];
+          setStroke([]);
+
+          if (points.length >= 2) {
+            onStroke(points);
+          }
+        }
+      }),
+    [canvas, onStroke, strokeMode]
+  );
+
+  const layerDraft = useMemo<ShapeDraft | null>(() => {
+    if (strokeMode) return { tool: 'FREEHAND', points: stroke };
+    return draft;
+  }, [draft, stroke, strokeMode]);
+
   const renderPin = useCallback(
     (pin: PlanPin) => {
       const isSelected = pin.id === selectedPinId;
-      const left = pin.x * fit.width;
-      const top = pin.y * fit.height;
+      const isShape = pin.kind !== 'PIN';
+      const size = isShape ? (isSelected ? 16 : 12) : isSelected ? 22 : 18;
+      const left = pin.x * canvas.width;
+      const top = pin.y * canvas.height;
       return (
         <Pressable
           key={pin.id}
@@ -204,11 +291,11 @@ const PlanViewer = React.forwardRef<ViewerHandle, PlanViewerProps>(function Plan
             position: 'absolute',
             left,
             top,
-            width: isSelected ? 22 : 18,
-            height: isSelected ? 22 : 18,
+            width: size,
+            height: size,
             borderRadius: 999,
-            marginLeft: isSelected ? -11 : -9,
-            marginTop: isSelected ? -11 : -9,
+            marginLeft: -size / 2,
+            marginTop: -size / 2,
             borderWidth: 2,
             borderColor: colors.white,
             backgroundColor: statusDotColor(pin.status, {
@@ -220,13 +307,45 @@ const PlanViewer = React.forwardRef<ViewerHandle, PlanViewerProps>(function Plan
             justifyContent: 'center'
           }}
         >
-          <Text variant="caption" style={{ color: colors.ink, fontSize: 10 }}>
-            {pin.page_number}
-          </Text>
+          {isShape ? null : (
+            <Text variant="caption" style={{ color: colors.ink, fontSize: 10 }}>
+              {pin.page_number}
+            </Text>
+          )}
         </Pressable>
       );
     },
-    [colors.amber, colors.ink, colors.mint, colors.teal, colors.white, fit.height, fit.width, onSelectPin, selectedPinId]
+    [
+      canvas.height,
+      canvas.width,
+      colors.amber,
+      colors.ink,
+      colors.mint,
+      colors.teal,
+      colors.white,
+      onSelectPin,
+      selectedPinId
+    ]
+  );
+
+  const overlay = (
+    <>
+      <PlanShapeLayer
+        width={canvas.width}
+        height={canvas.height}
+        pins={pins}
+        selectedPinId={selectedPinId}
+        calibration={calibration}
+        draft={layerDraft}
+      />
+      {pins.map(renderPin)}
+      {strokeMode ? (
+        <View
+          {...strokeResponder.panHandlers}
+          style={{ position: 'absolute', left: 0, top: 0, width: canvas.width, height: canvas.height }}
+        />
+      ) : null}
+    </>
   );
 
   const view = (
@@ -261,6 +380,7 @@ const PlanViewer = React.forwardRef<ViewerHandle, PlanViewerProps>(function Plan
             minimumZoomScale={1}
             maximumZoomScale={4}
             bouncesZoom
+            scrollEnabled={!strokeMode}
             onScroll={onScroll}
             scrollEventThrottle={16}
             showsHorizontalScrollIndicator={false}
@@ -276,11 +396,11 @@ const PlanViewer = React.forwardRef<ViewerHandle, PlanViewerProps>(function Plan
               }}
             >
               <Image source={{ uri: asset.local_path }} style={{ width: fit.width, height: fit.height }} resizeMode="stretch" />
-              {pins.map(renderPin)}
+              {overlay}
             </Pressable>
           </ScrollView>
         ) : (
-          <Pressable onPress={onTap} style={{ flex: 1, padding: spacing.lg, justifyContent: 'center' }}>
+          <View style={{ flex: 1, padding: spacing.lg, justifyContent: 'center' }}>
             <Text variant="bodyStrong" style={{ textAlign: 'center' }}>
               Apercu PDF non disponible dans ce build.
             </Text>
@@ -291,42 +411,18 @@ const PlanViewer = React.forwardRef<ViewerHandle, PlanViewerProps>(function Plan
               <Button label="Ouvrir le PDF" kind="ghost" onPress={() => onOpenPdf(asset)} />
             </View>
             <View style={{ marginTop: spacing.lg, flex: 1 }}>
-              <View style={{ flex: 1, minHeight: 220, borderRadius: radii.md, backgroundColor: colors.fog, position: 'relative' }}>
-                {pins.map((pin) => {
-                  const isSelected = pin.id === selectedPinId;
-                  return (
-                    <Pressable
-                      key={pin.id}
-                      onPress={() => onSelectPin(pin)}
-                      style={{
-                        position: 'absolute',
-                        left: `${pin.x * 100}%`,
-                        top: `${pin.y * 100}%`,
-                        width: isSelected ? 22 : 18,
-                        height: isSelected ? 22 : 18,
-                        borderRadius: 999,
-                        marginLeft: isSelected ? -11 : -9,
-                        marginTop: isSelected ? -11 : -9,
-                        borderWidth: 2,
-                        borderColor: colors.white,
-                        backgroundColor: statusDotColor(pin.status, {
-                          teal: colors.teal,
-                          mint: colors.mint,
-                          amber: colors.amber
-                        }),
-                        alignItems: 'center',
-                        justifyContent: 'center'
-                      }}
-                    >
-                      <Text variant="caption" style={{ color: colors.ink, fontSize: 10 }}>
-                        {pin.page_number}
-                      </Text>
-                    </Pressable>
-                  );
-                })}
-              </View>
+              <Pressable
+                onPress={onTap}
+                onLayout={(event) => {
+                  const { width, height } = event.nativeEvent.layout;
+                  setPdfBox({ width, height });
+                }}
+                style={{ flex: 1, minHeight: 220, borderRadius: radii.md, backgroundColor: colors.fog, position: 'relative' }}
+              >
+                {overlay}
+              </Pressable>
             </View>
-          </Pressable>
+          </View>
         )
       ) : (
         <View style={{ flex: 1, alignItems: 'center', justifyContent: 'center', padding: spacing.lg }}>
@@ -347,6 +443,8 @@ const PlanViewer = React.forwardRef<ViewerHandle, PlanViewerProps>(function Plan
 function PinDetailPanel({
   pin,
   links,
+  history,
+  measureLabel,
   busy,
   onClose,
   onUpdate,
@@ -354,10 +452,13 @@ function PinDetailPanel({
   onCreateLinkedTask,
   onAddProof,
   onLink,
-  onUnlink
+  onUnlink,
+  onAcknowledgeChange
 }: {
   pin: PlanPin | null;
   links: ResolvedLink[];
+  history: PlanPinHistoryEntry[];
+  measureLabel?: string;
   busy: boolean;
   onClose?: () => void;
   onUpdate: (patch: { label?: string; status?: PlanPinStatus; priority?: PlanPinPriority; comment?: string }) => void;
@@ -366,6 +467,7 @@ function PinDetailPanel({
   onAddProof: (source: 'capture' | 'import') => void;
   onLink: (entity: PlanPinLinkEntity, entityId: string) => void;
   onUnlink: (entity: PlanPinLinkEntity, entityId: string) => void;
+  onAcknowledgeChange: () => void;
 }) {
   const { colors, spacing, radii } = useTheme();
   const [labelDraft, setLabelDraft] = useState('');
@@ -402,8 +504,25 @@ function PinDetailPanel({
               {pin.label || `Point ${pin.id.slice(0, 6)}`}
             </Text>
             <Text variant="caption" style={{ color: colors.slate, marginTop: spacing.xs }}>
-              Page {pin.page_number} · {pin.status} · Priorite {priorityLabel(pin.priority)}
+              {kindLabel(pin.kind)} · Page {pin.page_number} · {pin.status} · Priorite {priorityLabel(pin.priority)}
             </Text>
+            {measureLabel ? (
+              <Text variant="bodyStrong" style={{ color: colors.tealDark, marginTop: spacing.xs }}>
+                {measureLabel}
+              </Text>
+            ) : pin.kind === 'DISTANCE' || pin.kind === 'SURFACE' ? (
+              <Text variant="caption" style={{ color: colors.amber, marginTop: spacing.xs }}>
+                Page non etalonnee: mesure indisponible.
+              </Text>
+            ) : null}
+            {versionChangeLabel(pin.version_change) ? (
+              <View style={{ flexDirection: 'row', alignItems: 'center', gap: spacing.sm, marginTop: spacing.xs }}>
+                <Text variant="caption" style={{ color: pin.version_change === 'UNKNOWN' ? colors.slate : colors.rose }}>
+                  {versionChangeLabel(pin.version_change)} depuis la version precedente
+                </Text>
+                <Button label="Vu" kind="ghost" onPress={onAcknowledgeChange} disabled={busy} />
+              </View>
+            ) : null}
           </View>
           {onClose ? <Button label="Fermer" kind="ghost" onPress={onClose} /> : null}
         </View>
@@ -536,6 +655,25 @@ function PinDetailPanel({
           </View>
         )}
 
+        {history.length > 0 ? (
+          <>
+            <Text variant="h2" style={{ marginTop: spacing.lg }}>
+              Historique des versions
+            </Text>
+            <View style={{ gap: spacing.xs, marginTop: spacing.sm }}>
+              {history.map((entry) => (
+                <Text key={entry.id} variant="caption" style={{ color: colors.slate }}>
+                  {new Date(entry.migrated_at).toLocaleDateString('fr-FR')} · v{entry.from_version_number} p.{entry.from_page} (
+                  {Math.round(entry.from_x * 100)}%, {Math.round(entry.from_y * 100)}%) → v{entry.to_version_number} p.
+                  {entry.to_page} ({Math.round(entry.to_x * 100)}%, {Math.round(entry.to_y * 100)}%)
+                  {entry.aligned ? ' · aligne' : ''}
+                  {versionChangeLabel(entry.change) ? ` · ${versionChangeLabel(entry.change)}` : ''}
+                </Text>
+              ))}
+            </View>
+          </>
+        ) : null}
+
         <Text variant="caption" style={{ color: colors.slate, marginTop: spacing.lg }}>
           Lien manuel (debug/MVP)
         </Text>
@@ -618,6 +756,21 @@ export function PlansScreen({ projectId }: { projectId?: string } = {}) {
   const [quickStatus, setQuickStatus] = useState<PlanPinStatus>('OPEN');
   const [quickPriority, setQuickPriority] = useState<PlanPinPriority>('MEDIUM');
 
+  const [tool, setTool] = useState<PlanTool>('PIN');
+  const [draftPoints, setDraftPoints] = useState<PlanPoint[]>([]);
+  const [calibrationLength, setCalibrationLength] = useState('');
+  const [calibrations, setCalibrations] = useState<PlanCalibration[]>([]);
+  const [filterKind, setFilterKind] = useState<(typeof KIND_FILTERS)[number]['key']>('ALL');
+
+  const [selectedPinHistory, setSelectedPinHistory] = useState<PlanPinHistoryEntry[]>([]);
+  const [pendingMigration, setPendingMigration] = useState<PlanPendingMigration | null>(null);
+  const [migrationProposal, setMigrationProposal] = useState<PlanPinMigrationProposal | null>(null);
+  const [alignStep, setAlignStep] = useState<AlignStep>('NONE');
+  const [alignFrom, setAlignFrom] = useState<PlanPoint[]>([]);
+  const [alignTo, setAlignTo] = useState<PlanPoint[]>([]);
+  const [alignment, setAlignment] = useState<PlanAlignment | null>(null);
+  const [alignSourceAsset, setAlignSourceAsset] = useState<MediaAsset | null>(null);
+
   const [detailOpen, setDetailOpen] = useState(false);
 
   const [loading, setLoading] = useState(false);
@@ -646,6 +799,30 @@ export function PlansScreen({ projectId }: { projectId?: string } = {}) {
 
   const pagePins = useMemo(() => pins.filter((pin) => pin.page_number === currentPage), [currentPage, pins]);
 
+  const pageCalibration = useMemo(
+    () => calibrations.find((calibration) => calibration.page_number === currentPage) ?? null,
+    [calibrations, currentPage]
+  );
+
+  const calibrationByPage = useMemo(
+    () => new Map(calibrations.map((calibration) => [calibration.page_number, calibration])),
+    [calibrations]
+  );
+
+  const draft = useMemo<ShapeDraft | null>(
+    () => (addMode && tool !== 'PIN' ? { tool, points: draftPoints } : null),
+    [addMode, draftPoints, tool]
+  );
+
+  const selectedMeasure = useMemo(
+    () => (selectedPin ? plans.measure(selectedPin, calibrationByPage.get(selectedPin.page_number) ?? null) : null),
+    [calibrationByPage, selectedPin]
+  );
+
+  useEffect(() => {
+    setDraftPoints([]);
+  }, [addMode, currentPage, openResult?.version.id, tool]);
+
   const filteredPins = useMemo(() => {
     let list = pins;
     if (filterPriority !== 'ALL') {
@@ -777,16 +954,21 @@ export function PlansScreen({ projectId }: { projectId?: string } = {}) {
     if (!openResult) {
       setPins([]);
       setLinkCounts({});
+      setCalibrations([]);
+      setPendingMigration(null);
       return;
     }
 
     try {
       const nextPins = await plans.listPins(openResult.document.id, openResult.version.id, {
         status: filterStatus,
+        kinds: KIND_FILTERS.find((chip) => chip.key === filterKind)?.kinds,
         limit: 1000
       });
 
       setPins(nextPins);
+      setCalibrations(await plans.listCalibrations(openResult.document.id, openResult.version.id));
+      setPendingMigration(await plans.getPendingMigration(openResult.document.id, openResult.version.id));
 
       const counts = await plans.getLinkCounts(nextPins.map((pin) => pin.id));
       setLinkCounts(counts);
@@ -799,7 +981,7 @@ export function PlansScreen({ projectId }: { projectId?: string } = {}) {
       const message = pinsError instanceof Error ? pinsError.message : 'Chargement des pins impossible.';
       setError(message);
     }
-  }, [filterStatus, openResult, selectedPinId]);
+  }, [filterKind, filterStatus, openResult, selectedPinId]);
 
   useEffect(() => {
     void refreshPlans();
@@ -818,6 +1000,27 @@ export function PlansScreen({ projectId }: { projectId?: string } = {}) {
     void refreshLinks(selectedPinId);
   }, [refreshLinks, selectedPinId]);
 
+  useEffect(() => {
+    if (!selectedPinId) {
+      setSelectedPinHistory([]);
+      return;
+    }
+
+    plans
+      .listPinHistory(selectedPinId)
+      .then(setSelectedPinHistory)
+      .catch(() => setSelectedPinHistory([]));
+  }, [selectedPin?.updated_at, selectedPinId]);
+
+  useEffect(() => {
+    setMigrationProposal(null);
+    setAlignStep('NONE');
+    setAlignFrom([]);
+    setAlignTo([]);
+    setAlignment(null);
+    setAlignSourceAsset(null);
+  }, [openResult?.version.id, pendingMigration?.from_version.id]);
+
   useEffect(() => {
     if (pins.length === 0) return;
     const max = pins.reduce((value, pin) => Math.max(value, pin.page_number), 1);
@@ -888,6 +1091,280 @@ export function PlansScreen({ projectId }: { projectId?: string } = {}) {
     ]
   );
 
+  const createShape = useCallback(
+    async (points: PlanPoint[]) => {
+      if (!openResult || tool === 'PIN' || tool === 'CALIBRATE') {
+        return;
+      }
+
+      setBusy(true);
+      setError(null);
+
+      try {
+        const created = await plans.createShape(
+          {
+            documentId: openResult.document.id,
+            versionId: openResult.version.id,
+            page: currentPage,
+            kind: tool,
+            points,
+            projectId: openResult.document.project_id ?? effectiveProjectId
+          },
+          {
+            label: quickLabel,
+            status: quickStatus,
+            priority: quickPriority,
+            created_by: user?.id
+          }
+        );
+
+        setDraftPoints([]);
+        await refreshPins();
+        await selectPin(created);
+      } catch (createError) {
+        const message = createError instanceof Error ? createError.message : 'Creation de la forme impossible.';
+        setError(message);
+      } finally {
+        setBusy(false);
+      }
+    },
+    [
+      currentPage,
+      effectiveProjectId,
+      openResult,
+      quickLabel,
+      quickPriority,
+      quickStatus,
+      refreshPins,
+      selectPin,
+      tool,
+      user?.id
+    ]
+  );
+
+  const tapPlan = useCallback(
+    (x: number, y: number) => {
+      if (tool === 'PIN') {
+        void createPinAt(x, y);
+        return;
+      }
+
+      if (tool === 'CALIBRATE') {
+        setDraftPoints((current) => (current.length >= 2 ? [{ x, y }] : [...current, { x, y }]));
+        return;
+      }
+
+      const maxPoints = PLAN_ANNOTATION_KINDS.find((rule) => rule.key === tool)?.max_points;
+      const next = [...draftPoints, { x, y }];
+      if (maxPoints !== undefined && next.length >= maxPoints) {
+        void createShape(next);
+        return;
+      }
+
+      setDraftPoints(next);
+    },
+    [createPinAt, createShape, draftPoints, tool]
+  );
+
+  const saveCalibration = useCallback(async () => {
+    if (!openResult || draftPoints.length !== 2) return;
+
+    setBusy(true);
+    setError(null);
+
+    try {
+      await plans.setCalibration({
+        documentId: openResult.document.id,
+        versionId: openResult.version.id,
+        page: currentPage,
+        from: draftPoints[0],
+        to: draftPoints[1],
+        length_m: parseLength(calibrationLength),
+        projectId: openResult.document.project_id ?? effectiveProjectId
+      });
+
+      setDraftPoints([]);
+      setCalibrationLength('');
+      setTool('DISTANCE');
+      await refreshPins();
+    } catch (calibrationError) {
+      const message = calibrationError instanceof Error ? calibrationError.message : 'Etalonnage impossible.';
+      setError(message);
+    } finally {
+      setBusy(false);
+    }
+  }, [calibrationLength, currentPage, draftPoints, effectiveProjectId, openResult, refreshPins]);
+
+  const exportAnnotatedPdf = useCallback(async () => {
+    if (!openResult) return;
+
+    setBusy(true);
+    setError(null);
+
+    try {
+      const exported = await plans.exportAnnotatedPdf(openResult.document.id, openResult.version.id, {
+        status: filterStatus,
+        kinds: KIND_FILTERS.find((chip) => chip.key === filterKind)?.kinds
+      });
+
+      const available = await Sharing.isAvailableAsync();
+      if (!available) {
+        throw new Error('Partage iOS indisponible sur cet appareil.');
+      }
+      await Sharing.shareAsync(exported.uri, { mimeType: 'application/pdf' });
+    } catch (exportError) {
+      const message = exportError instanceof Error ? exportError.message : 'Export du plan annote impossible.';
+      setError(message);
+    } finally {
+      setBusy(false);
+    }
+  }, [filterKind, filterStatus, openResult]);
+
+  const previewMigration = useCallback(
+    async (nextAlignment: PlanAlignment | null) => {
+      if (!openResult || !pendingMigration) return;
+
+      setBusy(true);
+      setError(null);
+
+      try {
+        const proposal = await plans.proposeMigration(
+          openResult.document.id,
+          pendingMigration.from_version.id,
+          openResult.version.id,
+          { alignments: nextAlignment ? [nextAlignment] : [] }
+        );
+        setMigrationProposal(proposal);
+      } catch (previewError) {
+        const message = previewError instanceof Error ? previewError.message : 'Apercu du report impossible.';
+        setError(message);
+      } finally {
+        setBusy(false);
+      }
+    },
+    [openResult, pendingMigration]
+  );
+
+  const startAlignment = useCallback(async () => {
+    if (!pendingMigration) return;
+
+    try {
+      setAlignSourceAsset(await media.getById(pendingMigration.from_version.file_asset_id));
+      setAlignFrom([]);
+      setAlignTo([]);
+      setAddMode(false);
+      setAlignStep('FROM');
+    } catch (alignError) {
+      const message = alignError instanceof Error ? alignError.message : 'Ancienne version introuvable.';
+      setError(message);
+    }
+  }, [pendingMigration]);
+
+  const clearAlignment = useCallback(() => {
+    setAlignStep('NONE');
+    setAlignFrom([]);
+    setAlignTo([]);
+    setAlignment(null);
+    void previewMigration(null);
+  }, [previewMigration]);
+
+  const tapAlignment = useCallback(
+    (x: number, y: number) => {
+      if (alignStep === 'FROM') {
+        const next = [...alignFrom, { x, y }];
+        setAlignFrom(next);
+        if (next.length === 2) setAlignStep('TO');
+        return;
+      }
+
+      const next = [...alignTo, { x, y }];
+      setAlignTo(next);
+      if (next.length === 2 && alignFrom.length === 2) {
+        const nextAlignment: PlanAlignment = {
+          page: currentPage,
+          from: [alignFrom[0], alignFrom[1]],
+          to: [next[0], next[1]]
+        };
+        setAlignment(nextAlignment);
+        setAlignStep('NONE');
+        void previewMigration(nextAlignment);
+      }
+    },
+    [alignFrom, alignStep, alignTo, currentPage, previewMigration]
+  );
+
+  const migratePins = useCallback(async () => {
+    if (!openResult || !pendingMigration) return;
+
+    setBusy(true);
+    setError(null);
+
+    try {
+      const result = await plans.migratePins(
+        openResult.document.id,
+        pendingMigration.from_version.id,
+        openResult.version.id,
+        { alignments: alignment ? [alignment] : [] }
+      );
+
+      if (result.skipped.length > 0) {
+        setError(`${result.migrated.length} point(s) reporte(s), ${result.skipped.length} laisse(s) sur l'ancienne version.`);
+      }
+
+      setMigrationProposal(null);
+      await refreshPins();
+    } catch (migrateError) {
+      const message = migrateError instanceof Error ? migrateError.message : 'Report des points impossible.';
+      setError(message);
+    } finally {
+      setBusy(false);
+    }
+  }, [alignment, openResult, pendingMigration, refreshPins]);
+
+  const acknowledgeChange = useCallback(async () => {
+    if (!selectedPin) return;
+
+    setBusy(true);
+    setError(null);
+
+    try {
+      await plans.acknowledgeVersionChange(selectedPin.id);
+      await refreshPins();
+    } catch (ackError) {
+      const message = ackError instanceof Error ? ackError.message : 'Mise a jour du pin impossible.';
+      setError(message);
+    } finally {
+      setBusy(false);
+    }
+  }, [refreshPins, selectedPin]);
+
+  const viewerPins = useMemo(() => {
+    if (alignStep === 'FROM') {
+      return (migrationProposal?.candidates ?? [])
+        .map((candidate) => candidate.pin)
+        .filter((pin) => pin.page_number === currentPage);
+    }
+
+    if (alignStep === 'NONE' && migrationProposal) {
+      const previews = migrationProposal.candidates
+        .filter((candidate) => !candidate.out_of_bounds && candidate.target.page_number === currentPage)
+        .map((candidate) => ({
+          ...candidate.pin,
+          ...candidate.target,
+          status: 'INFO' as PlanPinStatus
+        }));
+      return [...pagePins, ...previews];
+    }
+
+    return pagePins;
+  }, [alignStep, currentPage, migrationProposal, pagePins]);
+
+  const alignDraft = useMemo<ShapeDraft | null>(() => {
+    if (alignStep === 'FROM') return { tool: 'DISTANCE', points: alignFrom };
+    if (alignStep === 'TO') return { tool: 'DISTANCE', points: alignTo };
+    return null;
+  }, [alignFrom, alignStep, alignTo]);
+
   const updateSelectedPin = useCallback(
     async (patch: { label?: string; status?: PlanPinStatus; priority?: PlanPinPriority; comment?: string }) => {
       if (!selectedPin) return;
@@ -1102,6 +1579,7 @@ export function PlansScreen({ projectId }: { projectId?: string } = {}) {
     ({ item }: { item: PlanPin }) => {
       const isSelected = item.id === selectedPinId;
       const counts = linkCounts[item.id] ?? { tasks: 0, media: 0, documents: 0 };
+      const measure = plans.measure(item, calibrationByPage.get(item.page_number) ?? null);
 
       return (
         <Pressable
@@ -1121,8 +1599,14 @@ export function PlansScreen({ projectId }: { projectId?: string } = {}) {
                 {item.label || `Point ${item.id.slice(0, 6)}`}
               </Text>
               <Text variant="caption" style={{ color: colors.slate, marginTop: spacing.xs }} numberOfLines={2}>
-                Page {item.page_number} · {item.status} · Priorite {priorityLabel(item.priority)}
+                {kindLabel(item.kind)} · Page {item.page_number} · {item.status} · Priorite {priorityLabel(item.priority)}
+                {measure ? ` · ${measure.label}` : ''}
               </Text>
+              {versionChangeLabel(item.version_change) ? (
+                <Text variant="caption" style={{ color: item.version_change === 'UNKNOWN' ? colors.slate : colors.rose }}>
+                  {versionChangeLabel(item.version_change)}
+                </Text>
+              ) : null}
               <Text variant="caption" style={{ color: colors.slate }} numberOfLines={1}>
                 T:{counts.tasks} · P:{counts.media} · D:{counts.documents}
               </Text>
@@ -1144,9 +1628,11 @@ export function PlansScreen({ projectId }: { projectId?: string } = {}) {
       );
     },
     [
+      calibrationByPage,
       colors.amber,
       colors.fog,
       colors.mint,
+      colors.rose,
       colors.slate,
       colors.teal,
       colors.white,
@@ -1286,6 +1772,21 @@ export function PlansScreen({ projectId }: { projectId?: string } = {}) {
               ))}
             </View>
 
+            <Text variant="caption" style={{ color: colors.slate, marginTop: spacing.md }}>
+              Type
+            </Text>
+            <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: spacing.xs, marginTop: spacing.xs }}>
+              {KIND_FILTERS.map((chip) => (
+                <Button
+                  key={chip.key}
+                  label={chip.label}
+                  kind={filterKind === chip.key ? 'primary' : 'ghost'}
+                  onPress={() => setFilterKind(chip.key)}
+                  disabled={busy}
+                />
+              ))}
+            </View>
+
             <Text variant="caption" style={{ color: colors.slate, marginTop: spacing.md }}>
               Priorite
             </Text>
@@ -1369,8 +1870,77 @@ export function PlansScreen({ projectId }: { projectId?: string } = {}) {
           disabled={busy || !openResult}
         />
         <Button label="Rafraichir" kind="ghost" onPress={() => void refreshPins()} disabled={busy || !openResult} />
+        <Button
+          label="Exporter PDF annote"
+          kind="ghost"
+          onPress={() => void exportAnnotatedPdf()}
+          disabled={busy || !openResult}
+        />
+      </View>
+
+      <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: spacing.xs, marginTop: spacing.sm }}>
+        {TOOLS.map((entry) => (
+          <Button
+            key={entry.key}
+            label={entry.label}
+            kind={tool === entry.key ? 'primary' : 'ghost'}
+            onPress={() => {
+              setTool(entry.key);
+              setAddMode(true);
+            }}
+            disabled={busy || !openResult}
+          />
+        ))}
       </View>
 
+      {addMode && tool !== 'PIN' ? (
+        <View style={{ flexDirection: 'row', flexWrap: 'wrap', alignItems: 'center', gap: spacing.sm, marginTop: spacing.sm }}>
+          <Text variant="caption" style={{ color: colors.slate }}>
+            {tool === 'FREEHAND'
+              ? 'Dessinez au doigt sur le plan.'
+              : tool === 'CALIBRATE'
+                ? `Etalonnage p.${currentPage}: ${draftPoints.length}/2 point(s) de reference.`
+                : `${draftPoints.length} point(s) poses.`}
+          </Text>
+
+          {tool === 'CALIBRATE' ? (
+            <>
+              <TextInput
+                value={calibrationLength}
+                onChangeText={setCalibrationLength}
+                keyboardType="decimal-pad"
+                placeholder="Longueur reelle (m)"
+                placeholderTextColor={colors.slate}
+                style={{
+                  width: 160,
+                  borderWidth: 1,
+                  borderColor: colors.fog,
+                  borderRadius: radii.md,
+                  paddingVertical: spacing.sm,
+                  paddingHorizontal: spacing.md,
+                  backgroundColor: colors.white
+                }}
+              />
+              <Button
+                label="Valider etalonnage"
+                onPress={() => void saveCalibration()}
+                disabled={busy || draftPoints.length !== 2 || calibrationLength.trim().length === 0}
+              />
+            </>
+          ) : tool !== 'FREEHAND' ? (
+            <Button label="Terminer" onPress={() => void createShape(draftPoints)} disabled={busy || draftPoints.length === 0} />
+          ) : null}
+
+          <Button label="Annuler" kind="ghost" onPress={() => setDraftPoints([])} disabled={busy || draftPoints.length === 0} />
+        </View>
+      ) : null}
+
+      <Text variant="caption" style={{ color: pageCalibration ? colors.slate : colors.amber, marginTop: spacing.sm }}>
+        {pageCalibration
+          ? `Echelle p.${currentPage}: ${pageCalibration.length_m.toLocaleString('fr-FR')} m de reference.`
+          : `Page ${currentPage} non etalonnee: distances et surfaces non mesurees.`}
+      </Text>
+
       <TextInput
         value={quickLabel}
         onChangeText={setQuickLabel}
@@ -1410,15 +1980,33 @@ export function PlansScreen({ projectId }: { projectId?: string } = {}) {
     <View style={{ flex: 1, minHeight: 0, gap: spacing.md, position: 'relative' }}>
       {viewerToolbar}
 
+      {pendingMigration ? (
+        <PinMigrationCard
+          pending={pendingMigration}
+          proposal={migrationProposal}
+          alignStep={alignStep}
+          alignPointsCount={alignStep === 'FROM' ? alignFrom.length : alignTo.length}
+          aligned={alignment !== null}
+          busy={busy}
+          onPreview={() => void previewMigration(alignment)}
+          onStartAlign={() => void startAlignment()}
+          onClearAlign={clearAlignment}
+          onMigrate={() => void migratePins()}
+        />
+      ) : null}
+
       <View style={{ flex: 1, minHeight: 0 }}>
         <PlanViewer
           ref={viewerRef}
-          asset={activeAsset}
-          pins={pagePins}
+          asset={alignStep === 'FROM' ? alignSourceAsset : activeAsset}
+          pins={viewerPins}
           selectedPinId={selectedPinId}
-          addMode={addMode}
+          addMode={addMode || alignStep !== 'NONE'}
+          calibration={alignStep === 'FROM' ? null : pageCalibration}
+          draft={alignDraft ?? draft}
           onSelectPin={selectPin}
-          onCreatePin={createPinAt}
+          onTapPlan={alignStep === 'NONE' ? tapPlan : tapAlignment}
+          onStroke={(points) => void createShape(points)}
           onOpenPdf={openPdf}
         />
       </View>
@@ -1429,6 +2017,8 @@ export function PlansScreen({ projectId }: { projectId?: string } = {}) {
             <PinDetailPanel
               pin={selectedPin}
               links={selectedPinLinks}
+              history={selectedPinHistory}
+              measureLabel={selectedMeasure?.label}
               busy={busy}
               onClose={() => setDetailOpen(false)}
               onUpdate={updateSelectedPin}
@@ -1437,6 +2027,7 @@ export function PlansScreen({ projectId }: { projectId?: string } = {}) {
               onAddProof={(source) => void addProofToPin(source)}
               onLink={(entity, id) => void addManualLink(entity, id)}
               onUnlink={(entity, id) => void removeLink(entity, id)}
+              onAcknowledgeChange={() => void acknowledgeChange()}
             />
           </Screen>
         </Modal>
@@ -1445,6 +2036,8 @@ export function PlansScreen({ projectId }: { projectId?: string } = {}) {
           <PinDetailPanel
             pin={selectedPin}
             links={selectedPinLinks}
+            history={selectedPinHistory}
+            measureLabel={selectedMeasure?.label}
             busy={busy}
             onUpdate={updateSelectedPin}
             onDelete={() => void deleteSelectedPin()}
@@ -1452,6 +2045,7 @@ export function PlansScreen({ projectId }: { projectId?: string } = {}) {
             onAddProof={(source) => void addProofToPin(source)}
             onLink={(entity, id) => void addManualLink(entity, id)}
             onUnlink={(entity, id) => void removeLink(entity, id)}
+            onAcknowledgeChange={() => void acknowledgeChange()}
           />
         </View>
       )}
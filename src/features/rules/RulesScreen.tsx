@@ -0,0 +1,758 @@
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system/legacy';
+import * as Sharing from 'expo-sharing';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { ActivityIndicator, Pressable, ScrollView, TextInput, View } from 'react-native';
+import { useAuth } from '../../core/auth';
+import { rbac } from '../../core/identity-security';
+import { Project, projects } from '../../data/projects';
+import { RuleRecord, RuleRelation, RulesDryRunResult, rules } from '../../data/rules-engine';
+import { buildTaskRuleContext, tasks } from '../../data/tasks';
+import { Button } from '../../ui/components/Button';
+import { Card } from '../../ui/components/Card';
+import { Text } from '../../ui/components/Text';
+import { Screen } from '../../ui/layout/Screen';
+import { useTheme } from '../../ui/theme/ThemeProvider';
+import { SectionHeader } from '../common/SectionHeader';
+import {
+  ACTION_KINDS,
+  ActionDraft,
+  ActionKind,
+  ConditionDraft,
+  ConditionKind,
+  DATE_OPERATORS,
+  GROUP_KINDS,
+  LEAF_KINDS,
+  NUMBER_OPERATORS,
+  RELATIONS,
+  RuleDraft,
+  changeConditionKind,
+  createActionDraft,
+  createConditionDraft,
+  describeCondition,
+  draftToDefinition,
+  emptyRuleDraft,
+  removeConditionNode,
+  ruleToDraft,
+  updateConditionNode
+} from './ruleDraft';
+
+const RULES_PERMISSION = 'rules:write';
+const ENTITIES = ['TASK', 'PLAN_PIN', 'WASTE'];
+const DEFAULT_DRY_RUN_SIZE = 20;
+const MAX_DRY_RUN_SIZE = 200;
+
+const CONDITION_LABELS: Record<ConditionKind, string> = {
+  AND: 'ET',
+  OR: 'OU',
+  NOT: 'NON',
+  ALWAYS: 'Toujours',
+  KEYWORDS_ANY: 'Mots-clés',
+  FIELD_EQUALS: 'Champ =',
+  ARRAY_INCLUDES_ANY: 'Liste contient',
+  NUMBER_COMPARE: 'Nombre',
+  DATE_RELATIVE: 'Date relative',
+  EXISTS: 'Existe',
+  LINKED_COUNT: 'Nb liés'
+};
+
+const ACTION_LABELS: Record<ActionKind, string> = {
+  ADD_TAG: 'Tag',
+  SUGGEST: 'Suggestion',
+  ADD_REMINDER: 'Rappel',
+  SET_FIELD: 'Champ',
+  CREATE_TASK: 'Créer tâche',
+  LINK_DOCUMENT: 'Lier document',
+  REQUIRE_PROOF: 'Preuve requise',
+  NOTIFY_ROLE: 'Notifier rôle'
+};
+
+function toErrorMessage(error: unknown) {
+  if (error instanceof Error && error.message) {
+    return error.message;
+  }
+
+  return 'Erreur inconnue';
+}
+
+function Field({
+  value,
+  onChangeText,
+  placeholder,
+  multiline = false
+}: {
+  value: string;
+  onChangeText: (value: string) => void;
+  placeholder: string;
+  multiline?: boolean;
+}) {
+  const { colors, spacing, radii } = useTheme();
+
+  return (
+    <TextInput
+      value={value}
+      onChangeText={onChangeText}
+      placeholder={placeholder}
+      placeholderTextColor={colors.slate}
+      multiline={multiline}
+      textAlignVertical={multiline ? 'top' : 'center'}
+      autoCapitalize="none"
+      style={{
+        borderWidth: 1,
+        borderColor: colors.fog,
+        borderRadius: radii.md,
+        paddingHorizontal: spacing.md,
+        paddingVertical: spacing.sm,
+        backgroundColor: colors.white,
+        color: colors.ink,
+        minHeight: multiline ? 120 : undefined
+      }}
+    />
+  );
+}
+
+function Chips<T extends string>({
+  values,
+  selected,
+  onSelect,
+  labels,
+  disabled
+}: {
+  values: readonly T[];
+  selected: T;
+  onSelect: (value: T) => void;
+  labels?: Partial<Record<T, string>>;
+  disabled?: boolean;
+}) {
+  const { spacing } = useTheme();
+
+  return (
+    <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: spacing.xs }}>
+      {values.map((value) => (
+        <Button
+          key={value}
+          label={labels?.[value] ?? value}
+          kind={value === selected ? 'primary' : 'ghost'}
+          onPress={() => onSelect(value)}
+          disabled={disabled}
+        />
+      ))}
+    </View>
+  );
+}
+
+function ConditionNodeEditor({
+  node,
+  depth,
+  canRemove,
+  onChange,
+  onRemove
+}: {
+  node: ConditionDraft;
+  depth: number;
+  canRemove: boolean;
+  onChange: (key: string, updater: (node: ConditionDraft) => ConditionDraft) => void;
+  onRemove: (key: string) => void;
+}) {
+  const { colors, spacing, radii } = useTheme();
+  const isGroup = GROUP_KINDS.includes(node.kind);
+
+  const patch = (values: Partial<ConditionDraft>) => onChange(node.key, (current) => ({ ...current, ...values }));
+
+  return (
+    <View
+      style={{
+        borderWidth: 1,
+        borderColor: isGroup ? colors.teal : colors.fog,
+        borderRadius: radii.md,
+        padding: spacing.sm,
+        gap: spacing.xs,
+        marginLeft: depth > 0 ? spacing.sm : 0
+      }}
+    >
+      <Chips
+        values={[...GROUP_KINDS, ...LEAF_KINDS]}
+        selected={node.kind}
+        labels={CONDITION_LABELS}
+        onSelect={(kind) => onChange(node.key, (current) => changeConditionKind(current, kind))}
+      />
+
+      {node.kind === 'KEYWORDS_ANY' ? (
+        <>
+          <Field value={node.list} onChangeText={(list) => patch({ list })} placeholder="mots-clés (ex: soudure, meulage)" />
+          <Field value={node.fields} onChangeText={(fields) => patch({ fields })} placeholder="champs (title, description, tags)" />
+        </>
+      ) : null}
+
+      {node.kind === 'FIELD_EQUALS' ? (
+        <>
+          <Field value={node.field} onChangeText={(field) => patch({ field })} placeholder="champ (ex: priority)" />
+          <Field value={node.value} onChangeText={(value) => patch({ value })} placeholder="valeur (ex: HIGH)" />
+        </>
+      ) : null}
+
+      {node.kind === 'ARRAY_INCLUDES_ANY' ? (
+        <>
+          <Field value={node.field} onChangeText={(field) => patch({ field })} placeholder="champ liste (ex: tags)" />
+          <Field value={node.list} onChangeText={(list) => patch({ list })} placeholder="valeurs (ex: safety, permis_feu)" />
+        </>
+      ) : null}
+
+      {node.kind === 'NUMBER_COMPARE' ? (
+        <>
+          <Field value={node.field} onChangeText={(field) => patch({ field })} placeholder="champ (ex: volume_m3)" />
+          <Chips values={NUMBER_OPERATORS} selected={node.op} onSelect={(op) => patch({ op })} />
+          <Field value={node.value} onChangeText={(value) => patch({ value })} placeholder="valeur (ex: 10)" />
+        </>
+      ) : null}
+
+      {node.kind === 'DATE_RELATIVE' ? (
+        <>
+          <Field value={node.field} onChangeText={(field) => patch({ field })} placeholder="champ date (ex: due_date)" />
+          <Chips
+            values={DATE_OPERATORS}
+            selected={node.op}
+            labels={{ BEFORE: 'avant', AFTER: 'après' }}
+            onSelect={(op) => patch({ op })}
+          />
+          <Field value={node.value} onChangeText={(value) => patch({ value })} placeholder="maintenant + jours (ex: 2)" />
+        </>
+      ) : null}
+
+      {node.kind === 'EXISTS' || node.kind === 'LINKED_COUNT' ? (
+        <>
+          <Chips<RuleRelation> values={RELATIONS} selected={node.relation} onSelect={(relation) => patch({ relation })} />
+          {node.kind === 'LINKED_COUNT' ? (
+            <>
+              <Chips values={NUMBER_OPERATORS} selected={node.op} onSelect={(op) => patch({ op })} />
+              <Field value={node.value} onChangeText={(value) => patch({ value })} placeholder="nombre (ex: 1)" />
+            </>
+          ) : null}
+          {node.relation === 'MEDIA' ? (
+            <Field
+              value={node.mime_prefix}
+              onChangeText={(mime_prefix) => patch({ mime_prefix })}
+              placeholder="type de média (ex: image/), vide = tous"
+            />
+          ) : null}
+        </>
+      ) : null}
+
+      {isGroup ? (
+        <View style={{ gap: spacing.xs }}>
+          {node.children.map((child) => (
+            <ConditionNodeEditor
+              key={child.key}
+              node={child}
+              depth={depth + 1}
+              canRemove={node.children.length > 1}
+              onChange={onChange}
+              onRemove={onRemove}
+            />
+          ))}
+          {node.kind !== 'NOT' ? (
+            <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: spacing.xs }}>
+              <Button
+                label="+ Condition"
+                kind="ghost"
+                onPress={() =>
+                  onChange(node.key, (current) => ({
+                    ...current,
+                    children: [...current.children, createConditionDraft('FIELD_EQUALS')]
+                  }))
+                }
+              />
+              <Button
+                label="+ Groupe"
+                kind="ghost"
+                onPress={() =>
+                  onChange(node.key, (current) => ({
+                    ...current,
+                    children: [...current.children, createConditionDraft('OR')]
+                  }))
+                }
+              />
+            </View>
+          ) : null}
+        </View>
+      ) : null}
+
+      {canRemove ? <Button label="Retirer" kind="ghost" onPress={() => onRemove(node.key)} /> : null}
+    </View>
+  );
+}
+
+function ActionEditor({
+  action,
+  onChange,
+  onRemove
+}: {
+  action: ActionDraft;
+  onChange: (next: ActionDraft) => void;
+  onRemove?: () => void;
+}) {
+  const { colors, spacing, radii } = useTheme();
+  const patch = (values: Partial<ActionDraft>) => onChange({ ...action, ...values });
+
+  return (
+    <View style={{ borderWidth: 1, borderColor: colors.fog, borderRadius: radii.md, padding: spacing.sm, gap: spacing.xs }}>
+      <Chips
+        values={ACTION_KINDS}
+        selected={action.kind}
+        labels={ACTION_LABELS}
+        onSelect={(kind) => onChange({ ...createActionDraft(kind), key: action.key })}
+      />
+
+      {action.kind === 'ADD_TAG' || action.kind === 'SUGGEST' || action.kind === 'ADD_REMINDER' ? (
+        <Field value={action.value} onChangeText={(value) => patch({ value })} placeholder="valeur" />
+      ) : null}
+
+      {action.kind === 'SET_FIELD' ? (
+        <>
+          <Field value={action.field} onChangeText={(field) => patch({ field })} placeholder="champ" />
+          <Field value={action.value} onChangeText={(value) => patch({ value })} placeholder="valeur" />
+        </>
+      ) : null}
+
+      {action.kind === 'CREATE_TASK' ? (
+        <>
+          <Field value={action.title} onChangeText={(title) => patch({ title })} placeholder="titre (ex: Permis de feu)" />
+          <Field value={action.description} onChangeText={(description) => patch({ description })} placeholder="description" />
+          <Field value={action.priority} onChangeText={(priority) => patch({ priority })} placeholder="priorité (LOW, MEDIUM, HIGH)" />
+          <Field value={action.due_in_days} onChangeText={(due_in_days) => patch({ due_in_days })} placeholder="échéance (jours)" />
+          <Field value={action.assignee_role} onChangeText={(assignee_role) => patch({ assignee_role })} placeholder="rôle assigné (ex: manager)" />
+          <Field value={action.tags} onChangeText={(tags) => patch({ tags })} placeholder="tags" />
+          <Field value={action.document_ids} onChangeText={(document_ids) => patch({ document_ids })} placeholder="documents à lier (ids)" />
+        </>
+      ) : null}
+
+      {action.kind === 'LINK_DOCUMENT' ? (
+        <Field value={action.document_id} onChangeText={(document_id) => patch({ document_id })} placeholder="id du document" />
+      ) : null}
+
+      {action.kind === 'REQUIRE_PROOF' ? (
+        <>
+          <Field value={action.mime_prefix} onChangeText={(mime_prefix) => patch({ mime_prefix })} placeholder="type de média (ex: image/)" />
+          <Field value={action.message} onChangeText={(message) => patch({ message })} placeholder="message affiché au blocage" />
+        </>
+      ) : null}
+
+      {action.kind === 'NOTIFY_ROLE' ? (
+        <>
+          <Field value={action.role} onChangeText={(role) => patch({ role })} placeholder="rôle (ex: manager)" />
+          <Field value={action.message} onChangeText={(message) => patch({ message })} placeholder="message" />
+        </>
+      ) : null}
+
+      {onRemove ? <Button label="Retirer l'action" kind="ghost" onPress={onRemove} /> : null}
+    </View>
+  );
+}
+
+export function RulesScreen() {
+  const { colors, spacing, radii } = useTheme();
+  const { activeOrgId, user } = useAuth();
+
+  const [canEdit, setCanEdit] = useState<boolean | null>(null);
+  const [ruleList, setRuleList] = useState<RuleRecord[]>([]);
+  const [draft, setDraft] = useState<RuleDraft | null>(null);
+
+  const [projectList, setProjectList] = useState<Project[]>([]);
+  const [dryRunProjectId, setDryRunProjectId] = useState<string | null>(null);
+  const [dryRunSize, setDryRunSize] = useState(String(DEFAULT_DRY_RUN_SIZE));
+  const [dryRun, setDryRun] = useState<RulesDryRunResult | null>(null);
+
+  const [importDraft, setImportDraft] = useState('');
+
+  const [loading, setLoading] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [info, setInfo] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    setCanEdit(null);
+    if (!activeOrgId || !user?.id) {
+      setCanEdit(false);
+      return;
+    }
+
+    void rbac
+      .hasPermission(RULES_PERMISSION, { orgId: activeOrgId })
+      .then((allowed) => {
+        if (!cancelled) setCanEdit(allowed);
+      })
+      .catch(() => {
+        if (!cancelled) setCanEdit(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [activeOrgId, user?.id]);
+
+  const refresh = useCallback(async () => {
+    if (!activeOrgId || !canEdit) {
+      setRuleList([]);
+      setProjectList([]);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const [nextRules, nextProjects] = await Promise.all([
+        rules.list(),
+        projects.list({ org_id: activeOrgId, limit: 20 })
+      ]);
+      setRuleList(nextRules);
+      setProjectList(nextProjects);
+      setDryRunProjectId((current) => current ?? nextProjects[0]?.id ?? null);
+    } catch (refreshError) {
+      setError(toErrorMessage(refreshError));
+    } finally {
+      setLoading(false);
+    }
+  }, [activeOrgId, canEdit]);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  const withBusy = async (task: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    setInfo(null);
+
+    try {
+      await task();
+    } catch (taskError) {
+      setError(toErrorMessage(taskError));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const editRule = useCallback((rule: RuleRecord | null) => {
+    setDraft(rule ? ruleToDraft(rule) : emptyRuleDraft());
+    setDryRun(null);
+    setError(null);
+    setInfo(null);
+  }, []);
+
+  const patchDraft = useCallback((values: Partial<RuleDraft>) => {
+    setDraft((current) => (current ? { ...current, ...values } : current));
+    setDryRun(null);
+  }, []);
+
+  const changeCondition = useCallback((key: string, updater: (node: ConditionDraft) => ConditionDraft) => {
+    setDraft((current) => (current ? { ...current, condition: updateConditionNode(current.condition, key, updater) } : current));
+    setDryRun(null);
+  }, []);
+
+  const removeCondition = useCallback((key: string) => {
+    setDraft((current) => (current ? { ...current, condition: removeConditionNode(current.condition, key) } : current));
+    setDryRun(null);
+  }, []);
+
+  const saveDraft = useCallback(async () => {
+    if (!draft) return;
+
+    await withBusy(async () => {
+      if (draft.isNew && ruleList.some((rule) => rule.id === draft.id.trim())) {
+        throw new Error(`Une règle ${draft.id.trim()} existe déjà.`);
+      }
+
+      const saved = await rules.update(draftToDefinition(draft));
+      setDraft(ruleToDraft(saved));
+      await refresh();
+      setInfo(`Règle ${saved.name} enregistrée.`);
+    });
+  }, [draft, refresh, ruleList]);
+
+  const runDryRun = useCallback(async () => {
+    if (!draft) return;
+
+    await withBusy(async () => {
+      if (!dryRunProjectId) {
+        throw new Error('Choisir un projet pour la simulation.');
+      }
+
+      const size = Math.max(1, Math.min(MAX_DRY_RUN_SIZE, Math.floor(Number(dryRunSize) || DEFAULT_DRY_RUN_SIZE)));
+      const definition = draftToDefinition(draft);
+      const sample = await tasks.listByProject(dryRunProjectId, { org_id: activeOrgId ?? undefined, limit: size });
+
+      const result = await rules.dryRun(definition, sample.map(buildTaskRuleContext));
+      setDryRun(result);
+      setInfo(`Simulation: ${result.matched}/${result.evaluated} tâche(s) concernée(s).`);
+    });
+  }, [activeOrgId, draft, dryRunProjectId, dryRunSize]);
+
+  const exportRules = useCallback(async () => {
+    await withBusy(async () => {
+      const file = await rules.exportConfigFile();
+
+      const available = await Sharing.isAvailableAsync();
+      if (!available) {
+        setInfo(`Export généré: ${file.path}`);
+        return;
+      }
+
+      await Sharing.shareAsync(file.path, {
+        mimeType: 'application/json',
+        UTI: 'public.json',
+        dialogTitle: 'Exporter les règles'
+      });
+      setInfo(`${file.rule_count} règle(s) exportée(s).`);
+    });
+  }, []);
+
+  const importRules = useCallback(
+    async (source: 'FILE' | 'TEXT') => {
+      await withBusy(async () => {
+        let raw = importDraft;
+
+        if (source === 'FILE') {
+          const picked = await DocumentPicker.getDocumentAsync({
+            type: ['application/json', 'text/plain', '*/*'],
+            multiple: false,
+            copyToCacheDirectory: true
+          });
+
+          const asset = picked.canceled ? null : picked.assets?.[0];
+          if (!asset?.uri) return;
+
+          raw = await FileSystem.readAsStringAsync(asset.uri, { encoding: FileSystem.EncodingType.UTF8 });
+        }
+
+        if (!raw.trim()) {
+          throw new Error('JSON de règles vide.');
+        }
+
+        const result = await rules.importConfig(raw);
+        setImportDraft('');
+        await refresh();
+        setInfo(`${result.imported} règle(s) importée(s).`);
+      });
+    },
+    [importDraft, refresh]
+  );
+
+  const dryRunLabels = useMemo(() => {
+    if (!dryRun) return [];
+    return dryRun.items.map((item, index) => ({
+      key: item.entity_id ?? `item-${index}`,
+      label: item.label ?? item.entity_id ?? '-',
+      matched: item.matched,
+      actions: item.actions.map((action) => ACTION_LABELS[action.kind]).join(', ')
+    }));
+  }, [dryRun]);
+
+  if (canEdit === null) {
+    return (
+      <Screen>
+        <ActivityIndicator size="small" color={colors.teal} />
+      </Screen>
+    );
+  }
+
+  if (!canEdit) {
+    return (
+      <Screen>
+        <SectionHeader title="Règles" subtitle="Moteur de règles de l'organisation." />
+        <Card>
+          <Text variant="body" style={{ color: colors.slate }}>
+            Accès réservé aux administrateurs et managers (permission {RULES_PERMISSION}).
+          </Text>
+        </Card>
+      </Screen>
+    );
+  }
+
+  return (
+    <Screen>
+      <ScrollView
+        style={{ flex: 1 }}
+        contentContainerStyle={{ paddingBottom: spacing.lg }}
+        keyboardShouldPersistTaps="handled"
+      >
+        <SectionHeader
+          title="Règles"
+          subtitle="Conditions, actions et simulation sur les dernières tâches avant enregistrement."
+        />
+
+        <View style={{ gap: spacing.md }}>
+          <Card>
+            <Text variant="h2">Règles actives</Text>
+            <View style={{ marginTop: spacing.sm, gap: spacing.sm }}>
+              {ruleList.map((rule) => {
+                const selected = draft?.id === rule.id && !draft.isNew;
+
+                return (
+                  <Pressable
+                    key={rule.id}
+                    onPress={() => editRule(rule)}
+                    style={{
+                      borderWidth: 1,
+                      borderColor: selected ? colors.teal : colors.fog,
+                      borderRadius: radii.md,
+                      backgroundColor: selected ? `${colors.teal}14` : colors.white,
+                      padding: spacing.md
+                    }}
+                  >
+                    <Text variant="bodyStrong">
+                      {rule.name} • {rule.entity}
+                    </Text>
+                    <Text variant="caption" style={{ color: colors.slate, marginTop: spacing.xs }}>
+                      {rule.enabled ? 'active' : 'désactivée'} • priorité {rule.priority} • {rule.source}
+                    </Text>
+                    <Text variant="caption" style={{ color: colors.slate, marginTop: spacing.xs }}>
+                      {describeCondition(rule.condition)}
+                    </Text>
+                  </Pressable>
+                );
+              })}
+
+              {loading ? <ActivityIndicator size="small" color={colors.teal} /> : null}
+            </View>
+
+            <View style={{ marginTop: spacing.sm, flexDirection: 'row', flexWrap: 'wrap', gap: spacing.sm }}>
+              <Button label="Nouvelle règle" onPress={() => editRule(null)} disabled={busy} />
+              <Button label="Rafraîchir" kind="ghost" onPress={() => void refresh()} disabled={loading || busy} />
+            </View>
+          </Card>
+
+          {draft ? (
+            <Card>
+              <Text variant="h2">{draft.isNew ? 'Nouvelle règle' : `Règle ${draft.id}`}</Text>
+
+              <View style={{ marginTop: spacing.sm, gap: spacing.xs }}>
+                {draft.isNew ? (
+                  <Field value={draft.id} onChangeText={(id) => patchDraft({ id })} placeholder="identifiant (ex: task.permis_feu_suivi)" />
+                ) : null}
+                <Field value={draft.name} onChangeText={(name) => patchDraft({ name })} placeholder="nom" />
+                <Chips values={ENTITIES} selected={draft.entity} onSelect={(entity) => patchDraft({ entity })} />
+                <Field value={draft.priority} onChangeText={(priority) => patchDraft({ priority })} placeholder="priorité (0-1000)" />
+                <Button
+                  label={draft.enabled ? 'Active' : 'Désactivée'}
+                  kind={draft.enabled ? 'primary' : 'ghost'}
+                  onPress={() => patchDraft({ enabled: !draft.enabled })}
+                />
+              </View>
+
+              <Text variant="bodyStrong" style={{ marginTop: spacing.md }}>
+                Condition
+              </Text>
+              <View style={{ marginTop: spacing.xs }}>
+                <ConditionNodeEditor
+                  node={draft.condition}
+                  depth={0}
+                  canRemove={false}
+                  onChange={changeCondition}
+                  onRemove={removeCondition}
+                />
+              </View>
+
+              <Text variant="bodyStrong" style={{ marginTop: spacing.md }}>
+                Actions
+              </Text>
+              <View style={{ marginTop: spacing.xs, gap: spacing.xs }}>
+                {draft.actions.map((action, index) => (
+                  <ActionEditor
+                    key={action.key}
+                    action={action}
+                    onChange={(next) =>
+                      patchDraft({ actions: draft.actions.map((item, itemIndex) => (itemIndex === index ? next : item)) })
+                    }
+                    onRemove={
+                      draft.actions.length > 1
+                        ? () => patchDraft({ actions: draft.actions.filter((_, itemIndex) => itemIndex !== index) })
+                        : undefined
+                    }
+                  />
+                ))}
+                <Button
+                  label="+ Action"
+                  kind="ghost"
+                  onPress={() => patchDraft({ actions: [...draft.actions, createActionDraft('ADD_TAG')] })}
+                />
+              </View>
+
+              <Text variant="bodyStrong" style={{ marginTop: spacing.md }}>
+                Simulation
+              </Text>
+              {draft.entity === 'TASK' ? (
+                <View style={{ marginTop: spacing.xs, gap: spacing.xs }}>
+                  <Chips
+                    values={projectList.map((project) => project.id)}
+                    selected={dryRunProjectId ?? ''}
+                    labels={Object.fromEntries(projectList.map((project) => [project.id, project.name]))}
+                    onSelect={(projectId) => setDryRunProjectId(projectId)}
+                  />
+                  <Field value={dryRunSize} onChangeText={setDryRunSize} placeholder="nombre de tâches (dernières modifiées)" />
+                  <Button label="Simuler" kind="ghost" onPress={() => void runDryRun()} disabled={busy} />
+
+                  {dryRunLabels.map((item) => (
+                    <Text
+                      key={item.key}
+                      variant="caption"
+                      style={{ color: item.matched ? colors.tealDark : colors.slate }}
+                    >
+                      {item.matched ? '✓' : '·'} {item.label}
+                      {item.matched && item.actions ? ` → ${item.actions}` : ''}
+                    </Text>
+                  ))}
+                  {dryRun && dryRun.evaluated === 0 ? (
+                    <Text variant="caption" style={{ color: colors.slate }}>
+                      Aucune tâche dans ce projet.
+                    </Text>
+                  ) : null}
+                </View>
+              ) : (
+                <Text variant="caption" style={{ color: colors.slate, marginTop: spacing.xs }}>
+                  Simulation disponible pour les règles TASK.
+                </Text>
+              )}
+
+              <View style={{ marginTop: spacing.md, flexDirection: 'row', flexWrap: 'wrap', gap: spacing.sm }}>
+                <Button label="Enregistrer" onPress={() => void saveDraft()} disabled={busy} />
+                <Button label="Fermer" kind="ghost" onPress={() => setDraft(null)} disabled={busy} />
+              </View>
+            </Card>
+          ) : null}
+
+          <Card>
+            <Text variant="h2">Import / export</Text>
+            <Text variant="caption" style={{ color: colors.slate, marginTop: spacing.xs }}>
+              Format RulesConfig (JSON). Les règles importées remplacent celles de même identifiant.
+            </Text>
+
+            <View style={{ marginTop: spacing.sm, flexDirection: 'row', flexWrap: 'wrap', gap: spacing.sm }}>
+              <Button label="Exporter" kind="ghost" onPress={() => void exportRules()} disabled={busy} />
+              <Button label="Importer un fichier" kind="ghost" onPress={() => void importRules('FILE')} disabled={busy} />
+            </View>
+
+            <View style={{ marginTop: spacing.sm, gap: spacing.xs }}>
+              <Field value={importDraft} onChangeText={setImportDraft} placeholder='{"version": 1, "rules": [...]}' multiline />
+              <Button label="Importer le JSON" kind="ghost" onPress={() => void importRules('TEXT')} disabled={busy || !importDraft.trim()} />
+            </View>
+          </Card>
+
+          {info ? (
+            <Text variant="caption" style={{ color: colors.tealDark }}>
+              {info}
+            </Text>
+          ) : null}
+
+          {error ? (
+            <Text variant="caption" style={{ color: colors.rose }}>
+              {error}
+            </Text>
+          ) : null}
+        </View>
+      </ScrollView>
+    </Screen>
+  );
+}
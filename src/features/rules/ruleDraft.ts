@@ -0,0 +1,418 @@
+import type { RuleAction, RuleCondition, RuleDefinition, RuleRecord, RuleRelation } from '../../data/rules-engine';
+
+// Editable (string-based) mirror of RuleDefinition: inputs stay free text until the rule is
+// converted back, so a half-typed number never throws while the user is editing.
+
+export type ConditionKind = RuleCondition['kind'];
+export type ActionKind = RuleAction['kind'];
+
+export type ConditionDraft = {
+  key: string;
+  kind: ConditionKind;
+  /** AND / OR children, NOT uses the first one. */
+  children: ConditionDraft[];
+  field: string;
+  /** Comma separated: KEYWORDS_ANY fields. */
+  fields: string;
+  /** Comma separated: keywords or values. */
+  list: string;
+  op: string;
+  value: string;
+  relation: RuleRelation;
+  mime_prefix: string;
+};
+
+export type ActionDraft = {
+  key: string;
+  kind: ActionKind;
+  value: string;
+  field: string;
+  title: string;
+  description: string;
+  priority: string;
+  tags: string;
+  due_in_days: string;
+  assignee_role: string;
+  document_ids: string;
+  document_id: string;
+  mime_prefix: string;
+  message: string;
+  role: string;
+};
+
+export type RuleDraft = {
+  isNew: boolean;
+  id: string;
+  name: string;
+  entity: string;
+  priority: string;
+  enabled: boolean;
+  condition: ConditionDraft;
+  actions: ActionDraft[];
+};
+
+export const GROUP_KINDS: ConditionKind[] = ['AND', 'OR', 'NOT'];
+
+export const LEAF_KINDS: ConditionKind[] = [
+  'KEYWORDS_ANY',
+  'FIELD_EQUALS',
+  'ARRAY_INCLUDES_ANY',
+  'NUMBER_COMPARE',
+  'DATE_RELATIVE',
+  'EXISTS',
+  'LINKED_COUNT',
+  'ALWAYS'
+];
+
+export const ACTION_KINDS: ActionKind[] = [
+  'ADD_TAG',
+  'SUGGEST',
+  'ADD_REMINDER',
+  'SET_FIELD',
+  'CREATE_TASK',
+  'LINK_DOCUMENT',
+  'REQUIRE_PROOF',
+  'NOTIFY_ROLE'
+];
+
+export const NUMBER_OPERATORS = ['GT', 'GTE', 'LT', 'LTE', 'EQ', 'NEQ'];
+export const DATE_OPERATORS = ['BEFORE', 'AFTER'];
+export const RELATIONS: RuleRelation[] = ['MEDIA', 'DOCUMENTS', 'PINS'];
+
+let keySeed = 0;
+
+function nextKey() {
+  keySeed += 1;
+  return `n${keySeed}`;
+}
+
+function splitList(value: string) {
+  return value
+    .split(',')
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+}
+
+function joinList(values: Array<string | number> | undefined) {
+  return (values ?? []).join(', ');
+}
+
+function parseNumber(raw: string, label: string) {
+  const parsed = Number(raw.trim().replace(',', '.'));
+  if (raw.trim().length === 0 || !Number.isFinite(parsed)) {
+    throw new Error(`${label}: nombre attendu.`);
+  }
+  return parsed;
+}
+
+/** `true`, `false`, `null` and numbers keep their JSON type, anything else stays a string. */
+function parseScalar(raw: string): string | number | boolean | null {
+  const cleaned = raw.trim();
+  if (cleaned === 'true') return true;
+  if (cleaned === 'false') return false;
+  if (cleaned === 'null') return null;
+  if (/^-?\d+(\.\d+)?$/.test(cleaned)) return Number(cleaned);
+  return cleaned;
+}
+
+function formatScalar(value: unknown) {
+  if (value === null) return 'null';
+  if (typeof value === 'string') return value;
+  if (value === undefined) return '';
+  return JSON.stringify(value);
+}
+
+export function createConditionDraft(kind: ConditionKind): ConditionDraft {
+  const draft: ConditionDraft = {
+    key: nextKey(),
+    kind,
+    children: [],
+    field: '',
+    fields: 'title, description, tags',
+    list: '',
+    op: kind === 'DATE_RELATIVE' ? 'BEFORE' : 'GT',
+    value: '',
+    relation: 'MEDIA',
+    mime_prefix: ''
+  };
+
+  if (kind === 'AND' || kind === 'OR' || kind === 'NOT') {
+    draft.children = [createConditionDraft('KEYWORDS_ANY')];
+  }
+
+  if (kind === 'EXISTS') {
+    draft.mime_prefix = 'image/';
+  }
+
+  return draft;
+}
+
+export function conditionToDraft(condition: RuleCondition): ConditionDraft {
+  const draft = createConditionDraft(condition.kind);
+
+  switch (condition.kind) {
+    case 'AND':
+      return { ...draft, children: condition.all.map(conditionToDraft) };
+    case 'OR':
+      return { ...draft, children: condition.any.map(conditionToDraft) };
+    case 'NOT':
+      return { ...draft, children: [conditionToDraft(condition.cond)] };
+    case 'KEYWORDS_ANY':
+      return { ...draft, fields: joinList(condition.fields), list: joinList(condition.keywords) };
+    case 'FIELD_EQUALS':
+      return { ...draft, field: condition.field, value: formatScalar(condition.value) };
+    case 'ARRAY_INCLUDES_ANY':
+      return { ...draft, field: condition.field, list: joinList(condition.values) };
+    case 'NUMBER_COMPARE':
+      return { ...draft, field: condition.field, op: condition.op, value: String(condition.value) };
+    case 'DATE_RELATIVE':
+      return { ...draft, field: condition.field, op: condition.op, value: String(condition.days) };
+    case 'EXISTS':
+      return { ...draft, relation: condition.relation, mime_prefix: condition.mime_prefix ?? '' };
+    case 'LINKED_COUNT':
+      return {
+        ...draft,
+        relation: condition.relation,
+        op: condition.op,
+        value: String(condition.value),
+        mime_prefix: condition.mime_prefix ?? ''
+      };
+    default:
+      return draft;
+  }
+}
+
+export function draftToCondition(draft: ConditionDraft): RuleCondition {
+  switch (draft.kind) {
+    case 'ALWAYS':
+      return { kind: 'ALWAYS' };
+    case 'AND':
+      return { kind: 'AND', all: draft.children.map(draftToCondition) };
+    case 'OR':
+      return { kind: 'OR', any: draft.children.map(draftToCondition) };
+    case 'NOT': {
+      const child = draft.children[0];
+      if (!child) {
+        throw new Error('Groupe NON vide.');
+      }
+      return { kind: 'NOT', cond: draftToCondition(child) };
+    }
+    case 'KEYWORDS_ANY':
+      return { kind: 'KEYWORDS_ANY', fields: splitList(draft.fields), keywords: splitList(draft.list) };
+    case 'FIELD_EQUALS':
+      return { kind: 'FIELD_EQUALS', field: draft.field.trim(), value: parseScalar(draft.value) };
+    case 'ARRAY_INCLUDES_ANY':
+      return { kind: 'ARRAY_INCLUDES_ANY', field: draft.field.trim(), values: splitList(draft.list) };
+    case 'NUMBER_COMPARE':
+      return {
+        kind: 'NUMBER_COMPARE',
+        field: draft.field.trim(),
+        op: draft.op as Extract<RuleCondition, { kind: 'NUMBER_COMPARE' }>['op'],
+        value: parseNumber(draft.value, `Comparaison ${draft.field || 'numérique'}`)
+      };
+    case 'DATE_RELATIVE':
+      return {
+        kind: 'DATE_RELATIVE',
+        field: draft.field.trim(),
+        op: draft.op as Extract<RuleCondition, { kind: 'DATE_RELATIVE' }>['op'],
+        days: parseNumber(draft.value, `Date ${draft.field || 'relative'} (jours)`)
+      };
+    case 'EXISTS':
+      return { kind: 'EXISTS', relation: draft.relation, mime_prefix: draft.mime_prefix.trim() || undefined };
+    case 'LINKED_COUNT':
+      return {
+        kind: 'LINKED_COUNT',
+        relation: draft.relation,
+        op: draft.op as Extract<RuleCondition, { kind: 'LINKED_COUNT' }>['op'],
+        value: parseNumber(draft.value, `Nombre de ${draft.relation}`),
+        mime_prefix: draft.mime_prefix.trim() || undefined
+      };
+  }
+}
+
+/** Keeps the node key (and children when switching between groups) so the tree does not jump. */
+export function changeConditionKind(draft: ConditionDraft, kind: ConditionKind): ConditionDraft {
+  const next = { ...createConditionDraft(kind), key: draft.key };
+
+  if (GROUP_KINDS.includes(kind) && GROUP_KINDS.includes(draft.kind) && draft.children.length > 0) {
+    next.children = kind === 'NOT' ? draft.children.slice(0, 1) : draft.children;
+  }
+
+  return next;
+}
+
+export function updateConditionNode(
+  root: ConditionDraft,
+  key: string,
+  updater: (node: ConditionDraft) => ConditionDraft
+): ConditionDraft {
+  if (root.key === key) {
+    return updater(root);
+  }
+
+  if (root.children.length === 0) {
+    return root;
+  }
+
+  return { ...root, children: root.children.map((child) => updateConditionNode(child, key, updater)) };
+}
+
+export function removeConditionNode(root: ConditionDraft, key: string): ConditionDraft {
+  return {
+    ...root,
+    children: root.children.filter((child) => child.key !== key).map((child) => removeConditionNode(child, key))
+  };
+}
+
+export function createActionDraft(kind: ActionKind): ActionDraft {
+  return {
+    key: nextKey(),
+    kind,
+    value: '',
+    field: '',
+    title: '',
+    description: '',
+    priority: '',
+    tags: '',
+    due_in_days: '',
+    assignee_role: '',
+    document_ids: '',
+    document_id: '',
+    mime_prefix: kind === 'REQUIRE_PROOF' ? 'image/' : '',
+    message: '',
+    role: kind === 'NOTIFY_ROLE' ? 'manager' : ''
+  };
+}
+
+export function actionToDraft(action: RuleAction): ActionDraft {
+  const draft = createActionDraft(action.kind);
+
+  switch (action.kind) {
+    case 'ADD_TAG':
+    case 'SUGGEST':
+    case 'ADD_REMINDER':
+      return { ...draft, value: action.value };
+    case 'SET_FIELD':
+      return { ...draft, field: action.field, value: formatScalar(action.value) };
+    case 'CREATE_TASK':
+      return {
+        ...draft,
+        title: action.title,
+        description: action.description ?? '',
+        priority: action.priority ?? '',
+        tags: joinList(action.tags),
+        due_in_days: action.due_in_days !== undefined ? String(action.due_in_days) : '',
+        assignee_role: action.assignee_role ?? '',
+        document_ids: joinList(action.document_ids)
+      };
+    case 'LINK_DOCUMENT':
+      return { ...draft, document_id: action.document_id };
+    case 'REQUIRE_PROOF':
+      return { ...draft, mime_prefix: action.mime_prefix ?? '', message: action.message ?? '' };
+    case 'NOTIFY_ROLE':
+      return { ...draft, role: action.role, message: action.message };
+  }
+}
+
+export function draftToAction(draft: ActionDraft): RuleAction {
+  switch (draft.kind) {
+    case 'ADD_TAG':
+    case 'SUGGEST':
+    case 'ADD_REMINDER':
+      return { kind: draft.kind, value: draft.value.trim() };
+    case 'SET_FIELD':
+      return { kind: 'SET_FIELD', field: draft.field.trim(), value: parseScalar(draft.value) };
+    case 'CREATE_TASK': {
+      const priority = draft.priority.trim().toUpperCase();
+      if (priority && priority !== 'LOW' && priority !== 'MEDIUM' && priority !== 'HIGH') {
+        throw new Error('Priorité de tâche: LOW, MEDIUM ou HIGH.');
+      }
+      return {
+        kind: 'CREATE_TASK',
+        title: draft.title.trim(),
+        description: draft.description.trim() || undefined,
+        priority: priority ? (priority as 'LOW' | 'MEDIUM' | 'HIGH') : undefined,
+        tags: splitList(draft.tags),
+        due_in_days: draft.due_in_days.trim() ? parseNumber(draft.due_in_days, 'Échéance (jours)') : undefined,
+        assignee_role: draft.assignee_role.trim() || undefined,
+        document_ids: splitList(draft.document_ids)
+      };
+    }
+    case 'LINK_DOCUMENT':
+      return { kind: 'LINK_DOCUMENT', document_id: draft.document_id.trim() };
+    case 'REQUIRE_PROOF':
+      return {
+        kind: 'REQUIRE_PROOF',
+        mime_prefix: draft.mime_prefix.trim() || undefined,
+        message: draft.message.trim() || undefined
+      };
+    case 'NOTIFY_ROLE':
+      return { kind: 'NOTIFY_ROLE', role: draft.role.trim(), message: draft.message.trim() };
+  }
+}
+
+export function emptyRuleDraft(): RuleDraft {
+  return {
+    isNew: true,
+    id: '',
+    name: '',
+    entity: 'TASK',
+    priority: '50',
+    enabled: true,
+    condition: createConditionDraft('AND'),
+    actions: [createActionDraft('SUGGEST')]
+  };
+}
+
+export function ruleToDraft(rule: RuleRecord): RuleDraft {
+  return {
+    isNew: false,
+    id: rule.id,
+    name: rule.name,
+    entity: rule.entity,
+    priority: String(rule.priority),
+    enabled: rule.enabled,
+    condition: conditionToDraft(rule.condition),
+    actions: rule.actions.map(actionToDraft)
+  };
+}
+
+/** Throws a French message on the first invalid input; deeper checks are done by the engine. */
+export function draftToDefinition(draft: RuleDraft): RuleDefinition {
+  return {
+    id: draft.id.trim(),
+    name: draft.name.trim(),
+    entity: draft.entity,
+    enabled: draft.enabled,
+    priority: parseNumber(draft.priority, 'Priorité'),
+    condition: draftToCondition(draft.condition),
+    actions: draft.actions.map(draftToAction)
+  };
+}
+
+export function describeCondition(condition: RuleCondition): string {
+  switch (condition.kind) {
+    case 'ALWAYS':
+      return 'toujours';
+    case 'AND':
+      return `(${condition.all.map(describeCondition).join(' ET ')})`;
+    case 'OR':
+      return `(${condition.any.map(describeCondition).join(' OU ')})`;
+    case 'NOT':
+      return `NON ${describeCondition(condition.cond)}`;
+    case 'KEYWORDS_ANY':
+      return `mots-clés ${condition.keywords.join('/')}`;
+    case 'FIELD_EQUALS':
+      return `${condition.field} = ${formatScalar(condition.value)}`;
+    case 'ARRAY_INCLUDES_ANY':
+      return `${condition.field} ∋ ${condition.values.join('/')}`;
+    case 'NUMBER_COMPARE':
+      return `${condition.field} ${condition.op} ${condition.value}`;
+    case 'DATE_RELATIVE':
+      return `${condition.field} ${condition.op} J${condition.days >= 0 ? '+' : ''}${condition.days}`;
+    case 'EXISTS':
+      return `${condition.relation}${condition.mime_prefix ? ` ${condition.mime_prefix}` : ''} existe`;
+    case 'LINKED_COUNT':
+      return `nb ${condition.relation} ${condition.op} ${condition.value}`;
+  }
+}
@@ -426,7 +426,7 @@ export function SearchScreen() {
       >
         <SectionHeader
           title="Recherche"
-          subtitle="Index local offline-first: globale + filtres modules, sans dépendance backend."
+          subtitle='Index local FTS offline-first: "phrase exacte", OR, -exclure, sans dépendance backend.'
         />
 
         <Card>
@@ -673,6 +673,12 @@ export function SearchScreen() {
                     <HighlightedText value={item.title_highlight || item.title} title />
                   </View>
 
+                  {item.page_number !== undefined ? (
+                    <Text variant="caption" style={{ color: colors.slate, marginTop: spacing.xs }}>
+                      Contenu PDF · page {item.page_number}
+                    </Text>
+                  ) : null}
+
                   <View style={{ marginTop: spacing.xs }}>
                     <HighlightedText value={item.body_highlight || item.body} />
                   </View>
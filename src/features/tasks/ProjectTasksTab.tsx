@@ -2,7 +2,16 @@ import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import { FlatList, Modal, Pressable, TextInput, View, useWindowDimensions } from 'react-native';
 import { useAuth } from '../../core/auth';
 import type { MediaAsset } from '../../data/media';
-import type { Task, TaskComment, TaskFilters, TaskStatus, TaskUpdatePatch } from '../../data/tasks';
+import type {
+  Task,
+  TaskBulkAction,
+  TaskBulkResult,
+  TaskComment,
+  TaskFilters,
+  TaskStatus,
+  TaskUpdatePatch
+} from '../../data/tasks';
+import { recurrence } from '../../data/recurrence';
 import { tasks } from '../../data/tasks';
 import { useSyncStatus } from '../../data/sync/useSyncStatus';
 import { useAppNavigationContext } from '../../navigation/contextStore';
@@ -12,6 +21,7 @@ import { Text } from '../../ui/components/Text';
 import { Screen } from '../../ui/layout/Screen';
 import { useTheme } from '../../ui/theme/ThemeProvider';
 import { SectionHeader } from '../common/SectionHeader';
+import { TaskBulkActionBar } from './TaskBulkActionBar';
 import { TaskDetailPanel } from './TaskDetailPanel';
 import { TaskQuickCreateDrawer } from './TaskQuickCreateDrawer';
 import { useTaskDictation } from './useTaskDictation';
@@ -108,6 +118,10 @@ export function ProjectTasksTab({ projectId }: { projectId?: string } = {}) {
   const [quickStatus, setQuickStatus] = useState<TaskStatus>('TODO');
   const [quickSafety, setQuickSafety] = useState(false);
 
+  const [selectMode, setSelectMode] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(() => new Set());
+  const [lastBulk, setLastBulk] = useState<TaskBulkResult | null>(null);
+
   const {
     isAvailable: dictationAvailable,
     isListening,
@@ -177,6 +191,11 @@ export function ProjectTasksTab({ projectId }: { projectId?: string } = {}) {
       setError(null);
 
       try {
+        if (nextPage === 0) {
+          // Materializes upcoming occurrences of recurring series before listing.
+          await recurrence.generateAhead(activeOrgId, { project_id: effectiveProjectId });
+        }
+
         const effectiveFilters: TaskFilters = { ...baseFilters, offset: nextPage * PAGE_SIZE };
         const q = debouncedQuery.trim();
         const pageItems =
@@ -209,6 +228,12 @@ export function ProjectTasksTab({ projectId }: { projectId?: string } = {}) {
     [activeOrgId, baseFilters, debouncedQuery, effectiveProjectId, hydrateListMeta]
   );
 
+  // Selection and undo are scoped to one project.
+  useEffect(() => {
+    setSelectedIds(new Set());
+    setLastBulk(null);
+  }, [activeOrgId, effectiveProjectId]);
+
   // Reset list on filter change.
   useEffect(() => {
     void fetchPage(0, { replace: true });
@@ -489,9 +514,64 @@ export function ProjectTasksTab({ projectId }: { projectId?: string } = {}) {
     void updateSelectedTask({ assignee_user_id: user.id });
   }, [selectedTask, updateSelectedTask, user?.id]);
 
+  const toggleSelectMode = useCallback(() => {
+    setSelectMode((prev) => !prev);
+    setSelectedIds(new Set());
+  }, []);
+
+  const toggleTaskSelection = useCallback((taskId: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(taskId)) {
+        next.delete(taskId);
+      } else {
+        next.add(taskId);
+      }
+      return next;
+    });
+  }, []);
+
+  const applyBulk = useCallback(
+    async (action: TaskBulkAction) => {
+      if (selectedIds.size === 0) return;
+      setLoading(true);
+      setError(null);
+
+      try {
+        const result = await tasks.bulkUpdate(Array.from(selectedIds), action);
+        setLastBulk(result);
+        // Keep the skipped tasks selected so they can be fixed and retried.
+        setSelectedIds(new Set(result.skipped.map((entry) => entry.task_id)));
+        await fetchPage(0, { replace: true });
+      } catch (e) {
+        setError(e instanceof Error ? e.message : 'Opération groupée impossible.');
+      } finally {
+        setLoading(false);
+      }
+    },
+    [fetchPage, selectedIds]
+  );
+
+  const undoBulk = useCallback(async () => {
+    if (!lastBulk) return;
+    setLoading(true);
+    setError(null);
+
+    try {
+      const result = await tasks.undoBulk(lastBulk);
+      setLastBulk(result);
+      await fetchPage(0, { replace: true });
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Annulation impossible.');
+    } finally {
+      setLoading(false);
+    }
+  }, [fetchPage, lastBulk]);
+
   const renderTask = useCallback(
     ({ item }: { item: Task }) => {
-      const active = selectedTask?.id === item.id;
+      const checked = selectMode && selectedIds.has(item.id);
+      const active = checked || (!selectMode && selectedTask?.id === item.id);
       const proofs = proofCounts[item.id] ?? 0;
       const badge = syncBadges[item.id] ?? 'SYNCED';
       const safety = isSafetyTask(item);
@@ -501,7 +581,7 @@ export function ProjectTasksTab({ projectId }: { projectId?: string } = {}) {
       const badgeLabel = badge === 'ERROR' ? 'ÉCHEC' : badge === 'PENDING' ? 'SYNC' : 'OK';
 
       return (
-        <Pressable onPress={() => void selectTask(item)}>
+        <Pressable onPress={() => (selectMode ? toggleTaskSelection(item.id) : void selectTask(item))}>
           <Card
             style={{
               borderColor: active ? colors.teal : colors.fog,
@@ -510,6 +590,7 @@ export function ProjectTasksTab({ projectId }: { projectId?: string } = {}) {
           >
             <View style={{ flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', gap: spacing.sm }}>
               <Text variant="bodyStrong" numberOfLines={1} style={{ flex: 1 }}>
+                {selectMode ? (checked ? '☑ ' : '☐ ') : ''}
                 {item.title}
               </Text>
               <View style={{ flexDirection: 'row', alignItems: 'center', gap: spacing.sm }}>
@@ -571,7 +652,20 @@ export function ProjectTasksTab({ projectId }: { projectId?: string } = {}) {
         </Pressable>
       );
     },
-    [colors, proofCounts, radii.pill, selectTask, selectedTask?.id, spacing.sm, spacing.xs, syncBadges, user?.id]
+    [
+      colors,
+      proofCounts,
+      radii.pill,
+      selectMode,
+      selectTask,
+      selectedIds,
+      selectedTask?.id,
+      spacing.sm,
+      spacing.xs,
+      syncBadges,
+      toggleTaskSelection,
+      user?.id
+    ]
   );
 
   const listHeader = useMemo(() => {
@@ -579,9 +673,35 @@ export function ProjectTasksTab({ projectId }: { projectId?: string } = {}) {
       <View style={{ gap: spacing.md, marginBottom: spacing.sm }}>
         <View style={{ flexDirection: 'row', justifyContent: 'space-between', alignItems: 'flex-end', gap: spacing.sm }}>
           <SectionHeader title="Tâches" subtitle="Hors ligne d'abord : création rapide, filtres, preuves, suggestions." />
-          <Button label="+" onPress={() => openCreate()} disabled={loading} />
+          <View style={{ flexDirection: 'row', gap: spacing.sm }}>
+            <Button
+              label={selectMode ? 'Terminer' : 'Sélection'}
+              kind={selectMode ? 'primary' : 'ghost'}
+              onPress={toggleSelectMode}
+              disabled={loading}
+            />
+            <Button label="+" onPress={() => openCreate()} disabled={loading} />
+          </View>
         </View>
 
+        {selectMode || lastBulk ? (
+          <TaskBulkActionBar
+            selectedCount={selectedIds.size}
+            loadedCount={items.length}
+            busy={loading}
+            currentUserId={user?.id ?? null}
+            lastResult={lastBulk}
+            onApply={(action) => void applyBulk(action)}
+            onUndo={() => void undoBulk()}
+            onSelectAll={() => {
+              setSelectMode(true);
+              setSelectedIds(new Set(items.map((task) => task.id)));
+            }}
+            onClearSelection={() => setSelectedIds(new Set())}
+            onDismissResult={() => setLastBulk(null)}
+          />
+        ) : null}
+
         <TextInput
           value={query}
           onChangeText={setQuery}
@@ -669,6 +789,7 @@ export function ProjectTasksTab({ projectId }: { projectId?: string } = {}) {
       </View>
     );
   }, [
+    applyBulk,
     colors.amber,
     colors.fog,
     colors.ink,
@@ -681,16 +802,22 @@ export function ProjectTasksTab({ projectId }: { projectId?: string } = {}) {
     filterProofs,
     filterSafety,
     filterStatus,
-    items.length,
+    items,
+    lastBulk,
     loading,
     openCreate,
     query,
     radii.md,
     radii.pill,
+    selectMode,
+    selectedIds,
     spacing.md,
     spacing.sm,
     spacing.xs,
-    syncStatus.queueDepth
+    syncStatus.queueDepth,
+    toggleSelectMode,
+    undoBulk,
+    user?.id
   ]);
 
   const listEmpty = useMemo(() => {
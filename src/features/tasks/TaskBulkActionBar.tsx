@@ -0,0 +1,203 @@
+import React, { useMemo, useState } from 'react';
+import { Pressable, TextInput, View } from 'react-native';
+import type { TaskBulkAction, TaskBulkResult, TaskPriority, TaskStatus } from '../../data/tasks';
+import { Button } from '../../ui/components/Button';
+import { Card } from '../../ui/components/Card';
+import { Text } from '../../ui/components/Text';
+import { useTheme } from '../../ui/theme/ThemeProvider';
+
+const STATUS_OPTIONS: Array<{ key: TaskStatus; label: string }> = [
+  { key: 'TODO', label: 'À faire' },
+  { key: 'DOING', label: 'En cours' },
+  { key: 'BLOCKED', label: 'Bloquée' },
+  { key: 'DONE', label: 'Terminée' }
+];
+
+const PRIORITY_OPTIONS: Array<{ key: TaskPriority; label: string }> = [
+  { key: 'LOW', label: 'Faible' },
+  { key: 'MEDIUM', label: 'Moyenne' },
+  { key: 'HIGH', label: 'Haute' }
+];
+
+function parseTags(value: string) {
+  return value
+    .split(/[,;\s]+/)
+    .map((tag) => tag.trim())
+    .filter((tag) => tag.length > 0);
+}
+
+function describeResult(result: TaskBulkResult) {
+  const verb = result.action === 'UNDO' ? 'restaurée(s)' : 'modifiée(s)';
+  const parts = [`${result.updated.length} tâche(s) ${verb}`];
+  if (result.skipped.length > 0) parts.push(`${result.skipped.length} ignorée(s)`);
+  return parts.join(' · ');
+}
+
+export function TaskBulkActionBar({
+  selectedCount,
+  loadedCount,
+  busy,
+  currentUserId,
+  lastResult,
+  onApply,
+  onUndo,
+  onSelectAll,
+  onClearSelection,
+  onDismissResult
+}: {
+  selectedCount: number;
+  loadedCount: number;
+  busy: boolean;
+  currentUserId: string | null;
+  lastResult: TaskBulkResult | null;
+  onApply: (action: TaskBulkAction) => void;
+  onUndo: () => void;
+  onSelectAll: () => void;
+  onClearSelection: () => void;
+  onDismissResult: () => void;
+}) {
+  const { colors, spacing, radii } = useTheme();
+
+  const [tagsText, setTagsText] = useState('');
+  const [dueDate, setDueDate] = useState('');
+  const [targetProjectId, setTargetProjectId] = useState('');
+
+  const inputStyle = useMemo(
+    () => ({
+      flex: 1,
+      borderWidth: 1,
+      borderColor: colors.fog,
+      borderRadius: radii.md,
+      paddingHorizontal: spacing.md,
+      paddingVertical: spacing.sm,
+      color: colors.ink,
+      backgroundColor: colors.white
+    }),
+    [colors, radii.md, spacing.md, spacing.sm]
+  );
+
+  const disabled = busy || selectedCount === 0;
+  const tags = parseTags(tagsText);
+
+  const chip = (key: string, label: string, onPress: () => void) => (
+    <Pressable
+      key={key}
+      onPress={onPress}
+      disabled={disabled}
+      style={{
+        borderRadius: radii.pill,
+        paddingHorizontal: spacing.md,
+        paddingVertical: spacing.xs,
+        backgroundColor: colors.white,
+        borderWidth: 1,
+        borderColor: colors.fog,
+        opacity: disabled ? 0.5 : 1
+      }}
+    >
+      <Text variant="caption" style={{ color: colors.ink }}>
+        {label}
+      </Text>
+    </Pressable>
+  );
+
+  return (
+    <Card style={{ gap: spacing.sm }}>
+      {lastResult ? (
+        <View style={{ gap: spacing.xs }}>
+          <View style={{ flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', gap: spacing.sm }}>
+            <Text variant="caption" style={{ color: colors.ink, flex: 1 }}>
+              {describeResult(lastResult)}
+            </Text>
+            {lastResult.action !== 'UNDO' && lastResult.updated.length > 0 ? (
+              <Button label="Annuler" kind="ghost" onPress={onUndo} disabled={busy} />
+            ) : null}
+            <Button label="OK" kind="ghost" onPress={onDismissResult} disabled={busy} />
+          </View>
+          {lastResult.skipped.slice(0, 5).map((entry) => (
+            <Text key={entry.task_id} variant="caption" style={{ color: colors.rose }}>
+              {entry.task_id.slice(0, 8)} · {entry.reason}
+            </Text>
+          ))}
+        </View>
+      ) : null}
+
+      <View style={{ flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', gap: spacing.sm }}>
+        <Text variant="bodyStrong">{selectedCount} sélectionnée(s)</Text>
+        <View style={{ flexDirection: 'row', gap: spacing.sm }}>
+          <Button label={`Tout (${loadedCount})`} kind="ghost" onPress={onSelectAll} disabled={busy || loadedCount === 0} />
+          <Button label="Aucune" kind="ghost" onPress={onClearSelection} disabled={disabled} />
+        </View>
+      </View>
+
+      <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: spacing.sm }}>
+        {STATUS_OPTIONS.map((option) =>
+          chip(`status-${option.key}`, option.label, () => onApply({ type: 'SET_STATUS', status: option.key }))
+        )}
+      </View>
+
+      <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: spacing.sm }}>
+        {PRIORITY_OPTIONS.map((option) =>
+          chip(`priority-${option.key}`, `Priorité ${option.label.toLowerCase()}`, () =>
+            onApply({ type: 'SET_PRIORITY', priority: option.key })
+          )
+        )}
+        {currentUserId
+          ? chip('assign-me', "M'assigner", () => onApply({ type: 'SET_ASSIGNEE', assignee_user_id: currentUserId }))
+          : null}
+        {chip('unassign', 'Désassigner', () => onApply({ type: 'SET_ASSIGNEE', assignee_user_id: null }))}
+      </View>
+
+      <View style={{ flexDirection: 'row', alignItems: 'center', gap: spacing.sm }}>
+        <TextInput
+          value={tagsText}
+          onChangeText={setTagsText}
+          placeholder="tags (ex: safety, reserve)"
+          placeholderTextColor={colors.slate}
+          autoCapitalize="none"
+          style={inputStyle}
+        />
+        <Button label="+ Tags" kind="ghost" onPress={() => onApply({ type: 'ADD_TAGS', tags })} disabled={disabled || tags.length === 0} />
+        <Button label="- Tags" kind="ghost" onPress={() => onApply({ type: 'REMOVE_TAGS', tags })} disabled={disabled || tags.length === 0} />
+      </View>
+
+      <View style={{ flexDirection: 'row', alignItems: 'center', gap: spacing.sm }}>
+        <TextInput
+          value={dueDate}
+          onChangeText={setDueDate}
+          placeholder="Échéance AAAA-MM-JJ"
+          placeholderTextColor={colors.slate}
+          autoCapitalize="none"
+          style={inputStyle}
+        />
+        <Button
+          label="Fixer"
+          kind="ghost"
+          onPress={() => onApply({ type: 'SET_DUE_DATE', due_date: dueDate.trim() })}
+          disabled={disabled || dueDate.trim().length === 0}
+        />
+        <Button label="Sans échéance" kind="ghost" onPress={() => onApply({ type: 'SET_DUE_DATE', due_date: null })} disabled={disabled} />
+      </View>
+
+      <View style={{ flexDirection: 'row', alignItems: 'center', gap: spacing.sm }}>
+        <TextInput
+          value={targetProjectId}
+          onChangeText={setTargetProjectId}
+          placeholder="Chantier cible (project_id)"
+          placeholderTextColor={colors.slate}
+          autoCapitalize="none"
+          style={inputStyle}
+        />
+        <Button
+          label="Déplacer"
+          kind="ghost"
+          onPress={() => onApply({ type: 'MOVE_PROJECT', project_id: targetProjectId.trim() })}
+          disabled={disabled || targetProjectId.trim().length === 0}
+        />
+      </View>
+
+      <View style={{ flexDirection: 'row', justifyContent: 'flex-end' }}>
+        <Button label={`Supprimer (${selectedCount})`} kind="ghost" onPress={() => onApply({ type: 'DELETE' })} disabled={disabled} />
+      </View>
+    </Card>
+  );
+}
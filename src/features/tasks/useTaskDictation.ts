@@ -5,7 +5,7 @@ import { useCallback, useEffect, useRef, useState } from 'react';
 
 type DictationField = 'title' | 'description' | 'comment';
 
-type SpeechModule = {
+export type SpeechModule = {
   isRecognitionAvailable: () => boolean;
   requestPermissionsAsync: () => Promise<{ granted: boolean }>;
   addListener: (event: string, callback: (event: any) => void) => Listener;
@@ -20,7 +20,7 @@ type DictationSession = {
   onText: (value: string) => void;
 };
 
-type Listener = { remove: () => void };
+export type Listener = { remove: () => void };
 
 function isSpeechModule(value: unknown): value is SpeechModule {
   if (!value || typeof value !== 'object') {
@@ -58,7 +58,7 @@ function hasSpeechNativeModule() {
   }
 }
 
-async function loadSpeechModule() {
+export async function loadSpeechModule() {
   if (isInExpoGo() || !hasSpeechNativeModule()) {
     return null;
   }
@@ -18,6 +18,8 @@ import { OfflineScreen } from '../features/offline/OfflineScreen';
 import { OrgsAdminScreen } from '../features/orgs/OrgsAdminScreen';
 import { PlanningScreen } from '../features/planning/PlanningScreen';
 import { ProjectsListScreen } from '../features/projects/ProjectsListScreen';
+import { ChecklistTemplatesScreen } from '../features/control/ChecklistTemplatesScreen';
+import { RulesScreen } from '../features/rules/RulesScreen';
 import { ProjectDetailScreen } from '../features/projects/ProjectDetailScreen';
 import { ProjectCreateScreen } from '../features/projects/ProjectCreateScreen';
 import { ProjectEditScreen } from '../features/projects/ProjectEditScreen';
@@ -286,6 +288,16 @@ function EnterpriseStackScreen() {
       {availableModules.includes('backup') ? (
         <EnterpriseStack.Screen name="Backup" component={BackupScreen} options={{ title: 'Sauvegarde' }} />
       ) : null}
+      {availableModules.includes('rules') ? (
+        <EnterpriseStack.Screen name="Rules" component={RulesScreen} options={{ title: 'Règles' }} />
+      ) : null}
+      {availableModules.includes('control') ? (
+        <EnterpriseStack.Screen
+          name="ChecklistTemplates"
+          component={ChecklistTemplatesScreen}
+          options={{ title: 'Checklists inspection' }}
+        />
+      ) : null}
     </EnterpriseStack.Navigator>
   );
 }
@@ -10,6 +10,7 @@ import { BackupScreen } from '../features/backup/BackupScreen';
 import { CarbonScreen } from '../features/carbon/CarbonScreen';
 import { CompanyHubScreen } from '../features/company/CompanyHubScreen';
 import { ConflictsScreen } from '../features/conflicts/ConflictsScreen';
+import { ChecklistTemplatesScreen } from '../features/control/ChecklistTemplatesScreen';
 import { DashboardScreen } from '../features/dashboard/DashboardScreen';
 import { EquipmentScreen } from '../features/equipment/EquipmentScreen';
 import { EnterpriseHubScreen } from '../features/enterprise/EnterpriseHubScreen';
@@ -23,6 +24,7 @@ import { ProjectCreateScreen } from '../features/projects/ProjectCreateScreen';
 import { ProjectDetailScreen } from '../features/projects/ProjectDetailScreen';
 import { ProjectEditScreen } from '../features/projects/ProjectEditScreen';
 import { ProjectsListScreen } from '../features/projects/ProjectsListScreen';
+import { RulesScreen } from '../features/rules/RulesScreen';
 import { SearchScreen } from '../features/search/SearchScreen';
 import { SecurityScreen } from '../features/security/SecurityScreen';
 import { SecurityHubScreen } from '../features/security/SecurityHubScreen';
@@ -332,7 +334,9 @@ function EnterpriseStackScreen() {
     availableModules.includes('company') ||
     availableModules.includes('offers') ||
     availableModules.includes('governance') ||
-    availableModules.includes('backup');
+    availableModules.includes('backup') ||
+    availableModules.includes('rules') ||
+    availableModules.includes('control');
 
   if (enabled) {
     assertScreenKey(EnterpriseHubScreen, 'ENTERPRISE_HUB', 'EnterpriseHub');
@@ -363,6 +367,16 @@ function EnterpriseStackScreen() {
           {availableModules.includes('backup') ? (
             <EnterpriseStack.Screen name="Backup" component={BackupScreen} options={{ title: 'Sauvegarde' }} />
           ) : null}
+          {availableModules.includes('rules') ? (
+            <EnterpriseStack.Screen name="Rules" component={RulesScreen} options={{ title: 'Règles' }} />
+          ) : null}
+          {availableModules.includes('control') ? (
+            <EnterpriseStack.Screen
+              name="ChecklistTemplates"
+              component={ChecklistTemplatesScreen}
+              options={{ title: 'Checklists inspection' }}
+            />
+          ) : null}
         </>
       ) : (
         <EnterpriseStack.Screen name="EnterpriseHub" options={{ title: 'Entreprise' }}>
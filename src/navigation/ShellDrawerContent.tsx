@@ -54,7 +54,9 @@ export function ShellDrawerContent(props: DrawerContentComponentProps) {
       availableModules.includes('company') ||
       availableModules.includes('offers') ||
       availableModules.includes('governance') ||
-      availableModules.includes('backup');
+      availableModules.includes('backup') ||
+      availableModules.includes('rules') ||
+      availableModules.includes('control');
 
     const enabled = new Map<string, boolean>([
       [ROUTES.DASHBOARD, true],
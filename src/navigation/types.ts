@@ -77,6 +77,8 @@ export type EnterpriseStackParamList = {
   Offers: undefined;
   Governance: undefined;
   Backup: undefined;
+  Rules: undefined;
+  ChecklistTemplates: undefined;
 };
 
 export type AccountStackParamList = {
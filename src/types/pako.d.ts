@@ -0,0 +1,5 @@
+// pako 1.x ships without typings: only the zlib entry points used by the app are declared.
+declare module 'pako' {
+  export function inflate(data: Uint8Array): Uint8Array;
+  export function deflate(data: Uint8Array): Uint8Array;
+}
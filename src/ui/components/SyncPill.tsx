@@ -24,7 +24,7 @@ function formatLastResult(result: SyncRunResult | null) {
   if (!result) {
     return null;
   }
-  return `Envoyés:${result.pushed} Retentatives:${result.failed} Terminaux:${result.dead}`;
+  return `Envoyés:${result.pushed} Reçus:${result.pulled} Retentatives:${result.failed} Terminaux:${result.dead}`;
 }
 
 export function SyncPill({
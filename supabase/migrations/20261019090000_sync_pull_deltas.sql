@@ -0,0 +1,104 @@
+-- Pull-side delta sync: paginated read of `sync_shadow` per (org, entity).
+-- Cursor format (opaque for the client): `<updated_at>|<entity_id>`.
+-- The (updated_at, entity_id) tuple keeps pagination stable when several rows
+-- share the same timestamp.
+
+create index if not exists idx_sync_shadow_org_entity_cursor
+  on public.sync_shadow(org_id, entity, updated_at asc, entity_id asc);
+
+create or replace function public.pull_sync_deltas(
+  p_org_id uuid,
+  p_entity text,
+  p_cursor text default null,
+  p_limit integer default 200
+)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid;
+  v_limit integer;
+  v_cursor_at timestamptz;
+  v_cursor_id text;
+  v_items jsonb;
+  v_last_at timestamptz;
+  v_last_id text;
+begin
+  v_user_id := auth.uid();
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  if p_org_id is null then
+    raise exception 'org_id is required';
+  end if;
+
+  if coalesce(length(trim(p_entity)), 0) = 0 then
+    raise exception 'entity is required';
+  end if;
+
+  if not exists (
+    select 1 from public.org_members m
+    where m.org_id = p_org_id and m.user_id = v_user_id
+  ) then
+    raise exception 'forbidden: user is not org member';
+  end if;
+
+  v_limit := greatest(1, least(coalesce(p_limit, 200), 500));
+
+  if coalesce(length(trim(p_cursor)), 0) > 0 then
+    v_cursor_at := nullif(split_part(p_cursor, '|', 1), '')::timestamptz;
+    v_cursor_id := coalesce(split_part(p_cursor, '|', 2), '');
+  end if;
+
+  with page as (
+    select s.entity_id, s.payload, s.deleted, s.updated_at, s.updated_by
+    from public.sync_shadow s
+    where s.org_id = p_org_id
+      and s.entity = p_entity
+      and (
+        v_cursor_at is null
+        or (s.updated_at, s.entity_id) > (v_cursor_at, v_cursor_id)
+      )
+    order by s.updated_at asc, s.entity_id asc
+    limit v_limit
+  )
+  select
+    coalesce(
+      jsonb_agg(
+        jsonb_build_object(
+          'entity_id', page.entity_id,
+          'payload', page.payload,
+          'deleted', page.deleted,
+          'updated_at', page.updated_at,
+          'updated_by', page.updated_by
+        )
+        order by page.updated_at asc, page.entity_id asc
+      ),
+      '[]'::jsonb
+    )
+  into v_items
+  from page;
+
+  select x.updated_at, x.entity_id
+  into v_last_at, v_last_id
+  from jsonb_to_recordset(v_items) as x(updated_at timestamptz, entity_id text)
+  order by x.updated_at desc, x.entity_id desc
+  limit 1;
+
+  return jsonb_build_object(
+    'items', v_items,
+    'cursor',
+    case
+      when v_last_id is null then p_cursor
+      else v_last_at::text || '|' || v_last_id
+    end
+  );
+end;
+$$;
+
+revoke all on function public.pull_sync_deltas(uuid, text, text, integer) from public;
+grant execute on function public.pull_sync_deltas(uuid, text, text, integer) to authenticated;
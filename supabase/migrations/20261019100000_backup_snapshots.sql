@@ -0,0 +1,120 @@
+-- Server snapshots for backup/restore.
+-- A snapshot is the same ZIP bundle as a local export (manifest + db + optional files),
+-- uploaded to a private bucket so that a lost device can be restored on a new one.
+-- The app writes objects using the following path convention:
+--   {org_id}/snapshots/{YYYY-MM-DD}/{snapshot_id}.zip
+
+create table if not exists public.backup_snapshots (
+  id uuid primary key,
+  org_id uuid not null references public.organizations(id) on delete cascade,
+
+  storage_path text not null,
+  size_bytes bigint not null default 0,
+  include_media boolean not null default false,
+  format_version integer not null default 1,
+
+  created_by uuid not null references auth.users(id) on delete cascade,
+  created_at timestamptz not null default now(),
+
+  constraint backup_snapshots_path_scoped check (storage_path like (org_id::text || '/snapshots/%')),
+  constraint backup_snapshots_size_positive check (size_bytes >= 0)
+);
+
+create index if not exists idx_backup_snapshots_org_created
+  on public.backup_snapshots(org_id, created_at desc);
+
+alter table public.backup_snapshots enable row level security;
+
+drop policy if exists backup_snapshots_member_read on public.backup_snapshots;
+create policy backup_snapshots_member_read
+on public.backup_snapshots
+for select
+to authenticated
+using (public.is_org_member(org_id));
+
+drop policy if exists backup_snapshots_member_insert on public.backup_snapshots;
+create policy backup_snapshots_member_insert
+on public.backup_snapshots
+for insert
+to authenticated
+with check (
+  public.is_org_member(org_id)
+  and created_by = auth.uid()
+);
+
+drop policy if exists backup_snapshots_manager_delete on public.backup_snapshots;
+create policy backup_snapshots_manager_delete
+on public.backup_snapshots
+for delete
+to authenticated
+using (public.is_org_manager(org_id));
+
+insert into storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+values (
+  'conformeo-backups',
+  'conformeo-backups',
+  false,
+  367001600, -- 350 MB (same guard as the client-side export)
+  array['application/zip']::text[]
+)
+on conflict (id) do update
+set public = excluded.public,
+    file_size_limit = excluded.file_size_limit,
+    allowed_mime_types = excluded.allowed_mime_types;
+
+-- Allow authenticated users to read the bucket metadata (required by storage APIs).
+drop policy if exists conformeo_backups_bucket_read on storage.buckets;
+create policy conformeo_backups_bucket_read
+on storage.buckets
+for select
+to authenticated
+using (id = 'conformeo-backups');
+
+-- Objects: org members read/create their org snapshots (first path segment), managers delete.
+-- Snapshot paths are unique (snapshot id): uploads never overwrite, so there is no update policy.
+-- The uploader may delete its own object while no snapshot row references it (failed registration).
+-- We guard the cast with a UUID regex to avoid runtime cast errors.
+
+drop policy if exists conformeo_backups_objects_read on storage.objects;
+create policy conformeo_backups_objects_read
+on storage.objects
+for select
+to authenticated
+using (
+  bucket_id = 'conformeo-backups'
+  and split_part(name, '/', 1) ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+  and public.is_org_member(split_part(name, '/', 1)::uuid)
+);
+
+drop policy if exists conformeo_backups_objects_insert on storage.objects;
+create policy conformeo_backups_objects_insert
+on storage.objects
+for insert
+to authenticated
+with check (
+  bucket_id = 'conformeo-backups'
+  and split_part(name, '/', 1) ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+  and public.is_org_member(split_part(name, '/', 1)::uuid)
+);
+
+drop policy if exists conformeo_backups_objects_delete on storage.objects;
+create policy conformeo_backups_objects_delete
+on storage.objects
+for delete
+to authenticated
+using (
+  bucket_id = 'conformeo-backups'
+  and split_part(name, '/', 1) ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+  and (
+    public.is_org_manager(split_part(name, '/', 1)::uuid)
+    or (
+      owner = auth.uid()
+      and public.is_org_member(split_part(name, '/', 1)::uuid)
+      and not exists (
+        select 1
+        from public.backup_snapshots s
+        where s.storage_path = storage.objects.name
+      )
+    )
+  )
+);
@@ -0,0 +1,13 @@
+-- Rules editor: managers can edit the org rule set (admins already hold '*').
+-- Same seed shape as core_identity_security, so it stays idempotent.
+
+insert into public.role_permissions (org_id, role_key, permission)
+select o.id, 'manager', 'rules:*'
+from public.organizations o
+where exists (
+  select 1
+  from public.roles r
+  where r.org_id = o.id
+    and r.key = 'manager'
+)
+on conflict (org_id, role_key, permission) do nothing;